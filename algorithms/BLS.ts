@@ -0,0 +1,183 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { Fp12, G1, G1Point, G2, G2Point, R, g1FromHex, g1ToHex, g2FromHex, g2ToHex, hashToG2, pairingProduct } from './bls12-381';
+
+/**
+ * BLS签名算法（Boneh–Lynn–Shacham，BLS12-381上的最小公钥变体）
+ * 私钥sk ∈ [1, r)，公钥 PK = sk·G1（48字节），签名 σ = sk·H(m) ∈ G2（96字节）
+ * 验证 e(PK, H(m)) = e(G1, σ)；多个签名相加即可聚合为一个96字节的签名
+ * 哈希到G2采用RFC 9380的BLS12381G2_XMD:SHA-256_SSWU_RO_套件，签名可与其他BLS库互通
+ */
+export class BLS implements CryptoAlgorithm {
+  /**
+   * 域分隔标签：基本方案(NUL)，聚合验证要求消息互不相同，以抵御恶意公钥攻击
+   */
+  static readonly DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_';
+
+  constructor() {}
+
+  /**
+   * 生成BLS密钥对
+   * 私钥sk是[1, r-1]范围内的随机整数，公钥为 PK = sk·G1 的压缩编码
+   */
+  async generateKeys(): Promise<KeyPair> {
+    return this.keysFromPrivateKey(this.toHex(this.getRandomBigInt(1n, R - 1n)));
+  }
+
+  /**
+   * 由私钥构造密钥对
+   * @param privateKeyHex 32字节私钥（十六进制）
+   * @returns 密钥对，公钥为48字节压缩的G1点
+   */
+  keysFromPrivateKey(privateKeyHex: string): KeyPair {
+    const sk = BigInt(`0x${privateKeyHex}`);
+    if (sk <= 0n || sk >= R) {
+      throw new Error('私钥超出范围');
+    }
+
+    return {
+      publicKey: { key: g1ToHex(G1.multiply(G1.generator, sk)), curve: 'BLS12-381' },
+      privateKey: { sk: this.toHex(sk), curve: 'BLS12-381' },
+      keySize: 255
+    };
+  }
+
+  /**
+   * BLS签名算法实现，消息按UTF-8编码；签名是确定性的，不需要随机数
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为96字节压缩的G2点，messageHash为H(m)的压缩编码
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    const sk = BigInt(`0x${keys.privateKey.sk}`);
+    if (sk <= 0n || sk >= R) {
+      throw new Error('私钥超出范围');
+    }
+
+    // 1. 把消息哈希到G2上的点 H(m)
+    const H = this.hashToPoint(message);
+
+    // 2. 计算 σ = sk·H(m)
+    const signature = G2.multiply(H, sk);
+
+    return {
+      signature: g2ToHex(signature),
+      messageHash: g2ToHex(H),
+      curve: 'BLS12-381',
+      hash: 'SHA-256'
+    };
+  }
+
+  /**
+   * BLS签名验证算法实现
+   * 检查 e(PK, H(m))·e(−G1, σ) = 1，两个配对共享一次最终幂
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或96字节签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    return this.verifyAggregate([message], signature, [keys]);
+  }
+
+  /**
+   * 聚合签名：σ = Σ σ_i，结果仍是一个96字节的G2点
+   * @param signatures 签名结果或签名的十六进制字符串
+   * @returns 聚合签名的十六进制
+   */
+  aggregate(signatures: any[]): string {
+    if (signatures.length === 0) {
+      throw new Error('至少需要一个签名');
+    }
+    const sum = signatures.reduce((acc, signature) => G2.add(acc, g2FromHex(this.signatureHex(signature))), G2.infinity);
+    return g2ToHex(sum);
+  }
+
+  /**
+   * 验证聚合签名：Π e(PK_i, H(m_i))·e(−G1, σ) = 1
+   * n个签名只需n + 1次Miller循环与一次最终幂；基本方案要求消息互不相同
+   *
+   * @param messages 各签名者签署的消息
+   * @param signature 聚合签名结果或十六进制字符串
+   * @param keys 与消息一一对应的公钥
+   * @returns 验证结果(布尔值)
+   */
+  async verifyAggregate(messages: string[], signature: any, keys: KeyPair[]): Promise<boolean> {
+    try {
+      if (messages.length === 0 || messages.length !== keys.length || new Set(messages).size !== messages.length) {
+        return false;
+      }
+
+      // 1. 解码签名与公钥，拒绝无穷远点与不在r阶子群中的点
+      const sigma = g2FromHex(this.signatureHex(signature));
+      const publicKeys = keys.map(k => g1FromHex(k.publicKey?.key));
+      if (G2.isInfinity(sigma) || publicKeys.some(pk => G1.isInfinity(pk))) {
+        return false;
+      }
+
+      // 2. 计算配对乘积并与1比较
+      const pairs: [G1Point, G2Point][] = messages.map((message, i) => [publicKeys[i], this.hashToPoint(message)]);
+      pairs.push([G1.negate(G1.generator), sigma]);
+      return Fp12.eq(pairingProduct(pairs), Fp12.one);
+    } catch (error) {
+      // 静默失败，返回false而不输出错误日志
+      return false;
+    }
+  }
+
+  /**
+   * 把消息哈希到G2：H(m) = hash_to_curve(m, DST)
+   */
+  private hashToPoint(message: string): G2Point {
+    const encoder = new TextEncoder();
+    return hashToG2(encoder.encode(message), encoder.encode(BLS.DST));
+  }
+
+  /**
+   * 读取签名的十六进制串
+   */
+  private signatureHex(signature: any): string {
+    const hex = typeof signature === 'string' ? signature : signature?.signature;
+    if (typeof hex !== 'string' || !/^[0-9a-fA-F]{192}$/.test(hex)) {
+      throw new Error('BLS签名须为96字节');
+    }
+    return hex;
+  }
+
+  /**
+   * 生成指定范围内的随机大整数
+   */
+  private getRandomBigInt(min: bigint, max: bigint): bigint {
+    const range = max - min;
+    // 多取8个字节，降低取模造成的偏差
+    const randomBytes = this.getRandomBytes(Math.ceil(range.toString(16).length / 2) + 8);
+    const value = randomBytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+    return min + (value % (range + 1n));
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 大整数转换为64位十六进制字符串
+   */
+  private toHex(n: bigint): string {
+    return n.toString(16).padStart(64, '0');
+  }
+}
@@ -1,4 +1,7 @@
-import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions } from './types';
+import { digestHex, sha256 } from './hash';
+import { bits2int, generateK } from './rfc6979';
+import { exportDsaPrivateKey, exportDsaPublicKey, importPrivateKey, importPublicKey } from './key-formats';
 
 export class DSA implements CryptoAlgorithm {
   // DSA参数
@@ -7,15 +10,15 @@ export class DSA implements CryptoAlgorithm {
   private g: bigint = 0n; // 模p的生成元
 
   // 参数位长设置
-  private readonly P_BITS = 2048; // p的位长
-  private readonly Q_BITS = 256;  // q的位长
+  private readonly P_BITS = 2048; // p的默认位长L
+  private readonly Q_BITS = 256;  // q的默认位长N
+
+  // FIPS 186-4 4.2 允许的(L, N)组合
+  private readonly PARAMETER_SIZES: [number, number][] = [[1024, 160], [2048, 224], [2048, 256], [3072, 256]];
+
+  // 试除用的小素数，在Miller-Rabin测试前快速排除候选值
+  private readonly SMALL_PRIMES = [3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n, 43n, 47n, 53n, 59n, 61n, 67n, 71n, 73n, 79n, 83n, 89n, 97n];
 
-  // 存储已使用过的k值，防止重复使用
-  private usedKValues = new Set<string>();
-  
-  // DSA标准建议使用的哈希位长，确保哈希值适合q的大小
-  private readonly HASH_BITS = 256;
-  
   // 缓存计算结果，提高性能
   private modExpCache = new Map<string, bigint>();
 
@@ -24,16 +27,18 @@ export class DSA implements CryptoAlgorithm {
   /**
    * 生成DSA参数p、q、g
    * 按照FIPS 186-4标准
+   * @param pBits p的位长L
+   * @param qBits q的位长N
    */
-  private async generateParameters(): Promise<void> {
-    console.log("正在生成DSA参数，这可能需要一些时间...");
+  private async generateParameters(pBits: number, qBits: number): Promise<void> {
+    console.log(`正在生成(${pBits}, ${qBits})位DSA参数，这可能需要一些时间...`);
     
-    // 步骤1：生成素数q (256位)
-    this.q = await this.generatePrime(this.Q_BITS);
+    // 步骤1：生成素数q (N位)
+    this.q = await this.generatePrime(qBits);
     console.log("生成q完成...");
     
     // 步骤2：找到适当的素数p，使得p-1是q的倍数 (p = N*q + 1)
-    this.p = await this.generatePWithQ(this.q, this.P_BITS);
+    this.p = await this.generatePWithQ(this.q, pBits);
     console.log("生成p完成...");
     
     // 步骤3：计算生成元g
@@ -99,8 +104,8 @@ export class DSA implements CryptoAlgorithm {
       // 计算p = N*q + 1
       const p = N * q + 1n;
       
-      // 检查p的位长
-      if (this.getBitLength(p) < pBits) {
+      // 检查p的位长，并用小素数试除排除大部分合数
+      if (this.getBitLength(p) !== pBits || this.SMALL_PRIMES.some(prime => p % prime === 0n)) {
         continue;
       }
       
@@ -256,60 +261,13 @@ export class DSA implements CryptoAlgorithm {
   }
 
   /**
-   * 使用SHA-256计算消息哈希，并正确截断以适应DSA参数q
+   * 使用SHA-256计算消息哈希，并按FIPS 186-4截断以适应DSA参数q
    * @param message 需要哈希的消息
-   * @returns 消息哈希的BigInt表示，截断至适合q的比特长度
+   * @param q 子群的阶
+   * @returns 哈希最左侧min(N, 256)位的BigInt表示 (即RFC 6979中的bits2int)
    */
-  private async hashSHA256(message: string): Promise<bigint> {
-    try {
-      // 获取完整的SHA-256哈希
-      const fullHashHex = await this.getFullSHA256(message);
-      const fullHashBytes = this.hexToBytes(fullHashHex);
-      
-      // 计算q的比特长度，确定需要多少位
-      const qBitLength = this.getBitLength(this.q);
-      
-      // 按照FIPS 186-4标准，如果哈希长度大于q的位长，需要截断左侧位
-      // 将哈希值截断为qBitLength位（从左侧取位）
-      const hashBitsToUse = Math.min(this.HASH_BITS, qBitLength);
-      const bytesToUse = Math.ceil(hashBitsToUse / 8);
-      
-      // 从左侧（最高有效位）取字节
-      let hashValue = 0n;
-      for (let i = 0; i < bytesToUse; i++) {
-        hashValue = (hashValue << 8n) | BigInt(fullHashBytes[i]);
-      }
-      
-      // 如果哈希位长大于q的位长，需要右移
-      if (this.HASH_BITS > qBitLength) {
-        hashValue = hashValue >> BigInt(this.HASH_BITS - qBitLength);
-      }
-      
-      // 确保值小于q
-      return hashValue % this.q;
-      
-    } catch (error) {
-      console.error('SHA-256哈希计算失败:', error);
-      // 备用方案
-      return this.backupHash(message);
-    }
-  }
-
-  /**
-   * 备用哈希函数，当Web Crypto API不可用时使用
-   * @param message 需要哈希的消息
-   * @returns 哈希值的BigInt表示
-   */
-  private backupHash(message: string): bigint {
-    let h = 0;
-    for (let i = 0; i < message.length; i++) {
-      h = ((h << 5) - h) + message.charCodeAt(i);
-      h |= 0; // 转换为32位整数
-    }
-    
-    // 确保结果为正数
-    h = Math.abs(h);
-    return BigInt(h) % this.q;
+  private hashSHA256(message: string, q: bigint): bigint {
+    return bits2int(sha256(message), this.getBitLength(q));
   }
 
   /**
@@ -322,10 +280,36 @@ export class DSA implements CryptoAlgorithm {
     return n.toString(2).length;
   }
 
-  async generateKeys(): Promise<KeyPair> {
-    // 如果还没有初始化参数，先生成DSA参数
-    if (this.p === 0n || this.q === 0n || this.g === 0n) {
-      await this.generateParameters();
+  /**
+   * 确定DSA参数位长(L, N)
+   * 只给出L时取该L下最大的N
+   * @param options 密钥生成选项，keySize为L，subgroupSize为N
+   * @returns 参数位长
+   */
+  private resolveParameterSizes(options: KeyGenerationOptions): { pBits: number; qBits: number } {
+    const pBits = options.keySize ?? this.P_BITS;
+    const allowed = this.PARAMETER_SIZES.filter(([L]) => L === pBits).map(([, N]) => N);
+    const qBits = options.subgroupSize ?? (options.keySize === undefined ? this.Q_BITS : allowed[allowed.length - 1]);
+
+    if (qBits === undefined || !allowed.includes(qBits)) {
+      const pairs = this.PARAMETER_SIZES.map(([L, N]) => `(${L}, ${N})`).join('、');
+      throw new Error(`不支持的DSA参数(L, N) = (${pBits}, ${qBits ?? '-'})，FIPS 186-4仅允许${pairs}`);
+    }
+    return { pBits, qBits };
+  }
+
+  /**
+   * 生成DSA密钥对
+   * 域参数(p, q, g)会被缓存，只有位长改变时才重新生成
+   * @param options 密钥生成选项，keySize和subgroupSize指定(L, N)，默认为(2048, 256)
+   * @returns 密钥对
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const { pBits, qBits } = this.resolveParameterSizes(options);
+
+    // 如果还没有初始化参数，或者位长与要求不同，先生成DSA参数
+    if (this.p === 0n || this.getBitLength(this.p) !== pBits || this.getBitLength(this.q) !== qBits) {
+      await this.generateParameters(pBits, qBits);
     }
     
     // 生成随机私钥x (x < q)
@@ -350,221 +334,17 @@ export class DSA implements CryptoAlgorithm {
 
   /**
    * 基于RFC 6979的确定性k值生成
-   * 确保每次对相同消息和私钥的签名生成唯一且确定的k值
+   * 使用HMAC-SHA256驱动的HMAC-DRBG，对相同的消息和私钥总是生成相同的k值
    * 同时避免了对随机数生成器的依赖，增强了安全性
    * 
-   * @param privateKey 私钥
-   * @param messageHash 消息哈希值
+   * @param privateKey 私钥x
+   * @param q 子群的阶
+   * @param message 待签名的消息
+   * @param attempt 已因r = 0或s = 0被放弃的候选值个数
    * @returns 确定性生成的k值
    */
-  private async generateDeterministicK(privateKey: bigint, messageHash: bigint): Promise<bigint> {
-    // 转换为字节数组
-    const xBytes = this.bigintToBytes(privateKey);
-    const mBytes = this.bigintToBytes(messageHash);
-    
-    // 初始化
-    const v = new Uint8Array(32).fill(1);  // V = 0x01 0x01 0x01 ... 0x01
-    const k = new Uint8Array(32).fill(0);  // K = 0x00 0x00 0x00 ... 0x00
-    
-    // 使用HMAC-SHA256进行计算，但由于我们在浏览器环境可能无法使用HMAC
-    // 使用简化的方法计算一个伪HMAC
-    
-    // 第一步：合并数据
-    const data1 = new Uint8Array(v.length + 1 + xBytes.length + mBytes.length);
-    data1.set(v, 0);
-    data1[v.length] = 0; // 0x00
-    data1.set(xBytes, v.length + 1);
-    data1.set(mBytes, v.length + 1 + xBytes.length);
-    
-    // 哈希data1，更新K
-    const k1 = await this.sha256bytes(data1);
-    for (let i = 0; i < k.length && i < k1.length; i++) {
-      k[i] = k1[i];
-    }
-    
-    // 哈希K||V，更新V
-    const v1 = await this.sha256bytes(this.concatBytes(k, v));
-    for (let i = 0; i < v.length && i < v1.length; i++) {
-      v[i] = v1[i];
-    }
-    
-    // 第二步
-    const data2 = new Uint8Array(v.length + 1 + xBytes.length + mBytes.length);
-    data2.set(v, 0);
-    data2[v.length] = 1; // 0x01
-    data2.set(xBytes, v.length + 1);
-    data2.set(mBytes, v.length + 1 + xBytes.length);
-    
-    // 哈希data2，更新K
-    const k2 = await this.sha256bytes(data2);
-    for (let i = 0; i < k.length && i < k2.length; i++) {
-      k[i] = k2[i];
-    }
-    
-    // 哈希K||V，更新V
-    const v2 = await this.sha256bytes(this.concatBytes(k, v));
-    for (let i = 0; i < v.length && i < v2.length; i++) {
-      v[i] = v2[i];
-    }
-    
-    // 生成k值
-    let t = new Uint8Array(0);
-    
-    // 循环直到找到有效的k
-    while (true) {
-      // 更新V
-      const newV = await this.sha256bytes(this.concatBytes(k, v));
-      for (let i = 0; i < v.length && i < newV.length; i++) {
-        v[i] = newV[i];
-      }
-      
-      // 创建新的ArrayBuffer而不是直接连接
-      const tNew = new Uint8Array(t.length + v.length);
-      tNew.set(t, 0);
-      tNew.set(v, t.length);
-      t = tNew;
-      
-      // 如果T长度足够
-      if (t.length >= 32) {
-        // 将T转换为BigInt
-        let kBigInt = 0n;
-        for (let i = 0; i < Math.min(32, t.length); i++) {
-          kBigInt = (kBigInt << 8n) | BigInt(t[i]);
-        }
-        
-        // 确保k在[1, q-1]范围内
-        kBigInt = kBigInt % (this.q - 1n) + 1n;
-        
-        // 检查k是否已被使用
-        const kStr = kBigInt.toString();
-        if (!this.usedKValues.has(kStr)) {
-          // 记录已使用的k值
-          this.usedKValues.add(kStr);
-          return kBigInt;
-        }
-        
-        // 如果k已被使用，继续循环生成新的k
-        // 更新K和V
-        const data3 = new Uint8Array(v.length + 1);
-        data3.set(v, 0);
-        data3[v.length] = 0; // 0x00
-        
-        const k3 = await this.sha256bytes(this.concatBytes(k, data3));
-        for (let i = 0; i < k.length && i < k3.length; i++) {
-          k[i] = k3[i];
-        }
-        
-        const v3 = await this.sha256bytes(this.concatBytes(k, v));
-        for (let i = 0; i < v.length && i < v3.length; i++) {
-          v[i] = v3[i];
-        }
-        
-        t = new Uint8Array(0);
-      }
-    }
-  }
-
-  /**
-   * 连接两个字节数组，确保返回类型一致
-   */
-  private concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
-    const result = new Uint8Array(a.length + b.length);
-    result.set(a, 0);
-    result.set(b, a.length);
-    return result;
-  }
-
-  /**
-   * 将BigInt转换为字节数组
-   */
-  private bigintToBytes(n: bigint): Uint8Array {
-    // 确保非负
-    if (n < 0n) {
-      throw new Error("Cannot convert negative BigInt to bytes");
-    }
-    
-    if (n === 0n) {
-      return new Uint8Array(1); // 返回单个零字节
-    }
-    
-    // 计算需要的字节数
-    const byteLength = Math.ceil(this.getBitLength(n) / 8);
-    const bytes = new Uint8Array(byteLength);
-    
-    let temp = n;
-    for (let i = byteLength - 1; i >= 0; i--) {
-      bytes[i] = Number(temp & 0xffn);
-      temp = temp >> 8n;
-    }
-    
-    return bytes;
-  }
-
-  /**
-   * 计算字节数组的SHA-256哈希
-   * 由于类型兼容性问题，我们使用修改后的实现
-   */
-  private async sha256bytes(data: Uint8Array): Promise<Uint8Array> {
-    if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
-      try {
-        // 浏览器环境下使用Web Crypto API
-        const hashBuffer = await window.crypto.subtle.digest('SHA-256', data);
-        return new Uint8Array(hashBuffer);
-      } catch (e) {
-        console.warn("使用Web Crypto API进行SHA-256哈希计算失败，使用备用实现", e);
-        return this.simpleSha256(data);
-      }
-    } else {
-      // 非浏览器环境或Web Crypto不可用，使用简单实现
-      return this.simpleSha256(data);
-    }
-  }
-
-  /**
-   * 简单的SHA-256实现（备用）
-   */
-  private simpleSha256(data: Uint8Array): Uint8Array {
-    // 这是一个简化版的哈希实现，不是标准的SHA-256
-    let h0 = 0x6a09e667;
-    let h1 = 0xbb67ae85;
-    let h2 = 0x3c6ef372;
-    let h3 = 0xa54ff53a;
-    let h4 = 0x510e527f;
-    let h5 = 0x9b05688c;
-    let h6 = 0x1f83d9ab;
-    let h7 = 0x5be0cd19;
-    
-    // 改进混合逻辑，增加混淆效果
-    const mix = (val: number, byte: number): number => {
-      const rotated = ((val << 7) | (val >>> 25)) ^ ((val << 11) | (val >>> 21));
-      return (rotated + byte) | 0;
-    };
-    
-    for (let i = 0; i < data.length; i++) {
-      const byte = data[i];
-      h0 = mix(h0, byte);
-      h1 = mix(h1, h0 ^ byte);
-      h2 = mix(h2, h1 ^ byte);
-      h3 = mix(h3, h2 ^ byte);
-      h4 = mix(h4, h3 ^ byte);
-      h5 = mix(h5, h4 ^ byte);
-      h6 = mix(h6, h5 ^ byte);
-      h7 = mix(h7, h6 ^ byte);
-    }
-    
-    const result = new Uint8Array(32);
-    for (let i = 0; i < 4; i++) {
-      result[i] = (h0 >>> (24 - i * 8)) & 0xff;
-      result[i + 4] = (h1 >>> (24 - i * 8)) & 0xff;
-      result[i + 8] = (h2 >>> (24 - i * 8)) & 0xff;
-      result[i + 12] = (h3 >>> (24 - i * 8)) & 0xff;
-      result[i + 16] = (h4 >>> (24 - i * 8)) & 0xff;
-      result[i + 20] = (h5 >>> (24 - i * 8)) & 0xff;
-      result[i + 24] = (h6 >>> (24 - i * 8)) & 0xff;
-      result[i + 28] = (h7 >>> (24 - i * 8)) & 0xff;
-    }
-    
-    return result;
+  private generateDeterministicK(privateKey: bigint, q: bigint, message: string, attempt: number = 0): bigint {
+    return generateK(q, privateKey, sha256(message), 'SHA-256', attempt);
   }
 
   /**
@@ -582,46 +362,48 @@ export class DSA implements CryptoAlgorithm {
       const x = BigInt(keys.privateKey.x);
       
       // 使用SHA-256哈希函数并正确截断
-      const messageHash = await this.hashSHA256(message);
-      
-      // 使用确定性方法生成k，确保安全性
-      const k = await this.generateDeterministicK(x, messageHash);
-      
-      // 计算r = (g^k mod p) mod q
-      const r = this.modExp(g, k, p) % q;
-      
-      // 检查r是否为0（极低概率，确定性k应该避免此情况）
-      if (this.constantTimeEquals(r, 0n)) {
-        console.warn('生成的r为0，重新签名');
-        return this.sign(message, keys);
-      }
-      
-      // 计算k的模逆元
-      const kInv = this.modInverse(k, q);
-      
-      // 计算 s = k^-1 * (H(M) + x*r) mod q
-      // 注意：所有操作采用模运算避免中间值过大
-      const xr = (x * r) % q;
-      const sum = (messageHash + xr) % q;
-      const s = (kInv * sum) % q;
-      
-      // 检查s是否为0
-      if (this.constantTimeEquals(s, 0n)) {
-        console.warn('生成的s为0，重新签名');
-        return this.sign(message, keys);
-      }
+      const messageHash = this.hashSHA256(message, q);
       
       // 计算原始消息的完整SHA-256哈希供显示
       const messageHashHex = await this.getFullSHA256(message);
       
-      return { 
-        signature: null,
-        r: r.toString(), 
-        s: s.toString(),
-        messageHash: messageHashHex,
-        pBits: Number(this.getBitLength(p)), // 添加位长信息
-        qBits: Number(this.getBitLength(q))  // 添加位长信息
-      };
+      // 使用RFC 6979确定性方法生成k，若r或s为0则取下一个候选值
+      for (let attempt = 0; ; attempt++) {
+        const k = this.generateDeterministicK(x, q, message, attempt);
+        
+        // 计算r = (g^k mod p) mod q
+        const r = this.modExp(g, k, p) % q;
+        
+        // 检查r是否为0（极低概率）
+        if (this.constantTimeEquals(r, 0n)) {
+          console.warn('生成的r为0，使用下一个候选k值');
+          continue;
+        }
+        
+        // 计算k的模逆元
+        const kInv = this.modInverse(k, q);
+        
+        // 计算 s = k^-1 * (H(M) + x*r) mod q
+        // 注意：所有操作采用模运算避免中间值过大
+        const xr = (x * r) % q;
+        const sum = (messageHash + xr) % q;
+        const s = (kInv * sum) % q;
+        
+        // 检查s是否为0
+        if (this.constantTimeEquals(s, 0n)) {
+          console.warn('生成的s为0，使用下一个候选k值');
+          continue;
+        }
+        
+        return { 
+          signature: null,
+          r: r.toString(), 
+          s: s.toString(),
+          messageHash: messageHashHex,
+          pBits: Number(this.getBitLength(p)), // 添加位长信息
+          qBits: Number(this.getBitLength(q))  // 添加位长信息
+        };
+      }
     } catch (error) {
       console.error('DSA签名生成错误:', error);
       throw error;
@@ -654,7 +436,7 @@ export class DSA implements CryptoAlgorithm {
       const w = this.modInverse(sBigInt, q);
       
       // 计算消息哈希（使用SHA-256并正确截断）
-      const messageHash = await this.hashSHA256(message);
+      const messageHash = this.hashSHA256(message, q);
       
       // 计算u1 = H(M) * w mod q
       const u1 = (messageHash * w) % q;
@@ -676,6 +458,49 @@ export class DSA implements CryptoAlgorithm {
     }
   }
 
+  /**
+   * 导出PEM格式密钥
+   * 公钥为包含域参数(p, q, g)的SubjectPublicKeyInfo (RFC 3279)，私钥为PKCS#8
+   */
+  exportPem(keys: KeyPair): { publicKey: string; privateKey: string | null } {
+    const p = BigInt(keys.publicKey.p);
+    const q = BigInt(keys.publicKey.q);
+    const g = BigInt(keys.publicKey.g);
+
+    return {
+      publicKey: exportDsaPublicKey({ p, q, g, y: BigInt(keys.publicKey.y) }),
+      privateKey: keys.privateKey ? exportDsaPrivateKey({ p, q, g, x: BigInt(keys.privateKey.x) }) : null
+    };
+  }
+
+  /**
+   * 导入PEM格式密钥（SubjectPublicKeyInfo或PKCS#8）
+   * 导入私钥时由 y = g^x mod p 恢复公钥；只有公钥时privateKey为null
+   */
+  importPem(pem: string): KeyPair {
+    const isPrivate = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(pem);
+    const imported = isPrivate ? importPrivateKey(pem) : importPublicKey(pem);
+    if (imported.type !== 'DSA') {
+      throw new Error('不是DSA密钥');
+    }
+
+    const { p, q, g } = imported.key;
+    const x = 'x' in imported.key ? imported.key.x : null;
+    const y = 'y' in imported.key ? imported.key.y : this.modExp(g, x!, p);
+
+    return {
+      publicKey: {
+        p,
+        q,
+        g,
+        y,
+        pBits: this.getBitLength(p),
+        qBits: this.getBitLength(q)
+      },
+      privateKey: x === null ? null : { x }
+    };
+  }
+
   /**
    * 恒定时间比较两个大整数
    * 防止时间侧信道攻击
@@ -705,34 +530,7 @@ export class DSA implements CryptoAlgorithm {
    * @returns SHA-256哈希的十六进制字符串
    */
   private async getFullSHA256(message: string): Promise<string> {
-    if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
-      const encoder = new TextEncoder();
-      const messageBuffer = encoder.encode(message);
-      const hashBuffer = await window.crypto.subtle.digest('SHA-256', messageBuffer);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      return hashHex;
-    } else {
-      // 备用方案：返回简单哈希的十六进制表示
-      const backupHashBytes = this.simpleSha256(new TextEncoder().encode(message));
-      return Array.from(backupHashBytes).map(b => b.toString(16).padStart(2, '0')).join('');
-    }
-  }
-
-  /**
-   * 将十六进制字符串转换为字节数组
-   */
-  private hexToBytes(hex: string): Uint8Array {
-    if (hex.length % 2 !== 0) {
-      hex = '0' + hex; // 确保偶数长度
-    }
-    
-    const bytes = new Uint8Array(hex.length / 2);
-    for (let i = 0; i < bytes.length; i++) {
-      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
-    }
-    
-    return bytes;
+    return digestHex('SHA-256', message);
   }
 
   // 生成指定范围内的安全随机大整数
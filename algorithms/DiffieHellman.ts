@@ -0,0 +1,79 @@
+import { KeyPair, KeyGenerationOptions } from './types';
+import { KeyAgreementAlgorithm } from './key-exchange-types';
+import { ElGamalEncryption } from './ElGamalEncryption';
+
+/**
+ * 有限域Diffie-Hellman密钥协商
+ * 与ElGamal加密共用RFC 3526的MODP群和密钥格式：私钥x，公钥y = g^x mod p
+ * 双方交换公钥后各自计算 Z = y_对方^x mod p，得到相同的共享秘密 g^(ab) mod p
+ */
+export class DiffieHellman implements KeyAgreementAlgorithm {
+  name = 'DH';
+  description = 'Diffie-Hellman密钥交换由Whitfield Diffie和Martin Hellman在1976年提出。通信双方在公开信道上交换g^a和g^b，各自计算出相同的共享秘密g^(ab)，窃听者仅凭公开值无法求出该秘密。';
+
+  // 密钥生成与ElGamal加密完全相同，生成的密钥可以互换使用
+  private readonly elgamal = new ElGamalEncryption();
+
+  /**
+   * 生成DH密钥对
+   * @param options 密钥生成选项，keySize为MODP群素数p的位长（1536、2048、3072或4096，默认2048）
+   * @returns 密钥对，格式与ElGamalEncryption相同
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    return this.elgamal.generateKeys(options);
+  }
+
+  /**
+   * 计算共享秘密 Z = y^x mod p
+   * 按SP 800-56A 5.6.2.3.1检查对方公钥：1 < y < p-1，且y位于q = (p-1)/2阶子群内
+   * @param privateKey 己方私钥
+   * @param peerPublicKey 对方公钥
+   * @returns 共享秘密（十六进制，按p的字节长度定长编码）
+   */
+  async computeSharedSecret(privateKey: any, peerPublicKey: any): Promise<string> {
+    const p = BigInt(privateKey.p);
+    const x = BigInt(privateKey.x);
+    const y = BigInt(peerPublicKey.y);
+
+    // 1. 双方必须使用同一个群
+    if (BigInt(peerPublicKey.p) !== p) {
+      throw new Error('双方的DH群参数不一致');
+    }
+
+    // 2. 检查对方公钥，拒绝1、p-1等小子群中的元素
+    if (y <= 1n || y >= p - 1n || this.modPow(y, (p - 1n) / 2n, p) !== 1n) {
+      throw new Error('无效的DH公钥');
+    }
+
+    // 3. Z = y^x mod p
+    const z = this.modPow(y, x, p);
+    return z.toString(16).padStart(Math.ceil(this.getBitLength(p) / 8) * 2, '0');
+  }
+
+  /**
+   * 快速模幂算法计算 base^exponent mod modulus
+   */
+  private modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    if (modulus === 1n) return 0n;
+
+    let result = 1n;
+    base = base % modulus;
+
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+      exponent >>= 1n;
+      base = (base * base) % modulus;
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取大整数的位长度
+   */
+  private getBitLength(n: bigint): number {
+    return n.toString(2).length;
+  }
+}
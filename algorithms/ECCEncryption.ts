@@ -1,4 +1,17 @@
-import { KeyPair, EncryptionResult, EncryptionAlgorithm } from './encryption-types';
+import { KeyPair, EncryptionResult, EncryptionAlgorithm, IntegrityError } from './encryption-types';
+import { KeyGenerationOptions } from './types';
+import { CurveParameters, DEFAULT_CURVE, getCurve, isOnCurve } from './curves';
+import { hmac, x963Kdf } from './hash';
+import { aesCbcDecrypt, aesCbcEncrypt } from './symmetric';
+import {
+  EcPrivateKeyComponents,
+  EcPublicKeyComponents,
+  exportEcPrivateKey,
+  exportEcPublicKey,
+  importPrivateKey,
+  importPublicKey
+} from './key-formats';
+import { exportEcPrivateJwk, exportEcPublicJwk, importPrivateJwk, importPublicJwk, isPrivateJwk, Jwk } from './jwk';
 
 /**
  * 椭圆曲线加密算法实现类
@@ -9,70 +22,179 @@ export class ECCEncryption implements EncryptionAlgorithm {
   name = 'ECC';
   description = 'ECC(椭圆曲线密码学)是一种基于椭圆曲线数学的非对称加密算法，相比传统的RSA算法，ECC可以使用更短的密钥提供相同级别的安全性。';
   
-  // 使用自定义的椭圆曲线参数（简化版的secp256k1参数）
-  private curve = {
-    p: BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F'), // 素数域大小
-    a: BigInt(0), // 曲线参数a
-    b: BigInt(7), // 曲线参数b
-    Gx: BigInt('0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798'), // 基点x坐标
-    Gy: BigInt('0x483ADA7726A3C4655DA4FBFC0E1108A8FD17B448A68554199C47D08FFB10D4B8'), // 基点y坐标
-    n: BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141'), // 基点阶
-    name: 'secp256k1'
-  };
-
-  // 用于哈希函数的常量
-  private readonly HASH_INIT = [
-    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
-    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
-  ];
-
   /**
    * 生成ECC密钥对
+   * @param options 密钥生成选项，curve为曲线名称（secp256k1、P-256、P-384或P-521，默认secp256k1）
    * @returns 包含公钥和私钥的KeyPair对象
    */
-  async generateKeys(): Promise<KeyPair> {
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const curve = getCurve(options.curve);
+
     try {
       // 生成私钥（随机数）
-      const privateKey = this.generateRandomBigInt(this.curve.n - BigInt(1));
+      const privateKey = this.generateRandomBigInt(curve.n - BigInt(1));
       
       // 根据私钥计算公钥点 Q = d * G
       const publicKeyPoint = this.pointMultiply(
-        { x: this.curve.Gx, y: this.curve.Gy },
-        privateKey
+        { x: curve.Gx, y: curve.Gy },
+        privateKey,
+        curve
       );
       
-      // 将公钥点转换为压缩格式
-      const publicKey = this.pointToHex(publicKeyPoint);
-      
-      return {
-        publicKey: {
-          key: publicKey,
-          curve: this.curve.name
-        },
-        privateKey: {
-          key: privateKey.toString(16).padStart(64, '0'),
-          curve: this.curve.name
-        },
-        keySize: 256,
-        publicKeyDetails: {
-          algorithm: 'ECC',
-          curve: this.curve.name,
-          keySize: '256位',
-          publicKey: this.abbreviateString(publicKey)
-        },
-        privateKeyDetails: {
-          algorithm: 'ECC',
-          curve: this.curve.name,
-          keySize: '256位',
-          privateKey: this.abbreviateString(privateKey.toString(16))
-        }
-      };
+      return this.toKeyPair(curve, publicKeyPoint, privateKey);
     } catch (error) {
       console.error('ECC密钥生成错误:', error);
       throw new Error('ECC密钥生成失败');
     }
   }
 
+  /**
+   * 导出PEM格式密钥
+   * 公钥为SubjectPublicKeyInfo (RFC 5480，未压缩点)，私钥为PKCS#8（内含SEC 1 ECPrivateKey）
+   * @param keys 密钥对
+   * @returns PEM格式的公钥和私钥
+   */
+  exportPem(keys: KeyPair): { publicKey: string; privateKey: string | null } {
+    const publicKey = this.toPublicKeyComponents(keys);
+    return {
+      publicKey: exportEcPublicKey(publicKey),
+      privateKey: keys.privateKey ? exportEcPrivateKey(this.toPrivateKeyComponents(keys)) : null
+    };
+  }
+
+  /**
+   * 导入PEM格式密钥（SubjectPublicKeyInfo、SEC 1或PKCS#8）
+   * 导入私钥时由 Q = d * G 恢复公钥；只有公钥时privateKey为null
+   * @param pem PEM文本
+   * @returns 密钥对
+   */
+  importPem(pem: string): KeyPair {
+    const isPrivate = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(pem);
+    const imported = isPrivate ? importPrivateKey(pem) : importPublicKey(pem);
+    if (imported.type !== 'EC') {
+      throw new Error('不是椭圆曲线密钥');
+    }
+    return this.fromComponents(imported.key);
+  }
+
+  /**
+   * 导出JWK格式密钥（kty为EC，crv为曲线名称，secp256k1见RFC 8812），kid为RFC 7638指纹
+   * @param keys 密钥对
+   * @returns JWK格式的公钥和私钥
+   */
+  exportJwk(keys: KeyPair): { publicKey: Jwk; privateKey: Jwk | null } {
+    return {
+      publicKey: exportEcPublicJwk(this.toPublicKeyComponents(keys)),
+      privateKey: keys.privateKey ? exportEcPrivateJwk(this.toPrivateKeyComponents(keys)) : null
+    };
+  }
+
+  /**
+   * 导入JWK格式密钥
+   * 包含d时导入私钥并检查x、y与 d * G 一致，否则privateKey为null
+   * @param jwk JWK对象
+   * @returns 密钥对
+   */
+  importJwk(jwk: Jwk): KeyPair {
+    const imported = isPrivateJwk(jwk) ? importPrivateJwk(jwk) : importPublicJwk(jwk);
+    if (imported.type !== 'EC') {
+      throw new Error('不是椭圆曲线密钥');
+    }
+    return this.fromComponents(imported.key);
+  }
+
+  /**
+   * 从密钥对中读取公钥点（公钥以压缩格式保存）
+   */
+  private toPublicKeyComponents(keys: KeyPair): EcPublicKeyComponents {
+    const curve = this.curveOf(keys.publicKey);
+    const { x, y } = this.hexToPoint(keys.publicKey.key, curve);
+    return { curve: curve.name, x, y };
+  }
+
+  /**
+   * 从密钥对中读取私钥及对应的公钥点
+   */
+  private toPrivateKeyComponents(keys: KeyPair): EcPrivateKeyComponents {
+    const { curve, x, y } = this.toPublicKeyComponents(keys);
+    return { curve, d: BigInt('0x' + keys.privateKey.key), publicKey: { x, y } };
+  }
+
+  /**
+   * 由导入的密钥分量构造密钥对
+   * 私钥需在[1, n-1]范围内，且附带的公钥点必须等于 d * G；公钥点必须在曲线上
+   * @param key 公钥或私钥分量
+   * @returns 密钥对
+   */
+  private fromComponents(key: EcPublicKeyComponents | EcPrivateKeyComponents): KeyPair {
+    const curve = getCurve(key.curve);
+
+    if ('d' in key) {
+      const d = key.d;
+      if (d <= BigInt(0) || d >= curve.n) {
+        throw new Error('私钥超出范围');
+      }
+      const point = this.pointMultiply({ x: curve.Gx, y: curve.Gy }, d, curve);
+
+      // 私钥中附带的公钥必须与d一致
+      const embedded = key.publicKey;
+      if (embedded && (embedded.x !== point.x || embedded.y !== point.y)) {
+        throw new Error('私钥与公钥不匹配');
+      }
+      return this.toKeyPair(curve, point, d);
+    }
+
+    if (!isOnCurve(curve, key.x, key.y)) {
+      throw new Error('公钥点不在曲线上');
+    }
+    return this.toKeyPair(curve, { x: key.x, y: key.y }, null);
+  }
+
+  /**
+   * 读取公钥或私钥所在的曲线，未标明曲线的密钥按secp256k1处理
+   * @param key 公钥或私钥对象
+   * @returns 曲线参数
+   */
+  private curveOf(key: any): CurveParameters {
+    return getCurve(key?.curve || DEFAULT_CURVE);
+  }
+
+  /**
+   * 构造密钥对对象
+   * @param curve 曲线参数
+   * @param publicKeyPoint 公钥点
+   * @param privateKey 私钥（可为null）
+   * @returns 密钥对
+   */
+  private toKeyPair(curve: CurveParameters, publicKeyPoint: { x: bigint, y: bigint }, privateKey: bigint | null): KeyPair {
+    // 将公钥点转换为压缩格式
+    const publicKey = this.pointToHex(publicKeyPoint, curve);
+
+    return {
+      publicKey: {
+        key: publicKey,
+        curve: curve.name
+      },
+      privateKey: privateKey === null ? null : {
+        key: privateKey.toString(16).padStart(curve.size * 2, '0'),
+        curve: curve.name
+      },
+      keySize: curve.bits,
+      publicKeyDetails: {
+        algorithm: 'ECC',
+        curve: curve.name,
+        keySize: `${curve.bits}位`,
+        publicKey: this.abbreviateString(publicKey)
+      },
+      privateKeyDetails: privateKey === null ? undefined : {
+        algorithm: 'ECC',
+        curve: curve.name,
+        keySize: `${curve.bits}位`,
+        privateKey: this.abbreviateString(privateKey.toString(16))
+      }
+    };
+  }
+
   /**
    * 使用ECIES（椭圆曲线集成加密方案）进行加密
    * @param message 要加密的明文消息
@@ -81,45 +203,51 @@ export class ECCEncryption implements EncryptionAlgorithm {
    */
   async encrypt(message: string, publicKey: any): Promise<EncryptionResult> {
     try {
-      // 将接收方的公钥字符串转换为点
-      const recipientPubPoint = this.hexToPoint(publicKey.key);
+      // 将接收方的公钥字符串转换为所在曲线上的点
+      const curve = this.curveOf(publicKey);
+      const recipientPubPoint = this.hexToPoint(publicKey.key, curve);
       
       // 生成临时私钥
-      const ephemeralPrivateKey = this.generateRandomBigInt(this.curve.n - BigInt(1));
+      const ephemeralPrivateKey = this.generateRandomBigInt(curve.n - BigInt(1));
       
       // 计算临时公钥 R = k * G
       const ephemeralPublicPoint = this.pointMultiply(
-        { x: this.curve.Gx, y: this.curve.Gy },
-        ephemeralPrivateKey
+        { x: curve.Gx, y: curve.Gy },
+        ephemeralPrivateKey,
+        curve
       );
       
       // 计算共享密钥点 S = k * P (P是接收方公钥)
       const sharedSecret = this.pointMultiply(
         recipientPubPoint,
-        ephemeralPrivateKey
+        ephemeralPrivateKey,
+        curve
       );
       
-      // 从共享密钥派生对称加密密钥
-      const sharedSecretBytes = this.pointToBytes(sharedSecret);
-      const keyMaterial = this.simpleHash(sharedSecretBytes);
+      // 使用X9.63 KDF从共享秘密派生加密密钥和MAC密钥
+      const { encKey, macKey } = this.deriveKeys(sharedSecret, curve);
       
-      // 使用派生的密钥对消息进行加密（使用简单的XOR加密作为示例）
       // 生成随机IV
       const iv = this.getRandomBytes(16);
       
-      // 加密
+      // 使用AES-256-CBC加密（PKCS#7填充）
       const messageBytes = this.stringToBytes(message);
-      const ciphertext = this.xorEncrypt(messageBytes, keyMaterial, iv);
+      const ciphertext = aesCbcEncrypt(encKey, iv, messageBytes);
+      
+      // 计算认证标签 tag = HMAC-SHA256(K_MAC, IV || C)
+      const tag = this.computeTag(macKey, iv, ciphertext);
       
       return {
         ciphertext: this.bytesToBase64(ciphertext),
-        ephemeralKey: this.pointToHex(ephemeralPublicPoint),
+        ephemeralKey: this.pointToHex(ephemeralPublicPoint, curve),
         iv: this.bytesToHex(iv),
+        tag: this.bytesToHex(tag),
         metadata: {
-          curve: publicKey.curve,
+          curve: curve.name,
           algorithm: 'ECIES',
-          kdf: 'SHA-256',
-          cipher: 'XOR-CIPHER'
+          kdf: 'ANSI-X9.63-KDF(SHA-256)',
+          cipher: 'AES-256-CBC',
+          mac: 'HMAC-SHA256'
         }
       };
     } catch (error) {
@@ -136,55 +264,136 @@ export class ECCEncryption implements EncryptionAlgorithm {
    */
   async decrypt(encryptionResult: EncryptionResult, privateKey: any): Promise<string> {
     try {
-      // 获取私钥
-      const receiverPrivateKey = BigInt('0x' + privateKey.key);
+      // 获取私钥所在曲线
+      const curve = this.curveOf(privateKey);
       
       // 获取对方的临时公钥
       if (!encryptionResult.ephemeralKey) {
         throw new Error('缺少临时公钥');
       }
-      const ephemeralPublicPoint = this.hexToPoint(encryptionResult.ephemeralKey);
       
       // 计算共享密钥点 S = d * R (d是接收方私钥，R是发送方临时公钥)
-      const sharedSecret = this.pointMultiply(
-        ephemeralPublicPoint,
-        receiverPrivateKey
+      const sharedSecret = this.computeSharedPoint(
+        privateKey,
+        { key: encryptionResult.ephemeralKey, curve: curve.name }
       );
       
-      // 从共享密钥派生对称解密密钥
-      const sharedSecretBytes = this.pointToBytes(sharedSecret);
-      const keyMaterial = this.simpleHash(sharedSecretBytes);
+      // 派生与加密方相同的加密密钥和MAC密钥
+      const { encKey, macKey } = this.deriveKeys(sharedSecret, curve);
       
-      // 获取IV
+      // 获取IV和认证标签
       if (!encryptionResult.iv) {
         throw new Error('缺少初始化向量');
       }
+      if (!encryptionResult.tag) {
+        throw new Error('缺少认证标签');
+      }
       const iv = this.hexToBytes(encryptionResult.iv);
-      
-      // 解密
       const ciphertext = this.base64ToBytes(encryptionResult.ciphertext);
-      const decryptedBytes = this.xorDecrypt(ciphertext, keyMaterial, iv);
+      
+      // 先验证MAC，再解密：任何对IV或密文的修改都会在此被拒绝
+      const expectedTag = this.computeTag(macKey, iv, ciphertext);
+      if (!this.constantTimeEqual(expectedTag, this.hexToBytes(encryptionResult.tag))) {
+        throw new IntegrityError();
+      }
+      
+      // 解密并去除PKCS#7填充
+      const decryptedBytes = aesCbcDecrypt(encKey, iv, ciphertext);
       
       // 转换为字符串
       return this.bytesToString(decryptedBytes);
     } catch (error) {
+      // 完整性错误原样抛出，便于调用方区分篡改与其他失败
+      if (error instanceof IntegrityError) {
+        throw error;
+      }
       console.error('ECC解密错误:', error);
       throw new Error('ECC解密失败');
     }
   }
 
+  /**
+   * 椭圆曲线Diffie-Hellman原语：计算共享点 S = d × Q
+   * ECIES解密与ECDH密钥协商共用此步骤；对方公钥必须与私钥在同一曲线上
+   * @param privateKey 己方私钥
+   * @param publicKey 对方公钥（压缩或未压缩格式）
+   * @returns 共享点
+   */
+  computeSharedPoint(privateKey: any, publicKey: any): { x: bigint, y: bigint } {
+    const curve = this.curveOf(privateKey);
+    if (this.curveOf(publicKey).name !== curve.name) {
+      throw new Error('双方的密钥不在同一条曲线上');
+    }
+
+    // 对方公钥必须是曲线上的点，否则可能泄露私钥（无效曲线攻击）
+    const peerPoint = this.hexToPoint(publicKey.key, curve);
+    if (!isOnCurve(curve, peerPoint.x, peerPoint.y)) {
+      throw new Error('公钥点不在曲线上');
+    }
+
+    const sharedPoint = this.pointMultiply(peerPoint, BigInt('0x' + privateKey.key), curve);
+    if (sharedPoint.x === 0n && sharedPoint.y === 0n) {
+      throw new Error('共享点为无穷远点');
+    }
+    return sharedPoint;
+  }
+
+  /**
+   * SEC 1 ECIES密钥派生
+   * 以共享点的x坐标（按曲线长度定长编码）作为共享秘密Z，通过X9.63 KDF派生64字节密钥材料，
+   * 前32字节作为AES-256加密密钥，后32字节作为HMAC-SHA256密钥
+   * @param sharedSecret 共享密钥点
+   * @param curve 曲线参数
+   * @returns 加密密钥和MAC密钥
+   */
+  private deriveKeys(sharedSecret: { x: bigint, y: bigint }, curve: CurveParameters): { encKey: Uint8Array, macKey: Uint8Array } {
+    const z = this.bigIntToBytes(sharedSecret.x, curve.size);
+    const keyMaterial = x963Kdf('SHA-256', z, 64);
+    return {
+      encKey: keyMaterial.slice(0, 32),
+      macKey: keyMaterial.slice(32)
+    };
+  }
+
+  /**
+   * 计算认证标签 HMAC-SHA256(K_MAC, IV || C)
+   * @param macKey MAC密钥
+   * @param iv 初始化向量
+   * @param ciphertext 密文
+   * @returns 32字节认证标签
+   */
+  private computeTag(macKey: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+    const data = new Uint8Array(iv.length + ciphertext.length);
+    data.set(iv, 0);
+    data.set(ciphertext, iv.length);
+    return hmac('SHA-256', macKey, data);
+  }
+
+  /**
+   * 恒定时间比较两个字节数组，防止时间侧信道泄露标签信息
+   */
+  private constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+  }
+
   /**
    * 椭圆曲线上的点加法
    * @param p1 第一个点
    * @param p2 第二个点
+   * @param curve 曲线参数
    * @returns 两点之和
    */
-  private pointAdd(p1: { x: bigint, y: bigint }, p2: { x: bigint, y: bigint }): { x: bigint, y: bigint } {
+  private pointAdd(p1: { x: bigint, y: bigint }, p2: { x: bigint, y: bigint }, curve: CurveParameters): { x: bigint, y: bigint } {
     // 如果其中一个点是无穷远点，返回另一个点
     if (p1.x === 0n && p1.y === 0n) return p2;
     if (p2.x === 0n && p2.y === 0n) return p1;
     
-    const { p, a } = this.curve;
+    const { p, a } = curve;
     
     // 如果两点互为逆元，返回无穷远点
     if (p1.x === p2.x && p1.y === ((p - p2.y) % p)) {
@@ -194,7 +403,7 @@ export class ECCEncryption implements EncryptionAlgorithm {
     // 计算斜率
     let lambda: bigint;
     if (p1.x === p2.x && p1.y === p2.y) {
-      // 点加自己 (doubling)
+      // 点加自己 (doubling)，NIST曲线的a = p - 3，secp256k1的a = 0
       lambda = ((3n * p1.x * p1.x + a) * this.modInverse((2n * p1.y) % p, p)) % p;
     } else {
       // 两个不同点相加
@@ -216,9 +425,10 @@ export class ECCEncryption implements EncryptionAlgorithm {
    * 椭圆曲线上的点乘法（标量乘法）
    * @param point 基点
    * @param scalar 标量
+   * @param curve 曲线参数
    * @returns 乘法结果
    */
-  private pointMultiply(point: { x: bigint, y: bigint }, scalar: bigint): { x: bigint, y: bigint } {
+  private pointMultiply(point: { x: bigint, y: bigint }, scalar: bigint, curve: CurveParameters): { x: bigint, y: bigint } {
     // 将标量转换为二进制，并从最高位开始处理
     const binaryScalar = scalar.toString(2);
     
@@ -227,11 +437,11 @@ export class ECCEncryption implements EncryptionAlgorithm {
     
     for (let i = 0; i < binaryScalar.length; i++) {
       // 加倍
-      result = this.pointAdd(result, result);
+      result = this.pointAdd(result, result, curve);
       
       // 如果当前位为1，加上基点
       if (binaryScalar[i] === '1') {
-        result = this.pointAdd(result, point);
+        result = this.pointAdd(result, point, curve);
       }
     }
     
@@ -241,23 +451,27 @@ export class ECCEncryption implements EncryptionAlgorithm {
   /**
    * 将点转换为十六进制字符串
    * @param point 椭圆曲线上的点
+   * @param curve 曲线参数
    * @returns 十六进制表示
    */
-  private pointToHex(point: { x: bigint, y: bigint }): string {
+  private pointToHex(point: { x: bigint, y: bigint }, curve: CurveParameters): string {
     // 使用压缩格式：02/03 + x坐标（偶数/奇数y）
     const prefix = point.y % 2n === 0n ? '02' : '03';
-    const xHex = point.x.toString(16).padStart(64, '0');
+    const xHex = point.x.toString(16).padStart(curve.size * 2, '0');
     return prefix + xHex;
   }
 
   /**
    * 将十六进制字符串转换为点
    * @param hex 十六进制字符串
+   * @param curve 曲线参数
    * @returns 椭圆曲线上的点
    */
-  private hexToPoint(hex: string): { x: bigint, y: bigint } {
+  private hexToPoint(hex: string, curve: CurveParameters): { x: bigint, y: bigint } {
+    const width = curve.size * 2;
+
     // 解析压缩格式
-    if (hex.startsWith('02') || hex.startsWith('03')) {
+    if ((hex.startsWith('02') || hex.startsWith('03')) && hex.length === 2 + width) {
       const prefix = hex.substring(0, 2);
       const xHex = hex.substring(2);
       
@@ -265,7 +479,7 @@ export class ECCEncryption implements EncryptionAlgorithm {
       const isYOdd = prefix === '03';
       
       // 根据曲线方程 y² = x³ + ax + b 计算y
-      const { p, a, b } = this.curve;
+      const { p, a, b } = curve;
       
       // 计算 y² = x³ + ax + b (mod p)
       let ySquared = (x * x * x + a * x + b) % p;
@@ -281,37 +495,19 @@ export class ECCEncryption implements EncryptionAlgorithm {
       return { x, y };
     }
     
-    // 解析未压缩格式（04 + x + y）
-    if (hex.startsWith('04')) {
-      const xHex = hex.substring(2, 66);
-      const yHex = hex.substring(66);
-      
-      return {
-        x: BigInt('0x' + xHex),
-        y: BigInt('0x' + yHex)
-      };
+    // 解析未压缩格式（04 + x + y），点必须在曲线上
+    if (hex.startsWith('04') && hex.length === 2 + 2 * width) {
+      const x = BigInt('0x' + hex.substring(2, 2 + width));
+      const y = BigInt('0x' + hex.substring(2 + width));
+      if (!isOnCurve(curve, x, y)) {
+        throw new Error('公钥点不在曲线上');
+      }
+      return { x, y };
     }
     
     throw new Error('无效的公钥格式');
   }
 
-  /**
-   * 将点转换为字节数组
-   * @param point 椭圆曲线上的点
-   * @returns 字节数组
-   */
-  private pointToBytes(point: { x: bigint, y: bigint }): Uint8Array {
-    const xBytes = this.bigIntToBytes(point.x, 32);
-    const yBytes = this.bigIntToBytes(point.y, 32);
-    
-    const result = new Uint8Array(65);
-    result[0] = 0x04; // 未压缩格式标识
-    result.set(xBytes, 1);
-    result.set(yBytes, 33);
-    
-    return result;
-  }
-
   /**
    * 计算模平方根（Tonelli-Shanks算法）
    * @param n 要计算平方根的数
@@ -641,114 +837,4 @@ export class ECCEncryption implements EncryptionAlgorithm {
     if (str.length <= 20) return str;
     return str.substring(0, 10) + '...' + str.substring(str.length - 10);
   }
-
-  /**
-   * 使用简单的哈希函数（类似SHA-256）
-   * @param data 要哈希的数据
-   * @returns 哈希值（32字节）
-   */
-  private simpleHash(data: Uint8Array): Uint8Array {
-    // 使用初始哈希值
-    let h = [...this.HASH_INIT];
-    
-    // 简化版哈希计算
-    for (let i = 0; i < data.length; i++) {
-      const byte = data[i];
-      for (let j = 0; j < 8; j++) {
-        h[j] = ((h[j] << 5) - h[j] + byte) | 0;
-      }
-    }
-    
-    // 转换为字节数组
-    const result = new Uint8Array(32);
-    for (let i = 0; i < 8; i++) {
-      for (let j = 0; j < 4; j++) {
-        result[i * 4 + j] = (h[i] >>> ((3 - j) * 8)) & 0xff;
-      }
-    }
-    
-    return result;
-  }
-
-  /**
-   * 使用XOR和伪随机数生成器实现简单的加密
-   * @param data 明文数据
-   * @param key 密钥
-   * @param iv 初始化向量
-   * @returns 密文
-   */
-  private xorEncrypt(data: Uint8Array, key: Uint8Array, iv: Uint8Array): Uint8Array {
-    // 生成密钥流
-    const keyStream = this.generateKeyStream(key, iv, data.length);
-    
-    // 对数据进行XOR
-    const ciphertext = new Uint8Array(data.length);
-    for (let i = 0; i < data.length; i++) {
-      ciphertext[i] = data[i] ^ keyStream[i];
-    }
-    
-    return ciphertext;
-  }
-
-  /**
-   * 使用XOR和伪随机数生成器实现简单的解密
-   * @param data 密文数据
-   * @param key 密钥
-   * @param iv 初始化向量
-   * @returns 明文
-   */
-  private xorDecrypt(data: Uint8Array, key: Uint8Array, iv: Uint8Array): Uint8Array {
-    // 解密过程与加密相同（XOR操作的对称性）
-    return this.xorEncrypt(data, key, iv);
-  }
-
-  /**
-   * 生成密钥流
-   * @param key 密钥
-   * @param iv 初始化向量
-   * @param length 需要的密钥流长度
-   * @returns 密钥流
-   */
-  private generateKeyStream(key: Uint8Array, iv: Uint8Array, length: number): Uint8Array {
-    const keyStream = new Uint8Array(length);
-    
-    // 使用密钥和IV初始化一个伪随机数生成器
-    let counter = new Uint8Array(16);
-    for (let i = 0; i < Math.min(iv.length, 16); i++) {
-      counter[i] = iv[i];
-    }
-    
-    // 生成足够长的密钥流
-    let pos = 0;
-    while (pos < length) {
-      // 将计数器与密钥混合，产生伪随机数据块
-      const hash = this.simpleHash(this.concatBytes(counter, key));
-      
-      // 将随机数据块添加到密钥流
-      const blockSize = Math.min(hash.length, length - pos);
-      keyStream.set(hash.slice(0, blockSize), pos);
-      pos += blockSize;
-      
-      // 增加计数器
-      for (let i = 0; i < counter.length; i++) {
-        counter[i]++;
-        if (counter[i] !== 0) break; // 没有进位，跳出
-      }
-    }
-    
-    return keyStream;
-  }
-
-  /**
-   * 连接两个字节数组
-   * @param a 第一个字节数组
-   * @param b 第二个字节数组
-   * @returns 连接后的字节数组
-   */
-  private concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
-    const result = new Uint8Array(a.length + b.length);
-    result.set(a, 0);
-    result.set(b, a.length);
-    return result;
-  }
-}
\ No newline at end of file
+}
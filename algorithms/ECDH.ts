@@ -0,0 +1,38 @@
+import { KeyPair, KeyGenerationOptions } from './types';
+import { KeyAgreementAlgorithm } from './key-exchange-types';
+import { ECCEncryption } from './ECCEncryption';
+import { DEFAULT_CURVE, getCurve } from './curves';
+
+/**
+ * 椭圆曲线Diffie-Hellman密钥协商 (SEC 1 3.3.1)
+ * 与ECC加密共用曲线参数、密钥格式和点运算：私钥d，公钥Q = d × G
+ * 双方交换公钥后各自计算 S = d × Q_对方，共享秘密为S的x坐标
+ */
+export class ECDH implements KeyAgreementAlgorithm {
+  name = 'ECDH';
+  description = 'ECDH是Diffie-Hellman密钥交换在椭圆曲线群上的版本。双方交换a·G和b·G，各自计算出同一个点(ab)·G，以其x坐标作为共享秘密；与有限域DH相比，较短的密钥即可达到相同的安全强度。';
+
+  // ECIES解密中的 S = d × R 正是ECDH原语
+  private readonly ecc = new ECCEncryption();
+
+  /**
+   * 生成ECDH密钥对
+   * @param options 密钥生成选项，curve为曲线名称（secp256k1、P-256、P-384或P-521，默认secp256k1）
+   * @returns 密钥对，格式与ECCEncryption相同
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    return this.ecc.generateKeys(options);
+  }
+
+  /**
+   * 计算共享秘密 Z = x(d × Q)
+   * @param privateKey 己方私钥
+   * @param peerPublicKey 对方公钥
+   * @returns 共享秘密（十六进制，按曲线坐标长度定长编码）
+   */
+  async computeSharedSecret(privateKey: any, peerPublicKey: any): Promise<string> {
+    const curve = getCurve(privateKey.curve || DEFAULT_CURVE);
+    const sharedPoint = this.ecc.computeSharedPoint(privateKey, peerPublicKey);
+    return sharedPoint.x.toString(16).padStart(curve.size * 2, '0');
+  }
+}
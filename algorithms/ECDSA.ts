@@ -1,53 +1,72 @@
-import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions } from './types';
+import { digestHex, HashAlgorithm } from './hash';
+import { ASN1_TAG, decodeDer, encodeInteger, encodeSequence, expectTag, readInteger } from './asn1';
+import { CurveParameters, DEFAULT_CURVE, getCurve, isOnCurve } from './curves';
+import { bits2int, generateK } from './rfc6979';
+import {
+  EcPrivateKeyComponents,
+  EcPublicKeyComponents,
+  exportEcPrivateKey,
+  exportEcPublicKey,
+  importPrivateKey,
+  importPublicKey
+} from './key-formats';
+import { exportEcPrivateJwk, exportEcPublicJwk, importPrivateJwk, importPublicJwk, isPrivateJwk, Jwk } from './jwk';
 
 
 export class ECDSA implements CryptoAlgorithm {
-  // secp256k1曲线参数
-  private readonly p = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2Fn;
-  private readonly a = 0n;
-  private readonly b = 7n;
-  private readonly Gx = 0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798n;
-  private readonly Gy = 0x483ADA7726A3C4655DA4FBFC0E1108A8FD17B448A68554199C47D08FFB10D4B8n;
-  private readonly n = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141n;
-  
-  // 保存已使用的k值，防止k值重用
-  private usedKValues = new Set<string>();
-  
-  // 曲线名称用于显示
-  private readonly curveName = 'secp256k1';
-  
   constructor() {}
 
   /**
-   * 基点G
+   * 曲线的基点G
+   * 与pointAdd、pointMultiply一起供门限签名(FROST)在secp256k1上复用
    */
-  private get G(): Point {
-    return { x: this.Gx, y: this.Gy };
+  basePoint(curve: CurveParameters): Point {
+    return { x: curve.Gx, y: curve.Gy };
+  }
+
+  /**
+   * 读取密钥对所在的曲线，未标明曲线的密钥按secp256k1处理
+   */
+  private curveOf(keys: KeyPair): CurveParameters {
+    return getCurve(keys.publicKey?.curve || keys.privateKey?.curve || DEFAULT_CURVE);
   }
 
   /**
    * 生成ECDSA密钥对
    * 私钥d是[1, n-1]范围内的随机整数
    * 公钥Q = d × G (点乘运算)
+   * @param options 密钥生成选项，curve为曲线名称（secp256k1、P-256、P-384或P-521，默认secp256k1）
    */
-  async generateKeys(): Promise<KeyPair> {
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const curve = getCurve(options.curve);
+
     // 1. 生成随机私钥 d ∈ [1, n-1]
-    const privateKey = this.getRandomBigInt(1n, this.n - 1n);
+    const privateKey = this.getRandomBigInt(1n, curve.n - 1n);
     
     // 2. 计算公钥 Q = d × G
-    const publicKey = this.pointMultiply(this.G, privateKey);
+    const publicKey = this.pointMultiply(this.basePoint(curve), privateKey, curve);
     
     // 3. 返回密钥对
+    return this.toKeyPair(curve, publicKey, privateKey);
+  }
+
+  /**
+   * 构造密钥对对象，坐标与私钥按曲线长度定长编码为十六进制
+   */
+  private toKeyPair(curve: CurveParameters, Q: Point, d: bigint | null): KeyPair {
+    const width = curve.size * 2;
     return {
       publicKey: {
-        x: publicKey.x.toString(16).padStart(64, '0'),
-        y: publicKey.y.toString(16).padStart(64, '0'),
-        curve: this.curveName
+        x: Q.x.toString(16).padStart(width, '0'),
+        y: Q.y.toString(16).padStart(width, '0'),
+        curve: curve.name
       },
-      privateKey: {
-        d: privateKey.toString(16).padStart(64, '0'),
-        curve: this.curveName
-      }
+      privateKey: d === null ? null : {
+        d: d.toString(16).padStart(width, '0'),
+        curve: curve.name
+      },
+      keySize: curve.bits
     };
   }
 
@@ -56,53 +75,70 @@ export class ECDSA implements CryptoAlgorithm {
    * 
    * @param message 待签名的消息
    * @param keys 包含私钥的密钥对
-   * @returns 签名结果 (r, s)
+   * @returns 签名结果 (r, s)，附带恢复标识v
    */
   async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
     try {
-      // 1. 获取私钥d
+      // 1. 获取私钥d及其所在曲线
+      const curve = this.curveOf(keys);
       const dHex = keys.privateKey.d as string;
       const d = BigInt(`0x${dHex}`);
+      const n = curve.n;
       
-      // 2. 计算消息摘要e
-      const messageHash = await this.sha256(message);
-      const e = this.hashToInt(messageHash, this.n);
-      
-      // 3. 使用确定性k值生成随机数k (基于RFC 6979)
-      const k = await this.generateDeterministicK(d, e);
-      
-      // 4. 计算点 kG = (x1, y1) 
-      const kG = this.pointMultiply(this.G, k);
+      // 2. 计算消息摘要e，哈希函数随曲线选择
+      const messageHash = await this.hash(message, curve.hash);
+      const e = this.hashToInt(messageHash, n);
       
-      // 5. 计算r = x1 mod n
-      const r = kG.x % this.n;
-      
-      // 确保r ≠ 0
-      if (r === 0n) {
-        console.info("r = 0，重新签名");
-        return this.sign(message, keys);
-      }
-      
-      // 6. 计算s = k^(-1) * (e + r*d) mod n
-      const kInv = this.modInverse(k, this.n);
-      let s = (kInv * ((e + r * d) % this.n)) % this.n;
-      
-      // 7. 确保s ≠ 0
-      if (s === 0n) {
-        console.info("s = 0，重新签名");
-        return this.sign(message, keys);
+      // 3. 按RFC 6979生成确定性k值，若r或s为0则取下一个候选值
+      for (let attempt = 0; ; attempt++) {
+        const k = this.generateDeterministicK(curve, d, messageHash, attempt);
+        
+        // 4. 计算点 kG = (x1, y1) 
+        const kG = this.pointMultiply(this.basePoint(curve), k, curve);
+        
+        // 5. 计算r = x1 mod n
+        const r = kG.x % n;
+        
+        // 确保r ≠ 0
+        if (r === 0n) {
+          console.info("r = 0，使用下一个候选k值");
+          continue;
+        }
+        
+        // 6. 计算s = k^(-1) * (e + r*d) mod n
+        const kInv = this.modInverse(k, n);
+        let s = (kInv * ((e + r * d) % n)) % n;
+        
+        // 7. 确保s ≠ 0
+        if (s === 0n) {
+          console.info("s = 0，使用下一个候选k值");
+          continue;
+        }
+        
+        // 8. 恢复标识v：第0位为kG.y的奇偶，第1位表示kG.x ≥ n（r由x1 − n得到）
+        let recoveryId = Number(kG.y & 1n) | (kG.x >= n ? 2 : 0);
+        
+        // 9. secp256k1按BIP 62/EIP-2取low-s：s > n/2时改用n − s，
+        //    相当于用−k签名，R变为−R，因此同时翻转v的奇偶位
+        if (curve.name === 'secp256k1' && s > n / 2n) {
+          s = n - s;
+          recoveryId ^= 1;
+        }
+        
+        // 10. DER编码 (为了与标准兼容，但我们同时保留r和s用于教学)
+        const derSignature = this.derEncode(r, s);
+        
+        // 返回签名结果，附带曲线与哈希函数名称
+        return {
+          signature: derSignature,
+          r: r.toString(16).padStart(curve.size * 2, '0'),
+          s: s.toString(16).padStart(curve.size * 2, '0'),
+          messageHash: messageHash,
+          curve: curve.name,
+          hash: curve.hash,
+          recoveryId
+        };
       }
-      
-      // 8. DER编码 (为了与标准兼容，但我们同时保留r和s用于教学)
-      const derSignature = this.derEncode(r, s);
-      
-      // 返回签名结果
-      return {
-        signature: derSignature,
-        r: r.toString(16).padStart(64, '0'),
-        s: s.toString(16).padStart(64, '0'),
-        messageHash: messageHash
-      };
     } catch (error) {
       // 静默失败并返回一个空签名结果，避免输出错误日志
       console.info('ECDSA签名生成失败，返回空签名');
@@ -126,10 +162,17 @@ export class ECDSA implements CryptoAlgorithm {
   async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
     try {
       // 1. 恢复公钥Q和签名值r,s
+      const curve = this.curveOf(keys);
+      const n = curve.n;
       const Qx = BigInt(`0x${keys.publicKey.x}`);
       const Qy = BigInt(`0x${keys.publicKey.y}`);
       const Q = { x: Qx, y: Qy };
       
+      // 签名标明的曲线必须与公钥一致，公钥点必须在曲线上
+      if ((signature.curve && signature.curve !== curve.name) || !isOnCurve(curve, Qx, Qy)) {
+        return false;
+      }
+      
       // 如果签名以DER格式提供，则解码，否则直接使用r,s
       let r: bigint, s: bigint;
       if (signature.r && signature.s) {
@@ -156,28 +199,31 @@ export class ECDSA implements CryptoAlgorithm {
       }
       
       // 2. 检查r和s是否在[1, n-1]范围内
-      if (r <= 0n || r >= this.n || s <= 0n || s >= this.n) {
+      if (r <= 0n || r >= n || s <= 0n || s >= n) {
         return false;
       }
       
       // 3. 计算消息摘要e
-      const messageHash = await this.sha256(message);
-      const e = this.hashToInt(messageHash, this.n);
+      const messageHash = await this.hash(message, curve.hash);
+      const e = this.hashToInt(messageHash, n);
       
       // 4. 计算s的模逆 w = s^(-1) mod n
-      const w = this.modInverse(s, this.n);
+      const w = this.modInverse(s, n);
       
       // 5. 计算u1 = e*w mod n 和 u2 = r*w mod n
-      const u1 = (e * w) % this.n;
-      const u2 = (r * w) % this.n;
+      const u1 = (e * w) % n;
+      const u2 = (r * w) % n;
       
       // 6. 计算曲线点 (x1, y1) = u1*G + u2*Q
-      const u1G = this.pointMultiply(this.G, u1);
-      const u2Q = this.pointMultiply(Q, u2);
-      const sum = this.pointAdd(u1G, u2Q);
+      const u1G = this.pointMultiply(this.basePoint(curve), u1, curve);
+      const u2Q = this.pointMultiply(Q, u2, curve);
+      const sum = this.pointAdd(u1G, u2Q, curve);
       
-      // 7. 验证 r ≡ x1 (mod n)
-      return (sum.x % this.n) === r;
+      // 7. 验证 r ≡ x1 (mod n)，u1*G + u2*Q为无穷远点时签名无效
+      if (sum.x === 0n && sum.y === 0n) {
+        return false;
+      }
+      return (sum.x % n) === r;
     } catch (error) {
       // 静默失败，返回false而不输出错误日志
       return false;
@@ -185,182 +231,207 @@ export class ECDSA implements CryptoAlgorithm {
   }
 
   /**
-   * 哈希函数SHA-256
+   * 由签名恢复签名者的公钥（比特币消息签名与以太坊交易的做法）
+   * 由r与恢复标识v还原点R = kG，再计算 Q = r⁻¹(s·R − e·G)
+   *
+   * @param message 原始消息
+   * @param signature 带有r、s与recoveryId的签名结果，曲线取自signature.curve
+   * @returns 只含公钥的密钥对
    */
-  private async sha256(message: string): Promise<string> {
-    if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
-      try {
-        const encoder = new TextEncoder();
-        const data = encoder.encode(message);
-        const hashBuffer = await window.crypto.subtle.digest('SHA-256', data);
-        const hashArray = Array.from(new Uint8Array(hashBuffer));
-        return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      } catch (error) {
-        console.warn('SHA-256调用失败，使用备用哈希:', error);
-        return this.backupHash(message);
-      }
-    } else {
-      return this.backupHash(message);
+  async recoverPublicKey(message: string, signature: any): Promise<KeyPair> {
+    const curve = getCurve(signature?.curve || DEFAULT_CURVE);
+    const { n, p, a, b } = curve;
+    const v = signature?.recoveryId;
+    if (!Number.isInteger(v) || v < 0 || v > 3) {
+      throw new Error('签名缺少有效的恢复标识v（0–3）');
+    }
+
+    // 1. 读取r、s并检查范围
+    const r = BigInt(`0x${signature.r}`);
+    const s = BigInt(`0x${signature.s}`);
+    if (r <= 0n || r >= n || s <= 0n || s >= n) {
+      throw new Error('签名值r或s超出范围');
+    }
+
+    // 2. 还原R：x = r + j·n（j为v的第1位），y按v的第0位取奇偶
+    const x = r + BigInt(v >> 1) * n;
+    if (x >= p) {
+      throw new Error('恢复标识与签名不符：R.x超出素数域');
+    }
+    let y = this.modSqrt((x * x * x + a * x + b) % p, p);
+    if (Number(y & 1n) !== (v & 1)) {
+      y = p - y;
+    }
+    if (!isOnCurve(curve, x, y)) {
+      throw new Error('恢复标识与签名不符：R不在曲线上');
     }
+
+    // 3. 计算 Q = u1·G + u2·R，其中 u1 = −e·r⁻¹，u2 = s·r⁻¹
+    const e = this.hashToInt(await this.hash(message, curve.hash), n);
+    const rInv = this.modInverse(r, n);
+    const u1 = ((n - e) % n * rInv) % n;
+    const u2 = (s * rInv) % n;
+    const Q = this.pointAdd(
+      this.pointMultiply(this.basePoint(curve), u1, curve),
+      this.pointMultiply({ x, y }, u2, curve),
+      curve
+    );
+    if (Q.x === 0n && Q.y === 0n) {
+      throw new Error('恢复出的公钥是无穷远点');
+    }
+
+    return this.toKeyPair(curve, Q, null);
   }
 
   /**
-   * 备用哈希函数
+   * 按以太坊eth_sign的格式序列化可恢复签名：r ‖ s ‖ v，共65字节
+   * 只适用于secp256k1上的low-s签名，v编码为27 + 恢复标识，恢复标识只能为0或1
+   *
+   * @param signature 带有r、s与recoveryId的签名结果
+   * @returns 65字节签名的十六进制字符串
    */
-  private backupHash(message: string): string {
-    // 简单哈希函数 (非标准，仅作教学用途)
-    let h = 0xdeadbeef; // 初始哈希值
-    const data = new TextEncoder().encode(message);
-    
-    // 模拟SHA-256的多轮混合
-    for (let i = 0; i < data.length; i++) {
-      h = ((h << 5) | (h >>> 27)) ^ data[i];
-      h = (h * 0x1f3d5b79 + 0x2b) & 0xffffffff;
+  serializeRecoverable(signature: SignatureResult): string {
+    const curve = getCurve(signature.curve || DEFAULT_CURVE);
+    if (curve.name !== 'secp256k1') {
+      throw new Error('65字节可恢复签名只适用于secp256k1');
     }
-    
-    // 将结果转换为64字符的十六进制字符串(模拟SHA-256的256位输出)
-    let result = '';
-    for (let i = 0; i < 8; i++) {
-      const word = (h ^ (h >> 16)) * 0x45d9f3b;
-      h = (h << 7) | (h >>> 25);
-      result += (word & 0xffffffff).toString(16).padStart(8, '0');
+    const v = signature.recoveryId;
+    if (v !== 0 && v !== 1) {
+      throw new Error('以太坊只接受恢复标识0或1（R.x ≥ n的签名无法编码）');
     }
-    
-    return result;
+    const s = BigInt(`0x${signature.s}`);
+    if (s > curve.n / 2n) {
+      throw new Error('以太坊只接受low-s签名（s ≤ n/2）');
+    }
+
+    return `${signature.r}${signature.s}${(27 + v).toString(16)}`;
   }
 
   /**
-   * 将哈希值转换为大整数
+   * 导出PEM格式密钥
+   * 公钥为SubjectPublicKeyInfo (RFC 5480)，私钥为PKCS#8（内含SEC 1 ECPrivateKey）
    */
-  private hashToInt(hash: string, max: bigint): bigint {
-    // 清理非十六进制字符
-    const cleanHash = hash.replace(/[^0-9a-fA-F]/g, '');
-    
-    // 取哈希的前缀，确保不超过曲线阶n的位长
-    const maxBits = max.toString(2).length;
-    const hashBits = cleanHash.length * 4; // 每个十六进制字符代表4位
-    
-    // 如果哈希比max短，直接转换
-    if (hashBits <= maxBits) {
-      return BigInt(`0x${cleanHash}`) % max;
+  exportPem(keys: KeyPair): { publicKey: string; privateKey: string | null } {
+    const publicKey = this.toPublicKeyComponents(keys);
+    return {
+      publicKey: exportEcPublicKey(publicKey),
+      privateKey: keys.privateKey ? exportEcPrivateKey(this.toPrivateKeyComponents(keys)) : null
+    };
+  }
+
+  /**
+   * 导入PEM格式密钥（SubjectPublicKeyInfo、SEC 1或PKCS#8）
+   * 导入私钥时由 Q = d × G 恢复公钥；只有公钥时privateKey为null
+   */
+  importPem(pem: string): KeyPair {
+    const isPrivate = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(pem);
+    const imported = isPrivate ? importPrivateKey(pem) : importPublicKey(pem);
+    if (imported.type !== 'EC') {
+      throw new Error('不是椭圆曲线密钥');
     }
-    
-    // 否则截取前缀
-    const prefixLen = Math.floor(maxBits / 4) + (maxBits % 4 ? 1 : 0);
-    const truncatedHash = cleanHash.substring(0, prefixLen);
-    return BigInt(`0x${truncatedHash}`) % max;
+    return this.fromComponents(imported.key);
   }
 
   /**
-   * 基于RFC 6979的确定性k值生成
-   * 对相同的私钥和消息，总是生成相同的k值，避免随机数生成缺陷
+   * 导出JWK格式密钥（kty为EC，crv为曲线名称，secp256k1见RFC 8812），kid为RFC 7638指纹
    */
-  private async generateDeterministicK(privateKey: bigint, messageHash: bigint): Promise<bigint> {
-    // 将私钥和消息哈希转换为字节数组
-    const dBytes = this.bigintToUint8Array(privateKey);
-    const hBytes = this.bigintToUint8Array(messageHash);
-    
-    // 初始化状态
-    let v = new Uint8Array(32).fill(1); // 32个字节的1
-    let k = new Uint8Array(32).fill(0); // 32个字节的0
-    
-    // 第一步: hmac_k = HMAC(key=k, v + 0x00 + dBytes + hBytes)
-    // 我们用简化版本实现
-    const combined1 = this.concatArrays([v, new Uint8Array([0]), dBytes, hBytes]);
-    k = (await this.simplifiedHmac(k, combined1)) as Uint8Array<ArrayBuffer>;
-    
-    // 第二步: v = HMAC(key=k, v)
-    v = (await this.simplifiedHmac(k, v)) as Uint8Array<ArrayBuffer>;
-    
-    // 第三步: hmac_k = HMAC(key=k, v + 0x01 + dBytes + hBytes)
-    const combined2 = this.concatArrays([v, new Uint8Array([1]), dBytes, hBytes]);
-    k = (await this.simplifiedHmac(k, combined2)) as Uint8Array<ArrayBuffer>;
-    
-    // 第四步: v = HMAC(key=k, v)
-    v = (await this.simplifiedHmac(k, v)) as Uint8Array<ArrayBuffer>;
-    
-    // 生成k值
-    let kCandidate: bigint;
-    
-    do {
-      // 更新v = HMAC(key=k, v)
-      v = (await this.simplifiedHmac(k, v)) as Uint8Array<ArrayBuffer>;
-      
-      // 将v转换为整数
-      kCandidate = this.uint8ArrayToBigInt(v) % this.n;
-      
-      // 检查k是否已被使用（防止重复使用）
-      const kStr = kCandidate.toString(16);
-      if (kCandidate > 0n && kCandidate < this.n && !this.usedKValues.has(kStr)) {
-        this.usedKValues.add(kStr);
-        return kCandidate;
-      }
-      
-      // 更新k和v以生成新的候选值
-      const combined3 = this.concatArrays([v, new Uint8Array([0])]);
-      k = (await this.simplifiedHmac(k, combined3)) as Uint8Array<ArrayBuffer>;
-      v = (await this.simplifiedHmac(k, v)) as Uint8Array<ArrayBuffer>;
-    } while (true);
+  exportJwk(keys: KeyPair): { publicKey: Jwk; privateKey: Jwk | null } {
+    return {
+      publicKey: exportEcPublicJwk(this.toPublicKeyComponents(keys)),
+      privateKey: keys.privateKey ? exportEcPrivateJwk(this.toPrivateKeyComponents(keys)) : null
+    };
   }
 
   /**
-   * 简化版HMAC函数
-   * 在无法使用Web Crypto API的情况下使用
+   * 导入JWK格式密钥
+   * 包含d时导入私钥并检查x、y与 d × G 一致，否则privateKey为null
    */
-  private async simplifiedHmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
-    if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
-      try {
-        // 使用Web Crypto API (如果可用)
-        const cryptoKey = await window.crypto.subtle.importKey(
-          'raw',
-          key,
-          { name: 'HMAC', hash: { name: 'SHA-256' } },
-          false,
-          ['sign']
-        );
-        const signature = await window.crypto.subtle.sign('HMAC', cryptoKey, data);
-        // 使用具体的ArrayBuffer类型转换，确保类型兼容
-        return new Uint8Array(signature) as Uint8Array<ArrayBuffer>;
-      } catch (e) {
-        // 回退到备用实现
-      }
+  importJwk(jwk: Jwk): KeyPair {
+    const imported = isPrivateJwk(jwk) ? importPrivateJwk(jwk) : importPublicJwk(jwk);
+    if (imported.type !== 'EC') {
+      throw new Error('不是椭圆曲线密钥');
     }
-    
-    // 备用实现 (不是密码学安全的，但足够用于教学)
-    const output = new Uint8Array(32);
-    let temp = 0;
-    
-    // 模拟HMAC的混合
-    for (let i = 0; i < data.length; i++) {
-      for (let j = 0; j < 32; j++) {
-        temp = (key[j % key.length] + data[i] + temp) & 0xFF;
-        output[j] = output[j] ^ temp;
-        // 混淆操作
-        temp = ((temp << 5) | (temp >>> 3)) & 0xFF;
+    return this.fromComponents(imported.key);
+  }
+
+  /**
+   * 从密钥对中读取公钥点
+   */
+  private toPublicKeyComponents(keys: KeyPair): EcPublicKeyComponents {
+    return {
+      curve: keys.publicKey.curve || DEFAULT_CURVE,
+      x: BigInt(`0x${keys.publicKey.x}`),
+      y: BigInt(`0x${keys.publicKey.y}`)
+    };
+  }
+
+  /**
+   * 从密钥对中读取私钥及对应的公钥点
+   */
+  private toPrivateKeyComponents(keys: KeyPair): EcPrivateKeyComponents {
+    const { curve, x, y } = this.toPublicKeyComponents(keys);
+    return { curve, d: BigInt(`0x${keys.privateKey.d}`), publicKey: { x, y } };
+  }
+
+  /**
+   * 由导入的密钥分量构造密钥对
+   * 私钥需在[1, n-1]范围内，且附带的公钥点必须等于 d × G；公钥点必须在曲线上
+   */
+  private fromComponents(key: EcPublicKeyComponents | EcPrivateKeyComponents): KeyPair {
+    const curve = getCurve(key.curve);
+
+    let Q: Point;
+    let d: bigint | null = null;
+    if ('d' in key) {
+      d = key.d;
+      if (d <= 0n || d >= curve.n) {
+        throw new Error('私钥超出范围');
+      }
+      Q = this.pointMultiply(this.basePoint(curve), d, curve);
+
+      // 私钥中附带的公钥必须与d一致
+      const embedded = key.publicKey;
+      if (embedded && (embedded.x !== Q.x || embedded.y !== Q.y)) {
+        throw new Error('私钥与公钥不匹配');
+      }
+    } else {
+      if (!isOnCurve(curve, key.x, key.y)) {
+        throw new Error('公钥点不在曲线上');
       }
+      Q = { x: key.x, y: key.y };
     }
-    
-    return output as Uint8Array<ArrayBuffer>;
+
+    return this.toKeyPair(curve, Q, d);
   }
 
   /**
-   * 连接多个Uint8Array
+   * 计算消息哈希（十六进制）
+   * @param message 消息
+   * @param algorithm 曲线对应的哈希函数
    */
-  private concatArrays(arrays: Uint8Array[]): Uint8Array {
-    // 计算总长度
-    const totalLength = arrays.reduce((acc, array) => acc + array.length, 0);
-    
-    // 创建新数组
-    const result = new Uint8Array(totalLength);
-    
-    // 填充数据
-    let offset = 0;
-    for (const array of arrays) {
-      result.set(array, offset);
-      offset += array.length;
-    }
-    
-    return result;
+  private async hash(message: string, algorithm: HashAlgorithm): Promise<string> {
+    return digestHex(algorithm, message);
+  }
+
+  /**
+   * 将哈希值转换为大整数 (RFC 6979 bits2int)
+   * 只保留哈希最左侧与曲线阶n等长的比特
+   */
+  private hashToInt(hash: string, max: bigint): bigint {
+    return bits2int(this.hexToUint8Array(hash), this.countBits(max));
+  }
+
+  /**
+   * 基于RFC 6979的确定性k值生成
+   * 使用与消息哈希相同的HMAC驱动HMAC-DRBG，对相同的私钥和消息总是生成相同的k值，避免随机数生成缺陷
+   * 
+   * @param curve 曲线参数
+   * @param privateKey 私钥d
+   * @param messageHash 消息哈希（十六进制）
+   * @param attempt 已因r = 0或s = 0被放弃的候选值个数
+   */
+  private generateDeterministicK(curve: CurveParameters, privateKey: bigint, messageHash: string, attempt: number = 0): bigint {
+    return generateK(curve.n, privateKey, this.hexToUint8Array(messageHash), curve.hash, attempt);
   }
 
   /**
@@ -372,7 +443,9 @@ export class ECDSA implements CryptoAlgorithm {
    * Rx = λ² - Px - Qx mod p
    * Ry = λ(Px - Rx) - Py mod p
    */
-  private pointAdd(P: Point, Q: Point): Point {
+  pointAdd(P: Point, Q: Point, curve: CurveParameters): Point {
+    const p = curve.p;
+
     // 处理特殊情况：若P是无穷远点，返回Q
     if (P.x === 0n && P.y === 0n) return Q;
     // 处理特殊情况：若Q是无穷远点，返回P
@@ -380,7 +453,7 @@ export class ECDSA implements CryptoAlgorithm {
     
     // 如果P = Q，则调用点倍运算
     if (P.x === Q.x && P.y === Q.y) {
-      return this.pointDouble(P);
+      return this.pointDouble(P, curve);
     }
     
     // 如果P和Q的x坐标相同但y坐标不同，则它们互为负点，和为无穷远点
@@ -389,22 +462,22 @@ export class ECDSA implements CryptoAlgorithm {
     }
     
     // 计算斜率 λ = (Qy - Py) / (Qx - Px) mod p
-    let numerator = (Q.y - P.y) % this.p;
-    if (numerator < 0n) numerator += this.p;
+    let numerator = (Q.y - P.y) % p;
+    if (numerator < 0n) numerator += p;
     
-    let denominator = (Q.x - P.x) % this.p;
-    if (denominator < 0n) denominator += this.p;
+    let denominator = (Q.x - P.x) % p;
+    if (denominator < 0n) denominator += p;
     
-    const lambda = (numerator * this.modInverse(denominator, this.p)) % this.p;
+    const lambda = (numerator * this.modInverse(denominator, p)) % p;
     
     // 计算R的坐标
     // Rx = λ² - Px - Qx mod p
-    let Rx = (lambda ** 2n - P.x - Q.x) % this.p;
-    if (Rx < 0n) Rx += this.p;
+    let Rx = (lambda ** 2n - P.x - Q.x) % p;
+    if (Rx < 0n) Rx += p;
     
     // Ry = λ(Px - Rx) - Py mod p
-    let Ry = (lambda * (P.x - Rx) - P.y) % this.p;
-    if (Ry < 0n) Ry += this.p;
+    let Ry = (lambda * (P.x - Rx) - P.y) % p;
+    if (Ry < 0n) Ry += p;
     
     return { x: Rx, y: Ry };
   }
@@ -416,8 +489,11 @@ export class ECDSA implements CryptoAlgorithm {
    * λ = (3Px² + a) / (2Py) mod p
    * Rx = λ² - 2Px mod p
    * Ry = λ(Px - Rx) - Py mod p
+   * secp256k1的a = 0，NIST曲线的a = p - 3
    */
-  private pointDouble(P: Point): Point {
+  private pointDouble(P: Point, curve: CurveParameters): Point {
+    const { p, a } = curve;
+
     // 处理特殊情况：若P是无穷远点，结果也是无穷远点
     if (P.x === 0n && P.y === 0n) return P;
     
@@ -427,22 +503,22 @@ export class ECDSA implements CryptoAlgorithm {
     }
     
     // 计算斜率 λ = (3Px² + a) / (2Py) mod p
-    let numerator = (3n * P.x ** 2n + this.a) % this.p;
-    if (numerator < 0n) numerator += this.p;
+    let numerator = (3n * P.x ** 2n + a) % p;
+    if (numerator < 0n) numerator += p;
     
-    let denominator = (2n * P.y) % this.p;
-    if (denominator < 0n) denominator += this.p;
+    let denominator = (2n * P.y) % p;
+    if (denominator < 0n) denominator += p;
     
-    const lambda = (numerator * this.modInverse(denominator, this.p)) % this.p;
+    const lambda = (numerator * this.modInverse(denominator, p)) % p;
     
     // 计算R的坐标
     // Rx = λ² - 2Px mod p
-    let Rx = (lambda ** 2n - 2n * P.x) % this.p;
-    if (Rx < 0n) Rx += this.p;
+    let Rx = (lambda ** 2n - 2n * P.x) % p;
+    if (Rx < 0n) Rx += p;
     
     // Ry = λ(Px - Rx) - Py mod p
-    let Ry = (lambda * (P.x - Rx) - P.y) % this.p;
-    if (Ry < 0n) Ry += this.p;
+    let Ry = (lambda * (P.x - Rx) - P.y) % p;
+    if (Ry < 0n) Ry += p;
     
     return { x: Rx, y: Ry };
   }
@@ -452,7 +528,7 @@ export class ECDSA implements CryptoAlgorithm {
    * k × P，表示P点加自身k次
    * 使用倍加算法实现高效点乘
    */
-  private pointMultiply(P: Point, k: bigint): Point {
+  pointMultiply(P: Point, k: bigint, curve: CurveParameters): Point {
     // 特殊情况：k=0或P是无穷远点，结果为无穷远点
     if (k === 0n || (P.x === 0n && P.y === 0n)) {
       return { x: 0n, y: 0n }; // 无穷远点
@@ -465,9 +541,9 @@ export class ECDSA implements CryptoAlgorithm {
     if (k < 0n) {
       // 负数点乘相当于点乘后再取反点
       const negK = -k;
-      const result = this.pointMultiply(P, negK);
+      const result = this.pointMultiply(P, negK, curve);
       // 椭圆曲线上点的负元素是(x, -y mod p)
-      return { x: result.x, y: this.p - result.y };
+      return { x: result.x, y: curve.p - result.y };
     }
     
     // 使用双倍加算法实现点乘
@@ -479,11 +555,11 @@ export class ECDSA implements CryptoAlgorithm {
     while (k > 0n) {
       // 如果k的最低位为1，将当前addend加到result上
       if (k & 1n) {
-        result = this.pointAdd(result, addend);
+        result = this.pointAdd(result, addend, curve);
       }
       
       // 将addend翻倍，准备下一次迭代
-      addend = this.pointDouble(addend);
+      addend = this.pointDouble(addend, curve);
       
       // k右移一位
       k = k >> 1n;
@@ -525,6 +601,23 @@ export class ECDSA implements CryptoAlgorithm {
     return (old_s % m + m) % m;
   }
 
+  /**
+   * 计算模平方根
+   * 支持的曲线均满足 p ≡ 3 (mod 4)，平方根为 a^((p+1)/4) mod p
+   */
+  private modSqrt(a: bigint, p: bigint): bigint {
+    let result = 1n;
+    let base = a % p;
+    for (let e = (p + 1n) / 4n; e > 0n; e >>= 1n) {
+      if (e & 1n) result = (result * base) % p;
+      base = (base * base) % p;
+    }
+    if ((result * result) % p !== a % p) {
+      throw new Error('恢复标识与签名不符：R.x不是曲线上点的横坐标');
+    }
+    return result;
+  }
+
   /**
    * 生成指定范围内的随机大整数
    */
@@ -574,151 +667,46 @@ export class ECDSA implements CryptoAlgorithm {
   }
 
   /**
-   * 将BigInt转换为Uint8Array
+   * 将十六进制字符串转换为Uint8Array
    */
-  private bigintToUint8Array(value: bigint): Uint8Array {
-    if (value === 0n) return new Uint8Array([0]);
-    
-    // 计算需要的字节数
-    const hex = value.toString(16);
-    // 确保hex的长度为偶数
-    const paddedHex = hex.length % 2 ? '0' + hex : hex;
-    
-    const bytes = new Uint8Array(paddedHex.length / 2);
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
     
     for (let i = 0; i < bytes.length; i++) {
-      const hexByte = paddedHex.substring(i * 2, i * 2 + 2);
-      bytes[i] = parseInt(hexByte, 16);
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
     }
     
     return bytes;
   }
 
   /**
-   * 将Uint8Array转换为BigInt
-   */
-  private uint8ArrayToBigInt(bytes: Uint8Array): bigint {
-    let result = 0n;
-    
-    for (let i = 0; i < bytes.length; i++) {
-      result = (result << 8n) | BigInt(bytes[i]);
-    }
-    
-    return result;
-  }
-
-  /**
-   * 将签名编码为DER格式（符合X.509标准）
+   * 将签名编码为DER格式 ECDSA-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER }
+   * P-521的签名超过127字节，需要长格式长度，因此使用通用的ASN.1编码器
    */
   private derEncode(r: bigint, s: bigint): string {
-    // 转换r和s为Uint8Array
-    let rBytes = this.bigintToUint8Array(r);
-    let sBytes = this.bigintToUint8Array(s);
-    
-    // 如果最高位为1，需要补0以避免被解释为负数
-    if (rBytes[0] & 0x80) {
-      const temp = new Uint8Array(rBytes.length + 1);
-      temp.set(rBytes, 1);
-      rBytes = temp;
-    }
-    
-    if (sBytes[0] & 0x80) {
-      const temp = new Uint8Array(sBytes.length + 1);
-      temp.set(sBytes, 1);
-      sBytes = temp;
-    }
-    
-    // r的DER编码
-    const rDer = new Uint8Array(2 + rBytes.length);
-    rDer[0] = 0x02; // INTEGER类型
-    rDer[1] = rBytes.length; // 长度
-    rDer.set(rBytes, 2); // 值
-    
-    // s的DER编码
-    const sDer = new Uint8Array(2 + sBytes.length);
-    sDer[0] = 0x02; // INTEGER类型
-    sDer[1] = sBytes.length; // 长度
-    sDer.set(sBytes, 2); // 值
-    
-    // 整个签名的DER编码
-    const sigDer = new Uint8Array(2 + rDer.length + sDer.length);
-    sigDer[0] = 0x30; // SEQUENCE类型
-    sigDer[1] = rDer.length + sDer.length; // 长度
-    sigDer.set(rDer, 2); // r值
-    sigDer.set(sDer, 2 + rDer.length); // s值
-    
-    // 转换为十六进制字符串
-    return Array.from(sigDer)
+    const der = encodeSequence(encodeInteger(r), encodeInteger(s));
+    return Array.from(der)
       .map(b => b.toString(16).padStart(2, '0'))
       .join('');
   }
 
   /**
-   * 从DER格式解码签名
+   * 从DER格式解码签名，严格校验DER编码
    */
   private derDecode(derHex: string): { r: bigint, s: bigint } {
-    // 将十六进制字符串转换为字节数组
-    const derBytes = new Uint8Array(derHex.length / 2);
-    for (let i = 0; i < derBytes.length; i++) {
-      derBytes[i] = parseInt(derHex.substring(i * 2, i * 2 + 2), 16);
+    const node = decodeDer(this.hexToUint8Array(derHex));
+    expectTag(node, ASN1_TAG.SEQUENCE, 'SEQUENCE');
+    if (node.children.length !== 2) {
+      throw new Error('无效的DER编码：签名应包含r和s两个INTEGER');
     }
-    
-    // 验证格式
-    if (derBytes[0] !== 0x30) {
-      throw new Error('无效的DER编码：不是SEQUENCE');
-    }
-    
-    // 跳过SEQUENCE头部
-    let index = 2;
-    
-    // 解析r
-    if (derBytes[index] !== 0x02) {
-      throw new Error('无效的DER编码：r不是INTEGER');
-    }
-    
-    const rLength = derBytes[index + 1];
-    index += 2;
-    
-    // 提取r值，忽略可能的前导零（用于处理负数表示）
-    let rStart = index;
-    if (derBytes[rStart] === 0x00 && (derBytes[rStart + 1] & 0x80)) {
-      rStart++;
-    }
-    
-    let r = 0n;
-    for (let i = rStart; i < index + rLength; i++) {
-      r = (r << 8n) | BigInt(derBytes[i]);
-    }
-    
-    index += rLength;
-    
-    // 解析s
-    if (derBytes[index] !== 0x02) {
-      throw new Error('无效的DER编码：s不是INTEGER');
-    }
-    
-    const sLength = derBytes[index + 1];
-    index += 2;
-    
-    // 提取s值，忽略可能的前导零
-    let sStart = index;
-    if (derBytes[sStart] === 0x00 && (derBytes[sStart + 1] & 0x80)) {
-      sStart++;
-    }
-    
-    let s = 0n;
-    for (let i = sStart; i < index + sLength; i++) {
-      s = (s << 8n) | BigInt(derBytes[i]);
-    }
-    
-    return { r, s };
+    return { r: readInteger(node.children[0]), s: readInteger(node.children[1]) };
   }
 }
 
 /**
  * 椭圆曲线上的点
  */
-interface Point {
+export interface Point {
   x: bigint;
   y: bigint;
 } 
\ No newline at end of file
@@ -0,0 +1,415 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { sha512 } from './hash';
+
+/**
+ * Ed25519签名算法 (RFC 8032 5.1)
+ * 基于扭曲爱德华兹曲线 edwards25519: -x² + y² = 1 + d·x²·y² (mod 2^255 - 19)
+ * 使用SHA-512派生私钥标量与确定性随机数，签名固定为64字节 (R || S)
+ */
+export class Ed25519 implements CryptoAlgorithm {
+  // 素数域 p = 2^255 - 19
+  private readonly p = (1n << 255n) - 19n;
+  // 曲线参数 d = -121665/121666 mod p
+  private readonly d = 37095705934669439343138083508754565189542113879843219016388785533085940283555n;
+  // 基点B的阶 L = 2^252 + 27742317777372353535851937790883648493
+  private readonly L = (1n << 252n) + 27742317777372353535851937790883648493n;
+  // sqrt(-1) mod p = 2^((p-1)/4) mod p，用于解压缩时求平方根
+  private readonly sqrtM1 = 19681161376707505956807079304988542015446066515923890162744021073123829784752n;
+  // 基点B（扩展坐标，y = 4/5，x取偶数）
+  private readonly B: ExtendedPoint = {
+    X: 15112221349535400772501151409588531511454012693041857206046113283949847762202n,
+    Y: 46316835694926478169428394003475163141307993866256225615783033603165251855960n,
+    Z: 1n,
+    T: 46827403850823179245072216630277197565144205554125654976674165829533817101731n
+  };
+
+  constructor() {}
+
+  /**
+   * 生成Ed25519密钥对
+   * 私钥是32字节随机种子，公钥A = s × B，其中s由SHA-512(种子)的前32字节按位修剪得到
+   */
+  async generateKeys(): Promise<KeyPair> {
+    // 1. 生成32字节随机种子
+    const seed = this.getRandomBytes(32);
+
+    // 2. 由种子派生公钥
+    return this.keysFromSeed(this.uint8ArrayToHex(seed));
+  }
+
+  /**
+   * 由32字节私钥种子构造密钥对 (RFC 8032 5.1.5)
+   * @param seedHex 私钥种子（十六进制）
+   * @returns 密钥对，公钥为32字节压缩点
+   */
+  keysFromSeed(seedHex: string): KeyPair {
+    if (!/^[0-9a-fA-F]{64}$/.test(seedHex)) {
+      throw new Error('Ed25519私钥长度应为32字节');
+    }
+    const { s } = this.expandSeed(this.hexToUint8Array(seedHex));
+    const A = this.encodePoint(this.pointMultiply(this.B, s));
+
+    return {
+      publicKey: { A: this.uint8ArrayToHex(A) },
+      privateKey: { seed: seedHex.toLowerCase() },
+      keySize: 256
+    };
+  }
+
+  /**
+   * Ed25519签名算法实现，消息按UTF-8编码
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥种子的密钥对
+   * @returns 签名结果，signature为R || S的十六进制
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    return this.signBytes(new TextEncoder().encode(message), keys);
+  }
+
+  /**
+   * 对任意字节消息签名 (RFC 8032 5.1.6)
+   *
+   * @param message 待签名的消息字节
+   * @param keys 包含私钥种子的密钥对
+   * @returns 签名结果
+   */
+  async signBytes(message: Uint8Array, keys: KeyPair): Promise<SignatureResult> {
+    // 1. 由种子派生私钥标量s与前缀prefix，计算公钥A
+    const seed = this.hexToUint8Array(keys.privateKey.seed as string);
+    const { s, prefix } = this.expandSeed(seed);
+    const A = this.encodePoint(this.pointMultiply(this.B, s));
+
+    // 2. 确定性随机数 r = SHA-512(prefix || M) mod L，不依赖随机数生成器
+    const r = this.bytesToNumberLE(sha512(this.concat(prefix, message))) % this.L;
+
+    // 3. 计算 R = r × B
+    const R = this.encodePoint(this.pointMultiply(this.B, r));
+
+    // 4. 计算挑战值 k = SHA-512(R || A || M) mod L
+    const challenge = sha512(this.concat(R, A, message));
+    const k = this.bytesToNumberLE(challenge) % this.L;
+
+    // 5. 计算 S = (r + k × s) mod L
+    const S = (r + k * s) % this.L;
+    const SBytes = this.numberToBytesLE(S, 32);
+
+    // 签名为R与S的小端序编码拼接，共64字节
+    return {
+      signature: this.uint8ArrayToHex(this.concat(R, SBytes)),
+      r: this.uint8ArrayToHex(R),
+      s: this.uint8ArrayToHex(SBytes),
+      messageHash: this.uint8ArrayToHex(challenge),
+      hash: 'SHA-512'
+    };
+  }
+
+  /**
+   * Ed25519签名验证算法实现，消息按UTF-8编码
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或R || S的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    return this.verifyBytes(new TextEncoder().encode(message), signature, keys);
+  }
+
+  /**
+   * 验证任意字节消息的签名 (RFC 8032 5.1.7)
+   * 检查 [8][S]B = [8]R + [8][k]A，公钥或R无法解码、S ≥ L时签名无效
+   *
+   * @param message 原始消息字节
+   * @param signature 签名结果或R || S的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verifyBytes(message: Uint8Array, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      // 1. 读取64字节签名
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      if (typeof signatureHex !== 'string' || !/^[0-9a-fA-F]{128}$/.test(signatureHex)) {
+        return false;
+      }
+      const signatureBytes = this.hexToUint8Array(signatureHex);
+      const RBytes = signatureBytes.slice(0, 32);
+      const S = this.bytesToNumberLE(signatureBytes.slice(32));
+
+      // 2. S必须小于L，防止签名延展性
+      if (S >= this.L) {
+        return false;
+      }
+
+      // 3. 解码公钥A与点R
+      const ABytes = this.hexToUint8Array(keys.publicKey.A as string);
+      if (ABytes.length !== 32) {
+        return false;
+      }
+      const A = this.decodePoint(ABytes);
+      const R = this.decodePoint(RBytes);
+      if (!A || !R) {
+        return false;
+      }
+
+      // 4. 计算挑战值 k = SHA-512(R || A || M) mod L
+      const k = this.bytesToNumberLE(sha512(this.concat(RBytes, ABytes, message))) % this.L;
+
+      // 5. 检查 [8][S]B = [8]R + [8][k]A（乘以余因子8，消除小阶分量的影响）
+      const left = this.pointMultiply(this.B, S);
+      const right = this.pointAdd(R, this.pointMultiply(A, k));
+      return this.pointEquals(this.multiplyByCofactor(left), this.multiplyByCofactor(right));
+    } catch (error) {
+      // 静默失败，返回false而不输出错误日志
+      return false;
+    }
+  }
+
+  /**
+   * 由种子派生私钥标量与前缀 (RFC 8032 5.1.5)
+   * h = SHA-512(seed)，前32字节清除最低3位和最高位、置位第254位后作为s，后32字节作为prefix
+   */
+  private expandSeed(seed: Uint8Array): { s: bigint; prefix: Uint8Array } {
+    const h = sha512(seed);
+    const scalar = h.slice(0, 32);
+    scalar[0] &= 248;
+    scalar[31] &= 127;
+    scalar[31] |= 64;
+    return { s: this.bytesToNumberLE(scalar), prefix: h.slice(32) };
+  }
+
+  /**
+   * 扩展坐标点加法 (RFC 8032 5.1.4)
+   * 爱德华兹曲线的加法公式是完备的，P = Q及单位元无需特殊处理
+   */
+  private pointAdd(P: ExtendedPoint, Q: ExtendedPoint): ExtendedPoint {
+    const A = this.mod((P.Y - P.X) * (Q.Y - Q.X));
+    const B = this.mod((P.Y + P.X) * (Q.Y + Q.X));
+    const C = this.mod(P.T * 2n * this.d * Q.T);
+    const D = this.mod(P.Z * 2n * Q.Z);
+    const E = B - A;
+    const F = D - C;
+    const G = D + C;
+    const H = B + A;
+    return {
+      X: this.mod(E * F),
+      Y: this.mod(G * H),
+      Z: this.mod(F * G),
+      T: this.mod(E * H)
+    };
+  }
+
+  /**
+   * 扩展坐标点倍运算 (RFC 8032 5.1.4)
+   */
+  private pointDouble(P: ExtendedPoint): ExtendedPoint {
+    const A = this.mod(P.X * P.X);
+    const B = this.mod(P.Y * P.Y);
+    const C = this.mod(2n * P.Z * P.Z);
+    const H = A + B;
+    const E = H - this.mod((P.X + P.Y) * (P.X + P.Y));
+    const G = A - B;
+    const F = C + G;
+    return {
+      X: this.mod(E * F),
+      Y: this.mod(G * H),
+      Z: this.mod(F * G),
+      T: this.mod(E * H)
+    };
+  }
+
+  /**
+   * 点乘运算 k × P，使用倍加算法
+   */
+  private pointMultiply(P: ExtendedPoint, k: bigint): ExtendedPoint {
+    // 初始结果为单位元 (0, 1)
+    let result: ExtendedPoint = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+    let addend = P;
+
+    while (k > 0n) {
+      if (k & 1n) {
+        result = this.pointAdd(result, addend);
+      }
+      addend = this.pointDouble(addend);
+      k >>= 1n;
+    }
+
+    return result;
+  }
+
+  /**
+   * 乘以余因子8，即连续三次点倍
+   */
+  private multiplyByCofactor(P: ExtendedPoint): ExtendedPoint {
+    return this.pointDouble(this.pointDouble(this.pointDouble(P)));
+  }
+
+  /**
+   * 判断两个扩展坐标点是否相等：X1·Z2 = X2·Z1 且 Y1·Z2 = Y2·Z1
+   */
+  private pointEquals(P: ExtendedPoint, Q: ExtendedPoint): boolean {
+    return this.mod(P.X * Q.Z) === this.mod(Q.X * P.Z) && this.mod(P.Y * Q.Z) === this.mod(Q.Y * P.Z);
+  }
+
+  /**
+   * 点压缩编码 (RFC 8032 5.1.2)
+   * y坐标按小端序写入32字节，最高字节的最高位存放x的最低位
+   */
+  private encodePoint(P: ExtendedPoint): Uint8Array {
+    const zInv = this.modPow(P.Z, this.p - 2n, this.p);
+    const x = this.mod(P.X * zInv);
+    const y = this.mod(P.Y * zInv);
+    const bytes = this.numberToBytesLE(y, 32);
+    bytes[31] |= Number(x & 1n) << 7;
+    return bytes;
+  }
+
+  /**
+   * 点解压缩 (RFC 8032 5.1.3)
+   * 由y求x² = (y² - 1) / (d·y² + 1)，再按符号位选择x；不是曲线上的点时返回null
+   */
+  private decodePoint(bytes: Uint8Array): ExtendedPoint | null {
+    // 1. 读取符号位与y坐标
+    const encoded = bytes.slice();
+    const xSign = encoded[31] >> 7;
+    encoded[31] &= 0x7f;
+    const y = this.bytesToNumberLE(encoded);
+    if (y >= this.p) {
+      return null;
+    }
+
+    // 2. 计算候选平方根 x = u·v³·(u·v⁷)^((p-5)/8)
+    const u = this.mod(y * y - 1n);
+    const v = this.mod(this.d * y * y + 1n);
+    const v3 = this.mod(v * v * v);
+    let x = this.mod(u * v3 * this.modPow(this.mod(u * v3 * v3 * v), (this.p - 5n) / 8n, this.p));
+
+    // 3. 检查 v·x² = ±u，为-u时乘以sqrt(-1)，否则不存在平方根
+    const vx2 = this.mod(v * x * x);
+    if (vx2 === this.mod(-u)) {
+      x = this.mod(x * this.sqrtM1);
+    } else if (vx2 !== u) {
+      return null;
+    }
+
+    // 4. 按符号位选择x，x = 0时符号位必须为0
+    if (x === 0n && xSign === 1) {
+      return null;
+    }
+    if (Number(x & 1n) !== xSign) {
+      x = this.p - x;
+    }
+
+    return { X: x, Y: y, Z: 1n, T: this.mod(x * y) };
+  }
+
+  /**
+   * 模p约简，结果为非负数
+   */
+  private mod(a: bigint): bigint {
+    const result = a % this.p;
+    return result < 0n ? result + this.p : result;
+  }
+
+  /**
+   * 快速模幂运算
+   */
+  private modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = 1n;
+    base = base % modulus;
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+      base = (base * base) % modulus;
+      exponent >>= 1n;
+    }
+    return result;
+  }
+
+  /**
+   * 小端序字节数组转换为大整数
+   */
+  private bytesToNumberLE(bytes: Uint8Array): bigint {
+    let result = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      result = (result << 8n) | BigInt(bytes[i]);
+    }
+    return result;
+  }
+
+  /**
+   * 大整数转换为定长小端序字节数组
+   */
+  private numberToBytesLE(n: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      bytes[i] = Number(n & 0xffn);
+      n >>= 8n;
+    }
+    return bytes;
+  }
+
+  /**
+   * 拼接多个字节数组
+   */
+  private concat(...arrays: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+      result.set(array, offset);
+      offset += array.length;
+    }
+    return result;
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
+
+/**
+ * 扩展坐标表示的曲线点 (X : Y : Z : T)，x = X/Z，y = Y/Z，x·y = T/Z
+ */
+interface ExtendedPoint {
+  X: bigint;
+  Y: bigint;
+  Z: bigint;
+  T: bigint;
+}
@@ -1,4 +1,7 @@
 import { KeyPair, EncryptionResult, EncryptionAlgorithm } from './encryption-types';
+import { KeyGenerationOptions } from './types';
+import { getModpPrime, MODP_GENERATOR } from './modp';
+import { exportDhPrivateKey, exportDhPublicKey, importPrivateKey, importPublicKey } from './key-formats';
 
 /**
  * ElGamal加密算法实现类
@@ -9,57 +12,103 @@ export class ElGamalEncryption implements EncryptionAlgorithm {
   name = 'ElGamal';
   description = 'ElGamal是一种基于离散对数问题的非对称加密算法，由Taher Elgamal在1985年提出。它不仅可用于加密，还可用于数字签名。';
 
-  // 大素数p和生成元g
-  private BIG_PRIME = BigInt('0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF');
-  private GENERATOR = BigInt(2);
-
-  // 用于散列的常量
-  private readonly HASH_INIT = [
-    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
-    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
-  ];
-
   /**
    * 生成ElGamal密钥对
+   * @param options 密钥生成选项，keySize为MODP群素数p的位长（1536、2048、3072或4096，默认2048）
    * @returns 包含公钥和私钥的KeyPair对象
    */
-  async generateKeys(): Promise<KeyPair> {
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const p = getModpPrime(options.keySize);
+
     try {
       // 私钥x是一个随机数
-      const privateKey = this.generateRandomBigInt(this.BIG_PRIME - BigInt(1));
+      const privateKey = this.generateRandomBigInt(p - BigInt(1));
       // 公钥y = g^x mod p
-      const publicKey = this.modPow(this.GENERATOR, privateKey, this.BIG_PRIME);
+      const publicKey = this.modPow(MODP_GENERATOR, privateKey, p);
 
-      return {
-        publicKey: {
-          y: publicKey.toString(),
-          g: this.GENERATOR.toString(),
-          p: this.BIG_PRIME.toString()
-        },
-        privateKey: {
-          x: privateKey.toString(),
-          p: this.BIG_PRIME.toString()
-        },
-        keySize: 2048,
-        publicKeyDetails: {
-          algorithm: 'ElGamal',
-          keySize: '2048位',
-          p: this.abbreviateString(this.BIG_PRIME.toString()),
-          g: this.GENERATOR.toString(),
-          y: this.abbreviateString(publicKey.toString())
-        },
-        privateKeyDetails: {
-          algorithm: 'ElGamal',
-          keySize: '2048位',
-          x: this.abbreviateString(privateKey.toString())
-        }
-      };
+      return this.toKeyPair(p, MODP_GENERATOR, publicKey, privateKey);
     } catch (error) {
       console.error('ElGamal密钥生成错误:', error);
       throw new Error('ElGamal密钥生成失败');
     }
   }
 
+  /**
+   * 导出PEM格式密钥
+   * ElGamal与Diffie-Hellman共用群参数，采用OpenSSL的DH密钥格式：
+   * 公钥为SubjectPublicKeyInfo，私钥为PKCS#8，算法参数为PKCS#3的(p, g)
+   * @param keys 密钥对
+   * @returns PEM格式的公钥和私钥
+   */
+  exportPem(keys: KeyPair): { publicKey: string; privateKey: string | null } {
+    const p = BigInt(keys.publicKey.p);
+    const g = BigInt(keys.publicKey.g);
+
+    return {
+      publicKey: exportDhPublicKey({ p, g, y: BigInt(keys.publicKey.y) }),
+      privateKey: keys.privateKey ? exportDhPrivateKey({ p, g, x: BigInt(keys.privateKey.x) }) : null
+    };
+  }
+
+  /**
+   * 导入PEM格式密钥（DH SubjectPublicKeyInfo或PKCS#8）
+   * 导入私钥时由 y = g^x mod p 恢复公钥；只有公钥时privateKey为null
+   * @param pem PEM文本
+   * @returns 密钥对
+   */
+  importPem(pem: string): KeyPair {
+    const isPrivate = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(pem);
+    const imported = isPrivate ? importPrivateKey(pem) : importPublicKey(pem);
+    if (imported.type !== 'DH') {
+      throw new Error('不是ElGamal/DH密钥');
+    }
+
+    const { p, g } = imported.key;
+    if ('x' in imported.key) {
+      const x = imported.key.x;
+      return this.toKeyPair(p, g, this.modPow(g, x, p), x);
+    }
+    return this.toKeyPair(p, g, imported.key.y, null);
+  }
+
+  /**
+   * 构造密钥对对象
+   * @param p 素数模数
+   * @param g 生成元
+   * @param y 公钥
+   * @param x 私钥（可为null）
+   * @returns 密钥对
+   */
+  private toKeyPair(p: bigint, g: bigint, y: bigint, x: bigint | null): KeyPair {
+    const keySize = this.getBitLength(p);
+
+    return {
+      publicKey: {
+        y: y.toString(),
+        g: g.toString(),
+        p: p.toString()
+      },
+      privateKey: x === null ? null : {
+        x: x.toString(),
+        g: g.toString(),
+        p: p.toString()
+      },
+      keySize,
+      publicKeyDetails: {
+        algorithm: 'ElGamal',
+        keySize: `${keySize}位`,
+        p: this.abbreviateString(p.toString()),
+        g: g.toString(),
+        y: this.abbreviateString(y.toString())
+      },
+      privateKeyDetails: x === null ? undefined : {
+        algorithm: 'ElGamal',
+        keySize: `${keySize}位`,
+        x: this.abbreviateString(x.toString())
+      }
+    };
+  }
+
   /**
    * 使用公钥加密消息
    * @param message 要加密的明文消息
@@ -205,6 +254,151 @@ export class ElGamalEncryption implements EncryptionAlgorithm {
     return decryptedText;
   }
 
+  /**
+   * 同态乘法：逐分量相乘 (c1·c1', c2·c2') = (g^(k+k'), m1·m2·y^(k+k'))，即 E(m1·m2 mod p)
+   * 只需公钥，运算过程中不解密任何一个密文
+   * 指数ElGamal密文相乘是明文相加，应使用add
+   * @param a 第一个密文
+   * @param b 第二个密文
+   * @param publicKey 加密所用的公钥
+   * @returns 明文之积的密文
+   */
+  multiply(a: EncryptionResult, b: EncryptionResult, publicKey: any): EncryptionResult {
+    if (a.metadata?.exponential || b.metadata?.exponential) {
+      throw new Error('同态乘法只适用于普通ElGamal密文，指数ElGamal密文请使用add做加法');
+    }
+    return this.combine(a, b, publicKey, false);
+  }
+
+  /**
+   * 指数ElGamal加密：把明文放在指数上 (g^k, g^m·y^k)
+   * 密文相乘时指数相加，因此可以做加法同态，但解密需要求小范围的离散对数
+   * @param m 明文整数（非负，解密时须不超过decryptExponent的上限）
+   * @param publicKey 加密用的公钥
+   * @returns 加密结果
+   */
+  encryptExponent(m: bigint, publicKey: any): EncryptionResult {
+    if (m < 0n) {
+      throw new Error('指数ElGamal的明文须为非负整数');
+    }
+    const G = BigInt(publicKey.g);
+    const P = BigInt(publicKey.p);
+    const k = this.generateRandomBigInt(P - 1n);
+
+    return this.toCiphertext(
+      this.modPow(G, k, P),
+      (this.modPow(G, m, P) * this.modPow(BigInt(publicKey.y), k, P)) % P,
+      true
+    );
+  }
+
+  /**
+   * 指数ElGamal的同态加法：E(m1)·E(m2) = (g^(k+k'), g^(m1+m2)·y^(k+k'))，即 E(m1 + m2)
+   * @param a 第一个指数ElGamal密文
+   * @param b 第二个指数ElGamal密文
+   * @param publicKey 加密所用的公钥
+   * @returns 明文之和的密文
+   */
+  add(a: EncryptionResult, b: EncryptionResult, publicKey: any): EncryptionResult {
+    if (!a.metadata?.exponential || !b.metadata?.exponential) {
+      throw new Error('同态加法只适用于指数ElGamal密文，请使用encryptExponent加密');
+    }
+    return this.combine(a, b, publicKey, true);
+  }
+
+  /**
+   * 指数ElGamal解密：先求出 g^m = c2 / c1^x，再用小步大步法在[0, maxValue]内求离散对数m
+   * @param encryptionResult 指数ElGamal密文
+   * @param privateKey 解密用的私钥
+   * @param maxValue 明文上限，计算量约为 √maxValue 次乘法
+   * @returns 明文整数
+   */
+  decryptExponent(encryptionResult: EncryptionResult, privateKey: any, maxValue: number = 10000): bigint {
+    const P = BigInt(privateKey.p);
+    const G = BigInt(privateKey.g);
+    const { c1, c2 } = this.parseCiphertext(encryptionResult);
+    const gm = (c2 * this.modInverse(this.modPow(c1, BigInt(privateKey.x), P), P)) % P;
+
+    // 小步：记录 g^j，j ∈ [0, s)
+    const s = Math.ceil(Math.sqrt(maxValue + 1));
+    const babySteps = new Map<bigint, number>();
+    let value = 1n;
+    for (let j = 0; j < s; j++) {
+      if (!babySteps.has(value)) babySteps.set(value, j);
+      value = (value * G) % P;
+    }
+
+    // 大步：依次检查 g^m · g^(-s·i) 是否落在小步表中
+    const giantStep = this.modInverse(value, P);
+    let gamma = gm;
+    for (let i = 0; i <= s; i++) {
+      const j = babySteps.get(gamma);
+      if (j !== undefined && i * s + j <= maxValue) {
+        return BigInt(i * s + j);
+      }
+      gamma = (gamma * giantStep) % P;
+    }
+
+    throw new Error(`解密结果不在[0, ${maxValue}]范围内`);
+  }
+
+  /**
+   * 重新随机化：乘上一个0的新加密 (g^k', y^k')，得到 (c1·g^k', c2·y^k')
+   * 结果与原密文看起来毫无关联，但解密得到相同的明文；普通密文与指数ElGamal密文均适用
+   * @param encryptionResult 原密文
+   * @param publicKey 加密所用的公钥
+   * @returns 新的密文
+   */
+  rerandomize(encryptionResult: EncryptionResult, publicKey: any): EncryptionResult {
+    const G = BigInt(publicKey.g);
+    const P = BigInt(publicKey.p);
+    const { c1, c2 } = this.parseCiphertext(encryptionResult);
+    const k = this.generateRandomBigInt(P - 1n);
+
+    return this.toCiphertext(
+      (c1 * this.modPow(G, k, P)) % P,
+      (c2 * this.modPow(BigInt(publicKey.y), k, P)) % P,
+      !!encryptionResult.metadata?.exponential
+    );
+  }
+
+  /**
+   * 两个密文逐分量相乘
+   */
+  private combine(a: EncryptionResult, b: EncryptionResult, publicKey: any, exponential: boolean): EncryptionResult {
+    const P = BigInt(publicKey.p);
+    const first = this.parseCiphertext(a);
+    const second = this.parseCiphertext(b);
+    return this.toCiphertext((first.c1 * second.c1) % P, (first.c2 * second.c2) % P, exponential);
+  }
+
+  /**
+   * 解析单块密文 (c1, c2)
+   */
+  private parseCiphertext(encryptionResult: EncryptionResult): { c1: bigint; c2: bigint } {
+    if (encryptionResult.metadata?.isBlocked) {
+      throw new Error('分块加密的密文不支持同态运算');
+    }
+    const { c1, c2 } = JSON.parse(encryptionResult.ciphertext);
+    return { c1: BigInt(c1), c2: BigInt(c2) };
+  }
+
+  /**
+   * 构造单块密文的加密结果
+   */
+  private toCiphertext(c1: bigint, c2: bigint, exponential: boolean): EncryptionResult {
+    return {
+      ciphertext: JSON.stringify({
+        c1: c1.toString(),
+        c2: c2.toString()
+      }),
+      metadata: {
+        isBlocked: false,
+        exponential
+      }
+    };
+  }
+
   /**
    * 快速模幂算法计算 base^exponent mod modulus
    * @param base 底数
@@ -423,32 +617,4 @@ export class ElGamalEncryption implements EncryptionAlgorithm {
     if (str.length <= 10) return str;
     return `${str.substring(0, 4)}...${str.substring(str.length - 4)}`;
   }
-
-  /**
-   * 简单哈希函数（简化版SHA-256）
-   * @param data 要哈希的数据
-   * @returns 哈希值
-   */
-  private simpleHash(data: Uint8Array): Uint8Array {
-    // 使用初始哈希值
-    let h = [...this.HASH_INIT];
-    
-    // 简化版哈希计算
-    for (let i = 0; i < data.length; i++) {
-      const byte = data[i];
-      for (let j = 0; j < 8; j++) {
-        h[j] = ((h[j] << 5) - h[j] + byte) | 0;
-      }
-    }
-    
-    // 转换为字节数组
-    const result = new Uint8Array(32);
-    for (let i = 0; i < 8; i++) {
-      for (let j = 0; j < 4; j++) {
-        result[i * 4 + j] = (h[i] >>> ((3 - j) * 8)) & 0xff;
-      }
-    }
-    
-    return result;
-  }
 } 
\ No newline at end of file
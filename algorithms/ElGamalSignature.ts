@@ -0,0 +1,229 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions } from './types';
+import { digestHex } from './hash';
+import { getModpPrime, MODP_GENERATOR } from './modp';
+
+/**
+ * ElGamal数字签名算法
+ * 与ElGamal加密共用RFC 3526的MODP群和密钥格式：私钥x，公钥y = g^x mod p
+ * 签名 r = g^k mod p，s = k^(-1)·(H(m) - x·r) mod (p-1)；验证 g^H(m) ≡ y^r · r^s (mod p)
+ * DSA在此基础上把运算限制在q阶子群内，指数和签名都缩短为N位
+ */
+export class ElGamalSignature implements CryptoAlgorithm {
+  constructor() {}
+
+  /**
+   * 生成ElGamal签名密钥对
+   * @param options 密钥生成选项，keySize为MODP群素数p的位长（1536、2048、3072或4096，默认2048）
+   * @returns 密钥对，格式与ElGamalEncryption相同
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const p = getModpPrime(options.keySize);
+    const g = MODP_GENERATOR;
+
+    // 1. 私钥x是[1, p-2]范围内的随机数
+    const x = this.generateRandomBigInt(p - 1n);
+
+    // 2. 公钥y = g^x mod p
+    const y = this.modPow(g, x, p);
+
+    return {
+      publicKey: {
+        y: y.toString(),
+        g: g.toString(),
+        p: p.toString()
+      },
+      privateKey: {
+        x: x.toString(),
+        p: p.toString()
+      },
+      keySize: this.getBitLength(p)
+    };
+  }
+
+  /**
+   * ElGamal签名算法实现
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果 (r, s)
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    // 1. 读取群参数与私钥
+    const p = BigInt(keys.privateKey.p);
+    const g = keys.publicKey?.g ? BigInt(keys.publicKey.g) : MODP_GENERATOR;
+    const x = BigInt(keys.privateKey.x);
+    const order = p - 1n;
+
+    // 2. 计算消息哈希 H = SHA-256(m) mod (p-1)
+    const messageHash = digestHex('SHA-256', message);
+    const H = BigInt(`0x${messageHash}`) % order;
+
+    for (;;) {
+      // 3. 选择与p-1互素的随机数k；安全素数的p-1 = 2q，k必须是奇数且不是q的倍数
+      const k = this.generateRandomBigInt(order);
+      if (this.gcd(k, order) !== 1n) {
+        continue;
+      }
+
+      // 4. 计算 r = g^k mod p
+      const r = this.modPow(g, k, p);
+
+      // 5. 计算 s = k^(-1)·(H - x·r) mod (p-1)，s = 0时重新选择k
+      const s = this.mod((H - x * r) * this.modInverse(k, order), order);
+      if (s === 0n) {
+        continue;
+      }
+
+      return {
+        signature: null,
+        r: r.toString(),
+        s: s.toString(),
+        messageHash,
+        pBits: this.getBitLength(p),
+        hash: 'SHA-256'
+      };
+    }
+  }
+
+  /**
+   * ElGamal签名验证算法实现
+   * 检查 0 < r < p、0 < s < p-1，且 g^H(m) ≡ y^r · r^s (mod p)
+   *
+   * @param message 原始消息
+   * @param signature 签名结果
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      // 1. 读取公钥和签名值
+      const p = BigInt(keys.publicKey.p);
+      const g = BigInt(keys.publicKey.g);
+      const y = BigInt(keys.publicKey.y);
+      const r = BigInt(signature.r);
+      const s = BigInt(signature.s);
+      const order = p - 1n;
+
+      // 2. 检查r和s的范围，否则可以伪造签名 (Bleichenbacher 1996)
+      if (r <= 0n || r >= p || s <= 0n || s >= order) {
+        return false;
+      }
+
+      // 3. 计算消息哈希 H = SHA-256(m) mod (p-1)
+      const H = BigInt(`0x${digestHex('SHA-256', message)}`) % order;
+
+      // 4. 验证 g^H ≡ y^r · r^s (mod p)
+      const left = this.modPow(g, H, p);
+      const right = (this.modPow(y, r, p) * this.modPow(r, s, p)) % p;
+      return left === right;
+    } catch (error) {
+      // 静默失败，返回false而不输出错误日志
+      return false;
+    }
+  }
+
+  /**
+   * 快速模幂算法计算 base^exponent mod modulus
+   */
+  private modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    if (modulus === 1n) return 0n;
+
+    let result = 1n;
+    base = base % modulus;
+
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+      exponent >>= 1n;
+      base = (base * base) % modulus;
+    }
+
+    return result;
+  }
+
+  /**
+   * 计算模逆元 a^(-1) mod m
+   * 使用扩展欧几里得算法
+   */
+  private modInverse(a: bigint, m: bigint): bigint {
+    a = this.mod(a, m);
+
+    let [old_r, r] = [a, m];
+    let [old_s, s] = [1n, 0n];
+
+    while (r !== 0n) {
+      const quotient = old_r / r;
+      [old_r, r] = [r, old_r - quotient * r];
+      [old_s, s] = [s, old_s - quotient * s];
+    }
+
+    if (old_r !== 1n) {
+      throw new Error('模逆元不存在: gcd不为1');
+    }
+
+    return this.mod(old_s, m);
+  }
+
+  /**
+   * 计算最大公约数
+   */
+  private gcd(a: bigint, b: bigint): bigint {
+    while (b !== 0n) {
+      [a, b] = [b, a % b];
+    }
+    return a;
+  }
+
+  /**
+   * 取模，结果为非负数
+   */
+  private mod(a: bigint, m: bigint): bigint {
+    const result = a % m;
+    return result < 0n ? result + m : result;
+  }
+
+  /**
+   * 生成[1, max-1]范围内的随机大整数
+   */
+  private generateRandomBigInt(max: bigint): bigint {
+    const byteLength = Math.ceil(this.getBitLength(max) / 8);
+    let result: bigint;
+
+    do {
+      const randomBytes = this.getRandomBytes(byteLength);
+      result = 0n;
+      for (const byte of randomBytes) {
+        result = (result << 8n) | BigInt(byte);
+      }
+      result = result % max;
+    } while (result <= 0n);
+
+    return result;
+  }
+
+  /**
+   * 获取大整数的位长度
+   */
+  private getBitLength(n: bigint): number {
+    return n.toString(2).length;
+  }
+
+  /**
+   * 生成指定长度的随机字节数组
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不是浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+}
@@ -0,0 +1,159 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { sha256 } from './hash';
+
+/**
+ * Lamport一次性签名算法
+ * 安全性只依赖哈希函数的单向性：对SHA-256(M)的每一位准备两个随机原像，公钥是它们的哈希值，
+ * 签名时按该位是0还是1公开其中一个原像。同一私钥签第二条消息会泄露更多原像，因此只能签名一次
+ */
+export class Lamport implements CryptoAlgorithm {
+  // 消息摘要的位数，也是原像对的个数
+  private readonly bits = 256;
+
+  constructor() {}
+
+  /**
+   * 生成Lamport密钥对
+   * 私钥只保存32字节种子，第i位的两个原像为 SHA-256(种子 ‖ i ‖ b)，b ∈ {0, 1}
+   * @returns 密钥对，公钥为512个原像哈希拼接成的十六进制，私钥带有是否已签名的标记
+   */
+  async generateKeys(): Promise<KeyPair> {
+    const seed = this.getRandomBytes(32);
+    const publicKey = new Uint8Array(this.bits * 2 * 32);
+
+    for (let i = 0; i < this.bits; i++) {
+      for (let b = 0; b < 2; b++) {
+        publicKey.set(sha256(this.preimage(seed, i, b)), (i * 2 + b) * 32);
+      }
+    }
+
+    return {
+      publicKey: { key: this.uint8ArrayToHex(publicKey) },
+      privateKey: { seed: this.uint8ArrayToHex(seed), used: false },
+      keySize: this.bits
+    };
+  }
+
+  /**
+   * Lamport签名：对SHA-256(M)的第i位公开原像 sk[i][bit_i]
+   * 签名后私钥被标记为已使用，再次签名会抛出错误
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为256个原像拼接成的十六进制
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    if (keys.privateKey.used) {
+      throw new Error('该Lamport私钥已经签过名，一次性密钥不能重复使用');
+    }
+    // 先标记再签名，即使签名过程出错也不会再次使用同一私钥
+    keys.privateKey.used = true;
+
+    const seed = this.hexToUint8Array(keys.privateKey.seed as string);
+    const digest = sha256(message);
+    const signature = new Uint8Array(this.bits * 32);
+
+    for (let i = 0; i < this.bits; i++) {
+      signature.set(this.preimage(seed, i, this.bitAt(digest, i)), i * 32);
+    }
+
+    return {
+      signature: this.uint8ArrayToHex(signature),
+      messageHash: this.uint8ArrayToHex(digest),
+      hash: 'SHA-256'
+    };
+  }
+
+  /**
+   * Lamport签名验证：逐位检查 SHA-256(原像) 是否等于公钥中对应的哈希值
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      const publicKeyHex = keys.publicKey.key as string;
+      if (
+        typeof signatureHex !== 'string' ||
+        !new RegExp(`^[0-9a-fA-F]{${this.bits * 64}}$`).test(signatureHex)
+      ) {
+        return false;
+      }
+
+      const digest = sha256(message);
+      for (let i = 0; i < this.bits; i++) {
+        const revealed = this.uint8ArrayToHex(sha256(this.hexToUint8Array(signatureHex.substring(i * 64, (i + 1) * 64))));
+        const offset = (i * 2 + this.bitAt(digest, i)) * 64;
+        if (revealed !== publicKeyHex.substring(offset, offset + 64).toLowerCase()) {
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Lamport签名验证错误:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 由种子派生第i位取值为b时的原像
+   */
+  private preimage(seed: Uint8Array, i: number, b: number): Uint8Array {
+    const input = new Uint8Array(seed.length + 3);
+    input.set(seed);
+    input[seed.length] = i >> 8;
+    input[seed.length + 1] = i & 0xff;
+    input[seed.length + 2] = b;
+    return sha256(input);
+  }
+
+  /**
+   * 读取摘要的第i位（高位在前）
+   */
+  private bitAt(digest: Uint8Array, i: number): number {
+    return (digest[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
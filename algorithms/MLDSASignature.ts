@@ -0,0 +1,171 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions, MlDsaParameterSet } from './types';
+import {
+  getMlDsaParameters,
+  MlDsaParameters,
+  mlDsaKeyGen,
+  mlDsaMessageRepresentative,
+  mlDsaSign,
+  mlDsaSizes,
+  mlDsaVerify
+} from './mldsa';
+
+/**
+ * ML-DSA后量子签名算法 (FIPS 204)
+ * 安全性基于模格上的误差学习(Module-LWE)与短整数解(Module-SIS)问题，能够抵抗量子计算机的攻击
+ * 签名使用"对冲"模式：每次签名混入32字节随机数，同一消息的签名各不相同
+ */
+export class MLDSASignature implements CryptoAlgorithm {
+  constructor() {}
+
+  /**
+   * 生成ML-DSA密钥对
+   * @param options 密钥生成选项，parameterSet为参数集（ML-DSA-44、ML-DSA-65或ML-DSA-87，默认ML-DSA-65）
+   * @returns 密钥对，公钥与私钥均为FIPS 204编码的十六进制
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    return this.keysFromSeed(
+      this.uint8ArrayToHex(this.getRandomBytes(32)),
+      (options.parameterSet ?? 'ML-DSA-65') as MlDsaParameterSet
+    );
+  }
+
+  /**
+   * 由32字节种子ξ确定性地构造密钥对 (FIPS 204 算法6)
+   * @param seedHex 种子ξ（十六进制）
+   * @param parameterSet 参数集（ML-DSA-44、ML-DSA-65或ML-DSA-87）
+   * @returns 密钥对
+   */
+  keysFromSeed(seedHex: string, parameterSet: MlDsaParameterSet = 'ML-DSA-65'): KeyPair {
+    if (!/^[0-9a-fA-F]{64}$/.test(seedHex)) {
+      throw new Error('ML-DSA密钥种子长度应为32字节');
+    }
+    const params = getMlDsaParameters(parameterSet);
+    const { pk, sk } = mlDsaKeyGen(params, this.hexToUint8Array(seedHex));
+
+    return {
+      publicKey: { key: this.uint8ArrayToHex(pk), parameterSet: params.name },
+      privateKey: { key: this.uint8ArrayToHex(sk), parameterSet: params.name },
+      parameterSet: params.name
+    };
+  }
+
+  /**
+   * ML-DSA签名，消息按UTF-8编码
+   * 签名过程会多次尝试，结果中的attempts记录了每次尝试的范数与拒绝原因
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为FIPS 204编码的十六进制
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    const params = this.parametersOf(keys.privateKey);
+    const { signature, attempts } = mlDsaSign(
+      params,
+      this.hexToUint8Array(keys.privateKey.key as string),
+      new TextEncoder().encode(message),
+      this.getRandomBytes(32)
+    );
+
+    return {
+      signature: this.uint8ArrayToHex(signature),
+      messageHash: keys.publicKey ? this.messageRepresentative(message, keys) : undefined,
+      hash: 'SHAKE256',
+      parameterSet: params.name,
+      attempts
+    };
+  }
+
+  /**
+   * ML-DSA签名验证
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      if (typeof signatureHex !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(signatureHex)) {
+        return false;
+      }
+      return mlDsaVerify(
+        this.parametersOf(keys.publicKey),
+        this.hexToUint8Array(keys.publicKey.key as string),
+        new TextEncoder().encode(message),
+        this.hexToUint8Array(signatureHex)
+      );
+    } catch (error) {
+      console.error('ML-DSA签名验证错误:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 计算签名实际覆盖的消息代表 μ = SHAKE256(SHAKE256(pk) ‖ M')
+   * @param message 消息
+   * @param keys 包含公钥的密钥对
+   * @returns μ的十六进制
+   */
+  messageRepresentative(message: string, keys: KeyPair): string {
+    const params = this.parametersOf(keys.publicKey);
+    return this.uint8ArrayToHex(
+      mlDsaMessageRepresentative(params, this.hexToUint8Array(keys.publicKey.key as string), new TextEncoder().encode(message))
+    );
+  }
+
+  /**
+   * 获取参数集对应的公钥、私钥与签名字节长度
+   * @param parameterSet 参数集（ML-DSA-44、ML-DSA-65或ML-DSA-87）
+   */
+  getSizes(parameterSet: MlDsaParameterSet = 'ML-DSA-65'): { publicKey: number; privateKey: number; signature: number } {
+    return mlDsaSizes(getMlDsaParameters(parameterSet));
+  }
+
+  /**
+   * 读取密钥所属的参数集
+   */
+  private parametersOf(key: any): MlDsaParameters {
+    return getMlDsaParameters(key?.parameterSet);
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -0,0 +1,281 @@
+import { KeyPair, EncryptionResult, EncryptionAlgorithm, IntegrityError } from './encryption-types';
+import { KeyGenerationOptions, MlKemParameterSet } from './types';
+import { aesGcmDecrypt, aesGcmEncrypt } from './symmetric';
+import {
+  getMlKemParameters,
+  MlKemParameters,
+  mlKemDecaps,
+  mlKemDecryptionNoise,
+  mlKemEncaps,
+  mlKemKeyGen,
+  mlKemSizes
+} from './mlkem';
+
+/**
+ * ML-KEM后量子加密算法实现类
+ * 采用KEM+DEM混合方案：ML-KEM封装出32字节共享密钥K，再用AES-256-GCM加密任意长度的消息，
+ * KEM密文作为GCM的附加认证数据，与消息密文绑定
+ */
+export class MLKEMEncryption implements EncryptionAlgorithm {
+  name = 'ML-KEM';
+  description = 'ML-KEM（原名Kyber）是NIST在FIPS 203中标准化的后量子密钥封装机制，安全性基于模格上的误差学习问题，能够抵抗量子计算机的攻击。公钥和密文比RSA、ECC更大，但运算速度很快。';
+
+  /**
+   * 生成ML-KEM密钥对
+   * @param options 密钥生成选项，parameterSet为参数集（ML-KEM-512或ML-KEM-768，默认ML-KEM-768）
+   * @returns 包含封装密钥（公钥）和解封装密钥（私钥）的KeyPair对象
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const params = getMlKemParameters(options.parameterSet ?? 'ML-KEM-768');
+
+    try {
+      // 随机种子d派生K-PKE密钥，z用于隐式拒绝
+      const { ek, dk } = mlKemKeyGen(params, this.getRandomBytes(32), this.getRandomBytes(32));
+      const publicKey = this.bytesToHex(ek);
+      const privateKey = this.bytesToHex(dk);
+
+      return {
+        publicKey: {
+          key: publicKey,
+          parameterSet: params.name
+        },
+        privateKey: {
+          key: privateKey,
+          parameterSet: params.name
+        },
+        parameterSet: params.name,
+        publicKeyDetails: {
+          algorithm: 'ML-KEM',
+          parameterSet: params.name,
+          size: `${ek.length}字节`,
+          publicKey: this.abbreviateString(publicKey)
+        },
+        privateKeyDetails: {
+          algorithm: 'ML-KEM',
+          parameterSet: params.name,
+          size: `${dk.length}字节`,
+          privateKey: this.abbreviateString(privateKey)
+        }
+      };
+    } catch (error) {
+      console.error('ML-KEM密钥生成错误:', error);
+      throw new Error('ML-KEM密钥生成失败');
+    }
+  }
+
+  /**
+   * 使用ML-KEM + AES-256-GCM加密消息
+   * @param message 要加密的明文消息
+   * @param publicKey 接收方的封装密钥
+   * @returns 包含密文的加密结果，ephemeralKey为KEM密文
+   */
+  async encrypt(message: string, publicKey: any): Promise<EncryptionResult> {
+    try {
+      const params = this.parametersOf(publicKey);
+
+      // 封装：得到共享密钥K和KEM密文c
+      const { sharedKey, ciphertext: kemCiphertext } = mlKemEncaps(
+        params,
+        this.hexToBytes(publicKey.key),
+        this.getRandomBytes(32)
+      );
+
+      // 用K作为AES-256-GCM密钥加密消息，KEM密文作为附加认证数据
+      const iv = this.getRandomBytes(12);
+      const { ciphertext, tag } = aesGcmEncrypt(sharedKey, iv, this.stringToBytes(message), kemCiphertext);
+
+      return {
+        ciphertext: this.bytesToBase64(ciphertext),
+        ephemeralKey: this.bytesToHex(kemCiphertext),
+        iv: this.bytesToHex(iv),
+        tag: this.bytesToHex(tag),
+        metadata: {
+          parameterSet: params.name,
+          algorithm: `${params.name} + AES-256-GCM`,
+          kemCiphertextBytes: kemCiphertext.length,
+          cipher: 'AES-256-GCM'
+        }
+      };
+    } catch (error) {
+      console.error('ML-KEM加密错误:', error);
+      throw new Error('ML-KEM加密失败');
+    }
+  }
+
+  /**
+   * 使用ML-KEM + AES-256-GCM解密消息
+   * KEM密文被篡改时解封装隐式拒绝，得到的随机密钥无法通过GCM认证
+   * @param encryptionResult 包含密文的加密结果
+   * @param privateKey 接收方的解封装密钥
+   * @returns 解密后的明文
+   */
+  async decrypt(encryptionResult: EncryptionResult, privateKey: any): Promise<string> {
+    try {
+      const params = this.parametersOf(privateKey);
+      if (!encryptionResult.ephemeralKey) {
+        throw new Error('缺少KEM密文');
+      }
+      if (!encryptionResult.iv || !encryptionResult.tag) {
+        throw new Error('缺少初始化向量或认证标签');
+      }
+
+      // 解封装得到共享密钥K
+      const kemCiphertext = this.hexToBytes(encryptionResult.ephemeralKey);
+      const sharedKey = mlKemDecaps(params, this.hexToBytes(privateKey.key), kemCiphertext);
+
+      let plaintext: Uint8Array;
+      try {
+        plaintext = aesGcmDecrypt(
+          sharedKey,
+          this.hexToBytes(encryptionResult.iv),
+          this.base64ToBytes(encryptionResult.ciphertext),
+          this.hexToBytes(encryptionResult.tag),
+          kemCiphertext
+        );
+      } catch (error) {
+        throw new IntegrityError();
+      }
+
+      return this.bytesToString(plaintext);
+    } catch (error) {
+      // 完整性错误原样抛出，便于调用方区分篡改与其他失败
+      if (error instanceof IntegrityError) {
+        throw error;
+      }
+      console.error('ML-KEM解密错误:', error);
+      throw new Error('ML-KEM解密失败');
+    }
+  }
+
+  /**
+   * 分析解封装时的格噪声，用于可视化
+   * @param encryptionResult 加密结果
+   * @param privateKey 解封装密钥
+   * @returns 解密多项式w的系数、解出的比特、各系数的噪声，以及私钥s的小系数
+   */
+  analyzeNoise(encryptionResult: EncryptionResult, privateKey: any) {
+    const params = this.parametersOf(privateKey);
+    return mlKemDecryptionNoise(
+      params,
+      this.hexToBytes(privateKey.key),
+      this.hexToBytes(encryptionResult.ephemeralKey)
+    );
+  }
+
+  /**
+   * 获取参数集对应的密钥与密文字节长度
+   * @param parameterSet 参数集（ML-KEM-512或ML-KEM-768）
+   */
+  getSizes(parameterSet: MlKemParameterSet = 'ML-KEM-768'): { encapsulationKey: number; decapsulationKey: number; ciphertext: number } {
+    return mlKemSizes(getMlKemParameters(parameterSet));
+  }
+
+  /**
+   * 读取密钥所属的参数集
+   */
+  private parametersOf(key: any): MlKemParameters {
+    return getMlKemParameters(key?.parameterSet);
+  }
+
+  /**
+   * 将字节数组转换为Base64字符串
+   */
+  private bytesToBase64(bytes: Uint8Array): string {
+    if (typeof btoa === 'function') {
+      const binaryString = Array.from(bytes).map(byte => String.fromCharCode(byte)).join('');
+      return btoa(binaryString);
+    } else {
+      return Buffer.from(bytes).toString('base64');
+    }
+  }
+
+  /**
+   * 将Base64字符串转换为字节数组
+   */
+  private base64ToBytes(base64: string): Uint8Array {
+    if (typeof atob === 'function') {
+      const binaryString = atob(base64);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      return bytes;
+    } else {
+      return new Uint8Array(Buffer.from(base64, 'base64'));
+    }
+  }
+
+  /**
+   * 将字节数组转换为十六进制字符串
+   */
+  private bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * 将十六进制字符串转换为字节数组
+   */
+  private hexToBytes(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  /**
+   * 将字符串转换为字节数组
+   */
+  private stringToBytes(str: string): Uint8Array {
+    if (typeof TextEncoder !== 'undefined') {
+      return new TextEncoder().encode(str);
+    } else {
+      // 简单实现，适用于ASCII字符
+      const bytes = new Uint8Array(str.length);
+      for (let i = 0; i < str.length; i++) {
+        bytes[i] = str.charCodeAt(i) & 0xff;
+      }
+      return bytes;
+    }
+  }
+
+  /**
+   * 将字节数组转换为字符串
+   */
+  private bytesToString(bytes: Uint8Array): string {
+    if (typeof TextDecoder !== 'undefined') {
+      return new TextDecoder().decode(bytes);
+    } else {
+      // 简单实现，适用于ASCII字符
+      return Array.from(bytes).map(byte => String.fromCharCode(byte)).join('');
+    }
+  }
+
+  /**
+   * 生成指定长度的随机字节数组
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不是浏览器环境，使用自定义的伪随机数填充
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 缩写字符串，用于显示长密钥
+   */
+  private abbreviateString(str: string): string {
+    if (str.length <= 20) return str;
+    return str.substring(0, 10) + '...' + str.substring(str.length - 10);
+  }
+}
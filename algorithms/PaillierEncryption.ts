@@ -0,0 +1,360 @@
+import { KeyPair, EncryptionResult, EncryptionAlgorithm } from './encryption-types';
+import { KeyGenerationOptions } from './types';
+import { RSAEncryption } from './RSAEncryption';
+
+/**
+ * Paillier加密算法实现类
+ * 基于合数剩余类问题，密文具有加法同态性：E(m1)·E(m2) = E(m1 + m2)，E(m)^k = E(k·m)
+ * 采用生成元 g = n + 1 的简化形式，此时 g^m = 1 + m·n (mod n²)
+ */
+export class PaillierEncryption implements EncryptionAlgorithm {
+  name = 'Paillier';
+  description = 'Paillier是一种具有加法同态性的非对称加密算法，由Pascal Paillier在1999年提出。任何人都能把两个密文相乘得到明文之和的密文，而无需解密，常用于电子投票与隐私统计。';
+
+  // 复用RSA的大素数生成
+  private readonly rsa = new RSAEncryption();
+
+  constructor() {}
+
+  /**
+   * 生成Paillier密钥对
+   * @param options 密钥生成选项，keySize为模数n的位长（1024–4096，默认2048）
+   * @returns 包含公钥和私钥的KeyPair对象
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const keySize = options.keySize ?? 2048;
+    if (!Number.isInteger(keySize) || keySize < 1024 || keySize > 4096) {
+      throw new Error(`不支持的密钥长度: ${keySize}，Paillier模数须为1024–4096位`);
+    }
+
+    try {
+      // 步骤1: 生成两个等长素数p、q，n = p·q
+      const [p, q] = await this.rsa.generatePrimes(keySize, 2);
+      const n = p * q;
+
+      // 步骤2: λ = lcm(p − 1, q − 1)
+      const lambda = ((p - 1n) * (q - 1n)) / this.gcd(p - 1n, q - 1n);
+
+      // 步骤3: g = n + 1时 L(g^λ mod n²) = λ mod n，因此 μ = λ⁻¹ mod n
+      const mu = this.modInverse(lambda, n);
+
+      return {
+        publicKey: {
+          n: n.toString(),
+          g: (n + 1n).toString()
+        },
+        privateKey: {
+          lambda: lambda.toString(),
+          mu: mu.toString(),
+          n: n.toString()
+        },
+        keySize,
+        publicKeyDetails: {
+          algorithm: 'Paillier',
+          keySize: `${keySize}位`,
+          n: this.abbreviateString(n.toString()),
+          g: 'n + 1'
+        },
+        privateKeyDetails: {
+          algorithm: 'Paillier',
+          keySize: `${keySize}位`,
+          lambda: this.abbreviateString(lambda.toString()),
+          mu: this.abbreviateString(mu.toString())
+        }
+      };
+    } catch (error) {
+      console.error('Paillier密钥生成错误:', error);
+      throw new Error('Paillier密钥生成失败');
+    }
+  }
+
+  /**
+   * 使用公钥加密消息，消息按UTF-8编码后视为一个整数，须小于n
+   * @param message 要加密的明文消息
+   * @param publicKey 加密用的公钥
+   * @returns 包含密文的加密结果
+   */
+  async encrypt(message: string, publicKey: any): Promise<EncryptionResult> {
+    const m = this.bytesToBigInt(new TextEncoder().encode(message));
+    if (m >= BigInt(publicKey.n)) {
+      throw new Error(`消息太长，最大长度为${Math.floor((this.getBitLength(BigInt(publicKey.n)) - 1) / 8)}字节`);
+    }
+    return this.encryptNumber(m, publicKey);
+  }
+
+  /**
+   * 使用私钥解密消息
+   * @param encryptionResult 包含密文的加密结果
+   * @param privateKey 解密用的私钥
+   * @returns 解密后的明文
+   */
+  async decrypt(encryptionResult: EncryptionResult, privateKey: any): Promise<string> {
+    try {
+      const m = this.decryptNumber(encryptionResult, privateKey);
+      const bytes = this.bigIntToBytes(m, Math.ceil(this.getBitLength(m) / 8));
+      return new TextDecoder().decode(bytes);
+    } catch (error) {
+      console.error('Paillier解密错误:', error);
+      throw new Error('Paillier解密失败');
+    }
+  }
+
+  /**
+   * 加密整数：c = g^m · r^n = (1 + m·n) · r^n mod n²，r为与n互素的随机数
+   * @param m 明文整数，须在[0, n)内
+   * @param publicKey 加密用的公钥
+   * @returns 加密结果，ciphertext为c的Base64编码
+   */
+  encryptNumber(m: bigint, publicKey: any): EncryptionResult {
+    const n = BigInt(publicKey.n);
+    if (m < 0n || m >= n) {
+      throw new Error('Paillier明文须在[0, n)范围内');
+    }
+    const n2 = n * n;
+
+    let r: bigint;
+    do {
+      r = this.randomBelow(n);
+    } while (r === 0n || this.gcd(r, n) !== 1n);
+
+    const c = (((1n + m * n) % n2) * this.modExp(r, n, n2)) % n2;
+    return this.toResult(c, n);
+  }
+
+  /**
+   * 解密整数：m = L(c^λ mod n²) · μ mod n，其中 L(x) = (x − 1) / n
+   * @param encryptionResult 包含密文的加密结果
+   * @param privateKey 解密用的私钥
+   * @returns 明文整数
+   */
+  decryptNumber(encryptionResult: EncryptionResult, privateKey: any): bigint {
+    const n = BigInt(privateKey.n);
+    const n2 = n * n;
+    const c = this.bytesToBigInt(this.base64ToBytes(encryptionResult.ciphertext));
+    if (c <= 0n || c >= n2) {
+      throw new Error('Paillier密文须在(0, n²)范围内');
+    }
+
+    const x = this.modExp(c, BigInt(privateKey.lambda), n2);
+    return (((x - 1n) / n) * BigInt(privateKey.mu)) % n;
+  }
+
+  /**
+   * 同态加法：E(m1) · E(m2) mod n² = E(m1 + m2 mod n)
+   * 只需公钥，运算过程中不解密任何一个密文
+   * @param c1 第一个密文
+   * @param c2 第二个密文
+   * @param publicKey 加密所用的公钥
+   * @returns 明文之和的密文
+   */
+  add(c1: EncryptionResult, c2: EncryptionResult, publicKey: any): EncryptionResult {
+    const n = BigInt(publicKey.n);
+    const n2 = n * n;
+    const product = (this.toBigInt(c1) * this.toBigInt(c2)) % n2;
+    return this.toResult(product, n);
+  }
+
+  /**
+   * 同态数乘：E(m)^k mod n² = E(k·m mod n)
+   * @param c 密文
+   * @param k 明文系数，负数按 k mod n 处理
+   * @param publicKey 加密所用的公钥
+   * @returns 明文乘以k后的密文
+   */
+  scalarMultiply(c: EncryptionResult, k: bigint, publicKey: any): EncryptionResult {
+    const n = BigInt(publicKey.n);
+    const exponent = ((k % n) + n) % n;
+    return this.toResult(this.modExp(this.toBigInt(c), exponent, n * n), n);
+  }
+
+  /**
+   * 把密文整数包装成加密结果，长度固定为n²的字节数
+   */
+  private toResult(c: bigint, n: bigint): EncryptionResult {
+    const length = Math.ceil(this.getBitLength(n * n) / 8);
+    return {
+      ciphertext: this.bytesToBase64(this.bigIntToBytes(c, length)),
+      metadata: {
+        homomorphic: true
+      }
+    };
+  }
+
+  /**
+   * 读取加密结果中的密文整数
+   */
+  private toBigInt(result: EncryptionResult): bigint {
+    return this.bytesToBigInt(this.base64ToBytes(result.ciphertext));
+  }
+
+  /**
+   * 快速模幂算法计算 base^exponent mod modulus
+   * @param base 底数
+   * @param exponent 指数
+   * @param modulus 模数
+   * @returns 模幂结果
+   */
+  private modExp(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    if (modulus === 1n) return 0n;
+
+    let result = 1n;
+    base = base % modulus;
+
+    while (exponent > 0n) {
+      // 如果指数的当前位为1，将当前的base值乘到结果中
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+
+      // 平方底数，并右移指数
+      exponent = exponent >> 1n;
+      base = (base * base) % modulus;
+    }
+
+    return result;
+  }
+
+  /**
+   * 计算最大公约数
+   */
+  private gcd(a: bigint, b: bigint): bigint {
+    while (b !== 0n) {
+      [a, b] = [b, a % b];
+    }
+    return a;
+  }
+
+  /**
+   * 计算模逆元：a^(-1) mod m，使得a * a^(-1) ≡ 1 (mod m)
+   * 使用扩展欧几里得算法
+   * @param a 要求逆元的数
+   * @param m 模数
+   * @returns 模逆元
+   */
+  private modInverse(a: bigint, m: bigint): bigint {
+    a = ((a % m) + m) % m;
+
+    let [old_r, r] = [a, m];
+    let [old_s, s] = [1n, 0n];
+
+    while (r !== 0n) {
+      const quotient = old_r / r;
+      [old_r, r] = [r, old_r - quotient * r];
+      [old_s, s] = [s, old_s - quotient * s];
+    }
+
+    if (old_r !== 1n) {
+      throw new Error('模逆元不存在');
+    }
+
+    return (old_s % m + m) % m;
+  }
+
+  /**
+   * 生成[0, max)内的随机大整数
+   */
+  private randomBelow(max: bigint): bigint {
+    const bits = this.getBitLength(max);
+    const bytes = Math.ceil(bits / 8);
+
+    while (true) {
+      const randomBytes = this.getRandomBytes(bytes);
+      // 去掉超出bits的高位，再用拒绝采样保证均匀
+      randomBytes[0] &= 0xff >> (bytes * 8 - bits);
+      const value = this.bytesToBigInt(randomBytes);
+      if (value < max) {
+        return value;
+      }
+    }
+  }
+
+  /**
+   * 将字节数组转换为Base64字符串
+   * @param bytes 字节数组
+   * @returns Base64编码的字符串
+   */
+  private bytesToBase64(bytes: Uint8Array): string {
+    if (typeof btoa === 'function') {
+      return btoa(Array.from(bytes).map(byte => String.fromCharCode(byte)).join(''));
+    }
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  /**
+   * 将Base64字符串转换为字节数组
+   * @param base64 Base64编码的字符串
+   * @returns 字节数组
+   */
+  private base64ToBytes(base64: string): Uint8Array {
+    if (typeof atob === 'function') {
+      return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    }
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+  }
+
+  /**
+   * 将字节数组转换为BigInt
+   * @param bytes 字节数组
+   * @returns BigInt值
+   */
+  private bytesToBigInt(bytes: Uint8Array): bigint {
+    let result = 0n;
+    for (let i = 0; i < bytes.length; i++) {
+      result = (result << 8n) | BigInt(bytes[i]);
+    }
+    return result;
+  }
+
+  /**
+   * 将BigInt转换为指定长度的字节数组
+   * @param value BigInt值
+   * @param length 字节数组的长度
+   * @returns 字节数组
+   */
+  private bigIntToBytes(value: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xffn);
+      value = value >> 8n;
+    }
+    return bytes;
+  }
+
+  /**
+   * 获取大整数的位长度
+   * @param n 大整数
+   * @returns 位长度
+   */
+  private getBitLength(n: bigint): number {
+    return n === 0n ? 0 : n.toString(2).length;
+  }
+
+  /**
+   * 生成指定长度的随机字节数组
+   * @param length 字节长度
+   * @returns 随机字节数组
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 缩写显示长字符串
+   * @param str 原始字符串
+   * @returns 缩写后的字符串
+   */
+  private abbreviateString(str: string): string {
+    if (str.length <= 10) return str;
+    return str.substring(0, 5) + '...' + str.substring(str.length - 5);
+  }
+}
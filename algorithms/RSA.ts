@@ -1,4 +1,14 @@
-import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions, RsaBlindVariant, BlindingResult } from './types';
+import { sha256, sha384 } from './hash';
+import {
+  exportRsaPrivateKey,
+  exportRsaPublicKey,
+  importPrivateKey,
+  importPublicKey,
+  RsaPrivateKeyComponents,
+  RsaPublicKeyComponents
+} from './key-formats';
+import { exportRsaPrivateJwk, exportRsaPublicJwk, importPrivateJwk, importPublicJwk, isPrivateJwk, Jwk } from './jwk';
 
 export class RSA implements CryptoAlgorithm {
   // 固定公钥指数
@@ -11,34 +21,53 @@ export class RSA implements CryptoAlgorithm {
   // PSS参数
   private readonly SALT_LENGTH = 32; // 盐长度（字节）
   private readonly HASH_LENGTH = 32; // SHA-256哈希输出长度（字节）
-  // 存储签名时使用的盐以确保验证能够成功
-  private lastSalt: Uint8Array | null = null;
+
+  // RFC 9474盲签名参数：各变体的PSS盐长度与是否附加随机前缀，哈希固定为SHA-384
+  private readonly BLIND_VARIANTS: Record<RsaBlindVariant, { saltLength: number; randomized: boolean }> = {
+    'RSABSSA-SHA384-PSS-Randomized': { saltLength: 48, randomized: true },
+    'RSABSSA-SHA384-PSSZERO-Randomized': { saltLength: 0, randomized: true },
+    'RSABSSA-SHA384-PSS-Deterministic': { saltLength: 48, randomized: false },
+    'RSABSSA-SHA384-PSSZERO-Deterministic': { saltLength: 0, randomized: false }
+  };
+  private readonly MESSAGE_PREFIX_LENGTH = 32; // 随机化变体的消息前缀长度（字节）
+
+  // 是否使用中国剩余定理(CRT)加速私钥运算，关闭后退化为 s = m^d mod n（用于性能对比）
+  useCRT = true;
 
   constructor() {}
 
   /**
-   * 生成RSA密钥对，使用≥2048位的强素数
+   * 生成RSA密钥对
+   * @param options 密钥生成选项：keySize为模数位长（1024–4096，默认2048），primes为3或4时生成多素数RSA密钥
    * @returns 包含公钥和私钥的KeyPair对象
    */
-  async generateKeys(): Promise<KeyPair> {
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const primeCount = options.primes ?? 2;
+    if (!Number.isInteger(primeCount) || primeCount < 2 || primeCount > 4) {
+      throw new Error(`不支持的素数个数: ${primeCount}，仅支持2–4个素数`);
+    }
+    const keySize = options.keySize ?? 2048;
+    if (!Number.isInteger(keySize) || keySize < 1024 || keySize > 4096) {
+      throw new Error(`不支持的密钥长度: ${keySize}，RSA模数须为1024–4096位`);
+    }
+
     try {
-      console.log("正在生成2048位RSA密钥，这可能需要一些时间...");
+      console.log(`正在生成${keySize}位${primeCount > 2 ? `${primeCount}素数` : ''}RSA密钥，这可能需要一些时间...`);
 
-      // 步骤1: 生成两个大素数p和q（各至少1024位）
-      const p = await this.generateLargePrime(1024);
-      const q = await this.generateLargePrime(1024);
+      // 步骤1: 生成primeCount个互不相同的素数，其乘积恰好为keySize位
+      const primes = await this.generatePrimes(keySize, primeCount);
       
-      // 步骤2: 计算n = p * q
-      this.n = p * q;
+      // 步骤2: 计算n = r_1 * r_2 * ... * r_u
+      this.n = primes.reduce((product, r) => product * r, 1n);
       
-      // 步骤3: 计算欧拉函数φ(n) = (p-1)(q-1)
-      const phi = (p - 1n) * (q - 1n);
+      // 步骤3: 计算欧拉函数φ(n) = (r_1-1)(r_2-1)...(r_u-1)
+      const phi = primes.reduce((product, r) => product * (r - 1n), 1n);
       
       // 步骤4: 使用固定的e = 65537
       // 步骤5: 计算私钥d，使得d*e ≡ 1 (mod φ(n))
       this.d = this.modInverse(this.e, phi);
       
-      // 步骤6: 返回密钥对
+      // 步骤6: 返回密钥对，私钥同时包含CRT参数 (RFC 8017 3.2 第二种表示)
       const publicKey = {
         e: this.e.toString(),
         n: this.n.toString()
@@ -46,10 +75,11 @@ export class RSA implements CryptoAlgorithm {
       
       const privateKey = {
         d: this.d.toString(),
-        n: this.n.toString()
+        n: this.n.toString(),
+        ...this.computeCRTParameters(primes, this.d)
       };
       
-      return { publicKey, privateKey };
+      return { publicKey, privateKey, primes: primeCount, keySize };
     } catch (error) {
       console.error("RSA密钥生成错误:", error);
       throw new Error("RSA密钥生成失败");
@@ -57,47 +87,46 @@ export class RSA implements CryptoAlgorithm {
   }
 
   /**
-   * 对消息进行数字签名（使用PSS填充）
+   * 对消息进行数字签名（RSASSA-PSS，RFC 8017 8.1.1）
    * @param message 要签名的消息
    * @param keys 包含私钥的密钥对
    * @returns 签名结果
    */
   async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
     try {
-      // 使用私钥从KeyPair中提取
-      const d = BigInt(keys.privateKey.d);
+      // 使用私钥从KeyPair中提取模数
       const n = BigInt(keys.privateKey.n);
       
       // 步骤1: 计算消息的SHA-256哈希值
-      const messageHash = await this.sha256(message);
+      const messageHash = sha256(message);
       
-      // 步骤2: 计算可用填充空间
+      // 步骤2: 计算编码消息的位长度 emBits = modBits - 1
       const emBits = this.getBitLength(n) - 1;
       const emLen = Math.ceil(emBits / 8);
       
-      // 步骤3: 确定合适的盐长度
-      // 对于短密钥，调整盐长度，确保有空间放哈希和填充
-      const maxSaltLength = Math.max(0, emLen - this.HASH_LENGTH - 2);
+      // 步骤3: 确定盐长度
+      // 对于短密钥，缩短盐长度，确保有空间放哈希、分隔符和0xbc
+      const maxSaltLength = emLen - this.HASH_LENGTH - 2;
+      if (maxSaltLength < 0) {
+        throw new Error("密钥长度太短，无法进行PSS编码");
+      }
       const saltLength = Math.min(this.SALT_LENGTH, maxSaltLength);
       
       // 步骤4: 生成随机盐
-      this.lastSalt = this.getRandomBytes(saltLength);
+      const salt = this.getRandomBytes(saltLength);
       
       // 步骤5: 应用PSS填充
-      const encodedMessage = await this.emsa_pss_encode(messageHash, emBits, this.lastSalt);
-      const encodedMessageBigInt = this.hexToBigInt(encodedMessage);
+      const encodedMessage = this.emsa_pss_encode(messageHash, emBits, salt);
       
-      // 步骤6: 使用私钥d对编码后的消息进行签名: s = EM^d mod n
-      const signature = this.modExp(encodedMessageBigInt, d, n);
-      const signatureStr = signature.toString();
+      // 步骤6: 使用私钥对编码后的消息进行签名: s = EM^d mod n（有CRT参数时分素数计算）
+      const signature = this.privateKeyOperation(this.bytesToBigInt(encodedMessage), keys.privateKey);
       
-      // 返回签名结果（以十六进制字符串形式）
+      // 盐只用于展示，验证时会从编码消息中恢复
       return { 
-        signature: signatureStr,
-        originalSignature: signatureStr, // 保存原始签名值用于验证
-        messageHash: messageHash, // 返回消息哈希以供显示
+        signature: signature.toString(),
+        messageHash: this.bytesToHex(messageHash), // 返回消息哈希以供显示
         n: n.toString(), // 返回模数以供显示
-        salt: this.bytesToHex(this.lastSalt) // 保存使用的盐值用于验证
+        salt: this.bytesToHex(salt)
       };
     } catch (error) {
       console.error("RSA-PSS签名错误:", error);
@@ -106,7 +135,8 @@ export class RSA implements CryptoAlgorithm {
   }
 
   /**
-   * 验证数字签名（使用PSS填充）
+   * 验证数字签名（RSASSA-PSS，RFC 8017 8.1.2）
+   * 验证结果只取决于消息、签名值和公钥，签名结果中的其他字段（盐、哈希等）仅用于展示
    * @param message 原始消息
    * @param signature 签名结果
    * @param keys 包含公钥的密钥对
@@ -115,8 +145,8 @@ export class RSA implements CryptoAlgorithm {
   async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
     try {
       // 使用公钥从KeyPair中提取
-      const e = this.e; // 固定公钥指数
       const n = BigInt(keys.publicKey.n);
+      const e = keys.publicKey.e !== undefined ? BigInt(keys.publicKey.e) : this.e;
       
       // 处理签名值
       let sig: bigint;
@@ -127,383 +157,439 @@ export class RSA implements CryptoAlgorithm {
         return false;
       }
       
-      // 如果s不在[0,n-1]范围内，验证失败
+      // 步骤1: 如果s不在[0,n-1]范围内，验证失败
       if (sig < 0n || sig >= n) {
         console.info("签名值超出范围");
         return false;
       }
       
-      // 步骤1: 计算 s^e mod n，获取编码消息EM
-      const encodedMessage = this.modExp(sig, e, n);
-      
-      // 步骤2: 计算消息的SHA-256哈希值
-      const messageHash = await this.sha256(message);
-      
-      // 步骤3: 验证PSS填充
-      // 获取签名时保存的盐值
-      const usedSalt = signature.salt ? this.hexToBytes(signature.salt) : null;
-      
-      // 计算emBits
+      // 步骤2: 计算 m = s^e mod n，并转换为emLen字节的编码消息EM
       const emBits = this.getBitLength(n) - 1;
-      
-      // 安全检查
-      if (emBits < this.HASH_LENGTH * 8 + 8) { 
-        console.info("密钥长度太短，无法进行PSS验证");
+      const emLen = Math.ceil(emBits / 8);
+      const m = this.modExp(sig, e, n);
+      if (this.getBitLength(m) > emLen * 8) {
+        console.info("验证失败: 编码消息过长");
         return false;
       }
+      const encodedMessage = this.bigIntToBytes(m, emLen);
       
-      // 检测签名是否被篡改
-      // 原始签名规则：如果签名.n存在，则必须与公钥.n匹配
-      if (signature.n && BigInt(signature.n) !== n) {
-        console.info("签名中的模数与公钥不匹配，可能被篡改");
+      // 步骤3: 计算消息的SHA-256哈希值并验证PSS编码
+      return this.emsa_pss_verify(sha256(message), encodedMessage, emBits);
+    } catch (error) {
+      console.error("RSA-PSS验证错误:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 盲化消息（RFC 9474 4.1 Prepare 与 4.2 Blind）
+   * 请求者对消息做EMSA-PSS编码得到m，再用随机数r计算 z = m·r^e mod n；
+   * r均匀随机，因此签名者看到的z与m无关，之后也无法把签名与这次请求联系起来
+   * @param message 要签名的消息
+   * @param publicKey 签名者的公钥
+   * @param variant 盲签名变体，默认RSABSSA-SHA384-PSS-Randomized
+   * @returns 盲化结果，只有blindedMessage发送给签名者
+   */
+  blind(message: string, publicKey: any, variant: RsaBlindVariant = 'RSABSSA-SHA384-PSS-Randomized'): BlindingResult {
+    const params = this.BLIND_VARIANTS[variant];
+    if (!params) {
+      throw new Error(`不支持的盲签名变体: ${variant}`);
+    }
+    const n = BigInt(publicKey.n);
+    const e = BigInt(publicKey.e);
+
+    // Prepare: 随机化变体在消息前附加随机前缀，签名者无法预先选定最终被签名的输入
+    const messagePrefix = params.randomized ? this.getRandomBytes(this.MESSAGE_PREFIX_LENGTH) : new Uint8Array(0);
+    const inputMessage = this.prepareBlindMessage(message, messagePrefix);
+
+    // 步骤1: encoded_msg = EMSA-PSS-ENCODE(input_msg, bit_len(n) - 1)，哈希与MGF1均使用SHA-384
+    const emBits = this.getBitLength(n) - 1;
+    const encodedMessage = this.emsa_pss_encode(sha384(inputMessage), emBits, this.getRandomBytes(params.saltLength), sha384);
+    const m = this.bytesToBigInt(encodedMessage);
+
+    // 步骤2: m须与n互素
+    if (this.gcd(m, n) !== 1n) {
+      throw new Error("编码消息与模数不互素，无法盲化");
+    }
+
+    // 步骤3: 随机选取与n互素的盲化因子r ∈ [1, n)，inv = r^(-1) mod n
+    let r: bigint;
+    do {
+      r = this.randomBigIntInRange(1n, n - 1n);
+    } while (this.gcd(r, n) !== 1n);
+    const inv = this.modInverse(r, n);
+
+    // 步骤4: z = m · r^e mod n
+    const z = (m * this.modExp(r, e, n)) % n;
+
+    const modulusLength = Math.ceil(this.getBitLength(n) / 8);
+    return {
+      variant,
+      blindedMessage: this.bytesToHex(this.bigIntToBytes(z, modulusLength)),
+      inv: inv.toString(),
+      messagePrefix: this.bytesToHex(messagePrefix),
+      encodedMessage: this.bytesToHex(encodedMessage)
+    };
+  }
+
+  /**
+   * 对盲化消息签名（RFC 9474 4.3 BlindSign）：s = z^d mod n
+   * 签名者看不到消息内容；返回前用公钥检验 s^e = z，防止CRT运算出错时泄露素因子
+   * @param blindedMessage 盲化消息（十六进制）
+   * @param keys 签名者的密钥对
+   * @returns 盲签名（十六进制，长度与模数相同）
+   */
+  blindSign(blindedMessage: string, keys: KeyPair): string {
+    const n = BigInt(keys.privateKey.n);
+    const e = BigInt(keys.publicKey.e);
+    const modulusLength = Math.ceil(this.getBitLength(n) / 8);
+
+    const blindedBytes = this.hexToBytes(blindedMessage);
+    if (blindedBytes.length !== modulusLength) {
+      throw new Error("盲化消息长度与模数不符");
+    }
+    const z = this.bytesToBigInt(blindedBytes);
+    if (z >= n) {
+      throw new Error("盲化消息超出模数范围");
+    }
+
+    const s = this.privateKeyOperation(z, keys.privateKey);
+    if (this.modExp(s, e, n) !== z) {
+      throw new Error("盲签名自检失败");
+    }
+    return this.bytesToHex(this.bigIntToBytes(s, modulusLength));
+  }
+
+  /**
+   * 去盲并验证（RFC 9474 4.4 Finalize）：s = z^d · inv = m^d · r · r^(-1) = m^d mod n
+   * 得到的签名是对input_msg的普通RSASSA-PSS签名，签名者从未见过它
+   * @param message 原始消息
+   * @param blindSignature 签名者返回的盲签名（十六进制）
+   * @param blinding 盲化时保存的结果
+   * @param publicKey 签名者的公钥
+   * @returns 去盲后的签名（十六进制）
+   */
+  finalize(message: string, blindSignature: string, blinding: BlindingResult, publicKey: any): string {
+    const n = BigInt(publicKey.n);
+    const modulusLength = Math.ceil(this.getBitLength(n) / 8);
+
+    const blindSignatureBytes = this.hexToBytes(blindSignature);
+    if (blindSignatureBytes.length !== modulusLength) {
+      throw new Error("盲签名长度与模数不符");
+    }
+    const s = (this.bytesToBigInt(blindSignatureBytes) * BigInt(blinding.inv)) % n;
+    const signature = this.bytesToHex(this.bigIntToBytes(s, modulusLength));
+
+    if (!this.verifyBlind(message, signature, blinding.messagePrefix, publicKey, blinding.variant)) {
+      throw new Error("盲签名无效：去盲后的签名未通过验证");
+    }
+    return signature;
+  }
+
+  /**
+   * 验证去盲后的签名（RFC 9474 4.5 Verify）
+   * 即对 input_msg = messagePrefix || message 做SHA-384的RSASSA-PSS验证，盐长度须等于变体约定的sLen
+   * @param message 原始消息
+   * @param signature 去盲后的签名（十六进制）
+   * @param messagePrefix 随机化变体的消息前缀（十六进制），确定性变体为空串
+   * @param publicKey 签名者的公钥
+   * @param variant 盲签名变体
+   * @returns 验证结果（布尔值）
+   */
+  verifyBlind(
+    message: string,
+    signature: string,
+    messagePrefix: string,
+    publicKey: any,
+    variant: RsaBlindVariant = 'RSABSSA-SHA384-PSS-Randomized'
+  ): boolean {
+    try {
+      const params = this.BLIND_VARIANTS[variant];
+      const prefix = this.hexToBytes(messagePrefix);
+      if (!params || prefix.length !== (params.randomized ? this.MESSAGE_PREFIX_LENGTH : 0)) {
         return false;
       }
-      
-      // 检测签名值是否被篡改（在快速路径之前）
-      if (signature.originalSignature && signature.originalSignature !== signature.signature) {
-        console.info("签名值被修改，验证失败");
+
+      const n = BigInt(publicKey.n);
+      const e = BigInt(publicKey.e);
+      const modulusLength = Math.ceil(this.getBitLength(n) / 8);
+      const signatureBytes = this.hexToBytes(signature);
+      if (signatureBytes.length !== modulusLength) {
         return false;
       }
-      
-      // 特殊情况：直接比较消息哈希（快速路径）
-      // 如果有保存的消息哈希，可以直接比较
-      if (signature.messageHash === messageHash) {
-        // 检查签名值格式是否一致
-        const originalSignature = this.lastSalt && this.bytesToHex(this.lastSalt) === signature.salt;
-        
-        // 消息哈希匹配且签名来源正确
-        if (originalSignature || usedSalt) {
-          return true;
-        }
+      const s = this.bytesToBigInt(signatureBytes);
+      if (s >= n) {
+        return false;
       }
-      
-      try {
-        // 使用已知盐进行PSS验证
-        return await this.emsa_pss_verify(
-          messageHash, 
-          encodedMessage.toString(16), 
-          emBits,
-          usedSalt
-        );
-      } catch (error) {
-        console.error("验证过程出错:", error);
-        // 如果验证出错但消息哈希匹配且不是篡改的签名，可能是PSS填充问题
-        if (signature.messageHash === messageHash && !signature._tampered) {
-          console.info("警告：PSS验证失败但消息哈希匹配，视为验证成功");
-          return true;
-        }
+
+      const emBits = this.getBitLength(n) - 1;
+      const emLen = Math.ceil(emBits / 8);
+      const m = this.modExp(s, e, n);
+      if (this.getBitLength(m) > emLen * 8) {
         return false;
       }
+      const mHash = sha384(this.prepareBlindMessage(message, prefix));
+      return this.emsa_pss_verify(mHash, this.bigIntToBytes(m, emLen), emBits, sha384, params.saltLength);
     } catch (error) {
-      console.error("RSA-PSS验证错误:", error);
+      console.error("RSA盲签名验证错误:", error);
       return false;
     }
   }
 
   /**
-   * EMSA-PSS编码 (RFC8017 9.1.1) - 简化和更健壮的实现
-   * @param messageHash 消息的哈希值（十六进制字符串）
+   * 导出PEM格式密钥（公钥为SubjectPublicKeyInfo，私钥为PKCS#8）
+   * @param keys 密钥对，私钥需包含CRT参数
+   * @returns PEM格式的公钥和私钥
+   */
+  exportPem(keys: KeyPair): { publicKey: string; privateKey: string | null } {
+    const publicKey = this.toPublicKeyComponents(keys);
+    return {
+      publicKey: exportRsaPublicKey(publicKey),
+      privateKey: keys.privateKey ? exportRsaPrivateKey(this.toPrivateKeyComponents(keys)) : null
+    };
+  }
+
+  /**
+   * 导入PEM格式密钥（PKCS#1、SubjectPublicKeyInfo或PKCS#8）
+   * 导入私钥时同时恢复公钥；只有公钥时privateKey为null
+   * @param pem PEM文本
+   * @returns 密钥对
+   */
+  importPem(pem: string): KeyPair {
+    const isPrivate = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(pem);
+    const imported = isPrivate ? importPrivateKey(pem) : importPublicKey(pem);
+    if (imported.type !== 'RSA') {
+      throw new Error(isPrivate ? "不是RSA私钥" : "不是RSA公钥");
+    }
+    return this.fromComponents(imported.key);
+  }
+
+  /**
+   * 导出JWK格式密钥 (RFC 7517)，kid为RFC 7638指纹
+   * @param keys 密钥对，私钥需包含CRT参数
+   * @returns JWK格式的公钥和私钥
+   */
+  exportJwk(keys: KeyPair): { publicKey: Jwk; privateKey: Jwk | null } {
+    return {
+      publicKey: exportRsaPublicJwk(this.toPublicKeyComponents(keys)),
+      privateKey: keys.privateKey ? exportRsaPrivateJwk(this.toPrivateKeyComponents(keys)) : null
+    };
+  }
+
+  /**
+   * 导入JWK格式密钥（kty为RSA）
+   * 包含d时导入私钥，否则privateKey为null
+   * @param jwk JWK对象
+   * @returns 密钥对
+   */
+  importJwk(jwk: Jwk): KeyPair {
+    const imported = isPrivateJwk(jwk) ? importPrivateJwk(jwk) : importPublicJwk(jwk);
+    if (imported.type !== 'RSA') {
+      throw new Error("不是RSA密钥");
+    }
+    return this.fromComponents(imported.key);
+  }
+
+  /**
+   * 从密钥对中读取公钥分量
+   */
+  private toPublicKeyComponents(keys: KeyPair): RsaPublicKeyComponents {
+    return { n: BigInt(keys.publicKey.n), e: BigInt(keys.publicKey.e) };
+  }
+
+  /**
+   * 从密钥对中读取私钥分量（要求包含CRT参数）
+   */
+  private toPrivateKeyComponents(keys: KeyPair): RsaPrivateKeyComponents {
+    const key = keys.privateKey;
+    if (key.p === undefined) {
+      throw new Error("私钥缺少CRT参数，无法导出");
+    }
+    return {
+      ...this.toPublicKeyComponents(keys),
+      d: BigInt(key.d),
+      p: BigInt(key.p),
+      q: BigInt(key.q),
+      dp: BigInt(key.dp),
+      dq: BigInt(key.dq),
+      qInv: BigInt(key.qInv),
+      otherPrimes: key.otherPrimes?.map((info: any) => ({ r: BigInt(info.r), d: BigInt(info.d), t: BigInt(info.t) }))
+    };
+  }
+
+  /**
+   * 由导入的密钥分量构造密钥对，只有公钥时privateKey为null
+   */
+  private fromComponents(key: RsaPublicKeyComponents | RsaPrivateKeyComponents): KeyPair {
+    const publicKey = { e: key.e.toString(), n: key.n.toString() };
+    if (!('d' in key)) {
+      return { publicKey, privateKey: null, keySize: this.getBitLength(key.n) };
+    }
+
+    const { n, d, p, q, dp, dq, qInv, otherPrimes } = key;
+    const privateKey: Record<string, any> = {
+      d: d.toString(),
+      n: n.toString(),
+      p: p.toString(),
+      q: q.toString(),
+      dp: dp.toString(),
+      dq: dq.toString(),
+      qInv: qInv.toString()
+    };
+    if (otherPrimes) {
+      privateKey.otherPrimes = otherPrimes.map(info => ({ r: info.r.toString(), d: info.d.toString(), t: info.t.toString() }));
+    }
+
+    return {
+      publicKey,
+      privateKey,
+      primes: 2 + (otherPrimes?.length ?? 0),
+      keySize: this.getBitLength(n)
+    };
+  }
+
+  /**
+   * EMSA-PSS编码 (RFC 8017 9.1.1)
+   * @param mHash 消息的哈希值
    * @param emBits EM的位长度
-   * @param forceSalt 强制使用的盐（可选，用于演示）
-   * @returns 编码后的消息（十六进制字符串）
+   * @param salt 随机盐
+   * @param hash 哈希函数，同时用于MGF1（默认SHA-256）
+   * @returns 编码后的消息EM
    */
-  private async emsa_pss_encode(messageHash: string, emBits: number, forceSalt?: Uint8Array): Promise<string> {
-    try {
-      // 处理空消息特殊情况
-      if (!messageHash || messageHash.length === 0) {
-        messageHash = await this.sha256("");
-      }
-      
-      // 1. 转换消息哈希为字节数组
-      const mHash = this.hexToBytes(messageHash);
-      
-      // 2. 计算EM的字节长度，确保足够容纳所有数据
-      const emLen = Math.ceil(emBits / 8);
-      
-      // 3. 安全检查 - 至少需要哈希长度+2字节空间（哈希+0xbc+至少1字节给DB）
-      if (emLen < mHash.length + 2) {
-        throw new Error(`编码长度太短，无法编码: ${emLen} < ${mHash.length + 2}`);
-      }
-      
-      // 4. 计算DB长度和可用盐长度
-      const dbLen = emLen - mHash.length - 1;
-      
-      // 5. 确定可用盐长度
-      let saltLength = Math.min(this.SALT_LENGTH, Math.max(0, dbLen - 1));
-      
-      // 对于较短模数的情况，确保还有空间放入分隔符
-      if (saltLength >= dbLen) {
-        saltLength = Math.max(0, dbLen - 1);
-      }
-      
-      // 空消息使用更短的盐，避免填充问题
-      if (messageHash === await this.sha256("")) {
-        saltLength = Math.min(8, saltLength);
-      }
-      
-      // 6. 获取适当长度的盐
-      let salt: Uint8Array;
-      if (forceSalt) {
-        // 如果提供了盐，必要时截断
-        salt = (forceSalt.length > saltLength)
-          ? forceSalt.slice(0, saltLength)
-          : forceSalt;
-      } else {
-        // 生成随机盐
-        salt = (saltLength > 0)
-          ? this.getRandomBytes(saltLength)
-          : new Uint8Array(0); // 没有空间放盐则使用空盐
-      }
-      
-      // 保存盐以供验证
-      this.lastSalt = salt;
-      
-      // 7. 构造M' = (0x)00 00 00 00 00 00 00 00 || mHash || salt
-      const mPrime = new Uint8Array(8 + mHash.length + salt.length);
-      // 前8个字节默认为0，无需设置
-      
-      // 安全设置mHash
-      mPrime.set(mHash, 8);
-      
-      // 安全设置盐（只有在有盐时）
-      if (salt.length > 0) {
-        mPrime.set(salt, 8 + mHash.length);
-      }
-      
-      // 8. 计算H = Hash(M')
-      const h = this.hexToBytes(await this.sha256(this.bytesToHex(mPrime)));
-      
-      // 9. 构造DB = PS || 0x01 || salt
-      // PS是一个长度为(dbLen - salt.length - 1)的全0字节序列 
-      const db = new Uint8Array(dbLen); // 默认全0
-      
-      // 设置分隔符和盐
-      if (salt.length > 0) {
-        // 确保有足够空间放置分隔符和盐
-        const separatorPos = dbLen - salt.length - 1;
-        
-        // 分隔符应该在有效范围内
-        if (separatorPos >= 0 && separatorPos < dbLen) {
-          // 设置分隔符0x01
-          db[separatorPos] = 0x01;
-          
-          // 添加盐到DB末尾
-          const saltPos = dbLen - salt.length;
-          if (saltPos >= 0 && saltPos + salt.length <= dbLen) {
-            db.set(salt, saltPos);
-          }
-        }
-        // 如果空间不足，就不设置分隔符，仅尝试设置部分盐（或不设置）
-        else if (salt.length < dbLen) {
-          // 尽可能多地放入盐
-          db.set(salt.slice(0, dbLen), 0);
-        }
-      }
-      
-      // 10. 生成DB的掩码
-      const dbMask = this.mgf1(h, dbLen);
-      
-      // 11. 计算maskedDB = DB ⊕ dbMask
-      const maskedDB = new Uint8Array(dbLen);
-      for (let i = 0; i < dbLen; i++) {
-        maskedDB[i] = db[i] ^ dbMask[i];
-      }
-      
-      // 12. 设置maskedDB的最左侧位为0（适应emBits）
-      const bitsToZero = 8 * emLen - emBits;
-      if (bitsToZero > 0 && maskedDB.length > 0) {
-        maskedDB[0] &= 0xff >> bitsToZero;
-      }
-      
-      // 13. 构造编码消息 EM = maskedDB || H || 0xbc
-      const em = new Uint8Array(emLen);
-      
-      // 设置maskedDB部分
-      if (maskedDB.length > 0) {
-        em.set(maskedDB, 0);
-      }
-      
-      // 设置H部分
-      if (maskedDB.length + h.length <= em.length) {
-        em.set(h, maskedDB.length);
-      }
-      
-      // 设置trailer字段 0xbc
-      if (em.length > 0) {
-        em[em.length - 1] = 0xbc;
-      }
-      
-      return this.bytesToHex(em);
-    } catch (error: any) {
-      console.error("EMSA-PSS编码错误:", error);
-      throw new Error("EMSA-PSS编码失败: " + error.message);
+  private emsa_pss_encode(mHash: Uint8Array, emBits: number, salt: Uint8Array, hash: (data: Uint8Array) => Uint8Array = sha256): Uint8Array {
+    const emLen = Math.ceil(emBits / 8);
+    const hLen = mHash.length;
+    
+    // 1. 检查长度：emLen ≥ hLen + sLen + 2
+    if (emLen < hLen + salt.length + 2) {
+      throw new Error(`编码长度太短，无法编码: ${emLen} < ${hLen + salt.length + 2}`);
     }
+    
+    // 2. 构造M' = (0x)00 00 00 00 00 00 00 00 || mHash || salt，并计算H = Hash(M')
+    const h = hash(this.buildMPrime(mHash, salt));
+    
+    // 3. 构造DB = PS || 0x01 || salt，PS为全0字节
+    const dbLen = emLen - hLen - 1;
+    const db = new Uint8Array(dbLen);
+    db[dbLen - salt.length - 1] = 0x01;
+    db.set(salt, dbLen - salt.length);
+    
+    // 4. maskedDB = DB ⊕ MGF1(H, dbLen)
+    const dbMask = this.mgf1(h, dbLen, hash);
+    const maskedDB = new Uint8Array(dbLen);
+    for (let i = 0; i < dbLen; i++) {
+      maskedDB[i] = db[i] ^ dbMask[i];
+    }
+    
+    // 5. 将maskedDB最左侧的 8*emLen - emBits 位清零
+    maskedDB[0] &= 0xff >> (8 * emLen - emBits);
+    
+    // 6. EM = maskedDB || H || 0xbc
+    const em = new Uint8Array(emLen);
+    em.set(maskedDB, 0);
+    em.set(h, dbLen);
+    em[emLen - 1] = 0xbc;
+    
+    return em;
   }
 
   /**
-   * EMSA-PSS验证 (RFC8017 9.1.2) - 更健壮的实现
-   * @param messageHash 消息的哈希值（十六进制字符串）
-   * @param encMessage 签名解密后得到的编码消息（十六进制字符串）
+   * EMSA-PSS验证 (RFC 8017 9.1.2)
+   * 给出expectedSaltLength时按约定的sLen检查PS长度与盐长度；
+   * 未给出时（普通verify路径）从DB中定位0x01分隔符恢复任意长度的盐
+   * @param mHash 消息的哈希值
+   * @param em 签名经公钥运算得到的编码消息
    * @param emBits EM的位长度
-   * @param knownSalt 已知的盐值（仅用于演示）
+   * @param hash 哈希函数，同时用于MGF1（默认SHA-256）
+   * @param expectedSaltLength 约定的盐长度sLen（可选）
    * @returns 验证结果（布尔值）
    */
-  private async emsa_pss_verify(
-    messageHash: string, 
-    encMessage: string, 
+  private emsa_pss_verify(
+    mHash: Uint8Array,
+    em: Uint8Array,
     emBits: number,
-    knownSalt?: Uint8Array | null
-  ): Promise<boolean> {
-    try {
-      // 1. 准备验证
-      const mHash = this.hexToBytes(messageHash);
-      
-      // 2. 将编码消息（十六进制）转换为字节数组
-      let em = this.hexToBytes(encMessage);
-      
-      // 3. 计算emLen
-      const emLen = Math.ceil(emBits / 8);
-      
-      // 4. 检查输入长度
-      if (emLen < mHash.length + 1) {
-        console.info("EM长度太短");
-        return false;
-      }
-      
-      // 5. 验证最后一个字节是0xbc
-      if (em[em.length - 1] !== 0xbc) {
-        console.info("验证失败: 末尾字节不是0xbc");
-        return false;
-      }
-      
-      // 6. 提取maskedDB和H
-      const hLen = mHash.length; // SHA-256哈希长度
-      
-      // 确保em长度足够
-      if (em.length < hLen + 1) {
-        console.info("验证失败: EM长度不足");
-        return false;
-      }
-      
-      const dbLen = em.length - hLen - 1;
-      const maskedDB = em.slice(0, dbLen);
-      const h = em.slice(dbLen, dbLen + hLen);
-      
-      // 7. 检查最左侧位是否为0（适应emBits）
-      const bitsToZero = 8 * emLen - emBits;
-      // 只检查如果有需要设置为0的位时
-      if (bitsToZero > 0 && maskedDB.length > 0) {
-        const mask = 0xff >> bitsToZero;
-        if ((maskedDB[0] & ~mask) !== 0) {
-          console.info("验证失败: 最左侧位不为0");
-          return false;
-        }
-      }
-      
-      // 8. 使用H生成DB掩码
-      const dbMask = this.mgf1(h, dbLen);
-      
-      // 9. 去除掩码得到DB
-      const db = new Uint8Array(dbLen);
-      for (let i = 0; i < dbLen; i++) {
-        db[i] = maskedDB[i] ^ dbMask[i];
-      }
-      
-      // 10. 设置最左侧位为0（一致性）
-      if (bitsToZero > 0 && db.length > 0) {
-        db[0] &= 0xff >> bitsToZero;
-      }
-      
-      // 11. 检查填充，查找0x01分隔符
-      let saltOffset = -1;
-      let paddingError = false;
-      
-      // 增强兼容性：忽略最左侧可能的位翻转错误
-      const startIndex = (bitsToZero > 0) ? 1 : 0;
-      
-      // 跳过都是0的前导字节，寻找分隔符0x01
-      for (let i = startIndex; i < dbLen; i++) {
-        if (db[i] === 0x01) {
-          saltOffset = i + 1;
-          break;
-        } else if (db[i] !== 0x00) {
-          // 记录错误但继续处理 - 更宽容的实现
-          paddingError = true;
-          // 如果距离末尾合理距离，可能是盐的一部分或有问题的分隔符
-          if (dbLen - i >= this.HASH_LENGTH) {
-            // 假设这是分隔符位置
-            saltOffset = i + 1;
-            break;
-          }
-        }
-      }
-      
-      // 如果没有找到分隔符但尝试继续
-      if (saltOffset === -1) {
-        // 允许特殊情况1：如果整个DB都是0，且无需盐
-        if (db.every(byte => byte === 0)) {
-          saltOffset = dbLen; // 使用空盐
-        } 
-        // 允许特殊情况2：短消息，尝试使用DB的后半部分作为盐
-        else if (dbLen > this.HASH_LENGTH) {
-          saltOffset = dbLen - this.HASH_LENGTH;
-        }
-        // 确实找不到合理的盐位置
-        else {
-          console.info("验证失败: 未找到分隔符，无法定位盐值");
-          return false;
-        }
-      }
-      
-      // 12. 提取盐值
-      let salt: Uint8Array;
-      
-      // 根据实际情况处理盐
-      if (saltOffset >= dbLen) {
-        // 没有足够空间放盐，使用空盐
-        salt = new Uint8Array(0);
-      } else {
-        salt = db.slice(saltOffset, dbLen);
-      }
-      
-      // 13. 如果有已知盐值（仅演示用途），使用它而非提取的盐
-      if (knownSalt && knownSalt.length > 0) {
-        salt = knownSalt;
-      }
-      
-      // 14. 创建M' = (0x)00 00 00 00 00 00 00 00 || mHash || salt
-      const mPrime = new Uint8Array(8 + mHash.length + salt.length);
-      // 前8个字节默认为0
-      mPrime.set(mHash, 8);
-      if (salt.length > 0) {
-        mPrime.set(salt, 8 + mHash.length);
-      }
-      
-      // 15. 计算H' = Hash(M')
-      const hPrime = this.hexToBytes(await this.sha256(this.bytesToHex(mPrime)));
-      
-      // 16. 验证H' === H
-      const hashesMatch = this.constantTimeCompare(h, hPrime);
-      
-      // 有轻微填充问题但哈希匹配，仍认为验证成功
-      if (paddingError && hashesMatch) {
-        console.info("警告: 填充格式不标准，但签名验证成功");
-      }
-      
-      return hashesMatch;
-    } catch (error: any) {
-      console.error("EMSA-PSS验证错误:", error.message);
+    hash: (data: Uint8Array) => Uint8Array = sha256,
+    expectedSaltLength?: number
+  ): boolean {
+    const emLen = Math.ceil(emBits / 8);
+    const hLen = mHash.length;
+    
+    // 1. 检查长度
+    if (em.length !== emLen || emLen < hLen + (expectedSaltLength ?? 0) + 2) {
+      console.info("验证失败: EM长度不正确");
+      return false;
+    }
+    
+    // 2. 最后一个字节必须是0xbc
+    if (em[emLen - 1] !== 0xbc) {
+      console.info("验证失败: 末尾字节不是0xbc");
+      return false;
+    }
+    
+    // 3. 拆分EM = maskedDB || H || 0xbc
+    const dbLen = emLen - hLen - 1;
+    const maskedDB = em.slice(0, dbLen);
+    const h = em.slice(dbLen, dbLen + hLen);
+    
+    // 4. maskedDB最左侧的 8*emLen - emBits 位必须为0
+    const zeroMask = 0xff >> (8 * emLen - emBits);
+    if ((maskedDB[0] & ~zeroMask) !== 0) {
+      console.info("验证失败: 最左侧位不为0");
+      return false;
+    }
+    
+    // 5. DB = maskedDB ⊕ MGF1(H, dbLen)，并清零最左侧位
+    const dbMask = this.mgf1(h, dbLen, hash);
+    const db = new Uint8Array(dbLen);
+    for (let i = 0; i < dbLen; i++) {
+      db[i] = maskedDB[i] ^ dbMask[i];
+    }
+    db[0] &= zeroMask;
+    
+    // 6. DB必须为 PS(全0) || 0x01 || salt，由分隔符位置恢复盐
+    let separator = 0;
+    while (separator < dbLen && db[separator] === 0x00) {
+      separator++;
+    }
+    if (separator === dbLen || db[separator] !== 0x01) {
+      console.info("验证失败: 填充格式错误，未找到分隔符0x01");
       return false;
     }
+    const salt = db.slice(separator + 1);
+    
+    // 约定了sLen时，PS须恰好为 emLen − hLen − sLen − 2 字节，盐须恰好为sLen字节
+    if (expectedSaltLength !== undefined &&
+        (separator !== emLen - hLen - expectedSaltLength - 2 || salt.length !== expectedSaltLength)) {
+      console.info("验证失败: 盐长度与约定的sLen不符");
+      return false;
+    }
+    
+    // 7. 计算H' = Hash(M')，并与H进行恒定时间比较
+    const hPrime = hash(this.buildMPrime(mHash, salt));
+    return this.constantTimeCompare(h, hPrime);
+  }
+
+  /**
+   * 构造M' = (0x)00 00 00 00 00 00 00 00 || mHash || salt
+   * @param mHash 消息的哈希值
+   * @param salt 盐
+   * @returns M'字节数组
+   */
+  private buildMPrime(mHash: Uint8Array, salt: Uint8Array): Uint8Array {
+    const mPrime = new Uint8Array(8 + mHash.length + salt.length);
+    mPrime.set(mHash, 8);
+    mPrime.set(salt, 8 + mHash.length);
+    return mPrime;
   }
 
   /**
    * MGF1掩码生成函数 (RFC8017 B.2.1)
    * @param seed 种子
    * @param maskLen 生成掩码的长度
+   * @param hash 哈希函数（默认SHA-256）
    * @returns 生成的掩码
    */
-  private mgf1(seed: Uint8Array, maskLen: number): Uint8Array {
+  private mgf1(seed: Uint8Array, maskLen: number, hash: (data: Uint8Array) => Uint8Array = sha256): Uint8Array {
     const mask = new Uint8Array(maskLen);
     const T = new Uint8Array(seed.length + 4); // seed || counter
     
@@ -520,17 +606,129 @@ export class RSA implements CryptoAlgorithm {
       T[seed.length + 3] = counter & 0xff;
       
       // 哈希T
-      const hash = this.simpleHashBytes(T);
+      const block = hash(T);
       
       // 将哈希结果添加到掩码
-      const len = Math.min(hash.length, maskLen - pos);
-      mask.set(hash.slice(0, len), pos);
+      const len = Math.min(block.length, maskLen - pos);
+      mask.set(block.slice(0, len), pos);
       pos += len;
     }
     
     return mask;
   }
 
+  /**
+   * 构造盲签名的输入 input_msg = messagePrefix || UTF-8(message)
+   */
+  private prepareBlindMessage(message: string, messagePrefix: Uint8Array): Uint8Array {
+    const encoded = new TextEncoder().encode(message);
+    const input = new Uint8Array(messagePrefix.length + encoded.length);
+    input.set(messagePrefix, 0);
+    input.set(encoded, messagePrefix.length);
+    return input;
+  }
+
+  /**
+   * RSA私钥运算 (RFC 8017 5.1.2 / 5.2.1)
+   * 私钥包含CRT参数时，分别在每个素数下做小指数的模幂再用中国剩余定理合并，
+   * 两素数时约快3–4倍，素数越多每次模幂的规模越小
+   * @param input 输入整数（编码消息或密文）
+   * @param privateKey 私钥，包含n、d以及可选的p、q、dp、dq、qInv、otherPrimes
+   * @returns input^d mod n
+   */
+  private privateKeyOperation(input: bigint, privateKey: any): bigint {
+    const n = BigInt(privateKey.n);
+    if (!this.useCRT || privateKey.p === undefined) {
+      return this.modExp(input, BigInt(privateKey.d), n);
+    }
+
+    const p = BigInt(privateKey.p);
+    const q = BigInt(privateKey.q);
+
+    // m_1 = c^dP mod p，m_2 = c^dQ mod q
+    const m1 = this.modExp(input, BigInt(privateKey.dp), p);
+    const m2 = this.modExp(input, BigInt(privateKey.dq), q);
+
+    // h = (m_1 - m_2) * qInv mod p，m = m_2 + q * h
+    const h = this.mod((m1 - m2) * BigInt(privateKey.qInv), p);
+    let m = m2 + q * h;
+
+    // 多素数：依次合并 m_i = c^d_i mod r_i，R为之前所有素数之积
+    let R = p * q;
+    for (const info of privateKey.otherPrimes ?? []) {
+      const r = BigInt(info.r);
+      const mi = this.modExp(input, BigInt(info.d), r);
+      const hi = this.mod((mi - m) * BigInt(info.t), r);
+      m = m + R * hi;
+      R = R * r;
+    }
+
+    return m;
+  }
+
+  /**
+   * 计算私钥的CRT参数 (RFC 8017 3.2)
+   * @param primes 素数列表r_1, r_2, ..., r_u
+   * @param d 私钥指数
+   * @returns p、q、dp、dq、qInv，以及第3个起各素数的(r_i, d_i, t_i)
+   */
+  private computeCRTParameters(primes: bigint[], d: bigint): Record<string, any> {
+    const [p, q, ...others] = primes;
+    const params: Record<string, any> = {
+      p: p.toString(),
+      q: q.toString(),
+      dp: (d % (p - 1n)).toString(),
+      dq: (d % (q - 1n)).toString(),
+      qInv: this.modInverse(q, p).toString()
+    };
+
+    if (others.length > 0) {
+      let product = p * q;
+      params.otherPrimes = others.map(r => {
+        // t_i = (r_1 * r_2 * ... * r_(i-1))^(-1) mod r_i
+        const info = {
+          r: r.toString(),
+          d: (d % (r - 1n)).toString(),
+          t: this.modInverse(product, r).toString()
+        };
+        product *= r;
+        return info;
+      });
+    }
+
+    return params;
+  }
+
+  /**
+   * 生成乘积恰好为指定位数的多个互不相同的素数
+   * @param bits 模数的总位数
+   * @param count 素数个数
+   * @returns 素数列表
+   */
+  private async generatePrimes(bits: number, count: number): Promise<bigint[]> {
+    while (true) {
+      const primes: bigint[] = [];
+      for (let i = 0; i < count; i++) {
+        // 余下的位数分给前几个素数
+        const primeBits = Math.floor(bits / count) + (i < bits % count ? 1 : 0);
+
+        let prime: bigint;
+        do {
+          prime = await this.generateLargePrime(primeBits);
+          // e为素数，要求e与r-1互素，即r-1不是e的倍数
+        } while ((prime - 1n) % this.e === 0n || primes.includes(prime));
+
+        primes.push(prime);
+      }
+
+      // 多素数时乘积可能比目标少1位，此时重新生成
+      const product = primes.reduce((acc, r) => acc * r, 1n);
+      if (this.getBitLength(product) === bits) {
+        return primes;
+      }
+    }
+  }
+
   /**
    * 生成指定位数的大素数
    * @param bits 素数的位数
@@ -539,7 +737,8 @@ export class RSA implements CryptoAlgorithm {
   private async generateLargePrime(bits: number): Promise<bigint> {
     while (true) {
       // 生成随机大整数
-      const candidate = this.generateRandomBigInt(bits);
+      // 最高两位置1，使两个素数之积恰好为两者位长之和
+      const candidate = this.generateRandomBigInt(bits) | (1n << BigInt(bits - 2));
       
       // 使用Miller-Rabin算法进行素性测试（20轮）
       if (await this.millerRabinTest(candidate, 20)) {
@@ -571,8 +770,10 @@ export class RSA implements CryptoAlgorithm {
     // 确保生成的数是奇数（提高素数概率）
     randomBytes[bytes - 1] |= 1;
     
-    // 确保最高位为1，保证位数
-    randomBytes[0] |= 0x80;
+    // 去掉超出bits的高位，并确保最高位为1，保证位数
+    const excessBits = bytes * 8 - bits;
+    randomBytes[0] &= 0xff >> excessBits;
+    randomBytes[0] |= 0x80 >> excessBits;
     
     // 转换为BigInt
     let result = 0n;
@@ -676,6 +877,27 @@ export class RSA implements CryptoAlgorithm {
     return result;
   }
 
+  /**
+   * 计算非负模：a mod m ∈ [0, m)
+   * @param a 被除数
+   * @param m 模数
+   * @returns 非负余数
+   */
+  private mod(a: bigint, m: bigint): bigint {
+    const result = a % m;
+    return result < 0n ? result + m : result;
+  }
+
+  /**
+   * 计算最大公约数
+   */
+  private gcd(a: bigint, b: bigint): bigint {
+    while (b !== 0n) {
+      [a, b] = [b, a % b];
+    }
+    return a;
+  }
+
   /**
    * 计算模逆元：a^(-1) mod m，使得a * a^(-1) ≡ 1 (mod m)
    * 使用扩展欧几里得算法
@@ -708,104 +930,6 @@ export class RSA implements CryptoAlgorithm {
     return (old_s % m + m) % m;
   }
 
-  /**
-   * 实现SHA-256哈希函数
-   * @param message 要哈希的消息
-   * @returns 哈希值（十六进制字符串）
-   */
-  private async sha256(message: string): Promise<string> {
-    // 使用Web Crypto API计算SHA-256哈希
-    if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
-      const msgBuffer = new TextEncoder().encode(message);
-      const hashBuffer = await window.crypto.subtle.digest('SHA-256', msgBuffer);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      return hashHex;
-    } else {
-      // 备用实现：简单哈希（注意：实际应用中应使用标准哈希库）
-      return this.simpleHash(message);
-    }
-  }
-
-  /**
-   * 简单的哈希函数（仅作为SHA-256的后备）
-   * @param message 要哈希的消息
-   * @returns 哈希值（十六进制字符串）
-   */
-  private simpleHash(message: string): string {
-    let h0 = 0x6a09e667;
-    let h1 = 0xbb67ae85;
-    let h2 = 0x3c6ef372;
-    let h3 = 0xa54ff53a;
-    let h4 = 0x510e527f;
-    let h5 = 0x9b05688c;
-    let h6 = 0x1f83d9ab;
-    let h7 = 0x5be0cd19;
-    
-    // 简化版哈希计算
-    for (let i = 0; i < message.length; i++) {
-      const char = message.charCodeAt(i);
-      h0 = ((h0 << 5) - h0) + char; h0 |= 0;
-      h1 = ((h1 << 5) - h1) + char; h1 |= 0;
-      h2 = ((h2 << 5) - h2) + char; h2 |= 0;
-      h3 = ((h3 << 5) - h3) + char; h3 |= 0;
-      h4 = ((h4 << 5) - h4) + char; h4 |= 0;
-      h5 = ((h5 << 5) - h5) + char; h5 |= 0;
-      h6 = ((h6 << 5) - h6) + char; h6 |= 0;
-      h7 = ((h7 << 5) - h7) + char; h7 |= 0;
-    }
-    
-    // 转换为十六进制字符串
-    return [h0, h1, h2, h3, h4, h5, h6, h7]
-      .map(x => x.toString(16).padStart(8, '0'))
-      .join('');
-  }
-
-  /**
-   * 对字节数组进行简单哈希
-   * @param data 要哈希的字节数组
-   * @returns 哈希结果（字节数组）
-   */
-  private simpleHashBytes(data: Uint8Array): Uint8Array {
-    let h0 = 0x6a09e667;
-    let h1 = 0xbb67ae85;
-    let h2 = 0x3c6ef372;
-    let h3 = 0xa54ff53a;
-    let h4 = 0x510e527f;
-    let h5 = 0x9b05688c;
-    let h6 = 0x1f83d9ab;
-    let h7 = 0x5be0cd19;
-    
-    // 简化版哈希计算
-    for (let i = 0; i < data.length; i++) {
-      const byte = data[i];
-      h0 = ((h0 << 5) - h0) + byte; h0 |= 0;
-      h1 = ((h1 << 5) - h1) + byte; h1 |= 0;
-      h2 = ((h2 << 5) - h2) + byte; h2 |= 0;
-      h3 = ((h3 << 5) - h3) + byte; h3 |= 0;
-      h4 = ((h4 << 5) - h4) + byte; h4 |= 0;
-      h5 = ((h5 << 5) - h5) + byte; h5 |= 0;
-      h6 = ((h6 << 5) - h6) + byte; h6 |= 0;
-      h7 = ((h7 << 5) - h7) + byte; h7 |= 0;
-    }
-    
-    // 转换为字节数组
-    const result = new Uint8Array(32);
-    
-    for (let i = 0; i < 4; i++) {
-      result[i] = (h0 >>> (24 - i * 8)) & 0xff;
-      result[i + 4] = (h1 >>> (24 - i * 8)) & 0xff;
-      result[i + 8] = (h2 >>> (24 - i * 8)) & 0xff;
-      result[i + 12] = (h3 >>> (24 - i * 8)) & 0xff;
-      result[i + 16] = (h4 >>> (24 - i * 8)) & 0xff;
-      result[i + 20] = (h5 >>> (24 - i * 8)) & 0xff;
-      result[i + 24] = (h6 >>> (24 - i * 8)) & 0xff;
-      result[i + 28] = (h7 >>> (24 - i * 8)) & 0xff;
-    }
-    
-    return result;
-  }
-
   /**
    * 获取大整数的位长度
    * @param n 大整数
@@ -816,30 +940,31 @@ export class RSA implements CryptoAlgorithm {
   }
 
   /**
-   * 将十六进制字符串转换为BigInt
-   * @param hex 十六进制字符串
+   * 将字节数组按大端序转换为BigInt (OS2IP)
+   * @param bytes 字节数组
    * @returns 对应的BigInt值
    */
-  private hexToBigInt(hex: string): bigint {
-    return BigInt('0x' + hex);
+  private bytesToBigInt(bytes: Uint8Array): bigint {
+    let result = 0n;
+    for (let i = 0; i < bytes.length; i++) {
+      result = (result << 8n) | BigInt(bytes[i]);
+    }
+    return result;
   }
 
   /**
-   * 将十六进制字符串转换为字节数组
-   * @param hex 十六进制字符串
+   * 将BigInt转换为定长大端字节数组 (I2OSP)
+   * @param value BigInt值
+   * @param length 输出字节长度
    * @returns 字节数组
    */
-  private hexToBytes(hex: string): Uint8Array {
-    // 确保十六进制字符串有偶数个字符
-    if (hex.length % 2 !== 0) {
-      hex = '0' + hex;
-    }
-    
-    const bytes = new Uint8Array(hex.length / 2);
-    for (let i = 0; i < bytes.length; i++) {
-      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  private bigIntToBytes(value: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let temp = value;
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(temp & 0xffn);
+      temp >>= 8n;
     }
-    
     return bytes;
   }
 
@@ -854,6 +979,22 @@ export class RSA implements CryptoAlgorithm {
       .join('');
   }
 
+  /**
+   * 将十六进制字符串转换为字节数组
+   * @param hex 十六进制字符串
+   * @returns 字节数组
+   */
+  private hexToBytes(hex: string): Uint8Array {
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+      throw new Error("无效的十六进制字符串");
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
   /**
    * 将字节数组转换为字符串
    * @param bytes 字节数组
@@ -0,0 +1,369 @@
+import { KeyPair, EncryptionResult, EncryptionAlgorithm, IntegrityError } from './encryption-types';
+import { KeyGenerationOptions } from './types';
+import { RSAEncryption } from './RSAEncryption';
+import { sha256 } from './hash';
+
+/**
+ * Rabin解密得到的一个平方根
+ */
+export interface RabinRoot {
+  value: bigint;           // 平方根x，满足 x² ≡ c (mod n)
+  signs: [number, number]; // x mod p与x mod q分别取 +m_p/−m_p、+m_q/−m_q
+  valid: boolean;          // 冗余是否匹配
+  message: string | null;  // 冗余匹配时还原出的明文
+}
+
+/**
+ * Rabin加密算法实现类
+ * 加密 c = x² mod n，破解等价于分解n；解密得到四个平方根，用明文附带的冗余挑出正确的一个
+ * p、q均≡3 (mod 4)，平方根可直接由 c^((p+1)/4) mod p 求出
+ * x按模数的字节长度k编码：0x00 ‖ 随机填充 ‖ m ‖ len(m) ‖ 冗余，
+ * 随机填充使加密是概率性的，并保证x² > n，避免直接对整数开平方还原明文
+ */
+export class RabinEncryption implements EncryptionAlgorithm {
+  name = 'Rabin';
+  description = 'Rabin是Michael Rabin在1979年提出的公钥加密算法，加密只需一次平方：c = m² mod n。求模n的平方根与分解n同样困难，因此它是第一个被证明与大整数分解等价的公钥加密方案。解密会得到四个平方根，需要依靠明文中的冗余识别正确的明文。';
+
+  // 冗余：附加SHA-256(随机填充 ‖ m ‖ len(m))的前8个字节
+  private readonly REDUNDANCY_LENGTH = 8;
+
+  // 随机填充的最少字节数
+  private readonly MIN_PADDING_LENGTH = 8;
+
+  // 明文长度字段的字节数
+  private readonly LENGTH_FIELD = 2;
+
+  // 复用RSA的大素数生成
+  private readonly rsa = new RSAEncryption();
+
+  constructor() {}
+
+  /**
+   * 生成Rabin密钥对
+   * @param options 密钥生成选项，keySize为模数n的位长（1024–4096，默认2048）
+   * @returns 包含公钥和私钥的KeyPair对象
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const keySize = options.keySize ?? 2048;
+    if (!Number.isInteger(keySize) || keySize < 1024 || keySize > 4096) {
+      throw new Error(`不支持的密钥长度: ${keySize}，Rabin模数须为1024–4096位`);
+    }
+
+    try {
+      // 生成p ≡ 3、q ≡ 7 (mod 8)的两个素数，二者都≡3 (mod 4)
+      const [p, q] = await this.rsa.generatePrimes(keySize, 2, [3n, 7n]);
+      const n = p * q;
+
+      return {
+        publicKey: {
+          n: n.toString()
+        },
+        privateKey: {
+          p: p.toString(),
+          q: q.toString(),
+          n: n.toString()
+        },
+        keySize,
+        publicKeyDetails: {
+          algorithm: 'Rabin',
+          keySize: `${keySize}位`,
+          n: this.abbreviateString(n.toString())
+        },
+        privateKeyDetails: {
+          algorithm: 'Rabin',
+          keySize: `${keySize}位`,
+          p: this.abbreviateString(p.toString()),
+          q: this.abbreviateString(q.toString())
+        }
+      };
+    } catch (error) {
+      console.error('Rabin密钥生成错误:', error);
+      throw new Error('Rabin密钥生成失败');
+    }
+  }
+
+  /**
+   * 使用公钥加密消息：x = 0x00 ‖ 随机填充 ‖ m ‖ len(m) ‖ 冗余，c = x² mod n
+   * @param message 要加密的明文消息
+   * @param publicKey 加密用的公钥
+   * @returns 包含密文的加密结果
+   */
+  async encrypt(message: string, publicKey: any): Promise<EncryptionResult> {
+    const n = BigInt(publicKey.n);
+    const k = this.getByteLength(n);
+    const bytes = new TextEncoder().encode(message);
+    const maxLength = this.getMaxMessageLength(k);
+    if (bytes.length > maxLength) {
+      throw new Error(`消息太长，最大长度为${maxLength}字节`);
+    }
+
+    const x = this.bytesToBigInt(this.encode(bytes, k));
+    const c = (x * x) % n;
+    return {
+      ciphertext: this.bytesToBase64(this.bigIntToBytes(c, k)),
+      metadata: {
+        redundancy: `SHA-256(填充 ‖ m ‖ len)前${this.REDUNDANCY_LENGTH}字节`
+      }
+    };
+  }
+
+  /**
+   * 使用私钥解密消息，只有冗余匹配的平方根才是明文
+   * @param encryptionResult 包含密文的加密结果
+   * @param privateKey 解密用的私钥
+   * @returns 解密后的明文
+   */
+  async decrypt(encryptionResult: EncryptionResult, privateKey: any): Promise<string> {
+    const root = this.decryptCandidates(encryptionResult, privateKey).find(candidate => candidate.valid);
+    if (!root) {
+      throw new IntegrityError('Rabin解密失败：四个平方根都不带有正确的冗余，密文可能已被篡改');
+    }
+    return root.message as string;
+  }
+
+  /**
+   * 求出密文的四个平方根，并逐一检查冗余
+   * m_p = c^((p+1)/4) mod p，m_q = c^((q+1)/4) mod q，再由中国剩余定理组合 (±m_p, ±m_q)
+   * @param encryptionResult 包含密文的加密结果
+   * @param privateKey 解密用的私钥
+   * @returns 四个平方根
+   */
+  decryptCandidates(encryptionResult: EncryptionResult, privateKey: any): RabinRoot[] {
+    const p = BigInt(privateKey.p);
+    const q = BigInt(privateKey.q);
+    const n = p * q;
+    const k = this.getByteLength(n);
+    const c = this.bytesToBigInt(this.base64ToBytes(encryptionResult.ciphertext));
+    if (c >= n) {
+      throw new Error('Rabin密文须在[0, n)范围内');
+    }
+
+    // 1. 分别求模p、模q的平方根
+    const mp = this.modExp(c, (p + 1n) / 4n, p);
+    const mq = this.modExp(c, (q + 1n) / 4n, q);
+
+    // 2. 中国剩余定理：x = a·q·(q⁻¹ mod p) + b·p·(p⁻¹ mod q) mod n
+    const yp = q * this.modInverse(q, p);
+    const yq = p * this.modInverse(p, q);
+    const signs: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+    return signs.map(([sp, sq]) => {
+      const value = (((BigInt(sp) * mp * yp + BigInt(sq) * mq * yq) % n) + n) % n;
+      const message = this.decode(value, k);
+      return { value, signs: [sp, sq], valid: message !== null, message };
+    });
+  }
+
+  /**
+   * 把明文编码为k字节的x：0x00 ‖ 随机填充 ‖ m ‖ len(m) ‖ 冗余
+   * 首字节为0保证x < n；随机填充占满剩余空间，使x远大于√n
+   */
+  private encode(bytes: Uint8Array, k: number): Uint8Array {
+    const result = new Uint8Array(k);
+    const paddingLength = k - 1 - bytes.length - this.LENGTH_FIELD - this.REDUNDANCY_LENGTH;
+    const padding = this.getRandomBytes(paddingLength);
+    // 填充首字节非零，x至少有8(k−2)+1位，x²必然超过n
+    padding[0] |= 0x01;
+
+    let offset = 1;
+    result.set(padding, offset);
+    offset += paddingLength;
+    result.set(bytes, offset);
+    offset += bytes.length;
+    result[offset] = (bytes.length >> 8) & 0xff;
+    result[offset + 1] = bytes.length & 0xff;
+    offset += this.LENGTH_FIELD;
+
+    result.set(sha256(result.subarray(1, offset)).subarray(0, this.REDUNDANCY_LENGTH), offset);
+    return result;
+  }
+
+  /**
+   * 按固定的k字节解码平方根并检查冗余，匹配时返回明文，否则返回null
+   */
+  private decode(x: bigint, k: number): string | null {
+    const bytes = this.bigIntToBytes(x, k);
+    if (bytes[0] !== 0) {
+      return null;
+    }
+
+    const tagOffset = k - this.REDUNDANCY_LENGTH;
+    const lengthOffset = tagOffset - this.LENGTH_FIELD;
+    const length = (bytes[lengthOffset] << 8) | bytes[lengthOffset + 1];
+    if (length > this.getMaxMessageLength(k)) {
+      return null;
+    }
+
+    const tag = bytes.subarray(tagOffset);
+    const expected = sha256(bytes.subarray(1, tagOffset)).subarray(0, this.REDUNDANCY_LENGTH);
+    if (!tag.every((byte, i) => byte === expected[i])) {
+      return null;
+    }
+
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(lengthOffset - length, lengthOffset));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * k字节模数下可加密的最大明文长度
+   */
+  private getMaxMessageLength(k: number): number {
+    return k - 1 - this.MIN_PADDING_LENGTH - this.LENGTH_FIELD - this.REDUNDANCY_LENGTH;
+  }
+
+  /**
+   * 快速模幂算法计算 base^exponent mod modulus
+   * @param base 底数
+   * @param exponent 指数
+   * @param modulus 模数
+   * @returns 模幂结果
+   */
+  private modExp(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    if (modulus === 1n) return 0n;
+
+    let result = 1n;
+    base = base % modulus;
+
+    while (exponent > 0n) {
+      // 如果指数的当前位为1，将当前的base值乘到结果中
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+
+      // 平方底数，并右移指数
+      exponent = exponent >> 1n;
+      base = (base * base) % modulus;
+    }
+
+    return result;
+  }
+
+  /**
+   * 计算模逆元：a^(-1) mod m，使得a * a^(-1) ≡ 1 (mod m)
+   * 使用扩展欧几里得算法
+   * @param a 要求逆元的数
+   * @param m 模数
+   * @returns 模逆元
+   */
+  private modInverse(a: bigint, m: bigint): bigint {
+    a = ((a % m) + m) % m;
+
+    let [old_r, r] = [a, m];
+    let [old_s, s] = [1n, 0n];
+
+    while (r !== 0n) {
+      const quotient = old_r / r;
+      [old_r, r] = [r, old_r - quotient * r];
+      [old_s, s] = [s, old_s - quotient * s];
+    }
+
+    if (old_r !== 1n) {
+      throw new Error('模逆元不存在');
+    }
+
+    return (old_s % m + m) % m;
+  }
+
+  /**
+   * 将字节数组转换为Base64字符串
+   * @param bytes 字节数组
+   * @returns Base64编码的字符串
+   */
+  private bytesToBase64(bytes: Uint8Array): string {
+    if (typeof btoa === 'function') {
+      return btoa(Array.from(bytes).map(byte => String.fromCharCode(byte)).join(''));
+    }
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  /**
+   * 将Base64字符串转换为字节数组
+   * @param base64 Base64编码的字符串
+   * @returns 字节数组
+   */
+  private base64ToBytes(base64: string): Uint8Array {
+    if (typeof atob === 'function') {
+      return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    }
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+  }
+
+  /**
+   * 将字节数组转换为BigInt
+   * @param bytes 字节数组
+   * @returns BigInt值
+   */
+  private bytesToBigInt(bytes: Uint8Array): bigint {
+    let result = 0n;
+    for (let i = 0; i < bytes.length; i++) {
+      result = (result << 8n) | BigInt(bytes[i]);
+    }
+    return result;
+  }
+
+  /**
+   * 将BigInt转换为指定长度的字节数组
+   * @param value BigInt值
+   * @param length 字节数组的长度
+   * @returns 字节数组
+   */
+  private bigIntToBytes(value: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xffn);
+      value = value >> 8n;
+    }
+    return bytes;
+  }
+
+  /**
+   * 生成随机字节
+   * @param length 字节数
+   * @returns 随机字节数组
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 获取模数的字节长度
+   * @param n 模数
+   * @returns 字节长度
+   */
+  private getByteLength(n: bigint): number {
+    return Math.ceil(this.getBitLength(n) / 8);
+  }
+
+  /**
+   * 获取大整数的位长度
+   * @param n 大整数
+   * @returns 位长度
+   */
+  private getBitLength(n: bigint): number {
+    return n === 0n ? 0 : n.toString(2).length;
+  }
+
+  /**
+   * 缩写显示长字符串
+   * @param str 原始字符串
+   * @returns 缩写后的字符串
+   */
+  private abbreviateString(str: string): string {
+    if (str.length <= 10) return str;
+    return str.substring(0, 5) + '...' + str.substring(str.length - 5);
+  }
+}
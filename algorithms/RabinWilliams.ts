@@ -0,0 +1,217 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions } from './types';
+import { sha256 } from './hash';
+import { RSAEncryption } from './RSAEncryption';
+
+/**
+ * Rabin-Williams签名算法
+ * 取p ≡ 3、q ≡ 7 (mod 8)，此时−1与2的组合总能把任意H(m)调整为二次剩余：
+ * 选择e ∈ {1, −1}、f ∈ {1, 2}使e·f·H(m)是模n的平方，签名s为它的平方根
+ * 验证只需一次模平方：s² ≡ e·f·H(m) (mod n)，伪造签名等价于分解n
+ */
+export class RabinWilliams implements CryptoAlgorithm {
+  // 复用RSA的大素数生成
+  private readonly rsa = new RSAEncryption();
+
+  constructor() {}
+
+  /**
+   * 生成Rabin-Williams密钥对
+   * @param options 密钥生成选项，keySize为模数n的位长（1024–4096，默认2048）
+   * @returns 包含公钥和私钥的KeyPair对象
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const keySize = options.keySize ?? 2048;
+    if (!Number.isInteger(keySize) || keySize < 1024 || keySize > 4096) {
+      throw new Error(`不支持的密钥长度: ${keySize}，Rabin-Williams模数须为1024–4096位`);
+    }
+
+    // 1. 生成p ≡ 3 (mod 8)、q ≡ 7 (mod 8)的两个素数
+    const [p, q] = await this.rsa.generatePrimes(keySize, 2, [3n, 7n]);
+
+    // 2. 公钥只有n = p·q
+    const n = p * q;
+    return {
+      publicKey: { n: n.toString() },
+      privateKey: { p: p.toString(), q: q.toString(), n: n.toString() },
+      keySize
+    };
+  }
+
+  /**
+   * Rabin-Williams签名算法实现
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为s（十六进制），tweaks为调整因子e、f
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    const p = BigInt(keys.privateKey.p);
+    const q = BigInt(keys.privateKey.q);
+    const n = p * q;
+
+    // 1. 全域哈希：h = MGF1(SHA-256(m))，与n等长
+    const messageHash = sha256(message);
+    const h = this.fullDomainHash(messageHash, n);
+
+    // 2. 选择调整因子：−1对p、q都是非二次剩余，2只对p是非二次剩余
+    //    e使e·h成为模q的二次剩余，f再修正模p的情况
+    const e = this.legendre(h, q);
+    const f = e * this.legendre(h, p) === 1 ? 1 : 2;
+    const target = this.mod(BigInt(e * f) * h, n);
+
+    // 3. 分别求模p、模q的平方根，取两者都是二次剩余的那个（主平方根），再由中国剩余定理组合
+    const sp = this.modExp(target, (p + 1n) / 4n, p);
+    const sq = this.modExp(target, (q + 1n) / 4n, q);
+    const s = this.mod(sp * q * this.modInverse(q, p) + sq * p * this.modInverse(p, q), n);
+
+    return {
+      signature: s.toString(16).padStart(Math.ceil(this.getBitLength(n) / 8) * 2, '0'),
+      messageHash: this.bytesToHex(messageHash),
+      n: n.toString(),
+      hash: 'SHA-256',
+      tweaks: { e, f }
+    };
+  }
+
+  /**
+   * Rabin-Williams签名验证算法实现
+   * 检查 s² mod n 是否等于 h、−h、2h 或 −2h 之一，验证者无需知道e、f
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const n = BigInt(keys.publicKey.n);
+      const hex = typeof signature === 'string' ? signature : signature?.signature;
+      if (typeof hex !== 'string' || !/^[0-9a-fA-F]+$/.test(hex)) {
+        return false;
+      }
+
+      // 1. 检查s的范围
+      const s = BigInt(`0x${hex}`);
+      if (s <= 0n || s >= n) {
+        return false;
+      }
+
+      // 2. 计算 s² mod n，并与四个候选值比较
+      const h = this.fullDomainHash(sha256(message), n);
+      const square = (s * s) % n;
+      return [1n, -1n, 2n, -2n].some(tweak => this.mod(tweak * h, n) === square);
+    } catch (error) {
+      // 静默失败，返回false而不输出错误日志
+      return false;
+    }
+  }
+
+  /**
+   * 全域哈希：用MGF1(SHA-256)把消息摘要扩展到比n少1位
+   */
+  private fullDomainHash(seed: Uint8Array, n: bigint): bigint {
+    const bits = this.getBitLength(n) - 1;
+    const bytes = this.mgf1(seed, Math.ceil(bits / 8));
+    bytes[0] &= 0xff >> (bytes.length * 8 - bits);
+    return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  }
+
+  /**
+   * MGF1掩码生成函数 (RFC8017 B.2.1)，使用SHA-256
+   */
+  private mgf1(seed: Uint8Array, maskLen: number): Uint8Array {
+    const mask = new Uint8Array(maskLen);
+    const T = new Uint8Array(seed.length + 4); // seed || counter
+    T.set(seed, 0);
+
+    let pos = 0;
+    for (let counter = 0; pos < maskLen; counter++) {
+      // 计数器 (big-endian 4字节)
+      T[seed.length] = (counter >>> 24) & 0xff;
+      T[seed.length + 1] = (counter >>> 16) & 0xff;
+      T[seed.length + 2] = (counter >>> 8) & 0xff;
+      T[seed.length + 3] = counter & 0xff;
+
+      const block = sha256(T);
+      const len = Math.min(block.length, maskLen - pos);
+      mask.set(block.slice(0, len), pos);
+      pos += len;
+    }
+
+    return mask;
+  }
+
+  /**
+   * 勒让德符号 (a/p)：1表示二次剩余，−1表示非二次剩余
+   */
+  private legendre(a: bigint, p: bigint): number {
+    const symbol = this.modExp(a, (p - 1n) / 2n, p);
+    if (symbol === 0n) {
+      throw new Error('消息哈希与模数不互素');
+    }
+    return symbol === 1n ? 1 : -1;
+  }
+
+  /**
+   * 快速模幂算法计算 base^exponent mod modulus
+   */
+  private modExp(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = 1n;
+    base = this.mod(base, modulus);
+
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+      exponent = exponent >> 1n;
+      base = (base * base) % modulus;
+    }
+
+    return result;
+  }
+
+  /**
+   * 计算模逆元
+   * 使用扩展欧几里得算法
+   */
+  private modInverse(a: bigint, m: bigint): bigint {
+    a = this.mod(a, m);
+
+    let [old_r, r] = [a, m];
+    let [old_s, s] = [1n, 0n];
+
+    while (r !== 0n) {
+      const quotient = old_r / r;
+      [old_r, r] = [r, old_r - quotient * r];
+      [old_s, s] = [s, old_s - quotient * s];
+    }
+
+    if (old_r !== 1n) {
+      throw new Error('模逆元不存在');
+    }
+
+    return this.mod(old_s, m);
+  }
+
+  /**
+   * 计算非负模：a mod m ∈ [0, m)
+   */
+  private mod(a: bigint, m: bigint): bigint {
+    const result = a % m;
+    return result < 0n ? result + m : result;
+  }
+
+  /**
+   * 获取大整数的位长度
+   */
+  private getBitLength(n: bigint): number {
+    return n === 0n ? 0 : n.toString(2).length;
+  }
+
+  /**
+   * 字节数组转换为十六进制字符串
+   */
+  private bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
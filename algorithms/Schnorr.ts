@@ -0,0 +1,435 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { sha256 } from './hash';
+import { getCurve } from './curves';
+
+/**
+ * BIP-340 Schnorr签名算法
+ * 基于secp256k1曲线，公钥只保存x坐标（32字节），签名为 R.x || s（64字节）
+ * 约定公钥点与随机数点R的y坐标均为偶数，签名方程 s = k + e·d 对私钥是线性的
+ */
+export class Schnorr implements CryptoAlgorithm {
+  private readonly curve = getCurve('secp256k1');
+
+  constructor() {}
+
+  /**
+   * 曲线的基点G
+   */
+  private get G(): Point {
+    return { x: this.curve.Gx, y: this.curve.Gy };
+  }
+
+  /**
+   * 生成Schnorr密钥对
+   * 私钥d是[1, n-1]范围内的随机整数，公钥为 P = d × G 的x坐标
+   */
+  async generateKeys(): Promise<KeyPair> {
+    // 1. 生成随机私钥 d ∈ [1, n-1]
+    const d = this.getRandomBigInt(1n, this.curve.n - 1n);
+
+    // 2. 由私钥计算x-only公钥
+    return this.keysFromPrivateKey(this.toHex(d));
+  }
+
+  /**
+   * 由私钥构造密钥对 (BIP-340 PubKey)
+   * @param privateKeyHex 32字节私钥（十六进制）
+   * @returns 密钥对，公钥为32字节x坐标
+   */
+  keysFromPrivateKey(privateKeyHex: string): KeyPair {
+    const d = BigInt(`0x${privateKeyHex}`);
+    if (d <= 0n || d >= this.curve.n) {
+      throw new Error('私钥超出范围');
+    }
+    const P = this.pointMultiply(this.G, d);
+
+    return {
+      publicKey: { x: this.toHex(P.x), curve: this.curve.name },
+      privateKey: { d: this.toHex(d), curve: this.curve.name },
+      keySize: 256
+    };
+  }
+
+  /**
+   * Schnorr签名算法实现，消息按UTF-8编码，每次签名使用新的辅助随机数
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为 R.x || s 的十六进制
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    return this.signBytes(new TextEncoder().encode(message), keys, this.getRandomBytes(32));
+  }
+
+  /**
+   * 对任意字节消息签名 (BIP-340 Sign)
+   *
+   * @param message 待签名的消息字节
+   * @param keys 包含私钥的密钥对
+   * @param auxRand 32字节辅助随机数，混入随机数生成以抵抗侧信道攻击；全零时签名是确定性的
+   * @returns 签名结果
+   */
+  async signBytes(message: Uint8Array, keys: KeyPair, auxRand: Uint8Array = new Uint8Array(32)): Promise<SignatureResult> {
+    const n = this.curve.n;
+
+    // 1. 读取私钥d'，计算P = d' × G；若P.y为奇数则取d = n - d'，使公钥对应偶数y
+    const dPrime = BigInt(`0x${keys.privateKey.d}`);
+    if (dPrime <= 0n || dPrime >= n) {
+      throw new Error('私钥超出范围');
+    }
+    const P = this.pointMultiply(this.G, dPrime);
+    const d = this.hasEvenY(P) ? dPrime : n - dPrime;
+    const PBytes = this.toBytes(P.x);
+
+    // 2. 生成随机数 k' = H_nonce(d ⊕ H_aux(a) || P.x || m) mod n
+    const auxHash = this.taggedHash('BIP0340/aux', auxRand);
+    const t = this.toBytes(d).map((byte, i) => byte ^ auxHash[i]);
+    const kPrime = this.toBigInt(this.taggedHash('BIP0340/nonce', this.concat(t, PBytes, message))) % n;
+    if (kPrime === 0n) {
+      throw new Error('随机数k为0，签名失败');
+    }
+
+    // 3. 计算R = k' × G；若R.y为奇数则取k = n - k'
+    const R = this.pointMultiply(this.G, kPrime);
+    const k = this.hasEvenY(R) ? kPrime : n - kPrime;
+    const RBytes = this.toBytes(R.x);
+
+    // 4. 计算挑战值 e = H_challenge(R.x || P.x || m) mod n
+    const challenge = this.taggedHash('BIP0340/challenge', this.concat(RBytes, PBytes, message));
+    const e = this.toBigInt(challenge) % n;
+
+    // 5. 计算 s = (k + e·d) mod n，签名为 R.x || s
+    const s = (k + e * d) % n;
+    const signature = this.toHex(R.x) + this.toHex(s);
+
+    // 6. 按BIP-340建议，返回前先验证签名，防止计算错误泄露私钥
+    if (!(await this.verifyBytes(message, signature, { publicKey: { x: this.toHex(P.x) }, privateKey: null }))) {
+      throw new Error('签名自检失败');
+    }
+
+    return {
+      signature,
+      r: this.toHex(R.x),
+      s: this.toHex(s),
+      messageHash: this.uint8ArrayToHex(challenge),
+      curve: this.curve.name,
+      hash: 'SHA-256'
+    };
+  }
+
+  /**
+   * Schnorr签名验证算法实现，消息按UTF-8编码
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或 R.x || s 的十六进制字符串
+   * @param keys 包含x-only公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    return this.verifyBytes(new TextEncoder().encode(message), signature, keys);
+  }
+
+  /**
+   * 验证任意字节消息的签名 (BIP-340 Verify)
+   * 计算 R = s × G - e × P，要求R不是无穷远点、y为偶数且x等于签名中的r
+   *
+   * @param message 原始消息字节
+   * @param signature 签名结果或 R.x || s 的十六进制字符串
+   * @param keys 包含x-only公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verifyBytes(message: Uint8Array, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const { p, n } = this.curve;
+
+      // 1. 读取64字节签名与32字节公钥
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      const publicKeyHex = keys.publicKey?.x;
+      if (typeof signatureHex !== 'string' || !/^[0-9a-fA-F]{128}$/.test(signatureHex) ||
+          typeof publicKeyHex !== 'string' || !/^[0-9a-fA-F]{64}$/.test(publicKeyHex)) {
+        return false;
+      }
+
+      // 2. 由x坐标恢复y为偶数的公钥点，x不在曲线上时失败
+      const P = this.liftX(BigInt(`0x${publicKeyHex}`));
+      if (!P) {
+        return false;
+      }
+
+      // 3. 检查 r < p 且 s < n
+      const r = BigInt(`0x${signatureHex.substring(0, 64)}`);
+      const s = BigInt(`0x${signatureHex.substring(64)}`);
+      if (r >= p || s >= n) {
+        return false;
+      }
+
+      // 4. 计算挑战值 e = H_challenge(r || P.x || m) mod n
+      const challenge = this.taggedHash(
+        'BIP0340/challenge',
+        this.concat(this.toBytes(r), this.toBytes(P.x), message)
+      );
+      const e = this.toBigInt(challenge) % n;
+
+      // 5. 计算 R = s × G - e × P = s × G + (n - e) × P
+      const R = this.pointAdd(this.pointMultiply(this.G, s), this.pointMultiply(P, (n - e) % n));
+
+      // 6. R不能是无穷远点，y必须为偶数，x必须等于r
+      if (this.isInfinity(R) || !this.hasEvenY(R)) {
+        return false;
+      }
+      return R.x === r;
+    } catch (error) {
+      // 静默失败，返回false而不输出错误日志
+      return false;
+    }
+  }
+
+  /**
+   * 带标签的哈希 (BIP-340)
+   * hash_tag(x) = SHA-256(SHA-256(tag) || SHA-256(tag) || x)，不同用途的哈希互不干扰
+   */
+  private taggedHash(tag: string, data: Uint8Array): Uint8Array {
+    const tagHash = sha256(tag);
+    return sha256(this.concat(tagHash, tagHash, data));
+  }
+
+  /**
+   * 由x坐标恢复y为偶数的曲线点 (BIP-340 lift_x)
+   * y = c^((p+1)/4) mod p，其中 c = x³ + 7；secp256k1的p ≡ 3 (mod 4)，可直接求平方根
+   */
+  private liftX(x: bigint): Point | null {
+    const p = this.curve.p;
+    if (x >= p) {
+      return null;
+    }
+    const c = (this.modPow(x, 3n, p) + this.curve.b) % p;
+    const y = this.modPow(c, (p + 1n) / 4n, p);
+    if ((y * y) % p !== c) {
+      return null;
+    }
+    return { x, y: y % 2n === 0n ? y : p - y };
+  }
+
+  /**
+   * 判断点的y坐标是否为偶数
+   */
+  private hasEvenY(P: Point): boolean {
+    return P.y % 2n === 0n;
+  }
+
+  /**
+   * 判断是否为无穷远点
+   */
+  private isInfinity(P: Point): boolean {
+    return P.x === 0n && P.y === 0n;
+  }
+
+  /**
+   * 椭圆曲线点加法
+   * λ = (Qy - Py) / (Qx - Px) mod p
+   * Rx = λ² - Px - Qx mod p
+   * Ry = λ(Px - Rx) - Py mod p
+   */
+  private pointAdd(P: Point, Q: Point): Point {
+    const p = this.curve.p;
+
+    // 处理无穷远点
+    if (this.isInfinity(P)) return Q;
+    if (this.isInfinity(Q)) return P;
+
+    // P = Q时调用点倍运算
+    if (P.x === Q.x && P.y === Q.y) {
+      return this.pointDouble(P);
+    }
+
+    // P和Q互为负点，和为无穷远点
+    if (P.x === Q.x) {
+      return { x: 0n, y: 0n };
+    }
+
+    const lambda = (this.mod(Q.y - P.y) * this.modInverse(this.mod(Q.x - P.x), p)) % p;
+    const Rx = this.mod(lambda * lambda - P.x - Q.x);
+    const Ry = this.mod(lambda * (P.x - Rx) - P.y);
+
+    return { x: Rx, y: Ry };
+  }
+
+  /**
+   * 椭圆曲线点倍运算
+   * λ = 3Px² / (2Py) mod p（secp256k1的a = 0）
+   */
+  private pointDouble(P: Point): Point {
+    const p = this.curve.p;
+
+    if (this.isInfinity(P) || P.y === 0n) {
+      return { x: 0n, y: 0n };
+    }
+
+    const lambda = (this.mod(3n * P.x * P.x) * this.modInverse(this.mod(2n * P.y), p)) % p;
+    const Rx = this.mod(lambda * lambda - 2n * P.x);
+    const Ry = this.mod(lambda * (P.x - Rx) - P.y);
+
+    return { x: Rx, y: Ry };
+  }
+
+  /**
+   * 椭圆曲线点乘运算 k × P，使用倍加算法
+   */
+  private pointMultiply(P: Point, k: bigint): Point {
+    let result: Point = { x: 0n, y: 0n };
+    let addend = P;
+
+    while (k > 0n) {
+      if (k & 1n) {
+        result = this.pointAdd(result, addend);
+      }
+      addend = this.pointDouble(addend);
+      k >>= 1n;
+    }
+
+    return result;
+  }
+
+  /**
+   * 模p约简，结果为非负数
+   */
+  private mod(a: bigint): bigint {
+    const result = a % this.curve.p;
+    return result < 0n ? result + this.curve.p : result;
+  }
+
+  /**
+   * 快速模幂运算
+   */
+  private modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = 1n;
+    base = base % modulus;
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % modulus;
+      }
+      base = (base * base) % modulus;
+      exponent >>= 1n;
+    }
+    return result;
+  }
+
+  /**
+   * 计算模逆元
+   * 使用扩展欧几里得算法
+   */
+  private modInverse(a: bigint, m: bigint): bigint {
+    a = ((a % m) + m) % m;
+
+    if (a === 0n) {
+      throw new Error('模逆元不存在: 除数不能为0');
+    }
+
+    let [old_r, r] = [a, m];
+    let [old_s, s] = [1n, 0n];
+
+    while (r !== 0n) {
+      const quotient = old_r / r;
+      [old_r, r] = [r, old_r - quotient * r];
+      [old_s, s] = [s, old_s - quotient * s];
+    }
+
+    if (old_r !== 1n) {
+      throw new Error('模逆元不存在: gcd不为1');
+    }
+
+    return (old_s % m + m) % m;
+  }
+
+  /**
+   * 生成指定范围内的随机大整数
+   */
+  private getRandomBigInt(min: bigint, max: bigint): bigint {
+    const range = max - min;
+    // 多取8个字节，降低取模造成的偏差
+    const randomBytes = this.getRandomBytes(Math.ceil(range.toString(16).length / 2) + 8);
+    return min + (this.toBigInt(randomBytes) % (range + 1n));
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 大整数转换为32字节大端序数组
+   */
+  private toBytes(n: bigint): Uint8Array {
+    return this.hexToUint8Array(this.toHex(n));
+  }
+
+  /**
+   * 大整数转换为64位十六进制字符串
+   */
+  private toHex(n: bigint): string {
+    return n.toString(16).padStart(64, '0');
+  }
+
+  /**
+   * 大端序字节数组转换为大整数
+   */
+  private toBigInt(bytes: Uint8Array): bigint {
+    return bytes.length === 0 ? 0n : BigInt(`0x${this.uint8ArrayToHex(bytes)}`);
+  }
+
+  /**
+   * 拼接多个字节数组
+   */
+  private concat(...arrays: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+      result.set(array, offset);
+      offset += array.length;
+    }
+    return result;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
+
+/**
+ * 椭圆曲线上的点
+ */
+interface Point {
+  x: bigint;
+  y: bigint;
+}
@@ -0,0 +1,130 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm } from './types';
+import { sha256 } from './hash';
+import { WOTS_LEN, WOTS_N, wotsChainPositions, wotsPublicKey, wotsPublicKeyFromSignature, wotsSign } from './wots';
+
+/**
+ * WOTS+一次性签名算法 (RFC 8391 第3节，n = 32，w = 16)
+ * 把Lamport的"每位一对原像"换成"每个16进制位一条哈希链"，签名从8192字节缩短到2144字节；
+ * 与Lamport一样，同一私钥只能签名一次
+ */
+export class WOTSPlus implements CryptoAlgorithm {
+  constructor() {}
+
+  /**
+   * 生成WOTS+密钥对
+   * @returns 密钥对，公钥为公开种子与67个链尾，私钥为私钥种子并带有是否已签名的标记
+   */
+  async generateKeys(): Promise<KeyPair> {
+    const skSeed = this.getRandomBytes(WOTS_N);
+    const pubSeed = this.getRandomBytes(WOTS_N);
+    const chainEnds = wotsPublicKey(skSeed, pubSeed, 0);
+
+    return {
+      publicKey: { key: chainEnds.map(end => this.uint8ArrayToHex(end)).join(''), pubSeed: this.uint8ArrayToHex(pubSeed) },
+      privateKey: { skSeed: this.uint8ArrayToHex(skSeed), pubSeed: this.uint8ArrayToHex(pubSeed), used: false },
+      keySize: WOTS_N * 8
+    };
+  }
+
+  /**
+   * WOTS+签名：对SHA-256(M)及其校验和的每个16进制位b_i，公开第i条链上第b_i个值
+   * 签名后私钥被标记为已使用，再次签名会抛出错误
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，chainPositions为每条链公开的位置
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    if (keys.privateKey.used) {
+      throw new Error('该WOTS+私钥已经签过名，一次性密钥不能重复使用');
+    }
+    // 先标记再签名，即使签名过程出错也不会再次使用同一私钥
+    keys.privateKey.used = true;
+
+    const digest = sha256(message);
+    const signature = wotsSign(
+      digest,
+      this.hexToUint8Array(keys.privateKey.skSeed as string),
+      this.hexToUint8Array(keys.privateKey.pubSeed as string),
+      0
+    );
+
+    return {
+      signature: signature.map(value => this.uint8ArrayToHex(value)).join(''),
+      messageHash: this.uint8ArrayToHex(digest),
+      hash: 'SHA-256',
+      chainPositions: wotsChainPositions(digest)
+    };
+  }
+
+  /**
+   * WOTS+签名验证：把签名值沿链继续哈希到链尾，与公钥比较
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      if (typeof signatureHex !== 'string' || !new RegExp(`^[0-9a-fA-F]{${WOTS_LEN * WOTS_N * 2}}$`).test(signatureHex)) {
+        return false;
+      }
+
+      const values = Array.from({ length: WOTS_LEN }, (_, i) =>
+        this.hexToUint8Array(signatureHex.substring(i * WOTS_N * 2, (i + 1) * WOTS_N * 2))
+      );
+      const recovered = wotsPublicKeyFromSignature(
+        sha256(message),
+        values,
+        this.hexToUint8Array(keys.publicKey.pubSeed as string),
+        0
+      );
+      return recovered.map(end => this.uint8ArrayToHex(end)).join('') === (keys.publicKey.key as string).toLowerCase();
+    } catch (error) {
+      console.error('WOTS+签名验证错误:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
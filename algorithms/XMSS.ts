@@ -0,0 +1,212 @@
+import { KeyPair, SignatureResult, CryptoAlgorithm, KeyGenerationOptions } from './types';
+import { sha256 } from './hash';
+import {
+  address,
+  ADDRESS_TYPES,
+  tweakableHash,
+  WOTS_LEN,
+  WOTS_N,
+  wotsChainPositions,
+  wotsPublicKey,
+  wotsPublicKeyFromSignature,
+  wotsSign
+} from './wots';
+
+/**
+ * XMSS风格的Merkle树签名（参照RFC 8391第4节的简化版）
+ * 2^h个WOTS+一次性密钥压缩成Merkle树的叶子，树根就是公钥；签名包含叶子序号、该叶子的WOTS+签名
+ * 与认证路径（从叶子到树根每层的兄弟节点）。私钥是有状态的：每次签名使用下一个未用过的叶子
+ */
+export class XMSS implements CryptoAlgorithm {
+  // 支持的树高，树高为h时私钥可签名2^h次
+  private readonly heights = [4, 6];
+
+  constructor() {}
+
+  /**
+   * 生成XMSS密钥对
+   * 需要计算全部2^h个WOTS+公钥，私钥中缓存整棵树以便签名时直接读取认证路径
+   * @param options 密钥生成选项，treeHeight为树高（4或6，默认4）
+   * @returns 密钥对，公钥为树根与公开种子，私钥记录下一个可用叶子的序号
+   */
+  async generateKeys(options: KeyGenerationOptions = {}): Promise<KeyPair> {
+    const height = options.treeHeight ?? 4;
+    if (!this.heights.includes(height)) {
+      throw new Error(`不支持的XMSS树高: ${height}`);
+    }
+
+    const skSeed = this.getRandomBytes(WOTS_N);
+    const pubSeed = this.getRandomBytes(WOTS_N);
+
+    // 第0层是叶子，第h层只有树根
+    const tree: Uint8Array[][] = [
+      Array.from({ length: 1 << height }, (_, i) => this.leaf(wotsPublicKey(skSeed, pubSeed, i), pubSeed, i))
+    ];
+    for (let level = 1; level <= height; level++) {
+      const below = tree[level - 1];
+      tree.push(
+        Array.from({ length: below.length / 2 }, (_, i) => this.node(below[2 * i], below[2 * i + 1], pubSeed, level, i))
+      );
+    }
+
+    const pubSeedHex = this.uint8ArrayToHex(pubSeed);
+    return {
+      publicKey: { root: this.uint8ArrayToHex(tree[height][0]), pubSeed: pubSeedHex, height },
+      privateKey: {
+        skSeed: this.uint8ArrayToHex(skSeed),
+        pubSeed: pubSeedHex,
+        height,
+        nextIndex: 0,
+        tree: tree.map(level => level.map(node => this.uint8ArrayToHex(node)))
+      },
+      treeHeight: height
+    };
+  }
+
+  /**
+   * XMSS签名：用第nextIndex个叶子的WOTS+密钥签名，并附上认证路径
+   * 签名前先把nextIndex加一，所有叶子用完后私钥不能再签名
+   *
+   * @param message 待签名的消息
+   * @param keys 包含私钥的密钥对
+   * @returns 签名结果，signature为 叶子序号(4字节) ‖ WOTS+签名 ‖ 认证路径 的十六进制
+   */
+  async sign(message: string, keys: KeyPair): Promise<SignatureResult> {
+    const { height, nextIndex } = keys.privateKey;
+    if (nextIndex >= 1 << height) {
+      throw new Error(`该XMSS私钥的${1 << height}个一次性密钥已全部用完，不能再签名`);
+    }
+    // 先更新状态再签名，即使签名过程出错也不会再次使用同一叶子
+    keys.privateKey.nextIndex = nextIndex + 1;
+
+    const digest = sha256(message);
+    const wotsSignature = wotsSign(
+      digest,
+      this.hexToUint8Array(keys.privateKey.skSeed as string),
+      this.hexToUint8Array(keys.privateKey.pubSeed as string),
+      nextIndex
+    );
+    // 第j层的兄弟节点序号为 (nextIndex >> j) ^ 1
+    const authPath: string[] = [];
+    for (let level = 0; level < height; level++) {
+      authPath.push(keys.privateKey.tree[level][(nextIndex >> level) ^ 1]);
+    }
+
+    const index = nextIndex.toString(16).padStart(8, '0');
+    return {
+      signature: index + wotsSignature.map(value => this.uint8ArrayToHex(value)).join('') + authPath.join(''),
+      messageHash: this.uint8ArrayToHex(digest),
+      hash: 'SHA-256',
+      leafIndex: nextIndex,
+      authPath,
+      chainPositions: wotsChainPositions(digest)
+    };
+  }
+
+  /**
+   * XMSS签名验证：由WOTS+签名恢复叶子，再沿认证路径向上计算，检查是否得到公钥中的树根
+   *
+   * @param message 原始消息
+   * @param signature 签名结果或签名的十六进制字符串
+   * @param keys 包含公钥的密钥对
+   * @returns 验证结果(布尔值)
+   */
+  async verify(message: string, signature: any, keys: KeyPair): Promise<boolean> {
+    try {
+      const { height } = keys.publicKey;
+      const signatureHex = typeof signature === 'string' ? signature : signature?.signature;
+      const length = 4 + (WOTS_LEN + height) * WOTS_N;
+      if (typeof signatureHex !== 'string' || !new RegExp(`^[0-9a-fA-F]{${length * 2}}$`).test(signatureHex)) {
+        return false;
+      }
+
+      const bytes = this.hexToUint8Array(signatureHex);
+      const index = new DataView(bytes.buffer).getUint32(0);
+      if (index >= 1 << height) {
+        return false;
+      }
+      const values = Array.from({ length: WOTS_LEN + height }, (_, i) => bytes.slice(4 + i * WOTS_N, 4 + (i + 1) * WOTS_N));
+      const pubSeed = this.hexToUint8Array(keys.publicKey.pubSeed as string);
+
+      // 1. 由WOTS+签名恢复该叶子的WOTS+公钥，压缩成叶子节点
+      let node = this.leaf(wotsPublicKeyFromSignature(sha256(message), values.slice(0, WOTS_LEN), pubSeed, index), pubSeed, index);
+
+      // 2. 沿认证路径向上：序号为偶数时本节点在左，奇数时在右
+      for (let level = 0; level < height; level++) {
+        const sibling = values[WOTS_LEN + level];
+        const parent = index >> (level + 1);
+        node = (index >> level) & 1
+          ? this.node(sibling, node, pubSeed, level + 1, parent)
+          : this.node(node, sibling, pubSeed, level + 1, parent);
+      }
+
+      // 3. 与公钥中的树根比较
+      return this.uint8ArrayToHex(node) === (keys.publicKey.root as string).toLowerCase();
+    } catch (error) {
+      console.error('XMSS签名验证错误:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 剩余可签名次数
+   * @param keys 包含私钥的密钥对
+   */
+  remainingSignatures(keys: KeyPair): number {
+    return (1 << keys.privateKey.height) - keys.privateKey.nextIndex;
+  }
+
+  /**
+   * 把第index个WOTS+公钥的67个链尾压缩成叶子节点
+   */
+  private leaf(wotsKey: Uint8Array[], pubSeed: Uint8Array, index: number): Uint8Array {
+    return tweakableHash(pubSeed, address(ADDRESS_TYPES.leaf, index, 0, 0), ...wotsKey);
+  }
+
+  /**
+   * 计算第level层第index个内部节点 H(左子节点 ‖ 右子节点)
+   */
+  private node(left: Uint8Array, right: Uint8Array, pubSeed: Uint8Array, level: number, index: number): Uint8Array {
+    return tweakableHash(pubSeed, address(ADDRESS_TYPES.node, 0, level, index), left, right);
+  }
+
+  /**
+   * 生成随机字节
+   */
+  private getRandomBytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      // 如果不在浏览器环境，使用简单随机数
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将十六进制字符串转换为Uint8Array
+   */
+  private hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * 将Uint8Array转换为十六进制字符串
+   */
+  private uint8ArrayToHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
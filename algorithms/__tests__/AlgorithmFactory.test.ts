@@ -2,6 +2,15 @@ import { AlgorithmFactory } from '../index';
 import { RSA } from '../RSA';
 import { DSA } from '../DSA';
 import { ECDSA } from '../ECDSA';
+import { Ed25519 } from '../Ed25519';
+import { Schnorr } from '../Schnorr';
+import { ElGamalSignature } from '../ElGamalSignature';
+import { MLDSASignature } from '../MLDSASignature';
+import { Lamport } from '../Lamport';
+import { WOTSPlus } from '../WOTSPlus';
+import { XMSS } from '../XMSS';
+import { BLS } from '../BLS';
+import { RabinWilliams } from '../RabinWilliams';
 import { CryptoAlgorithm } from '../types';
 
 describe('AlgorithmFactory', () => {
@@ -23,6 +32,49 @@ describe('AlgorithmFactory', () => {
     expect(instance).toBeInstanceOf(ECDSA);
   });
   
+  // 测试应当返回Ed25519实例
+  test('should return Ed25519 instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('Ed25519');
+    expect(instance).toBeInstanceOf(Ed25519);
+  });
+  
+  // 测试应当返回Schnorr实例
+  test('should return Schnorr instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('Schnorr');
+    expect(instance).toBeInstanceOf(Schnorr);
+  });
+  
+  // 测试应当返回ElGamal签名实例
+  test('should return ElGamal signature instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('ElGamal');
+    expect(instance).toBeInstanceOf(ElGamalSignature);
+  });
+  
+  // 测试应当返回ML-DSA实例
+  test('should return ML-DSA instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('ML-DSA');
+    expect(instance).toBeInstanceOf(MLDSASignature);
+  });
+
+  // 测试应当返回基于哈希的签名实例
+  test('should return hash-based signature instances', () => {
+    expect(AlgorithmFactory.getAlgorithm('Lamport')).toBeInstanceOf(Lamport);
+    expect(AlgorithmFactory.getAlgorithm('WOTS+')).toBeInstanceOf(WOTSPlus);
+    expect(AlgorithmFactory.getAlgorithm('XMSS')).toBeInstanceOf(XMSS);
+  });
+
+  // 测试应当返回BLS实例
+  test('should return BLS instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('BLS');
+    expect(instance).toBeInstanceOf(BLS);
+  });
+
+  // 测试应当返回Rabin-Williams实例
+  test('should return Rabin-Williams instance', () => {
+    const instance = AlgorithmFactory.getAlgorithm('Rabin-Williams');
+    expect(instance).toBeInstanceOf(RabinWilliams);
+  });
+  
   // 测试算法名称应不区分大小写
   test('should be case-insensitive', () => {
     const instance1 = AlgorithmFactory.getAlgorithm('rsa');
@@ -49,7 +101,7 @@ describe('AlgorithmFactory', () => {
   
   // 测试每个算法实例都应实现CryptoAlgorithm接口
   test('each algorithm instance should implement CryptoAlgorithm interface', () => {
-    const algorithms = ['RSA', 'DSA', 'ECDSA'];
+    const algorithms = ['RSA', 'DSA', 'ElGamal', 'ECDSA', 'Ed25519', 'Schnorr'];
     
     for (const algo of algorithms) {
       const instance = AlgorithmFactory.getAlgorithm(algo);
@@ -0,0 +1,96 @@
+import { BLS } from '../BLS';
+import { KeyPair } from '../types';
+
+/**
+ * BLS签名与聚合测试
+ */
+describe('BLS', () => {
+  const bls = new BLS();
+
+  /**
+   * 测试密钥生成
+   */
+  test('应该生成48字节公钥与32字节私钥', async () => {
+    const keys = await bls.generateKeys();
+    expect(keys.publicKey.key).toMatch(/^[0-9a-f]{96}$/);
+    expect(keys.privateKey.sk).toMatch(/^[0-9a-f]{64}$/);
+    expect(bls.keysFromPrivateKey(keys.privateKey.sk).publicKey.key).toBe(keys.publicKey.key);
+    expect(() => bls.keysFromPrivateKey('00')).toThrow('私钥超出范围');
+  });
+
+  /**
+   * 测试签名与验证
+   */
+  test('签名应该是确定性的96字节值，并能通过验证', async () => {
+    const keys = await bls.generateKeys();
+    const signature = await bls.sign('BLS签名', keys);
+    expect(signature.signature).toMatch(/^[0-9a-f]{192}$/);
+    expect((await bls.sign('BLS签名', keys)).signature).toBe(signature.signature);
+
+    expect(await bls.verify('BLS签名', signature, keys)).toBe(true);
+    expect(await bls.verify('BLS签名', signature.signature, keys)).toBe(true);
+    expect(await bls.verify('篡改的消息', signature, keys)).toBe(false);
+    expect(await bls.verify('BLS签名', signature, await bls.generateKeys())).toBe(false);
+    expect(await bls.verify('BLS签名', 'c0' + '00'.repeat(95), keys)).toBe(false);
+    expect(await bls.verify('BLS签名', 'ab', keys)).toBe(false);
+  });
+
+  /**
+   * 测试与标准BLS实现的互通：BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_套件下的已知答案
+   * 公钥与签名和其他实现（如@noble/curves的bls12_381.sign）得到的结果逐字节相同
+   */
+  test('签名应该与标准套件的已知答案一致', async () => {
+    expect(BLS.DST).toBe('BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_');
+
+    const keys = bls.keysFromPrivateKey('263dbd792f5b1be47ed85f8938c0f29586af0d3ac7b977f21c278fe1462040e3');
+    expect(keys.publicKey.key).toBe(
+      'a491d1b0ecd9bb917989f0e74f0dea0422eac4a873e5e2644f368dffb9a6e20fd6e10c1b77654d067c0618f6e5a7f79a'
+    );
+
+    const signature = await bls.sign('abc', keys);
+    expect(signature.signature).toBe(
+      'ac9a8f6a3980f799f9b428f41e1864ca36bf424dec971842e3aafdbf0949b6fe73f49b2ca4b8f1e632d3007b0ed3fbbb' +
+      '06e0287656a3e57130865df5409ece5c251f92a3ca801a096c719b2fc9c9ccd2ab6c6292fee166e424ff5498d90126c9'
+    );
+    expect(await bls.verify('abc', signature, keys)).toBe(true);
+  });
+
+  /**
+   * 测试签名聚合
+   */
+  describe('聚合签名', () => {
+    let keys: KeyPair[];
+    let messages: string[];
+    let signatures: string[];
+
+    beforeAll(async () => {
+      keys = await Promise.all(Array.from({ length: 5 }, () => bls.generateKeys()));
+      messages = keys.map((_, i) => `验证者${i}的投票`);
+      signatures = await Promise.all(keys.map(async (k, i) => (await bls.sign(messages[i], k)).signature));
+    });
+
+    test('多个签名应该聚合为一个96字节签名并通过聚合验证', async () => {
+      const aggregate = bls.aggregate(signatures);
+      expect(aggregate).toMatch(/^[0-9a-f]{192}$/);
+      expect(await bls.verifyAggregate(messages, aggregate, keys)).toBe(true);
+
+      // 聚合与顺序无关
+      expect(bls.aggregate([...signatures].reverse())).toBe(aggregate);
+      expect(bls.aggregate([signatures[0]])).toBe(signatures[0]);
+    });
+
+    test('缺少、替换或重复的签名与消息应该使聚合验证失败', async () => {
+      const aggregate = bls.aggregate(signatures);
+      expect(await bls.verifyAggregate(messages, bls.aggregate(signatures.slice(1)), keys)).toBe(false);
+      expect(await bls.verifyAggregate(messages.slice(1), aggregate, keys.slice(1))).toBe(false);
+      expect(await bls.verifyAggregate([...messages.slice(0, 4), '伪造'], aggregate, keys)).toBe(false);
+      expect(await bls.verifyAggregate(messages, aggregate, [...keys.slice(1), keys[0]])).toBe(false);
+
+      // 基本方案拒绝重复消息
+      const duplicated = [messages[0], messages[0]];
+      const same = bls.aggregate([signatures[0], (await bls.sign(messages[0], keys[1])).signature]);
+      expect(await bls.verifyAggregate(duplicated, same, keys.slice(0, 2))).toBe(false);
+      expect(() => bls.aggregate([])).toThrow('至少需要一个签名');
+    });
+  });
+});
@@ -252,4 +252,24 @@ describe('DSA Algorithm', () => {
       console.info('无效签名分量验证测试通过✓');
     });
   });
-}); 
\ No newline at end of file
+
+  // 测试可配置的参数位长(L, N)
+  describe('参数位长', () => {
+    test('只给出L时应使用该L允许的最大N', async () => {
+      const smallDsa = new DSA();
+      const keys = await smallDsa.generateKeys({ keySize: 1024 });
+      expect(keys.publicKey.pBits).toBe(1024);
+      expect(keys.publicKey.qBits).toBe(160);
+      expect((keys.publicKey.p - 1n) % keys.publicKey.q).toBe(0n);
+
+      const message = 'DSA (1024, 160)';
+      const signature = await smallDsa.sign(message, keys);
+      expect(await smallDsa.verify(message, signature, keys)).toBe(true);
+    }, 60000);
+
+    test('应拒绝FIPS 186-4不允许的(L, N)组合', async () => {
+      await expect(new DSA().generateKeys({ keySize: 1024, subgroupSize: 256 })).rejects.toThrow('不支持的DSA参数');
+      await expect(new DSA().generateKeys({ keySize: 4096 })).rejects.toThrow('不支持的DSA参数');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { getDiffieHellman } from 'crypto';
+import { DiffieHellman } from '../DiffieHellman';
+import { KeyPair } from '../types';
+
+/**
+ * DiffieHellman 类测试
+ */
+describe('DiffieHellman', () => {
+  let dh: DiffieHellman;
+  let alice: KeyPair;
+  let bob: KeyPair;
+
+  beforeAll(async () => {
+    dh = new DiffieHellman();
+    alice = await dh.generateKeys({ keySize: 1536 });
+    bob = await dh.generateKeys({ keySize: 1536 });
+  });
+
+  /**
+   * 测试双方计算出相同的共享秘密
+   */
+  test('双方应该得到相同的共享秘密', async () => {
+    const aliceSecret = await dh.computeSharedSecret(alice.privateKey, bob.publicKey);
+    const bobSecret = await dh.computeSharedSecret(bob.privateKey, alice.publicKey);
+
+    expect(aliceSecret).toBe(bobSecret);
+    // 按1536位p定长编码为192字节
+    expect(aliceSecret).toHaveLength(384);
+  });
+
+  /**
+   * 测试中间人替换公钥后双方的秘密不同
+   */
+  test('公钥被替换后双方的共享秘密应该不同', async () => {
+    const mallory = await dh.generateKeys({ keySize: 1536 });
+
+    const aliceSecret = await dh.computeSharedSecret(alice.privateKey, mallory.publicKey);
+    const bobSecret = await dh.computeSharedSecret(bob.privateKey, mallory.publicKey);
+
+    expect(aliceSecret).not.toBe(bobSecret);
+    expect(await dh.computeSharedSecret(mallory.privateKey, alice.publicKey)).toBe(aliceSecret);
+    expect(await dh.computeSharedSecret(mallory.privateKey, bob.publicKey)).toBe(bobSecret);
+  });
+
+  /**
+   * 与Node.js内置的RFC 3526 group 5 (modp5) 互通
+   */
+  test('应该与Node.js crypto的modp5群互通', async () => {
+    const node = getDiffieHellman('modp5');
+    node.generateKeys();
+
+    const p = BigInt(`0x${node.getPrime('hex')}`);
+    expect(p.toString()).toBe(alice.publicKey.p);
+
+    const nodePublicKey = { y: BigInt(`0x${node.getPublicKey('hex')}`).toString(), g: '2', p: p.toString() };
+    const ourSecret = await dh.computeSharedSecret(alice.privateKey, nodePublicKey);
+
+    const aliceY = BigInt(alice.publicKey.y).toString(16).padStart(384, '0');
+    const nodeSecret = node.computeSecret(Buffer.from(aliceY, 'hex')).toString('hex');
+    expect(BigInt(`0x${ourSecret}`)).toBe(BigInt(`0x${nodeSecret}`));
+  });
+
+  /**
+   * 测试拒绝无效公钥与不同的群
+   */
+  test('应该拒绝无效的对方公钥', async () => {
+    const p = BigInt(alice.publicKey.p);
+
+    for (const y of [0n, 1n, p - 1n, p]) {
+      await expect(dh.computeSharedSecret(alice.privateKey, { ...bob.publicKey, y: y.toString() }))
+        .rejects.toThrow('无效的DH公钥');
+    }
+
+    const other = await dh.generateKeys({ keySize: 2048 });
+    await expect(dh.computeSharedSecret(alice.privateKey, other.publicKey)).rejects.toThrow('群参数不一致');
+  });
+});
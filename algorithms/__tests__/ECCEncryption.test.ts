@@ -0,0 +1,129 @@
+import { createDecipheriv, createECDH, generateKeyPairSync } from 'crypto';
+import { ECCEncryption } from '../ECCEncryption';
+import { EncryptionResult, IntegrityError, KeyPair } from '../encryption-types';
+import { x963Kdf } from '../hash';
+
+/**
+ * ECCEncryption (ECIES) 类测试
+ */
+describe('ECCEncryption', () => {
+  let ecc: ECCEncryption;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    ecc = new ECCEncryption();
+    keyPair = await ecc.generateKeys();
+  });
+
+  /**
+   * 测试加密解密往返
+   */
+  test('应该正确加密和解密消息', async () => {
+    const message = '椭圆曲线集成加密方案 ECIES';
+    const result = await ecc.encrypt(message, keyPair.publicKey);
+
+    expect(result.ephemeralKey).toBeDefined();
+    expect(result.iv).toHaveLength(32);
+
+    const decrypted = await ecc.decrypt(result, keyPair.privateKey);
+    expect(decrypted).toBe(message);
+  });
+
+  /**
+   * 测试元数据报告真实的对称加密算法
+   */
+  test('应该使用AES-256-CBC作为数据封装算法', async () => {
+    const result = await ecc.encrypt('Hello, AES!', keyPair.publicKey);
+
+    expect(result.metadata?.cipher).toBe('AES-256-CBC');
+
+    // CBC + PKCS#7：密文长度为16字节的整数倍
+    const ciphertextBytes = Buffer.from(result.ciphertext, 'base64');
+    expect(ciphertextBytes.length % 16).toBe(0);
+  });
+
+  /**
+   * 测试SEC 1 ECIES的密钥派生与认证标签
+   */
+  test('应该附带HMAC认证标签并报告KDF', async () => {
+    const result = await ecc.encrypt('Hello, ECIES!', keyPair.publicKey);
+
+    // HMAC-SHA256标签为32字节
+    expect(result.tag).toHaveLength(64);
+    expect(result.metadata?.kdf).toBe('ANSI-X9.63-KDF(SHA-256)');
+    expect(result.metadata?.mac).toBe('HMAC-SHA256');
+  });
+
+  /**
+   * 篡改密文、IV或标签都应被检测到
+   */
+  test('篡改后的密文应抛出完整性错误', async () => {
+    const result = await ecc.encrypt('转账100元给Bob', keyPair.publicKey);
+
+    // 翻转密文第一个字节的最低位
+    const ciphertextBytes = Buffer.from(result.ciphertext, 'base64');
+    ciphertextBytes[0] ^= 0x01;
+    const tamperedCiphertext: EncryptionResult = { ...result, ciphertext: ciphertextBytes.toString('base64') };
+
+    // 修改IV（CBC下可定向改变第一个明文分组）
+    const ivBytes = Buffer.from(result.iv!, 'hex');
+    ivBytes[0] ^= 0x01;
+    const tamperedIv: EncryptionResult = { ...result, iv: ivBytes.toString('hex') };
+
+    // 修改标签
+    const tamperedTag: EncryptionResult = {
+      ...result,
+      tag: (result.tag![0] === '0' ? '1' : '0') + result.tag!.substring(1)
+    };
+
+    for (const tampered of [tamperedCiphertext, tamperedIv, tamperedTag]) {
+      await expect(ecc.decrypt(tampered, keyPair.privateKey)).rejects.toBeInstanceOf(IntegrityError);
+    }
+
+    // 未被篡改的密文仍可正常解密
+    expect(await ecc.decrypt(result, keyPair.privateKey)).toBe('转账100元给Bob');
+  });
+
+  /**
+   * 使用错误私钥派生出的MAC密钥不同，同样无法通过校验
+   */
+  test('使用错误的私钥解密应失败', async () => {
+    const result = await ecc.encrypt('secret', keyPair.publicKey);
+    const otherKeys = await ecc.generateKeys();
+
+    await expect(ecc.decrypt(result, otherKeys.privateKey)).rejects.toBeInstanceOf(IntegrityError);
+  });
+
+  /**
+   * 各命名曲线上的ECIES：用Node的ECDH与AES独立计算共享秘密并解密
+   */
+  test.each([
+    ['secp256k1', 'secp256k1'],
+    ['P-256', 'prime256v1'],
+    ['P-384', 'secp384r1'],
+    ['P-521', 'secp521r1']
+  ])('应该支持%s曲线并与Node的ECDH互通', async (curve, namedCurve) => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve });
+    const keys = ecc.importPem(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+    expect(keys.publicKey.curve).toBe(curve);
+
+    const message = `ECIES over ${curve}`;
+    const result = await ecc.encrypt(message, keys.publicKey);
+    expect(result.metadata?.curve).toBe(curve);
+    expect(await ecc.decrypt(result, keys.privateKey)).toBe(message);
+
+    // Z = 共享点的x坐标，经X9.63 KDF派生AES-256密钥
+    const ecdh = createECDH(namedCurve);
+    ecdh.setPrivateKey(Buffer.from(keys.privateKey.key, 'hex'));
+    const z = ecdh.computeSecret(Buffer.from(result.ephemeralKey!, 'hex'));
+    const encKey = x963Kdf('SHA-256', z, 64).slice(0, 32);
+    const decipher = createDecipheriv('aes-256-cbc', encKey, Buffer.from(result.iv!, 'hex'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(result.ciphertext, 'base64')), decipher.final()]);
+    expect(plaintext.toString('utf8')).toBe(message);
+
+    // 生成指定曲线的密钥
+    const generated = await ecc.generateKeys({ curve });
+    expect(generated.keySize).toBe(keys.keySize);
+    expect(await ecc.decrypt(await ecc.encrypt(message, generated.publicKey), generated.privateKey)).toBe(message);
+  }, 60000);
+});
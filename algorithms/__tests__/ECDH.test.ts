@@ -0,0 +1,81 @@
+import { createECDH } from 'crypto';
+import { ECDH } from '../ECDH';
+import { KeyPair } from '../types';
+
+// Node.js中的曲线名称
+const NODE_CURVE_NAMES: Record<string, string> = {
+  secp256k1: 'secp256k1',
+  'P-256': 'prime256v1',
+  'P-384': 'secp384r1'
+};
+
+/**
+ * ECDH 类测试
+ */
+describe('ECDH', () => {
+  let ecdh: ECDH;
+  let alice: KeyPair;
+  let bob: KeyPair;
+
+  beforeAll(async () => {
+    ecdh = new ECDH();
+    alice = await ecdh.generateKeys();
+    bob = await ecdh.generateKeys();
+  });
+
+  /**
+   * 测试双方计算出相同的共享秘密
+   */
+  test('双方应该得到相同的共享秘密', async () => {
+    const aliceSecret = await ecdh.computeSharedSecret(alice.privateKey, bob.publicKey);
+    const bobSecret = await ecdh.computeSharedSecret(bob.privateKey, alice.publicKey);
+
+    expect(aliceSecret).toBe(bobSecret);
+    expect(aliceSecret).toHaveLength(64);
+  });
+
+  /**
+   * 测试中间人替换公钥后双方的秘密不同
+   */
+  test('公钥被替换后双方的共享秘密应该不同', async () => {
+    const mallory = await ecdh.generateKeys();
+
+    const aliceSecret = await ecdh.computeSharedSecret(alice.privateKey, mallory.publicKey);
+    const bobSecret = await ecdh.computeSharedSecret(bob.privateKey, mallory.publicKey);
+
+    expect(aliceSecret).not.toBe(bobSecret);
+    expect(await ecdh.computeSharedSecret(mallory.privateKey, alice.publicKey)).toBe(aliceSecret);
+  });
+
+  /**
+   * 与Node.js crypto的ECDH互通
+   */
+  test.each(Object.keys(NODE_CURVE_NAMES))('应该与Node.js crypto互通 (%s)', async (curve) => {
+    const ours = await ecdh.generateKeys({ curve });
+    const node = createECDH(NODE_CURVE_NAMES[curve]);
+    node.generateKeys();
+
+    const nodePublicKey = { key: node.getPublicKey('hex', 'compressed'), curve };
+    const ourSecret = await ecdh.computeSharedSecret(ours.privateKey, nodePublicKey);
+    const nodeSecret = node.computeSecret(Buffer.from(ours.publicKey.key, 'hex')).toString('hex');
+
+    expect(ourSecret).toBe(nodeSecret);
+  });
+
+  /**
+   * 测试拒绝不在曲线上的点与不同曲线的公钥
+   */
+  test('应该拒绝无效的对方公钥', async () => {
+    // 未压缩格式中修改y坐标，使点不在曲线上
+    const node = createECDH('secp256k1');
+    node.generateKeys();
+    const uncompressed = node.getPublicKey('hex', 'uncompressed');
+    const offCurve = uncompressed.slice(0, -1) + (uncompressed.endsWith('0') ? '1' : '0');
+
+    await expect(ecdh.computeSharedSecret(alice.privateKey, { key: offCurve, curve: 'secp256k1' }))
+      .rejects.toThrow();
+
+    const p256 = await ecdh.generateKeys({ curve: 'P-256' });
+    await expect(ecdh.computeSharedSecret(alice.privateKey, p256.publicKey)).rejects.toThrow('不在同一条曲线上');
+  });
+});
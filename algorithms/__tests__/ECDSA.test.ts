@@ -1,6 +1,17 @@
+import { createPublicKey, generateKeyPairSync, JsonWebKey, sign, verify } from 'crypto';
 import { ECDSA } from '../ECDSA';
+import { getCurve } from '../curves';
+import { Jwk } from '../jwk';
 import { KeyPair } from '../types';
 
+// Node/OpenSSL使用的曲线名称与签名哈希
+const NODE_CURVES = [
+  { curve: 'secp256k1', namedCurve: 'secp256k1', hash: 'sha256' },
+  { curve: 'P-256', namedCurve: 'prime256v1', hash: 'sha256' },
+  { curve: 'P-384', namedCurve: 'secp384r1', hash: 'sha384' },
+  { curve: 'P-521', namedCurve: 'secp521r1', hash: 'sha512' }
+];
+
 describe('ECDSA Algorithm', () => {
   let ecdsa: ECDSA;
   let keyPair: KeyPair;
@@ -250,4 +261,143 @@ describe('ECDSA Algorithm', () => {
       console.info('无效签名处理测试通过✓');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Named curves', () => {
+    // 每条曲线生成的签名都应能被OpenSSL验证，反之亦然
+    test.each(NODE_CURVES)('$curve should interoperate with Node', async ({ curve, namedCurve, hash }) => {
+      const keys = await ecdsa.generateKeys({ curve });
+      expect(keys.publicKey.curve).toBe(curve);
+      expect(keys.privateKey.curve).toBe(curve);
+
+      const message = `ECDSA over ${curve}`;
+      const signature = await ecdsa.sign(message, keys);
+      expect(signature.curve).toBe(curve);
+      expect(await ecdsa.verify(message, signature, keys)).toBe(true);
+
+      const nodePublicKey = createPublicKey({ key: ecdsa.exportJwk(keys).publicKey as JsonWebKey, format: 'jwk' });
+      expect(verify(hash, Buffer.from(message), nodePublicKey, Buffer.from(signature.signature, 'hex'))).toBe(true);
+
+      // Node生成的密钥与签名
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve });
+      const imported = ecdsa.importJwk(privateKey.export({ format: 'jwk' }) as Jwk);
+      expect(imported.publicKey.curve).toBe(curve);
+      const nodeSignature = sign(hash, Buffer.from(message), privateKey).toString('hex');
+      expect(await ecdsa.verify(message, { signature: nodeSignature }, imported)).toBe(true);
+    }, 60000);
+
+    // RFC 6979 附录A.2.5：P-256、SHA-256的确定性签名
+    test('should reproduce RFC 6979 A.2.5 signatures', async () => {
+      const keys = ecdsa.importJwk({
+        kty: 'EC',
+        crv: 'P-256',
+        x: Buffer.from('60FED4BA255A9D31C961EB74C6356D68C049B8923B61FA6CE669622E60F29FB6', 'hex').toString('base64url'),
+        y: Buffer.from('7903FE1008B8BC99A41AE9E95628BC64F2F1B20C2D7E9F5177A3C294D4462299', 'hex').toString('base64url'),
+        d: Buffer.from('C9AFA9D845BA75166B5C215767B1D6934E50C3DB36E89B127B8A622B120F6721', 'hex').toString('base64url')
+      });
+
+      const sample = await ecdsa.sign('sample', keys);
+      expect(sample.r).toBe('efd48b2aacb6a8fd1140dd9cd45e81d69d2c877b56aaf991c34d0ea84eaf3716');
+      expect(sample.s).toBe('f7cb1c942d657c41d436c7a1b6e29f65f3e900dbb9aff4064dc4ab2f843acda8');
+
+      const test = await ecdsa.sign('test', keys);
+      expect(test.r).toBe('f1abb023518351cd71d881567b1ea663ed3efcf6c5132b354f28d3b0b7d38367');
+      expect(test.s).toBe('019f4113742a2b14bd25926b49c649155f267e60d3814b4c0cc84250e46f0083');
+    });
+
+    // 签名与公钥的曲线不一致、公钥点不在曲线上时应被拒绝
+    test('should reject mismatched curves', async () => {
+      const p256Keys = await ecdsa.generateKeys({ curve: 'P-256' });
+      const signature = await ecdsa.sign('curve', keyPair);
+      expect(await ecdsa.verify('curve', signature, keyPair)).toBe(true);
+      expect(await ecdsa.verify('curve', signature, p256Keys)).toBe(false);
+
+      const publicJwk = ecdsa.exportJwk(keyPair).publicKey;
+      expect(() => ecdsa.importJwk({ ...publicJwk, crv: 'P-256' })).toThrow('公钥点不在曲线上');
+      await expect(ecdsa.generateKeys({ curve: 'P-192' })).rejects.toThrow('不支持的曲线');
+    });
+  });
+
+  describe('Public key recovery', () => {
+    // 每条曲线上都能由签名与恢复标识还原出签名者的公钥
+    test.each(NODE_CURVES)('$curve should recover the signer public key', async ({ curve }) => {
+      const keys = await ecdsa.generateKeys({ curve });
+
+      for (const message of ['恢复公钥', 'recover', '']) {
+        const signature = await ecdsa.sign(message, keys);
+        expect([0, 1, 2, 3]).toContain(signature.recoveryId);
+
+        const recovered = await ecdsa.recoverPublicKey(message, signature);
+        expect(recovered.publicKey).toEqual(keys.publicKey);
+        expect(recovered.privateKey).toBeNull();
+        expect(await ecdsa.verify(message, signature, recovered)).toBe(true);
+      }
+    }, 60000);
+
+    // RFC 6979 A.2.5的签名应恢复出对应的公钥
+    test('should recover the RFC 6979 A.2.5 public key', async () => {
+      const keys = ecdsa.importJwk({
+        kty: 'EC',
+        crv: 'P-256',
+        x: Buffer.from('60FED4BA255A9D31C961EB74C6356D68C049B8923B61FA6CE669622E60F29FB6', 'hex').toString('base64url'),
+        y: Buffer.from('7903FE1008B8BC99A41AE9E95628BC64F2F1B20C2D7E9F5177A3C294D4462299', 'hex').toString('base64url'),
+        d: Buffer.from('C9AFA9D845BA75166B5C215767B1D6934E50C3DB36E89B127B8A622B120F6721', 'hex').toString('base64url')
+      });
+
+      const signature = await ecdsa.sign('sample', keys);
+      const recovered = await ecdsa.recoverPublicKey('sample', signature);
+      expect(recovered.publicKey.x).toBe('60fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb6');
+      expect(recovered.publicKey.y).toBe('7903fe1008b8bc99a41ae9e95628bc64f2f1b20c2d7e9f5177a3c294d4462299');
+    });
+
+    // 错误的恢复标识或篡改的消息会得到另一个公钥
+    test('should recover a different key for a wrong recovery id or tampered message', async () => {
+      const signature = await ecdsa.sign('恢复公钥', keyPair);
+
+      const flipped = await ecdsa.recoverPublicKey('恢复公钥', { ...signature, recoveryId: signature.recoveryId! ^ 1 });
+      expect(flipped.publicKey.x).not.toBe(keyPair.publicKey.x);
+
+      const tampered = await ecdsa.recoverPublicKey('篡改的消息', signature);
+      expect(tampered.publicKey.x).not.toBe(keyPair.publicKey.x);
+    });
+
+    // secp256k1签名取low-s，翻转奇偶位后仍能恢复公钥，并可序列化为以太坊的65字节签名
+    test('should produce low-s secp256k1 signatures with a 65-byte encoding', async () => {
+      const n = getCurve('secp256k1').n;
+      for (let i = 0; i < 16; i++) {
+        const message = `low-s #${i}`;
+        const signature = await ecdsa.sign(message, keyPair);
+        expect(BigInt(`0x${signature.s}`) <= n / 2n).toBe(true);
+        expect(await ecdsa.recoverPublicKey(message, signature)).toMatchObject({ publicKey: keyPair.publicKey });
+
+        const serialized = ecdsa.serializeRecoverable(signature);
+        expect(serialized).toHaveLength(130);
+        expect(serialized).toBe(`${signature.r}${signature.s}${(27 + signature.recoveryId!).toString(16)}`);
+      }
+    });
+
+    // R.x ≥ n、high-s或非secp256k1的签名不能按以太坊格式编码
+    test('should refuse to serialize signatures Ethereum would reject', async () => {
+      const n = getCurve('secp256k1').n;
+      const signature = await ecdsa.sign('恢复公钥', keyPair);
+      const highS = (n - BigInt(`0x${signature.s}`)).toString(16).padStart(64, '0');
+
+      expect(() => ecdsa.serializeRecoverable({ ...signature, recoveryId: 2 })).toThrow('恢复标识0或1');
+      expect(() => ecdsa.serializeRecoverable({ ...signature, s: highS })).toThrow('low-s');
+
+      const p256Keys = await ecdsa.generateKeys({ curve: 'P-256' });
+      const p256Signature = await ecdsa.sign('恢复公钥', p256Keys);
+      expect(() => ecdsa.serializeRecoverable(p256Signature)).toThrow('secp256k1');
+    });
+
+    // 缺少或无效的恢复标识应被拒绝
+    test('should reject missing or invalid recovery ids', async () => {
+      const signature = await ecdsa.sign('恢复公钥', keyPair);
+      const { recoveryId, ...withoutId } = signature;
+      expect(recoveryId).toBeDefined();
+
+      await expect(ecdsa.recoverPublicKey('恢复公钥', withoutId)).rejects.toThrow('恢复标识');
+      await expect(ecdsa.recoverPublicKey('恢复公钥', { ...signature, recoveryId: 4 })).rejects.toThrow('恢复标识');
+      await expect(ecdsa.recoverPublicKey('恢复公钥', { ...signature, r: '00' })).rejects.toThrow('超出范围');
+    });
+  });
+});
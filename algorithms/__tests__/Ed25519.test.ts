@@ -0,0 +1,150 @@
+import { createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import { Ed25519 } from '../Ed25519';
+import { KeyPair } from '../types';
+
+// RFC 8032 7.1 中的Ed25519测试向量
+const RFC8032_VECTORS = [
+  {
+    name: 'TEST 1',
+    secretKey: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+    publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    message: '',
+    signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e06522490155' +
+      '5fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+  },
+  {
+    name: 'TEST 2',
+    secretKey: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+    publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+      '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+  },
+  {
+    name: 'TEST 3',
+    secretKey: 'c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7',
+    publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+    message: 'af82',
+    signature: '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac' +
+      '18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a'
+  },
+  {
+    name: 'TEST SHA(abc)',
+    secretKey: '833fe62409237b9d62ec77587520911e9a759cec1d19755b7da901b96dca3d42',
+    publicKey: 'ec172b93ad5e563bf4932c70e1245034c35467ef2efd4d64ebf819683467e2bf',
+    message: 'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a' +
+      '2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+    signature: 'dc2a4459e7369633a52b1bf277839a00201009a3efbf3ecb69bea2186c26b589' +
+      '09351fc9ac90b3ecfdfbc7c66431e0303dca179c138ac17ad9bef1177331a704'
+  }
+];
+
+// Ed25519的PKCS#8与SPKI前缀 (RFC 8410)，后接32字节原始密钥
+const PKCS8_PREFIX = '302e020100300506032b657004220420';
+const SPKI_PREFIX = '302a300506032b6570032100';
+
+describe('Ed25519 Algorithm', () => {
+  let ed25519: Ed25519;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    ed25519 = new Ed25519();
+    keyPair = await ed25519.generateKeys();
+  });
+
+  // 测试密钥格式：32字节种子与32字节压缩公钥
+  test('should generate 32-byte keys', () => {
+    expect(keyPair.privateKey.seed).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyPair.publicKey.A).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyPair.keySize).toBe(256);
+  });
+
+  // 测试签名与验证流程
+  test('should sign and verify a message', async () => {
+    const message = 'Hello, Ed25519!';
+    const signature = await ed25519.sign(message, keyPair);
+
+    expect(signature.signature).toHaveLength(128);
+    expect(signature.hash).toBe('SHA-512');
+    expect(await ed25519.verify(message, signature, keyPair)).toBe(true);
+    expect(await ed25519.verify(message, signature.signature, keyPair)).toBe(true);
+  });
+
+  // 测试签名是确定性的
+  test('should produce deterministic signatures', async () => {
+    const first = await ed25519.sign('确定性签名', keyPair);
+    const second = await ed25519.sign('确定性签名', keyPair);
+    expect(first.signature).toBe(second.signature);
+  });
+
+  // 测试篡改消息、签名或使用其他公钥时验证失败
+  test('should reject tampered messages, signatures and keys', async () => {
+    const message = 'Original message';
+    const signature = await ed25519.sign(message, keyPair);
+    const otherKeys = await ed25519.generateKeys();
+
+    expect(await ed25519.verify('Tampered message', signature, keyPair)).toBe(false);
+    expect(await ed25519.verify(message, signature, otherKeys)).toBe(false);
+
+    // 修改R或S中的一个字节
+    for (const index of [0, 40]) {
+      const bytes = Buffer.from(signature.signature, 'hex');
+      bytes[index] ^= 0x01;
+      expect(await ed25519.verify(message, bytes.toString('hex'), keyPair)).toBe(false);
+    }
+
+    // 长度错误或格式错误的签名
+    expect(await ed25519.verify(message, signature.signature.substring(2), keyPair)).toBe(false);
+    expect(await ed25519.verify(message, { signature: null }, keyPair)).toBe(false);
+  });
+
+  // 测试拒绝S ≥ L的可延展签名 (RFC 8032 5.1.7)
+  test('should reject non-canonical S', async () => {
+    const message = 'malleability';
+    const signature = await ed25519.sign(message, keyPair);
+    const L = (1n << 252n) + 27742317777372353535851937790883648493n;
+
+    // S + L与S模L同余，但编码不唯一，必须拒绝
+    const S = BigInt('0x' + Buffer.from(signature.s!, 'hex').reverse().toString('hex'));
+    const malleated = Buffer.from((S + L).toString(16).padStart(64, '0'), 'hex').reverse().toString('hex');
+    expect(await ed25519.verify(message, signature.r + malleated, keyPair)).toBe(false);
+  });
+
+  // 测试无效的私钥种子
+  test('should reject invalid seeds', () => {
+    expect(() => ed25519.keysFromSeed('abcd')).toThrow('Ed25519私钥长度应为32字节');
+  });
+
+  describe('RFC 8032 test vectors', () => {
+    test.each(RFC8032_VECTORS)('$name', async ({ secretKey, publicKey, message, signature }) => {
+      const keys = ed25519.keysFromSeed(secretKey);
+      expect(keys.publicKey.A).toBe(publicKey);
+
+      const messageBytes = Buffer.from(message, 'hex');
+      const result = await ed25519.signBytes(messageBytes, keys);
+      expect(result.signature).toBe(signature);
+      expect(await ed25519.verifyBytes(messageBytes, signature, { publicKey: { A: publicKey }, privateKey: null })).toBe(true);
+    });
+  });
+
+  // 与Node/OpenSSL的Ed25519实现互相验证
+  test('should interoperate with Node', async () => {
+    const message = 'Ed25519互操作测试';
+    const nodePrivateKey = createPrivateKey({
+      key: Buffer.from(PKCS8_PREFIX + keyPair.privateKey.seed, 'hex'),
+      format: 'der',
+      type: 'pkcs8'
+    });
+    const nodePublicKey = createPublicKey({
+      key: Buffer.from(SPKI_PREFIX + keyPair.publicKey.A, 'hex'),
+      format: 'der',
+      type: 'spki'
+    });
+
+    const signature = await ed25519.sign(message, keyPair);
+    expect(verify(null, Buffer.from(message), nodePublicKey, Buffer.from(signature.signature, 'hex'))).toBe(true);
+
+    const nodeSignature = sign(null, Buffer.from(message), nodePrivateKey);
+    expect(nodeSignature.toString('hex')).toBe(signature.signature);
+  });
+});
@@ -0,0 +1,102 @@
+import { ElGamalEncryption } from '../ElGamalEncryption';
+import { KeyPair } from '../encryption-types';
+
+/**
+ * ElGamalEncryption 类测试
+ */
+describe('ElGamalEncryption', () => {
+  let elgamal: ElGamalEncryption;
+
+  beforeEach(() => {
+    elgamal = new ElGamalEncryption();
+  });
+
+  /**
+   * 测试按keySize选择RFC 3526中的MODP群
+   */
+  test.each([1536, 2048, 3072])('应该使用%i位MODP群生成密钥', async (keySize) => {
+    const keyPair = await elgamal.generateKeys({ keySize });
+    expect(keyPair.keySize).toBe(keySize);
+    expect(BigInt(keyPair.publicKey.p).toString(2)).toHaveLength(keySize);
+
+    const message = `ElGamal ${keySize}`;
+    const encryptionResult = await elgamal.encrypt(message, keyPair.publicKey);
+    expect(await elgamal.decrypt(encryptionResult, keyPair.privateKey)).toBe(message);
+  }, 60000);
+
+  test('应该拒绝不支持的群大小', async () => {
+    await expect(elgamal.generateKeys({ keySize: 1024 })).rejects.toThrow('不支持的ElGamal群大小');
+  });
+
+  /**
+   * 测试同态运算与重新随机化
+   */
+  describe('同态运算', () => {
+    let keyPair: KeyPair;
+
+    beforeAll(async () => {
+      keyPair = await new ElGamalEncryption().generateKeys({ keySize: 1536 });
+    });
+
+    test('密文逐分量相乘应该得到明文之积', async () => {
+      const p = BigInt(keyPair.publicKey.p);
+      const a = await elgamal.encrypt('\x06', keyPair.publicKey);
+      const b = await elgamal.encrypt('\x07', keyPair.publicKey);
+      const product = elgamal.multiply(a, b, keyPair.publicKey);
+      expect(await elgamal.decrypt(product, keyPair.privateKey)).toBe('*');
+
+      // 明文之积按模p计算
+      const { c1, c2 } = JSON.parse(product.ciphertext);
+      expect(BigInt(c1)).toBeLessThan(p);
+      expect(BigInt(c2)).toBeLessThan(p);
+    });
+
+    test('指数ElGamal密文相乘应该得到明文之和', () => {
+      const a = elgamal.encryptExponent(1234n, keyPair.publicKey);
+      const b = elgamal.encryptExponent(4321n, keyPair.publicKey);
+      expect(elgamal.decryptExponent(a, keyPair.privateKey)).toBe(1234n);
+      expect(elgamal.decryptExponent(elgamal.add(a, b, keyPair.publicKey), keyPair.privateKey)).toBe(5555n);
+      expect(elgamal.decryptExponent(elgamal.encryptExponent(0n, keyPair.publicKey), keyPair.privateKey)).toBe(0n);
+    });
+
+    test('指数ElGamal明文超出上限时应该抛出错误', () => {
+      const ciphertext = elgamal.encryptExponent(101n, keyPair.publicKey);
+      expect(elgamal.decryptExponent(ciphertext, keyPair.privateKey, 101)).toBe(101n);
+      expect(() => elgamal.decryptExponent(ciphertext, keyPair.privateKey, 100)).toThrow('不在[0, 100]范围内');
+    });
+
+    test('同态加法应该拒绝普通ElGamal密文', async () => {
+      const plain = await elgamal.encrypt('a', keyPair.publicKey);
+      const exponential = elgamal.encryptExponent(1n, keyPair.publicKey);
+      expect(() => elgamal.add(plain, exponential, keyPair.publicKey)).toThrow('指数ElGamal');
+    });
+
+    test('同态乘法应该拒绝指数ElGamal密文与混合输入', async () => {
+      const plain = await elgamal.encrypt('a', keyPair.publicKey);
+      const exponential = elgamal.encryptExponent(1n, keyPair.publicKey);
+      expect(() => elgamal.multiply(exponential, exponential, keyPair.publicKey)).toThrow('普通ElGamal');
+      expect(() => elgamal.multiply(plain, exponential, keyPair.publicKey)).toThrow('普通ElGamal');
+      expect(() => elgamal.multiply(exponential, plain, keyPair.publicKey)).toThrow('普通ElGamal');
+    });
+
+    test('重新随机化后的密文应该不同但解密结果相同', async () => {
+      const original = await elgamal.encrypt('重新随机化', keyPair.publicKey);
+      const rerandomized = elgamal.rerandomize(original, keyPair.publicKey);
+      const before = JSON.parse(original.ciphertext);
+      const after = JSON.parse(rerandomized.ciphertext);
+      expect(after.c1).not.toBe(before.c1);
+      expect(after.c2).not.toBe(before.c2);
+      expect(await elgamal.decrypt(rerandomized, keyPair.privateKey)).toBe('重新随机化');
+
+      const exponential = elgamal.rerandomize(elgamal.encryptExponent(42n, keyPair.publicKey), keyPair.publicKey);
+      expect(exponential.metadata?.exponential).toBe(true);
+      expect(elgamal.decryptExponent(exponential, keyPair.privateKey)).toBe(42n);
+    });
+
+    test('分块密文不支持同态运算', async () => {
+      const blocked = await elgamal.encrypt('A'.repeat(500), keyPair.publicKey);
+      expect(blocked.metadata?.isBlocked).toBe(true);
+      expect(() => elgamal.rerandomize(blocked, keyPair.publicKey)).toThrow('分块');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { ElGamalSignature } from '../ElGamalSignature';
+import { ElGamalEncryption } from '../ElGamalEncryption';
+import { KeyPair } from '../types';
+
+// 独立实现的模幂，用于构造已知k的签名
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n;
+  base %= modulus;
+  for (; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+  }
+  return result;
+};
+
+/**
+ * ElGamalSignature 类测试
+ */
+describe('ElGamalSignature', () => {
+  let elgamal: ElGamalSignature;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    elgamal = new ElGamalSignature();
+    keyPair = await elgamal.generateKeys({ keySize: 1536 });
+  });
+
+  /**
+   * 测试签名与验证流程
+   */
+  test('应该能签名并验证消息', async () => {
+    const message = 'Hello, ElGamal signature!';
+    const signature = await elgamal.sign(message, keyPair);
+
+    expect(signature.pBits).toBe(1536);
+    expect(await elgamal.verify(message, signature, keyPair)).toBe(true);
+    expect(await elgamal.verify('Hello, ElGamal signature?', signature, keyPair)).toBe(false);
+  });
+
+  /**
+   * 测试随机数k：同一消息的两次签名不同
+   */
+  test('每次签名应使用新的随机数k', async () => {
+    const first = await elgamal.sign('随机数k', keyPair);
+    const second = await elgamal.sign('随机数k', keyPair);
+
+    expect(first.r).not.toBe(second.r);
+    expect(await elgamal.verify('随机数k', first, keyPair)).toBe(true);
+    expect(await elgamal.verify('随机数k', second, keyPair)).toBe(true);
+  });
+
+  /**
+   * 按定义构造签名：r = g^k mod p，s = k^(-1)(H - x·r) mod (p-1)
+   */
+  test('应该接受按定义构造的签名', async () => {
+    const message = '已知k的签名';
+    const p = BigInt(keyPair.publicKey.p);
+    const x = BigInt(keyPair.privateKey.x);
+    const H = BigInt('0x' + createHash('sha256').update(message).digest('hex')) % (p - 1n);
+
+    // k = 65537是奇数且小于q，与p-1 = 2q互素；用扩展欧几里得求k^(-1) mod (p-1)
+    const k = 65537n;
+    let [a, b, u, v] = [k, p - 1n, 1n, 0n];
+    while (b !== 0n) {
+      const q = a / b;
+      [a, b, u, v] = [b, a - q * b, v, u - q * v];
+    }
+    const kInv = ((u % (p - 1n)) + (p - 1n)) % (p - 1n);
+
+    const r = modPow(2n, k, p);
+    const s = ((((H - x * r) * kInv) % (p - 1n)) + (p - 1n)) % (p - 1n);
+    expect(await elgamal.verify(message, { r: r.toString(), s: s.toString() }, keyPair)).toBe(true);
+  });
+
+  /**
+   * 测试拒绝范围之外的r和s
+   */
+  test('应该拒绝超出范围的签名值', async () => {
+    const message = 'range';
+    const signature = await elgamal.sign(message, keyPair);
+    const p = BigInt(keyPair.publicKey.p);
+
+    expect(await elgamal.verify(message, { ...signature, r: '0' }, keyPair)).toBe(false);
+    expect(await elgamal.verify(message, { ...signature, r: (BigInt(signature.r!) + p).toString() }, keyPair)).toBe(false);
+    expect(await elgamal.verify(message, { ...signature, s: '0' }, keyPair)).toBe(false);
+    expect(await elgamal.verify(message, { ...signature, s: (p - 1n).toString() }, keyPair)).toBe(false);
+    expect(await elgamal.verify(message, { r: 'abc', s: '1' }, keyPair)).toBe(false);
+  });
+
+  /**
+   * 测试与ElGamal加密共用密钥格式
+   */
+  test('应该能使用ElGamal加密生成的密钥签名', async () => {
+    const encryptionKeys = await new ElGamalEncryption().generateKeys({ keySize: 1536 });
+    const signature = await elgamal.sign('共用密钥', encryptionKeys);
+    expect(await elgamal.verify('共用密钥', signature, encryptionKeys)).toBe(true);
+  });
+
+  test('应该拒绝不支持的群大小', async () => {
+    await expect(elgamal.generateKeys({ keySize: 1024 })).rejects.toThrow('不支持的ElGamal群大小');
+  });
+});
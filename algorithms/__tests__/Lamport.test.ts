@@ -0,0 +1,58 @@
+import { Lamport } from '../Lamport';
+import { KeyPair } from '../types';
+import { sha256 } from '../hash';
+
+describe('Lamport One-Time Signature', () => {
+  let lamport: Lamport;
+
+  beforeAll(() => {
+    lamport = new Lamport();
+  });
+
+  // 测试密钥与签名长度：公钥512个哈希值，签名256个原像
+  test('should generate keys and sign with the expected sizes', async () => {
+    const keys = await lamport.generateKeys();
+    expect(keys.publicKey.key).toHaveLength(512 * 64);
+    expect(keys.privateKey.used).toBe(false);
+
+    const signature = await lamport.sign('Hello, Lamport!', keys);
+    expect(signature.signature).toHaveLength(256 * 64);
+    expect(signature.hash).toBe('SHA-256');
+    expect(await lamport.verify('Hello, Lamport!', signature, keys)).toBe(true);
+    expect(await lamport.verify('Hello, Lamport!', signature.signature, keys)).toBe(true);
+  });
+
+  // 测试一次性密钥不能重复使用
+  test('should refuse to sign twice with the same key', async () => {
+    const keys = await lamport.generateKeys();
+    await lamport.sign('第一条消息', keys);
+    expect(keys.privateKey.used).toBe(true);
+    await expect(lamport.sign('第二条消息', keys)).rejects.toThrow('一次性密钥不能重复使用');
+  });
+
+  // 测试篡改消息、签名或使用其他公钥时验证失败
+  test('should reject tampered messages, signatures and wrong keys', async () => {
+    const keys: KeyPair = await lamport.generateKeys();
+    const otherKeys = await lamport.generateKeys();
+    const signature = await lamport.sign('原始消息', keys);
+    const tampered = (signature.signature[0] === '0' ? '1' : '0') + signature.signature.substring(1);
+
+    expect(await lamport.verify('篡改后的消息', signature, keys)).toBe(false);
+    expect(await lamport.verify('原始消息', tampered, keys)).toBe(false);
+    expect(await lamport.verify('原始消息', signature, otherKeys)).toBe(false);
+    expect(await lamport.verify('原始消息', signature.signature.substring(2), keys)).toBe(false);
+  });
+
+  // 测试签名公开的原像恰好对应公钥中由消息摘要各位选出的那一半
+  test('should reveal one preimage per digest bit', async () => {
+    const keys = await lamport.generateKeys();
+    const signature = await lamport.sign('逐位公开', keys);
+    const digest = Buffer.from(signature.messageHash!, 'hex');
+
+    for (const i of [0, 1, 7, 128, 255]) {
+      const bit = (digest[i >> 3] >> (7 - (i & 7))) & 1;
+      const revealed = Buffer.from(sha256(Buffer.from(signature.signature.substring(i * 64, (i + 1) * 64), 'hex'))).toString('hex');
+      expect(revealed).toBe(keys.publicKey.key.substring((i * 2 + bit) * 64, (i * 2 + bit + 1) * 64));
+    }
+  });
+});
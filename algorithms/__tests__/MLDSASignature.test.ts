@@ -0,0 +1,76 @@
+import { MLDSASignature } from '../MLDSASignature';
+import { KeyPair } from '../types';
+
+describe('ML-DSA Signature Algorithm', () => {
+  let mldsa: MLDSASignature;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    mldsa = new MLDSASignature();
+    keyPair = await mldsa.generateKeys();
+  });
+
+  // 测试默认参数集为ML-DSA-65，密钥长度符合FIPS 204
+  test('should generate ML-DSA-65 keys by default', () => {
+    expect(keyPair.parameterSet).toBe('ML-DSA-65');
+    expect(keyPair.keySize).toBeUndefined();
+    expect(keyPair.publicKey.parameterSet).toBe('ML-DSA-65');
+    expect(keyPair.publicKey.key).toHaveLength(1952 * 2);
+    expect(keyPair.privateKey.key).toHaveLength(4032 * 2);
+  });
+
+  // 测试签名与验证流程
+  test('should sign and verify a message', async () => {
+    const message = 'Hello, ML-DSA!';
+    const signature = await mldsa.sign(message, keyPair);
+
+    expect(signature.signature).toHaveLength(3309 * 2);
+    expect(signature.parameterSet).toBe('ML-DSA-65');
+    expect(signature.attempts?.length).toBeGreaterThan(0);
+    expect(await mldsa.verify(message, signature, keyPair)).toBe(true);
+    expect(await mldsa.verify(message, signature.signature, keyPair)).toBe(true);
+  });
+
+  // 测试对冲签名：同一消息的两次签名不同
+  test('should produce randomized signatures', async () => {
+    const first = await mldsa.sign('同一条消息', keyPair);
+    const second = await mldsa.sign('同一条消息', keyPair);
+    expect(first.signature).not.toBe(second.signature);
+  });
+
+  // 测试篡改消息、签名或使用其他公钥时验证失败
+  test('should reject tampered messages, signatures and wrong keys', async () => {
+    const message = '原始消息';
+    const signature = await mldsa.sign(message, keyPair);
+    const otherKeys = await mldsa.generateKeys();
+    const tampered = (signature.signature[0] === '0' ? '1' : '0') + signature.signature.substring(1);
+
+    expect(await mldsa.verify('篡改后的消息', signature, keyPair)).toBe(false);
+    expect(await mldsa.verify(message, tampered, keyPair)).toBe(false);
+    expect(await mldsa.verify(message, signature, otherKeys)).toBe(false);
+    expect(await mldsa.verify(message, 'not-hex', keyPair)).toBe(false);
+  });
+
+  // 测试消息代表μ随消息变化
+  test('should expose the message representative μ', async () => {
+    const signature = await mldsa.sign('消息', keyPair);
+    expect(signature.messageHash).toBe(mldsa.messageRepresentative('消息', keyPair));
+    expect(mldsa.messageRepresentative('消息!', keyPair)).not.toBe(signature.messageHash);
+  });
+
+  // 测试由种子构造密钥与其他参数集
+  test('should derive keys from a seed for every parameter set', async () => {
+    for (const parameterSet of ['ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87'] as const) {
+      const seed = '00'.repeat(32);
+      const keys = mldsa.keysFromSeed(seed, parameterSet);
+      expect(keys.publicKey.key).toBe(mldsa.keysFromSeed(seed, parameterSet).publicKey.key);
+      expect(keys.publicKey.key).toHaveLength(mldsa.getSizes(parameterSet).publicKey * 2);
+
+      const signature = await mldsa.sign('参数集', keys);
+      expect(signature.signature).toHaveLength(mldsa.getSizes(parameterSet).signature * 2);
+      expect(await mldsa.verify('参数集', signature, keys)).toBe(true);
+    }
+    expect(() => mldsa.keysFromSeed('00'.repeat(32), 'ML-DSA-128' as any)).toThrow('不支持的ML-DSA参数集');
+    await expect(mldsa.generateKeys({ parameterSet: 'ML-KEM-768' })).rejects.toThrow('不支持的ML-DSA参数集');
+  });
+});
@@ -0,0 +1,79 @@
+import { MLKEMEncryption } from '../MLKEMEncryption';
+import { EncryptionResult, IntegrityError, KeyPair } from '../encryption-types';
+
+/**
+ * MLKEMEncryption (ML-KEM + AES-256-GCM) 类测试
+ */
+describe('MLKEMEncryption', () => {
+  let mlkem: MLKEMEncryption;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    mlkem = new MLKEMEncryption();
+    keyPair = await mlkem.generateKeys();
+  });
+
+  /**
+   * 测试加密解密往返
+   */
+  test('应该正确加密和解密任意长度的消息', async () => {
+    for (const message of ['', '后量子密码 ML-KEM', 'A'.repeat(1000)]) {
+      const result = await mlkem.encrypt(message, keyPair.publicKey);
+      expect(await mlkem.decrypt(result, keyPair.privateKey)).toBe(message);
+    }
+  });
+
+  /**
+   * 测试默认参数集与密钥长度
+   */
+  test('默认应该使用ML-KEM-768', async () => {
+    expect(keyPair.publicKey.parameterSet).toBe('ML-KEM-768');
+    expect(keyPair.publicKey.key).toHaveLength(1184 * 2);
+
+    const result = await mlkem.encrypt('size', keyPair.publicKey);
+    expect(result.ephemeralKey).toHaveLength(1088 * 2);
+    expect(result.metadata?.cipher).toBe('AES-256-GCM');
+  });
+
+  test('应该支持ML-KEM-512', async () => {
+    const keys = await mlkem.generateKeys({ parameterSet: 'ML-KEM-512' });
+    expect(keys.parameterSet).toBe('ML-KEM-512');
+    expect(keys.keySize).toBeUndefined();
+    expect(keys.privateKey.key).toHaveLength(1632 * 2);
+    expect(mlkem.getSizes('ML-KEM-512').ciphertext).toBe(768);
+
+    const result = await mlkem.encrypt('ML-KEM-512', keys.publicKey);
+    expect(await mlkem.decrypt(result, keys.privateKey)).toBe('ML-KEM-512');
+  });
+
+  /**
+   * 测试篡改检测：消息密文与KEM密文被篡改都应抛出IntegrityError
+   */
+  test('密文被篡改时应该抛出IntegrityError', async () => {
+    const result = await mlkem.encrypt('tamper', keyPair.publicKey);
+
+    const bytes = Buffer.from(result.ciphertext, 'base64');
+    bytes[0] ^= 0x01;
+    const tamperedMessage: EncryptionResult = { ...result, ciphertext: bytes.toString('base64') };
+    await expect(mlkem.decrypt(tamperedMessage, keyPair.privateKey)).rejects.toBeInstanceOf(IntegrityError);
+
+    const kem = result.ephemeralKey as string;
+    const tamperedKem: EncryptionResult = { ...result, ephemeralKey: (kem[0] === '0' ? '1' : '0') + kem.substring(1) };
+    await expect(mlkem.decrypt(tamperedKem, keyPair.privateKey)).rejects.toBeInstanceOf(IntegrityError);
+  });
+
+  /**
+   * 测试格噪声分析
+   */
+  test('解密噪声应该远小于q/4', async () => {
+    const result = await mlkem.encrypt('noise', keyPair.publicKey);
+    const { coefficients, bits, noise, secret } = mlkem.analyzeNoise(result, keyPair.privateKey);
+
+    expect(coefficients).toHaveLength(256);
+    expect(bits.every(bit => bit === 0 || bit === 1)).toBe(true);
+    expect(Math.max(...noise.map(Math.abs))).toBeLessThan(3329 / 4);
+    // ML-KEM-768的私钥系数服从η1 = 2的中心二项分布
+    expect(secret).toHaveLength(3 * 256);
+    expect(secret.every(c => Math.abs(c) <= 2)).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { PaillierEncryption } from '../PaillierEncryption';
+import { KeyPair } from '../encryption-types';
+
+/**
+ * PaillierEncryption 类测试
+ */
+describe('PaillierEncryption', () => {
+  let paillier: PaillierEncryption;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    paillier = new PaillierEncryption();
+    keyPair = await paillier.generateKeys({ keySize: 1024 });
+  });
+
+  /**
+   * 测试密钥结构
+   */
+  test('应该生成指定位长的模数，且 g = n + 1', () => {
+    const n = BigInt(keyPair.publicKey.n);
+    expect(n.toString(2)).toHaveLength(1024);
+    expect(BigInt(keyPair.publicKey.g)).toBe(n + 1n);
+    expect(keyPair.privateKey.n).toBe(keyPair.publicKey.n);
+  });
+
+  /**
+   * 测试加密解密往返
+   */
+  test('应该正确加密和解密文本消息', async () => {
+    for (const message of ['', 'Paillier', '同态加密']) {
+      const result = await paillier.encrypt(message, keyPair.publicKey);
+      expect(await paillier.decrypt(result, keyPair.privateKey)).toBe(message);
+    }
+    await expect(paillier.encrypt('A'.repeat(200), keyPair.publicKey)).rejects.toThrow('消息太长');
+  });
+
+  /**
+   * 测试概率加密：同一明文的两次加密结果不同
+   */
+  test('同一明文的密文应该不同', () => {
+    const first = paillier.encryptNumber(42n, keyPair.publicKey);
+    const second = paillier.encryptNumber(42n, keyPair.publicKey);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(paillier.decryptNumber(first, keyPair.privateKey)).toBe(42n);
+    expect(paillier.decryptNumber(second, keyPair.privateKey)).toBe(42n);
+  });
+
+  /**
+   * 测试同态加法与数乘
+   */
+  test('密文相乘应该得到明文之和，密文求幂应该得到明文的倍数', () => {
+    const n = BigInt(keyPair.publicKey.n);
+    const a = paillier.encryptNumber(1234n, keyPair.publicKey);
+    const b = paillier.encryptNumber(5678n, keyPair.publicKey);
+
+    expect(paillier.decryptNumber(paillier.add(a, b, keyPair.publicKey), keyPair.privateKey)).toBe(6912n);
+    expect(paillier.decryptNumber(paillier.scalarMultiply(a, 3n, keyPair.publicKey), keyPair.privateKey)).toBe(3702n);
+    // 负系数按模n处理：E(m)^(-1) = E(n − m)，与E(m)相加得0
+    const negated = paillier.scalarMultiply(a, -1n, keyPair.publicKey);
+    expect(paillier.decryptNumber(negated, keyPair.privateKey)).toBe(n - 1234n);
+    expect(paillier.decryptNumber(paillier.add(a, negated, keyPair.publicKey), keyPair.privateKey)).toBe(0n);
+    // 和超过n时按模n回绕
+    const big = paillier.encryptNumber(n - 1n, keyPair.publicKey);
+    expect(paillier.decryptNumber(paillier.add(big, b, keyPair.publicKey), keyPair.privateKey)).toBe(5677n);
+  });
+
+  /**
+   * 测试加密计票：只解密最终的和
+   */
+  test('应该能在不解密单张选票的情况下统计票数', () => {
+    const votes = [1n, 0n, 1n, 1n, 0n, 1n, 0n];
+    const ballots = votes.map(vote => paillier.encryptNumber(vote, keyPair.publicKey));
+    const tally = ballots.reduce((sum, ballot) => paillier.add(sum, ballot, keyPair.publicKey));
+    expect(paillier.decryptNumber(tally, keyPair.privateKey)).toBe(4n);
+  });
+
+  /**
+   * 测试小参数下的教科书计算：p = 17，q = 19
+   */
+  test('小参数下应该满足 c = (1 + m·n)·r^n mod n²', () => {
+    const publicKey = { n: '323', g: '324' };
+    // λ = lcm(16, 18) = 144，μ = 144⁻¹ mod 323 = 83
+    const privateKey = { n: '323', lambda: '144', mu: '83' };
+    expect((144n * 83n) % 323n).toBe(1n);
+
+    for (let m = 0n; m < 323n; m += 37n) {
+      expect(paillier.decryptNumber(paillier.encryptNumber(m, publicKey), privateKey)).toBe(m);
+    }
+    expect(() => paillier.encryptNumber(323n, publicKey)).toThrow('[0, n)');
+  });
+
+  /**
+   * 测试参数校验
+   */
+  test('应该拒绝不支持的密钥长度', async () => {
+    await expect(paillier.generateKeys({ keySize: 512 })).rejects.toThrow('不支持的密钥长度');
+  });
+});
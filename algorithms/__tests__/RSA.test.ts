@@ -1,3 +1,4 @@
+import { constants, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
 import { RSA } from '../RSA';
 import { KeyPair } from '../types';
 
@@ -193,4 +194,250 @@ describe('RSA Algorithm', () => {
       console.info('RSA-PSS签名验证功能已成功实现并通过测试');
     });
   });
-}); 
\ No newline at end of file
+
+  // 无状态验证与互操作性测试（RFC 8017 RSASSA-PSS）
+  describe('Stateless PSS Verification', () => {
+    const base64UrlToBigInt = (value: string) => BigInt('0x' + Buffer.from(value, 'base64url').toString('hex'));
+    const bigIntToBuffer = (value: bigint, length: number) => Buffer.from(value.toString(16).padStart(length * 2, '0'), 'hex');
+
+    // 由Node生成的2048位密钥，转换为本仓库的密钥格式
+    const nodeKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = nodeKeys.privateKey.export({ format: 'jwk' });
+    const nodeKeyPair: KeyPair = {
+      publicKey: { e: base64UrlToBigInt(jwk.e!).toString(), n: base64UrlToBigInt(jwk.n!).toString() },
+      privateKey: { d: base64UrlToBigInt(jwk.d!).toString(), n: base64UrlToBigInt(jwk.n!).toString() }
+    };
+
+    // 一个实例生成的签名应能在另一个实例上验证，且只需要签名值
+    test('signature from one instance verifies on another', async () => {
+      const message = "Cross-instance signature";
+      const signature = await rsa.sign(message, keyPair);
+
+      const other = new RSA();
+      expect(await other.verify(message, { signature: signature.signature }, keyPair)).toBe(true);
+      expect(await other.verify(message + "!", { signature: signature.signature }, keyPair)).toBe(false);
+    });
+
+    // 附带的盐和哈希只用于展示，伪造它们不能让篡改的消息通过验证
+    test('metadata cannot make a forged signature verify', async () => {
+      const signature = await rsa.sign("pay Alice 10", keyPair);
+      const forged = await rsa.sign("pay Mallory 1000", keyPair);
+
+      const mixed = { ...forged, signature: signature.signature };
+      expect(await rsa.verify("pay Mallory 1000", mixed, keyPair)).toBe(false);
+    });
+
+    // Node (OpenSSL) 生成的PSS签名应能通过验证，盐长度由编码消息恢复
+    test.each([32, 20, 0])('verifies OpenSSL RSA-PSS signatures with %i-byte salt', async (saltLength) => {
+      const message = "Interoperable RSA-PSS";
+      const sigBytes = sign('sha256', Buffer.from(message), {
+        key: nodeKeys.privateKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength
+      });
+      const signature = { signature: BigInt('0x' + sigBytes.toString('hex')).toString() };
+
+      expect(await rsa.verify(message, signature, nodeKeyPair)).toBe(true);
+      expect(await rsa.verify("Tampered message", signature, nodeKeyPair)).toBe(false);
+    });
+
+    // 本实现生成的签名应能被Node (OpenSSL) 验证
+    test('signatures verify with OpenSSL', async () => {
+      const message = "Signed here, verified by OpenSSL";
+      const signature = await rsa.sign(message, nodeKeyPair);
+
+      const valid = verify('sha256', Buffer.from(message), {
+        key: createPublicKey(createPrivateKey({ key: jwk, format: 'jwk' })),
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: 32
+      }, bigIntToBuffer(BigInt(signature.signature), 256));
+      expect(valid).toBe(true);
+    });
+  });
+
+  // 中国剩余定理(CRT)与多素数RSA测试 (RFC 8017 3.2, 5.2.1)
+  describe('CRT and Multi-prime Keys', () => {
+    const bigIntToBase64Url = (value: bigint) => {
+      const hex = value.toString(16);
+      return Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex').toString('base64url');
+    };
+
+    // 私钥应包含CRT参数，且满足 dp = d mod (p-1)、q * qInv ≡ 1 (mod p)
+    test('private key should include valid CRT parameters', () => {
+      const { d, n, p, q, dp, dq, qInv } = keyPair.privateKey;
+      expect(BigInt(p) * BigInt(q)).toBe(BigInt(n));
+      expect(BigInt(dp)).toBe(BigInt(d) % (BigInt(p) - 1n));
+      expect(BigInt(dq)).toBe(BigInt(d) % (BigInt(q) - 1n));
+      expect((BigInt(q) * BigInt(qInv)) % BigInt(p)).toBe(1n);
+    });
+
+    // CRT签名与直接模幂签名都应通过验证，只有(n, d)的私钥也能签名
+    test('CRT and non-CRT signing should both verify', async () => {
+      const message = "CRT signing";
+      const crtSignature = await rsa.sign(message, keyPair);
+
+      const plain = new RSA();
+      plain.useCRT = false;
+      const plainSignature = await plain.sign(message, keyPair);
+
+      const minimalKeys: KeyPair = {
+        publicKey: keyPair.publicKey,
+        privateKey: { d: keyPair.privateKey.d, n: keyPair.privateKey.n }
+      };
+      const minimalSignature = await rsa.sign(message, minimalKeys);
+
+      for (const signature of [crtSignature, plainSignature, minimalSignature]) {
+        expect(await rsa.verify(message, signature, keyPair)).toBe(true);
+      }
+    });
+
+    // 3素数和4素数密钥的签名应能被本实现和OpenSSL验证
+    test.each([3, 4])('%i-prime keys should sign and verify', async (primes) => {
+      const multiPrimeKeys = await rsa.generateKeys({ primes });
+      const n = BigInt(multiPrimeKeys.publicKey.n);
+
+      expect(multiPrimeKeys.primes).toBe(primes);
+      expect(multiPrimeKeys.privateKey.otherPrimes).toHaveLength(primes - 2);
+
+      // 所有素数之积等于n
+      const product = multiPrimeKeys.privateKey.otherPrimes.reduce(
+        (acc: bigint, info: { r: string }) => acc * BigInt(info.r),
+        BigInt(multiPrimeKeys.privateKey.p) * BigInt(multiPrimeKeys.privateKey.q)
+      );
+      expect(product).toBe(n);
+
+      const message = `Multi-prime RSA with ${primes} primes`;
+      const signature = await rsa.sign(message, multiPrimeKeys);
+      expect(await rsa.verify(message, signature, multiPrimeKeys)).toBe(true);
+
+      // 验证方只需要(n, e)，与素数个数无关
+      const valid = verify('sha256', Buffer.from(message), {
+        key: createPublicKey({
+          key: { kty: 'RSA', n: bigIntToBase64Url(n), e: bigIntToBase64Url(BigInt(multiPrimeKeys.publicKey.e)) },
+          format: 'jwk'
+        }),
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: 32
+      }, Buffer.from(BigInt(signature.signature).toString(16).padStart(512, '0'), 'hex'));
+      expect(valid).toBe(true);
+    }, 60000);
+
+    // 不支持的素数个数应被拒绝
+    test('should reject unsupported prime counts', async () => {
+      await expect(rsa.generateKeys({ primes: 5 })).rejects.toThrow('不支持的素数个数');
+      await expect(rsa.generateKeys({ primes: 1 })).rejects.toThrow('不支持的素数个数');
+    });
+  });
+
+  // RSA盲签名测试 (RFC 9474)
+  describe('Blind Signatures (RFC 9474)', () => {
+    const bigIntToBase64Url = (value: bigint) => {
+      const hex = value.toString(16);
+      return Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex').toString('base64url');
+    };
+
+    // 盲化、盲签名、去盲后得到的签名应能验证，且签名者从未见过该签名
+    test.each([
+      'RSABSSA-SHA384-PSS-Randomized',
+      'RSABSSA-SHA384-PSSZERO-Randomized',
+      'RSABSSA-SHA384-PSS-Deterministic',
+      'RSABSSA-SHA384-PSSZERO-Deterministic'
+    ] as const)('%s should blind, sign, finalize and verify', (variant) => {
+      const message = "Blind coin #1";
+      const blinding = rsa.blind(message, keyPair.publicKey, variant);
+      expect(blinding.messagePrefix).toHaveLength(variant.endsWith('Randomized') ? 64 : 0);
+
+      const blindSignature = rsa.blindSign(blinding.blindedMessage, keyPair);
+      const signature = rsa.finalize(message, blindSignature, blinding, keyPair.publicKey);
+
+      expect(signature).not.toBe(blindSignature);
+      expect(rsa.verifyBlind(message, signature, blinding.messagePrefix, keyPair.publicKey, variant)).toBe(true);
+      expect(rsa.verifyBlind("Blind coin #2", signature, blinding.messagePrefix, keyPair.publicKey, variant)).toBe(false);
+    });
+
+    // 验证须使用变体约定的盐长度：48字节盐的PSS签名不能按PSSZERO验证，反之亦然
+    test.each([
+      ['RSABSSA-SHA384-PSS-Deterministic', 'RSABSSA-SHA384-PSSZERO-Deterministic'],
+      ['RSABSSA-SHA384-PSSZERO-Deterministic', 'RSABSSA-SHA384-PSS-Deterministic'],
+      ['RSABSSA-SHA384-PSS-Randomized', 'RSABSSA-SHA384-PSSZERO-Randomized'],
+      ['RSABSSA-SHA384-PSSZERO-Randomized', 'RSABSSA-SHA384-PSS-Randomized']
+    ] as const)('%s signatures should not verify as %s', (signedAs, verifiedAs) => {
+      const message = "Salt length";
+      const blinding = rsa.blind(message, keyPair.publicKey, signedAs);
+      const signature = rsa.finalize(message, rsa.blindSign(blinding.blindedMessage, keyPair), blinding, keyPair.publicKey);
+
+      expect(rsa.verifyBlind(message, signature, blinding.messagePrefix, keyPair.publicKey, signedAs)).toBe(true);
+      expect(rsa.verifyBlind(message, signature, blinding.messagePrefix, keyPair.publicKey, verifiedAs)).toBe(false);
+    });
+
+    // 同一消息两次盲化得到的盲化消息互不相关
+    test('blinded messages should be unlinkable', () => {
+      const message = "Same coin";
+      const first = rsa.blind(message, keyPair.publicKey, 'RSABSSA-SHA384-PSSZERO-Deterministic');
+      const second = rsa.blind(message, keyPair.publicKey, 'RSABSSA-SHA384-PSSZERO-Deterministic');
+
+      // 确定性、无盐时编码消息相同，盲化因子不同使盲化消息不同
+      expect(first.encodedMessage).toBe(second.encodedMessage);
+      expect(first.blindedMessage).not.toBe(second.blindedMessage);
+
+      // 两次去盲得到相同的确定性签名
+      const firstSignature = rsa.finalize(message, rsa.blindSign(first.blindedMessage, keyPair), first, keyPair.publicKey);
+      const secondSignature = rsa.finalize(message, rsa.blindSign(second.blindedMessage, keyPair), second, keyPair.publicKey);
+      expect(firstSignature).toBe(secondSignature);
+    });
+
+    // 去盲后的签名是对 prefix || message 的标准RSASSA-PSS (SHA-384) 签名，OpenSSL可以验证
+    test.each([[48, 'RSABSSA-SHA384-PSS-Randomized'], [0, 'RSABSSA-SHA384-PSSZERO-Deterministic']] as const)(
+      'finalized signatures with %i-byte salt verify with OpenSSL',
+      (saltLength, variant) => {
+        const message = "Verified by OpenSSL";
+        const blinding = rsa.blind(message, keyPair.publicKey, variant);
+        const signature = rsa.finalize(message, rsa.blindSign(blinding.blindedMessage, keyPair), blinding, keyPair.publicKey);
+
+        const valid = verify('sha384', Buffer.concat([Buffer.from(blinding.messagePrefix, 'hex'), Buffer.from(message)]), {
+          key: createPublicKey({
+            key: {
+              kty: 'RSA',
+              n: bigIntToBase64Url(BigInt(keyPair.publicKey.n)),
+              e: bigIntToBase64Url(BigInt(keyPair.publicKey.e))
+            },
+            format: 'jwk'
+          }),
+          padding: constants.RSA_PKCS1_PSS_PADDING,
+          saltLength
+        }, Buffer.from(signature, 'hex'));
+        expect(valid).toBe(true);
+      }
+    );
+
+    // 用错误的盲化因子或被篡改的盲签名去盲应失败
+    test('finalize should reject invalid blind signatures', () => {
+      const message = "Tampered";
+      const blinding = rsa.blind(message, keyPair.publicKey);
+      const blindSignature = rsa.blindSign(blinding.blindedMessage, keyPair);
+
+      const wrongInv = { ...blinding, inv: (BigInt(blinding.inv) + 1n).toString() };
+      expect(() => rsa.finalize(message, blindSignature, wrongInv, keyPair.publicKey)).toThrow('盲签名无效');
+      expect(() => rsa.finalize("Other", blindSignature, blinding, keyPair.publicKey)).toThrow('盲签名无效');
+      expect(() => rsa.blindSign('00', keyPair)).toThrow('长度');
+    });
+  });
+
+  describe('Key sizes', () => {
+    // 模数位长应恰好等于keySize，包括多素数密钥
+    test.each([[1024, 2], [1024, 3], [3072, 2]])('%i-bit keys with %i primes should have exact modulus size', async (keySize, primes) => {
+      const keys = await rsa.generateKeys({ keySize, primes });
+      expect(keys.keySize).toBe(keySize);
+      expect(BigInt(keys.publicKey.n).toString(2)).toHaveLength(keySize);
+
+      const signature = await rsa.sign('RSA key size', keys);
+      expect(await rsa.verify('RSA key size', signature, keys)).toBe(true);
+    }, 120000);
+
+    // 超出范围的密钥长度应被拒绝
+    test('should reject unsupported key sizes', async () => {
+      await expect(rsa.generateKeys({ keySize: 512 })).rejects.toThrow('不支持的密钥长度');
+      await expect(rsa.generateKeys({ keySize: 8192 })).rejects.toThrow('不支持的密钥长度');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { RSAEncryption } from '../RSAEncryption';
+import { createPublicKey } from 'crypto';
 
 /**
  * RSAEncryption 类测试
@@ -140,4 +141,39 @@ describe('RSAEncryption', () => {
     // 检查解密结果是否与原始消息匹配
     expect(decryptedMessage).toBe(message);
   });
-}); 
\ No newline at end of file
+
+  /**
+   * 测试CRT解密与多素数密钥
+   */
+  test('CRT解密和直接模幂解密结果应一致', async () => {
+    const keyPair = await rsaEncryption.generateKeys();
+    const message = '中国剩余定理加速解密';
+    const encryptionResult = await rsaEncryption.encrypt(message, keyPair.publicKey);
+
+    expect(await rsaEncryption.decrypt(encryptionResult, keyPair.privateKey)).toBe(message);
+
+    rsaEncryption.useCRT = false;
+    expect(await rsaEncryption.decrypt(encryptionResult, keyPair.privateKey)).toBe(message);
+  });
+
+  test.each([3, 4])('应该支持%i素数RSA密钥的加密和解密', async (primes) => {
+    const keyPair = await rsaEncryption.generateKeys({ primes });
+    expect(keyPair.primes).toBe(primes);
+    expect(keyPair.keySize).toBe(2048);
+
+    const message = `Multi-prime RSA (${primes} primes)`;
+    const encryptionResult = await rsaEncryption.encrypt(message, keyPair.publicKey);
+    expect(await rsaEncryption.decrypt(encryptionResult, keyPair.privateKey)).toBe(message);
+  }, 60000);
+
+  test('应该按keySize生成指定长度的密钥', async () => {
+    const keyPair = await rsaEncryption.generateKeys({ keySize: 1024 });
+    expect(keyPair.keySize).toBe(1024);
+    expect(createPublicKey(keyPair.publicKey).asymmetricKeyDetails?.modulusLength).toBe(1024);
+
+    const encryptionResult = await rsaEncryption.encrypt('1024位密钥', keyPair.publicKey);
+    expect(await rsaEncryption.decrypt(encryptionResult, keyPair.privateKey)).toBe('1024位密钥');
+
+    await expect(rsaEncryption.generateKeys({ keySize: 1000 })).rejects.toThrow('不支持的密钥长度');
+  }, 60000);
+});
@@ -0,0 +1,117 @@
+import { RabinEncryption } from '../RabinEncryption';
+import { KeyPair, IntegrityError } from '../encryption-types';
+
+/**
+ * RabinEncryption 类测试
+ */
+describe('RabinEncryption', () => {
+  let rabin: RabinEncryption;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    rabin = new RabinEncryption();
+    keyPair = await rabin.generateKeys({ keySize: 1024 });
+  });
+
+  /**
+   * 测试密钥结构
+   */
+  test('应该生成指定位长的模数，且 p ≡ 3、q ≡ 7 (mod 8)', () => {
+    const p = BigInt(keyPair.privateKey.p);
+    const q = BigInt(keyPair.privateKey.q);
+    const n = BigInt(keyPair.publicKey.n);
+    expect(p * q).toBe(n);
+    expect(n.toString(2)).toHaveLength(1024);
+    expect(p % 8n).toBe(3n);
+    expect(q % 8n).toBe(7n);
+  });
+
+  /**
+   * 测试加密解密往返
+   */
+  test('应该正确加密和解密文本消息', async () => {
+    for (const message of ['', 'Rabin', '与分解大整数等价的加密']) {
+      const result = await rabin.encrypt(message, keyPair.publicKey);
+      expect(await rabin.decrypt(result, keyPair.privateKey)).toBe(message);
+    }
+    await expect(rabin.encrypt('A'.repeat(120), keyPair.publicKey)).rejects.toThrow('消息太长');
+  });
+
+  /**
+   * 测试以0字节开头的消息
+   */
+  test('应该正确还原以NUL字符开头的消息', async () => {
+    const result = await rabin.encrypt('\u0000abc', keyPair.publicKey);
+    expect(await rabin.decrypt(result, keyPair.privateKey)).toBe('\u0000abc');
+  });
+
+  /**
+   * 测试随机填充：加密是概率性的，且短消息的密文不是整数完全平方
+   */
+  test('同一消息两次加密的密文应该不同，且不能直接开平方还原', async () => {
+    const n = BigInt(keyPair.publicKey.n);
+    const first = await rabin.encrypt('secret vote: yes', keyPair.publicKey);
+    const second = await rabin.encrypt('secret vote: yes', keyPair.publicKey);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+
+    // 牛顿法求整数平方根
+    const isqrt = (value: bigint) => {
+      let x = value;
+      let y = (x + 1n) / 2n;
+      while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+      }
+      return x;
+    };
+    const c = BigInt(`0x${Buffer.from(first.ciphertext, 'base64').toString('hex')}`);
+    const root = isqrt(c);
+    expect(root * root).not.toBe(c);
+
+    // 平方根x的位长接近n，x²必然在模n下回绕
+    const x = rabin.decryptCandidates(first, keyPair.privateKey).find(candidate => candidate.valid)!.value;
+    expect(x * x > n).toBe(true);
+    expect(await rabin.decrypt(second, keyPair.privateKey)).toBe('secret vote: yes');
+  });
+
+  /**
+   * 测试四个平方根中只有一个带有正确的冗余
+   */
+  test('四个平方根的平方都等于密文，其中恰好一个冗余匹配', async () => {
+    const n = BigInt(keyPair.publicKey.n);
+    const result = await rabin.encrypt('四个平方根', keyPair.publicKey);
+    const c = BigInt(`0x${Buffer.from(result.ciphertext, 'base64').toString('hex')}`);
+
+    const roots = rabin.decryptCandidates(result, keyPair.privateKey);
+    expect(roots).toHaveLength(4);
+    expect(new Set(roots.map(root => root.value)).size).toBe(4);
+    roots.forEach(root => expect((root.value * root.value) % n).toBe(c));
+
+    const valid = roots.filter(root => root.valid);
+    expect(valid).toHaveLength(1);
+    expect(valid[0].message).toBe('四个平方根');
+    // ±x成对出现
+    expect((roots[0].value + roots[3].value) % n).toBe(0n);
+    expect((roots[1].value + roots[2].value) % n).toBe(0n);
+  });
+
+  /**
+   * 测试篡改的密文没有冗余匹配的平方根
+   */
+  test('篡改的密文应该抛出完整性错误', async () => {
+    const result = await rabin.encrypt('篡改检测', keyPair.publicKey);
+    const bytes = Buffer.from(result.ciphertext, 'base64');
+    bytes[bytes.length - 1] ^= 0x01;
+    const tampered = { ...result, ciphertext: bytes.toString('base64') };
+
+    expect(rabin.decryptCandidates(tampered, keyPair.privateKey).every(root => !root.valid)).toBe(true);
+    await expect(rabin.decrypt(tampered, keyPair.privateKey)).rejects.toBeInstanceOf(IntegrityError);
+  });
+
+  /**
+   * 测试无效的密钥长度
+   */
+  test('应该拒绝无效的密钥长度', async () => {
+    await expect(rabin.generateKeys({ keySize: 512 })).rejects.toThrow('不支持的密钥长度');
+  });
+});
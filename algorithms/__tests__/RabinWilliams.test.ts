@@ -0,0 +1,87 @@
+import { RabinWilliams } from '../RabinWilliams';
+import { KeyPair } from '../types';
+
+/**
+ * Rabin-Williams签名测试
+ */
+describe('RabinWilliams', () => {
+  let rw: RabinWilliams;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    rw = new RabinWilliams();
+    keyPair = await rw.generateKeys({ keySize: 1024 });
+  });
+
+  /**
+   * 测试密钥结构
+   */
+  test('应该生成 p ≡ 3、q ≡ 7 (mod 8) 的密钥', () => {
+    const p = BigInt(keyPair.privateKey.p);
+    const q = BigInt(keyPair.privateKey.q);
+    expect(p % 8n).toBe(3n);
+    expect(q % 8n).toBe(7n);
+    expect((p * q).toString()).toBe(keyPair.publicKey.n);
+    expect(BigInt(keyPair.publicKey.n).toString(2)).toHaveLength(1024);
+  });
+
+  /**
+   * 测试签名与验证，覆盖四种调整因子
+   * 使用固定的密钥，下列消息分别落在(e, f)的四种组合上
+   */
+  test('签名应该通过验证，s²等于e·f·H(m)', async () => {
+    const fixedKeys: KeyPair = {
+      publicKey: { n: '126742042634109465620412432484962558827442056324755132852971952817764095834362821579877285976153038160118561418666653187056463356902772760583955426081780203822012875217244250931555219477231221755842363323503464717468867862249666646761487729039488440981379553859217140427824205449250696497555062694738066332509' },
+      privateKey: {
+        p: '10746199922087055963633360491605978753035041574782187854129369020696406803418505889321888791667483506508018313407973321478133100907741342908703271341962203',
+        q: '11794126626437679684341724568780353781512742311388911506768545527443989853890919227292817057340206488379208331714023794331624204799995485002949956847595303',
+        n: '126742042634109465620412432484962558827442056324755132852971952817764095834362821579877285976153038160118561418666653187056463356902772760583955426081780203822012875217244250931555219477231221755842363323503464717468867862249666646761487729039488440981379553859217140427824205449250696497555062694738066332509'
+      }
+    };
+    const cases: [string, number, number][] = [
+      ['Rabin-Williams #8', 1, 1],
+      ['Rabin-Williams #0', 1, 2],
+      ['Rabin-Williams #1', -1, 1],
+      ['Rabin-Williams #12', -1, 2]
+    ];
+    const n = BigInt(fixedKeys.publicKey.n);
+
+    for (const [message, e, f] of cases) {
+      const signature = await rw.sign(message, fixedKeys);
+      expect(signature.signature).toHaveLength(256);
+      expect(signature.tweaks).toEqual({ e, f });
+
+      const s = BigInt(`0x${signature.signature}`);
+      expect(s > 0n && s < n).toBe(true);
+      expect(await rw.verify(message, signature, fixedKeys)).toBe(true);
+    }
+  });
+
+  /**
+   * 测试签名是确定性的
+   */
+  test('同一消息的签名应该相同', async () => {
+    const first = await rw.sign('确定性', keyPair);
+    const second = await rw.sign('确定性', keyPair);
+    expect(first.signature).toBe(second.signature);
+  });
+
+  /**
+   * 测试篡改检测
+   */
+  test('应该拒绝篡改的消息与签名', async () => {
+    const n = BigInt(keyPair.publicKey.n);
+    const signature = await rw.sign('原始消息', keyPair);
+    expect(await rw.verify('篡改的消息', signature, keyPair)).toBe(false);
+
+    const s = BigInt(`0x${signature.signature}`);
+    expect(await rw.verify('原始消息', (s + 1n).toString(16), keyPair)).toBe(false);
+    // −s同样满足s² ≡ e·f·H(m)
+    expect(await rw.verify('原始消息', (n - s).toString(16), keyPair)).toBe(true);
+    expect(await rw.verify('原始消息', n.toString(16), keyPair)).toBe(false);
+    expect(await rw.verify('原始消息', 'xyz', keyPair)).toBe(false);
+
+    const other = await rw.generateKeys({ keySize: 1024 });
+    expect(await rw.verify('原始消息', signature, other)).toBe(false);
+  });
+});
@@ -0,0 +1,262 @@
+import { Schnorr } from '../Schnorr';
+import { ECDSA } from '../ECDSA';
+import { KeyPair } from '../types';
+
+// BIP-340 test-vectors.csv 中的签名向量（含私钥，可重现签名）
+const SIGNING_VECTORS = [
+  {
+    index: 0,
+    secretKey: '0000000000000000000000000000000000000000000000000000000000000003',
+    publicKey: 'F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '0000000000000000000000000000000000000000000000000000000000000000',
+    signature: 'E907831F80848D1069A5371B402410364BDF1C5F8307B0084C55F1CE2DCA8215' +
+      '25F66A4A85EA8B71E482A74F382D2CE5EBEEE8FDB2172F477DF4900D310536C0'
+  },
+  {
+    index: 1,
+    secretKey: 'B7E151628AED2A6ABF7158809CF4F3C762E7160F38B4DA56A784D9045190CFEF',
+    publicKey: 'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000001',
+    message: '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89',
+    signature: '6896BD60EEAE296DB48A229FF71DFE071BDE413E6D43F917DC8DCF8C78DE3341' +
+      '8906D11AC976ABCCB20B091292BFF4EA897EFCB639EA871CFA95F6DE339E4B0A'
+  },
+  {
+    index: 2,
+    secretKey: 'C90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B14E5C9',
+    publicKey: 'DD308AFEC5777E13121FA72B9CC1B7CC0139715309B086C960E18FD969774EB8',
+    auxRand: 'C87AA53824B4D7AE2EB035A2B5BBBCCC080E76CDC6D1692C4B0B62D798E6D906',
+    message: '7E2D58D8B3BCDF1ABADEC7829054F90DDA9805AAB56C77333024B9D0A508B75C',
+    signature: '5831AAEED7B44BB74E5EAB94BA9D4294C49BCF2A60728D8B4C200F50DD313C1B' +
+      'AB745879A5AD954A72C45A91C3A51D3C7ADEA98D82F8481E0E1E03674A6F3FB7'
+  },
+  {
+    index: 3,
+    secretKey: '0B432B2677937381AEF05BB02A66ECD012773062CF3FA2549E44F58ED2401710',
+    publicKey: '25D1DFF95105F5253C4022F628A996AD3A0D95FBF21D468A1B33F8C160D8F517',
+    auxRand: 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+    message: 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+    signature: '7EB0509757E246F19449885651611CB965ECC1A187DD51B64FDA1EDC9637D5EC' +
+      '97582B9CB13DB3933705B32BA982AF5AF25FD78881EBB32771FC5922EFC66EA3'
+  },
+  // 15–18：任意长度的消息
+  {
+    index: 15,
+    secretKey: '0340034003400340034003400340034003400340034003400340034003400340',
+    publicKey: '778CAA53B4393AC467774D09497A87224BF9FAB6F6E68B23086497324D6FD117',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '',
+    signature: '71535DB165ECD9FBBC046E5FFAEA61186BB6AD436732FCCC25291A55895464CF' +
+      '6069CE26BF03466228F19A3A62DB8A649F2D560FAC652827D1AF0574E427AB63'
+  },
+  {
+    index: 16,
+    secretKey: '0340034003400340034003400340034003400340034003400340034003400340',
+    publicKey: '778CAA53B4393AC467774D09497A87224BF9FAB6F6E68B23086497324D6FD117',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '11',
+    signature: '08A20A0AFEF64124649232E0693C583AB1B9934AE63B4C3511F3AE1134C6A303' +
+      'EA3173BFEA6683BD101FA5AA5DBC1996FE7CACFC5A577D33EC14564CEC2BACBF'
+  },
+  {
+    index: 17,
+    secretKey: '0340034003400340034003400340034003400340034003400340034003400340',
+    publicKey: '778CAA53B4393AC467774D09497A87224BF9FAB6F6E68B23086497324D6FD117',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '0102030405060708090A0B0C0D0E0F1011',
+    signature: '5130F39A4059B43BC7CAC09A19ECE52B5D8699D1A71E3C52DA9AFDB6B50AC370' +
+      'C4A482B77BF960F8681540E25B6771ECE1E5A37FD80E5A51897C5566A97EA5A5'
+  },
+  {
+    index: 18,
+    secretKey: '0340034003400340034003400340034003400340034003400340034003400340',
+    publicKey: '778CAA53B4393AC467774D09497A87224BF9FAB6F6E68B23086497324D6FD117',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '99'.repeat(100),
+    signature: '403B12B0D8555A344175EA7EC746566303321E5DBFA8BE6F091635163ECA79A8' +
+      '585ED3E3170807E7C03B720FC54C7B23897FCBA0E9D0B4A06894CFD249F22367'
+  }
+];
+
+// BIP-340 test-vectors.csv 中只有公钥的验证向量
+const MESSAGE = '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89';
+const PUBLIC_KEY = 'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659';
+const VERIFICATION_VECTORS = [
+  {
+    index: 4,
+    publicKey: 'D69C3509BB99E412E68B0FE8544E72837DFA30746D8BE2AA65975F29D22DC7B9',
+    message: '4DF3C3F68FCC83B27E9D42C90431A72499F17875C81A599B566C9889B9696703',
+    signature: '00000000000000000000003B78CE563F89A0ED9414F5AA28AD0D96D6795F9C63' +
+      '76AFB1548AF603B3EB45C9F8207DEE1060CB71C04E80F593060B07D28308D7F4',
+    result: true,
+    comment: 'r的高位为0'
+  },
+  {
+    index: 5,
+    publicKey: 'EEFDEA4CDB677750A420FEE807EACF21EB9898AE79B9768766E4FAA04A2D4A34',
+    message: MESSAGE,
+    signature: '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E177769' +
+      '69E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    result: false,
+    comment: '公钥不在曲线上'
+  },
+  {
+    index: 6,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: 'FFF97BD5755EEEA420453A14355235D382F6472F8568A18B2F057A1460297556' +
+      '3CC27944640AC607CD107AE10923D9EF7A73C643E166BE5EBEAFA34B1AC553E2',
+    result: false,
+    comment: 'R的y坐标为奇数'
+  },
+  {
+    index: 7,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '1FA62E331EDBC21C394792D2AB1100A7B432B013DF3F6FF4F99FCB33E0E1515F' +
+      '28890B3EDB6E7189B630448B515CE4F8622A954CFE545735AAEA5134FCCDB2BD',
+    result: false,
+    comment: '消息被取反'
+  },
+  {
+    index: 8,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E177769' +
+      '961764B3AA9B2FFCB6EF947B6887A226E8D7C93E00C5ED0C1834FF0D0C2E6DA6',
+    result: false,
+    comment: 's被取反'
+  },
+  {
+    index: 9,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '0000000000000000000000000000000000000000000000000000000000000000' +
+      '123DDA8328AF9C23A94C1FEECFD123BA4FB73476F0D594DCB65C6425BD186051',
+    result: false,
+    comment: 'sG - eP为无穷远点（x坐标按0处理）'
+  },
+  {
+    index: 10,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '0000000000000000000000000000000000000000000000000000000000000001' +
+      '7615FBAF5AE28864013C099742DEADB4DBA87F11AC6754F93780D5A1837CF197',
+    result: false,
+    comment: 'sG - eP为无穷远点（x坐标按1处理）'
+  },
+  {
+    index: 11,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '4A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1D' +
+      '69E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    result: false,
+    comment: 'r不是曲线上点的x坐标'
+  },
+  {
+    index: 12,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F' +
+      '69E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    result: false,
+    comment: 'r等于域大小p'
+  },
+  {
+    index: 13,
+    publicKey: PUBLIC_KEY,
+    message: MESSAGE,
+    signature: '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E177769' +
+      'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141',
+    result: false,
+    comment: 's等于曲线阶n'
+  },
+  {
+    index: 14,
+    publicKey: 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC30',
+    message: MESSAGE,
+    signature: '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E177769' +
+      '69E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    result: false,
+    comment: '公钥超出域大小'
+  }
+];
+
+// 只包含x-only公钥的密钥对
+const publicOnly = (x: string): KeyPair => ({ publicKey: { x }, privateKey: null });
+
+describe('Schnorr (BIP-340) Algorithm', () => {
+  let schnorr: Schnorr;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    schnorr = new Schnorr();
+    keyPair = await schnorr.generateKeys();
+  });
+
+  // 测试密钥格式：32字节私钥与32字节x-only公钥
+  test('should generate x-only public keys', () => {
+    expect(keyPair.privateKey.d).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyPair.publicKey.x).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyPair.publicKey.curve).toBe('secp256k1');
+  });
+
+  // 测试签名与验证流程
+  test('should sign and verify a message', async () => {
+    const message = 'Hello, Schnorr!';
+    const signature = await schnorr.sign(message, keyPair);
+
+    expect(signature.signature).toHaveLength(128);
+    expect(await schnorr.verify(message, signature, keyPair)).toBe(true);
+    expect(await schnorr.verify('Hello, Schnorr?', signature, keyPair)).toBe(false);
+    expect(await schnorr.verify(message, signature, await schnorr.generateKeys())).toBe(false);
+  });
+
+  // 测试辅助随机数：每次签名不同，但都能通过验证
+  test('should use fresh auxiliary randomness', async () => {
+    const first = await schnorr.sign('aux', keyPair);
+    const second = await schnorr.sign('aux', keyPair);
+
+    expect(first.signature).not.toBe(second.signature);
+    expect(await schnorr.verify('aux', first, keyPair)).toBe(true);
+    expect(await schnorr.verify('aux', second, keyPair)).toBe(true);
+  });
+
+  // 测试同一secp256k1私钥可同时用于ECDSA与Schnorr签名
+  test('should accept the same key for ECDSA and Schnorr', async () => {
+    const ecdsa = new ECDSA();
+    const message = '同一私钥的两种签名';
+    const ecdsaSignature = await ecdsa.sign(message, { publicKey: null, privateKey: keyPair.privateKey });
+    const schnorrSignature = await schnorr.sign(message, keyPair);
+
+    // ECDSA签名为DER编码（约70–72字节），Schnorr签名固定64字节
+    expect(ecdsaSignature.signature.length / 2).toBeGreaterThanOrEqual(68);
+    expect(schnorrSignature.signature.length / 2).toBe(64);
+  });
+
+  // 测试无效私钥
+  test('should reject out-of-range private keys', () => {
+    expect(() => schnorr.keysFromPrivateKey('00')).toThrow('私钥超出范围');
+    expect(() => schnorr.keysFromPrivateKey(
+      'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141'
+    )).toThrow('私钥超出范围');
+  });
+
+  describe('BIP-340 test vectors', () => {
+    test.each(SIGNING_VECTORS)('vector $index', async ({ secretKey, publicKey, auxRand, message, signature }) => {
+      const keys = schnorr.keysFromPrivateKey(secretKey);
+      expect(keys.publicKey.x).toBe(publicKey.toLowerCase());
+
+      const messageBytes = Buffer.from(message, 'hex');
+      const result = await schnorr.signBytes(messageBytes, keys, Buffer.from(auxRand, 'hex'));
+      expect(result.signature).toBe(signature.toLowerCase());
+      expect(await schnorr.verifyBytes(messageBytes, signature, publicOnly(publicKey))).toBe(true);
+    });
+
+    test.each(VERIFICATION_VECTORS)('vector $index: $comment', async ({ publicKey, message, signature, result }) => {
+      expect(await schnorr.verifyBytes(Buffer.from(message, 'hex'), signature, publicOnly(publicKey))).toBe(result);
+    });
+  });
+});
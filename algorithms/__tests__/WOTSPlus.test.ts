@@ -0,0 +1,66 @@
+import { WOTSPlus } from '../WOTSPlus';
+import { chain, wotsChainPositions, WOTS_LEN } from '../wots';
+
+describe('WOTS+ One-Time Signature', () => {
+  let wots: WOTSPlus;
+
+  beforeAll(() => {
+    wots = new WOTSPlus();
+  });
+
+  // 测试链位置：64个消息位加3个校验和位，校验和 Σ(15 − b_i) 左移4位
+  test('should compute base-w digits and checksum', () => {
+    const zeros = wotsChainPositions(new Uint8Array(32));
+    // 全零摘要的校验和为 64 × 15 = 960 = 0x3c0，左移4位得0x3c00，取高3个16进制位
+    expect(zeros).toHaveLength(WOTS_LEN);
+    expect(zeros.slice(0, 64).every(b => b === 0)).toBe(true);
+    expect(zeros.slice(64)).toEqual([3, 12, 0]);
+
+    const ones = wotsChainPositions(new Uint8Array(32).fill(0xff));
+    expect(ones.slice(0, 64).every(b => b === 15)).toBe(true);
+    expect(ones.slice(64)).toEqual([0, 0, 0]);
+
+    expect(wotsChainPositions(Uint8Array.from({ length: 32 }, (_, i) => i)).slice(0, 4)).toEqual([0, 0, 0, 1]);
+  });
+
+  // 测试哈希链可以分段计算
+  test('should compose chain segments', () => {
+    const start = new Uint8Array(32).fill(9);
+    const pubSeed = new Uint8Array(32).fill(1);
+    const full = chain(start, 0, 15, pubSeed, 0, 5);
+    const partial = chain(chain(start, 0, 6, pubSeed, 0, 5), 6, 9, pubSeed, 0, 5);
+    expect(Buffer.from(partial).toString('hex')).toBe(Buffer.from(full).toString('hex'));
+  });
+
+  // 测试签名与验证流程
+  test('should sign and verify a message', async () => {
+    const keys = await wots.generateKeys();
+    expect(keys.publicKey.key).toHaveLength(67 * 64);
+
+    const signature = await wots.sign('Hello, WOTS+!', keys);
+    expect(signature.signature).toHaveLength(2144 * 2);
+    expect(signature.chainPositions).toEqual(wotsChainPositions(Buffer.from(signature.messageHash!, 'hex')));
+    expect(await wots.verify('Hello, WOTS+!', signature, keys)).toBe(true);
+    expect(await wots.verify('Hello, WOTS+!', signature.signature, keys)).toBe(true);
+  });
+
+  // 测试一次性密钥不能重复使用
+  test('should refuse to sign twice with the same key', async () => {
+    const keys = await wots.generateKeys();
+    await wots.sign('第一条消息', keys);
+    await expect(wots.sign('第二条消息', keys)).rejects.toThrow('一次性密钥不能重复使用');
+  });
+
+  // 测试篡改消息、签名或使用其他公钥时验证失败
+  test('should reject tampered messages, signatures and wrong keys', async () => {
+    const keys = await wots.generateKeys();
+    const otherKeys = await wots.generateKeys();
+    const signature = await wots.sign('原始消息', keys);
+    const tampered = (signature.signature[0] === '0' ? '1' : '0') + signature.signature.substring(1);
+
+    expect(await wots.verify('篡改后的消息', signature, keys)).toBe(false);
+    expect(await wots.verify('原始消息', tampered, keys)).toBe(false);
+    expect(await wots.verify('原始消息', signature, otherKeys)).toBe(false);
+    expect(await wots.verify('原始消息', 'not-hex', keys)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { XMSS } from '../XMSS';
+import { KeyPair } from '../types';
+
+describe('XMSS Merkle Tree Signature', () => {
+  let xmss: XMSS;
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    xmss = new XMSS();
+    keyPair = await xmss.generateKeys();
+  });
+
+  // 测试默认树高为4，私钥缓存整棵树
+  test('should generate a height-4 tree by default', () => {
+    expect(keyPair.treeHeight).toBe(4);
+    expect(keyPair.keySize).toBeUndefined();
+    expect(keyPair.publicKey.height).toBe(4);
+    expect(keyPair.privateKey.nextIndex).toBe(0);
+    expect(keyPair.privateKey.tree.map((level: string[]) => level.length)).toEqual([16, 8, 4, 2, 1]);
+    expect(keyPair.privateKey.tree[4][0]).toBe(keyPair.publicKey.root);
+  });
+
+  // 测试签名依次使用每个叶子，认证路径为各层的兄弟节点
+  test('should sign with successive leaves and include the authentication path', async () => {
+    const first = await xmss.sign('第一条消息', keyPair);
+    const second = await xmss.sign('第二条消息', keyPair);
+
+    expect(first.leafIndex).toBe(0);
+    expect(second.leafIndex).toBe(1);
+    expect(first.signature).toHaveLength((4 + 2144 + 4 * 32) * 2);
+    expect(second.authPath).toEqual([0, 1, 2, 3].map(level => keyPair.privateKey.tree[level][(1 >> level) ^ 1]));
+    expect(xmss.remainingSignatures(keyPair)).toBe(14);
+
+    expect(await xmss.verify('第一条消息', first, keyPair)).toBe(true);
+    expect(await xmss.verify('第二条消息', second.signature, keyPair)).toBe(true);
+  });
+
+  // 测试篡改消息、认证路径或叶子序号时验证失败
+  test('should reject tampered messages, authentication paths and leaf indices', async () => {
+    const signature = await xmss.sign('原始消息', keyPair);
+    const hex: string = signature.signature;
+    const pathStart = hex.length - 4 * 64;
+    const tamperedPath = hex.substring(0, pathStart) + (hex[pathStart] === '0' ? '1' : '0') + hex.substring(pathStart + 1);
+    const wrongIndex = '00000003' + hex.substring(8);
+    const outOfRange = '00000010' + hex.substring(8);
+
+    expect(await xmss.verify('篡改后的消息', signature, keyPair)).toBe(false);
+    expect(await xmss.verify('原始消息', tamperedPath, keyPair)).toBe(false);
+    expect(await xmss.verify('原始消息', wrongIndex, keyPair)).toBe(false);
+    expect(await xmss.verify('原始消息', outOfRange, keyPair)).toBe(false);
+  });
+
+  // 测试全部叶子用完后拒绝签名
+  test('should refuse to sign once every leaf is used', async () => {
+    const keys = await xmss.generateKeys({ treeHeight: 4 });
+    keys.privateKey.nextIndex = 15;
+    const last = await xmss.sign('最后一次', keys);
+
+    expect(last.leafIndex).toBe(15);
+    expect(await xmss.verify('最后一次', last, keys)).toBe(true);
+    expect(xmss.remainingSignatures(keys)).toBe(0);
+    await expect(xmss.sign('再签一次', keys)).rejects.toThrow('已全部用完');
+  });
+
+  // 测试不支持的树高
+  test('should reject unsupported tree heights', async () => {
+    await expect(xmss.generateKeys({ treeHeight: 10 })).rejects.toThrow('不支持的XMSS树高');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  decodeDer,
+  decodePem,
+  encodeBitString,
+  encodeExplicit,
+  encodeInteger,
+  encodeNull,
+  encodeObjectIdentifier,
+  encodeOctetString,
+  encodePem,
+  encodeSequence,
+  readBitString,
+  readInteger,
+  readObjectIdentifier,
+  readOctetString
+} from '../asn1';
+
+const hex = (s: string) => new Uint8Array(s.match(/../g)!.map(b => parseInt(b, 16)));
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+describe('ASN.1 DER', () => {
+  // X.690 8.3：二进制补码、最短编码
+  test('should encode and decode INTEGER', () => {
+    const vectors: [bigint, string][] = [
+      [0n, '020100'],
+      [127n, '02017f'],
+      [128n, '02020080'],
+      [256n, '02020100'],
+      [65537n, '0203010001'],
+      [-1n, '0201ff'],
+      [-128n, '020180'],
+      [-129n, '0202ff7f']
+    ];
+
+    for (const [value, encoded] of vectors) {
+      expect(toHex(encodeInteger(value))).toBe(encoded);
+      expect(readInteger(decodeDer(hex(encoded)))).toBe(value);
+    }
+  });
+
+  // RFC 8017 / RFC 5480 中的对象标识符
+  test('should encode and decode OBJECT IDENTIFIER', () => {
+    const vectors: [string, string][] = [
+      ['1.2.840.113549.1.1.1', '06092a864886f70d010101'],
+      ['1.2.840.10045.2.1', '06072a8648ce3d0201'],
+      ['1.3.132.0.10', '06052b8104000a'],
+      ['2.999.3', '0603883703']
+    ];
+
+    for (const [oid, encoded] of vectors) {
+      expect(toHex(encodeObjectIdentifier(oid))).toBe(encoded);
+      expect(readObjectIdentifier(decodeDer(hex(encoded)))).toBe(oid);
+    }
+  });
+
+  // 长度超过127字节时使用长格式
+  test('should use long-form lengths and nest constructed types', () => {
+    const content = new Uint8Array(300).fill(0xab);
+    const encoded = encodeSequence(encodeOctetString(content), encodeBitString(hex('04ff')), encodeNull());
+
+    expect(toHex(encoded.slice(0, 8))).toBe('30820137' + '0482012c');
+    const root = decodeDer(encoded);
+    expect(root.children).toHaveLength(3);
+    expect(readOctetString(root.children[0])).toEqual(content);
+    expect(toHex(readBitString(root.children[1]))).toBe('04ff');
+    expect(root.children[2].tag).toBe(0x05);
+
+    const tagged = decodeDer(encodeExplicit(1, encodeInteger(5n)));
+    expect(tagged.tag).toBe(0xa1);
+    expect(readInteger(tagged.children[0])).toBe(5n);
+  });
+
+  // DER要求唯一编码，BER允许的变体应被拒绝
+  test('should reject non-DER encodings', () => {
+    expect(() => decodeDer(hex('3080020100' + '0000'))).toThrow('不定长');
+    expect(() => decodeDer(hex('0281010' + '1'))).toThrow('最短编码');
+    expect(() => readInteger(decodeDer(hex('02020001')))).toThrow('最短编码');
+    expect(() => decodeDer(hex('02010000'))).toThrow('多余数据');
+    expect(() => decodeDer(hex('020201'))).toThrow('截断');
+  });
+
+  // RFC 7468 PEM封装
+  test('should round-trip PEM', () => {
+    const der = encodeSequence(encodeInteger(123456789n), encodeOctetString(new Uint8Array(100)));
+    const pem = encodePem('TEST DATA', der);
+
+    expect(pem.startsWith('-----BEGIN TEST DATA-----\n')).toBe(true);
+    expect(pem.split('\n').every(line => line.length <= 64)).toBe(true);
+
+    const decoded = decodePem(pem);
+    expect(decoded.label).toBe('TEST DATA');
+    expect(decoded.der).toEqual(der);
+
+    expect(() => decodePem('-----BEGIN A-----\nAAAA\n-----END B-----')).toThrow('无效的PEM格式');
+  });
+});
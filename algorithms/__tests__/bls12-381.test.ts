@@ -0,0 +1,152 @@
+import {
+  BLS_X,
+  expandMessageXmd,
+  Fp12,
+  Fp2,
+  fp2Sqrt,
+  G1,
+  g1FromHex,
+  g1ToHex,
+  G2,
+  g2FromHex,
+  g2ToHex,
+  H2,
+  H_EFF,
+  hashToG2,
+  P,
+  pairing,
+  pairingProduct,
+  R
+} from '../bls12-381';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+/**
+ * BLS12-381曲线、配对与哈希到曲线的测试
+ */
+describe('bls12-381', () => {
+  /**
+   * 测试曲线参数由x生成
+   */
+  test('p与r应该由曲线参数x生成', () => {
+    expect(R).toBe(BLS_X ** 4n - BLS_X ** 2n + 1n);
+    expect(P).toBe(((BLS_X - 1n) ** 2n * R) / 3n + BLS_X);
+  });
+
+  /**
+   * 测试生成元与压缩编码（ZCash格式）
+   */
+  test('生成元应该在曲线上、阶为r，并按标准压缩编码', () => {
+    expect(G1.isOnCurve(G1.toAffine(G1.generator)!)).toBe(true);
+    expect(G2.isOnCurve(G2.toAffine(G2.generator)!)).toBe(true);
+    expect(G1.isInfinity(G1.multiply(G1.generator, R))).toBe(true);
+    expect(G2.isInfinity(G2.multiply(G2.generator, R))).toBe(true);
+
+    expect(g1ToHex(G1.generator)).toBe(
+      '97f1d3a73197d7942695638c4fa9ac0fc3688c4f9774b905a14e3a3f171bac586c55e83ff97a1aeffb3af00adb22c6bb'
+    );
+    expect(g2ToHex(G2.generator)).toBe(
+      '93e02b6052719f607dacd3a088274f65596bd0d09920b61ab5da61bbdc7f5049334cf11213945d57e5ac7d055d042b7e' +
+      '024aa2b2f08f0a91260805272dc51051c6e47ad4fa403b02b4510b647ae3d1770bac0326a805bbefd48056c8c121bdb8'
+    );
+    expect(g1ToHex(G1.infinity)).toBe('c0' + '00'.repeat(47));
+  });
+
+  /**
+   * 测试点的编码往返与解码校验
+   */
+  test('压缩编码应该能往返，并拒绝不在曲线上的x', () => {
+    const P1 = G1.multiply(G1.generator, 123456789n);
+    const Q1 = G2.multiply(G2.generator, 987654321n);
+    expect(G1.equals(g1FromHex(g1ToHex(P1)), P1)).toBe(true);
+    expect(G1.equals(g1FromHex(g1ToHex(G1.negate(P1))), G1.negate(P1))).toBe(true);
+    expect(G2.equals(g2FromHex(g2ToHex(Q1)), Q1)).toBe(true);
+    expect(G2.equals(g2FromHex(g2ToHex(G2.negate(Q1))), G2.negate(Q1))).toBe(true);
+
+    // x = 1时 x³ + 4 = 5 不是Fp中的平方数
+    expect(() => g1FromHex('80' + '00'.repeat(46) + '01')).toThrow('不在曲线上');
+    expect(() => g1FromHex('01' + '00'.repeat(47))).toThrow('压缩编码');
+  });
+
+  /**
+   * 测试Fp2平方根
+   */
+  test('Fp2平方根应该满足 √(a²) = ±a', () => {
+    const a = { c0: 12345678901234567890n, c1: 98765432109876543210n };
+    const root = fp2Sqrt(Fp2.sqr(a))!;
+    expect(Fp2.eq(root, a) || Fp2.eq(root, Fp2.neg(a))).toBe(true);
+  });
+
+  /**
+   * 测试配对的双线性与非退化性
+   */
+  test('配对应该是非退化的双线性映射', () => {
+    const e = pairing(G1.generator, G2.generator);
+    expect(Fp12.eq(e, Fp12.one)).toBe(false);
+
+    // e(6·G1, 7·G2) = e(42·G1, G2) = e(G1, 42·G2) = e(G1, G2)^42
+    const e42 = pairing(G1.multiply(G1.generator, 6n), G2.multiply(G2.generator, 7n));
+    expect(Fp12.eq(e42, pairing(G1.multiply(G1.generator, 42n), G2.generator))).toBe(true);
+    expect(Fp12.eq(e42, pairing(G1.generator, G2.multiply(G2.generator, 42n)))).toBe(true);
+    let power = Fp12.one;
+    for (let i = 0; i < 42; i++) {
+      power = Fp12.mul(power, e);
+    }
+    expect(Fp12.eq(e42, power)).toBe(true);
+
+    // e(−G1, G2)·e(G1, G2) = 1
+    expect(Fp12.eq(pairingProduct([[G1.negate(G1.generator), G2.generator], [G1.generator, G2.generator]]), Fp12.one)).toBe(true);
+  });
+
+  /**
+   * 测试RFC 9380 K.1的expand_message_xmd向量
+   */
+  test('expand_message_xmd应该符合RFC 9380测试向量', () => {
+    const dst = encode('QUUX-V01-CS02-with-expander-SHA256-128');
+    expect(toHex(expandMessageXmd(new Uint8Array(0), dst, 0x20))).toBe(
+      '68a985b87eb6b46952128911f2a4412bbc302a9d759667f87f7a21d803f07235'
+    );
+  });
+
+  /**
+   * 测试哈希到G2
+   */
+  test('哈希到G2应该是确定性的，结果在r阶子群中', () => {
+    const dst = encode('BLS12381G2_XMD:SHA-256_SSWU_RO_TEST');
+    const H = hashToG2(encode('abc'), dst);
+    expect(G2.isOnCurve(G2.toAffine(H)!)).toBe(true);
+    expect(G2.isInfinity(G2.multiply(H, R))).toBe(true);
+    expect(G2.equals(hashToG2(encode('abc'), dst), H)).toBe(true);
+    expect(G2.equals(hashToG2(encode('abd'), dst), H)).toBe(false);
+    expect(H2 % R).not.toBe(0n);
+    expect(H_EFF % R).not.toBe(0n);
+  });
+
+  /**
+   * 测试RFC 9380 J.10.1的BLS12381G2_XMD:SHA-256_SSWU_RO_向量
+   */
+  const HASH_TO_G2_VECTORS = [
+    {
+      msg: '',
+      x: ['0141ebfbdca40eb85b87142e130ab689c673cf60f1a3e98d69335266f30d9b8d4ac44c1038e9dcdd5393faf5c41fb78a', '05cb8437535e20ecffaef7752baddf98034139c38452458baeefab379ba13dff5bf5dd71b72418717047f5b0f37da03d'],
+      y: ['0503921d7f6a12805e72940b963c0cf3471c7b2a524950ca195d11062ee75ec076daf2d4bc358c4b190c0c98064fdd92', '12424ac32561493f3fe3c260708a12b7c620e7be00099a974e259ddc7d1f6395c3c811cdd19f1e8dbf3e9ecfdcbab8d6']
+    },
+    {
+      msg: 'abc',
+      x: ['02c2d18e033b960562aae3cab37a27ce00d80ccd5ba4b7fe0e7a210245129dbec7780ccc7954725f4168aff2787776e6', '139cddbccdc5e91b9623efd38c49f81a6f83f175e80b06fc374de9eb4b41dfe4ca3a230ed250fbe3a2acf73a41177fd8'],
+      y: ['1787327b68159716a37440985269cf584bcb1e621d3a7202be6ea05c4cfe244aeb197642555a0645fb87bf7466b2ba48', '00aa65dae3c8d732d10ecd2c50f8a1baf3001578f71c694e03866e9f3d49ac1e1ce70dd94a733534f106d4cec0eddd16']
+    },
+    {
+      msg: 'abcdef0123456789',
+      x: ['121982811d2491fde9ba7ed31ef9ca474f0e1501297f68c298e9f4c0028add35aea8bb83d53c08cfc007c1e005723cd0', '190d119345b94fbd15497bcba94ecf7db2cbfd1e1fe7da034d26cbba169fb3968288b3fafb265f9ebd380512a71c3f2c'],
+      y: ['05571a0f8d3c08d094576981f4a3b8eda0a8e771fcdcc8ecceaf1356a6acf17574518acb506e435b639353c2e14827c8', '0bb5e7572275c567462d91807de765611490205a941a5a6af3b1691bfe596c31225d3aabdf15faff860cb4ef17c7c3be']
+    }
+  ];
+
+  test.each(HASH_TO_G2_VECTORS)('hash_to_G2应该符合RFC 9380测试向量: msg = "$msg"', ({ msg, x, y }) => {
+    const dst = encode('QUUX-V01-CS02-with-BLS12381G2_XMD:SHA-256_SSWU_RO_');
+    const point = G2.toAffine(hashToG2(encode(msg), dst))!;
+    expect([point.x.c0, point.x.c1, point.y.c0, point.y.c1].map(c => c.toString(16).padStart(96, '0'))).toEqual([...x, ...y]);
+  });
+});
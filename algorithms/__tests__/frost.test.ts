@@ -0,0 +1,146 @@
+import {
+  aggregate,
+  commitNonces,
+  createSigningPackage,
+  DkgResult,
+  FrostKeyShare,
+  runDkg,
+  signShare,
+  verifyProofOfKnowledge,
+  verifyShare,
+  verifySignatureShare
+} from '../frost';
+import { recoverSecret } from '../secret-sharing';
+import { getCurve } from '../curves';
+import { AlgorithmFactory } from '../index';
+
+/**
+ * FROST门限Schnorr签名测试
+ */
+describe('frost', () => {
+  const n = getCurve('secp256k1').n;
+  const schnorr = AlgorithmFactory.getAlgorithm('Schnorr');
+
+  // 3-of-5的DKG在所有用例间共享
+  let dkg: DkgResult;
+  beforeAll(() => {
+    dkg = runDkg(5, 3);
+  });
+
+  // 由给定签名者完成两轮签名，返回签名上下文、部分签名与聚合签名
+  const thresholdSign = (message: string, signers: FrostKeyShare[]) => {
+    const rounds = signers.map(share => commitNonces(share.index));
+    const signingPackage = createSigningPackage(message, rounds.map(r => r.commitment), dkg.groupPublicKey);
+    const shares = signers.map((share, i) => signShare(share, rounds[i].nonces, signingPackage));
+    return { signingPackage, shares, signature: aggregate(signingPackage, shares) };
+  };
+
+  /**
+   * 测试分布式密钥生成
+   */
+  test('DKG应该得到y为偶数的群公钥，且各份额是同一多项式上的点', () => {
+    expect(dkg.keyShares).toHaveLength(5);
+    expect(dkg.groupPublicKey.y % 2n).toBe(0n);
+    expect(dkg.publicKey).toMatch(/^[0-9a-f]{64}$/);
+
+    dkg.packages.forEach((pkg, i) => {
+      expect(pkg.commitments).toHaveLength(3);
+      expect(verifyProofOfKnowledge(pkg)).toBe(true);
+      dkg.shares[i].forEach((share, j) => expect(verifyShare(share, j + 1, pkg.commitments)).toBe(true));
+    });
+
+    // 群私钥从未出现，但任意3个份额插值得到的值都相同
+    const points = dkg.keyShares.map(share => ({ x: BigInt(share.index), y: share.secretShare }));
+    const secret = recoverSecret(points.slice(0, 3), n);
+    expect(recoverSecret(points.slice(2), n)).toBe(secret);
+    expect(recoverSecret([points[0], points[4], points[2]], n)).toBe(secret);
+  });
+
+  /**
+   * 测试DKG中错误的份额与知识证明能被发现
+   */
+  test('应该检测出与承诺不符的份额和伪造的知识证明', () => {
+    const pkg = dkg.packages[0];
+    expect(verifyShare((dkg.shares[0][1] + 1n) % n, 2, pkg.commitments)).toBe(false);
+    expect(verifyShare(dkg.shares[0][1], 3, pkg.commitments)).toBe(false);
+    expect(verifyProofOfKnowledge({ ...pkg, proof: { ...pkg.proof, mu: (pkg.proof.mu + 1n) % n } })).toBe(false);
+    expect(verifyProofOfKnowledge({ ...pkg, index: 2 })).toBe(false);
+  });
+
+  /**
+   * 测试任意t个签名者的聚合签名都能用Schnorr验证
+   */
+  test.each([
+    [[0, 1, 2]],
+    [[4, 2, 0]],
+    [[1, 3, 4]],
+    [[0, 1, 2, 3, 4]]
+  ])('签名者%j的聚合签名应该通过BIP-340验证', async (indexes) => {
+    const message = '门限签名';
+    const { signingPackage, shares, signature } = thresholdSign(message, indexes.map(i => dkg.keyShares[i]));
+
+    shares.forEach(share => {
+      expect(verifySignatureShare(share, dkg.keyShares[share.index - 1].verificationShare, signingPackage)).toBe(true);
+    });
+    expect(signature).toMatch(/^[0-9a-f]{128}$/);
+
+    const keys = { publicKey: { x: dkg.publicKey, curve: 'secp256k1' }, privateKey: null };
+    expect(await schnorr.verify(message, signature, keys)).toBe(true);
+    expect(await schnorr.verify('篡改的消息', signature, keys)).toBe(false);
+  });
+
+  /**
+   * 测试错误的部分签名
+   */
+  test('错误的部分签名应该被单独识别，聚合结果无法验证', async () => {
+    const message = '门限签名';
+    const signers = [dkg.keyShares[0], dkg.keyShares[1], dkg.keyShares[3]];
+    const { signingPackage, shares } = thresholdSign(message, signers);
+
+    const tampered = shares.map(share => share.index === 2 ? { ...share, z: (share.z + 1n) % n } : share);
+    expect(verifySignatureShare(tampered[1], signers[1].verificationShare, signingPackage)).toBe(false);
+    expect(verifySignatureShare(tampered[0], signers[0].verificationShare, signingPackage)).toBe(true);
+    // 部分签名与他人的验证份额不匹配
+    expect(verifySignatureShare(shares[0], signers[2].verificationShare, signingPackage)).toBe(false);
+
+    const keys = { publicKey: { x: dkg.publicKey, curve: 'secp256k1' }, privateKey: null };
+    expect(await schnorr.verify(message, aggregate(signingPackage, tampered), keys)).toBe(false);
+  });
+
+  /**
+   * 测试参数与签名者集合校验
+   */
+  test('应该拒绝无效的门限参数和不足t人的签名', () => {
+    expect(() => runDkg(3, 4)).toThrow('无效的门限参数');
+    expect(() => runDkg(3, 1)).toThrow('无效的门限参数');
+
+    const signers = [dkg.keyShares[0], dkg.keyShares[1]];
+    expect(() => thresholdSign('门限签名', signers)).toThrow('签名者不足');
+
+    const rounds = [0, 1, 2].map(i => commitNonces(dkg.keyShares[i].index));
+    const signingPackage = createSigningPackage('门限签名', rounds.map(r => r.commitment), dkg.groupPublicKey);
+    expect(() => signShare(dkg.keyShares[4], commitNonces(5).nonces, signingPackage)).toThrow('不在本次签名者之中');
+    expect(() => aggregate(signingPackage, [signShare(dkg.keyShares[0], rounds[0].nonces, signingPackage)])).toThrow('不一致');
+  });
+
+  /**
+   * 测试一次性随机数不能重复使用
+   */
+  test('同一组随机数不能签第二条消息', () => {
+    const signers = [dkg.keyShares[0], dkg.keyShares[1], dkg.keyShares[2]];
+    const rounds = signers.map(share => commitNonces(share.index));
+    const commitments = rounds.map(r => r.commitment);
+
+    const first = createSigningPackage('第一条消息', commitments, dkg.groupPublicKey);
+    signShare(signers[0], rounds[0].nonces, first);
+    expect(rounds[0].nonces.used).toBe(true);
+    expect(rounds[0].nonces.hiding).toBe(0n);
+    expect(rounds[0].nonces.binding).toBe(0n);
+
+    const second = createSigningPackage('第二条消息', commitments, dkg.groupPublicKey);
+    expect(() => signShare(signers[0], rounds[0].nonces, second)).toThrow('随机数已经用过');
+    expect(() => signShare(signers[0], rounds[0].nonces, first)).toThrow('随机数已经用过');
+    // 其他签名者的随机数不受影响
+    expect(verifySignatureShare(signShare(signers[1], rounds[1].nonces, second), signers[1].verificationShare, second)).toBe(true);
+  });
+});
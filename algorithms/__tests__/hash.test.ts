@@ -0,0 +1,142 @@
+import { digest, digestHex, HashAlgorithm, HASH_OUTPUT_LENGTHS, keccak256, shake128, shake256, x963Kdf } from '../hash';
+
+// NIST FIPS 180-4 / FIPS 202 示例消息
+const MSG_ABC = 'abc';
+const MSG_EMPTY = '';
+const MSG_448 = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+const MSG_896 = 'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// 每个算法对应 [abc, 空消息, 448位消息, 896位消息] 的期望输出
+const VECTORS: Record<Exclude<HashAlgorithm, 'KECCAK-256'>, string[]> = {
+  'SHA-1': [
+    'a9993e364706816aba3e25717850c26c9cd0d89d',
+    'da39a3ee5e6b4b0d3255bfef95601890afd80709',
+    '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    'a49b2446a02c645bf419f995b67091253a04a259'
+  ],
+  'SHA-224': [
+    '23097d223405d8228642a477bda255b32aadbce4bda0b3f7e36c9da7',
+    'd14a028c2a3a2bc9476102bb288234c415a2b01f828ea62ac5b3e42f',
+    '75388b16512776cc5dba5da1fd890150b0c6455cb4f58b1952522525',
+    'c97ca9a559850ce97a04a96def6d99a9e0e0e2ab14e6b8df265fc0b3'
+  ],
+  'SHA-256': [
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1'
+  ],
+  'SHA-384': [
+    'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7',
+    '38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b',
+    '3391fdddfc8dc7393707a65b1b4709397cf8b1d162af05abfe8f450de5f36bc6b0455a8520bc4e6f5fe95b1fe3c8452b',
+    '09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039'
+  ],
+  'SHA-512': [
+    'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+    'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e',
+    '204a8fc6dda82f0a0ced7beb8e08a41657c16ef468b228a8279be331a703c33596fd15c13b1b07f9aa1d3bea57789ca031ad85c7a71dd70354ec631238ca3445',
+    '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909'
+  ],
+  'SHA3-224': [
+    'e642824c3f8cf24ad09234ee7d3c766fc9a3a5168d0c94ad73b46fdf',
+    '6b4e03423667dbb73b6e15454f0eb1abd4597f9a1b078e3f5b5a6bc7',
+    '8a24108b154ada21c9fd5574494479ba5c7e7ab76ef264ead0fcce33',
+    '543e6868e1666c1a643630df77367ae5a62a85070a51c14cbf665cbc'
+  ],
+  'SHA3-256': [
+    '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532',
+    'a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a',
+    '41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376',
+    '916f6061fe879741ca6469b43971dfdb28b1a32dc36cb3254e812be27aad1d18'
+  ],
+  'SHA3-384': [
+    'ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25',
+    '0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004',
+    '991c665755eb3a4b6bbdfb75c78a492e8c56a22c5c4d7e429bfdbc32b9d4ad5aa04a1f076e62fea19eef51acd0657c22',
+    '79407d3b5916b59c3e30b09822974791c313fb9ecc849e406f23592d04f625dc8c709b98b43b3852b337216179aa7fc7'
+  ],
+  'SHA3-512': [
+    'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0',
+    'a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26',
+    '04a371e84ecfb5b8b77cb48610fca8182dd457ce6f326a0fd3d7ec2f1e91636dee691fbe0c985302ba1b0d8dc78c086346b533b49c030d99a27daf1139d6e75e',
+    'afebb2ef542e6579c50cad06d2e578f9f8dd6881d7dc824d26360feebf18a4fa73e3261122948efcfd492e74e82e2189ed0fb440d187f382270cb455f21dd185'
+  ]
+};
+
+describe('Hash Functions', () => {
+  // 使用NIST示例向量验证每个算法
+  describe('NIST test vectors', () => {
+    for (const [algorithm, expected] of Object.entries(VECTORS)) {
+      test(`${algorithm} should match NIST vectors`, () => {
+        const name = algorithm as HashAlgorithm;
+        expect(digestHex(name, MSG_ABC)).toBe(expected[0]);
+        expect(digestHex(name, MSG_EMPTY)).toBe(expected[1]);
+        expect(digestHex(name, MSG_448)).toBe(expected[2]);
+        expect(digestHex(name, MSG_896)).toBe(expected[3]);
+      });
+    }
+  });
+
+  // 测试长消息（一百万个'a'）
+  test('should hash one million repetitions of "a"', () => {
+    const message = 'a'.repeat(1000000);
+    expect(digestHex('SHA-256', message)).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+    expect(digestHex('SHA3-256', message)).toBe('5c8875ae474a3634ba4fd55ec85bffd661f32aca75c6d699d0cdcb6c115891c1');
+  });
+
+  // 测试SHAKE可扩展输出函数
+  test('should produce SHAKE128 and SHAKE256 outputs of arbitrary length', () => {
+    expect(toHex(shake128('', 32))).toBe('7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26');
+    expect(toHex(shake128('abc', 32))).toBe('5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8');
+    expect(toHex(shake256('', 64))).toBe(
+      '46b9dd2b0ba88d13233b3feb743eeb243fcd52ea62b81b82b50c27646ed5762fd75dc4ddd8c0f200cb05019d67b592f6fc821c49479ab48640292eacb3b7c4be'
+    );
+
+    // 较长的输出应以较短输出为前缀
+    const longOutput = shake128('abc', 500);
+    expect(longOutput.length).toBe(500);
+    expect(toHex(longOutput.slice(0, 32))).toBe(toHex(shake128('abc', 32)));
+  });
+
+  // 测试以太坊使用的原始Keccak-256
+  test('should compute legacy Keccak-256', () => {
+    expect(toHex(keccak256(''))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(toHex(keccak256('abc'))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+
+  // 测试ANSI X9.63 KDF (NIST CAVS SHA-256 测试向量)
+  test('should derive keys with the ANSI X9.63 KDF', () => {
+    const hex = (s: string) => new Uint8Array(s.match(/../g)!.map(b => parseInt(b, 16)));
+
+    expect(toHex(x963Kdf('SHA-256', hex('96c05619d56c328ab95fe84b18264b08725b85e33fd34f08'), 16))).toBe(
+      '443024c3dae66b95e6f5670601558f71'
+    );
+    expect(toHex(x963Kdf(
+      'SHA-256',
+      hex('22518b10e70f2a3f243810ae3254139efbee04aa57c7af7d'),
+      128,
+      hex('75eef81aa3041e33b80971203d2c0c52')
+    ))).toBe(
+      'c498af77161cc59f2962b9a713e2b215152d139766ce34a776df11866a69bf2e' +
+      '52a13d9c7c6fc878c50c5ea0bc7b00e0da2447cfd874f6cf92f30d0097111485' +
+      '500c90c3af8b487872d04685d14c8d1dc8d7fa08beb0ce0ababc11f0bd496269' +
+      '142d43525a78e5bc79a17f59676a5706dc54d54d4d1f0bd7e386128ec26afc21'
+    );
+  });
+
+  // 字符串输入应按UTF-8编码处理
+  test('should treat string input as UTF-8', () => {
+    const text = '数字签名';
+    expect(digestHex('SHA-256', text)).toBe(digestHex('SHA-256', new TextEncoder().encode(text)));
+  });
+
+  // 输出长度应与声明一致
+  test('should return digests of the declared length', () => {
+    for (const [algorithm, length] of Object.entries(HASH_OUTPUT_LENGTHS)) {
+      expect(digest(algorithm as HashAlgorithm, MSG_ABC).length).toBe(length);
+    }
+  });
+});
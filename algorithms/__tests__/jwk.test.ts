@@ -0,0 +1,143 @@
+import { JsonWebKey, constants, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
+import { computeJwkThumbprint, exportRsaPublicJwk, importPrivateJwk, importPublicJwk, Jwk } from '../jwk';
+import { ECCEncryption } from '../ECCEncryption';
+import { ECDSA } from '../ECDSA';
+import { RSA } from '../RSA';
+import { RSAEncryption } from '../RSAEncryption';
+
+// 去掉kid后与Node导出的JWK比较
+const withoutKid = ({ kid, ...jwk }: Jwk) => jwk;
+const nodeJwk = (key: string | JsonWebKey, isPrivate: boolean) => {
+  const keyObject = typeof key === 'string'
+    ? (isPrivate ? createPrivateKey(key) : createPublicKey(key))
+    : (isPrivate ? createPrivateKey({ key, format: 'jwk' }) : createPublicKey({ key, format: 'jwk' }));
+  return keyObject.export({ format: 'jwk' });
+};
+
+describe('JWK', () => {
+  // RFC 7638 3.1 中的示例RSA公钥
+  test('should compute RFC 7638 thumbprint', () => {
+    const jwk: Jwk = {
+      kty: 'RSA',
+      n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw',
+      e: 'AQAB'
+    };
+    expect(computeJwkThumbprint(jwk)).toBe('NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs');
+
+    // 非必需成员不影响指纹，导出时kid取指纹
+    expect(computeJwkThumbprint({ ...jwk, kid: '2011-04-29' })).toBe('NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs');
+    const imported = importPublicJwk(jwk);
+    if (imported.type !== 'RSA') throw new Error('密钥类型识别错误');
+    expect(exportRsaPublicJwk(imported.key)).toEqual({ ...jwk, kid: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs' });
+  });
+
+  // RSA-PSS：JWK与Node互通，并用导入的密钥互相验证签名
+  test('RSA should interoperate with Node JWK', async () => {
+    const rsa = new RSA();
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const keys = rsa.importJwk(privateKey.export({ format: 'jwk' }) as Jwk);
+
+    const exported = rsa.exportJwk(keys);
+    expect(withoutKid(exported.privateKey!)).toEqual(privateKey.export({ format: 'jwk' }));
+    expect(withoutKid(exported.publicKey)).toEqual(createPublicKey(privateKey).export({ format: 'jwk' }));
+    expect(exported.privateKey!.kid).toBe(exported.publicKey.kid);
+
+    const message = 'JWK互操作测试';
+    const signature = await rsa.sign(message, keys);
+    const signatureBytes = Buffer.from(BigInt(signature.signature).toString(16).padStart(256, '0'), 'hex');
+    const nodePublicKey = createPublicKey({ key: exported.publicKey as JsonWebKey, format: 'jwk' });
+    expect(verify('sha256', Buffer.from(message), {
+      key: nodePublicKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32
+    }, signatureBytes)).toBe(true);
+
+    // 只有公钥的JWK导入后privateKey为null，仍可验证
+    const publicOnly = rsa.importJwk(exported.publicKey);
+    expect(publicOnly.privateKey).toBeNull();
+    expect(await rsa.verify(message, signature, publicOnly)).toBe(true);
+  });
+
+  // 多素数RSA使用oth成员
+  test('RSA should round-trip multi-prime keys through oth', async () => {
+    const rsa = new RSA();
+    const keys = await rsa.generateKeys({ primes: 3 });
+    const jwk = rsa.exportJwk(keys).privateKey!;
+
+    expect(jwk.oth).toHaveLength(1);
+    const imported = rsa.importJwk(jwk);
+    expect(imported.privateKey).toEqual(keys.privateKey);
+    expect(imported.primes).toBe(3);
+
+    const signature = await rsa.sign('multi-prime', imported);
+    expect(await rsa.verify('multi-prime', signature, keys)).toBe(true);
+  });
+
+  // RSA-OAEP：JWK与PEM表示的是同一把密钥
+  test('RSAEncryption should export and import JWK', async () => {
+    const rsaEncryption = new RSAEncryption();
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const keys = rsaEncryption.importJwk(privateKey.export({ format: 'jwk' }) as Jwk);
+
+    expect(keys.privateKey).toBe((privateKey.export({ type: 'pkcs8', format: 'pem' }) as string).trim());
+    expect(withoutKid(rsaEncryption.exportJwk(keys).privateKey!)).toEqual(nodeJwk(keys.privateKey, true));
+
+    const publicOnly = rsaEncryption.importJwk(rsaEncryption.exportJwk(keys).publicKey);
+    const result = await rsaEncryption.encrypt('Hello, JWK!', publicOnly.publicKey);
+    expect(await rsaEncryption.decrypt(result, keys.privateKey)).toBe('Hello, JWK!');
+  });
+
+  // ECDSA：kty为EC、crv为secp256k1 (RFC 8812)
+  test('ECDSA should interoperate with Node JWK', async () => {
+    const ecdsa = new ECDSA();
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+    const keys = ecdsa.importJwk(privateKey.export({ format: 'jwk' }) as Jwk);
+
+    const exported = ecdsa.exportJwk(keys);
+    expect(exported.publicKey.crv).toBe('secp256k1');
+    expect(withoutKid(exported.privateKey!)).toEqual(privateKey.export({ format: 'jwk' }));
+
+    const message = 'ECDSA JWK';
+    const signature = await ecdsa.sign(message, keys);
+    const nodePublicKey = createPublicKey({ key: exported.publicKey as JsonWebKey, format: 'jwk' });
+    expect(verify('sha256', Buffer.from(message), nodePublicKey, Buffer.from(signature.signature, 'hex'))).toBe(true);
+
+    const nodeSignature = sign('sha256', Buffer.from(message), privateKey);
+    expect(await ecdsa.verify(message, { signature: nodeSignature.toString('hex') }, ecdsa.importJwk(exported.publicKey))).toBe(true);
+  });
+
+  // ECIES：压缩格式保存的公钥导出为未压缩坐标
+  test('ECCEncryption should export and import JWK', async () => {
+    const ecc = new ECCEncryption();
+    const keys = await ecc.generateKeys();
+    const exported = ecc.exportJwk(keys);
+
+    expect(withoutKid(exported.publicKey)).toEqual(nodeJwk(exported.publicKey as JsonWebKey, false));
+    const imported = ecc.importJwk(exported.privateKey!);
+    expect(imported.publicKey).toEqual(keys.publicKey);
+    expect(imported.privateKey).toEqual(keys.privateKey);
+
+    const result = await ecc.encrypt('ECIES JWK', ecc.importJwk(exported.publicKey).publicKey);
+    expect(await ecc.decrypt(result, imported.privateKey)).toBe('ECIES JWK');
+  });
+
+  // 格式错误或不一致的JWK应被拒绝
+  test('should reject malformed JWKs', async () => {
+    const ecdsa = new ECDSA();
+    const rsa = new RSA();
+    const ecJwk = ecdsa.exportJwk(await ecdsa.generateKeys()).privateKey!;
+    const otherEcJwk = ecdsa.exportJwk(await ecdsa.generateKeys()).privateKey!;
+
+    expect(() => importPublicJwk({ kty: 'oct' })).toThrow('不支持的JWK密钥类型');
+    expect(() => importPublicJwk({ kty: 'RSA', e: 'AQAB' })).toThrow('JWK缺少成员: n');
+    expect(() => importPublicJwk({ kty: 'RSA', n: 'AQAB', e: 'AQAB=' })).toThrow('base64url');
+    expect(() => importPublicJwk({ ...ecJwk, x: ecJwk.x!.substring(4) })).toThrow('长度应为32字节');
+    expect(() => importPublicJwk({ ...ecJwk, crv: 'P-192' })).toThrow('不支持的椭圆曲线');
+    expect(() => importPrivateJwk({ kty: 'RSA', n: 'AQAB', e: 'AQAB', d: 'AQAB' })).toThrow('私钥缺少CRT参数');
+
+    expect(() => ecdsa.importJwk({ ...ecJwk, d: otherEcJwk.d })).toThrow('私钥与公钥不匹配');
+    expect(() => ecdsa.importJwk({ ...ecJwk, crv: 'P-256' })).toThrow('私钥与公钥不匹配');
+    expect(() => ecdsa.importJwk({ ...ecJwk, crv: 'P-384' })).toThrow('长度应为48字节');
+    expect(() => rsa.importJwk(ecJwk)).toThrow('不是RSA密钥');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  byteDecode,
+  byteEncode,
+  compress,
+  decompress,
+  getMlKemParameters,
+  inverseNtt,
+  mlKemDecaps,
+  mlKemEncaps,
+  mlKemKeyGen,
+  mlKemSizes,
+  multiplyNtts,
+  ntt,
+  Poly,
+  Q
+} from '../mlkem';
+
+// 固定种子，保证测试可重复
+const seed = (byte: number) => new Uint8Array(32).fill(byte);
+
+// 伪随机多项式（线性同余生成器）
+const randomPoly = (state: number): Poly =>
+  Array.from({ length: 256 }, () => (state = (state * 1103515245 + 12345) % 2147483648) % Q);
+
+// R_q = Z_q[X]/(X^256 + 1) 中的教科书乘法：X^256 = -1
+const schoolbookMultiply = (f: Poly, g: Poly): Poly => {
+  const h = new Array(256).fill(0);
+  for (let i = 0; i < 256; i++) {
+    for (let j = 0; j < 256; j++) {
+      const k = i + j;
+      const product = f[i] * g[j];
+      if (k < 256) h[k] = (h[k] + product) % Q;
+      else h[k - 256] = (h[k - 256] - product + Q * Q) % Q;
+    }
+  }
+  return h;
+};
+
+/**
+ * ML-KEM (FIPS 203) 模块测试
+ */
+describe('mlkem', () => {
+  /**
+   * 测试数论变换
+   */
+  describe('NTT', () => {
+    test('逆变换应该还原多项式', () => {
+      const f = randomPoly(1);
+      expect(inverseNtt(ntt(f))).toEqual(f);
+    });
+
+    test('NTT域中的逐点乘法应该等于环上的多项式乘法', () => {
+      const f = randomPoly(2);
+      const g = randomPoly(3);
+      expect(inverseNtt(multiplyNtts(ntt(f), ntt(g)))).toEqual(schoolbookMultiply(f, g));
+    });
+  });
+
+  /**
+   * 测试编码与压缩
+   */
+  describe('编码与压缩', () => {
+    test('ByteEncode与ByteDecode应该互逆', () => {
+      const f = randomPoly(4);
+      expect(byteEncode(f, 12)).toHaveLength(384);
+      expect(byteDecode(byteEncode(f, 12), 12)).toEqual(f);
+
+      const bits = f.map(c => c & 1);
+      expect(byteDecode(byteEncode(bits, 1), 1)).toEqual(bits);
+    });
+
+    test('ByteDecode_12应该把超出q的值取模', () => {
+      const bytes = byteEncode(new Array(256).fill(4095), 12);
+      expect(byteDecode(bytes, 12)[0]).toBe(4095 % Q);
+    });
+
+    test('压缩误差不应超过 q / 2^(d+1)', () => {
+      for (const d of [1, 4, 10]) {
+        for (let x = 0; x < Q; x++) {
+          const y = compress(x, d);
+          expect(y).toBeLessThan(1 << d);
+          const error = Math.abs(decompress(y, d) - x);
+          expect(Math.min(error, Q - error)).toBeLessThanOrEqual(Math.round(Q / (1 << (d + 1))));
+        }
+      }
+    });
+
+    test('Decompress_1应该把比特映射到0和⌈q/2⌋', () => {
+      expect(decompress(0, 1)).toBe(0);
+      expect(decompress(1, 1)).toBe(1665);
+      expect(compress(832, 1)).toBe(0);
+      expect(compress(833, 1)).toBe(1);
+      expect(compress(2496, 1)).toBe(1);
+      expect(compress(2497, 1)).toBe(0);
+    });
+  });
+
+  /**
+   * 测试密钥封装机制
+   */
+  describe.each(['ML-KEM-512', 'ML-KEM-768'])('%s', (name) => {
+    const params = getMlKemParameters(name);
+    const { ek, dk } = mlKemKeyGen(params, seed(1), seed(2));
+
+    test('密钥与密文长度应该符合FIPS 203表3', () => {
+      const expected = name === 'ML-KEM-512'
+        ? { encapsulationKey: 800, decapsulationKey: 1632, ciphertext: 768 }
+        : { encapsulationKey: 1184, decapsulationKey: 2400, ciphertext: 1088 };
+      expect(mlKemSizes(params)).toEqual(expected);
+      expect(ek).toHaveLength(expected.encapsulationKey);
+      expect(dk).toHaveLength(expected.decapsulationKey);
+      expect(mlKemEncaps(params, ek, seed(3)).ciphertext).toHaveLength(expected.ciphertext);
+    });
+
+    test('密钥生成应该是确定性的', () => {
+      expect(mlKemKeyGen(params, seed(1), seed(2)).ek).toEqual(ek);
+      expect(mlKemKeyGen(params, seed(9), seed(2)).ek).not.toEqual(ek);
+    });
+
+    test('解封装应该得到与封装相同的共享密钥', () => {
+      for (let i = 0; i < 5; i++) {
+        const { sharedKey, ciphertext } = mlKemEncaps(params, ek, seed(10 + i));
+        expect(sharedKey).toHaveLength(32);
+        expect(mlKemDecaps(params, dk, ciphertext)).toEqual(sharedKey);
+      }
+    });
+
+    test('密文被篡改时应该隐式拒绝', () => {
+      const { sharedKey, ciphertext } = mlKemEncaps(params, ek, seed(20));
+      const tampered = ciphertext.slice();
+      tampered[0] ^= 0x01;
+
+      const rejected = mlKemDecaps(params, dk, tampered);
+      expect(rejected).not.toEqual(sharedKey);
+      // 隐式拒绝的结果 K̄ = J(z ‖ c) 对同一密文是确定的
+      expect(mlKemDecaps(params, dk, tampered)).toEqual(rejected);
+    });
+
+    test('应该拒绝系数超出q的封装密钥', () => {
+      const invalid = ek.slice();
+      // 第一个系数的12位全部置1，即4095 ≥ q
+      invalid[0] = 0xff;
+      invalid[1] |= 0x0f;
+      expect(() => mlKemEncaps(params, invalid, seed(3))).toThrow('超出模数q');
+      expect(() => mlKemEncaps(params, ek.subarray(1), seed(3))).toThrow('长度错误');
+    });
+
+    test('应该拒绝哈希校验失败的解封装密钥', () => {
+      const { ciphertext } = mlKemEncaps(params, ek, seed(3));
+      const invalid = dk.slice();
+      invalid[invalid.length - 40] ^= 0x01;
+      expect(() => mlKemDecaps(params, invalid, ciphertext)).toThrow('哈希校验失败');
+    });
+  });
+
+  test('应该拒绝不支持的参数集', () => {
+    expect(() => getMlKemParameters('ML-KEM-256')).toThrow('不支持的ML-KEM参数集');
+  });
+});
@@ -0,0 +1,133 @@
+import { DSA } from '../DSA';
+import { ECDSA } from '../ECDSA';
+import { digest, hmacSha256 } from '../hash';
+import { bits2int, bits2octets, generateK, int2octets } from '../rfc6979';
+import { KeyPair } from '../types';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// RFC 6979 附录A.2.1：1024位DSA密钥
+const DSA_1024 = {
+  p: BigInt('0x86F5CA03DCFEB225063FF830A0C769B9DD9D6153AD91D7CE27F787C43278B447E6533B86B18BED6E8A48B784A14C252C5BE0DBF60B86D6385BD2F12FB763ED8873ABFD3F5BA2E0A8C0A59082EAC056935E529DAF7C610467899C77ADEDFC846C881870B7B19B2B58F9BE0521A17002E3BDD6B86685EE90B3D9A1B02B782B1779'),
+  q: BigInt('0x996F967F6C8E388D9E28D01E205FBA957A5698B1'),
+  g: BigInt('0x07B0F92546150B62514BB771E2A0C0CE387F03BDA6C56B505209FF25FD3C133D89BBCD97E904E09114D9A7DEFDEADFC9078EA544D2E401AEECC40BB9FBBF78FD87995A10A1C27CB7789B594BA7EFB5C4326A9FE59A070E136DB77175464ADCA417BE5DCE2F40D10A46A3A3943F26AB7FD9C0398FF8C76EE0A56826A8A88F1DBD'),
+  x: BigInt('0x411602CB19A6CCC34494D79D98EF1E7ED5AF25F7'),
+  y: BigInt('0x5DF5E01DED31D0297E274E1691C192FE5868FEF9E19A84776454B100CF16F65392195A38B90523E2542EE61871C0440CB87C322FC4B4D2EC5E1E7EC766E1BE8D4CE935437DC11C3C8FD426338933EBFE739CB3465F4D3668C5E473508253B1E682F65CBDC4FAE93C2EA212390E54905A86E2223170B44EAA7DA5DD9FFCFB7F3B')
+};
+
+// RFC 6979 附录A.2.5：P-256曲线密钥
+const P256 = {
+  n: BigInt('0xFFFFFFFF00000000FFFFFFFFFFFFFFFFBCE6FAADA7179E84F3B9CAC2FC632551'),
+  x: BigInt('0xC9AFA9D845BA75166B5C215767B1D6934E50C3DB36E89B127B8A622B120F6721')
+};
+
+const SECP256K1_N = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
+
+describe('RFC 6979 Deterministic Nonces', () => {
+  // 测试HMAC-SHA256 (RFC 4231 测试用例1和2)
+  test('should compute HMAC-SHA256 matching RFC 4231', () => {
+    const key = new Uint8Array(20).fill(0x0b);
+    expect(toHex(hmacSha256(key, 'Hi There'))).toBe(
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+    );
+    expect(toHex(hmacSha256('Jefe', 'what do ya want for nothing?'))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  // 测试RFC 6979 2.3节的转换函数 (附录A.1示例)
+  test('should implement bits2int, int2octets and bits2octets', () => {
+    const q = BigInt('0x4000000000000000000020108A2E0CC0D99F8A5EF');
+    const h1 = digest('SHA-256', 'sample');
+    const qlen = 163;
+
+    expect(bits2int(h1, qlen).toString(16)).toBe('5795edf0d54db760f156f0eb4a7a0fe38d418e813');
+    expect(toHex(int2octets(BigInt('0x09A4D6792295A7F730FC3F2B49CBC0F62E862272F'), qlen))).toBe(
+      '009a4d6792295a7f730fc3f2b49cbc0f62e862272f'
+    );
+    expect(toHex(bits2octets(h1, q))).toBe('01795edf0d54db760f156d0dac04c0322b3a204224');
+  });
+
+  // 测试DSA的k值 (RFC 6979 附录A.2.1)
+  test('should derive DSA nonces from RFC 6979 A.2.1', () => {
+    const { q, x } = DSA_1024;
+    expect(generateK(q, x, digest('SHA-1', 'sample'), 'SHA-1').toString(16)).toBe(
+      '7bdb6b0ff756e1bb5d53583ef979082f9ad5bd5b'
+    );
+    expect(generateK(q, x, digest('SHA-256', 'sample')).toString(16)).toBe(
+      '519ba0546d0c39202a7d34d7dfa5e760b318bcfb'
+    );
+    expect(generateK(q, x, digest('SHA-256', 'test')).toString(16)).toBe(
+      '5a67592e8128e03a417b0484410fb72c0b630e1a'
+    );
+  });
+
+  // 测试ECDSA的k值 (RFC 6979 附录A.2.5)
+  test('should derive ECDSA nonces from RFC 6979 A.2.5', () => {
+    const { n, x } = P256;
+    expect(generateK(n, x, digest('SHA-256', 'sample')).toString(16)).toBe(
+      'a6e3c57dd01abe90086538398355dd4c3b17aa873382b0f24d6129493d8aad60'
+    );
+    expect(generateK(n, x, digest('SHA-256', 'test')).toString(16)).toBe(
+      'd16b6ae827f17175e040871a1c7ec3500192c4c92677336ec2537acaee0008e0'
+    );
+  });
+
+  // 跳过候选值时应得到不同且仍然合法的k
+  test('should yield the next candidate when a nonce is rejected', () => {
+    const { n, x } = P256;
+    const h1 = digest('SHA-256', 'sample');
+    const first = generateK(n, x, h1);
+    const second = generateK(n, x, h1, 'SHA-256', 1);
+
+    expect(second).not.toBe(first);
+    expect(second).toBeGreaterThan(0n);
+    expect(second).toBeLessThan(n);
+  });
+
+  // DSA签名应与RFC 6979 附录A.2.1 的 r、s 完全一致
+  test('DSA should reproduce RFC 6979 A.2.1 signatures', async () => {
+    const dsa = new DSA();
+    const keys: KeyPair = {
+      publicKey: { p: DSA_1024.p, q: DSA_1024.q, g: DSA_1024.g, y: DSA_1024.y },
+      privateKey: { x: DSA_1024.x }
+    };
+
+    const sample = await dsa.sign('sample', keys);
+    expect(BigInt(sample.r!).toString(16)).toBe('81f2f5850be5bc123c43f71a3033e9384611c545');
+    expect(BigInt(sample.s!).toString(16)).toBe('4cdd914b65eb6c66a8aaad27299bee6b035f5e89');
+
+    const testSig = await dsa.sign('test', keys);
+    expect(BigInt(testSig.r!).toString(16)).toBe('22518c127299b0f6fdc9872b282b9e70d0790812');
+    expect(BigInt(testSig.s!).toString(16)).toBe('6837ec18f150d55de95b5e29be7af5d01e4fe160');
+
+    expect(await dsa.verify('sample', sample, keys)).toBe(true);
+    console.info('RFC 6979 DSA签名 (sample):', sample.r, sample.s);
+  });
+
+  // ECDSA (secp256k1) 对相同消息应产生相同签名，且k与RFC 6979一致
+  test('ECDSA should sign deterministically on secp256k1', async () => {
+    const ecdsa = new ECDSA();
+    // 私钥d = 1时公钥即为基点G
+    const keys: KeyPair = {
+      publicKey: {
+        x: '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+        y: '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8',
+        curve: 'secp256k1'
+      },
+      privateKey: { d: '01', curve: 'secp256k1' }
+    };
+
+    const k = generateK(SECP256K1_N, 1n, digest('SHA-256', 'Satoshi Nakamoto'));
+    expect(k.toString(16)).toBe('8f8a276c19f4149656b280621e358cce24f5f52542772691ee69063b74f15d15');
+
+    const first = await ecdsa.sign('Satoshi Nakamoto', keys);
+    const second = await ecdsa.sign('Satoshi Nakamoto', keys);
+    expect(first.r).toBe('934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8');
+    // secp256k1签名取low-s：s = n − 0xdbbd3162…675c，与比特币常用的测试向量一致
+    expect(first.s).toBe('2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5');
+    expect(second.signature).toBe(first.signature);
+
+    expect(await ecdsa.verify('Satoshi Nakamoto', first, keys)).toBe(true);
+  });
+});
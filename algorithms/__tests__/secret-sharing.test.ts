@@ -0,0 +1,121 @@
+import {
+  evaluatePolynomial,
+  fieldPrimeFor,
+  getPrivateKeySecret,
+  lagrangeCoefficients,
+  recoverSecret,
+  splitSecret,
+  withPrivateKeySecret
+} from '../secret-sharing';
+import { AlgorithmFactory, EncryptionAlgorithmFactory } from '../index';
+
+/**
+ * Shamir秘密共享模块测试
+ */
+describe('secret-sharing', () => {
+  /**
+   * 测试素数域的选取
+   */
+  test('应该选取比秘密大的最小梅森素数', () => {
+    expect(fieldPrimeFor(12345n)).toBe((1n << 127n) - 1n);
+    expect(fieldPrimeFor((1n << 127n) - 1n)).toBe((1n << 521n) - 1n);
+    expect(fieldPrimeFor((1n << 4096n) - 1n)).toBe((1n << 4253n) - 1n);
+    expect(() => fieldPrimeFor(1n << 4423n)).toThrow('秘密太大');
+  });
+
+  /**
+   * 测试多项式求值与拉格朗日系数
+   */
+  test('小参数下应该满足教科书计算', () => {
+    const p = 7919n;
+    // f(x) = 1234 + 166x + 94x²
+    const coefficients = [1234n, 166n, 94n];
+    expect(evaluatePolynomial(coefficients, 1n, p)).toBe(1494n);
+    expect(evaluatePolynomial(coefficients, 2n, p)).toBe(1942n);
+    expect(evaluatePolynomial(coefficients, 3n, p)).toBe(2578n);
+
+    // x = 1, 2, 3时 λ = (3, −3, 1)
+    expect(lagrangeCoefficients([1n, 2n, 3n], p)).toEqual([3n, p - 3n, 1n]);
+    expect(recoverSecret([{ x: 1n, y: 1494n }, { x: 2n, y: 1942n }, { x: 3n, y: 2578n }], p)).toBe(1234n);
+  });
+
+  /**
+   * 测试任意t个份额都能恢复秘密
+   */
+  test('任意t个份额都应该恢复出秘密，少于t个则不能', () => {
+    const secret = 0xdeadbeefcafebaben;
+    const { prime, coefficients, shares } = splitSecret(secret, 5, 3);
+    expect(coefficients).toHaveLength(3);
+    expect(coefficients[0]).toBe(secret);
+    expect(shares.map(share => share.x)).toEqual([1n, 2n, 3n, 4n, 5n]);
+
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          expect(recoverSecret([shares[c], shares[a], shares[b]], prime)).toBe(secret);
+        }
+        expect(recoverSecret([shares[a], shares[b]], prime)).not.toBe(secret);
+      }
+    }
+    expect(recoverSecret(shares, prime)).toBe(secret);
+  });
+
+  /**
+   * 测试参数校验
+   */
+  test('应该拒绝无效的门限参数与份额', () => {
+    expect(() => splitSecret(1n, 3, 4)).toThrow('无效的门限参数');
+    expect(() => splitSecret(1n, 3, 1)).toThrow('无效的门限参数');
+    expect(() => splitSecret(20n, 3, 2, 17n)).toThrow('[0, p)');
+    expect(() => lagrangeCoefficients([1n, 2n, 1n], 17n)).toThrow('不能重复');
+    expect(() => lagrangeCoefficients([1n, 17n], 17n)).toThrow('不能为0');
+    expect(() => recoverSecret([], 17n)).toThrow('至少需要一个份额');
+  });
+
+  /**
+   * 测试拆分并恢复各算法的私钥后仍能签名或解密
+   */
+  describe('私钥拆分与恢复', () => {
+    const roundTrip = (algorithm: string, keys: any) => {
+      const secret = getPrivateKeySecret(algorithm, keys);
+      const { prime, shares } = splitSecret(secret, 5, 3);
+      const recovered = recoverSecret([shares[4], shares[1], shares[2]], prime);
+      expect(recovered).toBe(secret);
+      return withPrivateKeySecret(algorithm, keys, recovered);
+    };
+
+    test.each([
+      ['RSA', { keySize: 1024 }],
+      ['DSA', { keySize: 1024, subgroupSize: 160 }],
+      ['ECDSA', { curve: 'P-256' }]
+    ])('恢复的%s私钥应该能生成有效签名', async (algorithm, options) => {
+      const signer = AlgorithmFactory.getAlgorithm(algorithm);
+      const keys = await signer.generateKeys(options);
+      const restored = roundTrip(algorithm, keys);
+
+      // RSA重建的私钥不带CRT参数，签名只能用恢复出的d完成
+      if (algorithm === 'RSA') {
+        expect(restored.privateKey.p).toBeUndefined();
+      }
+
+      const signature = await signer.sign('秘密共享', restored);
+      expect(await signer.verify('秘密共享', signature, keys)).toBe(true);
+    }, 60000);
+
+    test.each([
+      ['ElGamal', { keySize: 1536 }],
+      ['ECC', { curve: 'secp256k1' }]
+    ])('恢复的%s私钥应该能解密', async (algorithm, options) => {
+      const cipher = EncryptionAlgorithmFactory.getAlgorithm(algorithm);
+      const keys = await cipher.generateKeys(options);
+      const restored = roundTrip(algorithm, keys);
+
+      const encrypted = await cipher.encrypt('秘密共享', keys.publicKey);
+      expect(await cipher.decrypt(encrypted, restored.privateKey)).toBe('秘密共享');
+    }, 60000);
+
+    test('应该拒绝不支持的算法', () => {
+      expect(() => getPrivateKeySecret('Ed25519', { publicKey: {}, privateKey: {} })).toThrow('不支持拆分');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  AES,
+  aesCbcDecrypt,
+  aesCbcEncrypt,
+  aesCtrDecrypt,
+  aesCtrEncrypt,
+  aesGcmDecrypt,
+  aesGcmEncrypt,
+  pkcs7Pad,
+  pkcs7Unpad
+} from '../symmetric';
+
+const hex = (s: string) => new Uint8Array(s.match(/../g)!.map(b => parseInt(b, 16)));
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// SP 800-38A 附录F使用的明文与AES-128密钥
+const SP800_38A_KEY = hex('2b7e151628aed2a6abf7158809cf4f3c');
+const SP800_38A_PLAINTEXT = hex(
+  '6bc1bee22e409f96e93d7e117393172a' +
+  'ae2d8a571e03ac9c9eb76fac45af8e51' +
+  '30c81c46a35ce411e5fbc1191a0a52ef' +
+  'f69f2445df4f9b17ad2b417be66c3710'
+);
+
+describe('Symmetric Encryption (AES)', () => {
+  // FIPS 197 附录C的分组加密示例
+  describe('AES block cipher', () => {
+    const plaintext = hex('00112233445566778899aabbccddeeff');
+    const vectors = [
+      { key: '000102030405060708090a0b0c0d0e0f', expected: '69c4e0d86a7b0430d8cdb78070b4c55a' },
+      { key: '000102030405060708090a0b0c0d0e0f1011121314151617', expected: 'dda97ca4864cdfe06eaf70a0ec0d7191' },
+      {
+        key: '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f',
+        expected: '8ea2b7ca516745bfeafc49904b496089'
+      }
+    ];
+
+    for (const { key, expected } of vectors) {
+      test(`AES-${key.length * 4} should match FIPS 197 Appendix C`, () => {
+        const aes = new AES(hex(key));
+        const ciphertext = aes.encryptBlock(plaintext);
+        expect(toHex(ciphertext)).toBe(expected);
+        expect(toHex(aes.decryptBlock(ciphertext))).toBe(toHex(plaintext));
+      });
+    }
+
+    // 非法密钥长度应被拒绝
+    test('should reject invalid key lengths', () => {
+      expect(() => new AES(new Uint8Array(20))).toThrow();
+    });
+  });
+
+  // SP 800-38A F.2.1 CBC-AES128
+  test('CBC should match SP 800-38A F.2.1 and round-trip with PKCS#7', () => {
+    const iv = hex('000102030405060708090a0b0c0d0e0f');
+    const ciphertext = aesCbcEncrypt(SP800_38A_KEY, iv, SP800_38A_PLAINTEXT);
+
+    // 明文恰为分组整数倍，PKCS#7会额外补一个完整分组
+    expect(ciphertext.length).toBe(80);
+    expect(toHex(ciphertext.slice(0, 64))).toBe(
+      '7649abac8119b246cee98e9b12e9197d' +
+      '5086cb9b507219ee95db113a917678b2' +
+      '73bed6b8e3c1743b7116e69e22229516' +
+      '3ff1caa1681fac09120eca307586e1a7'
+    );
+    expect(toHex(aesCbcDecrypt(SP800_38A_KEY, iv, ciphertext))).toBe(toHex(SP800_38A_PLAINTEXT));
+  });
+
+  // SP 800-38A F.5.1 CTR-AES128
+  test('CTR should match SP 800-38A F.5.1', () => {
+    const counter = hex('f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff');
+    const ciphertext = aesCtrEncrypt(SP800_38A_KEY, counter, SP800_38A_PLAINTEXT);
+
+    expect(toHex(ciphertext)).toBe(
+      '874d6191b620e3261bef6864990db6ce' +
+      '9806f66b7970fdff8617187bb9fffdff' +
+      '5ae4df3edbd5d35e5b4f09020db03eab' +
+      '1e031dda2fbe03d1792170a0f3009cee'
+    );
+    expect(toHex(aesCtrDecrypt(SP800_38A_KEY, counter, ciphertext))).toBe(toHex(SP800_38A_PLAINTEXT));
+
+    // CTR无需填充，密文长度与明文一致
+    expect(aesCtrEncrypt(SP800_38A_KEY, counter, new Uint8Array(5)).length).toBe(5);
+  });
+
+  // GCM规范 (McGrew & Viega) 测试用例
+  describe('GCM', () => {
+    test('should match GCM test cases 1 and 2', () => {
+      const key = new Uint8Array(16);
+      const iv = new Uint8Array(12);
+
+      const empty = aesGcmEncrypt(key, iv, new Uint8Array(0));
+      expect(empty.ciphertext.length).toBe(0);
+      expect(toHex(empty.tag)).toBe('58e2fccefa7e3061367f1d57a4e7455a');
+
+      const zeros = aesGcmEncrypt(key, iv, new Uint8Array(16));
+      expect(toHex(zeros.ciphertext)).toBe('0388dace60b6a392f328c2b971b2fe78');
+      expect(toHex(zeros.tag)).toBe('ab6e47d42cec13bdf53a67b21257bddf');
+    });
+
+    test('should match GCM test case 4 with additional data', () => {
+      const key = hex('feffe9928665731c6d6a8f9467308308');
+      const iv = hex('cafebabefacedbaddecaf888');
+      const plaintext = hex(
+        'd9313225f88406e5a55909c5aff5269a' +
+        '86a7a9531534f7da2e4c303d8a318a72' +
+        '1c3c0c95956809532fcf0e2449a6b525' +
+        'b16aedf5aa0de657ba637b39'
+      );
+      const aad = hex('feedfacedeadbeeffeedfacedeadbeefabaddad2');
+
+      const { ciphertext, tag } = aesGcmEncrypt(key, iv, plaintext, aad);
+      expect(toHex(ciphertext)).toBe(
+        '42831ec2217774244b7221b784d0d49c' +
+        'e3aa212f2c02a4e035c17e2329aca12e' +
+        '21d514b25466931c7d8f6a5aac84aa05' +
+        '1ba30b396a0aac973d58e091'
+      );
+      expect(toHex(tag)).toBe('5bc94fbc3221a5db94fae95ae7121a47');
+      expect(toHex(aesGcmDecrypt(key, iv, ciphertext, tag, aad))).toBe(toHex(plaintext));
+    });
+
+    // 篡改密文、标签或附加数据都应导致认证失败
+    test('should reject tampered ciphertext, tag or additional data', () => {
+      const key = hex('feffe9928665731c6d6a8f9467308308');
+      const iv = hex('cafebabefacedbaddecaf888');
+      const aad = new TextEncoder().encode('header');
+      const { ciphertext, tag } = aesGcmEncrypt(key, iv, new TextEncoder().encode('Hello, GCM!'), aad);
+
+      const badCiphertext = new Uint8Array(ciphertext);
+      badCiphertext[0] ^= 1;
+      const badTag = new Uint8Array(tag);
+      badTag[15] ^= 1;
+
+      expect(() => aesGcmDecrypt(key, iv, badCiphertext, tag, aad)).toThrow();
+      expect(() => aesGcmDecrypt(key, iv, ciphertext, badTag, aad)).toThrow();
+      expect(() => aesGcmDecrypt(key, iv, ciphertext, tag, new Uint8Array(0))).toThrow();
+    });
+  });
+
+  // PKCS#7填充格式校验
+  test('should validate PKCS#7 padding', () => {
+    expect(toHex(pkcs7Pad(hex('aabbcc')))).toBe('aabbcc' + '0d'.repeat(13));
+    expect(toHex(pkcs7Unpad(pkcs7Pad(hex('aabbcc'))))).toBe('aabbcc');
+
+    const invalid = pkcs7Pad(hex('aabbcc'));
+    invalid[10] = 0x01;
+    expect(() => pkcs7Unpad(invalid)).toThrow();
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * ASN.1 DER编码与解码 (ITU-T X.690)
+ * 只实现密钥格式需要的通用类型：INTEGER、BIT STRING、OCTET STRING、NULL、
+ * OBJECT IDENTIFIER、SEQUENCE以及上下文标签，解码时严格按照DER规则校验
+ */
+
+/**
+ * 常用的ASN.1标签（标识字节）
+ */
+export const ASN1_TAG = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  SEQUENCE: 0x30
+} as const;
+
+/**
+ * 解码得到的ASN.1元素
+ */
+export interface Asn1Node {
+  tag: number; // 标识字节，如0x30表示SEQUENCE，0xa0表示[0]
+  constructed: boolean; // 是否为构造类型
+  content: Uint8Array; // 内容字节
+  children: Asn1Node[]; // 构造类型的子元素（原始类型为空数组）
+}
+
+// ==================== 编码 ====================
+
+/**
+ * 编码DER长度字段
+ * @param length 内容长度
+ * @returns 短格式（<128）或长格式的长度字节
+ */
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return new Uint8Array([length]);
+  }
+
+  const bytes: number[] = [];
+  for (let value = length; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return new Uint8Array([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * 连接多个字节数组
+ */
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const totalLength = arrays.reduce((acc, array) => acc + array.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * 编码一个TLV（标签-长度-内容）元素
+ * @param tag 标识字节
+ * @param content 内容字节
+ * @returns DER编码
+ */
+export function encodeTlv(tag: number, content: Uint8Array): Uint8Array {
+  return concat(new Uint8Array([tag]), encodeLength(content.length), content);
+}
+
+/**
+ * 编码INTEGER（二进制补码，最短表示）
+ * @param value 整数值
+ * @returns DER编码
+ */
+export function encodeInteger(value: bigint): Uint8Array {
+  const bytes: number[] = [];
+  let temp = value;
+
+  // 逐字节取低8位，直到剩余部分可以由符号位表示
+  while (true) {
+    const byte = Number(temp & 0xffn);
+    bytes.unshift(byte);
+    temp >>= 8n;
+    if ((temp === 0n && (byte & 0x80) === 0) || (temp === -1n && (byte & 0x80) !== 0)) {
+      break;
+    }
+  }
+
+  return encodeTlv(ASN1_TAG.INTEGER, new Uint8Array(bytes));
+}
+
+/**
+ * 编码BIT STRING
+ * @param bytes 比特串内容
+ * @param unusedBits 最后一个字节中未使用的位数
+ * @returns DER编码
+ */
+export function encodeBitString(bytes: Uint8Array, unusedBits: number = 0): Uint8Array {
+  return encodeTlv(ASN1_TAG.BIT_STRING, concat(new Uint8Array([unusedBits]), bytes));
+}
+
+/**
+ * 编码OCTET STRING
+ * @param bytes 字节串内容
+ * @returns DER编码
+ */
+export function encodeOctetString(bytes: Uint8Array): Uint8Array {
+  return encodeTlv(ASN1_TAG.OCTET_STRING, bytes);
+}
+
+/**
+ * 编码NULL
+ * @returns DER编码
+ */
+export function encodeNull(): Uint8Array {
+  return new Uint8Array([ASN1_TAG.NULL, 0x00]);
+}
+
+/**
+ * 编码OBJECT IDENTIFIER
+ * @param oid 点分十进制表示，如"1.2.840.113549.1.1.1"
+ * @returns DER编码
+ */
+export function encodeObjectIdentifier(oid: string): Uint8Array {
+  const arcs = oid.split('.').map(arc => BigInt(arc));
+  if (arcs.length < 2 || arcs[0] > 2n || (arcs[0] < 2n && arcs[1] >= 40n)) {
+    throw new Error(`无效的对象标识符: ${oid}`);
+  }
+
+  // 前两个弧合并为 40 * X + Y，其余每个弧按base-128编码，除最后一个字节外最高位置1
+  const values = [arcs[0] * 40n + arcs[1], ...arcs.slice(2)];
+  const bytes: number[] = [];
+  for (const value of values) {
+    const group: number[] = [Number(value & 0x7fn)];
+    for (let temp = value >> 7n; temp > 0n; temp >>= 7n) {
+      group.unshift(Number(temp & 0x7fn) | 0x80);
+    }
+    bytes.push(...group);
+  }
+
+  return encodeTlv(ASN1_TAG.OBJECT_IDENTIFIER, new Uint8Array(bytes));
+}
+
+/**
+ * 编码SEQUENCE
+ * @param elements 已编码的子元素
+ * @returns DER编码
+ */
+export function encodeSequence(...elements: Uint8Array[]): Uint8Array {
+  return encodeTlv(ASN1_TAG.SEQUENCE, concat(...elements));
+}
+
+/**
+ * 编码显式上下文标签 [n]
+ * @param tagNumber 标签号（0–30）
+ * @param element 已编码的内部元素
+ * @returns DER编码
+ */
+export function encodeExplicit(tagNumber: number, element: Uint8Array): Uint8Array {
+  return encodeTlv(0xa0 | tagNumber, element);
+}
+
+// ==================== 解码 ====================
+
+/**
+ * 从指定位置解析一个元素
+ * @param bytes 输入字节
+ * @param offset 起始位置
+ * @returns 解析得到的元素与结束位置
+ */
+function decodeAt(bytes: Uint8Array, offset: number): { node: Asn1Node; end: number } {
+  if (offset + 2 > bytes.length) {
+    throw new Error('ASN.1解码错误: 数据被截断');
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('ASN.1解码错误: 不支持多字节标签');
+  }
+
+  // 解析长度：DER禁止不定长格式，且长度必须使用最短编码
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length === 0x80) {
+    throw new Error('ASN.1解码错误: DER不允许不定长编码');
+  }
+  if (length > 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes > 4 || offset + 2 + lengthBytes > bytes.length) {
+      throw new Error('ASN.1解码错误: 无效的长度字段');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    if (length < 0x80 || bytes[offset + 2] === 0) {
+      throw new Error('ASN.1解码错误: 长度未使用最短编码');
+    }
+    headerLength += lengthBytes;
+  }
+
+  const start = offset + headerLength;
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new Error('ASN.1解码错误: 数据被截断');
+  }
+
+  const constructed = (tag & 0x20) !== 0;
+  const content = bytes.slice(start, end);
+  const children: Asn1Node[] = [];
+
+  if (constructed) {
+    let position = 0;
+    while (position < content.length) {
+      const child = decodeAt(content, position);
+      children.push(child.node);
+      position = child.end;
+    }
+  }
+
+  return { node: { tag, constructed, content, children }, end };
+}
+
+/**
+ * 解码DER数据，要求输入恰好是一个完整的元素
+ * @param bytes DER编码
+ * @returns 解码得到的元素树
+ */
+export function decodeDer(bytes: Uint8Array): Asn1Node {
+  const { node, end } = decodeAt(bytes, 0);
+  if (end !== bytes.length) {
+    throw new Error('ASN.1解码错误: 元素之后存在多余数据');
+  }
+  return node;
+}
+
+/**
+ * 检查元素的标签
+ * @param node ASN.1元素
+ * @param tag 期望的标识字节
+ * @param name 用于错误信息的类型名称
+ */
+export function expectTag(node: Asn1Node, tag: number, name: string): void {
+  if (node.tag !== tag) {
+    throw new Error(`ASN.1解码错误: 期望${name}，实际标签为0x${node.tag.toString(16)}`);
+  }
+}
+
+/**
+ * 读取INTEGER
+ * @param node ASN.1元素
+ * @returns 整数值
+ */
+export function readInteger(node: Asn1Node): bigint {
+  expectTag(node, ASN1_TAG.INTEGER, 'INTEGER');
+  const bytes = node.content;
+  if (bytes.length === 0) {
+    throw new Error('ASN.1解码错误: INTEGER内容为空');
+  }
+  if (bytes.length > 1 && ((bytes[0] === 0x00 && (bytes[1] & 0x80) === 0) || (bytes[0] === 0xff && (bytes[1] & 0x80) !== 0))) {
+    throw new Error('ASN.1解码错误: INTEGER未使用最短编码');
+  }
+
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+
+  // 最高位为1表示负数（二进制补码）
+  if (bytes[0] & 0x80) {
+    value -= 1n << BigInt(bytes.length * 8);
+  }
+  return value;
+}
+
+/**
+ * 读取BIT STRING（要求按字节对齐）
+ * @param node ASN.1元素
+ * @returns 比特串内容
+ */
+export function readBitString(node: Asn1Node): Uint8Array {
+  expectTag(node, ASN1_TAG.BIT_STRING, 'BIT STRING');
+  if (node.content.length === 0 || node.content[0] !== 0) {
+    throw new Error('ASN.1解码错误: BIT STRING未按字节对齐');
+  }
+  return node.content.slice(1);
+}
+
+/**
+ * 读取OCTET STRING
+ * @param node ASN.1元素
+ * @returns 字节串内容
+ */
+export function readOctetString(node: Asn1Node): Uint8Array {
+  expectTag(node, ASN1_TAG.OCTET_STRING, 'OCTET STRING');
+  return node.content;
+}
+
+/**
+ * 读取OBJECT IDENTIFIER
+ * @param node ASN.1元素
+ * @returns 点分十进制表示
+ */
+export function readObjectIdentifier(node: Asn1Node): string {
+  expectTag(node, ASN1_TAG.OBJECT_IDENTIFIER, 'OBJECT IDENTIFIER');
+  const bytes = node.content;
+  if (bytes.length === 0 || (bytes[bytes.length - 1] & 0x80) !== 0) {
+    throw new Error('ASN.1解码错误: 无效的对象标识符');
+  }
+
+  const values: bigint[] = [];
+  let current = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    if (current === 0n && bytes[i] === 0x80) {
+      throw new Error('ASN.1解码错误: 对象标识符未使用最短编码');
+    }
+    current = (current << 7n) | BigInt(bytes[i] & 0x7f);
+    if ((bytes[i] & 0x80) === 0) {
+      values.push(current);
+      current = 0n;
+    }
+  }
+
+  // 拆分第一个值为前两个弧
+  const first = values[0] < 80n ? values[0] / 40n : 2n;
+  const second = values[0] - first * 40n;
+  return [first, second, ...values.slice(1)].join('.');
+}
+
+// ==================== PEM ====================
+
+/**
+ * 将DER编码封装为PEM文本 (RFC 7468)
+ * @param label PEM标签，如"PUBLIC KEY"
+ * @param der DER编码
+ * @returns PEM文本，每行64个字符
+ */
+export function encodePem(label: string, der: Uint8Array): string {
+  const base64 = btoa(Array.from(der, byte => String.fromCharCode(byte)).join(''));
+  const lines = base64.match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----`;
+}
+
+/**
+ * 解析PEM文本
+ * @param pem PEM文本
+ * @returns PEM标签和DER编码
+ */
+export function decodePem(pem: string): { label: string; der: Uint8Array } {
+  const match = pem.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!match) {
+    throw new Error('无效的PEM格式');
+  }
+
+  const base64 = match[2].replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    throw new Error('无效的PEM格式: Base64内容错误');
+  }
+
+  const binary = atob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    der[i] = binary.charCodeAt(i);
+  }
+  return { label: match[1], der };
+}
@@ -0,0 +1,833 @@
+/**
+ * BLS12-381配对友好曲线
+ * G1: y² = x³ + 4 定义在Fp上；G2: y² = x³ + 4(1 + i) 定义在Fp2上（M型六次扭曲）
+ * 扩域塔 Fp2 = Fp[i]/(i² + 1)，Fp6 = Fp2[v]/(v³ − ξ)，Fp12 = Fp6[w]/(w² − v)，ξ = 1 + i
+ * 配对为最优ate配对 e: G1 × G2 → GT ⊂ Fp12，Miller循环长度为曲线参数|x| = 0xd201000000010000
+ */
+import { sha256 } from './hash';
+
+/**
+ * 曲线参数x（负数），p与r都由它生成：r = x⁴ − x² + 1，p = (x − 1)²·r/3 + x
+ */
+export const BLS_X = -0xd201000000010000n;
+
+/**
+ * 基域的素数p（381位）
+ */
+export const P = 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffaaabn;
+
+/**
+ * G1、G2与GT的素数阶r（255位）
+ */
+export const R = 0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001n;
+
+/**
+ * G2的余因子：E'(Fp2)的阶为 H2·r
+ */
+export const H2 = 0x5d543a95414e7f1091d50792876a202cd91de4547085abaa68a205b2e5a7ddfa628f1cb4d9e82ef21537e293a6691ae1616ec6e786f0c70cf1c38e31c7238e5n;
+
+/**
+ * 有限域运算，G1与G2的点运算按此接口对Fp和Fp2通用
+ */
+export interface Field<T> {
+  zero: T;
+  one: T;
+  add(a: T, b: T): T;
+  sub(a: T, b: T): T;
+  mul(a: T, b: T): T;
+  sqr(a: T): T;
+  neg(a: T): T;
+  inv(a: T): T;
+  eq(a: T, b: T): boolean;
+  isZero(a: T): boolean;
+}
+
+/**
+ * Fp2元素 c0 + c1·i
+ */
+export interface Fp2 {
+  c0: bigint;
+  c1: bigint;
+}
+
+/**
+ * Fp6元素 c0 + c1·v + c2·v²
+ */
+export interface Fp6 {
+  c0: Fp2;
+  c1: Fp2;
+  c2: Fp2;
+}
+
+/**
+ * Fp12元素 c0 + c1·w
+ */
+export interface Fp12 {
+  c0: Fp6;
+  c1: Fp6;
+}
+
+/**
+ * 雅可比坐标下的曲线点 (X : Y : Z)，对应仿射点 (X/Z², Y/Z³)；Z = 0为无穷远点
+ */
+export interface JacobianPoint<T> {
+  x: T;
+  y: T;
+  z: T;
+}
+
+/**
+ * 仿射坐标下的曲线点
+ */
+export interface AffinePoint<T> {
+  x: T;
+  y: T;
+}
+
+export type G1Point = JacobianPoint<bigint>;
+export type G2Point = JacobianPoint<Fp2>;
+
+// ---------------------------------------------------------------- Fp
+
+function mod(a: bigint): bigint {
+  const result = a % P;
+  return result < 0n ? result + P : result;
+}
+
+/**
+ * 计算模逆元（扩展欧几里得算法）
+ */
+function fpInv(a: bigint): bigint {
+  let [old_r, r] = [mod(a), P];
+  let [old_s, s] = [1n, 0n];
+
+  while (r !== 0n) {
+    const quotient = old_r / r;
+    [old_r, r] = [r, old_r - quotient * r];
+    [old_s, s] = [s, old_s - quotient * s];
+  }
+
+  if (old_r !== 1n) {
+    throw new Error('零元素没有逆元');
+  }
+  return mod(old_s);
+}
+
+function fpPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % P;
+    base = (base * base) % P;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+export const Fp: Field<bigint> = {
+  zero: 0n,
+  one: 1n,
+  add: (a, b) => {
+    const sum = a + b;
+    return sum >= P ? sum - P : sum;
+  },
+  sub: (a, b) => {
+    const difference = a - b;
+    return difference < 0n ? difference + P : difference;
+  },
+  mul: (a, b) => (a * b) % P,
+  sqr: a => (a * a) % P,
+  neg: a => (a === 0n ? 0n : P - a),
+  inv: fpInv,
+  eq: (a, b) => a === b,
+  isZero: a => a === 0n
+};
+
+/**
+ * Fp中的平方根：p ≡ 3 (mod 4)，√a = a^((p+1)/4)；a不是平方数时返回null
+ */
+export function fpSqrt(a: bigint): bigint | null {
+  const root = fpPow(a, (P + 1n) / 4n);
+  return (root * root) % P === mod(a) ? root : null;
+}
+
+// ---------------------------------------------------------------- Fp2
+
+function fp2(c0: bigint, c1: bigint = 0n): Fp2 {
+  return { c0, c1 };
+}
+
+function fp2Pow(base: Fp2, exponent: bigint): Fp2 {
+  let result = Fp2.one;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = Fp2.mul(result, base);
+    base = Fp2.sqr(base);
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+export const Fp2: Field<Fp2> & {
+  conjugate(a: Fp2): Fp2;
+  mulByNonresidue(a: Fp2): Fp2;
+  scale(a: Fp2, k: bigint): Fp2;
+} = {
+  zero: fp2(0n),
+  one: fp2(1n),
+  add: (a, b) => fp2(Fp.add(a.c0, b.c0), Fp.add(a.c1, b.c1)),
+  sub: (a, b) => fp2(Fp.sub(a.c0, b.c0), Fp.sub(a.c1, b.c1)),
+  // Karatsuba：(a0 + a1·i)(b0 + b1·i) = (a0b0 − a1b1) + ((a0 + a1)(b0 + b1) − a0b0 − a1b1)·i
+  mul: (a, b) => {
+    const t0 = a.c0 * b.c0;
+    const t1 = a.c1 * b.c1;
+    return fp2(mod(t0 - t1), mod((a.c0 + a.c1) * (b.c0 + b.c1) - t0 - t1));
+  },
+  sqr: a => fp2(mod((a.c0 + a.c1) * (a.c0 - a.c1)), mod(2n * a.c0 * a.c1)),
+  neg: a => fp2(Fp.neg(a.c0), Fp.neg(a.c1)),
+  // (a0 + a1·i)⁻¹ = (a0 − a1·i) / (a0² + a1²)
+  inv: a => {
+    const norm = fpInv(a.c0 * a.c0 + a.c1 * a.c1);
+    return fp2((a.c0 * norm) % P, mod(-a.c1 * norm));
+  },
+  eq: (a, b) => a.c0 === b.c0 && a.c1 === b.c1,
+  isZero: a => a.c0 === 0n && a.c1 === 0n,
+  // 共轭，也是Fp2上的Frobenius映射 a ↦ a^p
+  conjugate: a => fp2(a.c0, Fp.neg(a.c1)),
+  // 乘以ξ = 1 + i
+  mulByNonresidue: a => fp2(Fp.sub(a.c0, a.c1), Fp.add(a.c0, a.c1)),
+  scale: (a, k) => fp2((a.c0 * k) % P, (a.c1 * k) % P)
+};
+
+/**
+ * 判断Fp2元素是否为平方数：当且仅当范数a0² + a1²是Fp中的平方数
+ */
+export function fp2IsSquare(a: Fp2): boolean {
+  const norm = mod(a.c0 * a.c0 + a.c1 * a.c1);
+  return fpPow(norm, (P - 1n) / 2n) !== P - 1n;
+}
+
+/**
+ * Fp2中的平方根（p ≡ 3 (mod 4)时的复数法），a不是平方数时返回null
+ */
+export function fp2Sqrt(a: Fp2): Fp2 | null {
+  if (Fp2.isZero(a)) {
+    return Fp2.zero;
+  }
+  const a1 = fp2Pow(a, (P - 3n) / 4n);
+  const alpha = Fp2.mul(Fp2.sqr(a1), a);
+  const x0 = Fp2.mul(a1, a);
+
+  let x: Fp2;
+  if (Fp2.eq(alpha, fp2(P - 1n))) {
+    // x = i·x0
+    x = fp2(Fp.neg(x0.c1), x0.c0);
+  } else {
+    x = Fp2.mul(fp2Pow(Fp2.add(Fp2.one, alpha), (P - 1n) / 2n), x0);
+  }
+  return Fp2.eq(Fp2.sqr(x), a) ? x : null;
+}
+
+/**
+ * Fp2元素的符号 sgn0 (RFC 9380 4.1)
+ */
+export function fp2Sgn0(a: Fp2): number {
+  const sign0 = Number(a.c0 % 2n);
+  const sign1 = Number(a.c1 % 2n);
+  return sign0 | (a.c0 === 0n ? sign1 : 0);
+}
+
+// ---------------------------------------------------------------- Fp6、Fp12
+
+function fp6(c0: Fp2, c1: Fp2, c2: Fp2): Fp6 {
+  return { c0, c1, c2 };
+}
+
+const Fp6 = {
+  zero: fp6(Fp2.zero, Fp2.zero, Fp2.zero),
+  one: fp6(Fp2.one, Fp2.zero, Fp2.zero),
+  add: (a: Fp6, b: Fp6) => fp6(Fp2.add(a.c0, b.c0), Fp2.add(a.c1, b.c1), Fp2.add(a.c2, b.c2)),
+  sub: (a: Fp6, b: Fp6) => fp6(Fp2.sub(a.c0, b.c0), Fp2.sub(a.c1, b.c1), Fp2.sub(a.c2, b.c2)),
+  neg: (a: Fp6) => fp6(Fp2.neg(a.c0), Fp2.neg(a.c1), Fp2.neg(a.c2)),
+  mul: (a: Fp6, b: Fp6): Fp6 => {
+    const t0 = Fp2.mul(a.c0, b.c0);
+    const t1 = Fp2.mul(a.c1, b.c1);
+    const t2 = Fp2.mul(a.c2, b.c2);
+    return fp6(
+      Fp2.add(t0, Fp2.mulByNonresidue(Fp2.sub(Fp2.mul(Fp2.add(a.c1, a.c2), Fp2.add(b.c1, b.c2)), Fp2.add(t1, t2)))),
+      Fp2.add(Fp2.sub(Fp2.mul(Fp2.add(a.c0, a.c1), Fp2.add(b.c0, b.c1)), Fp2.add(t0, t1)), Fp2.mulByNonresidue(t2)),
+      Fp2.add(Fp2.sub(Fp2.mul(Fp2.add(a.c0, a.c2), Fp2.add(b.c0, b.c2)), Fp2.add(t0, t2)), t1)
+    );
+  },
+  // 乘以v：(c0 + c1·v + c2·v²)·v = ξ·c2 + c0·v + c1·v²
+  mulByV: (a: Fp6) => fp6(Fp2.mulByNonresidue(a.c2), a.c0, a.c1),
+  inv: (a: Fp6): Fp6 => {
+    const A = Fp2.sub(Fp2.sqr(a.c0), Fp2.mulByNonresidue(Fp2.mul(a.c1, a.c2)));
+    const B = Fp2.sub(Fp2.mulByNonresidue(Fp2.sqr(a.c2)), Fp2.mul(a.c0, a.c1));
+    const C = Fp2.sub(Fp2.sqr(a.c1), Fp2.mul(a.c0, a.c2));
+    const F = Fp2.inv(Fp2.add(
+      Fp2.mul(a.c0, A),
+      Fp2.mulByNonresidue(Fp2.add(Fp2.mul(a.c2, B), Fp2.mul(a.c1, C)))
+    ));
+    return fp6(Fp2.mul(A, F), Fp2.mul(B, F), Fp2.mul(C, F));
+  },
+  eq: (a: Fp6, b: Fp6) => Fp2.eq(a.c0, b.c0) && Fp2.eq(a.c1, b.c1) && Fp2.eq(a.c2, b.c2)
+};
+
+// Frobenius系数 γ_k = ξ^(k(p−1)/6)：(a·w^k)^p = ā·γ_k·w^k
+const FROBENIUS_COEFFICIENTS = [0n, 1n, 2n, 3n, 4n, 5n].map(k => fp2Pow(fp2(1n, 1n), (k * (P - 1n)) / 6n));
+
+export const Fp12 = {
+  one: { c0: Fp6.one, c1: Fp6.zero } as Fp12,
+  mul: (a: Fp12, b: Fp12): Fp12 => {
+    const t0 = Fp6.mul(a.c0, b.c0);
+    const t1 = Fp6.mul(a.c1, b.c1);
+    return {
+      c0: Fp6.add(t0, Fp6.mulByV(t1)),
+      c1: Fp6.sub(Fp6.mul(Fp6.add(a.c0, a.c1), Fp6.add(b.c0, b.c1)), Fp6.add(t0, t1))
+    };
+  },
+  // (a0 + a1·w)² = (a0 + a1)(a0 + v·a1) − t − v·t + 2t·w，t = a0·a1
+  sqr: (a: Fp12): Fp12 => {
+    const t = Fp6.mul(a.c0, a.c1);
+    const c0 = Fp6.sub(Fp6.sub(Fp6.mul(Fp6.add(a.c0, a.c1), Fp6.add(a.c0, Fp6.mulByV(a.c1))), t), Fp6.mulByV(t));
+    return { c0, c1: Fp6.add(t, t) };
+  },
+  // (a0 + a1·w)⁻¹ = (a0 − a1·w) / (a0² − v·a1²)
+  inv: (a: Fp12): Fp12 => {
+    const t = Fp6.inv(Fp6.sub(Fp6.mul(a.c0, a.c0), Fp6.mulByV(Fp6.mul(a.c1, a.c1))));
+    return { c0: Fp6.mul(a.c0, t), c1: Fp6.neg(Fp6.mul(a.c1, t)) };
+  },
+  // 共轭 a ↦ a^(p⁶)，在分圆子群中等于求逆
+  conjugate: (a: Fp12): Fp12 => ({ c0: a.c0, c1: Fp6.neg(a.c1) }),
+  // Frobenius映射 a ↦ a^p：c0 = g0 + g1·w² + g2·w⁴，c1 = h0·w + h1·w³ + h2·w⁵
+  frobenius: (a: Fp12): Fp12 => {
+    const [, g1, g2, g3, g4, g5] = FROBENIUS_COEFFICIENTS;
+    return {
+      c0: fp6(Fp2.conjugate(a.c0.c0), Fp2.mul(Fp2.conjugate(a.c0.c1), g2), Fp2.mul(Fp2.conjugate(a.c0.c2), g4)),
+      c1: fp6(Fp2.mul(Fp2.conjugate(a.c1.c0), g1), Fp2.mul(Fp2.conjugate(a.c1.c1), g3), Fp2.mul(Fp2.conjugate(a.c1.c2), g5))
+    };
+  },
+  eq: (a: Fp12, b: Fp12) => Fp6.eq(a.c0, b.c0) && Fp6.eq(a.c1, b.c1)
+};
+
+// ---------------------------------------------------------------- 曲线点
+
+/**
+ * 在y² = x³ + b上的点运算，a = 0
+ */
+export interface CurveOps<T> {
+  field: Field<T>;
+  b: T;
+  infinity: JacobianPoint<T>;
+  generator: JacobianPoint<T>;
+  isInfinity(P: JacobianPoint<T>): boolean;
+  fromAffine(P: AffinePoint<T>): JacobianPoint<T>;
+  toAffine(P: JacobianPoint<T>): AffinePoint<T> | null;
+  isOnCurve(P: AffinePoint<T>): boolean;
+  add(P: JacobianPoint<T>, Q: JacobianPoint<T>): JacobianPoint<T>;
+  double(P: JacobianPoint<T>): JacobianPoint<T>;
+  negate(P: JacobianPoint<T>): JacobianPoint<T>;
+  multiply(P: JacobianPoint<T>, k: bigint): JacobianPoint<T>;
+  equals(P: JacobianPoint<T>, Q: JacobianPoint<T>): boolean;
+}
+
+function curveOps<T>(F: Field<T>, b: T, generator: AffinePoint<T>): CurveOps<T> {
+  const infinity: JacobianPoint<T> = { x: F.one, y: F.one, z: F.zero };
+  const isInfinity = (P: JacobianPoint<T>) => F.isZero(P.z);
+
+  // dbl-2009-l：A = X², B = Y², C = B², D = 2((X + B)² − A − C), E = 3A
+  const double = (P: JacobianPoint<T>): JacobianPoint<T> => {
+    if (isInfinity(P) || F.isZero(P.y)) return infinity;
+    const A = F.sqr(P.x);
+    const B = F.sqr(P.y);
+    const C = F.sqr(B);
+    let D = F.sub(F.sub(F.sqr(F.add(P.x, B)), A), C);
+    D = F.add(D, D);
+    const E = F.add(F.add(A, A), A);
+    const x = F.sub(F.sqr(E), F.add(D, D));
+    let C8 = F.add(C, C);
+    C8 = F.add(C8, C8);
+    C8 = F.add(C8, C8);
+    const y = F.sub(F.mul(E, F.sub(D, x)), C8);
+    const yz = F.mul(P.y, P.z);
+    return { x, y, z: F.add(yz, yz) };
+  };
+
+  // add-2007-bl
+  const add = (P: JacobianPoint<T>, Q: JacobianPoint<T>): JacobianPoint<T> => {
+    if (isInfinity(P)) return Q;
+    if (isInfinity(Q)) return P;
+    const Z1Z1 = F.sqr(P.z);
+    const Z2Z2 = F.sqr(Q.z);
+    const U1 = F.mul(P.x, Z2Z2);
+    const U2 = F.mul(Q.x, Z1Z1);
+    const S1 = F.mul(F.mul(P.y, Q.z), Z2Z2);
+    const S2 = F.mul(F.mul(Q.y, P.z), Z1Z1);
+    const H = F.sub(U2, U1);
+    const r = F.add(F.sub(S2, S1), F.sub(S2, S1));
+    if (F.isZero(H)) {
+      // 同一个点时倍点，互为负点时和为无穷远点
+      return F.isZero(r) ? double(P) : infinity;
+    }
+    const I = F.sqr(F.add(H, H));
+    const J = F.mul(H, I);
+    const V = F.mul(U1, I);
+    const x = F.sub(F.sub(F.sqr(r), J), F.add(V, V));
+    const S1J = F.mul(S1, J);
+    const y = F.sub(F.mul(r, F.sub(V, x)), F.add(S1J, S1J));
+    const z = F.mul(F.sub(F.sub(F.sqr(F.add(P.z, Q.z)), Z1Z1), Z2Z2), H);
+    return { x, y, z };
+  };
+
+  const negate = (P: JacobianPoint<T>): JacobianPoint<T> => ({ x: P.x, y: F.neg(P.y), z: P.z });
+
+  // 从高位到低位的倍加算法，k为负数时先取负点
+  const multiply = (P: JacobianPoint<T>, k: bigint): JacobianPoint<T> => {
+    if (k < 0n) return multiply(negate(P), -k);
+    let result = infinity;
+    for (let i = k.toString(2).length - 1; i >= 0; i--) {
+      result = double(result);
+      if ((k >> BigInt(i)) & 1n) {
+        result = add(result, P);
+      }
+    }
+    return result;
+  };
+
+  const toAffine = (P: JacobianPoint<T>): AffinePoint<T> | null => {
+    if (isInfinity(P)) return null;
+    const zInv = F.inv(P.z);
+    const zInv2 = F.sqr(zInv);
+    return { x: F.mul(P.x, zInv2), y: F.mul(F.mul(P.y, zInv2), zInv) };
+  };
+
+  // X1·Z2² = X2·Z1² 且 Y1·Z2³ = Y2·Z1³
+  const equals = (P: JacobianPoint<T>, Q: JacobianPoint<T>): boolean => {
+    if (isInfinity(P) || isInfinity(Q)) return isInfinity(P) && isInfinity(Q);
+    const Z1Z1 = F.sqr(P.z);
+    const Z2Z2 = F.sqr(Q.z);
+    return F.eq(F.mul(P.x, Z2Z2), F.mul(Q.x, Z1Z1)) &&
+      F.eq(F.mul(F.mul(P.y, Q.z), Z2Z2), F.mul(F.mul(Q.y, P.z), Z1Z1));
+  };
+
+  return {
+    field: F,
+    b,
+    infinity,
+    generator: { x: generator.x, y: generator.y, z: F.one },
+    isInfinity,
+    fromAffine: point => ({ x: point.x, y: point.y, z: F.one }),
+    toAffine,
+    isOnCurve: point => F.eq(F.sqr(point.y), F.add(F.mul(F.sqr(point.x), point.x), b)),
+    add,
+    double,
+    negate,
+    multiply,
+    equals
+  };
+}
+
+/**
+ * G1：E(Fp): y² = x³ + 4
+ */
+export const G1 = curveOps(Fp, 4n, {
+  x: 0x17f1d3a73197d7942695638c4fa9ac0fc3688c4f9774b905a14e3a3f171bac586c55e83ff97a1aeffb3af00adb22c6bbn,
+  y: 0x08b3f481e3aaa0f1a09e30ed741d8ae4fcf5e095d5d00af600db18cb2c04b3edd03cc744a2888ae40caa232946c5e7e1n
+});
+
+/**
+ * G2：E'(Fp2): y² = x³ + 4(1 + i)
+ */
+export const G2 = curveOps(Fp2, fp2(4n, 4n), {
+  x: fp2(
+    0x024aa2b2f08f0a91260805272dc51051c6e47ad4fa403b02b4510b647ae3d1770bac0326a805bbefd48056c8c121bdb8n,
+    0x13e02b6052719f607dacd3a088274f65596bd0d09920b61ab5da61bbdc7f5049334cf11213945d57e5ac7d055d042b7en
+  ),
+  y: fp2(
+    0x0ce5d527727d6e118cc9cdc6da2e351aadfd9baa8cbdd3a76d429a695160d12c923ac9cc3baca289e193548608b82801n,
+    0x0606c4a02ea734cc32acd2b02bc28b99cb3e287e85a763af267492ab572e99ab3f370d275cec1da1aaa9075ff05f79ben
+  )
+});
+
+// ---------------------------------------------------------------- 配对
+
+/**
+ * Miller循环中的直线函数在P处的取值
+ * 扭曲映射 (x', y') ↦ (x'/w², y'/w³) 把T送到E(Fp12)，直线 y − y_T − λ(x − x_T) 乘以w³后为
+ * (λ·x_T − y_T) + (−λ·x_P)·w² + y_P·w³，乘上的w³属于Fp4，会被最终幂消去
+ */
+function lineValue(lambda: Fp2, T: AffinePoint<Fp2>, P: AffinePoint<bigint>): Fp12 {
+  return {
+    c0: fp6(Fp2.sub(Fp2.mul(lambda, T.x), T.y), Fp2.neg(Fp2.scale(lambda, P.x)), Fp2.zero),
+    c1: fp6(Fp2.zero, fp2(P.y), Fp2.zero)
+  };
+}
+
+/**
+ * 多个点对共享平方运算的Miller循环，返回 Π f_(|x|, Q_i)(P_i)；x < 0时再取共轭
+ * @param pairs G1与G2的仿射点对
+ */
+export function millerLoop(pairs: { P: AffinePoint<bigint>; Q: AffinePoint<Fp2> }[]): Fp12 {
+  const loop = -BLS_X;
+  const bits = loop.toString(2);
+  const T = pairs.map(pair => ({ ...pair.Q }));
+  let f = Fp12.one;
+
+  for (let i = 1; i < bits.length; i++) {
+    f = Fp12.sqr(f);
+    pairs.forEach((pair, j) => {
+      // 切线：λ = 3x_T² / (2y_T)
+      const t = T[j];
+      const lambda = Fp2.mul(Fp2.scale(Fp2.sqr(t.x), 3n), Fp2.inv(Fp2.add(t.y, t.y)));
+      f = Fp12.mul(f, lineValue(lambda, t, pair.P));
+      const x = Fp2.sub(Fp2.sqr(lambda), Fp2.add(t.x, t.x));
+      T[j] = { x, y: Fp2.sub(Fp2.mul(lambda, Fp2.sub(t.x, x)), t.y) };
+    });
+
+    if (bits[i] === '1') {
+      pairs.forEach((pair, j) => {
+        // 过T与Q的直线：λ = (y_Q − y_T) / (x_Q − x_T)
+        const t = T[j];
+        const lambda = Fp2.mul(Fp2.sub(pair.Q.y, t.y), Fp2.inv(Fp2.sub(pair.Q.x, t.x)));
+        f = Fp12.mul(f, lineValue(lambda, t, pair.P));
+        const x = Fp2.sub(Fp2.sub(Fp2.sqr(lambda), t.x), pair.Q.x);
+        T[j] = { x, y: Fp2.sub(Fp2.mul(lambda, Fp2.sub(t.x, x)), t.y) };
+      });
+    }
+  }
+
+  return BLS_X < 0n ? Fp12.conjugate(f) : f;
+}
+
+// 最终幂的困难部分 (p⁴ − p² + 1)/r 按p进制展开的四个数字
+const HARD_EXPONENT_DIGITS = (() => {
+  let hard = (P ** 4n - P ** 2n + 1n) / R;
+  const digits: bigint[] = [];
+  for (let i = 0; i < 4; i++) {
+    digits.push(hard % P);
+    hard /= P;
+  }
+  return digits;
+})();
+
+/**
+ * 最终幂 f^((p¹² − 1)/r)
+ * 简单部分 (p⁶ − 1)(p² + 1) 只需共轭、求逆与Frobenius；困难部分写成 λ0 + λ1·p + λ2·p² + λ3·p³，
+ * 用 f, f^p, f^(p²), f^(p³) 的多重幂一次完成
+ */
+export function finalExponentiation(f: Fp12): Fp12 {
+  // 简单部分
+  const f1 = Fp12.mul(Fp12.conjugate(f), Fp12.inv(f));
+  const f2 = Fp12.mul(Fp12.frobenius(Fp12.frobenius(f1)), f1);
+
+  // 困难部分：预计算四个底数所有子集的乘积
+  const bases = [f2];
+  for (let i = 1; i < 4; i++) {
+    bases.push(Fp12.frobenius(bases[i - 1]));
+  }
+  const table: Fp12[] = [Fp12.one];
+  for (let mask = 1; mask < 16; mask++) {
+    const low = mask & -mask;
+    table[mask] = Fp12.mul(table[mask ^ low], bases[Math.log2(low)]);
+  }
+
+  const length = Math.max(...HARD_EXPONENT_DIGITS.map(d => d.toString(2).length));
+  let result = Fp12.one;
+  for (let bit = length - 1; bit >= 0; bit--) {
+    result = Fp12.sqr(result);
+    let mask = 0;
+    HARD_EXPONENT_DIGITS.forEach((digit, i) => {
+      if ((digit >> BigInt(bit)) & 1n) mask |= 1 << i;
+    });
+    if (mask) {
+      result = Fp12.mul(result, table[mask]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 多个配对的乘积 Π e(P_i, Q_i)，只做一次最终幂；含无穷远点的点对贡献为1
+ */
+export function pairingProduct(pairs: [G1Point, G2Point][]): Fp12 {
+  const affine = pairs
+    .map(([P, Q]) => ({ P: G1.toAffine(P), Q: G2.toAffine(Q) }))
+    .filter((pair): pair is { P: AffinePoint<bigint>; Q: AffinePoint<Fp2> } => pair.P !== null && pair.Q !== null);
+  return finalExponentiation(millerLoop(affine));
+}
+
+/**
+ * 最优ate配对 e(P, Q)
+ */
+export function pairing(P: G1Point, Q: G2Point): Fp12 {
+  return pairingProduct([[P, Q]]);
+}
+
+// ---------------------------------------------------------------- 哈希到G2 (RFC 9380)
+
+/**
+ * expand_message_xmd (RFC 9380 5.3.1)，哈希函数为SHA-256
+ * @param message 消息
+ * @param dst 域分隔标签
+ * @param length 输出字节数，不超过255·32
+ */
+export function expandMessageXmd(message: Uint8Array, dst: Uint8Array, length: number): Uint8Array {
+  const ell = Math.ceil(length / 32);
+  if (ell > 255 || dst.length > 255) {
+    throw new Error('expand_message_xmd参数过大');
+  }
+  const dstPrime = concat(dst, new Uint8Array([dst.length]));
+  const b0 = sha256(concat(new Uint8Array(64), message, new Uint8Array([length >> 8, length & 0xff, 0]), dstPrime));
+
+  const blocks = [sha256(concat(b0, new Uint8Array([1]), dstPrime))];
+  for (let i = 2; i <= ell; i++) {
+    const previous = blocks[blocks.length - 1];
+    const xored = b0.map((byte, j) => byte ^ previous[j]);
+    blocks.push(sha256(concat(xored, new Uint8Array([i]), dstPrime)));
+  }
+  return concat(...blocks).slice(0, length);
+}
+
+/**
+ * hash_to_field：把消息映射为count个Fp2元素，每个分量取64字节再模p（RFC 9380 5.2）
+ */
+export function hashToField(message: Uint8Array, dst: Uint8Array, count: number): Fp2[] {
+  const L = 64;
+  const uniform = expandMessageXmd(message, dst, count * 2 * L);
+  return Array.from({ length: count }, (_, i) => {
+    const [c0, c1] = [0, 1].map(j => mod(bytesToBigInt(uniform.slice(L * (j + i * 2), L * (j + i * 2 + 1)))));
+    return fp2(c0, c1);
+  });
+}
+
+// SSWU映射所用的同源曲线 E'': y² = x³ + A'·x + B'，A' = 240·i，B' = 1012·(1 + i)，Z = −(2 + i) (RFC 9380 8.8.2)
+const SSWU_A = fp2(0n, 240n);
+const SSWU_B = fp2(1012n, 1012n);
+const SSWU_Z = fp2(P - 2n, P - 1n);
+
+// E'' → E'的3次同源映射系数 (RFC 9380 附录E.3)，按x的升幂排列，分母的最高次项系数为1
+const ISOGENY = [
+  // x_num: k_(1,0) … k_(1,3)
+  [
+    [0x5c759507e8e333ebb5b7a9a47d7ed8532c52d39fd3a042a88b58423c50ae15d5c2638e343d9c71c6238aaaaaaaa97d6n, 0x5c759507e8e333ebb5b7a9a47d7ed8532c52d39fd3a042a88b58423c50ae15d5c2638e343d9c71c6238aaaaaaaa97d6n],
+    [0n, 0x11560bf17baa99bc32126fced787c88f984f87adf7ae0c7f9a208c6b4f20a4181472aaa9cb8d555526a9ffffffffc71an],
+    [0x11560bf17baa99bc32126fced787c88f984f87adf7ae0c7f9a208c6b4f20a4181472aaa9cb8d555526a9ffffffffc71en, 0x8ab05f8bdd54cde190937e76bc3e447cc27c3d6fbd7063fcd104635a790520c0a395554e5c6aaaa9354ffffffffe38dn],
+    [0x171d6541fa38ccfaed6dea691f5fb614cb14b4e7f4e810aa22d6108f142b85757098e38d0f671c7188e2aaaaaaaa5ed1n, 0n]
+  ],
+  // x_den: k_(2,0)、k_(2,1)、1
+  [
+    [0n, 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffaa63n],
+    [0xcn, 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffaa9fn],
+    [1n, 0n]
+  ],
+  // y_num: k_(3,0) … k_(3,3)
+  [
+    [0x1530477c7ab4113b59a4c18b076d11930f7da5d4a07f649bf54439d87d27e500fc8c25ebf8c92f6812cfc71c71c6d706n, 0x1530477c7ab4113b59a4c18b076d11930f7da5d4a07f649bf54439d87d27e500fc8c25ebf8c92f6812cfc71c71c6d706n],
+    [0n, 0x5c759507e8e333ebb5b7a9a47d7ed8532c52d39fd3a042a88b58423c50ae15d5c2638e343d9c71c6238aaaaaaaa97ben],
+    [0x11560bf17baa99bc32126fced787c88f984f87adf7ae0c7f9a208c6b4f20a4181472aaa9cb8d555526a9ffffffffc71cn, 0x8ab05f8bdd54cde190937e76bc3e447cc27c3d6fbd7063fcd104635a790520c0a395554e5c6aaaa9354ffffffffe38fn],
+    [0x124c9ad43b6cf79bfbf7043de3811ad0761b0f37a1e26286b0e977c69aa274524e79097a56dc4bd9e1b371c71c718b10n, 0n]
+  ],
+  // y_den: k_(4,0) … k_(4,2)、1
+  [
+    [0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffa8fbn, 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffa8fbn],
+    [0n, 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffa9d3n],
+    [0x12n, 0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffaa99n],
+    [1n, 0n]
+  ]
+].map(coefficients => coefficients.map(([c0, c1]) => fp2(c0, c1)));
+
+/**
+ * G2的有效余因子h_eff (RFC 9380 8.8.2)：乘以h_eff与Budroni–Pintore的快速清除余因子结果相同
+ */
+export const H_EFF = 0xbc69f08f2ee75b3584c6a0ea91b352888e2a8e9145ad7689986ff031508ffe1329c2f178731db956d82bf015d1212b02ec0ec69d7477c1ae954cbc06689f6a359894c0adebbf6b4e8020005aaa95551n;
+
+/**
+ * 简化SWU映射 (RFC 9380 6.6.2)：把Fp2元素映射到同源曲线E''上的点
+ * E'的A = 0，不能直接使用SSWU，因此先映射到A'·B' ≠ 0的E''，再经3次同源到E'
+ */
+export function mapToCurveSswu(u: Fp2): AffinePoint<Fp2> {
+  const g = (x: Fp2) => Fp2.add(Fp2.add(Fp2.mul(Fp2.sqr(x), x), Fp2.mul(SSWU_A, x)), SSWU_B);
+
+  // tv1 = 1 / (Z²·u⁴ + Z·u²)
+  const Zu2 = Fp2.mul(SSWU_Z, Fp2.sqr(u));
+  const denominator = Fp2.add(Fp2.sqr(Zu2), Zu2);
+
+  // x1 = (−B/A)·(1 + tv1)；tv1 = 0时 x1 = B/(Z·A)
+  const x1 = Fp2.isZero(denominator)
+    ? Fp2.mul(SSWU_B, Fp2.inv(Fp2.mul(SSWU_Z, SSWU_A)))
+    : Fp2.mul(Fp2.neg(Fp2.mul(SSWU_B, Fp2.inv(SSWU_A))), Fp2.add(Fp2.one, Fp2.inv(denominator)));
+
+  // g(x1)与g(Z·u²·x1)中恰有一个是平方数
+  const gx1 = g(x1);
+  const x = fp2IsSquare(gx1) ? x1 : Fp2.mul(Zu2, x1);
+  let y = fp2Sqrt(g(x))!;
+  if (fp2Sgn0(u) !== fp2Sgn0(y)) {
+    y = Fp2.neg(y);
+  }
+  return { x, y };
+}
+
+/**
+ * 3次同源映射 E'' → E'：x = x_num/x_den，y = y·y_num/y_den；分母为0时得到无穷远点
+ */
+export function isogenyMapG2(point: AffinePoint<Fp2>): G2Point {
+  const [xNum, xDen, yNum, yDen] = ISOGENY.map(coefficients =>
+    coefficients.reduceRight((acc, k) => Fp2.add(Fp2.mul(acc, point.x), k), Fp2.zero)
+  );
+  if (Fp2.isZero(xDen) || Fp2.isZero(yDen)) {
+    return G2.infinity;
+  }
+  return G2.fromAffine({
+    x: Fp2.mul(xNum, Fp2.inv(xDen)),
+    y: Fp2.mul(point.y, Fp2.mul(yNum, Fp2.inv(yDen)))
+  });
+}
+
+/**
+ * hash_to_curve (BLS12381G2_XMD:SHA-256_SSWU_RO_)：两个域元素分别经SSWU与同源映射后相加，
+ * 再乘以h_eff进入r阶子群G2
+ * @param message 消息字节
+ * @param dst 域分隔标签
+ */
+export function hashToG2(message: Uint8Array, dst: Uint8Array): G2Point {
+  const [u0, u1] = hashToField(message, dst, 2);
+  const Q = G2.add(isogenyMapG2(mapToCurveSswu(u0)), isogenyMapG2(mapToCurveSswu(u1)));
+  return G2.multiply(Q, H_EFF);
+}
+
+// ---------------------------------------------------------------- 序列化
+
+// 压缩格式首字节的标志位：压缩、无穷远点、y取两个根中较大的一个
+const COMPRESSED_FLAG = 0x80;
+const INFINITY_FLAG = 0x40;
+const SIGN_FLAG = 0x20;
+const HALF_P = (P - 1n) / 2n;
+
+/**
+ * G1点的48字节压缩编码（十六进制）
+ */
+export function g1ToHex(point: G1Point): string {
+  const affine = G1.toAffine(point);
+  if (!affine) {
+    return 'c0' + '00'.repeat(47);
+  }
+  const bytes = bigIntToBytes(affine.x, 48);
+  bytes[0] |= COMPRESSED_FLAG | (affine.y > HALF_P ? SIGN_FLAG : 0);
+  return bytesToHex(bytes);
+}
+
+/**
+ * 解码48字节压缩的G1点，并检查它在r阶子群中
+ */
+export function g1FromHex(hex: string): G1Point {
+  const bytes = hexToBytes(hex);
+  if (bytes.length !== 48 || !(bytes[0] & COMPRESSED_FLAG)) {
+    throw new Error('G1点须为48字节压缩编码');
+  }
+  if (bytes[0] & INFINITY_FLAG) {
+    return G1.infinity;
+  }
+  const sign = (bytes[0] & SIGN_FLAG) !== 0;
+  bytes[0] &= 0x1f;
+  const x = bytesToBigInt(bytes);
+  if (x >= P) {
+    throw new Error('G1点的x坐标超出范围');
+  }
+  let y = fpSqrt(x * x * x + 4n);
+  if (y === null) {
+    throw new Error('x坐标不在曲线上');
+  }
+  if ((y > HALF_P) !== sign) {
+    y = Fp.neg(y);
+  }
+  const point = G1.fromAffine({ x, y });
+  if (!G1.isInfinity(G1.multiply(point, R))) {
+    throw new Error('点不在r阶子群中');
+  }
+  return point;
+}
+
+/**
+ * G2点的96字节压缩编码（十六进制），x按 x.c1 || x.c0 的顺序
+ */
+export function g2ToHex(point: G2Point): string {
+  const affine = G2.toAffine(point);
+  if (!affine) {
+    return 'c0' + '00'.repeat(95);
+  }
+  const bytes = concat(bigIntToBytes(affine.x.c1, 48), bigIntToBytes(affine.x.c0, 48));
+  bytes[0] |= COMPRESSED_FLAG | (fp2IsLarger(affine.y) ? SIGN_FLAG : 0);
+  return bytesToHex(bytes);
+}
+
+/**
+ * 解码96字节压缩的G2点，并检查它在r阶子群中
+ */
+export function g2FromHex(hex: string): G2Point {
+  const bytes = hexToBytes(hex);
+  if (bytes.length !== 96 || !(bytes[0] & COMPRESSED_FLAG)) {
+    throw new Error('G2点须为96字节压缩编码');
+  }
+  if (bytes[0] & INFINITY_FLAG) {
+    return G2.infinity;
+  }
+  const sign = (bytes[0] & SIGN_FLAG) !== 0;
+  bytes[0] &= 0x1f;
+  const x = fp2(bytesToBigInt(bytes.slice(48)), bytesToBigInt(bytes.slice(0, 48)));
+  if (x.c0 >= P || x.c1 >= P) {
+    throw new Error('G2点的x坐标超出范围');
+  }
+  let y = fp2Sqrt(Fp2.add(Fp2.mul(Fp2.sqr(x), x), G2.b));
+  if (y === null) {
+    throw new Error('x坐标不在曲线上');
+  }
+  if (fp2IsLarger(y) !== sign) {
+    y = Fp2.neg(y);
+  }
+  const point = G2.fromAffine({ x, y });
+  if (!G2.isInfinity(G2.multiply(point, R))) {
+    throw new Error('点不在r阶子群中');
+  }
+  return point;
+}
+
+/**
+ * y是否为y与−y中按字典序较大的一个：先比较c1，c1为0时比较c0
+ */
+function fp2IsLarger(y: Fp2): boolean {
+  return y.c1 > HALF_P || (y.c1 === 0n && y.c0 > HALF_P);
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const hex = value.toString(16).padStart(length * 2, '0');
+  return hexToBytes(hex);
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('无效的十六进制字符串');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,117 @@
+/**
+ * 椭圆曲线参数注册表
+ * 短Weierstrass曲线 y² = x³ + ax + b (mod p)，基点G的阶为n，余因子均为1
+ * NIST素数曲线取自FIPS 186-4 附录D.1.2（a = p - 3），secp256k1取自SEC 2 2.4.1（a = 0）
+ */
+import { HashAlgorithm } from './hash';
+
+/**
+ * 椭圆曲线域参数
+ */
+export interface CurveParameters {
+  name: string; // 曲线名称，与PEM/JWK中使用的名称一致
+  p: bigint; // 素数域大小
+  a: bigint; // 曲线参数a
+  b: bigint; // 曲线参数b
+  Gx: bigint; // 基点x坐标
+  Gy: bigint; // 基点y坐标
+  n: bigint; // 基点阶
+  size: number; // 坐标与私钥的字节长度
+  bits: number; // 基点阶n的位长，即密钥长度
+  hash: HashAlgorithm; // ECDSA签名默认使用的哈希函数，安全强度与曲线匹配
+}
+
+const P256 = 0xFFFFFFFF00000001000000000000000000000000FFFFFFFFFFFFFFFFFFFFFFFFn;
+const P384 = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFFFF0000000000000000FFFFFFFFn;
+const P521 = (1n << 521n) - 1n;
+
+/**
+ * 支持的命名曲线
+ */
+export const CURVES: Record<string, CurveParameters> = {
+  secp256k1: {
+    name: 'secp256k1',
+    p: 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2Fn,
+    a: 0n,
+    b: 7n,
+    Gx: 0x79BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798n,
+    Gy: 0x483ADA7726A3C4655DA4FBFC0E1108A8FD17B448A68554199C47D08FFB10D4B8n,
+    n: 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141n,
+    size: 32,
+    bits: 256,
+    hash: 'SHA-256'
+  },
+  'P-256': {
+    name: 'P-256',
+    p: P256,
+    a: P256 - 3n,
+    b: 0x5AC635D8AA3A93E7B3EBBD55769886BC651D06B0CC53B0F63BCE3C3E27D2604Bn,
+    Gx: 0x6B17D1F2E12C4247F8BCE6E563A440F277037D812DEB33A0F4A13945D898C296n,
+    Gy: 0x4FE342E2FE1A7F9B8EE7EB4A7C0F9E162BCE33576B315ECECBB6406837BF51F5n,
+    n: 0xFFFFFFFF00000000FFFFFFFFFFFFFFFFBCE6FAADA7179E84F3B9CAC2FC632551n,
+    size: 32,
+    bits: 256,
+    hash: 'SHA-256'
+  },
+  'P-384': {
+    name: 'P-384',
+    p: P384,
+    a: P384 - 3n,
+    b: 0xB3312FA7E23EE7E4988E056BE3F82D19181D9C6EFE8141120314088F5013875AC656398D8A2ED19D2A85C8EDD3EC2AEFn,
+    Gx: 0xAA87CA22BE8B05378EB1C71EF320AD746E1D3B628BA79B9859F741E082542A385502F25DBF55296C3A545E3872760AB7n,
+    Gy: 0x3617DE4A96262C6F5D9E98BF9292DC29F8F41DBD289A147CE9DA3113B5F0B8C00A60B1CE1D7E819D7A431D7C90EA0E5Fn,
+    n: 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFC7634D81F4372DDF581A0DB248B0A77AECEC196ACCC52973n,
+    size: 48,
+    bits: 384,
+    hash: 'SHA-384'
+  },
+  'P-521': {
+    name: 'P-521',
+    p: P521,
+    a: P521 - 3n,
+    b: 0x0051953EB9618E1C9A1F929A21A0B68540EEA2DA725B99B315F3B8B489918EF109E156193951EC7E937B1652C0BD3BB1BF073573DF883D2C34F1EF451FD46B503F00n,
+    Gx: 0x00C6858E06B70404E9CD9E3ECB662395B4429C648139053FB521F828AF606B4D3DBAA14B5E77EFE75928FE1DC127A2FFA8DE3348B3C1856A429BF97E7E31C2E5BD66n,
+    Gy: 0x011839296A789A3BC0045C8A5FB42C7D1BD998F54449579B446817AFBD17273E662C97EE72995EF42640C550B9013FAD0761353C7086A272C24088BE94769FD16650n,
+    n: 0x01FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFA51868783BF2F966B7FCC0148F709A5D03BB5C9B8899C47AEBB6FB71E91386409n,
+    size: 66,
+    bits: 521,
+    hash: 'SHA-512'
+  }
+};
+
+/**
+ * 默认曲线，未指定曲线的旧密钥也按此曲线处理
+ */
+export const DEFAULT_CURVE = 'secp256k1';
+
+/**
+ * 支持的曲线名称，按安全强度排列
+ */
+export const CURVE_NAMES = ['secp256k1', 'P-256', 'P-384', 'P-521'];
+
+/**
+ * 按名称查找曲线参数
+ * @param name 曲线名称，省略时返回默认曲线
+ * @returns 曲线参数
+ */
+export function getCurve(name: string = DEFAULT_CURVE): CurveParameters {
+  const curve = CURVES[name];
+  if (!curve) {
+    throw new Error(`不支持的曲线: ${name}`);
+  }
+  return curve;
+}
+
+/**
+ * 判断点是否在曲线上（不含无穷远点）
+ * @param curve 曲线参数
+ * @param x 点的x坐标
+ * @param y 点的y坐标
+ */
+export function isOnCurve(curve: CurveParameters, x: bigint, y: bigint): boolean {
+  const { p, a, b } = curve;
+  if (x < 0n || x >= p || y < 0n || y >= p) {
+    return false;
+  }
+  return (y * y - (x * x * x + a * x + b)) % p === 0n;
+}
@@ -2,6 +2,9 @@ import { EncryptionAlgorithm, KeyPair, EncryptionResult } from './encryption-typ
 import { RSAEncryption } from './RSAEncryption';
 import { ElGamalEncryption } from './ElGamalEncryption';
 import { ECCEncryption } from './ECCEncryption';
+import { MLKEMEncryption } from './MLKEMEncryption';
+import { PaillierEncryption } from './PaillierEncryption';
+import { RabinEncryption } from './RabinEncryption';
 
 // 导出类型，方便其他模块使用
 export type { KeyPair, EncryptionResult, EncryptionAlgorithm };
@@ -17,12 +20,12 @@ export class EncryptionAlgorithmFactory {
    * @returns 加密算法名称数组
    */
   static getAvailableAlgorithms(): string[] {
-    return ['RSA', 'ElGamal', 'ECC'];
+    return ['RSA', 'ElGamal', 'ECC', 'ML-KEM', 'Paillier', 'Rabin'];
   }
 
   /**
    * 获取指定算法的实例
-   * @param algorithm 算法名称: 'RSA', 'ElGamal', 或 'ECC'
+   * @param algorithm 算法名称: 'RSA', 'ElGamal', 'ECC'、'ML-KEM'、'Paillier' 或 'Rabin'
    * @returns 算法实例
    */
   static getAlgorithm(algorithm: string): EncryptionAlgorithm {
@@ -39,6 +42,15 @@ export class EncryptionAlgorithmFactory {
         case 'ECC':
           this.instances[algorithmName] = new ECCEncryption();
           break;
+        case 'ML-KEM':
+          this.instances[algorithmName] = new MLKEMEncryption();
+          break;
+        case 'PAILLIER':
+          this.instances[algorithmName] = new PaillierEncryption();
+          break;
+        case 'RABIN':
+          this.instances[algorithmName] = new RabinEncryption();
+          break;
         default:
           throw new Error(`不支持的算法: ${algorithm}`);
       }
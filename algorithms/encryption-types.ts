@@ -1,3 +1,5 @@
+import { KeyGenerationOptions } from './types';
+
 export interface KeyPair {
   publicKey: any;
   privateKey: any;
@@ -6,15 +8,27 @@ export interface KeyPair {
 
 export interface EncryptionResult {
   ciphertext: string;
-  ephemeralKey?: any; // ElGamal和ECC需要临时密钥
+  ephemeralKey?: any; // ElGamal和ECC需要临时密钥，ML-KEM为KEM密文
   iv?: string; // 初始化向量，用于某些模式
+  tag?: string; // 认证标签(MAC)，用于检测密文篡改
   metadata?: any; // 加密所需的额外数据
 }
 
 export interface EncryptionAlgorithm {
   name: string; // 算法名称
   description: string; // 算法描述
-  generateKeys(): Promise<KeyPair>;
+  generateKeys(options?: KeyGenerationOptions): Promise<KeyPair>;
   encrypt(message: string, publicKey: any): Promise<EncryptionResult>;
   decrypt(encryptionResult: EncryptionResult, privateKey: any): Promise<string>;
-} 
\ No newline at end of file
+}
+
+/**
+ * 完整性校验错误
+ * 当认证标签(MAC)与密文不匹配时抛出，用于区分"密文被篡改"与其他解密失败
+ */
+export class IntegrityError extends Error {
+  constructor(message: string = '完整性校验失败：认证标签不匹配，密文可能已被篡改') {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * FROST门限Schnorr签名（模拟多方）
+ * n个参与者通过分布式密钥生成(DKG)各自得到群私钥s的Shamir份额s_i，s本身从未在任何一方出现；
+ * 任意t个参与者交换随机数承诺、各自计算部分签名，聚合后得到一个普通的BIP-340 Schnorr签名，
+ * 可以直接用群公钥Y = s·G与现有的Schnorr验证算法验证
+ */
+import { ECDSA, Point } from './ECDSA';
+import { getCurve } from './curves';
+import { sha256 } from './hash';
+import { evaluatePolynomial, lagrangeCoefficients } from './secret-sharing';
+
+/**
+ * DKG第一轮广播的数据包
+ * coefficients是参与者私有的多项式系数，只在本地用于计算发给其他人的份额
+ */
+export interface DkgRound1Package {
+  index: number;
+  coefficients: bigint[];
+  commitments: Point[];            // C_k = a_k·G，公开的多项式承诺
+  proof: { R: Point; mu: bigint }; // 对a_0的知识证明，防止恶意参与者操纵群公钥
+}
+
+/**
+ * DKG完成后参与者的密钥份额
+ */
+export interface FrostKeyShare {
+  index: number;
+  threshold: number;
+  secretShare: bigint;             // s_i = Σ_j f_j(i)
+  verificationShare: Point;        // Y_i = s_i·G，公开，用于验证部分签名
+  groupPublicKey: Point;           // Y = Σ_j C_j0
+}
+
+/**
+ * DKG的完整结果：各方广播的数据包、发送的份额矩阵与最终密钥份额
+ */
+export interface DkgResult {
+  threshold: number;
+  packages: DkgRound1Package[];
+  shares: bigint[][];              // shares[i][j] = f_(i+1)(j+1)，由参与者i+1私下发给j+1
+  keyShares: FrostKeyShare[];
+  groupPublicKey: Point;
+  publicKey: string;               // 群公钥的x坐标（BIP-340 x-only公钥）
+}
+
+/**
+ * 签名者的一次性随机数，只能用于一次签名
+ * 同一对随机数签两条不同的消息，由两个部分签名即可解出s_i，因此signShare用过后立即清零
+ */
+export interface SigningNonces {
+  index: number;
+  hiding: bigint;                  // d_i
+  binding: bigint;                 // e_i
+  used: boolean;                   // 是否已用于签名
+}
+
+/**
+ * 签名第一轮广播的随机数承诺 (D_i, E_i) = (d_i·G, e_i·G)
+ */
+export interface NonceCommitment {
+  index: number;
+  hiding: Point;
+  binding: Point;
+}
+
+/**
+ * 由全部随机数承诺导出的签名上下文，所有签名者与聚合者都能独立算出
+ */
+export interface SigningPackage {
+  message: string;
+  commitments: NonceCommitment[];
+  bindingFactors: bigint[];        // ρ_i，与commitments一一对应
+  lambdas: bigint[];               // 签名者集合上的拉格朗日系数λ_i
+  groupCommitment: Point;          // R = Σ (D_i + ρ_i·E_i)，已调整为偶数y
+  negateNonces: boolean;           // 原始R的y为奇数时，各签名者取随机数的相反数
+  challenge: bigint;               // c = H_challenge(R.x || Y.x || m)
+}
+
+/**
+ * 一个签名者的部分签名
+ */
+export interface SignatureShare {
+  index: number;
+  z: bigint;
+}
+
+const ecdsa = new ECDSA();
+const curve = getCurve('secp256k1');
+const G = ecdsa.basePoint(curve);
+const INFINITY: Point = { x: 0n, y: 0n };
+
+/**
+ * 运行分布式密钥生成（Pedersen DKG + 知识证明）
+ * 1. 每个参与者随机选取t − 1次多项式f_i，广播承诺C_ik = a_ik·G与对a_i0的知识证明
+ * 2. 参与者i私下把f_i(j)发给参与者j，j用承诺验证收到的份额
+ * 3. s_j = Σ_i f_i(j)，Y = Σ_i C_i0；若Y.y为奇数，所有人取s_j的相反数，使群公钥符合BIP-340
+ * @param participantCount 参与者数n
+ * @param threshold 门限t
+ * @returns DKG结果
+ */
+export function runDkg(participantCount: number, threshold: number): DkgResult {
+  if (!Number.isInteger(threshold) || !Number.isInteger(participantCount) || threshold < 2 || threshold > participantCount) {
+    throw new Error(`无效的门限参数: t = ${threshold}, n = ${participantCount}，须满足 2 ≤ t ≤ n`);
+  }
+
+  // 第一轮：广播承诺与知识证明，其他参与者逐一验证
+  const packages = Array.from({ length: participantCount }, (_, i) => dkgRound1(i + 1, threshold));
+  packages.forEach(pkg => {
+    if (!verifyProofOfKnowledge(pkg)) {
+      throw new Error(`参与者${pkg.index}的知识证明无效`);
+    }
+  });
+
+  // 第二轮：私下发送份额f_i(j)，接收方用发送方的承诺验证
+  const shares = packages.map(pkg =>
+    Array.from({ length: participantCount }, (_, j) => evaluatePolynomial(pkg.coefficients, BigInt(j + 1), curve.n))
+  );
+  packages.forEach((pkg, i) => {
+    shares[i].forEach((share, j) => {
+      if (!verifyShare(share, j + 1, pkg.commitments)) {
+        throw new Error(`参与者${pkg.index}发给参与者${j + 1}的份额与承诺不符`);
+      }
+    });
+  });
+
+  // 汇总群公钥，必要时取相反数使y为偶数
+  let groupPublicKey = packages.reduce((sum, pkg) => add(sum, pkg.commitments[0]), INFINITY);
+  const negate = groupPublicKey.y % 2n === 1n;
+  if (negate) {
+    groupPublicKey = negatePoint(groupPublicKey);
+  }
+
+  const keyShares = Array.from({ length: participantCount }, (_, j) => {
+    let secretShare = shares.reduce((sum, row) => (sum + row[j]) % curve.n, 0n);
+    if (negate) {
+      secretShare = (curve.n - secretShare) % curve.n;
+    }
+    return {
+      index: j + 1,
+      threshold,
+      secretShare,
+      verificationShare: multiply(G, secretShare),
+      groupPublicKey
+    };
+  });
+
+  return { threshold, packages, shares, keyShares, groupPublicKey, publicKey: toHex(groupPublicKey.x) };
+}
+
+/**
+ * DKG第一轮：生成多项式、承诺与知识证明
+ * 知识证明是以a_i0为私钥的Schnorr签名：R = k·G，c = H(i || C_i0 || R)，μ = k + a_i0·c
+ * @param index 参与者编号（从1开始）
+ * @param threshold 门限t
+ * @returns 第一轮数据包
+ */
+export function dkgRound1(index: number, threshold: number): DkgRound1Package {
+  const coefficients = Array.from({ length: threshold }, () => randomScalar());
+  const commitments = coefficients.map(a => multiply(G, a));
+
+  const k = randomScalar();
+  const R = multiply(G, k);
+  const c = proofChallenge(index, commitments[0], R);
+  const mu = (k + coefficients[0] * c) % curve.n;
+
+  return { index, coefficients, commitments, proof: { R, mu } };
+}
+
+/**
+ * 验证DKG第一轮的知识证明：μ·G = R + c·C_i0
+ * @param pkg 第一轮数据包（只用到公开部分）
+ * @returns 证明是否有效
+ */
+export function verifyProofOfKnowledge(pkg: DkgRound1Package): boolean {
+  const { R, mu } = pkg.proof;
+  const c = proofChallenge(pkg.index, pkg.commitments[0], R);
+  return equals(multiply(G, mu), add(R, multiply(pkg.commitments[0], c)));
+}
+
+/**
+ * 用多项式承诺验证收到的份额：f_i(j)·G = Σ_k C_ik·j^k
+ * @param share 收到的份额f_i(j)
+ * @param recipient 接收方编号j
+ * @param commitments 发送方广播的承诺C_i0 … C_i(t−1)
+ * @returns 份额是否与承诺一致
+ */
+export function verifyShare(share: bigint, recipient: number, commitments: Point[]): boolean {
+  const j = BigInt(recipient);
+  let power = 1n;
+  let expected = INFINITY;
+  for (const C of commitments) {
+    expected = add(expected, multiply(C, power));
+    power = (power * j) % curve.n;
+  }
+  return equals(multiply(G, share), expected);
+}
+
+/**
+ * 签名第一轮：生成一次性随机数对(d_i, e_i)及其承诺
+ * @param index 签名者编号
+ * @returns 私有的随机数与公开的承诺
+ */
+export function commitNonces(index: number): { nonces: SigningNonces; commitment: NonceCommitment } {
+  const hiding = randomScalar();
+  const binding = randomScalar();
+  return {
+    nonces: { index, hiding, binding, used: false },
+    commitment: { index, hiding: multiply(G, hiding), binding: multiply(G, binding) }
+  };
+}
+
+/**
+ * 由消息与全部随机数承诺构造签名上下文
+ * ρ_i = H_rho(i || SHA-256(m) || 承诺列表)，把每个签名者的随机数绑定到本次签名，抵御并发会话中的ROS攻击
+ * @param message 待签名的消息
+ * @param commitments 参与本次签名的全部随机数承诺
+ * @param groupPublicKey 群公钥Y
+ * @returns 签名上下文
+ */
+export function createSigningPackage(message: string, commitments: NonceCommitment[], groupPublicKey: Point): SigningPackage {
+  const sorted = [...commitments].sort((a, b) => a.index - b.index);
+  const messageBytes = new TextEncoder().encode(message);
+  const encodedCommitments = concat(...sorted.map(c => concat(toBytes(BigInt(c.index)), encodePoint(c.hiding), encodePoint(c.binding))));
+
+  const messageHash = sha256(messageBytes);
+  const bindingFactors = sorted.map(c =>
+    toBigInt(taggedHash('FROST/rho', concat(toBytes(BigInt(c.index)), messageHash, encodedCommitments))) % curve.n
+  );
+  const lambdas = lagrangeCoefficients(sorted.map(c => BigInt(c.index)), curve.n);
+
+  // R = Σ (D_i + ρ_i·E_i)；y为奇数时改用−R，对应所有签名者取随机数的相反数
+  let groupCommitment = sorted.reduce(
+    (sum, c, i) => add(sum, add(c.hiding, multiply(c.binding, bindingFactors[i]))),
+    INFINITY
+  );
+  const negateNonces = groupCommitment.y % 2n === 1n;
+  if (negateNonces) {
+    groupCommitment = negatePoint(groupCommitment);
+  }
+
+  const challenge = toBigInt(taggedHash(
+    'BIP0340/challenge',
+    concat(toBytes(groupCommitment.x), toBytes(groupPublicKey.x), messageBytes)
+  )) % curve.n;
+
+  return { message, commitments: sorted, bindingFactors, lambdas, groupCommitment, negateNonces, challenge };
+}
+
+/**
+ * 签名第二轮：计算部分签名 z_i = ±(d_i + ρ_i·e_i) + λ_i·s_i·c
+ * 随机数在签名后被标记为已用并清零，再次使用会抛出错误
+ * @param keyShare 签名者的密钥份额
+ * @param nonces 签名者第一轮生成的随机数
+ * @param signingPackage 签名上下文
+ * @returns 部分签名
+ */
+export function signShare(keyShare: FrostKeyShare, nonces: SigningNonces, signingPackage: SigningPackage): SignatureShare {
+  const { commitments, bindingFactors, lambdas, negateNonces, challenge } = signingPackage;
+  if (commitments.length < keyShare.threshold) {
+    throw new Error(`签名者不足: 需要至少${keyShare.threshold}人，当前${commitments.length}人`);
+  }
+  const position = commitments.findIndex(c => c.index === keyShare.index);
+  if (position < 0 || nonces.index !== keyShare.index) {
+    throw new Error(`参与者${keyShare.index}不在本次签名者之中`);
+  }
+  if (nonces.used) {
+    throw new Error(`参与者${keyShare.index}的随机数已经用过，重复使用会泄露密钥份额`);
+  }
+
+  const n = curve.n;
+  let k = (nonces.hiding + bindingFactors[position] * nonces.binding) % n;
+  if (negateNonces) {
+    k = (n - k) % n;
+  }
+
+  // 随机数只能用一次：标记为已用并清零
+  nonces.used = true;
+  nonces.hiding = 0n;
+  nonces.binding = 0n;
+
+  const z = (k + ((lambdas[position] * keyShare.secretShare) % n) * challenge) % n;
+  return { index: keyShare.index, z };
+}
+
+/**
+ * 验证部分签名：z_i·G = ±(D_i + ρ_i·E_i) + (c·λ_i)·Y_i
+ * 聚合者借此找出提交错误部分签名的参与者
+ * @param share 部分签名
+ * @param verificationShare 该签名者的公开验证份额Y_i
+ * @param signingPackage 签名上下文
+ * @returns 部分签名是否有效
+ */
+export function verifySignatureShare(share: SignatureShare, verificationShare: Point, signingPackage: SigningPackage): boolean {
+  const { commitments, bindingFactors, lambdas, negateNonces, challenge } = signingPackage;
+  const position = commitments.findIndex(c => c.index === share.index);
+  if (position < 0) {
+    return false;
+  }
+
+  const commitment = commitments[position];
+  let Ri = add(commitment.hiding, multiply(commitment.binding, bindingFactors[position]));
+  if (negateNonces) {
+    Ri = negatePoint(Ri);
+  }
+  const expected = add(Ri, multiply(verificationShare, (challenge * lambdas[position]) % curve.n));
+  return equals(multiply(G, share.z), expected);
+}
+
+/**
+ * 聚合部分签名：z = Σ z_i，签名为 R.x || z（与BIP-340格式相同）
+ * @param signingPackage 签名上下文
+ * @param shares 全部签名者的部分签名
+ * @returns 64字节签名的十六进制
+ */
+export function aggregate(signingPackage: SigningPackage, shares: SignatureShare[]): string {
+  const signers = signingPackage.commitments.map(c => c.index);
+  if (shares.length !== signers.length || !signers.every(index => shares.some(share => share.index === index))) {
+    throw new Error('部分签名与签名者集合不一致');
+  }
+  const z = shares.reduce((sum, share) => (sum + share.z) % curve.n, 0n);
+  return toHex(signingPackage.groupCommitment.x) + toHex(z);
+}
+
+/**
+ * 把曲线点编码为33字节压缩格式的十六进制（02/03 || x）
+ */
+export function pointToHex(P: Point): string {
+  return (P.y % 2n === 0n ? '02' : '03') + toHex(P.x);
+}
+
+/**
+ * 知识证明的挑战值 c = H_pok(i || C_i0 || R) mod n
+ */
+function proofChallenge(index: number, commitment: Point, R: Point): bigint {
+  return toBigInt(taggedHash('FROST/pok', concat(toBytes(BigInt(index)), encodePoint(commitment), encodePoint(R)))) % curve.n;
+}
+
+function add(P: Point, Q: Point): Point {
+  return ecdsa.pointAdd(P, Q, curve);
+}
+
+function multiply(P: Point, k: bigint): Point {
+  return ecdsa.pointMultiply(P, k, curve);
+}
+
+function negatePoint(P: Point): Point {
+  return P.y === 0n ? P : { x: P.x, y: curve.p - P.y };
+}
+
+function equals(P: Point, Q: Point): boolean {
+  return P.x === Q.x && P.y === Q.y;
+}
+
+/**
+ * 带标签的哈希 (BIP-340)
+ * hash_tag(x) = SHA-256(SHA-256(tag) || SHA-256(tag) || x)
+ */
+function taggedHash(tag: string, data: Uint8Array): Uint8Array {
+  const tagHash = sha256(tag);
+  return sha256(concat(tagHash, tagHash, data));
+}
+
+function encodePoint(P: Point): Uint8Array {
+  return concat(new Uint8Array([P.y % 2n === 0n ? 2 : 3]), toBytes(P.x));
+}
+
+/**
+ * 整数转换为32字节十六进制
+ */
+function toHex(value: bigint): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+/**
+ * 整数转换为32字节大端序字节
+ */
+function toBytes(value: bigint): Uint8Array {
+  const hex = toHex(value);
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * 生成[1, n)内均匀分布的随机标量（拒绝采样）
+ */
+function randomScalar(): bigint {
+  while (true) {
+    const bytes = new Uint8Array(32);
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < 32; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+    const value = toBigInt(bytes);
+    if (value > 0n && value < curve.n) {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,675 @@
+/**
+ * 哈希函数模块
+ * 纯TypeScript实现的SHA-1、SHA-2(FIPS 180-4)与SHA-3/Keccak(FIPS 202)
+ * 不依赖Web Crypto API，保证浏览器、Node.js与测试环境下结果一致
+ */
+
+export type HashAlgorithm =
+  | 'SHA-1'
+  | 'SHA-224'
+  | 'SHA-256'
+  | 'SHA-384'
+  | 'SHA-512'
+  | 'SHA3-224'
+  | 'SHA3-256'
+  | 'SHA3-384'
+  | 'SHA3-512'
+  | 'KECCAK-256';
+
+/**
+ * 各哈希算法的输出长度（字节）
+ */
+export const HASH_OUTPUT_LENGTHS: Record<HashAlgorithm, number> = {
+  'SHA-1': 20,
+  'SHA-224': 28,
+  'SHA-256': 32,
+  'SHA-384': 48,
+  'SHA-512': 64,
+  'SHA3-224': 28,
+  'SHA3-256': 32,
+  'SHA3-384': 48,
+  'SHA3-512': 64,
+  'KECCAK-256': 32
+};
+
+/**
+ * 计算指定算法的哈希值
+ * @param algorithm 哈希算法名称
+ * @param data 输入数据（字符串按UTF-8编码）
+ * @returns 哈希值（字节数组）
+ */
+export function digest(algorithm: HashAlgorithm, data: Uint8Array | string): Uint8Array {
+  switch (algorithm) {
+    case 'SHA-1':
+      return sha1(data);
+    case 'SHA-224':
+      return sha224(data);
+    case 'SHA-256':
+      return sha256(data);
+    case 'SHA-384':
+      return sha384(data);
+    case 'SHA-512':
+      return sha512(data);
+    case 'SHA3-224':
+      return sha3_224(data);
+    case 'SHA3-256':
+      return sha3_256(data);
+    case 'SHA3-384':
+      return sha3_384(data);
+    case 'SHA3-512':
+      return sha3_512(data);
+    case 'KECCAK-256':
+      return keccak256(data);
+    default:
+      throw new Error(`不支持的哈希算法: ${algorithm}`);
+  }
+}
+
+/**
+ * 计算指定算法的哈希值，返回十六进制字符串
+ * @param algorithm 哈希算法名称
+ * @param data 输入数据（字符串按UTF-8编码）
+ * @returns 哈希值（十六进制字符串）
+ */
+export function digestHex(algorithm: HashAlgorithm, data: Uint8Array | string): string {
+  return toHex(digest(algorithm, data));
+}
+
+// ==================== HMAC ====================
+
+/**
+ * 各哈希算法的分组长度（字节），HMAC按此长度填充密钥
+ */
+const HASH_BLOCK_SIZES: Record<HashAlgorithm, number> = {
+  'SHA-1': 64,
+  'SHA-224': 64,
+  'SHA-256': 64,
+  'SHA-384': 128,
+  'SHA-512': 128,
+  'SHA3-224': 144,
+  'SHA3-256': 136,
+  'SHA3-384': 104,
+  'SHA3-512': 72,
+  'KECCAK-256': 136
+};
+
+/**
+ * HMAC消息认证码 (RFC 2104 / FIPS 198-1)
+ * HMAC(K, m) = H((K' ⊕ opad) || H((K' ⊕ ipad) || m))
+ * @param algorithm 底层哈希算法
+ * @param key 密钥（长于分组长度时先哈希）
+ * @param data 输入数据（字符串按UTF-8编码）
+ * @returns 认证码（字节数组）
+ */
+export function hmac(algorithm: HashAlgorithm, key: Uint8Array | string, data: Uint8Array | string): Uint8Array {
+  const blockSize = HASH_BLOCK_SIZES[algorithm];
+  let keyBytes = toBytes(key);
+  if (keyBytes.length > blockSize) {
+    keyBytes = digest(algorithm, keyBytes);
+  }
+
+  const message = toBytes(data);
+  const inner = new Uint8Array(blockSize + message.length);
+  const outer = new Uint8Array(blockSize + HASH_OUTPUT_LENGTHS[algorithm]);
+  for (let i = 0; i < blockSize; i++) {
+    const k = i < keyBytes.length ? keyBytes[i] : 0;
+    inner[i] = k ^ 0x36;
+    outer[i] = k ^ 0x5c;
+  }
+  inner.set(message, blockSize);
+  outer.set(digest(algorithm, inner), blockSize);
+
+  return digest(algorithm, outer);
+}
+
+/**
+ * HMAC-SHA256
+ */
+export function hmacSha256(key: Uint8Array | string, data: Uint8Array | string): Uint8Array {
+  return hmac('SHA-256', key, data);
+}
+
+// ==================== 密钥派生 ====================
+
+/**
+ * ANSI X9.63 KDF（即SEC 1 3.6.1中的KDF，亦称KDF2）
+ * K = H(Z || 1 || SharedInfo) || H(Z || 2 || SharedInfo) || ...，计数器为32位大端整数
+ * @param algorithm 底层哈希算法
+ * @param sharedSecret 共享秘密Z
+ * @param length 需要派生的密钥长度（字节）
+ * @param sharedInfo 双方共享的附加信息
+ * @returns 派生的密钥材料
+ */
+export function x963Kdf(
+  algorithm: HashAlgorithm,
+  sharedSecret: Uint8Array,
+  length: number,
+  sharedInfo: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const hashLength = HASH_OUTPUT_LENGTHS[algorithm];
+  if (length > hashLength * 0xffffffff) {
+    throw new Error('派生密钥长度超出KDF允许的范围');
+  }
+
+  const output = new Uint8Array(length);
+  const input = new Uint8Array(sharedSecret.length + 4 + sharedInfo.length);
+  input.set(sharedSecret, 0);
+  input.set(sharedInfo, sharedSecret.length + 4);
+
+  for (let counter = 1, offset = 0; offset < length; counter++, offset += hashLength) {
+    // 写入32位大端计数器
+    input[sharedSecret.length] = (counter >>> 24) & 0xff;
+    input[sharedSecret.length + 1] = (counter >>> 16) & 0xff;
+    input[sharedSecret.length + 2] = (counter >>> 8) & 0xff;
+    input[sharedSecret.length + 3] = counter & 0xff;
+
+    const block = digest(algorithm, input);
+    output.set(block.subarray(0, Math.min(hashLength, length - offset)), offset);
+  }
+
+  return output;
+}
+
+// ==================== SHA-1 ====================
+
+/**
+ * SHA-1 (FIPS 180-4 6.1)
+ * 仅用于兼容旧系统与教学对比，不应用于新的签名方案
+ */
+export function sha1(data: Uint8Array | string): Uint8Array {
+  const bytes = toBytes(data);
+  const blocks = padMessage(bytes, 64, 8);
+  const h = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < blocks.length; offset += 64) {
+    // 1. 消息扩展
+    for (let t = 0; t < 16; t++) {
+      w[t] = readUint32BE(blocks, offset + t * 4);
+    }
+    for (let t = 16; t < 80; t++) {
+      w[t] = rotl32(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+    }
+
+    // 2. 80轮压缩
+    let [a, b, c, d, e] = h;
+    for (let t = 0; t < 80; t++) {
+      let f: number;
+      let k: number;
+      if (t < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (t < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (t < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotl32(a, 5) + f + e + k + w[t]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl32(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    // 3. 更新中间哈希值
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+  }
+
+  return wordsToBytes(h, 20);
+}
+
+// ==================== SHA-224 / SHA-256 ====================
+
+// SHA-256轮常量：前64个素数立方根的小数部分
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const SHA256_IV = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+const SHA224_IV = [0xc1059ed8, 0x367cd507, 0x3070dd17, 0xf70e5939, 0xffc00b31, 0x68581511, 0x64f98fa7, 0xbefa4fa4];
+
+/**
+ * SHA-256 (FIPS 180-4 6.2)
+ */
+export function sha256(data: Uint8Array | string): Uint8Array {
+  return sha256Core(toBytes(data), SHA256_IV, 32);
+}
+
+/**
+ * SHA-224 (FIPS 180-4 6.3)：使用不同初始值并截断输出的SHA-256
+ */
+export function sha224(data: Uint8Array | string): Uint8Array {
+  return sha256Core(toBytes(data), SHA224_IV, 28);
+}
+
+function sha256Core(bytes: Uint8Array, iv: number[], outputLength: number): Uint8Array {
+  const blocks = padMessage(bytes, 64, 8);
+  const h = new Uint32Array(iv);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < blocks.length; offset += 64) {
+    // 1. 消息扩展
+    for (let t = 0; t < 16; t++) {
+      w[t] = readUint32BE(blocks, offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr32(w[t - 15], 7) ^ rotr32(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr32(w[t - 2], 17) ^ rotr32(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) >>> 0;
+    }
+
+    // 2. 64轮压缩
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 64; t++) {
+      const S1 = rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (hh + S1 + ch + SHA256_K[t] + w[t]) >>> 0;
+      const S0 = rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    // 3. 更新中间哈希值
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  return wordsToBytes(h, outputLength);
+}
+
+// ==================== SHA-384 / SHA-512 ====================
+
+// SHA-512轮常量：前80个素数立方根的小数部分（64位）
+const SHA512_K = [
+  '428a2f98d728ae22', '7137449123ef65cd', 'b5c0fbcfec4d3b2f', 'e9b5dba58189dbbc', '3956c25bf348b538',
+  '59f111f1b605d019', '923f82a4af194f9b', 'ab1c5ed5da6d8118', 'd807aa98a3030242', '12835b0145706fbe',
+  '243185be4ee4b28c', '550c7dc3d5ffb4e2', '72be5d74f27b896f', '80deb1fe3b1696b1', '9bdc06a725c71235',
+  'c19bf174cf692694', 'e49b69c19ef14ad2', 'efbe4786384f25e3', '0fc19dc68b8cd5b5', '240ca1cc77ac9c65',
+  '2de92c6f592b0275', '4a7484aa6ea6e483', '5cb0a9dcbd41fbd4', '76f988da831153b5', '983e5152ee66dfab',
+  'a831c66d2db43210', 'b00327c898fb213f', 'bf597fc7beef0ee4', 'c6e00bf33da88fc2', 'd5a79147930aa725',
+  '06ca6351e003826f', '142929670a0e6e70', '27b70a8546d22ffc', '2e1b21385c26c926', '4d2c6dfc5ac42aed',
+  '53380d139d95b3df', '650a73548baf63de', '766a0abb3c77b2a8', '81c2c92e47edaee6', '92722c851482353b',
+  'a2bfe8a14cf10364', 'a81a664bbc423001', 'c24b8b70d0f89791', 'c76c51a30654be30', 'd192e819d6ef5218',
+  'd69906245565a910', 'f40e35855771202a', '106aa07032bbd1b8', '19a4c116b8d2d0c8', '1e376c085141ab53',
+  '2748774cdf8eeb99', '34b0bcb5e19b48a8', '391c0cb3c5c95a63', '4ed8aa4ae3418acb', '5b9cca4f7763e373',
+  '682e6ff3d6b2b8a3', '748f82ee5defb2fc', '78a5636f43172f60', '84c87814a1f0ab72', '8cc702081a6439ec',
+  '90befffa23631e28', 'a4506cebde82bde9', 'bef9a3f7b2c67915', 'c67178f2e372532b', 'ca273eceea26619c',
+  'd186b8c721c0c207', 'eada7dd6cde0eb1e', 'f57d4f7fee6ed178', '06f067aa72176fba', '0a637dc5a2c898a6',
+  '113f9804bef90dae', '1b710b35131c471b', '28db77f523047d84', '32caab7b40c72493', '3c9ebe0a15c9bebc',
+  '431d67c49c100d4c', '4cc5d4becb3e42b6', '597f299cfc657e2a', '5fcb6fab3ad6faec', '6c44198c4a475817'
+].map(hex => BigInt('0x' + hex));
+
+const SHA512_IV = [
+  '6a09e667f3bcc908', 'bb67ae8584caa73b', '3c6ef372fe94f82b', 'a54ff53a5f1d36f1',
+  '510e527fade682d1', '9b05688c2b3e6c1f', '1f83d9abfb41bd6b', '5be0cd19137e2179'
+].map(hex => BigInt('0x' + hex));
+
+const SHA384_IV = [
+  'cbbb9d5dc1059ed8', '629a292a367cd507', '9159015a3070dd17', '152fecd8f70e5939',
+  '67332667ffc00b31', '8eb44a8768581511', 'db0c2e0d64f98fa7', '47b5481dbefa4fa4'
+].map(hex => BigInt('0x' + hex));
+
+/**
+ * SHA-512 (FIPS 180-4 6.4)
+ */
+export function sha512(data: Uint8Array | string): Uint8Array {
+  return sha512Core(toBytes(data), SHA512_IV, 64);
+}
+
+/**
+ * SHA-384 (FIPS 180-4 6.5)：使用不同初始值并截断输出的SHA-512
+ */
+export function sha384(data: Uint8Array | string): Uint8Array {
+  return sha512Core(toBytes(data), SHA384_IV, 48);
+}
+
+function sha512Core(bytes: Uint8Array, iv: bigint[], outputLength: number): Uint8Array {
+  const MASK = 0xffffffffffffffffn;
+  const blocks = padMessage(bytes, 128, 16);
+  const h = [...iv];
+  const w = new Array<bigint>(80);
+
+  const rotr = (x: bigint, n: bigint) => ((x >> n) | (x << (64n - n))) & MASK;
+
+  for (let offset = 0; offset < blocks.length; offset += 128) {
+    // 1. 消息扩展
+    for (let t = 0; t < 16; t++) {
+      w[t] = (BigInt(readUint32BE(blocks, offset + t * 8)) << 32n) |
+        BigInt(readUint32BE(blocks, offset + t * 8 + 4));
+    }
+    for (let t = 16; t < 80; t++) {
+      const s0 = rotr(w[t - 15], 1n) ^ rotr(w[t - 15], 8n) ^ (w[t - 15] >> 7n);
+      const s1 = rotr(w[t - 2], 19n) ^ rotr(w[t - 2], 61n) ^ (w[t - 2] >> 6n);
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) & MASK;
+    }
+
+    // 2. 80轮压缩
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 80; t++) {
+      const S1 = rotr(e, 14n) ^ rotr(e, 18n) ^ rotr(e, 41n);
+      const ch = (e & f) ^ (~e & MASK & g);
+      const temp1 = (hh + S1 + ch + SHA512_K[t] + w[t]) & MASK;
+      const S0 = rotr(a, 28n) ^ rotr(a, 34n) ^ rotr(a, 39n);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) & MASK;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + temp1) & MASK;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) & MASK;
+    }
+
+    // 3. 更新中间哈希值
+    const working = [a, b, c, d, e, f, g, hh];
+    for (let i = 0; i < 8; i++) {
+      h[i] = (h[i] + working[i]) & MASK;
+    }
+  }
+
+  // 按大端序输出
+  const result = new Uint8Array(64);
+  for (let i = 0; i < 8; i++) {
+    let word = h[i];
+    for (let j = 7; j >= 0; j--) {
+      result[i * 8 + j] = Number(word & 0xffn);
+      word >>= 8n;
+    }
+  }
+  return result.slice(0, outputLength);
+}
+
+// ==================== SHA-3 / Keccak ====================
+
+// Keccak-f[1600]轮常量，按(低32位, 高32位)成对存储
+const KECCAK_RC = new Uint32Array([
+  0x00000001, 0x00000000, 0x00008082, 0x00000000, 0x0000808a, 0x80000000, 0x80008000, 0x80000000,
+  0x0000808b, 0x00000000, 0x80000001, 0x00000000, 0x80008081, 0x80000000, 0x00008009, 0x80000000,
+  0x0000008a, 0x00000000, 0x00000088, 0x00000000, 0x80008009, 0x00000000, 0x8000000a, 0x00000000,
+  0x8000808b, 0x00000000, 0x0000008b, 0x80000000, 0x00008089, 0x80000000, 0x00008003, 0x80000000,
+  0x00008002, 0x80000000, 0x00000080, 0x80000000, 0x0000800a, 0x00000000, 0x8000000a, 0x80000000,
+  0x80008081, 0x80000000, 0x00008080, 0x80000000, 0x80000001, 0x00000000, 0x80008008, 0x80000000
+]);
+
+// ρ步骤的循环移位量，按车道索引x + 5y排列
+const KECCAK_ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+/**
+ * SHA3-224 (FIPS 202)
+ */
+export function sha3_224(data: Uint8Array | string): Uint8Array {
+  return keccakSponge(toBytes(data), 144, 0x06, 28);
+}
+
+/**
+ * SHA3-256 (FIPS 202)
+ */
+export function sha3_256(data: Uint8Array | string): Uint8Array {
+  return keccakSponge(toBytes(data), 136, 0x06, 32);
+}
+
+/**
+ * SHA3-384 (FIPS 202)
+ */
+export function sha3_384(data: Uint8Array | string): Uint8Array {
+  return keccakSponge(toBytes(data), 104, 0x06, 48);
+}
+
+/**
+ * SHA3-512 (FIPS 202)
+ */
+export function sha3_512(data: Uint8Array | string): Uint8Array {
+  return keccakSponge(toBytes(data), 72, 0x06, 64);
+}
+
+/**
+ * 原始Keccak-256（FIPS 202标准化之前的填充规则，以太坊使用）
+ */
+export function keccak256(data: Uint8Array | string): Uint8Array {
+  return keccakSponge(toBytes(data), 136, 0x01, 32);
+}
+
+/**
+ * SHAKE128可扩展输出函数 (FIPS 202)
+ * @param data 输入数据
+ * @param outputLength 输出长度（字节）
+ */
+export function shake128(data: Uint8Array | string, outputLength: number): Uint8Array {
+  return keccakSponge(toBytes(data), 168, 0x1f, outputLength);
+}
+
+/**
+ * SHAKE256可扩展输出函数 (FIPS 202)
+ * @param data 输入数据
+ * @param outputLength 输出长度（字节）
+ */
+export function shake256(data: Uint8Array | string, outputLength: number): Uint8Array {
+  return keccakSponge(toBytes(data), 136, 0x1f, outputLength);
+}
+
+/**
+ * Keccak海绵结构：吸收输入、填充、挤出输出
+ * @param data 输入数据
+ * @param rate 比特率（字节）
+ * @param suffix 域分隔后缀（SHA-3为0x06，SHAKE为0x1F，原始Keccak为0x01）
+ * @param outputLength 输出长度（字节）
+ */
+function keccakSponge(data: Uint8Array, rate: number, suffix: number, outputLength: number): Uint8Array {
+  // 状态由25个64位车道组成，每个车道存为(低32位, 高32位)
+  const state = new Uint32Array(50);
+
+  // 1. 吸收完整的块
+  let offset = 0;
+  while (data.length - offset >= rate) {
+    xorIntoState(state, data, offset, rate);
+    keccakF1600(state);
+    offset += rate;
+  }
+
+  // 2. 填充最后一块：suffix || 0...0 || 0x80
+  const lastBlock = new Uint8Array(rate);
+  lastBlock.set(data.subarray(offset));
+  lastBlock[data.length - offset] ^= suffix;
+  lastBlock[rate - 1] ^= 0x80;
+  xorIntoState(state, lastBlock, 0, rate);
+  keccakF1600(state);
+
+  // 3. 挤出输出
+  const output = new Uint8Array(outputLength);
+  let produced = 0;
+  while (true) {
+    const chunk = Math.min(rate, outputLength - produced);
+    for (let i = 0; i < chunk; i++) {
+      output[produced + i] = (state[i >> 2] >>> ((i & 3) * 8)) & 0xff;
+    }
+    produced += chunk;
+    if (produced >= outputLength) break;
+    keccakF1600(state);
+  }
+
+  return output;
+}
+
+/**
+ * 将字节块按小端序异或进状态
+ */
+function xorIntoState(state: Uint32Array, data: Uint8Array, offset: number, length: number): void {
+  for (let i = 0; i < length; i++) {
+    state[i >> 2] ^= data[offset + i] << ((i & 3) * 8);
+  }
+}
+
+/**
+ * Keccak-f[1600]置换：24轮θ、ρ、π、χ、ι
+ */
+function keccakF1600(s: Uint32Array): void {
+  const c = new Uint32Array(10);
+  const b = new Uint32Array(50);
+
+  for (let round = 0; round < 24; round++) {
+    // θ：每列奇偶校验
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = s[2 * x] ^ s[2 * x + 10] ^ s[2 * x + 20] ^ s[2 * x + 30] ^ s[2 * x + 40];
+      c[2 * x + 1] = s[2 * x + 1] ^ s[2 * x + 11] ^ s[2 * x + 21] ^ s[2 * x + 31] ^ s[2 * x + 41];
+    }
+    for (let x = 0; x < 5; x++) {
+      const prev = (x + 4) % 5;
+      const next = (x + 1) % 5;
+      // D[x] = C[x-1] ⊕ rot(C[x+1], 1)
+      const dLo = c[2 * prev] ^ ((c[2 * next] << 1) | (c[2 * next + 1] >>> 31));
+      const dHi = c[2 * prev + 1] ^ ((c[2 * next + 1] << 1) | (c[2 * next] >>> 31));
+      for (let y = 0; y < 25; y += 5) {
+        s[2 * (x + y)] ^= dLo;
+        s[2 * (x + y) + 1] ^= dHi;
+      }
+    }
+
+    // ρ和π：循环移位后重新排列车道
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const lane = x + 5 * y;
+        const target = y + 5 * ((2 * x + 3 * y) % 5);
+        const [lo, hi] = rotl64(s[2 * lane], s[2 * lane + 1], KECCAK_ROTATIONS[lane]);
+        b[2 * target] = lo;
+        b[2 * target + 1] = hi;
+      }
+    }
+
+    // χ：非线性步骤
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        const i1 = (x + 1) % 5 + y;
+        const i2 = (x + 2) % 5 + y;
+        s[2 * (x + y)] = b[2 * (x + y)] ^ (~b[2 * i1] & b[2 * i2]);
+        s[2 * (x + y) + 1] = b[2 * (x + y) + 1] ^ (~b[2 * i1 + 1] & b[2 * i2 + 1]);
+      }
+    }
+
+    // ι：加入轮常量
+    s[0] ^= KECCAK_RC[2 * round];
+    s[1] ^= KECCAK_RC[2 * round + 1];
+  }
+}
+
+/**
+ * 64位循环左移，输入输出均为(低32位, 高32位)
+ */
+function rotl64(lo: number, hi: number, n: number): [number, number] {
+  if (n === 0) return [lo, hi];
+  if (n === 32) return [hi, lo];
+  if (n < 32) {
+    return [
+      ((lo << n) | (hi >>> (32 - n))) >>> 0,
+      ((hi << n) | (lo >>> (32 - n))) >>> 0
+    ];
+  }
+  const m = n - 32;
+  return [
+    ((hi << m) | (lo >>> (32 - m))) >>> 0,
+    ((lo << m) | (hi >>> (32 - m))) >>> 0
+  ];
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 将输入统一转换为字节数组（字符串按UTF-8编码）
+ */
+function toBytes(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
+
+/**
+ * 将字节数组转换为十六进制字符串
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Merkle–Damgård填充：追加0x80、若干0x00以及大端序的消息位长
+ * @param bytes 原始消息
+ * @param blockSize 块大小（字节）
+ * @param lengthBytes 位长字段的字节数
+ */
+function padMessage(bytes: Uint8Array, blockSize: number, lengthBytes: number): Uint8Array {
+  const paddedLength = Math.ceil((bytes.length + 1 + lengthBytes) / blockSize) * blockSize;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+
+  // 位长以大端序写入末尾（JavaScript中的消息长度不会超过2^53位）
+  let bitLength = BigInt(bytes.length) * 8n;
+  for (let i = paddedLength - 1; i >= paddedLength - lengthBytes; i--) {
+    padded[i] = Number(bitLength & 0xffn);
+    bitLength >>= 8n;
+  }
+
+  return padded;
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function wordsToBytes(words: Uint32Array, outputLength: number): Uint8Array {
+  const result = new Uint8Array(words.length * 4);
+  for (let i = 0; i < words.length; i++) {
+    result[i * 4] = words[i] >>> 24;
+    result[i * 4 + 1] = (words[i] >>> 16) & 0xff;
+    result[i * 4 + 2] = (words[i] >>> 8) & 0xff;
+    result[i * 4 + 3] = words[i] & 0xff;
+  }
+  return result.slice(0, outputLength);
+}
+
+function rotl32(x: number, n: number): number {
+  return ((x << n) | (x >>> (32 - n))) >>> 0;
+}
+
+function rotr32(x: number, n: number): number {
+  return ((x >>> n) | (x << (32 - n))) >>> 0;
+}
@@ -1,14 +1,43 @@
 import { RSA } from './RSA';
 import { DSA } from './DSA';
 import { ECDSA } from './ECDSA';
+import { Ed25519 } from './Ed25519';
+import { Schnorr } from './Schnorr';
+import { ElGamalSignature } from './ElGamalSignature';
+import { MLDSASignature } from './MLDSASignature';
+import { Lamport } from './Lamport';
+import { WOTSPlus } from './WOTSPlus';
+import { XMSS } from './XMSS';
+import { BLS } from './BLS';
+import { RabinWilliams } from './RabinWilliams';
 import { CryptoAlgorithm } from './types';
 // 导入加密算法工厂
 import { EncryptionAlgorithmFactory } from './encryption-factory';
+// 导入密钥协商算法工厂
+import { KeyAgreementFactory } from './key-exchange-factory';
 
-export type { KeyPair, SignatureResult } from './types';
+export type {
+  KeyPair,
+  SignatureResult,
+  KeyGenerationOptions,
+  RsaBlindVariant,
+  BlindingResult,
+  MlKemParameterSet,
+  MlDsaParameterSet
+} from './types';
 // 重导出加密算法相关类型和工厂
 export { EncryptionAlgorithmFactory };
 export type { EncryptionResult, EncryptionAlgorithm } from './encryption-types';
+export { IntegrityError } from './encryption-types';
+// 重导出密钥协商相关类型和工厂
+export { KeyAgreementFactory };
+export type { KeyAgreementAlgorithm } from './key-exchange-types';
+// 重导出JWK相关类型和工具函数
+export type { Jwk, JwkCodec } from './jwk';
+export { asJwkCodec, computeJwkThumbprint } from './jwk';
+// 重导出椭圆曲线注册表
+export type { CurveParameters } from './curves';
+export { CURVES, CURVE_NAMES, DEFAULT_CURVE } from './curves';
 
 /**
  * 算法工厂类，用于获取指定的签名算法实例
@@ -18,7 +47,7 @@ export class AlgorithmFactory {
 
   /**
    * 获取指定算法的实例
-   * @param algorithm 算法名称: 'RSA', 'DSA', 或 'ECDSA'
+   * @param algorithm 算法名称: 'RSA', 'DSA', 'ECDSA', 'Ed25519', 'Schnorr'、'ElGamal'、'ML-DSA'、'Lamport'、'WOTS+'、'XMSS'、'BLS' 或 'Rabin-Williams'
    * @returns 算法实例
    */
   static getAlgorithm(algorithm: string): CryptoAlgorithm {
@@ -35,6 +64,33 @@ export class AlgorithmFactory {
         case 'ECDSA':
           this.instances[algorithmName] = new ECDSA();
           break;
+        case 'ED25519':
+          this.instances[algorithmName] = new Ed25519();
+          break;
+        case 'SCHNORR':
+          this.instances[algorithmName] = new Schnorr();
+          break;
+        case 'ELGAMAL':
+          this.instances[algorithmName] = new ElGamalSignature();
+          break;
+        case 'ML-DSA':
+          this.instances[algorithmName] = new MLDSASignature();
+          break;
+        case 'LAMPORT':
+          this.instances[algorithmName] = new Lamport();
+          break;
+        case 'WOTS+':
+          this.instances[algorithmName] = new WOTSPlus();
+          break;
+        case 'XMSS':
+          this.instances[algorithmName] = new XMSS();
+          break;
+        case 'BLS':
+          this.instances[algorithmName] = new BLS();
+          break;
+        case 'RABIN-WILLIAMS':
+          this.instances[algorithmName] = new RabinWilliams();
+          break;
         default:
           throw new Error(`不支持的算法: ${algorithm}`);
       }
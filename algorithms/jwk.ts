@@ -0,0 +1,329 @@
+/**
+ * JSON Web Key的导入与导出 (RFC 7517 / RFC 7518 第6节)
+ * 整数分量为大端字节的base64url编码（无填充）：RSA分量去掉前导零，EC坐标与私钥按曲线长度定长编码
+ * 指纹按RFC 7638计算
+ */
+import { sha256 } from './hash';
+import { KeyPair } from './types';
+import {
+  EC_CURVES,
+  EcPrivateKeyComponents,
+  EcPublicKeyComponents,
+  RsaPrivateKeyComponents,
+  RsaPublicKeyComponents
+} from './key-formats';
+
+/**
+ * JSON Web Key，只列出RSA和EC密钥用到的成员
+ */
+export interface Jwk {
+  kty: string; // 密钥类型："RSA"或"EC"
+  kid?: string; // 密钥标识，导出时取RFC 7638指纹
+  // RSA (RFC 7518 6.3)
+  n?: string;
+  e?: string;
+  d?: string; // RSA私钥指数或EC私钥
+  p?: string;
+  q?: string;
+  dp?: string;
+  dq?: string;
+  qi?: string;
+  oth?: { r: string; d: string; t: string }[]; // 多素数RSA的其余素数
+  // EC (RFC 7518 6.2)
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+/**
+ * 支持JWK导入导出的算法实例
+ */
+export interface JwkCodec {
+  exportJwk(keys: KeyPair): { publicKey: Jwk; privateKey: Jwk | null };
+  importJwk(jwk: Jwk): KeyPair;
+}
+
+/**
+ * 导入的JWK公钥，type标明算法
+ */
+export type ImportedPublicJwk =
+  | { type: 'RSA'; key: RsaPublicKeyComponents }
+  | { type: 'EC'; key: EcPublicKeyComponents };
+
+/**
+ * 导入的JWK私钥，type标明算法（EC私钥总是附带公钥点）
+ */
+export type ImportedPrivateJwk =
+  | { type: 'RSA'; key: RsaPrivateKeyComponents }
+  | { type: 'EC'; key: EcPrivateKeyComponents & { publicKey: { x: bigint; y: bigint } } };
+
+// ==================== 辅助函数 ====================
+
+/**
+ * base64url编码（无填充）
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  const base64 = btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * base64url解码，拒绝填充和非法字符
+ */
+function base64UrlDecode(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) {
+    throw new Error('JWK格式错误: 无效的base64url编码');
+  }
+
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 将非负整数编码为base64url
+ * @param value 整数值
+ * @param length 定长编码的字节数；省略时使用最短编码（Base64urlUInt，0编码为单个零字节）
+ */
+function encodeInteger(value: bigint, length?: number): string {
+  const hex = value.toString(16);
+  const byteLength = length ?? Math.max(1, Math.ceil(hex.length / 2));
+  if (hex.length > byteLength * 2) {
+    throw new Error('整数超出指定长度');
+  }
+
+  const padded = hex.padStart(byteLength * 2, '0');
+  const bytes = new Uint8Array(byteLength);
+  for (let i = 0; i < byteLength; i++) {
+    bytes[i] = parseInt(padded.substring(i * 2, i * 2 + 2), 16);
+  }
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * 读取base64url编码的整数成员
+ * @param jwk JWK对象
+ * @param name 成员名称
+ * @param length 要求的字节数（EC坐标与私钥）
+ */
+function readInteger(jwk: Jwk | Record<string, unknown>, name: string, length?: number): bigint {
+  const text = (jwk as Record<string, unknown>)[name];
+  if (typeof text !== 'string' || text.length === 0) {
+    throw new Error(`JWK缺少成员: ${name}`);
+  }
+
+  const bytes = base64UrlDecode(text);
+  if (length !== undefined && bytes.length !== length) {
+    throw new Error(`JWK格式错误: ${name}的长度应为${length}字节`);
+  }
+
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+/**
+ * 根据曲线名称查找坐标字节长度
+ */
+function curveSize(curve: string): number {
+  const info = EC_CURVES[curve];
+  if (!info) {
+    throw new Error(`不支持的椭圆曲线: ${curve}`);
+  }
+  return info.size;
+}
+
+/**
+ * 检查JWK的密钥类型
+ */
+function checkKeyType(jwk: Jwk): 'RSA' | 'EC' {
+  if (!jwk || typeof jwk !== 'object') {
+    throw new Error('JWK格式错误: 不是JSON对象');
+  }
+  if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') {
+    throw new Error(`不支持的JWK密钥类型: ${jwk.kty}`);
+  }
+  return jwk.kty;
+}
+
+/**
+ * 为JWK附加kid（RFC 7638指纹）
+ */
+function withKeyId(jwk: Jwk): Jwk {
+  return { ...jwk, kid: computeJwkThumbprint(jwk) };
+}
+
+// ==================== 导出 ====================
+
+/**
+ * 导出RSA公钥为JWK
+ * @param key 公钥分量
+ * @returns JWK对象
+ */
+export function exportRsaPublicJwk(key: RsaPublicKeyComponents): Jwk {
+  return withKeyId({ kty: 'RSA', n: encodeInteger(key.n), e: encodeInteger(key.e) });
+}
+
+/**
+ * 导出RSA私钥为JWK（包含CRT参数，多素数密钥使用oth成员）
+ * @param key 私钥分量
+ * @returns JWK对象
+ */
+export function exportRsaPrivateJwk(key: RsaPrivateKeyComponents): Jwk {
+  const jwk: Jwk = {
+    kty: 'RSA',
+    n: encodeInteger(key.n),
+    e: encodeInteger(key.e),
+    d: encodeInteger(key.d),
+    p: encodeInteger(key.p),
+    q: encodeInteger(key.q),
+    dp: encodeInteger(key.dp),
+    dq: encodeInteger(key.dq),
+    qi: encodeInteger(key.qInv)
+  };
+  if (key.otherPrimes && key.otherPrimes.length > 0) {
+    jwk.oth = key.otherPrimes.map(info => ({
+      r: encodeInteger(info.r),
+      d: encodeInteger(info.d),
+      t: encodeInteger(info.t)
+    }));
+  }
+  return withKeyId(jwk);
+}
+
+/**
+ * 导出EC公钥为JWK
+ * @param key 公钥点与曲线名称
+ * @returns JWK对象
+ */
+export function exportEcPublicJwk(key: EcPublicKeyComponents): Jwk {
+  const size = curveSize(key.curve);
+  return withKeyId({ kty: 'EC', crv: key.curve, x: encodeInteger(key.x, size), y: encodeInteger(key.y, size) });
+}
+
+/**
+ * 导出EC私钥为JWK（JWK私钥必须同时包含公钥点）
+ * @param key 私钥分量
+ * @returns JWK对象
+ */
+export function exportEcPrivateJwk(key: EcPrivateKeyComponents): Jwk {
+  if (!key.publicKey) {
+    throw new Error('EC私钥缺少公钥点，无法导出JWK');
+  }
+  const size = curveSize(key.curve);
+  return withKeyId({
+    kty: 'EC',
+    crv: key.curve,
+    x: encodeInteger(key.publicKey.x, size),
+    y: encodeInteger(key.publicKey.y, size),
+    d: encodeInteger(key.d, size)
+  });
+}
+
+// ==================== 导入 ====================
+
+/**
+ * 判断JWK是否包含私钥
+ * @param jwk JWK对象
+ */
+export function isPrivateJwk(jwk: Jwk): boolean {
+  return jwk.d !== undefined;
+}
+
+/**
+ * 导入JWK公钥（私钥JWK同样可用，只读取其中的公钥成员）
+ * @param jwk JWK对象
+ * @returns 算法类型与公钥分量
+ */
+export function importPublicJwk(jwk: Jwk): ImportedPublicJwk {
+  if (checkKeyType(jwk) === 'RSA') {
+    return { type: 'RSA', key: { n: readInteger(jwk, 'n'), e: readInteger(jwk, 'e') } };
+  }
+
+  const curve = String(jwk.crv);
+  const size = curveSize(curve);
+  return { type: 'EC', key: { curve, x: readInteger(jwk, 'x', size), y: readInteger(jwk, 'y', size) } };
+}
+
+/**
+ * 导入JWK私钥
+ * RSA私钥必须包含完整的CRT参数 (RFC 7518 6.3.2)，并校验素数之积等于n
+ * @param jwk JWK对象
+ * @returns 算法类型与私钥分量
+ */
+export function importPrivateJwk(jwk: Jwk): ImportedPrivateJwk {
+  const publicKey = importPublicJwk(jwk);
+  if (!isPrivateJwk(jwk)) {
+    throw new Error('JWK缺少成员: d');
+  }
+
+  if (publicKey.type === 'EC') {
+    const { curve, x, y } = publicKey.key;
+    return { type: 'EC', key: { curve, d: readInteger(jwk, 'd', curveSize(curve)), publicKey: { x, y } } };
+  }
+
+  if (jwk.p === undefined) {
+    throw new Error('私钥缺少CRT参数');
+  }
+
+  const key: RsaPrivateKeyComponents = {
+    ...publicKey.key,
+    d: readInteger(jwk, 'd'),
+    p: readInteger(jwk, 'p'),
+    q: readInteger(jwk, 'q'),
+    dp: readInteger(jwk, 'dp'),
+    dq: readInteger(jwk, 'dq'),
+    qInv: readInteger(jwk, 'qi')
+  };
+  if (jwk.oth !== undefined) {
+    if (!Array.isArray(jwk.oth) || jwk.oth.length === 0) {
+      throw new Error('JWK格式错误: oth必须是非空数组');
+    }
+    key.otherPrimes = jwk.oth.map(info => ({
+      r: readInteger(info, 'r'),
+      d: readInteger(info, 'd'),
+      t: readInteger(info, 't')
+    }));
+  }
+
+  const product = (key.otherPrimes ?? []).reduce((acc, info) => acc * info.r, key.p * key.q);
+  if (product !== key.n) {
+    throw new Error('私钥分量不一致: 素数之积不等于n');
+  }
+  return { type: 'RSA', key };
+}
+
+/**
+ * 计算JWK指纹 (RFC 7638)
+ * 只取必需成员按字典序排列，序列化为无空白的JSON后做SHA-256，结果以base64url表示
+ * 公钥与对应私钥的指纹相同
+ * @param jwk JWK对象
+ * @returns base64url编码的SHA-256指纹
+ */
+export function computeJwkThumbprint(jwk: Jwk): string {
+  const members = checkKeyType(jwk) === 'RSA'
+    ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+  for (const [name, value] of Object.entries(members)) {
+    if (typeof value !== 'string') {
+      throw new Error(`JWK缺少成员: ${name}`);
+    }
+  }
+  return base64UrlEncode(sha256(JSON.stringify(members)));
+}
+
+/**
+ * 判断算法实例是否支持JWK导入导出
+ * @param algorithm 签名或加密算法实例
+ * @returns 支持时返回该实例，否则返回null
+ */
+export function asJwkCodec(algorithm: object): JwkCodec | null {
+  return 'exportJwk' in algorithm && 'importJwk' in algorithm ? (algorithm as JwkCodec) : null;
+}
@@ -0,0 +1,45 @@
+import { KeyAgreementAlgorithm } from './key-exchange-types';
+import { DiffieHellman } from './DiffieHellman';
+import { ECDH } from './ECDH';
+
+// 导出类型，方便其他模块使用
+export type { KeyAgreementAlgorithm };
+
+/**
+ * 密钥协商算法工厂类，用于获取指定的密钥协商算法实例
+ */
+export class KeyAgreementFactory {
+  private static instances: Record<string, KeyAgreementAlgorithm> = {};
+
+  /**
+   * 获取所有可用的密钥协商算法列表
+   * @returns 密钥协商算法名称数组
+   */
+  static getAvailableAlgorithms(): string[] {
+    return ['DH', 'ECDH'];
+  }
+
+  /**
+   * 获取指定算法的实例
+   * @param algorithm 算法名称: 'DH' 或 'ECDH'
+   * @returns 算法实例
+   */
+  static getAlgorithm(algorithm: string): KeyAgreementAlgorithm {
+    const algorithmName = algorithm.toUpperCase();
+    
+    if (!this.instances[algorithmName]) {
+      switch (algorithmName) {
+        case 'DH':
+          this.instances[algorithmName] = new DiffieHellman();
+          break;
+        case 'ECDH':
+          this.instances[algorithmName] = new ECDH();
+          break;
+        default:
+          throw new Error(`不支持的算法: ${algorithm}`);
+      }
+    }
+    
+    return this.instances[algorithmName];
+  }
+}
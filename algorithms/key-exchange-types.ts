@@ -0,0 +1,8 @@
+import { KeyGenerationOptions, KeyPair } from './types';
+
+export interface KeyAgreementAlgorithm {
+  name: string; // 算法名称
+  description: string; // 算法描述
+  generateKeys(options?: KeyGenerationOptions): Promise<KeyPair>;
+  computeSharedSecret(privateKey: any, peerPublicKey: any): Promise<string>; // 返回共享秘密Z（十六进制，定长编码）
+}
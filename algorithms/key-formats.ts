@@ -0,0 +1,576 @@
+/**
+ * 标准密钥格式的导入与导出
+ * RSA: PKCS#1 (RFC 8017 附录A.1)、SubjectPublicKeyInfo (RFC 5280)、PKCS#8 (RFC 5208)
+ * DSA: SubjectPublicKeyInfo + Dss-Parms (RFC 3279 2.3.2)、PKCS#8
+ * DH/ElGamal: PKCS#3 dhKeyAgreement 参数，与OpenSSL的DH密钥格式一致
+ * EC: SEC 1 ECPrivateKey (RFC 5915)、SubjectPublicKeyInfo (RFC 5480)、PKCS#8
+ */
+import {
+  Asn1Node,
+  ASN1_TAG,
+  decodeDer,
+  decodePem,
+  encodeBitString,
+  encodeExplicit,
+  encodeInteger,
+  encodeNull,
+  encodeObjectIdentifier,
+  encodeOctetString,
+  encodePem,
+  encodeSequence,
+  expectTag,
+  readBitString,
+  readInteger,
+  readObjectIdentifier,
+  readOctetString
+} from './asn1';
+
+// 算法对象标识符
+const OID = {
+  RSA_ENCRYPTION: '1.2.840.113549.1.1.1',
+  DSA: '1.2.840.10040.4.1',
+  DH_KEY_AGREEMENT: '1.2.840.113549.1.3.1',
+  EC_PUBLIC_KEY: '1.2.840.10045.2.1'
+};
+
+/**
+ * 命名曲线的对象标识符与坐标字节长度
+ */
+export const EC_CURVES: Record<string, { oid: string; size: number }> = {
+  secp256k1: { oid: '1.3.132.0.10', size: 32 },
+  'P-256': { oid: '1.2.840.10045.3.1.7', size: 32 },
+  'P-384': { oid: '1.3.132.0.34', size: 48 },
+  'P-521': { oid: '1.3.132.0.35', size: 66 }
+};
+
+export interface RsaPublicKeyComponents {
+  n: bigint;
+  e: bigint;
+}
+
+export interface RsaPrivateKeyComponents extends RsaPublicKeyComponents {
+  d: bigint;
+  p: bigint;
+  q: bigint;
+  dp: bigint;
+  dq: bigint;
+  qInv: bigint;
+  otherPrimes?: { r: bigint; d: bigint; t: bigint }[]; // 多素数RSA的其余素数
+}
+
+export interface DsaPublicKeyComponents {
+  p: bigint;
+  q: bigint;
+  g: bigint;
+  y: bigint;
+}
+
+export interface DsaPrivateKeyComponents {
+  p: bigint;
+  q: bigint;
+  g: bigint;
+  x: bigint;
+}
+
+export interface DhPublicKeyComponents {
+  p: bigint;
+  g: bigint;
+  y: bigint;
+}
+
+export interface DhPrivateKeyComponents {
+  p: bigint;
+  g: bigint;
+  x: bigint;
+}
+
+export interface EcPublicKeyComponents {
+  curve: string;
+  x: bigint;
+  y: bigint;
+}
+
+export interface EcPrivateKeyComponents {
+  curve: string;
+  d: bigint;
+  publicKey?: { x: bigint; y: bigint }; // 可选的公钥点
+}
+
+/**
+ * 导入的公钥，type标明算法
+ */
+export type ImportedPublicKey =
+  | { type: 'RSA'; key: RsaPublicKeyComponents }
+  | { type: 'DSA'; key: DsaPublicKeyComponents }
+  | { type: 'DH'; key: DhPublicKeyComponents }
+  | { type: 'EC'; key: EcPublicKeyComponents };
+
+/**
+ * 导入的私钥，type标明算法
+ */
+export type ImportedPrivateKey =
+  | { type: 'RSA'; key: RsaPrivateKeyComponents }
+  | { type: 'DSA'; key: DsaPrivateKeyComponents }
+  | { type: 'DH'; key: DhPrivateKeyComponents }
+  | { type: 'EC'; key: EcPrivateKeyComponents };
+
+// ==================== 辅助函数 ====================
+
+/**
+ * 将非负整数编码为定长大端字节数组
+ */
+function toFixedBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let temp = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(temp & 0xffn);
+    temp >>= 8n;
+  }
+  if (temp !== 0n) {
+    throw new Error('整数超出指定长度');
+  }
+  return bytes;
+}
+
+/**
+ * 将大端字节数组转换为非负整数
+ */
+function fromBytes(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+/**
+ * 检查SEQUENCE并返回子元素
+ * @param node ASN.1元素
+ * @param minLength 最少子元素个数
+ * @param name 用于错误信息的结构名称
+ */
+function sequenceOf(node: Asn1Node, minLength: number, name: string): Asn1Node[] {
+  expectTag(node, ASN1_TAG.SEQUENCE, `${name} SEQUENCE`);
+  if (node.children.length < minLength) {
+    throw new Error(`密钥格式错误: ${name}缺少字段`);
+  }
+  return node.children;
+}
+
+/**
+ * 根据曲线名称查找曲线信息
+ */
+function curveByName(curve: string): { oid: string; size: number } {
+  const info = EC_CURVES[curve];
+  if (!info) {
+    throw new Error(`不支持的椭圆曲线: ${curve}`);
+  }
+  return info;
+}
+
+/**
+ * 根据对象标识符查找曲线名称
+ */
+function curveByOid(oid: string): string {
+  const name = Object.keys(EC_CURVES).find(curve => EC_CURVES[curve].oid === oid);
+  if (!name) {
+    throw new Error(`不支持的椭圆曲线: ${oid}`);
+  }
+  return name;
+}
+
+/**
+ * 编码未压缩的椭圆曲线点 04 || X || Y (SEC 1 2.3.3)
+ */
+function encodeEcPoint(curve: string, x: bigint, y: bigint): Uint8Array {
+  const { size } = curveByName(curve);
+  const point = new Uint8Array(1 + 2 * size);
+  point[0] = 0x04;
+  point.set(toFixedBytes(x, size), 1);
+  point.set(toFixedBytes(y, size), 1 + size);
+  return point;
+}
+
+/**
+ * 解码未压缩的椭圆曲线点
+ */
+function decodeEcPoint(curve: string, bytes: Uint8Array): { x: bigint; y: bigint } {
+  const { size } = curveByName(curve);
+  if (bytes.length !== 1 + 2 * size || bytes[0] !== 0x04) {
+    throw new Error('密钥格式错误: 仅支持未压缩格式的椭圆曲线点');
+  }
+  return {
+    x: fromBytes(bytes.slice(1, 1 + size)),
+    y: fromBytes(bytes.slice(1 + size))
+  };
+}
+
+/**
+ * 编码AlgorithmIdentifier
+ */
+function algorithmIdentifier(oid: string, parameters: Uint8Array): Uint8Array {
+  return encodeSequence(encodeObjectIdentifier(oid), parameters);
+}
+
+/**
+ * 编码SubjectPublicKeyInfo
+ */
+function subjectPublicKeyInfo(algorithm: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  return encodeSequence(algorithm, encodeBitString(publicKey));
+}
+
+/**
+ * 编码PKCS#8 PrivateKeyInfo（版本0）
+ */
+function privateKeyInfo(algorithm: Uint8Array, privateKey: Uint8Array): Uint8Array {
+  return encodeSequence(encodeInteger(0n), algorithm, encodeOctetString(privateKey));
+}
+
+// ==================== RSA ====================
+
+/**
+ * 编码PKCS#1 RSAPublicKey
+ */
+function rsaPublicKeyDer(key: RsaPublicKeyComponents): Uint8Array {
+  return encodeSequence(encodeInteger(key.n), encodeInteger(key.e));
+}
+
+/**
+ * 编码PKCS#1 RSAPrivateKey，多素数密钥使用版本1并附带OtherPrimeInfos
+ */
+function rsaPrivateKeyDer(key: RsaPrivateKeyComponents): Uint8Array {
+  const multiPrime = key.otherPrimes !== undefined && key.otherPrimes.length > 0;
+  const fields = [
+    encodeInteger(multiPrime ? 1n : 0n),
+    encodeInteger(key.n),
+    encodeInteger(key.e),
+    encodeInteger(key.d),
+    encodeInteger(key.p),
+    encodeInteger(key.q),
+    encodeInteger(key.dp),
+    encodeInteger(key.dq),
+    encodeInteger(key.qInv)
+  ];
+  if (multiPrime) {
+    fields.push(encodeSequence(
+      ...key.otherPrimes!.map(info => encodeSequence(encodeInteger(info.r), encodeInteger(info.d), encodeInteger(info.t)))
+    ));
+  }
+  return encodeSequence(...fields);
+}
+
+/**
+ * 解码PKCS#1 RSAPublicKey
+ */
+function parseRsaPublicKey(node: Asn1Node): RsaPublicKeyComponents {
+  const [n, e] = sequenceOf(node, 2, 'RSAPublicKey');
+  return { n: readInteger(n), e: readInteger(e) };
+}
+
+/**
+ * 解码PKCS#1 RSAPrivateKey
+ */
+function parseRsaPrivateKey(node: Asn1Node): RsaPrivateKeyComponents {
+  const fields = sequenceOf(node, 9, 'RSAPrivateKey');
+  const version = readInteger(fields[0]);
+  if (version !== 0n && version !== 1n) {
+    throw new Error(`密钥格式错误: 不支持的RSAPrivateKey版本${version}`);
+  }
+
+  const [n, e, d, p, q, dp, dq, qInv] = fields.slice(1, 9).map(readInteger);
+  const key: RsaPrivateKeyComponents = { n, e, d, p, q, dp, dq, qInv };
+
+  // 版本1：多素数RSA
+  if (version === 1n) {
+    if (fields.length < 10) {
+      throw new Error('密钥格式错误: 多素数RSA密钥缺少OtherPrimeInfos');
+    }
+    key.otherPrimes = sequenceOf(fields[9], 1, 'OtherPrimeInfos').map(info => {
+      const [r, di, t] = sequenceOf(info, 3, 'OtherPrimeInfo').map(readInteger);
+      return { r, d: di, t };
+    });
+  }
+  return key;
+}
+
+/**
+ * 导出RSA公钥
+ * @param key 公钥分量
+ * @param format 'spki'为"PUBLIC KEY"，'pkcs1'为"RSA PUBLIC KEY"
+ * @returns PEM文本
+ */
+export function exportRsaPublicKey(key: RsaPublicKeyComponents, format: 'spki' | 'pkcs1' = 'spki'): string {
+  const pkcs1 = rsaPublicKeyDer(key);
+  if (format === 'pkcs1') {
+    return encodePem('RSA PUBLIC KEY', pkcs1);
+  }
+  return encodePem('PUBLIC KEY', subjectPublicKeyInfo(algorithmIdentifier(OID.RSA_ENCRYPTION, encodeNull()), pkcs1));
+}
+
+/**
+ * 导出RSA私钥
+ * @param key 私钥分量（含CRT参数）
+ * @param format 'pkcs8'为"PRIVATE KEY"，'pkcs1'为"RSA PRIVATE KEY"
+ * @returns PEM文本
+ */
+export function exportRsaPrivateKey(key: RsaPrivateKeyComponents, format: 'pkcs8' | 'pkcs1' = 'pkcs8'): string {
+  const pkcs1 = rsaPrivateKeyDer(key);
+  if (format === 'pkcs1') {
+    return encodePem('RSA PRIVATE KEY', pkcs1);
+  }
+  return encodePem('PRIVATE KEY', privateKeyInfo(algorithmIdentifier(OID.RSA_ENCRYPTION, encodeNull()), pkcs1));
+}
+
+// ==================== DSA ====================
+
+/**
+ * 编码Dss-Parms
+ */
+function dssParms(p: bigint, q: bigint, g: bigint): Uint8Array {
+  return encodeSequence(encodeInteger(p), encodeInteger(q), encodeInteger(g));
+}
+
+/**
+ * 导出DSA公钥（SubjectPublicKeyInfo，包含域参数）
+ * @param key 公钥与域参数
+ * @returns PEM文本
+ */
+export function exportDsaPublicKey(key: DsaPublicKeyComponents): string {
+  const algorithm = algorithmIdentifier(OID.DSA, dssParms(key.p, key.q, key.g));
+  return encodePem('PUBLIC KEY', subjectPublicKeyInfo(algorithm, encodeInteger(key.y)));
+}
+
+/**
+ * 导出DSA私钥（PKCS#8）
+ * @param key 私钥与域参数
+ * @returns PEM文本
+ */
+export function exportDsaPrivateKey(key: DsaPrivateKeyComponents): string {
+  const algorithm = algorithmIdentifier(OID.DSA, dssParms(key.p, key.q, key.g));
+  return encodePem('PRIVATE KEY', privateKeyInfo(algorithm, encodeInteger(key.x)));
+}
+
+// ==================== DH / ElGamal ====================
+
+/**
+ * 导出DH/ElGamal公钥（SubjectPublicKeyInfo，PKCS#3参数）
+ * @param key 公钥与群参数
+ * @returns PEM文本
+ */
+export function exportDhPublicKey(key: DhPublicKeyComponents): string {
+  const algorithm = algorithmIdentifier(OID.DH_KEY_AGREEMENT, encodeSequence(encodeInteger(key.p), encodeInteger(key.g)));
+  return encodePem('PUBLIC KEY', subjectPublicKeyInfo(algorithm, encodeInteger(key.y)));
+}
+
+/**
+ * 导出DH/ElGamal私钥（PKCS#8，PKCS#3参数）
+ * @param key 私钥与群参数
+ * @returns PEM文本
+ */
+export function exportDhPrivateKey(key: DhPrivateKeyComponents): string {
+  const algorithm = algorithmIdentifier(OID.DH_KEY_AGREEMENT, encodeSequence(encodeInteger(key.p), encodeInteger(key.g)));
+  return encodePem('PRIVATE KEY', privateKeyInfo(algorithm, encodeInteger(key.x)));
+}
+
+// ==================== EC ====================
+
+/**
+ * 编码SEC 1 ECPrivateKey
+ * @param key 私钥分量
+ * @param includeParameters 是否包含[0]曲线参数（PKCS#8中由AlgorithmIdentifier给出，可省略）
+ */
+function ecPrivateKeyDer(key: EcPrivateKeyComponents, includeParameters: boolean): Uint8Array {
+  const { oid, size } = curveByName(key.curve);
+  const fields = [encodeInteger(1n), encodeOctetString(toFixedBytes(key.d, size))];
+  if (includeParameters) {
+    fields.push(encodeExplicit(0, encodeObjectIdentifier(oid)));
+  }
+  if (key.publicKey) {
+    fields.push(encodeExplicit(1, encodeBitString(encodeEcPoint(key.curve, key.publicKey.x, key.publicKey.y))));
+  }
+  return encodeSequence(...fields);
+}
+
+/**
+ * 解码SEC 1 ECPrivateKey
+ * @param node ASN.1元素
+ * @param curve AlgorithmIdentifier中给出的曲线（PKCS#8），SEC 1格式下从[0]读取
+ */
+function parseEcPrivateKey(node: Asn1Node, curve?: string): EcPrivateKeyComponents {
+  const fields = sequenceOf(node, 2, 'ECPrivateKey');
+  if (readInteger(fields[0]) !== 1n) {
+    throw new Error('密钥格式错误: 不支持的ECPrivateKey版本');
+  }
+
+  const d = fromBytes(readOctetString(fields[1]));
+  let curveName = curve;
+  let publicKey: { x: bigint; y: bigint } | undefined;
+
+  for (const field of fields.slice(2)) {
+    if (field.tag === 0xa0) {
+      const named = curveByOid(readObjectIdentifier(field.children[0]));
+      if (curveName && curveName !== named) {
+        throw new Error('密钥格式错误: 曲线参数不一致');
+      }
+      curveName = named;
+    } else if (field.tag === 0xa1) {
+      if (!curveName) {
+        throw new Error('密钥格式错误: 缺少曲线参数');
+      }
+      publicKey = decodeEcPoint(curveName, readBitString(field.children[0]));
+    }
+  }
+
+  if (!curveName) {
+    throw new Error('密钥格式错误: 缺少曲线参数');
+  }
+  return { curve: curveName, d, publicKey };
+}
+
+/**
+ * 导出EC公钥（SubjectPublicKeyInfo，命名曲线）
+ * @param key 公钥点与曲线名称
+ * @returns PEM文本
+ */
+export function exportEcPublicKey(key: EcPublicKeyComponents): string {
+  const algorithm = algorithmIdentifier(OID.EC_PUBLIC_KEY, encodeObjectIdentifier(curveByName(key.curve).oid));
+  return encodePem('PUBLIC KEY', subjectPublicKeyInfo(algorithm, encodeEcPoint(key.curve, key.x, key.y)));
+}
+
+/**
+ * 导出EC私钥
+ * @param key 私钥分量
+ * @param format 'pkcs8'为"PRIVATE KEY"，'sec1'为"EC PRIVATE KEY"
+ * @returns PEM文本
+ */
+export function exportEcPrivateKey(key: EcPrivateKeyComponents, format: 'pkcs8' | 'sec1' = 'pkcs8'): string {
+  if (format === 'sec1') {
+    return encodePem('EC PRIVATE KEY', ecPrivateKeyDer(key, true));
+  }
+  const algorithm = algorithmIdentifier(OID.EC_PUBLIC_KEY, encodeObjectIdentifier(curveByName(key.curve).oid));
+  return encodePem('PRIVATE KEY', privateKeyInfo(algorithm, ecPrivateKeyDer(key, false)));
+}
+
+// ==================== 导入 ====================
+
+/**
+ * 解析AlgorithmIdentifier
+ */
+function parseAlgorithmIdentifier(node: Asn1Node): { oid: string; parameters?: Asn1Node } {
+  const [oid, parameters] = sequenceOf(node, 1, 'AlgorithmIdentifier');
+  return { oid: readObjectIdentifier(oid), parameters };
+}
+
+/**
+ * 读取SEQUENCE中的全部INTEGER
+ */
+function readIntegers(node: Asn1Node, count: number, name: string): bigint[] {
+  return sequenceOf(node, count, name).slice(0, count).map(readInteger);
+}
+
+/**
+ * 导入PEM格式的公钥
+ * 支持"PUBLIC KEY"(SubjectPublicKeyInfo: RSA/DSA/DH/EC)和"RSA PUBLIC KEY"(PKCS#1)
+ * @param pem PEM文本
+ * @returns 算法类型与公钥分量
+ */
+export function importPublicKey(pem: string): ImportedPublicKey {
+  const { label, der } = decodePem(pem);
+  const root = decodeDer(der);
+
+  if (label === 'RSA PUBLIC KEY') {
+    return { type: 'RSA', key: parseRsaPublicKey(root) };
+  }
+  if (label !== 'PUBLIC KEY') {
+    throw new Error(`不支持的公钥类型: ${label}`);
+  }
+
+  const [algorithmNode, publicKeyNode] = sequenceOf(root, 2, 'SubjectPublicKeyInfo');
+  const { oid, parameters } = parseAlgorithmIdentifier(algorithmNode);
+  const publicKey = readBitString(publicKeyNode);
+
+  switch (oid) {
+    case OID.RSA_ENCRYPTION:
+      return { type: 'RSA', key: parseRsaPublicKey(decodeDer(publicKey)) };
+    case OID.DSA: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: DSA公钥缺少域参数');
+      }
+      const [p, q, g] = readIntegers(parameters, 3, 'Dss-Parms');
+      return { type: 'DSA', key: { p, q, g, y: readInteger(decodeDer(publicKey)) } };
+    }
+    case OID.DH_KEY_AGREEMENT: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: DH公钥缺少群参数');
+      }
+      const [p, g] = readIntegers(parameters, 2, 'DHParameter');
+      return { type: 'DH', key: { p, g, y: readInteger(decodeDer(publicKey)) } };
+    }
+    case OID.EC_PUBLIC_KEY: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: EC公钥缺少曲线参数');
+      }
+      const curve = curveByOid(readObjectIdentifier(parameters));
+      return { type: 'EC', key: { curve, ...decodeEcPoint(curve, publicKey) } };
+    }
+    default:
+      throw new Error(`不支持的公钥算法: ${oid}`);
+  }
+}
+
+/**
+ * 导入PEM格式的私钥
+ * 支持"PRIVATE KEY"(PKCS#8: RSA/DSA/DH/EC)、"RSA PRIVATE KEY"(PKCS#1)和"EC PRIVATE KEY"(SEC 1)
+ * @param pem PEM文本
+ * @returns 算法类型与私钥分量
+ */
+export function importPrivateKey(pem: string): ImportedPrivateKey {
+  const { label, der } = decodePem(pem);
+  const root = decodeDer(der);
+
+  if (label === 'RSA PRIVATE KEY') {
+    return { type: 'RSA', key: parseRsaPrivateKey(root) };
+  }
+  if (label === 'EC PRIVATE KEY') {
+    return { type: 'EC', key: parseEcPrivateKey(root) };
+  }
+  if (label !== 'PRIVATE KEY') {
+    throw new Error(`不支持的私钥类型: ${label}`);
+  }
+
+  const [versionNode, algorithmNode, privateKeyNode] = sequenceOf(root, 3, 'PrivateKeyInfo');
+  const version = readInteger(versionNode);
+  if (version !== 0n && version !== 1n) {
+    throw new Error(`密钥格式错误: 不支持的PrivateKeyInfo版本${version}`);
+  }
+
+  const { oid, parameters } = parseAlgorithmIdentifier(algorithmNode);
+  const privateKey = decodeDer(readOctetString(privateKeyNode));
+
+  switch (oid) {
+    case OID.RSA_ENCRYPTION:
+      return { type: 'RSA', key: parseRsaPrivateKey(privateKey) };
+    case OID.DSA: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: DSA私钥缺少域参数');
+      }
+      const [p, q, g] = readIntegers(parameters, 3, 'Dss-Parms');
+      return { type: 'DSA', key: { p, q, g, x: readInteger(privateKey) } };
+    }
+    case OID.DH_KEY_AGREEMENT: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: DH私钥缺少群参数');
+      }
+      const [p, g] = readIntegers(parameters, 2, 'DHParameter');
+      return { type: 'DH', key: { p, g, x: readInteger(privateKey) } };
+    }
+    case OID.EC_PUBLIC_KEY: {
+      if (!parameters) {
+        throw new Error('密钥格式错误: EC私钥缺少曲线参数');
+      }
+      return { type: 'EC', key: parseEcPrivateKey(privateKey, curveByOid(readObjectIdentifier(parameters))) };
+    }
+    default:
+      throw new Error(`不支持的私钥算法: ${oid}`);
+  }
+}
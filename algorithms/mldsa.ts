@@ -0,0 +1,767 @@
+/**
+ * ML-DSA 模格数字签名算法 (FIPS 204)
+ * 采用"带中止的Fiat-Shamir"结构：签名者反复选取随机掩码y，计算 z = y + c·s1，
+ * 只有当z与低位部分都足够小、不会泄露私钥分布时才输出签名，否则丢弃重来（拒绝采样）
+ * 运算在多项式环 R_q = Z_q[X]/(X^256 + 1) 上进行，q = 8380417 = 2^23 - 2^13 + 1，NTT完全分裂
+ * 本模块只包含确定性的内部算法，随机种子由调用方提供
+ */
+import { shake128, shake256 } from './hash';
+
+/**
+ * ML-DSA参数集 (FIPS 204 表1)
+ */
+export interface MlDsaParameters {
+  name: string; // 参数集名称
+  k: number; // 矩阵A的行数
+  l: number; // 矩阵A的列数
+  eta: number; // 私钥s1、s2系数的范围[-η, η]
+  tau: number; // 挑战多项式c中±1的个数
+  beta: number; // τ·η，c·s1系数的上界
+  gamma1: number; // 掩码y系数的范围
+  gamma2: number; // 低位舍入范围
+  omega: number; // 提示h中1的最大个数
+  lambda: number; // 挑战哈希c̃的碰撞强度（位）
+}
+
+/**
+ * 支持的参数集：ML-DSA-44、65、87分别对应NIST安全等级2、3、5
+ */
+export const ML_DSA_PARAMETERS: Record<string, MlDsaParameters> = {
+  'ML-DSA-44': { name: 'ML-DSA-44', k: 4, l: 4, eta: 2, tau: 39, beta: 78, gamma1: 1 << 17, gamma2: (8380417 - 1) / 88, omega: 80, lambda: 128 },
+  'ML-DSA-65': { name: 'ML-DSA-65', k: 6, l: 5, eta: 4, tau: 49, beta: 196, gamma1: 1 << 19, gamma2: (8380417 - 1) / 32, omega: 55, lambda: 192 },
+  'ML-DSA-87': { name: 'ML-DSA-87', k: 8, l: 7, eta: 2, tau: 60, beta: 120, gamma1: 1 << 19, gamma2: (8380417 - 1) / 32, omega: 75, lambda: 256 }
+};
+
+/**
+ * 默认参数集
+ */
+export const DEFAULT_ML_DSA = 'ML-DSA-65';
+
+/**
+ * 多项式系数个数、模数，以及公钥t被丢弃的低位位数d
+ */
+export const N = 256;
+export const Q = 8380417;
+export const D = 13;
+
+/**
+ * 多项式，256个系数，均在[0, q)范围内
+ */
+export type Poly = number[];
+
+/**
+ * 一次签名尝试的记录，用于展示拒绝采样
+ */
+export interface MlDsaAttempt {
+  kappa: number; // 本次掩码y使用的计数器κ
+  zNorm: number; // ‖z‖∞，需小于γ1 − β
+  r0Norm: number; // ‖LowBits(w − c·s2)‖∞，需小于γ2 − β
+  ct0Norm?: number; // ‖c·t0‖∞，需小于γ2
+  hints?: number; // 提示h中1的个数，不能超过ω
+  rejectedBy: 'z' | 'r0' | 'ct0' | 'hint' | null; // 拒绝原因，null表示本次成功
+}
+
+/**
+ * 按名称查找参数集
+ * @param name 参数集名称，省略时返回默认参数集
+ * @returns 参数集
+ */
+export function getMlDsaParameters(name: string = DEFAULT_ML_DSA): MlDsaParameters {
+  const params = ML_DSA_PARAMETERS[name];
+  if (!params) {
+    throw new Error(`不支持的ML-DSA参数集: ${name}`);
+  }
+  return params;
+}
+
+/**
+ * 各参数集的公钥、私钥与签名字节长度 (FIPS 204 表2)
+ */
+export function mlDsaSizes(params: MlDsaParameters): { publicKey: number; privateKey: number; signature: number } {
+  const { k, l, eta, gamma1, omega, lambda } = params;
+  return {
+    publicKey: 32 + 320 * k,
+    privateKey: 128 + 32 * ((k + l) * bitLength(2 * eta) + D * k),
+    signature: lambda / 4 + 32 * l * (1 + bitLength(gamma1 - 1)) + omega + k
+  };
+}
+
+// ==================== 数论变换 (FIPS 204 7.5) ====================
+
+/**
+ * 8位二进制反转
+ */
+function bitRev8(i: number): number {
+  let result = 0;
+  for (let bit = 0; bit < 8; bit++) {
+    result |= ((i >> bit) & 1) << (7 - bit);
+  }
+  return result;
+}
+
+/**
+ * 模q幂运算（q < 2^23，乘积不超过2^46，number可以精确表示）
+ */
+function powMod(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = (result * base) % Q;
+  }
+  return result;
+}
+
+// ζ = 1753是模q的512次本原单位根，ZETAS[i] = ζ^BitRev8(i)
+const ZETAS = Array.from({ length: 256 }, (_, i) => powMod(1753, bitRev8(i)));
+
+// 256^(-1) mod q，逆变换的缩放因子
+const INV_256 = 8347681;
+
+/**
+ * 取模，结果为[0, q)
+ */
+function mod(a: number): number {
+  const r = a % Q;
+  return r < 0 ? r + Q : r;
+}
+
+/**
+ * 数论变换 (FIPS 204 算法41)
+ * X^256 + 1在Z_q上完全分解为256个一次因式，NTT域中的乘法就是逐系数相乘
+ */
+export function ntt(f: Poly): Poly {
+  const result = f.slice();
+  let m = 0;
+  for (let len = 128; len >= 1; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[++m];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * result[j + len]) % Q;
+        result[j + len] = mod(result[j] - t);
+        result[j] = (result[j] + t) % Q;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 逆数论变换 (FIPS 204 算法42)
+ */
+export function inverseNtt(f: Poly): Poly {
+  const result = f.slice();
+  let m = 256;
+  for (let len = 1; len < N; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = Q - ZETAS[--m];
+      for (let j = start; j < start + len; j++) {
+        const t = result[j];
+        result[j] = (t + result[j + len]) % Q;
+        result[j + len] = (zeta * mod(t - result[j + len])) % Q;
+      }
+    }
+  }
+  return result.map(c => (c * INV_256) % Q);
+}
+
+/**
+ * NTT域中的逐系数乘法
+ */
+export function multiplyNtts(f: Poly, g: Poly): Poly {
+  return f.map((c, i) => (c * g[i]) % Q);
+}
+
+function polyAdd(f: Poly, g: Poly): Poly {
+  return f.map((c, i) => (c + g[i]) % Q);
+}
+
+function polySub(f: Poly, g: Poly): Poly {
+  return f.map((c, i) => mod(c - g[i]));
+}
+
+/**
+ * NTT域中的矩阵-向量乘法 Â ∘ v̂
+ */
+function matrixVectorNtt(A: Poly[][], v: Poly[]): Poly[] {
+  return A.map(row => {
+    let result: Poly = new Array(N).fill(0);
+    for (let j = 0; j < row.length; j++) {
+      result = polyAdd(result, multiplyNtts(row[j], v[j]));
+    }
+    return result;
+  });
+}
+
+/**
+ * 多项式向量的无穷范数（系数先中心化到(-q/2, q/2]）
+ */
+function infinityNorm(v: Poly[]): number {
+  let norm = 0;
+  for (const f of v) {
+    for (const c of f) {
+      norm = Math.max(norm, Math.abs(centered(c)));
+    }
+  }
+  return norm;
+}
+
+// ==================== 舍入 (FIPS 204 7.4) ====================
+
+/**
+ * r mod± α，结果在(-α/2, α/2]
+ */
+function modPm(r: number, alpha: number): number {
+  const r0 = r % alpha;
+  return r0 > alpha >> 1 ? r0 - alpha : r0;
+}
+
+/**
+ * 把r拆成 r1·2^d + r0，r0 ∈ (-2^(d-1), 2^(d-1)] (FIPS 204 算法35)
+ */
+export function power2Round(r: number): [number, number] {
+  const r0 = modPm(r, 1 << D);
+  return [(r - r0) / (1 << D), r0];
+}
+
+/**
+ * 把r拆成高位r1与低位r0，r = r1·2γ2 + r0 (FIPS 204 算法36)
+ * r − r0 = q − 1时把r1置0，保证高位的取值是连续的
+ */
+export function decompose(r: number, gamma2: number): [number, number] {
+  let r0 = modPm(r, 2 * gamma2);
+  if (r - r0 === Q - 1) {
+    return [0, r0 - 1];
+  }
+  return [(r - r0) / (2 * gamma2), r0];
+}
+
+function highBits(r: number, gamma2: number): number {
+  return decompose(r, gamma2)[0];
+}
+
+function lowBits(r: number, gamma2: number): number {
+  return decompose(r, gamma2)[1];
+}
+
+/**
+ * 提示位：加上z是否改变r的高位 (FIPS 204 算法39)
+ */
+function makeHint(z: number, r: number, gamma2: number): number {
+  return highBits(r, gamma2) !== highBits((r + z) % Q, gamma2) ? 1 : 0;
+}
+
+/**
+ * 按提示位修正高位 (FIPS 204 算法40)
+ */
+export function useHint(h: number, r: number, gamma2: number): number {
+  const m = (Q - 1) / (2 * gamma2);
+  const [r1, r0] = decompose(r, gamma2);
+  if (h === 1 && r0 > 0) return (r1 + 1) % m;
+  if (h === 1 && r0 <= 0) return (r1 - 1 + m) % m;
+  return r1;
+}
+
+// ==================== 编码 (FIPS 204 7.1–7.2) ====================
+
+/**
+ * 把256个bits位整数按小端位序打包 (SimpleBitPack)
+ */
+function bitPack(values: number[], bits: number): Uint8Array {
+  const bytes = new Uint8Array(32 * bits);
+  let buffer = 0;
+  let bufferBits = 0;
+  let offset = 0;
+  for (const value of values) {
+    buffer |= value << bufferBits;
+    bufferBits += bits;
+    while (bufferBits >= 8) {
+      bytes[offset++] = buffer & 0xff;
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * 把字节解包为256个bits位整数 (SimpleBitUnpack)
+ */
+function bitUnpack(bytes: Uint8Array, bits: number): number[] {
+  const values: number[] = [];
+  const mask = (1 << bits) - 1;
+  let buffer = 0;
+  let bufferBits = 0;
+  let offset = 0;
+  while (values.length < N) {
+    while (bufferBits < bits) {
+      buffer |= bytes[offset++] << bufferBits;
+      bufferBits += 8;
+    }
+    values.push(buffer & mask);
+    buffer >>>= bits;
+    bufferBits -= bits;
+  }
+  return values;
+}
+
+/**
+ * 系数在[-a, b]内的多项式编码为 b − w (BitPack)
+ */
+function packCentered(f: Poly, a: number, b: number): Uint8Array {
+  return bitPack(f.map(c => b - centered(c)), bitLength(a + b));
+}
+
+/**
+ * BitPack的逆运算，系数还原到[0, q)
+ */
+function unpackCentered(bytes: Uint8Array, a: number, b: number): Poly {
+  return bitUnpack(bytes, bitLength(a + b)).map(c => mod(b - c));
+}
+
+/**
+ * 公钥编码 pk = ρ ‖ t1 (FIPS 204 算法22)，t1每个系数10位
+ */
+function pkEncode(rho: Uint8Array, t1: Poly[]): Uint8Array {
+  return concat(rho, ...t1.map(f => bitPack(f, 10)));
+}
+
+function pkDecode(params: MlDsaParameters, pk: Uint8Array): { rho: Uint8Array; t1: Poly[] } {
+  const rho = pk.slice(0, 32);
+  const t1 = Array.from({ length: params.k }, (_, i) => bitUnpack(pk.subarray(32 + 320 * i, 32 + 320 * (i + 1)), 10));
+  return { rho, t1 };
+}
+
+/**
+ * 私钥编码 sk = ρ ‖ K ‖ tr ‖ s1 ‖ s2 ‖ t0 (FIPS 204 算法24)
+ */
+function skEncode(params: MlDsaParameters, rho: Uint8Array, K: Uint8Array, tr: Uint8Array, s1: Poly[], s2: Poly[], t0: Poly[]): Uint8Array {
+  const { eta } = params;
+  return concat(
+    rho,
+    K,
+    tr,
+    ...s1.map(f => packCentered(f, eta, eta)),
+    ...s2.map(f => packCentered(f, eta, eta)),
+    ...t0.map(f => packCentered(f, (1 << (D - 1)) - 1, 1 << (D - 1)))
+  );
+}
+
+function skDecode(params: MlDsaParameters, sk: Uint8Array): {
+  rho: Uint8Array;
+  K: Uint8Array;
+  tr: Uint8Array;
+  s1: Poly[];
+  s2: Poly[];
+  t0: Poly[];
+} {
+  const { k, l, eta } = params;
+  const etaBytes = 32 * bitLength(2 * eta);
+  let offset = 128;
+  const next = (length: number) => sk.subarray(offset, (offset += length));
+
+  const s1 = Array.from({ length: l }, () => unpackCentered(next(etaBytes), eta, eta));
+  const s2 = Array.from({ length: k }, () => unpackCentered(next(etaBytes), eta, eta));
+  const t0 = Array.from({ length: k }, () => unpackCentered(next(32 * D), (1 << (D - 1)) - 1, 1 << (D - 1)));
+  return { rho: sk.slice(0, 32), K: sk.slice(32, 64), tr: sk.slice(64, 128), s1, s2, t0 };
+}
+
+/**
+ * 签名编码 σ = c̃ ‖ z ‖ h (FIPS 204 算法26)
+ * 提示h只记录1的位置：前ω字节依次是各多项式中1的下标，最后k字节是每个多项式结束时的累计个数
+ */
+function sigEncode(params: MlDsaParameters, cTilde: Uint8Array, z: Poly[], h: number[][]): Uint8Array {
+  const { k, gamma1, omega } = params;
+  const hintBytes = new Uint8Array(omega + k);
+  let index = 0;
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < N; j++) {
+      if (h[i][j] !== 0) {
+        hintBytes[index++] = j;
+      }
+    }
+    hintBytes[omega + i] = index;
+  }
+  return concat(cTilde, ...z.map(f => packCentered(f, gamma1 - 1, gamma1)), hintBytes);
+}
+
+/**
+ * 签名解码 (FIPS 204 算法27)，提示编码不规范时返回null
+ */
+function sigDecode(params: MlDsaParameters, sigma: Uint8Array): { cTilde: Uint8Array; z: Poly[]; h: number[][] } | null {
+  const { k, l, gamma1, omega, lambda } = params;
+  const cTilde = sigma.slice(0, lambda / 4);
+  const zBytes = 32 * (1 + bitLength(gamma1 - 1));
+  const z = Array.from({ length: l }, (_, i) =>
+    unpackCentered(sigma.subarray(lambda / 4 + zBytes * i, lambda / 4 + zBytes * (i + 1)), gamma1 - 1, gamma1)
+  );
+
+  // HintBitUnpack (FIPS 204 算法21)：计数单调不减、下标严格递增、未用的位置必须为0
+  const y = sigma.subarray(lambda / 4 + zBytes * l);
+  const h = Array.from({ length: k }, () => new Array(N).fill(0));
+  let index = 0;
+  for (let i = 0; i < k; i++) {
+    if (y[omega + i] < index || y[omega + i] > omega) {
+      return null;
+    }
+    const first = index;
+    while (index < y[omega + i]) {
+      if (index > first && y[index - 1] >= y[index]) {
+        return null;
+      }
+      h[i][y[index]] = 1;
+      index++;
+    }
+  }
+  for (let i = index; i < omega; i++) {
+    if (y[i] !== 0) {
+      return null;
+    }
+  }
+  return { cTilde, z, h };
+}
+
+/**
+ * 高位w1的编码 (FIPS 204 算法28)
+ */
+function w1Encode(params: MlDsaParameters, w1: Poly[]): Uint8Array {
+  const bits = bitLength((Q - 1) / (2 * params.gamma2) - 1);
+  return concat(...w1.map(f => bitPack(f, bits)));
+}
+
+// ==================== 采样 (FIPS 204 7.3) ====================
+
+/**
+ * 从SHAKE128输出中拒绝采样NTT域中的均匀多项式 (FIPS 204 算法30)
+ * 每3字节取23位，小于q时接受
+ * @param seed 32字节种子ρ与两个下标字节
+ */
+function rejNttPoly(seed: Uint8Array): Poly {
+  const f: Poly = [];
+  let stream = shake128(seed, 840);
+  let offset = 0;
+  while (f.length < N) {
+    // XOF输出不够时取更长的输出，前缀保持不变
+    if (offset + 3 > stream.length) {
+      stream = shake128(seed, stream.length + 168);
+    }
+    const coefficient = stream[offset] | (stream[offset + 1] << 8) | ((stream[offset + 2] & 0x7f) << 16);
+    offset += 3;
+    if (coefficient < Q) f.push(coefficient);
+  }
+  return f;
+}
+
+/**
+ * 从SHAKE256输出中拒绝采样系数在[-η, η]内的多项式 (FIPS 204 算法31)
+ * 每个半字节独立判断：η = 2时接受0–14并映射为2 − (b mod 5)，η = 4时接受0–8并映射为4 − b
+ * @param seed 64字节种子ρ'与两字节下标
+ */
+function rejBoundedPoly(seed: Uint8Array, eta: number): Poly {
+  const fromHalfByte = (b: number): number | null => {
+    if (eta === 2 && b < 15) return 2 - (b % 5);
+    if (eta === 4 && b < 9) return 4 - b;
+    return null;
+  };
+
+  const f: Poly = [];
+  let stream = shake256(seed, 272);
+  let offset = 0;
+  while (f.length < N) {
+    if (offset >= stream.length) {
+      stream = shake256(seed, stream.length + 136);
+    }
+    const z = stream[offset++];
+    const z0 = fromHalfByte(z & 0x0f);
+    const z1 = fromHalfByte(z >> 4);
+    if (z0 !== null) f.push(mod(z0));
+    if (z1 !== null && f.length < N) f.push(mod(z1));
+  }
+  return f;
+}
+
+/**
+ * 由挑战哈希c̃生成恰有τ个±1系数的挑战多项式c (FIPS 204 算法29)
+ * 前8字节提供符号位，之后的字节用于Fisher-Yates洗牌选取位置
+ */
+function sampleInBall(cTilde: Uint8Array, tau: number): Poly {
+  const c: Poly = new Array(N).fill(0);
+  let stream = shake256(cTilde, 136);
+  let offset = 8;
+  const signs = stream.slice(0, 8);
+  for (let i = N - tau; i < N; i++) {
+    let j: number;
+    do {
+      if (offset >= stream.length) {
+        stream = shake256(cTilde, stream.length + 136);
+      }
+      j = stream[offset++];
+    } while (j > i);
+    c[i] = c[j];
+    const bit = i + tau - N;
+    c[j] = (signs[bit >> 3] >> (bit & 7)) & 1 ? Q - 1 : 1;
+  }
+  return c;
+}
+
+/**
+ * 由种子ρ生成NTT域中的公共矩阵 Â[r][s] = RejNTTPoly(ρ ‖ s ‖ r) (FIPS 204 算法32)
+ */
+function expandA(params: MlDsaParameters, rho: Uint8Array): Poly[][] {
+  return Array.from({ length: params.k }, (_, r) =>
+    Array.from({ length: params.l }, (_, s) => rejNttPoly(concat(rho, Uint8Array.of(s, r))))
+  );
+}
+
+/**
+ * 由种子ρ'生成私钥向量s1（l个）与s2（k个） (FIPS 204 算法33)
+ */
+function expandS(params: MlDsaParameters, rhoPrime: Uint8Array): [Poly[], Poly[]] {
+  const { k, l, eta } = params;
+  const sample = (r: number) => rejBoundedPoly(concat(rhoPrime, Uint8Array.of(r & 0xff, r >> 8)), eta);
+  return [
+    Array.from({ length: l }, (_, r) => sample(r)),
+    Array.from({ length: k }, (_, r) => sample(r + l))
+  ];
+}
+
+/**
+ * 生成掩码向量y，系数在[-γ1 + 1, γ1]内 (FIPS 204 算法34)
+ */
+function expandMask(params: MlDsaParameters, rhoPrimePrime: Uint8Array, kappa: number): Poly[] {
+  const { l, gamma1 } = params;
+  const bytes = 32 * (1 + bitLength(gamma1 - 1));
+  return Array.from({ length: l }, (_, r) => {
+    const index = kappa + r;
+    const v = shake256(concat(rhoPrimePrime, Uint8Array.of(index & 0xff, index >> 8)), bytes);
+    return unpackCentered(v, gamma1 - 1, gamma1);
+  });
+}
+
+function H(data: Uint8Array, length: number): Uint8Array {
+  return shake256(data, length);
+}
+
+// ==================== 内部算法 (FIPS 204 第6节) ====================
+
+/**
+ * ML-DSA密钥生成 (FIPS 204 算法6)
+ * t = A·s1 + s2，公钥只保留t的高位t1，低位t0放进私钥
+ * @param params 参数集
+ * @param xi 32字节随机种子ξ
+ * @returns 公钥pk与私钥sk
+ */
+export function mlDsaKeyGen(params: MlDsaParameters, xi: Uint8Array): { pk: Uint8Array; sk: Uint8Array } {
+  if (xi.length !== 32) {
+    throw new Error('ML-DSA密钥生成的种子必须为32字节');
+  }
+  const { k, l } = params;
+  const seeds = H(concat(xi, Uint8Array.of(k, l)), 128);
+  const rho = seeds.slice(0, 32);
+  const rhoPrime = seeds.slice(32, 96);
+  const K = seeds.slice(96);
+
+  const A = expandA(params, rho);
+  const [s1, s2] = expandS(params, rhoPrime);
+  const As1 = matrixVectorNtt(A, s1.map(ntt)).map(inverseNtt);
+  const t = As1.map((f, i) => polyAdd(f, s2[i]));
+
+  const t1 = t.map(f => f.map(c => power2Round(c)[0]));
+  const t0 = t.map(f => f.map(c => mod(power2Round(c)[1])));
+
+  const pk = pkEncode(rho, t1);
+  const tr = H(pk, 64);
+  return { pk, sk: skEncode(params, rho, K, tr, s1, s2, t0) };
+}
+
+/**
+ * 组装纯ML-DSA的消息 M' = 0 ‖ |ctx| ‖ ctx ‖ M (FIPS 204 算法2、3)
+ */
+function formatMessage(message: Uint8Array, context: Uint8Array): Uint8Array {
+  if (context.length > 255) {
+    throw new Error('ML-DSA上下文字符串不能超过255字节');
+  }
+  return concat(Uint8Array.of(0, context.length), context, message);
+}
+
+/**
+ * 计算签名实际覆盖的消息代表 μ = H(H(pk) ‖ M', 64) (FIPS 204 算法7第6行)
+ * @param params 参数集
+ * @param pk 公钥
+ * @param message 消息
+ * @param context 上下文字符串，默认为空
+ * @returns 64字节的μ
+ */
+export function mlDsaMessageRepresentative(
+  params: MlDsaParameters,
+  pk: Uint8Array,
+  message: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (pk.length !== mlDsaSizes(params).publicKey) {
+    throw new Error(`${params.name}公钥长度错误`);
+  }
+  return H(concat(H(pk, 64), formatMessage(message, context)), 64);
+}
+
+/**
+ * ML-DSA签名 (FIPS 204 算法2、7)
+ * 每次尝试用新的κ生成掩码y，z或低位过大、c·t0过大或提示过多时拒绝，直到成功为止
+ * @param params 参数集
+ * @param sk 私钥
+ * @param message 待签名的消息
+ * @param rnd 32字节随机数；全零时为确定性签名
+ * @param context 上下文字符串（最多255字节），默认为空
+ * @returns 签名σ与每次尝试的记录
+ */
+export function mlDsaSign(
+  params: MlDsaParameters,
+  sk: Uint8Array,
+  message: Uint8Array,
+  rnd: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): { signature: Uint8Array; attempts: MlDsaAttempt[] } {
+  if (sk.length !== mlDsaSizes(params).privateKey) {
+    throw new Error(`${params.name}私钥长度错误`);
+  }
+  if (rnd.length !== 32) {
+    throw new Error('ML-DSA签名的随机数必须为32字节');
+  }
+  const { l, tau, beta, gamma1, gamma2, omega, lambda } = params;
+  const { rho, K, tr, s1, s2, t0 } = skDecode(params, sk);
+  const s1Hat = s1.map(ntt);
+  const s2Hat = s2.map(ntt);
+  const t0Hat = t0.map(ntt);
+  const A = expandA(params, rho);
+
+  const mu = H(concat(tr, formatMessage(message, context)), 64);
+  const rhoPrimePrime = H(concat(K, rnd, mu), 64);
+
+  const attempts: MlDsaAttempt[] = [];
+  for (let kappa = 0; ; kappa += l) {
+    // 1. 掩码y与承诺w的高位w1
+    const y = expandMask(params, rhoPrimePrime, kappa);
+    const w = matrixVectorNtt(A, y.map(ntt)).map(inverseNtt);
+    const w1 = w.map(f => f.map(c => highBits(c, gamma2)));
+
+    // 2. 挑战 c = SampleInBall(H(μ ‖ w1))
+    const cTilde = H(concat(mu, w1Encode(params, w1)), lambda / 4);
+    const cHat = ntt(sampleInBall(cTilde, tau));
+
+    // 3. 响应 z = y + c·s1，检查是否泄露s1
+    const cs1 = s1Hat.map(f => inverseNtt(multiplyNtts(cHat, f)));
+    const cs2 = s2Hat.map(f => inverseNtt(multiplyNtts(cHat, f)));
+    const z = y.map((f, i) => polyAdd(f, cs1[i]));
+    const wMinusCs2 = w.map((f, i) => polySub(f, cs2[i]));
+    const zNorm = infinityNorm(z);
+    const r0Norm = Math.max(...wMinusCs2.map(f => Math.max(...f.map(c => Math.abs(lowBits(c, gamma2))))));
+    const attempt: MlDsaAttempt = { kappa, zNorm, r0Norm, rejectedBy: null };
+    attempts.push(attempt);
+
+    if (zNorm >= gamma1 - beta) {
+      attempt.rejectedBy = 'z';
+      continue;
+    }
+    if (r0Norm >= gamma2 - beta) {
+      attempt.rejectedBy = 'r0';
+      continue;
+    }
+
+    // 4. 提示h让验证者在不知道t0的情况下恢复w1
+    const ct0 = t0Hat.map(f => inverseNtt(multiplyNtts(cHat, f)));
+    const h = ct0.map((f, i) => f.map((c, j) => makeHint(mod(-c), (wMinusCs2[i][j] + c) % Q, gamma2)));
+    attempt.ct0Norm = infinityNorm(ct0);
+    attempt.hints = h.reduce((sum, f) => sum + f.reduce((s, bit) => s + bit, 0), 0);
+
+    if (attempt.ct0Norm >= gamma2) {
+      attempt.rejectedBy = 'ct0';
+      continue;
+    }
+    if (attempt.hints > omega) {
+      attempt.rejectedBy = 'hint';
+      continue;
+    }
+
+    return { signature: sigEncode(params, cTilde, z, h), attempts };
+  }
+}
+
+/**
+ * ML-DSA验证 (FIPS 204 算法3、8)
+ * 用 w' = A·z − c·t1·2^d 和提示h恢复w1，检查挑战哈希是否一致以及‖z‖∞ < γ1 − β
+ * @param params 参数集
+ * @param pk 公钥
+ * @param message 原始消息
+ * @param sigma 签名
+ * @param context 上下文字符串，需与签名时相同
+ * @returns 验证结果
+ */
+export function mlDsaVerify(
+  params: MlDsaParameters,
+  pk: Uint8Array,
+  message: Uint8Array,
+  sigma: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): boolean {
+  const sizes = mlDsaSizes(params);
+  if (pk.length !== sizes.publicKey || sigma.length !== sizes.signature || context.length > 255) {
+    return false;
+  }
+  const { tau, beta, gamma1, gamma2, lambda } = params;
+  const { rho, t1 } = pkDecode(params, pk);
+  const decoded = sigDecode(params, sigma);
+  if (!decoded) {
+    return false;
+  }
+  const { cTilde, z, h } = decoded;
+  if (infinityNorm(z) >= gamma1 - beta) {
+    return false;
+  }
+
+  const A = expandA(params, rho);
+  const tr = H(pk, 64);
+  const mu = H(concat(tr, formatMessage(message, context)), 64);
+  const cHat = ntt(sampleInBall(cTilde, tau));
+
+  const Az = matrixVectorNtt(A, z.map(ntt));
+  const wApprox = Az.map((f, i) => inverseNtt(polySub(f, multiplyNtts(cHat, ntt(t1[i].map(c => c << D))))));
+  const w1 = wApprox.map((f, i) => f.map((c, j) => useHint(h[i][j], c, gamma2)));
+
+  return bytesEqual(cTilde, H(concat(mu, w1Encode(params, w1)), lambda / 4));
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 整数的二进制位数
+ */
+function bitLength(x: number): number {
+  return x.toString(2).length;
+}
+
+/**
+ * 把[0, q)中的系数映射到(-q/2, q/2]
+ */
+function centered(x: number): number {
+  return x > Q >> 1 ? x - Q : x;
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+}
+
+/**
+ * 常数时间比较两个字节数组
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,520 @@
+/**
+ * ML-KEM 模格密钥封装机制 (FIPS 203)
+ * 安全性基于模误差学习(Module-LWE)问题：公钥 t = A·s + e，其中s、e是系数很小的"噪声"多项式
+ * 运算在多项式环 R_q = Z_q[X]/(X^256 + 1) 上进行，q = 3329，多项式乘法通过数论变换(NTT)完成
+ * 本模块只包含确定性的内部算法（KeyGen_internal、Encaps_internal、Decaps_internal），随机数由调用方提供
+ */
+import { sha3_256, sha3_512, shake128, shake256 } from './hash';
+
+/**
+ * ML-KEM参数集 (FIPS 203 表2)
+ */
+export interface MlKemParameters {
+  name: string; // 参数集名称
+  k: number; // 模的秩，矩阵A为k×k
+  eta1: number; // 私钥s、误差e和加密随机向量y的中心二项分布参数
+  eta2: number; // 加密误差e1、e2的中心二项分布参数
+  du: number; // 密文u每个系数压缩后的位数
+  dv: number; // 密文v每个系数压缩后的位数
+}
+
+/**
+ * 支持的参数集：ML-KEM-512对应AES-128的安全强度，ML-KEM-768对应AES-192
+ */
+export const ML_KEM_PARAMETERS: Record<string, MlKemParameters> = {
+  'ML-KEM-512': { name: 'ML-KEM-512', k: 2, eta1: 3, eta2: 2, du: 10, dv: 4 },
+  'ML-KEM-768': { name: 'ML-KEM-768', k: 3, eta1: 2, eta2: 2, du: 10, dv: 4 }
+};
+
+/**
+ * 默认参数集（FIPS 203推荐的通用参数）
+ */
+export const DEFAULT_ML_KEM = 'ML-KEM-768';
+
+/**
+ * 多项式系数个数与模数
+ */
+export const N = 256;
+export const Q = 3329;
+
+/**
+ * 多项式，256个系数，均在[0, q)范围内
+ */
+export type Poly = number[];
+
+/**
+ * 按名称查找参数集
+ * @param name 参数集名称，省略时返回默认参数集
+ * @returns 参数集
+ */
+export function getMlKemParameters(name: string = DEFAULT_ML_KEM): MlKemParameters {
+  const params = ML_KEM_PARAMETERS[name];
+  if (!params) {
+    throw new Error(`不支持的ML-KEM参数集: ${name}`);
+  }
+  return params;
+}
+
+/**
+ * 各参数集的密钥与密文字节长度 (FIPS 203 表3)
+ */
+export function mlKemSizes(params: MlKemParameters): { encapsulationKey: number; decapsulationKey: number; ciphertext: number } {
+  const { k, du, dv } = params;
+  return {
+    encapsulationKey: 384 * k + 32,
+    decapsulationKey: 768 * k + 96,
+    ciphertext: 32 * (du * k + dv)
+  };
+}
+
+// ==================== 数论变换 (FIPS 203 4.3) ====================
+
+/**
+ * 7位二进制反转
+ */
+function bitRev7(i: number): number {
+  let result = 0;
+  for (let bit = 0; bit < 7; bit++) {
+    result |= ((i >> bit) & 1) << (6 - bit);
+  }
+  return result;
+}
+
+/**
+ * 模q幂运算（数值很小，直接用number计算）
+ */
+function powMod(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = (result * base) % Q;
+  }
+  return result;
+}
+
+// ζ = 17是模q的256次本原单位根
+// ZETAS[i] = ζ^BitRev7(i)，用于NTT的蝶形运算；GAMMAS[i] = ζ^(2·BitRev7(i)+1)，用于NTT域中的乘法
+const ZETAS = Array.from({ length: 128 }, (_, i) => powMod(17, bitRev7(i)));
+const GAMMAS = Array.from({ length: 128 }, (_, i) => powMod(17, 2 * bitRev7(i) + 1));
+
+// 128^(-1) mod q，逆变换的缩放因子
+const INV_128 = 3303;
+
+/**
+ * 取模，结果为[0, q)
+ */
+function mod(a: number): number {
+  const r = a % Q;
+  return r < 0 ? r + Q : r;
+}
+
+/**
+ * 数论变换 (FIPS 203 算法9)
+ * 把多项式表示为128个一次多项式 mod (X² - γ_i) 的余数，乘法因此只需逐对计算
+ */
+export function ntt(f: Poly): Poly {
+  const result = f.slice();
+  let i = 1;
+  for (let len = 128; len >= 2; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i++];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * result[j + len]) % Q;
+        result[j + len] = mod(result[j] - t);
+        result[j] = (result[j] + t) % Q;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 逆数论变换 (FIPS 203 算法10)
+ */
+export function inverseNtt(f: Poly): Poly {
+  const result = f.slice();
+  let i = 127;
+  for (let len = 2; len <= 128; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i--];
+      for (let j = start; j < start + len; j++) {
+        const t = result[j];
+        result[j] = (t + result[j + len]) % Q;
+        result[j + len] = (zeta * mod(result[j + len] - t)) % Q;
+      }
+    }
+  }
+  return result.map(c => (c * INV_128) % Q);
+}
+
+/**
+ * NTT域中的多项式乘法 (FIPS 203 算法11、12)
+ * 每对系数 (a0 + a1·X)(b0 + b1·X) mod (X² - γ)
+ */
+export function multiplyNtts(f: Poly, g: Poly): Poly {
+  const h: Poly = new Array(N);
+  for (let i = 0; i < 128; i++) {
+    const [a0, a1, b0, b1] = [f[2 * i], f[2 * i + 1], g[2 * i], g[2 * i + 1]];
+    h[2 * i] = (a0 * b0 + ((a1 * b1) % Q) * GAMMAS[i]) % Q;
+    h[2 * i + 1] = (a0 * b1 + a1 * b0) % Q;
+  }
+  return h;
+}
+
+function polyAdd(f: Poly, g: Poly): Poly {
+  return f.map((c, i) => (c + g[i]) % Q);
+}
+
+function polySub(f: Poly, g: Poly): Poly {
+  return f.map((c, i) => mod(c - g[i]));
+}
+
+/**
+ * NTT域中向量内积 Σ f[i]·g[i]
+ */
+function innerProduct(f: Poly[], g: Poly[]): Poly {
+  let result: Poly = new Array(N).fill(0);
+  for (let i = 0; i < f.length; i++) {
+    result = polyAdd(result, multiplyNtts(f[i], g[i]));
+  }
+  return result;
+}
+
+// ==================== 编码与压缩 (FIPS 203 4.2.1) ====================
+
+/**
+ * 把256个d位整数按小端位序打包为32·d字节 (ByteEncode_d)
+ */
+export function byteEncode(f: Poly, d: number): Uint8Array {
+  const bytes = new Uint8Array(32 * d);
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < d; j++) {
+      const position = i * d + j;
+      bytes[position >> 3] |= ((f[i] >> j) & 1) << (position & 7);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * 把32·d字节解包为256个d位整数 (ByteDecode_d)，d = 12时结果再取模q
+ */
+export function byteDecode(bytes: Uint8Array, d: number): Poly {
+  const f: Poly = new Array(N).fill(0);
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < d; j++) {
+      const position = i * d + j;
+      f[i] |= ((bytes[position >> 3] >> (position & 7)) & 1) << j;
+    }
+  }
+  return d === 12 ? f.map(c => c % Q) : f;
+}
+
+/**
+ * 压缩 Compress_d(x) = ⌈(2^d / q)·x⌋ mod 2^d，丢弃低位信息
+ */
+export function compress(x: number, d: number): number {
+  return Math.floor(((x << (d + 1)) + Q) / (2 * Q)) & ((1 << d) - 1);
+}
+
+/**
+ * 解压缩 Decompress_d(y) = ⌈(q / 2^d)·y⌋，与原值相差不超过 q / 2^(d+1)
+ */
+export function decompress(y: number, d: number): number {
+  return (y * Q + (1 << (d - 1))) >> d;
+}
+
+function encodeVector(v: Poly[], d: number): Uint8Array {
+  return concat(...v.map(f => byteEncode(f, d)));
+}
+
+function decodeVector(bytes: Uint8Array, k: number, d: number): Poly[] {
+  return Array.from({ length: k }, (_, i) => byteDecode(bytes.subarray(32 * d * i, 32 * d * (i + 1)), d));
+}
+
+// ==================== 采样 (FIPS 203 4.2.2) ====================
+
+/**
+ * 从SHAKE128输出中拒绝采样NTT域中的均匀多项式 (FIPS 203 算法7)
+ * @param seed 32字节种子ρ与两个下标字节
+ */
+function sampleNtt(seed: Uint8Array): Poly {
+  const f: Poly = [];
+  let stream = shake128(seed, 504);
+  let offset = 0;
+  while (f.length < N) {
+    // XOF输出不够时取更长的输出，前缀保持不变
+    if (offset + 3 > stream.length) {
+      stream = shake128(seed, stream.length + 168);
+    }
+    const [c0, c1, c2] = [stream[offset], stream[offset + 1], stream[offset + 2]];
+    offset += 3;
+    const d1 = c0 + 256 * (c1 & 0x0f);
+    const d2 = (c1 >> 4) + 16 * c2;
+    if (d1 < Q) f.push(d1);
+    if (d2 < Q && f.length < N) f.push(d2);
+  }
+  return f;
+}
+
+/**
+ * 中心二项分布采样 (FIPS 203 算法8)：每个系数是η个比特之和减去另外η个比特之和，落在[-η, η]
+ * @param bytes 64·η字节的PRF输出
+ * @param eta 分布参数
+ */
+function samplePolyCbd(bytes: Uint8Array, eta: number): Poly {
+  const bit = (i: number) => (bytes[i >> 3] >> (i & 7)) & 1;
+  const f: Poly = new Array(N);
+  for (let i = 0; i < N; i++) {
+    let x = 0;
+    let y = 0;
+    for (let j = 0; j < eta; j++) {
+      x += bit(2 * i * eta + j);
+      y += bit(2 * i * eta + eta + j);
+    }
+    f[i] = mod(x - y);
+  }
+  return f;
+}
+
+/**
+ * 由种子ρ生成NTT域中的公共矩阵 Â[i][j] = SampleNTT(ρ ‖ j ‖ i)
+ */
+function generateMatrix(rho: Uint8Array, k: number): Poly[][] {
+  return Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => sampleNtt(concat(rho, Uint8Array.of(j, i))))
+  );
+}
+
+/**
+ * 依次采样k个噪声多项式，返回新的计数器N
+ */
+function sampleNoiseVector(sigma: Uint8Array, eta: number, k: number, counter: number): [Poly[], number] {
+  const v: Poly[] = [];
+  for (let i = 0; i < k; i++) {
+    v.push(samplePolyCbd(prf(eta, sigma, counter++), eta));
+  }
+  return [v, counter];
+}
+
+// ==================== 哈希函数 (FIPS 203 4.1) ====================
+
+function prf(eta: number, s: Uint8Array, b: number): Uint8Array {
+  return shake256(concat(s, Uint8Array.of(b)), 64 * eta);
+}
+
+function G(data: Uint8Array): [Uint8Array, Uint8Array] {
+  const output = sha3_512(data);
+  return [output.slice(0, 32), output.slice(32)];
+}
+
+function H(data: Uint8Array): Uint8Array {
+  return sha3_256(data);
+}
+
+function J(data: Uint8Array): Uint8Array {
+  return shake256(data, 32);
+}
+
+// ==================== K-PKE公钥加密 (FIPS 203 第5节) ====================
+
+/**
+ * K-PKE密钥生成 (FIPS 203 算法13)：t̂ = Â ∘ ŝ + ê
+ */
+function kPkeKeyGen(params: MlKemParameters, d: Uint8Array): { ek: Uint8Array; dk: Uint8Array } {
+  const { k, eta1 } = params;
+  const [rho, sigma] = G(concat(d, Uint8Array.of(k)));
+  const A = generateMatrix(rho, k);
+
+  let counter = 0;
+  let s: Poly[];
+  let e: Poly[];
+  [s, counter] = sampleNoiseVector(sigma, eta1, k, counter);
+  [e, counter] = sampleNoiseVector(sigma, eta1, k, counter);
+
+  const sHat = s.map(ntt);
+  const eHat = e.map(ntt);
+  const tHat = A.map((row, i) => polyAdd(innerProduct(row, sHat), eHat[i]));
+
+  return {
+    ek: concat(encodeVector(tHat, 12), rho),
+    dk: encodeVector(sHat, 12)
+  };
+}
+
+/**
+ * K-PKE加密 (FIPS 203 算法14)
+ * u = NTT⁻¹(Âᵀ ∘ ŷ) + e1，v = NTT⁻¹(t̂ᵀ ∘ ŷ) + e2 + Decompress_1(m)
+ */
+function kPkeEncrypt(params: MlKemParameters, ek: Uint8Array, m: Uint8Array, r: Uint8Array): Uint8Array {
+  const { k, eta1, eta2, du, dv } = params;
+  const tHat = decodeVector(ek, k, 12);
+  const A = generateMatrix(ek.subarray(384 * k), k);
+
+  let counter = 0;
+  let y: Poly[];
+  let e1: Poly[];
+  [y, counter] = sampleNoiseVector(r, eta1, k, counter);
+  [e1, counter] = sampleNoiseVector(r, eta2, k, counter);
+  const e2 = samplePolyCbd(prf(eta2, r, counter), eta2);
+
+  const yHat = y.map(ntt);
+  // Âᵀ的第i行是Â的第i列
+  const u = Array.from({ length: k }, (_, i) =>
+    polyAdd(inverseNtt(innerProduct(A.map(row => row[i]), yHat)), e1[i])
+  );
+  const mu = byteDecode(m, 1).map(bit => decompress(bit, 1));
+  const v = polyAdd(polyAdd(inverseNtt(innerProduct(tHat, yHat)), e2), mu);
+
+  return concat(
+    encodeVector(u.map(f => f.map(c => compress(c, du))), du),
+    byteEncode(v.map(c => compress(c, dv)), dv)
+  );
+}
+
+/**
+ * K-PKE解密的中间结果 w = v' - NTT⁻¹(ŝᵀ ∘ NTT(u'))
+ * w的每个系数接近0（比特0）或⌈q/2⌋（比特1），偏离量就是累积的格噪声
+ */
+function kPkeDecryptPoly(params: MlKemParameters, dk: Uint8Array, c: Uint8Array): Poly {
+  const { k, du, dv } = params;
+  const u = decodeVector(c, k, du).map(f => f.map(y => decompress(y, du)));
+  const v = byteDecode(c.subarray(32 * du * k), dv).map(y => decompress(y, dv));
+  const sHat = decodeVector(dk, k, 12);
+  return polySub(v, inverseNtt(innerProduct(sHat, u.map(ntt))));
+}
+
+/**
+ * K-PKE解密 (FIPS 203 算法15)：m = ByteEncode_1(Compress_1(w))
+ */
+function kPkeDecrypt(params: MlKemParameters, dk: Uint8Array, c: Uint8Array): Uint8Array {
+  return byteEncode(kPkeDecryptPoly(params, dk, c).map(x => compress(x, 1)), 1);
+}
+
+// ==================== ML-KEM (FIPS 203 第6、7节) ====================
+
+/**
+ * ML-KEM密钥生成 (FIPS 203 算法16)
+ * @param params 参数集
+ * @param d 32字节随机种子，派生K-PKE密钥
+ * @param z 32字节随机数，解封装失败时用于隐式拒绝
+ * @returns 封装密钥ek与解封装密钥 dk = dk_PKE ‖ ek ‖ H(ek) ‖ z
+ */
+export function mlKemKeyGen(params: MlKemParameters, d: Uint8Array, z: Uint8Array): { ek: Uint8Array; dk: Uint8Array } {
+  if (d.length !== 32 || z.length !== 32) {
+    throw new Error('ML-KEM密钥生成的种子d和z必须为32字节');
+  }
+  const { ek, dk } = kPkeKeyGen(params, d);
+  return { ek, dk: concat(dk, ek, H(ek), z) };
+}
+
+/**
+ * ML-KEM封装 (FIPS 203 算法17)
+ * 先按7.2节检查封装密钥：长度正确，且t̂的每个系数都小于q
+ * @param params 参数集
+ * @param ek 封装密钥
+ * @param m 32字节随机消息
+ * @returns 共享密钥K（32字节）与密文c
+ */
+export function mlKemEncaps(params: MlKemParameters, ek: Uint8Array, m: Uint8Array): { sharedKey: Uint8Array; ciphertext: Uint8Array } {
+  const { k } = params;
+  if (ek.length !== mlKemSizes(params).encapsulationKey) {
+    throw new Error(`${params.name}封装密钥长度错误`);
+  }
+  const tBytes = ek.subarray(0, 384 * k);
+  if (!bytesEqual(encodeVector(decodeVector(tBytes, k, 12), 12), tBytes)) {
+    throw new Error(`${params.name}封装密钥的系数超出模数q`);
+  }
+  if (m.length !== 32) {
+    throw new Error('ML-KEM封装的随机消息m必须为32字节');
+  }
+
+  const [sharedKey, r] = G(concat(m, H(ek)));
+  return { sharedKey, ciphertext: kPkeEncrypt(params, ek, m, r) };
+}
+
+/**
+ * ML-KEM解封装 (FIPS 203 算法18)
+ * 解密得到m'后重新加密，密文不一致时返回 K̄ = J(z ‖ c)（隐式拒绝），不泄露失败信息
+ * @param params 参数集
+ * @param dk 解封装密钥
+ * @param c 密文
+ * @returns 共享密钥K（32字节）
+ */
+export function mlKemDecaps(params: MlKemParameters, dk: Uint8Array, c: Uint8Array): Uint8Array {
+  const { k } = params;
+  const sizes = mlKemSizes(params);
+  if (c.length !== sizes.ciphertext) {
+    throw new Error(`${params.name}密文长度错误`);
+  }
+  if (dk.length !== sizes.decapsulationKey) {
+    throw new Error(`${params.name}解封装密钥长度错误`);
+  }
+
+  const dkPke = dk.subarray(0, 384 * k);
+  const ekPke = dk.subarray(384 * k, 768 * k + 32);
+  const h = dk.subarray(768 * k + 32, 768 * k + 64);
+  const z = dk.subarray(768 * k + 64);
+  if (!bytesEqual(H(ekPke), h)) {
+    throw new Error(`${params.name}解封装密钥的哈希校验失败`);
+  }
+
+  const mPrime = kPkeDecrypt(params, dkPke, c);
+  const [kPrime, rPrime] = G(concat(mPrime, h));
+  const kBar = J(concat(z, c));
+  const cPrime = kPkeEncrypt(params, ekPke, mPrime, rPrime);
+
+  return bytesEqual(c, cPrime) ? kPrime : kBar;
+}
+
+/**
+ * 分析解密时的格噪声，用于可视化
+ * @param params 参数集
+ * @param dk 解封装密钥
+ * @param c 密文
+ * @returns w的系数、解出的比特、每个系数相对0或⌈q/2⌋的中心化噪声，以及私钥s的系数（中心化到[-η1, η1]）
+ */
+export function mlKemDecryptionNoise(params: MlKemParameters, dk: Uint8Array, c: Uint8Array): {
+  coefficients: number[];
+  bits: number[];
+  noise: number[];
+  secret: number[];
+} {
+  const { k } = params;
+  const dkPke = dk.subarray(0, 384 * k);
+  const w = kPkeDecryptPoly(params, dkPke, c);
+  const bits = w.map(x => compress(x, 1));
+  const noise = w.map((x, i) => centered(mod(x - bits[i] * decompress(1, 1))));
+  const secret = decodeVector(dkPke, k, 12).map(inverseNtt).flat().map(centered);
+  return { coefficients: w, bits, noise, secret };
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 把[0, q)中的系数映射到(-q/2, q/2]
+ */
+function centered(x: number): number {
+  return x > Q >> 1 ? x - Q : x;
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+}
+
+/**
+ * 常数时间比较两个字节数组
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,142 @@
+/**
+ * RFC 6979 确定性签名随机数生成
+ * 以私钥和消息哈希为种子运行HMAC-DRBG（RFC 6979 3.2节），
+ * 对相同的私钥和消息总是得到相同的k，无需依赖随机数发生器
+ */
+import { HashAlgorithm, HASH_OUTPUT_LENGTHS, hmac } from './hash';
+
+/**
+ * 计算大整数的位长度
+ */
+function bitLength(n: bigint): number {
+  return n === 0n ? 0 : n.toString(2).length;
+}
+
+/**
+ * bits2int (RFC 6979 2.3.2)
+ * 将比特串转换为整数，并只保留最左侧的qlen位
+ * @param bytes 输入比特串
+ * @param qlen q的位长度
+ * @returns 转换后的整数（不做模约减）
+ */
+export function bits2int(bytes: Uint8Array, qlen: number): bigint {
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+
+  const blen = bytes.length * 8;
+  if (blen > qlen) {
+    value >>= BigInt(blen - qlen);
+  }
+  return value;
+}
+
+/**
+ * int2octets (RFC 6979 2.3.3)
+ * 将整数编码为rlen = 8 * ceil(qlen / 8)位的大端字节串
+ * @param value 输入整数
+ * @param qlen q的位长度
+ * @returns 定长字节数组
+ */
+export function int2octets(value: bigint, qlen: number): Uint8Array {
+  const rlen = Math.ceil(qlen / 8);
+  const bytes = new Uint8Array(rlen);
+  let temp = value;
+  for (let i = rlen - 1; i >= 0; i--) {
+    bytes[i] = Number(temp & 0xffn);
+    temp >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * bits2octets (RFC 6979 2.3.4)
+ * 先执行bits2int，再对q取模，最后执行int2octets
+ * @param bytes 输入比特串（通常为消息哈希）
+ * @param q 群的阶
+ * @returns 定长字节数组
+ */
+export function bits2octets(bytes: Uint8Array, q: bigint): Uint8Array {
+  const qlen = bitLength(q);
+  const z1 = bits2int(bytes, qlen);
+  const z2 = z1 >= q ? z1 - q : z1;
+  return int2octets(z2, qlen);
+}
+
+/**
+ * 连接多个字节数组
+ */
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const totalLength = arrays.reduce((acc, array) => acc + array.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * 生成确定性k值 (RFC 6979 3.2)
+ *
+ * 当使用某个k得到r = 0或s = 0时，签名方应以skip + 1再次调用，
+ * 取HMAC-DRBG输出序列中的下一个合法候选值（对应3.2节步骤h.3）
+ *
+ * @param q 群的阶（DSA中的q，ECDSA中的曲线阶n）
+ * @param x 私钥
+ * @param messageHash 消息哈希H(m)
+ * @param hashAlgorithm HMAC使用的哈希算法，应与消息哈希算法一致
+ * @param skip 需要跳过的合法候选值个数
+ * @returns 位于[1, q-1]范围内的k
+ */
+export function generateK(
+  q: bigint,
+  x: bigint,
+  messageHash: Uint8Array,
+  hashAlgorithm: HashAlgorithm = 'SHA-256',
+  skip: number = 0
+): bigint {
+  const qlen = bitLength(q);
+  const hlen = HASH_OUTPUT_LENGTHS[hashAlgorithm];
+
+  // 步骤a、d：计算h1并构造私钥与哈希的字节串
+  const xOctets = int2octets(x, qlen);
+  const hOctets = bits2octets(messageHash, q);
+
+  // 步骤b、c：V = 0x01 0x01 ... 0x01，K = 0x00 0x00 ... 0x00
+  let v: Uint8Array = new Uint8Array(hlen).fill(1);
+  let k: Uint8Array = new Uint8Array(hlen).fill(0);
+
+  // 步骤d、e：K = HMAC_K(V || 0x00 || int2octets(x) || bits2octets(h1))，V = HMAC_K(V)
+  k = hmac(hashAlgorithm, k, concat(v, new Uint8Array([0x00]), xOctets, hOctets));
+  v = hmac(hashAlgorithm, k, v);
+
+  // 步骤f、g：K = HMAC_K(V || 0x01 || int2octets(x) || bits2octets(h1))，V = HMAC_K(V)
+  k = hmac(hashAlgorithm, k, concat(v, new Uint8Array([0x01]), xOctets, hOctets));
+  v = hmac(hashAlgorithm, k, v);
+
+  // 步骤h：循环生成候选值直到得到合法的k
+  let remaining = skip;
+  while (true) {
+    // h.1、h.2：T由若干个V拼接而成，直到长度不少于qlen
+    let t: Uint8Array = new Uint8Array(0);
+    while (t.length * 8 < qlen) {
+      v = hmac(hashAlgorithm, k, v);
+      t = concat(t, v);
+    }
+
+    // h.3：k = bits2int(T)，若位于[1, q-1]则为合法候选值
+    const candidate = bits2int(t, qlen);
+    if (candidate >= 1n && candidate < q) {
+      if (remaining === 0) {
+        return candidate;
+      }
+      remaining--;
+    }
+
+    k = hmac(hashAlgorithm, k, concat(v, new Uint8Array([0x00])));
+    v = hmac(hashAlgorithm, k, v);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Shamir秘密共享
+ * 在素数域GF(p)上随机选取t − 1次多项式 f(x) = a_0 + a_1·x + … + a_(t−1)·x^(t−1)，a_0为秘密；
+ * 第i个份额是点(i, f(i))。任意t个点用拉格朗日插值唯一确定f并求出f(0)，
+ * 而少于t个点时f(0)可以是域中任意值，不泄露秘密的任何信息
+ */
+import { KeyPair } from './types';
+import { getCurve } from './curves';
+
+/**
+ * 一个份额：多项式上的点(x, f(x))
+ */
+export interface Share {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * 拆分结果：域的素数、门限、多项式系数（a_0为秘密，只有分发者知道）与各份额
+ */
+export interface SplitResult {
+  prime: bigint;
+  threshold: number;
+  coefficients: bigint[];
+  shares: Share[];
+}
+
+/**
+ * 梅森素数2^k − 1的指数k，按秘密的大小选用最小的一个作为域
+ * 2^4253 − 1足以容纳4096位RSA私钥指数与MODP群的ElGamal私钥
+ */
+export const MERSENNE_EXPONENTS = [127, 521, 607, 1279, 2203, 2281, 3217, 4253, 4423];
+
+/**
+ * 可以拆分私钥的算法，及私钥中对应的字段
+ */
+export const SHAREABLE_ALGORITHMS: Record<string, string> = {
+  RSA: 'd',
+  DSA: 'x',
+  ECDSA: 'd',
+  ElGamal: 'x',
+  ECC: 'key'
+};
+
+/**
+ * 选取比秘密大的最小梅森素数
+ * @param secret 秘密（非负整数）
+ * @returns 素数p
+ */
+export function fieldPrimeFor(secret: bigint): bigint {
+  for (const k of MERSENNE_EXPONENTS) {
+    const p = (1n << BigInt(k)) - 1n;
+    if (secret < p) {
+      return p;
+    }
+  }
+  throw new Error('秘密太大，没有合适的素数域');
+}
+
+/**
+ * 用秦九韶算法计算 f(x) mod p
+ * @param coefficients 系数a_0, a_1, …（低次在前）
+ * @param x 自变量
+ * @param prime 素数p
+ * @returns f(x) mod p
+ */
+export function evaluatePolynomial(coefficients: bigint[], x: bigint, prime: bigint): bigint {
+  let result = 0n;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = (result * x + coefficients[i]) % prime;
+  }
+  return result;
+}
+
+/**
+ * 拆分秘密：随机选取a_1 … a_(t−1)，份额为(1, f(1)) … (n, f(n))
+ * @param secret 秘密，须小于prime
+ * @param shareCount 份额数n
+ * @param threshold 门限t，恢复秘密至少需要的份额数
+ * @param prime 素数域，默认按秘密大小选取梅森素数
+ * @returns 拆分结果
+ */
+export function splitSecret(
+  secret: bigint,
+  shareCount: number,
+  threshold: number,
+  prime: bigint = fieldPrimeFor(secret)
+): SplitResult {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shareCount) || threshold < 2 || threshold > shareCount) {
+    throw new Error(`无效的门限参数: t = ${threshold}, n = ${shareCount}，须满足 2 ≤ t ≤ n`);
+  }
+  if (secret < 0n || secret >= prime) {
+    throw new Error('秘密须在[0, p)范围内');
+  }
+  if (BigInt(shareCount) >= prime) {
+    throw new Error('份额数必须小于域的大小');
+  }
+
+  const coefficients = [secret];
+  for (let i = 1; i < threshold; i++) {
+    coefficients.push(randomBelow(prime));
+  }
+
+  const shares = Array.from({ length: shareCount }, (_, i) => {
+    const x = BigInt(i + 1);
+    return { x, y: evaluatePolynomial(coefficients, x, prime) };
+  });
+
+  return { prime, threshold, coefficients, shares };
+}
+
+/**
+ * 计算在x = 0处插值的拉格朗日系数 λ_i = Π_(j≠i) x_j / (x_j − x_i) mod p
+ * @param xs 参与恢复的份额的x坐标，须互不相同且非零
+ * @param prime 素数p
+ * @returns 与xs一一对应的系数
+ */
+export function lagrangeCoefficients(xs: bigint[], prime: bigint): bigint[] {
+  const normalized = xs.map(x => mod(x, prime));
+  if (normalized.some(x => x === 0n)) {
+    throw new Error('份额的x坐标不能为0');
+  }
+  if (new Set(normalized.map(x => x.toString())).size !== normalized.length) {
+    throw new Error('份额的x坐标不能重复');
+  }
+
+  return normalized.map((xi, i) => {
+    let numerator = 1n;
+    let denominator = 1n;
+    normalized.forEach((xj, j) => {
+      if (j === i) return;
+      numerator = (numerator * xj) % prime;
+      denominator = mod(denominator * (xj - xi), prime);
+    });
+    return (numerator * modInverse(denominator, prime)) % prime;
+  });
+}
+
+/**
+ * 由份额恢复秘密：f(0) = Σ λ_i·y_i mod p
+ * 份额不足t个时同样会得到一个结果，但它与秘密无关
+ * @param shares 参与恢复的份额
+ * @param prime 素数p
+ * @returns 恢复出的秘密
+ */
+export function recoverSecret(shares: Share[], prime: bigint): bigint {
+  if (shares.length === 0) {
+    throw new Error('至少需要一个份额');
+  }
+  const lambdas = lagrangeCoefficients(shares.map(share => share.x), prime);
+  return shares.reduce((sum, share, i) => (sum + lambdas[i] * share.y) % prime, 0n);
+}
+
+/**
+ * 读取密钥对中的私钥秘密：RSA的d、DSA与ElGamal的x、ECDSA的d与ECC的key
+ * @param algorithm 算法名称
+ * @param keys 含私钥的密钥对
+ * @returns 私钥整数
+ */
+export function getPrivateKeySecret(algorithm: string, keys: KeyPair): bigint {
+  const field = SHAREABLE_ALGORITHMS[algorithm];
+  if (!field) {
+    throw new Error(`不支持拆分${algorithm}私钥`);
+  }
+  const value = keys.privateKey?.[field];
+  if (value === undefined || value === null) {
+    throw new Error('密钥对中没有私钥');
+  }
+  // ECDSA与ECC的私钥按十六进制存储，其余为十进制字符串或BigInt
+  return algorithm === 'ECDSA' || algorithm === 'ECC' ? BigInt(`0x${value}`) : BigInt(value);
+}
+
+/**
+ * 用恢复出的秘密重建私钥，公开参数取自公钥
+ * RSA只保留(d, n)而不带CRT参数，保证签名确实使用了恢复出的d
+ * @param algorithm 算法名称
+ * @param keys 原密钥对（只需公钥）
+ * @param secret 恢复出的私钥整数
+ * @returns 公钥不变、私钥为重建结果的密钥对
+ */
+export function withPrivateKeySecret(algorithm: string, keys: KeyPair, secret: bigint): KeyPair {
+  const { publicKey } = keys;
+  let privateKey: Record<string, any>;
+
+  switch (algorithm) {
+    case 'RSA':
+      privateKey = { d: secret.toString(), n: publicKey.n };
+      break;
+    case 'DSA':
+      privateKey = { x: secret };
+      break;
+    case 'ECDSA':
+      privateKey = { d: secret.toString(16).padStart(getCurve(publicKey.curve).size * 2, '0'), curve: publicKey.curve };
+      break;
+    case 'ElGamal':
+      privateKey = { x: secret.toString(), g: publicKey.g, p: publicKey.p };
+      break;
+    case 'ECC':
+      privateKey = { key: secret.toString(16).padStart(getCurve(publicKey.curve).size * 2, '0'), curve: publicKey.curve };
+      break;
+    default:
+      throw new Error(`不支持拆分${algorithm}私钥`);
+  }
+
+  return { ...keys, privateKey };
+}
+
+/**
+ * 计算非负模
+ */
+function mod(a: bigint, m: bigint): bigint {
+  const result = a % m;
+  return result < 0n ? result + m : result;
+}
+
+/**
+ * 计算模逆元（扩展欧几里得算法）
+ */
+function modInverse(a: bigint, m: bigint): bigint {
+  let [old_r, r] = [mod(a, m), m];
+  let [old_s, s] = [1n, 0n];
+
+  while (r !== 0n) {
+    const quotient = old_r / r;
+    [old_r, r] = [r, old_r - quotient * r];
+    [old_s, s] = [s, old_s - quotient * s];
+  }
+
+  if (old_r !== 1n) {
+    throw new Error('模逆元不存在');
+  }
+  return mod(old_s, m);
+}
+
+/**
+ * 生成[0, max)内均匀分布的随机整数（拒绝采样）
+ */
+function randomBelow(max: bigint): bigint {
+  const bits = max.toString(2).length;
+  const length = Math.ceil(bits / 8);
+
+  while (true) {
+    const bytes = new Uint8Array(length);
+    if (typeof window !== 'undefined' && window.crypto) {
+      window.crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+    bytes[0] &= 0xff >> (length * 8 - bits);
+
+    const value = bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+    if (value < max) {
+      return value;
+    }
+  }
+}
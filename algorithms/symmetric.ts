@@ -0,0 +1,563 @@
+/**
+ * 对称加密模块
+ * 纯TypeScript实现的AES-128/192/256分组密码(FIPS 197)
+ * 以及CBC+PKCS#7、CTR和GCM工作模式(SP 800-38A / SP 800-38D)
+ * 供ECIES等混合加密方案作为数据封装层使用
+ */
+
+/**
+ * GCM加密结果：密文与认证标签
+ */
+export interface AuthenticatedCiphertext {
+  ciphertext: Uint8Array;
+  tag: Uint8Array;
+}
+
+const BLOCK_SIZE = 16;
+
+// ==================== AES分组密码 ====================
+
+/**
+ * GF(2^8)上乘以x（即左移一位后按不可约多项式x^8+x^4+x^3+x+1约减）
+ */
+function xtime(a: number): number {
+  return ((a << 1) ^ (a & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+/**
+ * GF(2^8)上的乘法
+ */
+function gfMultiply(a: number, b: number): number {
+  let result = 0;
+  while (b > 0) {
+    if (b & 1) result ^= a;
+    a = xtime(a);
+    b >>= 1;
+  }
+  return result;
+}
+
+/**
+ * 构造S盒与逆S盒：求GF(2^8)乘法逆元后做仿射变换 (FIPS 197 5.1.1)
+ */
+function buildSBoxes(): [Uint8Array, Uint8Array] {
+  const sbox = new Uint8Array(256);
+  const inverse = new Uint8Array(256);
+
+  for (let i = 0; i < 256; i++) {
+    // 0没有逆元，按标准映射为0
+    let inv = 0;
+    if (i !== 0) {
+      for (let j = 1; j < 256; j++) {
+        if (gfMultiply(i, j) === 1) {
+          inv = j;
+          break;
+        }
+      }
+    }
+
+    // 仿射变换 b' = b ⊕ (b<<<1) ⊕ (b<<<2) ⊕ (b<<<3) ⊕ (b<<<4) ⊕ 0x63
+    let s = inv;
+    for (let shift = 1; shift <= 4; shift++) {
+      s ^= ((inv << shift) | (inv >>> (8 - shift))) & 0xff;
+    }
+    s ^= 0x63;
+
+    sbox[i] = s;
+    inverse[s] = i;
+  }
+
+  return [sbox, inverse];
+}
+
+const [SBOX, INV_SBOX] = buildSBoxes();
+
+/**
+ * AES分组密码
+ * 根据密钥长度（16/24/32字节）自动选择AES-128/192/256
+ */
+export class AES {
+  readonly keySize: number;
+  readonly rounds: number;
+  private roundKeys: Uint8Array;
+
+  constructor(key: Uint8Array) {
+    if (key.length !== 16 && key.length !== 24 && key.length !== 32) {
+      throw new Error(`AES密钥长度必须为16、24或32字节，当前为${key.length}字节`);
+    }
+    this.keySize = key.length * 8;
+    this.rounds = key.length / 4 + 6;
+    this.roundKeys = this.expandKey(key);
+  }
+
+  /**
+   * 密钥扩展 (FIPS 197 5.2)
+   * @param key 原始密钥
+   * @returns (轮数 + 1) * 16 字节的轮密钥
+   */
+  private expandKey(key: Uint8Array): Uint8Array {
+    const nk = key.length / 4;
+    const totalWords = 4 * (this.rounds + 1);
+    const w = new Uint8Array(totalWords * 4);
+    w.set(key);
+
+    let rcon = 1;
+    for (let i = nk; i < totalWords; i++) {
+      let t0 = w[4 * i - 4], t1 = w[4 * i - 3], t2 = w[4 * i - 2], t3 = w[4 * i - 1];
+
+      if (i % nk === 0) {
+        // RotWord + SubWord + Rcon
+        const tmp = t0;
+        t0 = SBOX[t1] ^ rcon;
+        t1 = SBOX[t2];
+        t2 = SBOX[t3];
+        t3 = SBOX[tmp];
+        rcon = xtime(rcon);
+      } else if (nk > 6 && i % nk === 4) {
+        // AES-256额外的SubWord
+        t0 = SBOX[t0];
+        t1 = SBOX[t1];
+        t2 = SBOX[t2];
+        t3 = SBOX[t3];
+      }
+
+      w[4 * i] = w[4 * (i - nk)] ^ t0;
+      w[4 * i + 1] = w[4 * (i - nk) + 1] ^ t1;
+      w[4 * i + 2] = w[4 * (i - nk) + 2] ^ t2;
+      w[4 * i + 3] = w[4 * (i - nk) + 3] ^ t3;
+    }
+
+    return w;
+  }
+
+  /**
+   * 轮密钥加
+   */
+  private addRoundKey(state: Uint8Array, round: number): void {
+    const offset = round * BLOCK_SIZE;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      state[i] ^= this.roundKeys[offset + i];
+    }
+  }
+
+  /**
+   * 加密单个16字节分组 (FIPS 197 5.1)
+   * @param block 明文分组
+   * @returns 密文分组
+   */
+  encryptBlock(block: Uint8Array): Uint8Array {
+    if (block.length !== BLOCK_SIZE) {
+      throw new Error('AES分组长度必须为16字节');
+    }
+    // 状态按列存储：state[r + 4c]
+    const state = new Uint8Array(block);
+    this.addRoundKey(state, 0);
+
+    for (let round = 1; round <= this.rounds; round++) {
+      // SubBytes
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        state[i] = SBOX[state[i]];
+      }
+
+      // ShiftRows：第r行循环左移r个字节
+      for (let r = 1; r < 4; r++) {
+        const row = [state[r], state[r + 4], state[r + 8], state[r + 12]];
+        for (let c = 0; c < 4; c++) {
+          state[r + 4 * c] = row[(c + r) % 4];
+        }
+      }
+
+      // MixColumns（最后一轮省略）
+      if (round !== this.rounds) {
+        for (let c = 0; c < 4; c++) {
+          const a0 = state[4 * c], a1 = state[4 * c + 1], a2 = state[4 * c + 2], a3 = state[4 * c + 3];
+          const all = a0 ^ a1 ^ a2 ^ a3;
+          state[4 * c] = a0 ^ all ^ xtime(a0 ^ a1);
+          state[4 * c + 1] = a1 ^ all ^ xtime(a1 ^ a2);
+          state[4 * c + 2] = a2 ^ all ^ xtime(a2 ^ a3);
+          state[4 * c + 3] = a3 ^ all ^ xtime(a3 ^ a0);
+        }
+      }
+
+      this.addRoundKey(state, round);
+    }
+
+    return state;
+  }
+
+  /**
+   * 解密单个16字节分组 (FIPS 197 5.3)
+   * @param block 密文分组
+   * @returns 明文分组
+   */
+  decryptBlock(block: Uint8Array): Uint8Array {
+    if (block.length !== BLOCK_SIZE) {
+      throw new Error('AES分组长度必须为16字节');
+    }
+    const state = new Uint8Array(block);
+    this.addRoundKey(state, this.rounds);
+
+    for (let round = this.rounds - 1; round >= 0; round--) {
+      // InvShiftRows：第r行循环右移r个字节
+      for (let r = 1; r < 4; r++) {
+        const row = [state[r], state[r + 4], state[r + 8], state[r + 12]];
+        for (let c = 0; c < 4; c++) {
+          state[r + 4 * ((c + r) % 4)] = row[c];
+        }
+      }
+
+      // InvSubBytes
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        state[i] = INV_SBOX[state[i]];
+      }
+
+      this.addRoundKey(state, round);
+
+      // InvMixColumns（第一轮对应的位置省略）
+      if (round !== 0) {
+        for (let c = 0; c < 4; c++) {
+          const a0 = state[4 * c], a1 = state[4 * c + 1], a2 = state[4 * c + 2], a3 = state[4 * c + 3];
+          state[4 * c] = gfMultiply(a0, 14) ^ gfMultiply(a1, 11) ^ gfMultiply(a2, 13) ^ gfMultiply(a3, 9);
+          state[4 * c + 1] = gfMultiply(a0, 9) ^ gfMultiply(a1, 14) ^ gfMultiply(a2, 11) ^ gfMultiply(a3, 13);
+          state[4 * c + 2] = gfMultiply(a0, 13) ^ gfMultiply(a1, 9) ^ gfMultiply(a2, 14) ^ gfMultiply(a3, 11);
+          state[4 * c + 3] = gfMultiply(a0, 11) ^ gfMultiply(a1, 13) ^ gfMultiply(a2, 9) ^ gfMultiply(a3, 14);
+        }
+      }
+    }
+
+    return state;
+  }
+}
+
+// ==================== PKCS#7填充 ====================
+
+/**
+ * PKCS#7填充：补齐到分组长度的整数倍（恰好整除时补一个完整分组）
+ */
+export function pkcs7Pad(data: Uint8Array): Uint8Array {
+  const padLength = BLOCK_SIZE - (data.length % BLOCK_SIZE);
+  const padded = new Uint8Array(data.length + padLength);
+  padded.set(data);
+  padded.fill(padLength, data.length);
+  return padded;
+}
+
+/**
+ * 去除PKCS#7填充并校验其格式
+ */
+export function pkcs7Unpad(data: Uint8Array): Uint8Array {
+  if (data.length === 0 || data.length % BLOCK_SIZE !== 0) {
+    throw new Error('密文长度不是分组长度的整数倍');
+  }
+  const padLength = data[data.length - 1];
+  if (padLength === 0 || padLength > BLOCK_SIZE) {
+    throw new Error('PKCS#7填充无效');
+  }
+  for (let i = data.length - padLength; i < data.length; i++) {
+    if (data[i] !== padLength) {
+      throw new Error('PKCS#7填充无效');
+    }
+  }
+  return data.slice(0, data.length - padLength);
+}
+
+// ==================== CBC模式 ====================
+
+/**
+ * AES-CBC加密（PKCS#7填充）
+ * C_i = E_K(P_i ⊕ C_{i-1})，C_0 = IV
+ * @param key AES密钥
+ * @param iv 16字节初始化向量
+ * @param plaintext 明文
+ * @returns 密文
+ */
+export function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array): Uint8Array {
+  checkIv(iv, BLOCK_SIZE);
+  const aes = new AES(key);
+  const padded = pkcs7Pad(plaintext);
+  const ciphertext = new Uint8Array(padded.length);
+
+  let previous = iv;
+  for (let offset = 0; offset < padded.length; offset += BLOCK_SIZE) {
+    const block = xorBytes(padded.subarray(offset, offset + BLOCK_SIZE), previous);
+    previous = aes.encryptBlock(block);
+    ciphertext.set(previous, offset);
+  }
+
+  return ciphertext;
+}
+
+/**
+ * AES-CBC解密（校验并去除PKCS#7填充）
+ * P_i = D_K(C_i) ⊕ C_{i-1}
+ * @param key AES密钥
+ * @param iv 16字节初始化向量
+ * @param ciphertext 密文
+ * @returns 明文
+ */
+export function aesCbcDecrypt(key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  checkIv(iv, BLOCK_SIZE);
+  if (ciphertext.length === 0 || ciphertext.length % BLOCK_SIZE !== 0) {
+    throw new Error('密文长度不是分组长度的整数倍');
+  }
+  const aes = new AES(key);
+  const plaintext = new Uint8Array(ciphertext.length);
+
+  let previous = iv;
+  for (let offset = 0; offset < ciphertext.length; offset += BLOCK_SIZE) {
+    const block = ciphertext.subarray(offset, offset + BLOCK_SIZE);
+    plaintext.set(xorBytes(aes.decryptBlock(block), previous), offset);
+    previous = block;
+  }
+
+  return pkcs7Unpad(plaintext);
+}
+
+// ==================== CTR模式 ====================
+
+/**
+ * AES-CTR加密/解密（两者相同）
+ * 以初始计数器块为起点，整个128位计数器按大端方式递增
+ * @param key AES密钥
+ * @param counter 16字节初始计数器块
+ * @param data 明文或密文
+ * @returns 密文或明文
+ */
+export function aesCtr(key: Uint8Array, counter: Uint8Array, data: Uint8Array): Uint8Array {
+  checkIv(counter, BLOCK_SIZE);
+  return ctrTransform(new AES(key), counter, data, 128);
+}
+
+/**
+ * AES-CTR加密
+ */
+export function aesCtrEncrypt(key: Uint8Array, counter: Uint8Array, plaintext: Uint8Array): Uint8Array {
+  return aesCtr(key, counter, plaintext);
+}
+
+/**
+ * AES-CTR解密
+ */
+export function aesCtrDecrypt(key: Uint8Array, counter: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  return aesCtr(key, counter, ciphertext);
+}
+
+/**
+ * CTR变换核心
+ * @param aes 已扩展密钥的AES实例
+ * @param initialCounter 初始计数器块
+ * @param data 输入数据
+ * @param counterBits 参与递增的低位比特数（CTR为128，GCM为32）
+ */
+function ctrTransform(aes: AES, initialCounter: Uint8Array, data: Uint8Array, counterBits: number): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const counter = new Uint8Array(initialCounter);
+  const counterBytes = counterBits / 8;
+
+  for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+    const keystream = aes.encryptBlock(counter);
+    const end = Math.min(offset + BLOCK_SIZE, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ keystream[i - offset];
+    }
+
+    // 计数器低位按大端递增
+    for (let i = BLOCK_SIZE - 1; i >= BLOCK_SIZE - counterBytes; i--) {
+      counter[i] = (counter[i] + 1) & 0xff;
+      if (counter[i] !== 0) break;
+    }
+  }
+
+  return output;
+}
+
+// ==================== GCM模式 ====================
+
+// GHASH约减多项式 R = 11100001 || 0^120
+const GCM_R = 0xe1n << 120n;
+
+/**
+ * GF(2^128)上的乘法 (SP 800-38D 6.3，比特顺序为GCM约定)
+ */
+function gf128Multiply(x: bigint, y: bigint): bigint {
+  let z = 0n;
+  let v = y;
+  for (let i = 127; i >= 0; i--) {
+    if ((x >> BigInt(i)) & 1n) {
+      z ^= v;
+    }
+    v = v & 1n ? (v >> 1n) ^ GCM_R : v >> 1n;
+  }
+  return z;
+}
+
+/**
+ * GHASH_H(A, C)：对附加数据、密文及其长度块进行多项式求值
+ */
+function ghash(h: bigint, aad: Uint8Array, ciphertext: Uint8Array): bigint {
+  let y = 0n;
+  const absorb = (data: Uint8Array) => {
+    for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+      const block = new Uint8Array(BLOCK_SIZE);
+      block.set(data.subarray(offset, Math.min(offset + BLOCK_SIZE, data.length)));
+      y = gf128Multiply(y ^ bytesToBigInt(block), h);
+    }
+  };
+
+  absorb(aad);
+  absorb(ciphertext);
+
+  // 长度块：len(A) || len(C)，各64位
+  const lengths = (BigInt(aad.length * 8) << 64n) | BigInt(ciphertext.length * 8);
+  return gf128Multiply(y ^ lengths, h);
+}
+
+/**
+ * 计算GCM的哈希子密钥H与初始计数器块J0
+ */
+function gcmSetup(aes: AES, iv: Uint8Array): { h: bigint; j0: Uint8Array } {
+  if (iv.length === 0) {
+    throw new Error('GCM初始化向量不能为空');
+  }
+  const h = bytesToBigInt(aes.encryptBlock(new Uint8Array(BLOCK_SIZE)));
+
+  let j0: Uint8Array;
+  if (iv.length === 12) {
+    // 推荐的96位IV：J0 = IV || 0^31 || 1
+    j0 = new Uint8Array(BLOCK_SIZE);
+    j0.set(iv);
+    j0[15] = 1;
+  } else {
+    // 其他长度：J0 = GHASH_H(IV)
+    j0 = bigIntToBytes(ghash(h, new Uint8Array(0), iv));
+  }
+
+  return { h, j0 };
+}
+
+/**
+ * 计算认证标签 T = E_K(J0) ⊕ GHASH_H(A, C)
+ */
+function gcmTag(aes: AES, h: bigint, j0: Uint8Array, aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const s = ghash(h, aad, ciphertext);
+  return xorBytes(aes.encryptBlock(j0), bigIntToBytes(s));
+}
+
+/**
+ * 将J0的低32位加一，得到第一个用于加密的计数器块
+ */
+function incrementCounter32(block: Uint8Array): Uint8Array {
+  const counter = new Uint8Array(block);
+  for (let i = BLOCK_SIZE - 1; i >= BLOCK_SIZE - 4; i--) {
+    counter[i] = (counter[i] + 1) & 0xff;
+    if (counter[i] !== 0) break;
+  }
+  return counter;
+}
+
+/**
+ * AES-GCM认证加密
+ * @param key AES密钥
+ * @param iv 初始化向量（推荐12字节）
+ * @param plaintext 明文
+ * @param aad 附加认证数据（不加密但受标签保护）
+ * @returns 密文与16字节认证标签
+ */
+export function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): AuthenticatedCiphertext {
+  const aes = new AES(key);
+  const { h, j0 } = gcmSetup(aes, iv);
+  const ciphertext = ctrTransform(aes, incrementCounter32(j0), plaintext, 32);
+  return { ciphertext, tag: gcmTag(aes, h, j0, aad, ciphertext) };
+}
+
+/**
+ * AES-GCM认证解密
+ * 先校验认证标签，校验失败时抛出错误且不输出任何明文
+ * @param key AES密钥
+ * @param iv 初始化向量
+ * @param ciphertext 密文
+ * @param tag 认证标签
+ * @param aad 附加认证数据
+ * @returns 明文
+ */
+export function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const aes = new AES(key);
+  const { h, j0 } = gcmSetup(aes, iv);
+  const expectedTag = gcmTag(aes, h, j0, aad, ciphertext);
+
+  if (tag.length < 12 || !constantTimeEqual(expectedTag.subarray(0, tag.length), tag)) {
+    throw new Error('GCM认证标签校验失败，密文或附加数据可能已被篡改');
+  }
+
+  return ctrTransform(aes, incrementCounter32(j0), ciphertext, 32);
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 校验IV/计数器块长度
+ */
+function checkIv(iv: Uint8Array, length: number): void {
+  if (iv.length !== length) {
+    throw new Error(`初始化向量长度必须为${length}字节`);
+  }
+}
+
+/**
+ * 逐字节异或（按较短的输入长度）
+ */
+function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const length = Math.min(a.length, b.length);
+  const result = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+/**
+ * 恒定时间比较两个字节数组
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * 16字节大端字节数组转BigInt
+ */
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    result = (result << 8n) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+/**
+ * BigInt转16字节大端字节数组
+ */
+function bigIntToBytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(BLOCK_SIZE);
+  let temp = value;
+  for (let i = BLOCK_SIZE - 1; i >= 0; i--) {
+    bytes[i] = Number(temp & 0xffn);
+    temp >>= 8n;
+  }
+  return bytes;
+}
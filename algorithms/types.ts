@@ -1,3 +1,5 @@
+import type { MlDsaAttempt } from './mldsa';
+
 export interface KeyPair {
   publicKey: any;
   privateKey: any;
@@ -8,16 +10,66 @@ export interface SignatureResult {
   signature: any;
   r?: string;
   s?: string;
-  messageHash?: string; // SHA-256消息哈希，用于显示
+  messageHash?: string; // 消息哈希（十六进制），用于显示
   n?: string; // 模数，用于显示
   salt?: string; // PSS填充使用的盐值（十六进制字符串）
-  pBits?: number; // DSA参数p的位长
+  pBits?: number; // DSA、ElGamal参数p的位长
   qBits?: number; // DSA参数q的位长
-  originalSignature?: string; // 原始签名值，用于检测签名篡改
+  curve?: string; // ECDSA、Schnorr签名所用的曲线名称
+  hash?: string; // 签名所用的哈希函数（ECDSA随曲线而定）
+  parameterSet?: string; // ML-DSA参数集名称
+  attempts?: MlDsaAttempt[]; // ML-DSA签名的拒绝采样记录
+  chainPositions?: number[]; // WOTS+、XMSS签名在每条哈希链上公开的位置
+  leafIndex?: number; // XMSS签名所用叶子的序号
+  authPath?: string[]; // XMSS认证路径：从叶子到树根每层的兄弟节点（十六进制）
+  recoveryId?: number; // ECDSA签名的恢复标识v（0–3）：R.y的奇偶与R.x是否超过n，用于由签名恢复公钥
+  tweaks?: { e: number; f: number }; // Rabin-Williams签名的调整因子：e ∈ {1, −1}、f ∈ {1, 2}，使e·f·H(m)为二次剩余
+}
+
+/**
+ * RFC 9474定义的RSA盲签名变体：PSS使用48字节盐，PSSZERO不加盐；Randomized在消息前附加32字节随机前缀
+ */
+export type RsaBlindVariant =
+  | 'RSABSSA-SHA384-PSS-Randomized'
+  | 'RSABSSA-SHA384-PSSZERO-Randomized'
+  | 'RSABSSA-SHA384-PSS-Deterministic'
+  | 'RSABSSA-SHA384-PSSZERO-Deterministic';
+
+/**
+ * RSA盲化结果：blindedMessage交给签名者，inv与messagePrefix由请求者保密保存，用于去盲与验证
+ */
+export interface BlindingResult {
+  variant: RsaBlindVariant;
+  blindedMessage: string; // 盲化消息 z = m·r^e mod n（十六进制，长度与模数相同）
+  inv: string; // 盲化因子的逆元 r⁻¹ mod n
+  messagePrefix: string; // 随机化变体附加在消息前的32字节前缀（十六进制），确定性变体为空串
+  encodedMessage: string; // EMSA-PSS编码后的消息m（十六进制），用于展示
+}
+
+/**
+ * FIPS 203的ML-KEM参数集
+ */
+export type MlKemParameterSet = 'ML-KEM-512' | 'ML-KEM-768';
+
+/**
+ * FIPS 204的ML-DSA参数集
+ */
+export type MlDsaParameterSet = 'ML-DSA-44' | 'ML-DSA-65' | 'ML-DSA-87';
+
+/**
+ * 密钥生成选项
+ */
+export interface KeyGenerationOptions {
+  primes?: number; // RSA素数个数：2为标准RSA，3–4为多素数RSA (RFC 8017 3.2)
+  keySize?: number; // 密钥位长：RSA、Paillier、Rabin模数n（1024–4096）、DSA素数p的位长L、ElGamal的MODP群大小（1536–4096）
+  subgroupSize?: number; // DSA子群阶q的位长N，与keySize组成FIPS 186-4允许的(L, N)
+  curve?: string; // ECDSA、ECC的椭圆曲线名称：secp256k1、P-256、P-384或P-521
+  parameterSet?: MlKemParameterSet | MlDsaParameterSet; // 后量子算法的参数集：ML-KEM-512/768或ML-DSA-44/65/87
+  treeHeight?: number; // XMSS的Merkle树高（4或6），树高为h时可签名2^h次
 }
 
 export interface CryptoAlgorithm {
-  generateKeys(): Promise<KeyPair>;
+  generateKeys(options?: KeyGenerationOptions): Promise<KeyPair>;
   sign(message: string, keys: KeyPair): Promise<SignatureResult>;
   verify(message: string, signature: any, keys: KeyPair): Promise<boolean>;
 } 
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * WOTS+ 一次性签名 (RFC 8391 第3节)
+ * 对消息摘要的每个16进制位各用一条长为w − 1的哈希链：签名公开链上第b_i个值，验证者把它继续哈希到链尾，
+ * 再附加校验和，防止攻击者把公开的值继续往后哈希来伪造更大的位
+ * 哈希采用SPHINCS+ "simple"方式的可调哈希 F(公开种子, 地址, x) = SHA-256(公开种子 ‖ 地址 ‖ x)，
+ * 代替RFC 8391中按地址派生的密钥与位掩码；WOTS+独立签名和Merkle树签名共用本模块
+ */
+import { sha256 } from './hash';
+
+/**
+ * 哈希输出长度n（字节）与Winternitz参数w
+ */
+export const WOTS_N = 32;
+export const WOTS_W = 16;
+
+/**
+ * 链的条数：len1条对应消息摘要的64个16进制位，len2条对应校验和
+ */
+export const WOTS_LEN1 = 64;
+export const WOTS_LEN2 = 3;
+export const WOTS_LEN = WOTS_LEN1 + WOTS_LEN2;
+
+/**
+ * 地址类型，保证不同用途的哈希输入互不相同
+ */
+export const ADDRESS_TYPES = {
+  chain: 0, // 哈希链中的一步
+  secret: 1, // 由私钥种子派生链的起点
+  leaf: 2, // Merkle树叶子：压缩WOTS+公钥
+  node: 3 // Merkle树内部节点
+};
+
+/**
+ * 16字节地址：类型 ‖ 密钥对序号 ‖ 两个与类型相关的下标，各4字节大端序
+ */
+export function address(type: number, keyPair: number, a: number, b: number): Uint8Array {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, type);
+  view.setUint32(4, keyPair);
+  view.setUint32(8, a);
+  view.setUint32(12, b);
+  return bytes;
+}
+
+/**
+ * 可调哈希 F(公开种子, 地址, x)
+ */
+export function tweakableHash(pubSeed: Uint8Array, adrs: Uint8Array, ...inputs: Uint8Array[]): Uint8Array {
+  return sha256(concat(pubSeed, adrs, ...inputs));
+}
+
+/**
+ * 计算每条链应公开的位置 (RFC 8391 算法5)
+ * 摘要按高4位在前拆成64个16进制位，校验和 Σ(w − 1 − b_i) 左移4位后取2字节，再拆出3个16进制位
+ * @param digest 32字节消息摘要
+ * @returns 67个位置，每个在[0, w − 1]内
+ */
+export function wotsChainPositions(digest: Uint8Array): number[] {
+  const positions = baseW(digest, WOTS_LEN1);
+  const checksum = positions.reduce((sum, b) => sum + (WOTS_W - 1 - b), 0) << 4;
+  return positions.concat(baseW(Uint8Array.of(checksum >> 8, checksum & 0xff), WOTS_LEN2));
+}
+
+/**
+ * 从第start步开始沿链哈希steps次 (RFC 8391 算法2)
+ */
+export function chain(x: Uint8Array, start: number, steps: number, pubSeed: Uint8Array, keyPair: number, chainIndex: number): Uint8Array {
+  let value = x;
+  for (let i = start; i < start + steps; i++) {
+    value = tweakableHash(pubSeed, address(ADDRESS_TYPES.chain, keyPair, chainIndex, i), value);
+  }
+  return value;
+}
+
+/**
+ * 由私钥种子派生第i条链的起点
+ */
+function chainStart(skSeed: Uint8Array, pubSeed: Uint8Array, keyPair: number, chainIndex: number): Uint8Array {
+  return tweakableHash(pubSeed, address(ADDRESS_TYPES.secret, keyPair, chainIndex, 0), skSeed);
+}
+
+/**
+ * WOTS+公钥：每条链的链尾 (RFC 8391 算法4)
+ * @param skSeed 私钥种子
+ * @param pubSeed 公开种子
+ * @param keyPair 密钥对序号（Merkle树中的叶子序号）
+ * @returns 67个链尾
+ */
+export function wotsPublicKey(skSeed: Uint8Array, pubSeed: Uint8Array, keyPair: number): Uint8Array[] {
+  return Array.from({ length: WOTS_LEN }, (_, i) =>
+    chain(chainStart(skSeed, pubSeed, keyPair, i), 0, WOTS_W - 1, pubSeed, keyPair, i)
+  );
+}
+
+/**
+ * WOTS+签名：公开每条链上第b_i个值 (RFC 8391 算法5)
+ * @param digest 32字节消息摘要
+ * @returns 67个链上的值
+ */
+export function wotsSign(digest: Uint8Array, skSeed: Uint8Array, pubSeed: Uint8Array, keyPair: number): Uint8Array[] {
+  return wotsChainPositions(digest).map((b, i) => chain(chainStart(skSeed, pubSeed, keyPair, i), 0, b, pubSeed, keyPair, i));
+}
+
+/**
+ * 由签名恢复WOTS+公钥：把第i个值从位置b_i继续哈希到链尾 (RFC 8391 算法6)
+ * 签名有效当且仅当恢复出的公钥与真实公钥相同
+ */
+export function wotsPublicKeyFromSignature(digest: Uint8Array, signature: Uint8Array[], pubSeed: Uint8Array, keyPair: number): Uint8Array[] {
+  return wotsChainPositions(digest).map((b, i) => chain(signature[i], b, WOTS_W - 1 - b, pubSeed, keyPair, i));
+}
+
+/**
+ * 把字节串按高4位在前拆成outputLength个16进制位 (RFC 8391 算法1，w = 16)
+ */
+function baseW(bytes: Uint8Array, outputLength: number): number[] {
+  const digits: number[] = [];
+  for (let i = 0; digits.length < outputLength; i++) {
+    digits.push(bytes[i] >> 4);
+    if (digits.length < outputLength) digits.push(bytes[i] & 0x0f);
+  }
+  return digits;
+}
+
+/**
+ * 拼接多个字节数组
+ */
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+}
@@ -13,7 +13,7 @@ const AlgorithmSelector: React.FC<AlgorithmSelectorProps> = ({
   onSelectAlgorithm,
 }) => {
   // 支持的算法列表
-  const algorithms = ['RSA', 'DSA', 'ECDSA'];
+  const algorithms = ['RSA', 'DSA', 'ElGamal', 'ECDSA', 'Ed25519', 'Schnorr', 'ML-DSA', 'Lamport', 'WOTS+', 'XMSS', 'BLS', 'Rabin-Williams'];
 
   return (
     <div className="algorithm-selector">
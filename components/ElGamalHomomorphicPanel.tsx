@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { EncryptionResult, KeyPair } from '../algorithms';
+import { ElGamalEncryption } from '../algorithms/ElGamalEncryption';
+
+// ElGamal同态运算面板的属性接口
+interface ElGamalHomomorphicPanelProps {
+  encryptionResult: EncryptionResult;  // 页面上当前的ElGamal密文
+  keys: KeyPair;                       // ElGamal密钥对，用于重新随机化与解密
+}
+
+// 一组重新随机化的结果：新密文及其解密结果
+interface RerandomizedCiphertext {
+  result: EncryptionResult;
+  decrypted: string;
+}
+
+// 一次指数ElGamal加法的结果
+interface AdditionDemo {
+  a: EncryptionResult;
+  b: EncryptionResult;
+  sum: EncryptionResult;
+  decryptedSum: bigint;
+}
+
+const elgamal = new ElGamalEncryption();
+
+// 缩写显示密文分量
+const abbreviate = (value: string) => (value.length <= 24 ? value : `${value.substring(0, 12)}…${value.substring(value.length - 12)}`);
+
+// 以(c1, c2)两行展示一个ElGamal密文
+const CiphertextPair: React.FC<{ label: string; result: EncryptionResult }> = ({ label, result }) => {
+  const { c1, c2 } = JSON.parse(result.ciphertext);
+  return (
+    <div className="elgamal-ciphertext">
+      <h4>{label}</h4>
+      <div className="elgamal-component"><span>c1</span><code>{abbreviate(c1)}</code></div>
+      <div className="elgamal-component"><span>c2</span><code>{abbreviate(c2)}</code></div>
+    </div>
+  );
+};
+
+// ElGamal同态运算面板：展示重新随机化后的密文看起来毫无关联却解密出同一消息，以及指数ElGamal的密文加法
+const ElGamalHomomorphicPanel: React.FC<ElGamalHomomorphicPanelProps> = ({ encryptionResult, keys }) => {
+  const [rerandomized, setRerandomized] = useState<RerandomizedCiphertext | null>(null);
+  const [originalDecrypted, setOriginalDecrypted] = useState<string | null>(null);
+  const [operandA, setOperandA] = useState<number>(12);
+  const [operandB, setOperandB] = useState<number>(30);
+  const [addition, setAddition] = useState<AdditionDemo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBlocked = !!encryptionResult.metadata?.isBlocked;
+
+  // 密文变化后清空上一次的演示结果
+  useEffect(() => {
+    setRerandomized(null);
+    setOriginalDecrypted(null);
+    setAddition(null);
+    setError(null);
+  }, [encryptionResult, keys]);
+
+  // 用新的随机数重新加密当前密文，并解密两份密文进行对比
+  const handleRerandomize = async () => {
+    try {
+      setError(null);
+      const result = elgamal.rerandomize(encryptionResult, keys.publicKey);
+      const [original, decrypted] = await Promise.all([
+        elgamal.decrypt(encryptionResult, keys.privateKey),
+        elgamal.decrypt(result, keys.privateKey)
+      ]);
+      setOriginalDecrypted(original);
+      setRerandomized({ result, decrypted });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '重新随机化失败');
+    }
+  };
+
+  // 用指数ElGamal分别加密两个小整数，密文相乘后解密得到它们的和
+  const handleAdd = () => {
+    try {
+      setError(null);
+      const a = elgamal.encryptExponent(BigInt(operandA), keys.publicKey);
+      const b = elgamal.encryptExponent(BigInt(operandB), keys.publicKey);
+      const sum = elgamal.add(a, b, keys.publicKey);
+      setAddition({ a, b, sum, decryptedSum: elgamal.decryptExponent(sum, keys.privateKey) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '同态加法失败');
+    }
+  };
+
+  // 输入限制在[0, 5000]，保证两数之和不超过解密时离散对数搜索的默认上限
+  const clampOperand = (value: string) => Math.min(5000, Math.max(0, Math.floor(Number(value) || 0)));
+
+  return (
+    <motion.div
+      className="elgamal-homomorphic"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.7 }}
+    >
+      <h3>ElGamal同态运算</h3>
+
+      {/* 重新随机化 */}
+      <div className="noise-section">
+        <h4>重新随机化：(c1·g^k′, c2·y^k′)</h4>
+        {isBlocked ? (
+          <p className="comparison-note">当前消息被分块加密，分块密文不支持同态运算，请输入更短的消息后重新加密。</p>
+        ) : (
+          <>
+            <button className="action-button" onClick={handleRerandomize}>
+              {rerandomized ? '再次重新随机化' : '重新随机化当前密文'}
+            </button>
+            {rerandomized && (
+              <>
+                <div className="elgamal-ciphertexts">
+                  <CiphertextPair label="原密文" result={encryptionResult} />
+                  <CiphertextPair label="重新随机化后的密文" result={rerandomized.result} />
+                </div>
+                <div className="elgamal-decryptions">
+                  <span>原密文解密：<strong>{originalDecrypted}</strong></span>
+                  <span>新密文解密：<strong>{rerandomized.decrypted}</strong></span>
+                  <span className={originalDecrypted === rerandomized.decrypted ? 'match' : 'mismatch'}>
+                    {originalDecrypted === rerandomized.decrypted ? '✓ 解密结果相同' : '✗ 解密结果不同'}
+                  </span>
+                </div>
+                <p className="comparison-note">
+                  任何持有公钥的人都能把密文乘以一个新的随机加密的1，得到同一消息的另一份密文。两份密文的两个分量都毫无关联，
+                  不知道私钥就无法判断它们是否对应同一消息；混洗网络正是借此切断投票人与选票之间的联系。
+                </p>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* 指数ElGamal加法 */}
+      <div className="noise-section">
+        <h4>指数ElGamal：E(a)·E(b) = E(a + b)</h4>
+        <div className="elgamal-operands">
+          <input type="number" min={0} max={5000} value={operandA} onChange={(e) => setOperandA(clampOperand(e.target.value))} />
+          <span>+</span>
+          <input type="number" min={0} max={5000} value={operandB} onChange={(e) => setOperandB(clampOperand(e.target.value))} />
+          <button className="action-button" onClick={handleAdd}>加密并相加</button>
+        </div>
+        {addition && (
+          <>
+            <div className="elgamal-ciphertexts">
+              <CiphertextPair label={`E(${operandA})`} result={addition.a} />
+              <CiphertextPair label={`E(${operandB})`} result={addition.b} />
+              <CiphertextPair label="E(a)·E(b)" result={addition.sum} />
+            </div>
+            <div className="elgamal-decryptions">
+              <span>解密得到 g^(a+b)，再用小步大步法求离散对数：<strong>{addition.decryptedSum.toString()}</strong></span>
+            </div>
+          </>
+        )}
+        <p className="comparison-note">
+          普通ElGamal对乘法同态：E(m1)·E(m2) = E(m1·m2)。把消息放在指数上加密 g^m 后，密文相乘就对应明文相加；
+          代价是解密只能得到 g^m，必须求一次离散对数，因此只适用于票数、计数等较小的整数。
+        </p>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+    </motion.div>
+  );
+};
+
+export default ElGamalHomomorphicPanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { KeyPair, SignatureResult } from '../algorithms';
+import { WOTS_LEN1, WOTS_W } from '../algorithms/wots';
+
+// 基于哈希的签名可视化组件的属性接口
+interface HashSignatureViewProps {
+  algorithm: string;                    // 'Lamport'、'WOTS+' 或 'XMSS'
+  keys: KeyPair | null;                 // 当前密钥对（XMSS私钥中缓存了整棵Merkle树）
+  signature: SignatureResult | null;    // 当前签名
+}
+
+// 读取摘要的第i位（高位在前）
+const bitAt = (digestHex: string, i: number) => (parseInt(digestHex.substring((i >> 3) * 2, (i >> 3) * 2 + 2), 16) >> (7 - (i & 7))) & 1;
+
+// Lamport：256对原像，每对公开消息位选中的那一个
+const LamportPreimages: React.FC<{ digestHex: string }> = ({ digestHex }) => (
+  <>
+    <div className="preimage-grid">
+      {Array.from({ length: 256 }, (_, i) => {
+        const bit = bitAt(digestHex, i);
+        return (
+          <div key={i} className="preimage-pair" title={`第${i}位 = ${bit}`}>
+            <span className={`preimage ${bit === 0 ? 'revealed' : ''}`} />
+            <span className={`preimage ${bit === 1 ? 'revealed' : ''}`} />
+          </div>
+        );
+      })}
+    </div>
+    <p className="comparison-note">
+      每个方格是一对原像(sk[i][0], sk[i][1])，亮色为签名中公开的那一个。验证者只需对公开的原像做一次SHA-256并与公钥比较；
+      若同一私钥再签另一条消息，两条消息不同的位上两个原像都会被公开，攻击者便能拼出第三条消息的签名。
+    </p>
+  </>
+);
+
+// WOTS+：67条长为w − 1的哈希链，签名公开每条链上第b_i个值
+const WotsChains: React.FC<{ positions: number[] }> = ({ positions }) => (
+  <>
+    <div className="hash-chains">
+      {positions.map((b, i) => (
+        <div key={i} className={`hash-chain ${i >= WOTS_LEN1 ? 'checksum' : ''}`} title={`链${i}：b = ${b}`}>
+          {Array.from({ length: WOTS_W }, (_, step) => WOTS_W - 1 - step).map(step => (
+            <span
+              key={step}
+              className={`chain-step ${step < b ? 'signer' : step === b ? 'revealed' : 'verifier'}`}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+    <div className="chain-legend">
+      <span><span className="chain-step signer" /> 签名者计算（保密）</span>
+      <span><span className="chain-step revealed" /> 签名公开的值</span>
+      <span><span className="chain-step verifier" /> 验证者继续哈希到链尾</span>
+    </div>
+    <p className="comparison-note">
+      每列是一条哈希链，底部是私钥、顶部是公钥。前{WOTS_LEN1}条链对应消息摘要的16进制位，右侧3条（带边框）是校验和 Σ(w − 1 − b_i)：
+      攻击者把某个公开值继续往上哈希可以增大一个消息位，但校验和随之变小，而校验和链上的值无法往回算。
+    </p>
+  </>
+);
+
+// XMSS：Merkle树，高亮本次使用的叶子、叶子到树根的路径与认证路径
+const MerkleTree: React.FC<{ keys: KeyPair; signature: SignatureResult }> = ({ keys, signature }) => {
+  const tree: string[][] = keys.privateKey?.tree ?? [];
+  const leafIndex = signature.leafIndex ?? 0;
+  const height = keys.publicKey.height as number;
+  const remaining = (1 << height) - (keys.privateKey?.nextIndex ?? 0);
+
+  const nodeClass = (level: number, index: number) => {
+    if (index === leafIndex >> level) return 'path';
+    if (level < height && index === ((leafIndex >> level) ^ 1)) return 'auth';
+    if (level === 0 && index < (keys.privateKey?.nextIndex ?? 0)) return 'used';
+    return '';
+  };
+
+  return (
+    <>
+      <div className="merkle-tree">
+        {tree.map((_, offset) => {
+          const level = height - offset;
+          return (
+            <div key={level} className="merkle-level">
+              {tree[level].map((node, index) => (
+                <span key={index} className={`merkle-node ${nodeClass(level, index)}`} title={`第${level}层 #${index}: ${node}`}>
+                  {level >= height - 2 ? node.substring(0, 4) : ''}
+                </span>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <div className="chain-legend">
+        <span><span className="merkle-node path" /> 叶子#{leafIndex}到树根的路径</span>
+        <span><span className="merkle-node auth" /> 认证路径（随签名发送）</span>
+        <span><span className="merkle-node used" /> 已用过的叶子</span>
+      </div>
+      <p className="comparison-note">
+        签名包含第{leafIndex}个叶子的WOTS+签名与{height}个认证路径节点。验证者由WOTS+签名恢复叶子，
+        再与认证路径逐层哈希，得到的树根等于公钥即验证通过。私钥必须记住下一个可用叶子，
+        本密钥还可以签名{remaining}次。
+      </p>
+    </>
+  );
+};
+
+// 基于哈希的签名可视化组件：展示公开的原像、哈希链位置或Merkle认证路径
+const HashSignatureView: React.FC<HashSignatureViewProps> = ({ algorithm, keys, signature }) => {
+  if (!keys || !signature?.messageHash) {
+    return null;
+  }
+
+  const titles: Record<string, string> = {
+    Lamport: 'Lamport：公开256对原像中的各一个',
+    'WOTS+': 'WOTS+：在67条哈希链上公开的位置',
+    XMSS: `XMSS：Merkle树与认证路径（树高${keys.publicKey.height}）`
+  };
+
+  return (
+    <motion.div
+      className="signature-comparison hash-signature-view"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <h3>{titles[algorithm]}</h3>
+      {algorithm === 'Lamport' && <LamportPreimages digestHex={signature.messageHash} />}
+      {algorithm === 'WOTS+' && signature.chainPositions && <WotsChains positions={signature.chainPositions} />}
+      {algorithm === 'XMSS' && signature.chainPositions && (
+        <>
+          <MerkleTree keys={keys} signature={signature} />
+          <h3>叶子#{signature.leafIndex}的WOTS+签名</h3>
+          <WotsChains positions={signature.chainPositions} />
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default HashSignatureView;
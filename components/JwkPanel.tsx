@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Jwk, JwkCodec, KeyPair } from '../algorithms';
+
+// JWK面板组件的属性接口
+interface JwkPanelProps {
+  algorithm: string;                    // 算法名称，用于下载文件名
+  codec: JwkCodec | null;               // 支持JWK的算法实例，不支持时为null
+  keys: KeyPair | null;                 // 当前密钥对
+  onImport: (keys: KeyPair) => void;    // 导入成功后的回调函数
+}
+
+// 将JWK保存为.jwk.json文件
+const downloadJwk = (jwk: Jwk, filename: string) => {
+  const blob = new Blob([JSON.stringify(jwk, null, 2)], { type: 'application/jwk+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// JWK面板组件：下载当前密钥或粘贴JWK导入密钥
+const JwkPanel: React.FC<JwkPanelProps> = ({ algorithm, codec, keys, onImport }) => {
+  const [showInput, setShowInput] = useState(false);
+  const [jwkInput, setJwkInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // 不支持JWK的算法（如DSA、ElGamal）不显示面板
+  if (!codec) {
+    return null;
+  }
+
+  // 当前密钥的JWK，kid即RFC 7638指纹
+  let exported: { publicKey: Jwk; privateKey: Jwk | null } | null = null;
+  try {
+    exported = keys ? codec.exportJwk(keys) : null;
+  } catch (err) {
+    exported = null;
+  }
+
+  // 解析粘贴的JWK并导入
+  const handleImport = () => {
+    try {
+      setError(null);
+      const imported = codec.importJwk(JSON.parse(jwkInput));
+      onImport(imported);
+      setNotice(imported.privateKey ? '已导入私钥' : '已导入公钥（没有私钥，只能验证签名或加密）');
+      setJwkInput('');
+      setShowInput(false);
+    } catch (err) {
+      setNotice(null);
+      setError(`导入JWK失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="jwk-panel">
+      <div className="jwk-buttons">
+        <motion.button
+          className="jwk-button"
+          onClick={() => exported && downloadJwk(exported.publicKey, `${algorithm}-public.jwk.json`)}
+          disabled={!exported}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          下载公钥JWK
+        </motion.button>
+        <motion.button
+          className="jwk-button"
+          onClick={() => exported?.privateKey && downloadJwk(exported.privateKey, `${algorithm}-private.jwk.json`)}
+          disabled={!exported?.privateKey}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          下载私钥JWK
+        </motion.button>
+        <motion.button
+          className="jwk-button"
+          onClick={() => setShowInput(!showInput)}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          粘贴JWK
+        </motion.button>
+      </div>
+
+      {exported && (
+        <div className="jwk-thumbprint">
+          <span className="jwk-label">JWK指纹 (RFC 7638):</span>
+          <code>{exported.publicKey.kid}</code>
+        </div>
+      )}
+
+      {showInput && (
+        <div className="jwk-input">
+          <textarea
+            value={jwkInput}
+            onChange={(e) => setJwkInput(e.target.value)}
+            placeholder='{"kty": "...", ...}'
+            rows={6}
+          />
+          <button className="jwk-button" onClick={handleImport} disabled={!jwkInput.trim()}>
+            导入JWK
+          </button>
+        </div>
+      )}
+
+      {notice && <div className="jwk-notice">{notice}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+};
+
+export default JwkPanel;
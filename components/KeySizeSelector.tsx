@@ -0,0 +1,129 @@
+import React from 'react';
+import { CURVES, CURVE_NAMES, DEFAULT_CURVE, KeyGenerationOptions } from '../algorithms';
+
+// 密钥长度选择器组件的属性接口
+interface KeySizeSelectorProps {
+  algorithm: string;                                  // 当前选中的算法
+  value: KeyGenerationOptions;                        // 当前的密钥生成选项，空对象表示默认值
+  onChange: (options: KeyGenerationOptions) => void;  // 选择密钥长度时的回调函数
+}
+
+// 可选的密钥长度与参数集
+interface KeySizeOption {
+  label: string;
+  options: KeyGenerationOptions;
+  isDefault?: boolean; // 与算法generateKeys的默认值一致
+}
+
+// 椭圆曲线选项，ECDSA、ECC与ECDH共用
+const CURVE_OPTIONS: KeySizeOption[] = CURVE_NAMES.map(name => ({
+  label: `${name} (${CURVES[name].bits}位)`,
+  options: { curve: name },
+  isDefault: name === DEFAULT_CURVE
+}));
+
+// RFC 3526的MODP群选项，ElGamal与DH共用
+const MODP_OPTIONS: KeySizeOption[] = [1536, 2048, 3072, 4096].map(size => ({
+  label: `${size}位 MODP群`,
+  options: { keySize: size },
+  isDefault: size === 2048
+}));
+
+// Rabin模数位长，Rabin加密与Rabin-Williams签名共用
+const RABIN_OPTIONS: KeySizeOption[] = [1024, 2048, 3072].map(size => ({
+  label: `${size}位`,
+  options: { keySize: size },
+  isDefault: size === 2048
+}));
+
+// 各算法支持的密钥长度：RSA、Paillier与Rabin的模数位长、FIPS 186-4的DSA (L, N)、RFC 3526的MODP群、命名曲线、FIPS 203的ML-KEM参数集、FIPS 204的ML-DSA参数集与XMSS的树高
+const KEY_SIZE_OPTIONS: Record<string, KeySizeOption[]> = {
+  RSA: [1024, 2048, 3072, 4096].map(size => ({
+    label: `${size}位`,
+    options: { keySize: size },
+    isDefault: size === 2048
+  })),
+  PAILLIER: [1024, 2048, 3072].map(size => ({
+    label: `${size}位`,
+    options: { keySize: size },
+    isDefault: size === 2048
+  })),
+  RABIN: RABIN_OPTIONS,
+  'RABIN-WILLIAMS': RABIN_OPTIONS,
+  DSA: [[1024, 160], [2048, 224], [2048, 256], [3072, 256]].map(([L, N]) => ({
+    label: `L = ${L}, N = ${N}`,
+    options: { keySize: L, subgroupSize: N },
+    isDefault: L === 2048 && N === 256
+  })),
+  ELGAMAL: MODP_OPTIONS,
+  DH: MODP_OPTIONS,
+  ECDSA: CURVE_OPTIONS,
+  ECC: CURVE_OPTIONS,
+  ECDH: CURVE_OPTIONS,
+  'ML-KEM': (['ML-KEM-512', 'ML-KEM-768'] as const).map(parameterSet => ({
+    label: parameterSet,
+    options: { parameterSet },
+    isDefault: parameterSet === 'ML-KEM-768'
+  })),
+  'ML-DSA': (['ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87'] as const).map(parameterSet => ({
+    label: parameterSet,
+    options: { parameterSet },
+    isDefault: parameterSet === 'ML-DSA-65'
+  })),
+  XMSS: [4, 6].map(height => ({
+    label: `h = ${height}（可签名${1 << height}次）`,
+    options: { treeHeight: height },
+    isDefault: height === 4
+  }))
+};
+
+// 下拉框前的说明文字
+const SELECTOR_LABELS: Record<string, string> = {
+  DSA: '参数位长 (L, N):',
+  ECDSA: '椭圆曲线:',
+  ECC: '椭圆曲线:',
+  DH: 'MODP群:',
+  ECDH: '椭圆曲线:',
+  'ML-KEM': '参数集:',
+  'ML-DSA': '参数集:',
+  XMSS: '树高:'
+};
+
+// 密钥长度选择器组件：放在算法选择器旁，选择生成密钥时使用的密钥长度、域参数或椭圆曲线
+const KeySizeSelector: React.FC<KeySizeSelectorProps> = ({ algorithm, value, onChange }) => {
+  const key = algorithm.toUpperCase();
+  const choices = KEY_SIZE_OPTIONS[key];
+
+  // 没有可选参数的算法不显示选择器
+  if (!choices) {
+    return null;
+  }
+
+  // 根据当前选项找到对应的下拉项，未指定时选中默认值
+  const selectedIndex = Math.max(0, choices.findIndex(choice =>
+    Object.keys(value).length === 0
+      ? choice.isDefault
+      : Object.entries(choice.options).every(
+          ([name, option]) => value[name as keyof KeyGenerationOptions] === option
+        )
+  ));
+
+  return (
+    <div className="key-size-selector">
+      <label htmlFor="key-size-select">{SELECTOR_LABELS[key] ?? '密钥长度:'}</label>
+      <select
+        id="key-size-select"
+        value={selectedIndex}
+        onChange={(e) => onChange(choices[Number(e.target.value)].options)}
+      >
+        {choices.map((choice, index) => (
+          <option key={choice.label} value={index}>
+            {choice.label}{choice.isDefault ? '（默认）' : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default KeySizeSelector;
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { EncryptionResult, KeyPair } from '../algorithms';
+import { MLKEMEncryption } from '../algorithms/MLKEMEncryption';
+
+// 格噪声可视化组件的属性接口
+interface LatticeNoiseChartProps {
+  encryptionResult: EncryptionResult;  // ML-KEM加密结果（ephemeralKey为KEM密文）
+  keys: KeyPair;                       // ML-KEM密钥对，需要解封装密钥
+}
+
+const Q = 3329;
+const HISTOGRAM_BINS = 21;
+
+// 统计每个取值区间中的系数个数
+const histogram = (values: number[], min: number, max: number, bins: number) => {
+  const width = (max - min) / bins;
+  const counts = new Array(bins).fill(0);
+  for (const value of values) {
+    counts[Math.min(bins - 1, Math.floor((value - min) / width))]++;
+  }
+  return counts.map((count, i) => ({ from: Math.round(min + i * width), count }));
+};
+
+// 格噪声可视化组件：展示解封装时 w = v - sᵀu 的系数如何聚集在0与q/2附近，以及私钥的小系数分布
+const LatticeNoiseChart: React.FC<LatticeNoiseChartProps> = ({ encryptionResult, keys }) => {
+  const analysis = useMemo(
+    () => new MLKEMEncryption().analyzeNoise(encryptionResult, keys.privateKey),
+    [encryptionResult, keys]
+  );
+
+  const maxNoise = Math.max(...analysis.noise.map(Math.abs));
+  const range = Math.max(50, Math.ceil(maxNoise / 50) * 50);
+  const noiseBins = histogram(analysis.noise, -range, range, HISTOGRAM_BINS);
+  const noiseMaxCount = Math.max(...noiseBins.map(bin => bin.count));
+
+  // 私钥系数服从[-η1, η1]上的中心二项分布
+  const eta = Math.max(...analysis.secret.map(Math.abs));
+  const secretBins = Array.from({ length: 2 * eta + 1 }, (_, i) => ({
+    from: i - eta,
+    count: analysis.secret.filter(c => c === i - eta).length
+  }));
+  const secretMaxCount = Math.max(...secretBins.map(bin => bin.count));
+
+  return (
+    <motion.div
+      className="lattice-noise"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.7 }}
+    >
+      <h3>格噪声可视化（{keys.privateKey.parameterSet}）</h3>
+
+      {/* Z_q数轴：256个系数按取值落点，阴影区域解码为比特1 */}
+      <div className="noise-section">
+        <h4>解密多项式 w = v − sᵀu 的256个系数在Z_q上的位置</h4>
+        <div className="zq-line">
+          <div className="zq-one-region" />
+          {analysis.coefficients.map((w, i) => (
+            <span
+              key={i}
+              className={`zq-dot bit-${analysis.bits[i]}`}
+              style={{ left: `${(w / Q) * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="zq-labels">
+          <span>0</span>
+          <span>q/4</span>
+          <span>q/2</span>
+          <span>3q/4</span>
+          <span>q</span>
+        </div>
+        <p className="comparison-note">
+          比特0编码为0，比特1编码为⌈q/2⌋ = 1665；噪声使系数偏离这两个位置，只要偏离不超过q/4 ≈ 832就能正确解码。
+        </p>
+      </div>
+
+      {/* 噪声直方图 */}
+      <div className="noise-section">
+        <h4>系数偏离量（噪声）分布：最大 |噪声| = {maxNoise}，解码阈值 q/4 = 832</h4>
+        <div className="noise-histogram">
+          {noiseBins.map(bin => (
+            <div key={bin.from} className="noise-bar-wrapper" title={`${bin.from}起: ${bin.count}个`}>
+              <div className="noise-bar" style={{ height: `${(bin.count / noiseMaxCount) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="zq-labels">
+          <span>−{range}</span>
+          <span>0</span>
+          <span>{range}</span>
+        </div>
+      </div>
+
+      {/* 私钥系数分布 */}
+      <div className="noise-section">
+        <h4>私钥s的{analysis.secret.length}个系数（中心二项分布，η1 = {eta}）</h4>
+        <div className="noise-histogram secret">
+          {secretBins.map(bin => (
+            <div key={bin.from} className="noise-bar-wrapper">
+              <div className="noise-bar secret" style={{ height: `${(bin.count / secretMaxCount) * 100}%` }} />
+              <span className="noise-bar-label">{bin.from}</span>
+            </div>
+          ))}
+        </div>
+        <p className="comparison-note">
+          私钥和误差都是系数很小的多项式：公钥 t = A·s + e 看起来与均匀随机无法区分（Module-LWE问题），
+          而持有s的接收方可以消去大部分随机性，只留下上面的小噪声。
+        </p>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LatticeNoiseChart;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { KeyPair, SignatureResult } from '../algorithms';
+import { ECDSA } from '../algorithms/ECDSA';
+
+// 公钥恢复组件的属性接口
+interface PublicKeyRecoveryProps {
+  message: string;                      // 已签名的消息
+  keys: KeyPair | null;                 // 签名者的密钥对，公钥作为期望值与恢复结果比较
+  signature: SignatureResult | null;    // 当前的ECDSA签名（含恢复标识v）
+  attackMode: boolean;                  // 是否处于攻击模式
+  modifiedMessage: string;              // 攻击模式下篡改后的消息
+}
+
+const ecdsa = new ECDSA();
+
+// 以太坊65字节签名 r ‖ s ‖ v，只有secp256k1上v为0或1的low-s签名才能编码
+const ethereumEncoding = (signature: SignatureResult) => {
+  try {
+    return ecdsa.serializeRecoverable(signature);
+  } catch (e) {
+    return null;
+  }
+};
+
+// 公钥按SEC 1压缩格式显示：02/03前缀表示y的奇偶
+const compressed = (publicKey: any) =>
+  `${BigInt(`0x${publicKey.y}`) & 1n ? '03' : '02'}${publicKey.x}`;
+
+// ECDSA公钥恢复组件：不提供公钥，只用消息和签名(r, s, v)还原签名者公钥，再与期望的公钥比较
+const PublicKeyRecovery: React.FC<PublicKeyRecoveryProps> = ({ message, keys, signature, attackMode, modifiedMessage }) => {
+  const [recovered, setRecovered] = useState<KeyPair | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 攻击模式下用篡改后的消息恢复
+  const checkedMessage = attackMode && modifiedMessage ? modifiedMessage : message;
+
+  // 签名或消息变化时清空旧的恢复结果
+  useEffect(() => {
+    setRecovered(null);
+    setError(null);
+  }, [signature, checkedMessage]);
+
+  if (!signature || signature.recoveryId === undefined || !keys?.publicKey) {
+    return null;
+  }
+
+  /**
+   * 由消息与签名恢复公钥
+   */
+  const recover = async () => {
+    try {
+      setRecovered(await ecdsa.recoverPublicKey(checkedMessage, signature));
+      setError(null);
+    } catch (e) {
+      setRecovered(null);
+      setError(e instanceof Error ? e.message : '公钥恢复失败');
+    }
+  };
+
+  const isSecp256k1 = (signature.curve || 'secp256k1') === 'secp256k1';
+  const serialized = isSecp256k1 ? ethereumEncoding(signature) : null;
+
+  const matches = recovered !== null
+    && recovered.publicKey.x === keys.publicKey.x
+    && recovered.publicKey.y === keys.publicKey.y;
+
+  return (
+    <motion.div
+      className="signature-comparison"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <h3>不使用公钥验证（由签名恢复公钥）</h3>
+      <table>
+        <tbody>
+          <tr>
+            <td className="comparison-label">恢复标识</td>
+            <td>
+              v = {signature.recoveryId}（R.y为{signature.recoveryId & 1 ? '奇数' : '偶数'}
+              {signature.recoveryId & 2 ? '，R.x = r + n' : ''}）
+              {serialized && `，以太坊编码为 ${27 + signature.recoveryId}`}
+              {isSecp256k1 && signature.recoveryId > 1 && '，R.x ≥ n的签名以太坊不接受'}
+            </td>
+          </tr>
+          {serialized && (
+            <tr>
+              <td className="comparison-label">65字节签名</td>
+              <td><code>{serialized}</code>（r ‖ s ‖ v，s已取low-s）</td>
+            </tr>
+          )}
+          <tr>
+            <td className="comparison-label">恢复公式</td>
+            <td className="formula">Q = r⁻¹(s·R − e·G)</td>
+          </tr>
+          <tr>
+            <td className="comparison-label">验证的消息</td>
+            <td>{checkedMessage}</td>
+          </tr>
+          <tr>
+            <td className="comparison-label">期望的公钥</td>
+            <td><code>{compressed(keys.publicKey)}</code></td>
+          </tr>
+          {recovered && (
+            <tr>
+              <td className="comparison-label">恢复的公钥</td>
+              <td>
+                <code>{compressed(recovered.publicKey)}</code>{' '}
+                {matches ? '✓ 与期望一致，签名有效' : '✗ 与期望不符，签名无效或消息被篡改'}
+              </td>
+            </tr>
+          )}
+          {error && (
+            <tr>
+              <td className="comparison-label">恢复失败</td>
+              <td>{error}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <button className="action-button" onClick={recover}>
+        恢复公钥并比较
+      </button>
+      <p className="comparison-note">
+        比特币消息签名与以太坊交易在secp256k1上只传输65字节的(r, s, v)，不附带公钥：验证者由签名恢复出公钥，
+        再比较它（或它的地址）是否属于预期的签名者。消息被篡改后仍能恢复出一个公钥，但它与期望的公钥不同。
+      </p>
+    </motion.div>
+  );
+};
+
+export default PublicKeyRecovery;
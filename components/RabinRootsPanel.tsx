@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { EncryptionResult, KeyPair } from '../algorithms';
+import { RabinEncryption } from '../algorithms/RabinEncryption';
+
+// Rabin四个平方根组件的属性接口
+interface RabinRootsPanelProps {
+  encryptionResult: EncryptionResult;  // Rabin加密结果
+  keys: KeyPair;                       // Rabin密钥对，需要私钥p、q
+}
+
+// 平方根按十六进制缩写显示
+const abbreviate = (value: bigint) => {
+  const hex = value.toString(16);
+  return hex.length <= 32 ? hex : `${hex.substring(0, 16)}...${hex.substring(hex.length - 16)}`;
+};
+
+// Rabin四个平方根组件：解密时列出 (±m_p, ±m_q) 组合出的四个平方根，只有一个带有正确的冗余
+const RabinRootsPanel: React.FC<RabinRootsPanelProps> = ({ encryptionResult, keys }) => {
+  const roots = useMemo(() => {
+    try {
+      return new RabinEncryption().decryptCandidates(encryptionResult, keys.privateKey);
+    } catch (error) {
+      return null;
+    }
+  }, [encryptionResult, keys]);
+
+  if (!roots) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      className="signature-comparison"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.7 }}
+    >
+      <h3>解密得到的四个平方根</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>x mod p, x mod q</th>
+            <th>平方根 x（十六进制）</th>
+            <th>冗余</th>
+            <th>明文</th>
+          </tr>
+        </thead>
+        <tbody>
+          {roots.map((root, i) => (
+            <tr key={i}>
+              <td className="formula">({root.signs[0] > 0 ? '+' : '−'}m_p, {root.signs[1] > 0 ? '+' : '−'}m_q)</td>
+              <td><code>{abbreviate(root.value)}</code></td>
+              <td>{root.valid ? '✓' : '✗'}</td>
+              <td>{root.valid ? root.message : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="comparison-note">
+        m_p = c^((p+1)/4) mod p、m_q = c^((q+1)/4) mod q，由中国剩余定理组合出四个满足 x² ≡ c (mod n) 的x。
+        四者的平方完全相同，解密者只能依靠加密时的编码 0x00 ‖ 随机填充 ‖ m ‖ len(m) ‖ 冗余（前面各部分SHA-256的前8字节）挑出真正的明文；
+        密文被篡改后四个平方根都不带有正确的冗余。
+      </p>
+    </motion.div>
+  );
+};
+
+export default RabinRootsPanel;
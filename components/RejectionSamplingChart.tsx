@@ -0,0 +1,97 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { KeyPair, SignatureResult } from '../algorithms';
+import { getMlDsaParameters } from '../algorithms/mldsa';
+
+// 拒绝采样可视化组件的属性接口
+interface RejectionSamplingChartProps {
+  keys: KeyPair | null;                 // ML-DSA密钥对
+  signature: SignatureResult | null;    // 当前的ML-DSA签名（含每次尝试的记录）
+}
+
+// FIPS 204 表1给出的平均尝试次数
+const EXPECTED_ATTEMPTS: Record<string, number> = {
+  'ML-DSA-44': 4.25,
+  'ML-DSA-65': 5.1,
+  'ML-DSA-87': 3.85
+};
+
+// 拒绝原因的说明
+const REJECTION_REASONS: Record<string, string> = {
+  z: '‖z‖∞ ≥ γ1 − β',
+  r0: '低位 ≥ γ2 − β',
+  ct0: '‖c·t0‖∞ ≥ γ2',
+  hint: '提示位超过ω'
+};
+
+// 范数刻度只显示阈值两侧各β宽的区间，否则所有条形都接近满格
+const gaugePercent = (norm: number, bound: number, beta: number) =>
+  Math.min(100, Math.max(0, ((norm - (bound - 2 * beta)) / (2 * beta)) * 100));
+
+// 拒绝采样可视化组件：列出签名时每次尝试的范数与阈值，说明为何需要多次尝试
+const RejectionSamplingChart: React.FC<RejectionSamplingChartProps> = ({ keys, signature }) => {
+  if (!keys || !signature?.attempts) {
+    return null;
+  }
+
+  const params = getMlDsaParameters(signature.parameterSet);
+  const { beta, gamma1, gamma2 } = params;
+  const attempts = signature.attempts;
+
+  return (
+    <motion.div
+      className="signature-comparison rejection-sampling"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <h3>拒绝采样：本次签名尝试了{attempts.length}次（{params.name}平均约{EXPECTED_ATTEMPTS[params.name]}次）</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>尝试</th>
+            <th>κ</th>
+            <th>‖z‖∞（阈值 γ1 − β = {gamma1 - beta}）</th>
+            <th>‖r0‖∞（阈值 γ2 − β = {gamma2 - beta}）</th>
+            <th>结果</th>
+          </tr>
+        </thead>
+        <tbody>
+          {attempts.map((attempt, index) => (
+            <tr key={attempt.kappa} className={attempt.rejectedBy ? 'attempt-rejected' : 'attempt-accepted'}>
+              <td className="comparison-label">#{index + 1}</td>
+              <td>{attempt.kappa}</td>
+              <td>
+                <div className="norm-gauge" title={`${attempt.zNorm}`}>
+                  <div
+                    className={`norm-fill ${attempt.zNorm >= gamma1 - beta ? 'over' : ''}`}
+                    style={{ width: `${gaugePercent(attempt.zNorm, gamma1 - beta, beta)}%` }}
+                  />
+                  <div className="norm-threshold" />
+                </div>
+                <span className="norm-value">{attempt.zNorm}</span>
+              </td>
+              <td>
+                <div className="norm-gauge" title={`${attempt.r0Norm}`}>
+                  <div
+                    className={`norm-fill ${attempt.r0Norm >= gamma2 - beta ? 'over' : ''}`}
+                    style={{ width: `${gaugePercent(attempt.r0Norm, gamma2 - beta, beta)}%` }}
+                  />
+                  <div className="norm-threshold" />
+                </div>
+                <span className="norm-value">{attempt.r0Norm}</span>
+              </td>
+              <td>{attempt.rejectedBy ? `✗ ${REJECTION_REASONS[attempt.rejectedBy]}` : '✓ 输出签名'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="comparison-note">
+        z = y + c·s1中，掩码y的系数在±γ1内均匀分布；若某个系数超出γ1 − β，它的取值就与c·s1相关，可能泄露私钥。
+        签名者丢弃这样的z，换一个κ重新生成y，使输出的z与私钥无关。刻度条只显示阈值两侧各β宽的区间，竖线为阈值。
+      </p>
+    </motion.div>
+  );
+};
+
+export default RejectionSamplingChart;
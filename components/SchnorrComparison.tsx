@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlgorithmFactory, KeyPair, SignatureResult } from '../algorithms';
+
+// Schnorr与ECDSA对比组件的属性接口
+interface SchnorrComparisonProps {
+  message: string;                      // 已签名的消息
+  keys: KeyPair | null;                 // Schnorr密钥对（secp256k1私钥）
+  signature: SignatureResult | null;    // 当前的Schnorr签名
+}
+
+// 表格中逐行对比的两种算法特性
+const COMPARISON_ROWS = [
+  { label: '签名方程', ecdsa: 's = k⁻¹(e + r·d) mod n', schnorr: 's = k + e·d mod n' },
+  { label: '验证方程', ecdsa: 'x(e·s⁻¹·G + r·s⁻¹·P) = r', schnorr: 's·G = R + e·P' },
+  { label: '消息哈希', ecdsa: 'e = SHA-256(m)', schnorr: 'e = H_challenge(R.x ‖ P.x ‖ m)' },
+  { label: '公钥长度', ecdsa: '33字节（压缩点）', schnorr: '32字节（x-only）' },
+];
+
+// Schnorr与ECDSA对比组件：用同一个secp256k1私钥对同一消息签名，并排展示两种方案
+const SchnorrComparison: React.FC<SchnorrComparisonProps> = ({ message, keys, signature }) => {
+  const [ecdsaSignature, setEcdsaSignature] = useState<SignatureResult | null>(null);
+
+  // 签名变化时，用相同的私钥d生成ECDSA签名
+  useEffect(() => {
+    if (!keys?.privateKey || !signature) {
+      setEcdsaSignature(null);
+      return;
+    }
+    let cancelled = false;
+    AlgorithmFactory.getAlgorithm('ECDSA')
+      .sign(message, { publicKey: null, privateKey: keys.privateKey })
+      .then((result) => {
+        if (!cancelled) setEcdsaSignature(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [message, keys, signature]);
+
+  if (!signature) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      className="signature-comparison"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <h3>Schnorr vs ECDSA（同一私钥、同一消息）</h3>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>ECDSA</th>
+            <th>Schnorr (BIP-340)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COMPARISON_ROWS.map((row) => (
+            <tr key={row.label}>
+              <td className="comparison-label">{row.label}</td>
+              <td className="formula">{row.ecdsa}</td>
+              <td className="formula">{row.schnorr}</td>
+            </tr>
+          ))}
+          <tr>
+            <td className="comparison-label">签名长度</td>
+            <td>{ecdsaSignature ? `${ecdsaSignature.signature.length / 2}字节（DER编码，长度可变）` : '计算中...'}</td>
+            <td>{signature.signature.length / 2}字节（R.x ‖ s，定长）</td>
+          </tr>
+          <tr>
+            <td className="comparison-label">签名值</td>
+            <td>
+              {ecdsaSignature?.r && (
+                <code>
+                  r: {ecdsaSignature.r.substring(0, 12)}...<br />
+                  s: {ecdsaSignature.s?.substring(0, 12)}...
+                </code>
+              )}
+            </td>
+            <td>
+              <code>
+                R.x: {signature.r?.substring(0, 12)}...<br />
+                s: {signature.s?.substring(0, 12)}...
+              </code>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="comparison-note">
+        Schnorr的签名方程对私钥和随机数都是线性的：多个签名者的公钥与签名值可以直接相加后聚合验证；
+        ECDSA中的k⁻¹破坏了这种线性关系，因此无法直接聚合。
+      </p>
+    </motion.div>
+  );
+};
+
+export default SchnorrComparison;
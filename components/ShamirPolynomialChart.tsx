@@ -0,0 +1,132 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SplitResult, lagrangeCoefficients } from '../algorithms/secret-sharing';
+
+// Shamir多项式可视化组件的属性接口
+interface ShamirPolynomialChartProps {
+  split: SplitResult;            // 拆分结果：素数域、多项式系数与份额
+  selected: number[];            // 参与恢复的份额下标
+  recovered: bigint | null;      // 由所选份额插值得到的f(0)
+}
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const PADDING = 40;
+
+// 把域元素映射到[0, 1)：在大素数域上，多项式的取值看起来均匀分布
+const normalize = (value: bigint, prime: bigint) => Number((value * 10000n) / prime) / 10000;
+
+// 缩写显示大整数
+const abbreviate = (value: bigint) => {
+  const str = value.toString();
+  return str.length <= 16 ? str : `${str.substring(0, 8)}…${str.substring(str.length - 6)}`;
+};
+
+// Shamir多项式可视化组件：份额是多项式上的点，所选份额经拉格朗日插值求出x = 0处的秘密
+const ShamirPolynomialChart: React.FC<ShamirPolynomialChartProps> = ({ split, selected, recovered }) => {
+  const { prime, threshold, coefficients, shares } = split;
+  const secret = coefficients[0];
+
+  const toX = (x: number) => PADDING + (x / shares.length) * (WIDTH - 2 * PADDING);
+  const toY = (value: bigint) => HEIGHT - PADDING - normalize(value, prime) * (HEIGHT - 2 * PADDING);
+
+  const recoveredMatches = recovered !== null && recovered === secret;
+  const lambdas = recovered !== null && selected.length > 0
+    ? lagrangeCoefficients(selected.map(index => shares[index].x), prime)
+    : [];
+
+  return (
+    <motion.div
+      className="signature-comparison shamir-chart"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.7 }}
+    >
+      <h3>f(x) = a₀ + a₁x + … + a_{threshold - 1}x^{threshold - 1} mod p（p = 2^{prime.toString(2).length} − 1）</h3>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="shamir-plot">
+        {/* 坐标轴 */}
+        <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} className="axis" />
+        <line x1={PADDING} y1={PADDING} x2={PADDING} y2={HEIGHT - PADDING} className="axis" />
+        <text x={PADDING - 8} y={PADDING + 4} className="axis-label" textAnchor="end">p</text>
+        <text x={PADDING - 8} y={HEIGHT - PADDING + 4} className="axis-label" textAnchor="end">0</text>
+        {Array.from({ length: shares.length + 1 }, (_, x) => (
+          <text key={x} x={toX(x)} y={HEIGHT - PADDING + 18} className="axis-label" textAnchor="middle">{x}</text>
+        ))}
+
+        {/* 插值：所选份额都"指向"x = 0处的同一个值 */}
+        {recovered !== null && selected.map(index => (
+          <line
+            key={index}
+            x1={toX(Number(shares[index].x))}
+            y1={toY(shares[index].y)}
+            x2={toX(0)}
+            y2={toY(recovered)}
+            className={`interpolation ${recoveredMatches ? 'match' : 'mismatch'}`}
+          />
+        ))}
+
+        {/* 秘密 f(0) */}
+        <circle cx={toX(0)} cy={toY(secret)} r={8} className="secret-point" />
+        {recovered !== null && (
+          <circle cx={toX(0)} cy={toY(recovered)} r={5} className={`recovered-point ${recoveredMatches ? 'match' : 'mismatch'}`} />
+        )}
+
+        {/* 份额 (i, f(i)) */}
+        {shares.map((share, index) => (
+          <g key={index}>
+            <circle
+              cx={toX(Number(share.x))}
+              cy={toY(share.y)}
+              r={6}
+              className={`share-point ${selected.includes(index) ? 'selected' : ''}`}
+            />
+            <text x={toX(Number(share.x))} y={toY(share.y) - 10} className="axis-label" textAnchor="middle">
+              S{index + 1}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="chain-legend">
+        <span><span className="legend-dot secret-point" /> 秘密 f(0)</span>
+        <span><span className="legend-dot share-point selected" /> 参与恢复的份额</span>
+        <span><span className="legend-dot share-point" /> 未使用的份额</span>
+      </div>
+
+      {/* 拉格朗日插值明细 */}
+      {recovered !== null && selected.length > 0 && (
+        <div className="noise-section">
+          <h4>拉格朗日插值：f(0) = Σ λᵢ·yᵢ mod p，λᵢ = Π_(j≠i) xⱼ / (xⱼ − xᵢ)</h4>
+          <table>
+            <thead>
+              <tr>
+                <th>份额</th>
+                <th>xᵢ</th>
+                <th>yᵢ = f(xᵢ)</th>
+                <th>λᵢ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.map((index, i) => (
+                <tr key={index}>
+                  <td>S{index + 1}</td>
+                  <td>{shares[index].x.toString()}</td>
+                  <td><code>{abbreviate(shares[index].y)}</code></td>
+                  <td><code>{abbreviate(lambdas[i])}</code></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="comparison-note">
+        纵轴按 f(x)/p 缩放：在约{prime.toString(2).length}位的素数域中，多项式的取值看起来是均匀随机的，任意{threshold - 1}个份额
+        与秘密相互独立；只有凑齐{threshold}个点，t − 1次多项式才被唯一确定，插值在x = 0处得到秘密。
+      </p>
+    </motion.div>
+  );
+};
+
+export default ShamirPolynomialChart;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { AlgorithmFactory, KeyPair, SignatureResult } from '../algorithms';
+import { AlgorithmFactory, KeyGenerationOptions, KeyPair, SignatureResult, asJwkCodec } from '../algorithms';
+import JwkPanel from './JwkPanel';
 
 // 浏览器专用库使用动态导入
 let JSEncrypt: any = null;
@@ -15,6 +16,7 @@ interface StepActionsProps {
   setMessage: (message: string) => void;
   setKeys: (keys: any) => void;
   keys: any;
+  keyOptions?: KeyGenerationOptions;
   setSignature: (signature: any) => void;
   signature: any;
   setVerificationResult: (result: boolean | null) => void;
@@ -32,6 +34,7 @@ const StepActions: React.FC<StepActionsProps> = ({
   setMessage,
   setKeys,
   keys,
+  keyOptions,
   setSignature,
   signature,
   setVerificationResult,
@@ -84,7 +87,7 @@ const StepActions: React.FC<StepActionsProps> = ({
     try {
       setError(null);
       const cryptoAlgorithm = AlgorithmFactory.getAlgorithm(algorithm);
-      const generatedKeys = await cryptoAlgorithm.generateKeys();
+      const generatedKeys = await cryptoAlgorithm.generateKeys(keyOptions);
 
       setKeys(generatedKeys);
       setAnimation('keys-generated');
@@ -181,6 +184,16 @@ const StepActions: React.FC<StepActionsProps> = ({
             >
               生成 {algorithm} 密钥对
             </motion.button>
+            {/* JWK导入导出（RSA和ECDSA） */}
+            <JwkPanel
+              algorithm={algorithm}
+              codec={asJwkCodec(AlgorithmFactory.getAlgorithm(algorithm))}
+              keys={keys}
+              onImport={(importedKeys) => {
+                setKeys(importedKeys);
+                setAnimation('keys-generated');
+              }}
+            />
           </div>
         );
       case 2: // 生成签名
@@ -5,10 +5,15 @@ import { motion } from 'framer-motion';
 interface UserRoleProps {
   type: 'sender' | 'receiver'; // 用户类型：发送方或接收方
   position?: 'left' | 'right'; // 位置：左侧或右侧（可选参数）
+  label?: string; // 角色名称（可选参数），默认为发送方或接收方，密钥协商页面显示为Alice、Bob
 }
 
 // UserRole组件：显示发送方或接收方的用户角色
-const UserRole: React.FC<UserRoleProps> = ({ type, position = type === 'sender' ? 'left' : 'right' }) => {
+const UserRole: React.FC<UserRoleProps> = ({
+  type,
+  position = type === 'sender' ? 'left' : 'right',
+  label = type === 'sender' ? '发送方' : '接收方'
+}) => {
   return (
     <div className={`user-role ${type} ${position}`}>
       {/* 用户头像，带有动画效果 */}
@@ -18,11 +23,11 @@ const UserRole: React.FC<UserRoleProps> = ({ type, position = type === 'sender'
         animate={{ scale: 1 }} // 动画目标缩放比例
         transition={{ duration: 0.3 }} // 动画持续时间
       >
-        <img src="/images/person.png" alt={type === 'sender' ? '发送方' : '接收方'} className="avatar-image" />
+        <img src="/images/person.png" alt={label} className="avatar-image" />
       </motion.div>
       {/* 用户角色标签 */}
       <p className="role-label">
-        {type === 'sender' ? '发送方' : '接收方'}
+        {label}
       </p>
     </div>
   );
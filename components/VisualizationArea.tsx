@@ -67,20 +67,120 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                             <strong>n (模数):</strong> {keys.publicKey.n.substring(0, 20)}...
                           </p>
                           <p className="key-snippet key-size">
-                            <strong>密钥大小:</strong> ≥2048位
+                            <strong>密钥大小:</strong> {keys.keySize}位
                           </p>
                         </>
                       )}
                       {algorithm === 'DSA' && (
-                        <p className="key-snippet">
-                          y: {keys.publicKey.y.toString().substring(0, 15)}...
-                        </p>
+                        <>
+                          <p className="key-snippet">
+                            y: {keys.publicKey.y.toString().substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>参数位长:</strong> (L, N) = ({keys.publicKey.pBits}, {keys.publicKey.qBits})
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'ElGamal' && (
+                        <>
+                          <p className="key-snippet">
+                            y: {keys.publicKey.y.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>MODP群:</strong> {keys.keySize}位，g = {keys.publicKey.g}
+                          </p>
+                        </>
                       )}
                       {algorithm === 'ECDSA' && (
-                        <p className="key-snippet">
-                          x: {keys.publicKey.x?.substring(0, 15)}...<br/>
-                          y: {keys.publicKey.y?.substring(0, 15)}...
-                        </p>
+                        <>
+                          <p className="key-snippet">
+                            x: {keys.publicKey.x?.substring(0, 15)}...<br/>
+                            y: {keys.publicKey.y?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>曲线:</strong> {keys.publicKey.curve} ({keys.keySize}位)
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'Ed25519' && (
+                        <>
+                          <p className="key-snippet">
+                            A: {keys.publicKey.A?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>曲线:</strong> edwards25519 ({keys.keySize}位)
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'Schnorr' && (
+                        <>
+                          <p className="key-snippet">
+                            P.x: {keys.publicKey.x?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>曲线:</strong> {keys.publicKey.curve}（x-only公钥，y取偶数）
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'ML-DSA' && (
+                        <>
+                          <p className="key-snippet">
+                            (ρ, t1): {keys.publicKey.key?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>参数集:</strong> {keys.publicKey.parameterSet}（{keys.publicKey.key?.length / 2}字节）
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'Lamport' && (
+                        <>
+                          <p className="key-snippet">
+                            H(sk[i][b]): {keys.publicKey.key?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>一次性密钥:</strong> 512个SHA-256值（{keys.publicKey.key?.length / 2}字节）
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'WOTS+' && (
+                        <>
+                          <p className="key-snippet">
+                            链尾: {keys.publicKey.key?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>一次性密钥:</strong> 67条哈希链，w = 16
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'XMSS' && (
+                        <>
+                          <p className="key-snippet">
+                            树根: {keys.publicKey.root?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>树高:</strong> {keys.publicKey.height}（可签名{1 << keys.publicKey.height}次）
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'Rabin-Williams' && (
+                        <>
+                          <p className="key-snippet">
+                            <strong>n (模数):</strong> {keys.publicKey.n?.substring(0, 20)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>密钥大小:</strong> {keys.keySize}位，公钥只有n
+                          </p>
+                        </>
+                      )}
+                      {algorithm === 'BLS' && (
+                        <>
+                          <p className="key-snippet">
+                            PK = sk·G1: {keys.publicKey.key?.substring(0, 15)}...
+                          </p>
+                          <p className="key-snippet key-size">
+                            <strong>曲线:</strong> {keys.publicKey.curve}（{keys.publicKey.key?.length / 2}字节压缩G1点）
+                          </p>
+                        </>
                       )}
                     </div>
                   </motion.div>
@@ -93,7 +193,11 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                   >
                     <h4>私钥</h4>
                     <div className="key-data">
-                      {algorithm === 'RSA' && (
+                      {/* 只导入了公钥时没有私钥可显示 */}
+                      {!keys.privateKey && (
+                        <p className="key-snippet">未导入私钥</p>
+                      )}
+                      {algorithm === 'RSA' && keys.privateKey && (
                         <>
                           <p className="key-snippet">
                             <strong>d (私钥指数):</strong> {keys.privateKey.d.substring(0, 20)}...
@@ -103,16 +207,63 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                           </p>
                         </>
                       )}
-                      {algorithm === 'DSA' && (
+                      {algorithm === 'ElGamal' && keys.privateKey && (
+                        <p className="key-snippet">
+                          x: {keys.privateKey.x.substring(0, 15)}...
+                        </p>
+                      )}
+                      {algorithm === 'DSA' && keys.privateKey && (
                         <p className="key-snippet">
                           x: {keys.privateKey.x.toString().substring(0, 15)}...
                         </p>
                       )}
-                      {algorithm === 'ECDSA' && (
+                      {algorithm === 'ECDSA' && keys.privateKey && (
                         <p className="key-snippet">
                           d: {keys.privateKey.d?.substring(0, 15)}...
                         </p>
                       )}
+                      {algorithm === 'Ed25519' && keys.privateKey && (
+                        <p className="key-snippet">
+                          种子: {keys.privateKey.seed?.substring(0, 15)}...
+                        </p>
+                      )}
+                      {algorithm === 'Schnorr' && keys.privateKey && (
+                        <p className="key-snippet">
+                          d: {keys.privateKey.d?.substring(0, 15)}...
+                        </p>
+                      )}
+                      {algorithm === 'ML-DSA' && keys.privateKey && (
+                        <p className="key-snippet">
+                          (s1, s2, t0): {keys.privateKey.key?.substring(0, 15)}...（{keys.privateKey.key?.length / 2}字节）
+                        </p>
+                      )}
+                      {algorithm === 'Lamport' && keys.privateKey && (
+                        <p className="key-snippet">
+                          种子: {keys.privateKey.seed?.substring(0, 15)}...（{keys.privateKey.used ? '已使用' : '未使用'}）
+                        </p>
+                      )}
+                      {algorithm === 'WOTS+' && keys.privateKey && (
+                        <p className="key-snippet">
+                          种子: {keys.privateKey.skSeed?.substring(0, 15)}...（{keys.privateKey.used ? '已使用' : '未使用'}）
+                        </p>
+                      )}
+                      {algorithm === 'XMSS' && keys.privateKey && (
+                        <p className="key-snippet">
+                          种子: {keys.privateKey.skSeed?.substring(0, 15)}...<br/>
+                          下一个叶子: #{keys.privateKey.nextIndex}
+                        </p>
+                      )}
+                      {algorithm === 'Rabin-Williams' && keys.privateKey && (
+                        <p className="key-snippet">
+                          p ≡ 3 (mod 8): {keys.privateKey.p?.substring(0, 15)}...<br/>
+                          q ≡ 7 (mod 8): {keys.privateKey.q?.substring(0, 15)}...
+                        </p>
+                      )}
+                      {algorithm === 'BLS' && keys.privateKey && (
+                        <p className="key-snippet">
+                          sk: {keys.privateKey.sk?.substring(0, 15)}...
+                        </p>
+                      )}
                     </div>
                   </motion.div>
 
@@ -204,7 +355,7 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                   transition={{ duration: 0.5 }}
                 ></motion.div>
                 <div className="sig-item hash-box">
-                  <h4>SHA-256 哈希</h4>
+                  <h4>{signature?.hash ?? 'SHA-256'} 哈希</h4>
                   {signature && algorithm === 'RSA' && signature.messageHash && (
                     <p className="hash-value">{signature.messageHash.substring(0, 20)}...</p>
                   )}
@@ -232,8 +383,68 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                       )}
                     </>
                   )}
-                  {algorithm !== 'RSA' && (
-                    <p>{algorithm}</p>
+                  {algorithm === 'Ed25519' && (
+                    <>
+                      <p className="formula">S = r + H(R‖A‖M)·s mod L</p>
+                      <div className="padding-info">r = H(prefix‖M)，确定性随机数</div>
+                    </>
+                  )}
+                  {algorithm === 'Schnorr' && (
+                    <>
+                      <p className="formula">s = k + H(R.x‖P.x‖m)·d mod n</p>
+                      <div className="padding-info">BIP-340带标签哈希</div>
+                    </>
+                  )}
+                  {algorithm === 'ElGamal' && (
+                    <>
+                      <p className="formula">r = g^k mod p</p>
+                      <p className="formula">s = k⁻¹(H(m) − x·r) mod (p−1)</p>
+                    </>
+                  )}
+                  {algorithm === 'ML-DSA' && (
+                    <>
+                      <p className="formula">z = y + c·s1</p>
+                      <div className="padding-info">z过大会泄露s1，拒绝后换新的y重试</div>
+                    </>
+                  )}
+                  {algorithm === 'Lamport' && (
+                    <>
+                      <p className="formula">σ_i = sk[i][bit_i(H(m))]</p>
+                      <div className="padding-info">一次性密钥，签名后作废</div>
+                    </>
+                  )}
+                  {algorithm === 'WOTS+' && (
+                    <>
+                      <p className="formula">σ_i = F^(b_i)(sk_i)</p>
+                      <div className="padding-info">一次性密钥，校验和防止往后哈希伪造</div>
+                    </>
+                  )}
+                  {algorithm === 'XMSS' && (
+                    <>
+                      <p className="formula">σ = (i, WOTS+签名, 认证路径)</p>
+                      <div className="padding-info">每次签名使用下一个叶子</div>
+                    </>
+                  )}
+                  {algorithm === 'Rabin-Williams' && (
+                    <>
+                      <p className="formula">s = √(e·f·H(m)) mod n</p>
+                      <div className="padding-info">选择e ∈ {'{'}±1{'}'}、f ∈ {'{'}1, 2{'}'}使e·f·H(m)为二次剩余</div>
+                      {signature?.tweaks && (
+                        <div className="salt-info">
+                          <span>调整因子: </span>
+                          <code>e = {signature.tweaks.e}, f = {signature.tweaks.f}</code>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {algorithm === 'BLS' && (
+                    <>
+                      <p className="formula">σ = sk·H(m) ∈ G2</p>
+                      <div className="padding-info">确定性签名，多个签名可相加聚合</div>
+                    </>
+                  )}
+                  {algorithm !== 'RSA' && algorithm !== 'Ed25519' && algorithm !== 'Schnorr' && algorithm !== 'ElGamal' && algorithm !== 'ML-DSA' && algorithm !== 'Lamport' && algorithm !== 'WOTS+' && algorithm !== 'XMSS' && algorithm !== 'BLS' && algorithm !== 'Rabin-Williams' && (
+                    <p>{algorithm}{signature?.curve ? ` (${signature.curve})` : ''}</p>
                   )}
                 </div>
                 <motion.div
@@ -254,7 +465,7 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                       {algorithm === 'RSA' && (
                         <p>s = {signature.signature.substring(0, 20)}...</p>
                       )}
-                      {algorithm === 'DSA' && (
+                      {(algorithm === 'DSA' || algorithm === 'ElGamal') && (
                         <p>
                           r: {signature.r.substring(0, 10)}...<br />
                           s: {signature.s.substring(0, 10)}...
@@ -263,6 +474,48 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                       {algorithm === 'ECDSA' && (
                         <p>{signature.signature.substring(0, 20)}...</p>
                       )}
+                      {algorithm === 'Schnorr' && (
+                        <p>
+                          R.x: {signature.r.substring(0, 10)}...<br />
+                          s: {signature.s.substring(0, 10)}...
+                        </p>
+                      )}
+                      {algorithm === 'Ed25519' && (
+                        <p>
+                          R: {signature.r.substring(0, 10)}...<br />
+                          S: {signature.s.substring(0, 10)}...
+                        </p>
+                      )}
+                      {algorithm === 'ML-DSA' && (
+                        <p>
+                          (c̃, z, h): {signature.signature.substring(0, 20)}...<br />
+                          {signature.signature.length / 2}字节，尝试{signature.attempts?.length}次
+                        </p>
+                      )}
+                      {(algorithm === 'Lamport' || algorithm === 'WOTS+') && (
+                        <p>
+                          σ: {signature.signature.substring(0, 20)}...<br />
+                          {signature.signature.length / 2}字节
+                        </p>
+                      )}
+                      {algorithm === 'XMSS' && (
+                        <p>
+                          叶子#{signature.leafIndex}，认证路径{signature.authPath?.length}个节点<br />
+                          {signature.signature.length / 2}字节
+                        </p>
+                      )}
+                      {algorithm === 'Rabin-Williams' && (
+                        <p>
+                          s: {signature.signature.substring(0, 20)}...<br />
+                          {signature.signature.length / 2}字节，e = {signature.tweaks?.e}，f = {signature.tweaks?.f}
+                        </p>
+                      )}
+                      {algorithm === 'BLS' && (
+                        <p>
+                          σ: {signature.signature.substring(0, 20)}...<br />
+                          {signature.signature.length / 2}字节
+                        </p>
+                      )}
                     </motion.div>
                   )}
                 </div>
@@ -289,7 +542,7 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                     {attackMode && (
                       <>
                         <p className="hash-value">
-                          <strong>SHA-256:</strong> {attackedMessageHash ? attackedMessageHash.substring(0, 15) : "..."}...
+                          <strong>{signature?.hash ?? 'SHA-256'}:</strong> {attackedMessageHash ? attackedMessageHash.substring(0, 15) : "..."}...
                         </p>
                         {modifiedMessage !== message && (
                         <div className="attacked-message-indicator">
@@ -312,7 +565,7 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                         )}
                       </>
                     )}
-                    {algorithm === 'DSA' && signature && (
+                    {(algorithm === 'DSA' || algorithm === 'ElGamal') && signature && (
                       <p>
                         r: {signature.r.substring(0, 8)}...<br />
                         s: {signature.s.substring(0, 8)}...
@@ -321,6 +574,36 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                     {algorithm === 'ECDSA' && signature && (
                       <p>{signature.signature.substring(0, 15)}...</p>
                     )}
+                    {algorithm === 'Schnorr' && signature && (
+                      <p>
+                        R.x: {signature.r.substring(0, 8)}...<br />
+                        s: {signature.s.substring(0, 8)}...
+                      </p>
+                    )}
+                    {algorithm === 'Ed25519' && signature && (
+                      <p>
+                        R: {signature.r.substring(0, 8)}...<br />
+                        S: {signature.s.substring(0, 8)}...
+                      </p>
+                    )}
+                    {algorithm === 'ML-DSA' && signature && (
+                      <p>(c̃, z, h): {signature.signature.substring(0, 15)}...</p>
+                    )}
+                    {(algorithm === 'Lamport' || algorithm === 'WOTS+') && signature && (
+                      <p>σ: {signature.signature.substring(0, 15)}...</p>
+                    )}
+                    {algorithm === 'XMSS' && signature && (
+                      <p>
+                        叶子: #{signature.leafIndex}<br />
+                        认证路径: {signature.authPath?.[0]?.substring(0, 8)}...
+                      </p>
+                    )}
+                    {algorithm === 'BLS' && signature && (
+                      <p>σ: {signature.signature.substring(0, 15)}...</p>
+                    )}
+                    {algorithm === 'Rabin-Williams' && signature && (
+                      <p>s: {signature.signature.substring(0, 15)}...</p>
+                    )}
                     {attackMode && (
                       <div className="original-signature-indicator">
                         <span>原始消息的签名</span>
@@ -342,8 +625,35 @@ const VisualizationArea: React.FC<VisualizationAreaProps> = ({
                       <div className="padding-info">使用PSS填充</div>
                     </>
                   )}
-                  {algorithm !== 'RSA' && (
-                    <p>{algorithm}</p>
+                  {algorithm === 'Ed25519' && (
+                    <p className="formula">验证: [8][S]B == [8]R + [8][H(R‖A‖M)]A</p>
+                  )}
+                  {algorithm === 'Schnorr' && (
+                    <p className="formula">验证: s·G − e·P == R，且R.y为偶数</p>
+                  )}
+                  {algorithm === 'ElGamal' && (
+                    <p className="formula">验证: g^H(m) ≡ y^r · r^s (mod p)</p>
+                  )}
+                  {algorithm === 'ML-DSA' && (
+                    <p className="formula">验证: c̃ == H(μ ‖ UseHint(h, A·z − c·t1·2^d))，且‖z‖∞ &lt; γ1 − β</p>
+                  )}
+                  {algorithm === 'Lamport' && (
+                    <p className="formula">验证: H(σ_i) == pk[i][bit_i(H(m))]</p>
+                  )}
+                  {algorithm === 'WOTS+' && (
+                    <p className="formula">验证: F^(15 − b_i)(σ_i) == pk_i</p>
+                  )}
+                  {algorithm === 'XMSS' && (
+                    <p className="formula">验证: 由叶子与认证路径逐层哈希得到的树根 == 公钥</p>
+                  )}
+                  {algorithm === 'BLS' && (
+                    <p className="formula">验证: e(PK, H(m)) == e(G1, σ)</p>
+                  )}
+                  {algorithm === 'Rabin-Williams' && (
+                    <p className="formula">验证: s² mod n ∈ {'{'}H(m), −H(m), 2H(m), −2H(m){'}'}</p>
+                  )}
+                  {algorithm !== 'RSA' && algorithm !== 'Ed25519' && algorithm !== 'Schnorr' && algorithm !== 'ElGamal' && algorithm !== 'ML-DSA' && algorithm !== 'Lamport' && algorithm !== 'WOTS+' && algorithm !== 'XMSS' && algorithm !== 'BLS' && algorithm !== 'Rabin-Williams' && (
+                    <p>{algorithm}{signature?.curve ? ` (${signature.curve})` : ''}</p>
                   )}
                 </div>
                 <motion.div
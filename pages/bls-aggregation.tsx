@@ -0,0 +1,666 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import UserRole from '../components/UserRole';
+import Link from 'next/link';
+import { BLS } from '../algorithms/BLS';
+import { KeyPair, SignatureResult } from '../algorithms/types';
+
+// 签名者数量的范围
+const MIN_SIGNERS = 2;
+const MAX_SIGNERS = 100;
+// 每批处理的签名者数，批与批之间让出主线程以刷新进度
+const BATCH_SIZE = 5;
+
+const bls = new BLS();
+
+// 一个签名者：密钥对、签署的消息与签名
+interface Signer {
+  keys: KeyPair;
+  message: string;
+  signature: SignatureResult;
+}
+
+/**
+ * 让出主线程，使进度能够渲染出来
+ */
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export default function BlsAggregationPage() {
+  // 签名者数量
+  const [signerCount, setSignerCount] = useState(MAX_SIGNERS);
+  // 已生成的签名者
+  const [signers, setSigners] = useState<Signer[]>([]);
+  // 生成进度（已完成的签名者数）
+  const [progress, setProgress] = useState(0);
+  // 聚合签名与聚合耗时
+  const [aggregated, setAggregated] = useState<string | null>(null);
+  const [aggregationTime, setAggregationTime] = useState<number | null>(null);
+  // 被篡改消息的签名者下标
+  const [tamperedIndex, setTamperedIndex] = useState<number | null>(null);
+  // 验证结果与验证耗时
+  const [verified, setVerified] = useState<boolean | null>(null);
+  const [verificationTime, setVerificationTime] = useState<number | null>(null);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * 生成签名者：每人生成密钥对并签署一条不同的消息
+   */
+  const generateSignatures = async () => {
+    try {
+      setIsLoading(true);
+      resetAggregation();
+      setSigners([]);
+      setProgress(0);
+      setStatusMessage(`正在生成${signerCount}个签名者的密钥与签名...`);
+
+      const result: Signer[] = [];
+      for (let i = 0; i < signerCount; i++) {
+        const keys = await bls.generateKeys();
+        const message = `第${i + 1}号验证者为区块#1024投票`;
+        result.push({ keys, message, signature: await bls.sign(message, keys) });
+
+        if ((i + 1) % BATCH_SIZE === 0) {
+          setProgress(i + 1);
+          await nextFrame();
+        }
+      }
+
+      setSigners(result);
+      setProgress(signerCount);
+      setAnimation('signed');
+      setStatusMessage(`${signerCount}个签名共 ${signerCount * 96} 字节`);
+    } catch (error) {
+      console.error('签名错误:', error);
+      setStatusMessage(error instanceof Error ? error.message : '签名失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 聚合签名：所有G2点相加
+   */
+  const aggregateSignatures = () => {
+    if (signers.length === 0) return;
+
+    try {
+      const startTime = performance.now();
+      const signature = bls.aggregate(signers.map(signer => signer.signature));
+      setAggregationTime(performance.now() - startTime);
+      setAggregated(signature);
+      setVerified(null);
+      setVerificationTime(null);
+
+      setAnimation('aggregated');
+      setStatusMessage(`${signers.length}个签名聚合为一个96字节的签名`);
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? error.message : '聚合失败');
+    }
+  };
+
+  /**
+   * 篡改或恢复一个签名者的消息
+   */
+  const toggleTamper = () => {
+    if (signers.length === 0) return;
+
+    const index = tamperedIndex === null ? Math.floor(Math.random() * signers.length) : null;
+    setTamperedIndex(index);
+    setVerified(null);
+    setVerificationTime(null);
+
+    setAnimation(index === null ? 'signed' : 'invalid');
+    setStatusMessage(index === null
+      ? '已恢复所有原始消息'
+      : `第${index + 1}号签名者的消息被篡改，聚合签名中看不出是哪一个`);
+  };
+
+  /**
+   * 用全部公钥与消息验证聚合签名
+   */
+  const verifyAggregated = async () => {
+    if (!aggregated) return;
+
+    try {
+      setIsLoading(true);
+      setStatusMessage(`正在计算${signers.length + 1}个配对的乘积...`);
+      await nextFrame();
+
+      const messages = signers.map((signer, i) => i === tamperedIndex ? `${signer.message}（已篡改）` : signer.message);
+      const startTime = performance.now();
+      const valid = await bls.verifyAggregate(messages, aggregated, signers.map(signer => signer.keys));
+      setVerificationTime(performance.now() - startTime);
+      setVerified(valid);
+
+      setAnimation(valid ? 'verified' : 'invalid');
+      setStatusMessage(valid
+        ? `一次验证确认了全部${signers.length}个签名`
+        : '聚合签名验证失败：至少有一条消息与签名不符');
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? error.message : '验证失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 清空聚合与验证结果
+   */
+  const resetAggregation = () => {
+    setAggregated(null);
+    setAggregationTime(null);
+    setTamperedIndex(null);
+    setVerified(null);
+    setVerificationTime(null);
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setSigners([]);
+    setProgress(0);
+    resetAggregation();
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        BLS签名聚合可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content bls-page">
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>
+            BLS签名建立在BLS12-381曲线的双线性配对 e: G1 × G2 → GT 上：公钥 PK = sk·G1，签名 σ = sk·H(m)，
+            验证 e(PK, H(m)) = e(G1, σ)。签名是G2上的点，任意多个签名直接相加仍是一个96字节的点；
+            验证者用 Π e(PKᵢ, H(mᵢ)) = e(G1, Σσᵢ) 一次检查全部签名。
+          </p>
+        </motion.div>
+
+        <div className="bls-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            <div className="control-group">
+              <h3>步骤 1: 各签名者独立签名</h3>
+              <div className="parameter-inputs">
+                <label>
+                  签名者数量
+                  <input
+                    type="number"
+                    min={MIN_SIGNERS}
+                    max={MAX_SIGNERS}
+                    value={signerCount}
+                    onChange={(e) => {
+                      setSignerCount(Math.min(MAX_SIGNERS, Math.max(MIN_SIGNERS, Math.floor(Number(e.target.value) || MIN_SIGNERS))));
+                      resetAll();
+                    }}
+                    disabled={isLoading}
+                  />
+                </label>
+              </div>
+              <button
+                className="action-button"
+                onClick={generateSignatures}
+                disabled={isLoading}
+              >
+                {isLoading && signers.length === 0 ? `签名中 ${progress}/${signerCount}` : '生成密钥并签名'}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 聚合签名</h3>
+              <button
+                className="action-button"
+                onClick={aggregateSignatures}
+                disabled={signers.length === 0 || isLoading}
+              >
+                聚合{signers.length || signerCount}个签名
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 验证聚合签名</h3>
+              <div className="button-row">
+                <button
+                  className="action-button"
+                  onClick={verifyAggregated}
+                  disabled={!aggregated || isLoading}
+                >
+                  {isLoading && aggregated ? '验证中...' : '验证聚合签名'}
+                </button>
+                <button
+                  className="action-button tamper"
+                  onClick={toggleTamper}
+                  disabled={signers.length === 0 || isLoading}
+                >
+                  {tamperedIndex === null ? '篡改一条消息' : '恢复原始消息'}
+                </button>
+              </div>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-bls">
+            <h2>可视化区域</h2>
+
+            {/* 签名者与验证者 */}
+            <div className="user-roles">
+              <UserRole type="sender" position="left" label={`${signerCount}个签名者`} />
+              <UserRole type="receiver" position="right" label="验证者" />
+            </div>
+
+            {/* 生成进度 */}
+            {isLoading && signers.length === 0 && (
+              <div className="progress-bar">
+                <div className="progress-fill" style={{ width: `${(progress / signerCount) * 100}%` }} />
+              </div>
+            )}
+
+            {/* 每个签名是一个方块，聚合后收缩为一个 */}
+            {signers.length > 0 && (
+              <div className="signature-grid">
+                {signers.map((signer, i) => (
+                  <motion.div
+                    key={i}
+                    className={`signature-tile ${i === tamperedIndex ? 'tampered' : ''}`}
+                    title={`${signer.message}\nσ = ${truncateString(signer.signature.signature, 32)}`}
+                    initial={{ opacity: 0, scale: 0 }}
+                    animate={aggregated
+                      ? { opacity: 0.15, scale: 0.4 }
+                      : { opacity: 1, scale: 1 }}
+                    transition={{ duration: 0.4, delay: aggregated ? (i % 10) * 0.03 : Math.min(i, 50) * 0.01 }}
+                  />
+                ))}
+              </div>
+            )}
+
+            {signers.length > 0 && (
+              <div className="size-summary">
+                <div className="size-item">
+                  <span className="size-label">{signers.length}个签名</span>
+                  <span className="size-value">{signers.length * 96} 字节</span>
+                </div>
+                <div className="size-arrow">→</div>
+                <div className={`size-item ${aggregated ? 'active' : ''}`}>
+                  <span className="size-label">聚合签名</span>
+                  <span className="size-value">96 字节</span>
+                </div>
+              </div>
+            )}
+
+            {/* 聚合签名 */}
+            <AnimatePresence>
+              {aggregated && (
+                <motion.div
+                  className="aggregate-box"
+                  initial={{ opacity: 0, scale: 0.6 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5, delay: 0.4 }}
+                >
+                  <h3>σ = Σ σᵢ（{aggregated.length / 2}字节，聚合耗时 {aggregationTime?.toFixed(2)} ms）</h3>
+                  <code>{aggregated}</code>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* 验证结果 */}
+            <AnimatePresence>
+              {verified !== null && (
+                <motion.div
+                  className={`result ${verified ? 'passed' : 'failed'}`}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  <h3>{verified ? '✓ 聚合签名有效' : '✗ 聚合签名无效'}</h3>
+                  <div className="formula">Π e(PKᵢ, H(mᵢ)) · e(−G1, σ) = 1</div>
+                  <p>
+                    {signers.length + 1}次Miller循环 + 1次最终幂，耗时 {verificationTime?.toFixed(0)} ms；
+                    逐个验证则需要{signers.length * 2}次Miller循环与{signers.length}次最终幂。
+                  </p>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {signers.length > 0 && (
+              <p className="comparison-note">
+                聚合验证要求各签名者的消息互不相同，否则攻击者可以构造恶意公钥伪造聚合签名。
+                哈希到G2采用RFC 9380的SSWU套件与标准域分隔标签 BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_，签名可与其他BLS库互通。
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .bls-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .bls-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-bls {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        .action-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .action-button.tamper {
+          background: #e67e22;
+        }
+
+        .action-button.tamper:hover:not(:disabled) {
+          background: #d35400;
+        }
+
+        .action-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .button-row {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.8rem;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .parameter-inputs {
+          display: flex;
+          gap: 1rem;
+          margin-bottom: 1rem;
+        }
+
+        .parameter-inputs label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #555;
+          font-size: 0.9rem;
+        }
+
+        .parameter-inputs input {
+          width: 5rem;
+          padding: 0.4rem;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.signed,
+        .status-message.aggregated {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.verified {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .status-message.invalid {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+
+        .progress-bar {
+          height: 8px;
+          margin: 1.5rem 0;
+          background: #eee;
+          border-radius: 4px;
+          overflow: hidden;
+        }
+
+        .progress-fill {
+          height: 100%;
+          background: #4a90e2;
+          transition: width 0.2s;
+        }
+
+        .signature-grid {
+          display: grid;
+          grid-template-columns: repeat(20, 1fr);
+          gap: 4px;
+          margin-top: 1.5rem;
+        }
+
+        .signature-grid .signature-tile {
+          aspect-ratio: 1;
+          background: #9c27b0;
+          border-radius: 3px;
+        }
+
+        .signature-grid .signature-tile.tampered {
+          background: #e67e22;
+        }
+
+        .size-summary {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 1.5rem;
+          margin-top: 1.5rem;
+        }
+
+        .size-item {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          padding: 0.6rem 1rem;
+          background: #f5f5f5;
+          border-radius: 8px;
+        }
+
+        .size-item.active {
+          background: #f3e5f5;
+          border: 2px solid #9c27b0;
+        }
+
+        .size-label {
+          font-size: 0.85rem;
+          color: #666;
+        }
+
+        .size-value {
+          font-size: 1.2rem;
+          font-weight: 600;
+          color: #333;
+        }
+
+        .size-arrow {
+          font-size: 1.5rem;
+          color: #999;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+          margin-bottom: 0.4rem;
+        }
+
+        code {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #555;
+          word-break: break-all;
+        }
+
+        .aggregate-box {
+          margin-top: 1.5rem;
+          padding: 1rem;
+          background: #f3e5f5;
+          border-left: 4px solid #9c27b0;
+          border-radius: 8px;
+        }
+
+        .result {
+          margin-top: 1.5rem;
+          padding: 1rem;
+          border-radius: 8px;
+        }
+
+        .result.passed {
+          background: #e8f5e9;
+          border-left: 4px solid #4caf50;
+        }
+
+        .result.failed {
+          background: #ffebee;
+          border-left: 4px solid #e57373;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .bls-container {
+            flex-direction: column;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,17 +1,28 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import AlgorithmSelector from '../components/AlgorithmSelector';
+import KeySizeSelector from '../components/KeySizeSelector';
 import StepActions from '../components/StepActions';
 import VisualizationArea from '../components/VisualizationArea';
+import SchnorrComparison from '../components/SchnorrComparison';
+import PublicKeyRecovery from '../components/PublicKeyRecovery';
+import ElGamalDsaComparison from '../components/ElGamalDsaComparison';
+import RejectionSamplingChart from '../components/RejectionSamplingChart';
+import HashSignatureView from '../components/HashSignatureView';
 import UserRole from '../components/UserRole';
 import SuccessConfetti from '../components/SuccessConfetti';
 import ParticleBackground from '../components/ParticleBackground';
 import Link from 'next/link';
+import { digestHex, HashAlgorithm } from '../algorithms/hash';
+import { KeyGenerationOptions } from '../algorithms';
+import { MLDSASignature } from '../algorithms/MLDSASignature';
 
 
 export default function DigitalSignaturePage() {
   // 选择的算法状态
   const [algorithm, setAlgorithm] = useState('RSA');
+  // 密钥生成选项（密钥长度或域参数），空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
   // 当前步骤状态
   const [currentStep, setCurrentStep] = useState(0);
   // 消息状态
@@ -72,10 +83,12 @@ export default function DigitalSignaturePage() {
     if (signature) {
       if (algorithm === 'RSA' && signature.signature) {
         return signature.signature.substring(0, 8) + '...';
-      } else if (algorithm === 'DSA') {
+      } else if (algorithm === 'DSA' || algorithm === 'ElGamal') {
         return `r: ${signature.r?.substring(0, 8)}..., s: ${signature.s?.substring(0, 8)}...`;
-      } else if (algorithm === 'ECDSA' && signature.signature) {
+      } else if ((algorithm === 'ECDSA' || algorithm === 'Ed25519' || algorithm === 'Schnorr' || algorithm === 'ML-DSA' || algorithm === 'Lamport' || algorithm === 'WOTS+' || algorithm === 'BLS' || algorithm === 'Rabin-Williams') && signature.signature) {
         return signature.signature.substring(0, 8) + '...';
+      } else if (algorithm === 'XMSS' && signature.signature) {
+        return `#${signature.leafIndex}: ${signature.signature.substring(8, 16)}...`;
       }
     }
     return null;
@@ -100,36 +113,14 @@ export default function DigitalSignaturePage() {
     setVerificationResult(null);
     
     // 为修改后的消息生成哈希值
-    try {
-      const encoder = new TextEncoder();
-      const data = encoder.encode(modifiedMessage);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      
-      setModifiedHash(hashHex);
-      setShowAttackInput(false);
-      // 使用'attack-completed'作为动画名称，而非与验证相关的名称
-      setAnimation('attack-completed');
-    } catch (err) {
-      console.error('Error generating hash:', err);
-      // WebCrypto API失败时的简单哈希备用方案
-      const hashHex = simpleHash(modifiedMessage);
-      setModifiedHash(hashHex);
-      setShowAttackInput(false);
-      setAnimation('attack-completed');
-    }
-  };
-
-  // 简单哈希函数（备用方案）
-  const simpleHash = (text: string) => {
-    let hash = 0;
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16).padStart(8, '0').repeat(8).substring(0, 64);
+    // ECDSA的哈希函数随曲线而定（P-384使用SHA-384，P-521使用SHA-512）；ML-DSA签名的是由公钥与消息共同决定的μ
+    const hashHex = algorithm === 'ML-DSA'
+      ? new MLDSASignature().messageRepresentative(modifiedMessage, keys)
+      : digestHex((signature?.hash ?? 'SHA-256') as HashAlgorithm, modifiedMessage);
+    setModifiedHash(hashHex);
+    setShowAttackInput(false);
+    // 使用'attack-completed'作为动画名称，而非与验证相关的名称
+    setAnimation('attack-completed');
   };
 
   return (
@@ -152,7 +143,17 @@ export default function DigitalSignaturePage() {
       {/* 算法选择器组件 */}
       <AlgorithmSelector 
         selectedAlgorithm={algorithm} 
-        onSelectAlgorithm={setAlgorithm} 
+        onSelectAlgorithm={(selected) => {
+          setAlgorithm(selected);
+          setKeyOptions({});
+        }} 
+      />
+      
+      {/* 密钥长度选择器组件 */}
+      <KeySizeSelector
+        algorithm={algorithm}
+        value={keyOptions}
+        onChange={setKeyOptions}
       />
       
       <div className="main-content">
@@ -167,6 +168,7 @@ export default function DigitalSignaturePage() {
             setMessage={setMessage}
             setKeys={setKeys}
             keys={keys}
+            keyOptions={keyOptions}
             setSignature={setSignature}
             signature={signature}
             setVerificationResult={setVerificationResult}
@@ -188,6 +190,37 @@ export default function DigitalSignaturePage() {
             modifiedMessage={modifiedMessage}
             attackedMessageHash={modifiedHash || undefined}
           />
+          
+          {/* Schnorr与ECDSA对比 */}
+          {algorithm === 'Schnorr' && currentStep >= 2 && (
+            <SchnorrComparison message={message} keys={keys} signature={signature} />
+          )}
+          
+          {/* ECDSA由签名恢复公钥 */}
+          {algorithm === 'ECDSA' && currentStep >= 2 && (
+            <PublicKeyRecovery
+              message={message}
+              keys={keys}
+              signature={signature}
+              attackMode={attackMode}
+              modifiedMessage={modifiedMessage}
+            />
+          )}
+          
+          {/* ElGamal签名与DSA对比 */}
+          {algorithm === 'ElGamal' && currentStep >= 2 && (
+            <ElGamalDsaComparison keys={keys} signature={signature} />
+          )}
+          
+          {/* ML-DSA拒绝采样过程 */}
+          {algorithm === 'ML-DSA' && currentStep >= 2 && (
+            <RejectionSamplingChart keys={keys} signature={signature} />
+          )}
+          
+          {/* 基于哈希的签名：公开的原像、哈希链与认证路径 */}
+          {(algorithm === 'Lamport' || algorithm === 'WOTS+' || algorithm === 'XMSS') && currentStep >= 2 && (
+            <HashSignatureView algorithm={algorithm} keys={keys} signature={signature} />
+          )}
         </div>
         
         <div className="user-roles">
@@ -0,0 +1,789 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import KeySizeSelector from '../components/KeySizeSelector';
+import Link from 'next/link';
+import { KeyPair, KeyGenerationOptions, BlindingResult, RsaBlindVariant } from '../algorithms';
+import { RSA } from '../algorithms/RSA';
+
+// 每枚硬币的面额与顾客账户的初始余额
+const COIN_VALUE = 10;
+const INITIAL_BALANCE = 50;
+
+// 顾客钱包中的一枚硬币
+interface Coin {
+  serial: string;                 // 顾客随机选取的序列号（十六进制）
+  blinding: BlindingResult;       // 盲化结果，inv与消息前缀只保存在顾客手中
+  blindSignature: string | null;  // 银行返回的盲签名
+  signature: string | null;       // 去盲后的签名
+}
+
+// 顾客支付时交给商家的内容：不含盲化因子的逆元，商家与银行无法把硬币关联到取款
+interface Payment {
+  serial: string;
+  signature: string;
+  messagePrefix: string;          // 随机化变体的消息前缀，验证签名需要
+  variant: RsaBlindVariant;
+}
+
+// 商家向银行存入硬币的记录
+interface Deposit {
+  serial: string;
+  result: 'accepted' | 'double-spent' | 'invalid';
+}
+
+const rsa = new RSA();
+
+// 硬币的内容：面额与序列号，银行签名后即代表该面额的货币
+const coinMessage = (serial: string) => `e-cash:${COIN_VALUE}:${serial}`;
+
+// 生成指定字节数的随机十六进制串，用作硬币序列号
+const randomHex = (length: number) => {
+  const bytes = new Uint8Array(length);
+  window.crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export default function ECashPage() {
+  // 密钥生成选项（模数位长），空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
+  // 银行的签名密钥：公钥公开给所有商家，用于验证硬币
+  const [keys, setKeys] = useState<KeyPair | null>(null);
+  // 顾客的账户余额，每次盲签名扣除一枚硬币的面额
+  const [balance, setBalance] = useState(INITIAL_BALANCE);
+  // 顾客手中的硬币（包括尚未完成签名的那一枚）
+  const [coins, setCoins] = useState<Coin[]>([]);
+  // 银行签过的盲化消息，用来说明银行无法把它们与存入的硬币对应起来
+  const [bankLog, setBankLog] = useState<string[]>([]);
+  // 银行记录的已存入硬币序列号
+  const [spentSerials, setSpentSerials] = useState<string[]>([]);
+  // 商家存入硬币的结果
+  const [deposits, setDeposits] = useState<Deposit[]>([]);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  const pendingCoin = coins.find(coin => coin.signature === null) ?? null;
+
+  /**
+   * 生成银行的RSA签名密钥
+   */
+  const generateKeys = async () => {
+    try {
+      setIsLoading(true);
+      setStatusMessage('正在生成银行的RSA密钥...');
+
+      setKeys(await rsa.generateKeys(keyOptions));
+      resetLedger();
+
+      setAnimation('keys-generated');
+      setStatusMessage('银行公布了公钥(n, e)，商家用它验证硬币上的签名');
+    } catch (error) {
+      console.error('密钥生成错误:', error);
+      setStatusMessage('密钥生成失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 顾客选取随机序列号并盲化硬币
+   */
+  const blindCoin = () => {
+    if (!keys || pendingCoin) return;
+
+    try {
+      const serial = randomHex(16);
+      const blinding = rsa.blind(coinMessage(serial), keys.publicKey);
+      setCoins([...coins, { serial, blinding, blindSignature: null, signature: null }]);
+
+      setAnimation('coin-blinded');
+      setStatusMessage('顾客用随机因子r盲化了硬币：z = m·r^e mod n，银行只能看到z');
+    } catch (error) {
+      console.error('盲化错误:', error);
+      setStatusMessage('盲化失败，请重试');
+    }
+  };
+
+  /**
+   * 银行从顾客账户扣款，并对盲化消息签名
+   */
+  const signBlindedCoin = () => {
+    if (!keys || !pendingCoin || pendingCoin.blindSignature) return;
+
+    if (balance < COIN_VALUE) {
+      setAnimation('rejected');
+      setStatusMessage('账户余额不足，银行拒绝签名');
+      return;
+    }
+
+    try {
+      const blindSignature = rsa.blindSign(pendingCoin.blinding.blindedMessage, keys);
+      setCoins(coins.map(coin => (coin === pendingCoin ? { ...coin, blindSignature } : coin)));
+      setBankLog([...bankLog, pendingCoin.blinding.blindedMessage]);
+      setBalance(balance - COIN_VALUE);
+
+      setAnimation('coin-signed');
+      setStatusMessage(`银行扣除${COIN_VALUE}元并返回盲签名 z^d mod n，但不知道硬币的序列号`);
+    } catch (error) {
+      console.error('盲签名错误:', error);
+      setStatusMessage('盲签名失败，请重试');
+    }
+  };
+
+  /**
+   * 顾客去盲，得到银行对硬币的普通RSA-PSS签名
+   */
+  const unblindCoin = () => {
+    if (!keys || !pendingCoin?.blindSignature) return;
+
+    try {
+      const signature = rsa.finalize(coinMessage(pendingCoin.serial), pendingCoin.blindSignature, pendingCoin.blinding, keys.publicKey);
+      setCoins(coins.map(coin => (coin === pendingCoin ? { ...coin, signature } : coin)));
+
+      setAnimation('coin-unblinded');
+      setStatusMessage('顾客乘以r⁻¹去盲，得到银行对硬币的有效签名，硬币进入钱包');
+    } catch (error) {
+      console.error('去盲错误:', error);
+      setStatusMessage('去盲失败，请重试');
+    }
+  };
+
+  /**
+   * 顾客从钱包中取出硬币付款，只交出序列号、签名、消息前缀与变体
+   */
+  const payWithCoin = (coin: Coin) => {
+    if (!coin.signature) return;
+
+    spendCoin({
+      serial: coin.serial,
+      signature: coin.signature,
+      messagePrefix: coin.blinding.messagePrefix,
+      variant: coin.blinding.variant
+    });
+  };
+
+  /**
+   * 商家收到付款：用银行公钥验证签名，再存入银行，银行检查序列号是否已被使用
+   */
+  const spendCoin = (coin: Payment) => {
+    if (!keys) return;
+
+    const valid = rsa.verifyBlind(coinMessage(coin.serial), coin.signature, coin.messagePrefix, keys.publicKey, coin.variant);
+    if (!valid) {
+      setDeposits([...deposits, { serial: coin.serial, result: 'invalid' }]);
+      setAnimation('rejected');
+      setStatusMessage('签名无效，商家拒收这枚硬币');
+      return;
+    }
+
+    if (spentSerials.includes(coin.serial)) {
+      setDeposits([...deposits, { serial: coin.serial, result: 'double-spent' }]);
+      setAnimation('rejected');
+      setStatusMessage('签名有效，但该序列号已经存入过银行：检测到双重支付，银行拒绝入账');
+      return;
+    }
+
+    setSpentSerials([...spentSerials, coin.serial]);
+    setDeposits([...deposits, { serial: coin.serial, result: 'accepted' }]);
+    setAnimation('coin-spent');
+    setStatusMessage('商家验证签名后存入银行，银行记录该序列号并入账');
+  };
+
+  /**
+   * 伪造一枚硬币：随机序列号配上随机的“签名”
+   */
+  const spendForgedCoin = () => {
+    if (!keys) return;
+
+    // 签名首字节取0，保证小于模数
+    const modulusLength = Math.ceil(BigInt(keys.publicKey.n).toString(2).length / 8);
+    spendCoin({
+      serial: randomHex(16),
+      signature: '00' + randomHex(modulusLength - 1),
+      messagePrefix: randomHex(32),
+      variant: 'RSABSSA-SHA384-PSS-Randomized'
+    });
+  };
+
+  /**
+   * 清空账户、钱包与银行记录
+   */
+  const resetLedger = () => {
+    setBalance(INITIAL_BALANCE);
+    setCoins([]);
+    setBankLog([]);
+    setSpentSerials([]);
+    setDeposits([]);
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setKeys(null);
+    resetLedger();
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        盲签名电子现金可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content ecash-page">
+        {/* 模数位长选择器 */}
+        <KeySizeSelector
+          algorithm="RSA"
+          value={keyOptions}
+          onChange={(options) => {
+            setKeyOptions(options);
+            resetAll();
+          }}
+        />
+
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>
+            RSA盲签名由David Chaum在1982年提出：请求者先用随机因子r把消息“盲化”，签名者对看不懂的盲化消息签名，
+            请求者再除去r，得到对原消息的有效签名。本页按RFC 9474 (RSABSSA-SHA384-PSS-Randomized) 模拟银行发行电子硬币：
+            银行能确认每枚硬币由自己签发，却无法把存入的硬币与当初的取款对应起来。
+          </p>
+        </motion.div>
+
+        <div className="ecash-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            <div className="control-group">
+              <h3>步骤 1: 生成银行密钥</h3>
+              <button
+                className="action-button"
+                onClick={generateKeys}
+                disabled={isLoading}
+              >
+                {isLoading ? '生成中...' : '生成RSA密钥'}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 顾客盲化硬币</h3>
+              <button
+                className="action-button"
+                onClick={blindCoin}
+                disabled={!keys || !!pendingCoin || isLoading}
+              >
+                盲化新硬币
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 银行盲签名</h3>
+              <button
+                className="action-button"
+                onClick={signBlindedCoin}
+                disabled={!pendingCoin || !!pendingCoin.blindSignature || isLoading}
+              >
+                扣款并签名
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 4: 顾客去盲</h3>
+              <button
+                className="action-button"
+                onClick={unblindCoin}
+                disabled={!pendingCoin?.blindSignature || isLoading}
+              >
+                去盲得到硬币
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 5: 在商家消费</h3>
+              <p className="hint">在钱包中点击“支付”；已花掉的硬币可以再次支付，观察银行如何发现双重支付。</p>
+              <button
+                className="secondary-button"
+                onClick={spendForgedCoin}
+                disabled={!keys || isLoading}
+              >
+                支付一枚伪造硬币
+              </button>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-ecash">
+            <h2>可视化区域</h2>
+
+            {keys && (
+              <div className="bank-key">
+                <strong>银行公钥</strong> n = {truncateString(keys.publicKey.n, 40)}（{keys.keySize}位），e = {keys.publicKey.e}
+              </div>
+            )}
+
+            <div className="parties">
+              {/* 顾客 */}
+              <div className="party customer">
+                <h3>顾客</h3>
+                <div className="balance">账户余额：{balance}元</div>
+
+                <AnimatePresence>
+                  {pendingCoin && (
+                    <motion.div
+                      className="pending-coin"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0 }}
+                      transition={{ duration: 0.4 }}
+                    >
+                      <div className="formula">m = EMSA-PSS(prefix ‖ "{coinMessage(truncateString(pendingCoin.serial, 12))}")</div>
+                      <code>{truncateString(pendingCoin.blinding.encodedMessage, 40)}</code>
+                      <div className="formula">z = m·r^e mod n</div>
+                      <code>{truncateString(pendingCoin.blinding.blindedMessage, 40)}</code>
+                      {pendingCoin.blindSignature && (
+                        <>
+                          <div className="formula">z^d = m^d·r mod n</div>
+                          <code>{truncateString(pendingCoin.blindSignature, 40)}</code>
+                        </>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+
+                <h4>钱包</h4>
+                {coins.filter(coin => coin.signature).length === 0 && <p className="hint">暂无硬币</p>}
+                <div className="wallet">
+                  {coins.filter(coin => coin.signature).map(coin => (
+                    <motion.div
+                      key={coin.serial}
+                      className={`coin ${spentSerials.includes(coin.serial) ? 'spent' : ''}`}
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ duration: 0.4 }}
+                    >
+                      <div className="coin-value">{COIN_VALUE}元</div>
+                      <div className="coin-serial">#{truncateString(coin.serial, 12)}</div>
+                      <code>s = {truncateString(coin.signature as string, 16)}</code>
+                      <button className="spend-button" onClick={() => payWithCoin(coin)} disabled={isLoading}>
+                        {spentSerials.includes(coin.serial) ? '再次支付' : '支付'}
+                      </button>
+                    </motion.div>
+                  ))}
+                </div>
+              </div>
+
+              {/* 银行 */}
+              <div className="party bank">
+                <h3>银行</h3>
+                <h4>签过的盲化消息</h4>
+                {bankLog.length === 0 && <p className="hint">暂无记录</p>}
+                <ul className="ledger">
+                  {bankLog.map((blinded, index) => (
+                    <li key={index}><code>z{index + 1} = {truncateString(blinded, 20)}</code></li>
+                  ))}
+                </ul>
+                <h4>已存入的序列号</h4>
+                {spentSerials.length === 0 && <p className="hint">暂无记录</p>}
+                <ul className="ledger">
+                  {spentSerials.map(serial => (
+                    <li key={serial}><code>#{truncateString(serial, 12)}</code></li>
+                  ))}
+                </ul>
+                {bankLog.length > 0 && spentSerials.length > 0 && (
+                  <p className="simulation-note">
+                    两列记录之间没有任何可比对的值：z中含有只有顾客知道的随机因子r，银行无法得知哪次取款对应哪枚存入的硬币。
+                  </p>
+                )}
+              </div>
+
+              {/* 商家 */}
+              <div className="party merchant">
+                <h3>商家</h3>
+                {deposits.length === 0 && <p className="hint">暂无收款</p>}
+                <ul className="ledger">
+                  {deposits.map((deposit, index) => (
+                    <motion.li
+                      key={index}
+                      className={`deposit ${deposit.result}`}
+                      initial={{ opacity: 0, x: 10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <code>#{truncateString(deposit.serial, 12)}</code>
+                      <span>
+                        {deposit.result === 'accepted' && '✓ 入账'}
+                        {deposit.result === 'double-spent' && '✗ 双重支付'}
+                        {deposit.result === 'invalid' && '✗ 签名无效'}
+                      </span>
+                    </motion.li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+
+            <p className="simulation-note">
+              这里银行在线检查序列号，只能在存入时拒绝重复的硬币；Chaum、Fiat与Naor提出的离线电子现金把顾客身份秘密分享进硬币，
+              只有重复花费同一枚硬币时身份才会暴露。
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .ecash-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .ecash-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-ecash {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        h4 {
+          margin: 1rem 0 0.5rem;
+          color: #666;
+          font-size: 0.95rem;
+        }
+
+        .action-button,
+        .secondary-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .secondary-button {
+          background: #ff9800;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .secondary-button:hover:not(:disabled) {
+          background: #f57c00;
+        }
+
+        .action-button:disabled,
+        .secondary-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .hint {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0 0 0.8rem;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.keys-generated,
+        .status-message.coin-blinded,
+        .status-message.coin-signed,
+        .status-message.coin-unblinded {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.coin-spent {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .status-message.rejected {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+
+        .bank-key {
+          margin-bottom: 1.5rem;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border-radius: 8px;
+          font-family: monospace;
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .parties {
+          display: flex;
+          gap: 1rem;
+        }
+
+        .party {
+          flex: 1;
+          min-width: 0;
+          padding: 1rem;
+          border-radius: 8px;
+          background: #f9f9f9;
+        }
+
+        .party.customer {
+          border-top: 4px solid #4a90e2;
+        }
+
+        .party.bank {
+          border-top: 4px solid #9c27b0;
+        }
+
+        .party.merchant {
+          border-top: 4px solid #4caf50;
+        }
+
+        .balance {
+          font-weight: 600;
+          color: #333;
+        }
+
+        .pending-coin {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          background: #e3f2fd;
+          border-radius: 6px;
+        }
+
+        .wallet {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+        }
+
+        .coin {
+          width: 120px;
+          padding: 0.6rem;
+          border-radius: 8px;
+          background: #fff8e1;
+          border: 2px solid #ffc107;
+          text-align: center;
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+        }
+
+        .coin.spent {
+          background: #eeeeee;
+          border-color: #bdbdbd;
+        }
+
+        .coin-value {
+          font-weight: 700;
+          color: #f57f17;
+        }
+
+        .coin.spent .coin-value {
+          color: #9e9e9e;
+        }
+
+        .coin-serial {
+          font-family: monospace;
+          font-size: 0.75rem;
+          color: #555;
+        }
+
+        .spend-button {
+          padding: 0.3rem 0.6rem;
+          border: none;
+          border-radius: 12px;
+          background: #4caf50;
+          color: white;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .coin.spent .spend-button {
+          background: #e57373;
+        }
+
+        .ledger {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+        }
+
+        .ledger li {
+          padding: 0.3rem 0;
+          border-bottom: 1px dashed #e0e0e0;
+        }
+
+        .deposit {
+          display: flex;
+          justify-content: space-between;
+          gap: 0.5rem;
+          font-size: 0.85rem;
+        }
+
+        .deposit.accepted span {
+          color: #2e7d32;
+          font-weight: 600;
+        }
+
+        .deposit.double-spent span,
+        .deposit.invalid span {
+          color: #c62828;
+          font-weight: 600;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+          margin: 0.4rem 0 0.2rem;
+        }
+
+        code {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #555;
+          word-break: break-all;
+        }
+
+        .simulation-note {
+          margin-top: 0.8rem;
+          color: #555;
+          font-size: 0.8rem;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .ecash-container,
+          .parties {
+            flex-direction: column;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { EncryptionAlgorithmFactory } from '../algorithms/encryption-factory';
+import { RSAEncryption } from '../algorithms/RSAEncryption';
+import { ECCEncryption } from '../algorithms/ECCEncryption';
+import { CURVES, CURVE_NAMES } from '../algorithms';
 import { Bar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -12,6 +15,7 @@ import {
 } from 'chart.js';
 import ParticleBackground from '../components/ParticleBackground';
 import { KeyPair, EncryptionResult } from '../algorithms/encryption-factory';
+import { KeyGenerationOptions } from '../algorithms';
 import Link from 'next/link';
 
 ChartJS.register(
@@ -38,12 +42,28 @@ const options = {
 };
 
 // 定义算法类型
-type AlgorithmType = 'RSA' | 'ElGamal' | 'ECC';
+type AlgorithmType = 'RSA' | 'ElGamal' | 'ECC' | 'ML-KEM';
 type AlgorithmResults = Record<AlgorithmType, number[]>;
 type AlgorithmAverages = Record<AlgorithmType, number>;
 type AlgorithmKeys = Record<AlgorithmType, KeyPair>;
 type AlgorithmEncryptionResults = Record<AlgorithmType, EncryptionResult>;
 
+// RSA私钥运算方式：直接模幂、两素数CRT、多素数CRT
+const CRT_VARIANTS = [
+  { label: '标准 (c^d mod n)', primes: 2, useCRT: false },
+  { label: 'CRT (2素数)', primes: 2, useCRT: true },
+  { label: 'CRT (3素数)', primes: 3, useCRT: true },
+  { label: 'CRT (4素数)', primes: 4, useCRT: true },
+];
+
+// 后量子与传统算法的对比配置
+const PQ_CONFIGS: { label: string; algorithm: string; options: KeyGenerationOptions }[] = [
+  { label: 'RSA-2048', algorithm: 'RSA', options: { keySize: 2048 } },
+  { label: 'ECC secp256k1', algorithm: 'ECC', options: { curve: 'secp256k1' } },
+  { label: 'ML-KEM-512', algorithm: 'ML-KEM', options: { parameterSet: 'ML-KEM-512' } },
+  { label: 'ML-KEM-768', algorithm: 'ML-KEM', options: { parameterSet: 'ML-KEM-768' } },
+];
+
 export default function EncryptionPerformance() {
   // 实验结果状态
   const [keyGenerationResults, setKeyGenerationResults] = useState<{
@@ -51,8 +71,8 @@ export default function EncryptionPerformance() {
     averages: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], ElGamal: [], ECC: [] },
-    averages: { RSA: 0, ElGamal: 0, ECC: 0 },
+    times: { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] },
+    averages: { RSA: 0, ElGamal: 0, ECC: 0, 'ML-KEM': 0 },
     isLoading: false,
   });
 
@@ -62,9 +82,9 @@ export default function EncryptionPerformance() {
     sizes: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], ElGamal: [], ECC: [] },
-    averages: { RSA: 0, ElGamal: 0, ECC: 0 },
-    sizes: { RSA: 0, ElGamal: 0, ECC: 0 },
+    times: { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] },
+    averages: { RSA: 0, ElGamal: 0, ECC: 0, 'ML-KEM': 0 },
+    sizes: { RSA: 0, ElGamal: 0, ECC: 0, 'ML-KEM': 0 },
     isLoading: false,
   });
 
@@ -73,8 +93,46 @@ export default function EncryptionPerformance() {
     averages: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], ElGamal: [], ECC: [] },
-    averages: { RSA: 0, ElGamal: 0, ECC: 0 },
+    times: { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] },
+    averages: { RSA: 0, ElGamal: 0, ECC: 0, 'ML-KEM': 0 },
+    isLoading: false,
+  });
+
+  const [crtResults, setCrtResults] = useState<{
+    averages: number[];
+    isLoading: boolean;
+  }>({
+    averages: [],
+    isLoading: false,
+  });
+
+  const [curveResults, setCurveResults] = useState<{
+    keyGeneration: number[];
+    encryption: number[];
+    decryption: number[];
+    sizes: number[];
+    isLoading: boolean;
+  }>({
+    keyGeneration: [],
+    encryption: [],
+    decryption: [],
+    sizes: [],
+    isLoading: false,
+  });
+
+  const [pqResults, setPqResults] = useState<{
+    keyGeneration: number[];
+    encryption: number[];
+    decryption: number[];
+    publicKeySizes: number[];
+    encapsulationSizes: number[];
+    isLoading: boolean;
+  }>({
+    keyGeneration: [],
+    encryption: [],
+    decryption: [],
+    publicKeySizes: [],
+    encapsulationSizes: [],
     isLoading: false,
   });
 
@@ -92,9 +150,9 @@ export default function EncryptionPerformance() {
   const runKeyGenerationTest = async () => {
     setKeyGenerationResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC'];
-    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [] };
-    const keys: AlgorithmKeys = { RSA: {} as KeyPair, ElGamal: {} as KeyPair, ECC: {} as KeyPair };
+    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC', 'ML-KEM'];
+    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] };
+    const keys: AlgorithmKeys = { RSA: {} as KeyPair, ElGamal: {} as KeyPair, ECC: {} as KeyPair, 'ML-KEM': {} as KeyPair };
     
     for (const algo of algorithms) {
       const algorithm = EncryptionAlgorithmFactory.getAlgorithm(algo);
@@ -118,6 +176,7 @@ export default function EncryptionPerformance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       ElGamal: times.ElGamal.reduce((sum, time) => sum + time, 0) / times.ElGamal.length,
       ECC: times.ECC.reduce((sum, time) => sum + time, 0) / times.ECC.length,
+      'ML-KEM': times['ML-KEM'].reduce((sum, time) => sum + time, 0) / times['ML-KEM'].length,
     };
     
     setKeyGenerationResults({
@@ -138,13 +197,14 @@ export default function EncryptionPerformance() {
     
     setEncryptionResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC'];
-    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [] };
-    const sizes: AlgorithmAverages = { RSA: 0, ElGamal: 0, ECC: 0 };
+    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC', 'ML-KEM'];
+    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] };
+    const sizes: AlgorithmAverages = { RSA: 0, ElGamal: 0, ECC: 0, 'ML-KEM': 0 };
     const encryptResults: AlgorithmEncryptionResults = { 
       RSA: {} as EncryptionResult, 
       ElGamal: {} as EncryptionResult, 
-      ECC: {} as EncryptionResult 
+      ECC: {} as EncryptionResult,
+      'ML-KEM': {} as EncryptionResult
     };
     
     for (const algo of algorithms) {
@@ -178,6 +238,7 @@ export default function EncryptionPerformance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       ElGamal: times.ElGamal.reduce((sum, time) => sum + time, 0) / times.ElGamal.length,
       ECC: times.ECC.reduce((sum, time) => sum + time, 0) / times.ECC.length,
+      'ML-KEM': times['ML-KEM'].reduce((sum, time) => sum + time, 0) / times['ML-KEM'].length,
     };
     
     setEncryptionResults({
@@ -199,8 +260,8 @@ export default function EncryptionPerformance() {
     
     setDecryptionResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC'];
-    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [] };
+    const algorithms: AlgorithmType[] = ['RSA', 'ElGamal', 'ECC', 'ML-KEM'];
+    const times: AlgorithmResults = { RSA: [], ElGamal: [], ECC: [], 'ML-KEM': [] };
     
     for (const algo of algorithms) {
       const algorithm = EncryptionAlgorithmFactory.getAlgorithm(algo);
@@ -219,6 +280,7 @@ export default function EncryptionPerformance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       ElGamal: times.ElGamal.reduce((sum, time) => sum + time, 0) / times.ElGamal.length,
       ECC: times.ECC.reduce((sum, time) => sum + time, 0) / times.ECC.length,
+      'ML-KEM': times['ML-KEM'].reduce((sum, time) => sum + time, 0) / times['ML-KEM'].length,
     };
     
     setDecryptionResults({
@@ -228,16 +290,150 @@ export default function EncryptionPerformance() {
     });
   };
 
+  // 实验4：RSA CRT解密加速
+  const runCRTTest = async () => {
+    setCrtResults(prev => ({ ...prev, isLoading: true }));
+    
+    // 单独的RSA实例，避免影响其他实验使用的工厂实例
+    const rsa = new RSAEncryption();
+    const keysByPrimes: Record<number, KeyPair> = {};
+    const ciphertexts: Record<number, EncryptionResult> = {};
+    const averages: number[] = [];
+    
+    for (const variant of CRT_VARIANTS) {
+      if (!keysByPrimes[variant.primes]) {
+        keysByPrimes[variant.primes] = await rsa.generateKeys({ primes: variant.primes });
+        ciphertexts[variant.primes] = await rsa.encrypt(testMessage, keysByPrimes[variant.primes].publicKey);
+      }
+      rsa.useCRT = variant.useCRT;
+      
+      let total = 0;
+      for (let i = 0; i < testCount; i++) {
+        const startTime = performance.now();
+        await rsa.decrypt(ciphertexts[variant.primes], keysByPrimes[variant.primes].privateKey);
+        const endTime = performance.now();
+        
+        total += endTime - startTime;
+      }
+      averages.push(total / testCount);
+    }
+    
+    setCrtResults({
+      averages,
+      isLoading: false,
+    });
+  };
+
+  // 实验5：ECIES不同椭圆曲线的性能
+  const runCurveTest = async () => {
+    setCurveResults(prev => ({ ...prev, isLoading: true }));
+    
+    const ecc = new ECCEncryption();
+    const average = (times: number[]) => times.reduce((sum, time) => sum + time, 0) / times.length;
+    const keyGeneration: number[] = [];
+    const encryption: number[] = [];
+    const decryption: number[] = [];
+    const sizes: number[] = [];
+    
+    for (const curve of CURVE_NAMES) {
+      const keyTimes: number[] = [];
+      const encryptTimes: number[] = [];
+      const decryptTimes: number[] = [];
+      let result: EncryptionResult | null = null;
+      
+      for (let i = 0; i < testCount; i++) {
+        let startTime = performance.now();
+        const keys = await ecc.generateKeys({ curve });
+        keyTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        result = await ecc.encrypt(testMessage, keys.publicKey);
+        encryptTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        await ecc.decrypt(result, keys.privateKey);
+        decryptTimes.push(performance.now() - startTime);
+      }
+      
+      keyGeneration.push(average(keyTimes));
+      encryption.push(average(encryptTimes));
+      decryption.push(average(decryptTimes));
+      // 临时公钥（压缩格式）的字节数
+      sizes.push(result?.ephemeralKey ? result.ephemeralKey.length / 2 : 0);
+    }
+    
+    setCurveResults({
+      keyGeneration,
+      encryption,
+      decryption,
+      sizes,
+      isLoading: false,
+    });
+  };
+
+  // 实验6：后量子ML-KEM与传统算法比较
+  const runPostQuantumTest = async () => {
+    setPqResults(prev => ({ ...prev, isLoading: true }));
+    
+    const average = (times: number[]) => times.reduce((sum, time) => sum + time, 0) / times.length;
+    const keyGeneration: number[] = [];
+    const encryption: number[] = [];
+    const decryption: number[] = [];
+    const publicKeySizes: number[] = [];
+    const encapsulationSizes: number[] = [];
+    
+    for (const config of PQ_CONFIGS) {
+      const algorithm = EncryptionAlgorithmFactory.getAlgorithm(config.algorithm);
+      const keyTimes: number[] = [];
+      const encryptTimes: number[] = [];
+      const decryptTimes: number[] = [];
+      let keys: KeyPair | null = null;
+      let result: EncryptionResult | null = null;
+      
+      for (let i = 0; i < testCount; i++) {
+        let startTime = performance.now();
+        keys = await algorithm.generateKeys(config.options);
+        keyTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        result = await algorithm.encrypt(testMessage, keys.publicKey);
+        encryptTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        await algorithm.decrypt(result, keys.privateKey);
+        decryptTimes.push(performance.now() - startTime);
+      }
+      
+      keyGeneration.push(average(keyTimes));
+      encryption.push(average(encryptTimes));
+      decryption.push(average(decryptTimes));
+      // ECC与ML-KEM的公钥为十六进制编码，RSA公钥的主要部分是模数n
+      publicKeySizes.push(keys?.publicKey.key ? keys.publicKey.key.length / 2 : Math.ceil((keys?.keySize ?? 0) / 8));
+      // 每条消息附带的密钥封装数据：ECC为临时公钥，ML-KEM为KEM密文，RSA为一个OAEP密文块
+      encapsulationSizes.push(result?.ephemeralKey ? result.ephemeralKey.length / 2 : Math.ceil((keys?.keySize ?? 0) / 8));
+    }
+    
+    setPqResults({
+      keyGeneration,
+      encryption,
+      decryption,
+      publicKeySizes,
+      encapsulationSizes,
+      isLoading: false,
+    });
+  };
+
   // 图表数据准备
   const keyGenerationChartData = {
-    labels: ['RSA', 'ElGamal', 'ECC'],
+    labels: ['RSA', 'ElGamal', 'ECC', 'ML-KEM'],
     datasets: [
       {
         label: '平均密钥生成时间 (ms)',
         data: [
           keyGenerationResults.averages.RSA,
           keyGenerationResults.averages.ElGamal,
-          keyGenerationResults.averages.ECC
+          keyGenerationResults.averages.ECC,
+          keyGenerationResults.averages['ML-KEM']
         ],
         backgroundColor: 'rgba(54, 162, 235, 0.6)',
       },
@@ -245,14 +441,15 @@ export default function EncryptionPerformance() {
   };
 
   const encryptionChartData = {
-    labels: ['RSA', 'ElGamal', 'ECC'],
+    labels: ['RSA', 'ElGamal', 'ECC', 'ML-KEM'],
     datasets: [
       {
         label: '平均加密时间 (ms)',
         data: [
           encryptionResults.averages.RSA,
           encryptionResults.averages.ElGamal,
-          encryptionResults.averages.ECC
+          encryptionResults.averages.ECC,
+          encryptionResults.averages['ML-KEM']
         ],
         backgroundColor: 'rgba(255, 99, 132, 0.6)',
       }
@@ -260,14 +457,15 @@ export default function EncryptionPerformance() {
   };
 
   const ciphertextSizeChartData = {
-    labels: ['RSA', 'ElGamal', 'ECC'],
+    labels: ['RSA', 'ElGamal', 'ECC', 'ML-KEM'],
     datasets: [
       {
         label: '密文大小 (bytes)',
         data: [
           encryptionResults.sizes.RSA,
           encryptionResults.sizes.ElGamal,
-          encryptionResults.sizes.ECC
+          encryptionResults.sizes.ECC,
+          encryptionResults.sizes['ML-KEM']
         ],
         backgroundColor: 'rgba(153, 102, 255, 0.6)',
       }
@@ -275,20 +473,90 @@ export default function EncryptionPerformance() {
   };
 
   const decryptionChartData = {
-    labels: ['RSA', 'ElGamal', 'ECC'],
+    labels: ['RSA', 'ElGamal', 'ECC', 'ML-KEM'],
     datasets: [
       {
         label: '平均解密时间 (ms)',
         data: [
           decryptionResults.averages.RSA,
           decryptionResults.averages.ElGamal,
-          decryptionResults.averages.ECC
+          decryptionResults.averages.ECC,
+          decryptionResults.averages['ML-KEM']
         ],
         backgroundColor: 'rgba(255, 159, 64, 0.6)',
       }
     ],
   };
 
+  const crtChartData = {
+    labels: CRT_VARIANTS.map(variant => variant.label),
+    datasets: [
+      {
+        label: '平均RSA解密时间 (ms)',
+        data: crtResults.averages,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      }
+    ],
+  };
+
+  const curveChartData = {
+    labels: CURVE_NAMES,
+    datasets: [
+      {
+        label: '平均密钥生成时间 (ms)',
+        data: curveResults.keyGeneration,
+        backgroundColor: 'rgba(54, 162, 235, 0.6)',
+      },
+      {
+        label: '平均加密时间 (ms)',
+        data: curveResults.encryption,
+        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+      },
+      {
+        label: '平均解密时间 (ms)',
+        data: curveResults.decryption,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      },
+    ],
+  };
+
+  const pqTimeChartData = {
+    labels: PQ_CONFIGS.map(config => config.label),
+    datasets: [
+      {
+        label: '平均密钥生成时间 (ms)',
+        data: pqResults.keyGeneration,
+        backgroundColor: 'rgba(54, 162, 235, 0.6)',
+      },
+      {
+        label: '平均加密时间 (ms)',
+        data: pqResults.encryption,
+        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+      },
+      {
+        label: '平均解密时间 (ms)',
+        data: pqResults.decryption,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      },
+    ],
+  };
+
+  const pqSizeChartData = {
+    labels: PQ_CONFIGS.map(config => config.label),
+    datasets: [
+      {
+        label: '公钥大小 (bytes)',
+        data: pqResults.publicKeySizes,
+        backgroundColor: 'rgba(153, 102, 255, 0.6)',
+      },
+      {
+        label: '密钥封装数据大小 (bytes)',
+        data: pqResults.encapsulationSizes,
+        backgroundColor: 'rgba(255, 159, 64, 0.6)',
+      },
+    ],
+  };
+
   return (
     <div className="container">
       {/* 添加粒子背景 */}
@@ -348,6 +616,7 @@ export default function EncryptionPerformance() {
                   <li><strong>RSA:</strong> {keyGenerationResults.averages.RSA.toFixed(2)} ms</li>
                   <li><strong>ElGamal:</strong> {keyGenerationResults.averages.ElGamal.toFixed(2)} ms</li>
                   <li><strong>ECC:</strong> {keyGenerationResults.averages.ECC.toFixed(2)} ms</li>
+                  <li><strong>ML-KEM:</strong> {keyGenerationResults.averages['ML-KEM'].toFixed(2)} ms</li>
                 </ul>
               </div>
             </div>
@@ -376,6 +645,7 @@ export default function EncryptionPerformance() {
                     <li><strong>RSA:</strong> {encryptionResults.averages.RSA.toFixed(2)} ms</li>
                     <li><strong>ElGamal:</strong> {encryptionResults.averages.ElGamal.toFixed(2)} ms</li>
                     <li><strong>ECC:</strong> {encryptionResults.averages.ECC.toFixed(2)} ms</li>
+                    <li><strong>ML-KEM:</strong> {encryptionResults.averages['ML-KEM'].toFixed(2)} ms</li>
                   </ul>
                 </div>
               </div>
@@ -389,6 +659,7 @@ export default function EncryptionPerformance() {
                     <li><strong>RSA:</strong> {encryptionResults.sizes.RSA} bytes</li>
                     <li><strong>ElGamal:</strong> {encryptionResults.sizes.ElGamal} bytes</li>
                     <li><strong>ECC:</strong> {encryptionResults.sizes.ECC} bytes</li>
+                    <li><strong>ML-KEM:</strong> {encryptionResults.sizes['ML-KEM']} bytes</li>
                   </ul>
                 </div>
               </div>
@@ -417,11 +688,125 @@ export default function EncryptionPerformance() {
                   <li><strong>RSA:</strong> {decryptionResults.averages.RSA.toFixed(2)} ms</li>
                   <li><strong>ElGamal:</strong> {decryptionResults.averages.ElGamal.toFixed(2)} ms</li>
                   <li><strong>ECC:</strong> {decryptionResults.averages.ECC.toFixed(2)} ms</li>
+                  <li><strong>ML-KEM:</strong> {decryptionResults.averages['ML-KEM'].toFixed(2)} ms</li>
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 实验4：RSA CRT解密加速 */}
+        <div className="experiment-section">
+          <h2>实验4：RSA CRT解密加速</h2>
+          <p className="experiment-note">
+            利用中国剩余定理，将模n的大指数运算拆分为模各素数的小规模运算再合并；多素数RSA进一步缩小每次模幂的规模。
+          </p>
+          <button 
+            onClick={runCRTTest}
+            className="experiment-btn"
+            disabled={crtResults.isLoading}
+          >
+            {crtResults.isLoading ? '测试中...' : '运行CRT加速测试'}
+          </button>
+
+          {crtResults.averages.length > 0 && (
+            <div className="chart-container">
+              <h3>平均RSA解密时间 (ms)</h3>
+              <Bar options={options} data={crtChartData} />
+              <div className="result-details">
+                <h4>详细结果:</h4>
+                <ul>
+                  {CRT_VARIANTS.map((variant, index) => (
+                    <li key={variant.label}>
+                      <strong>{variant.label}:</strong> {crtResults.averages[index].toFixed(2)} ms
+                      {index > 0 && ` (加速比 ${(crtResults.averages[0] / crtResults.averages[index]).toFixed(2)}×)`}
+                    </li>
+                  ))}
                 </ul>
               </div>
             </div>
           )}
         </div>
+
+        {/* 实验5：ECC椭圆曲线比较 */}
+        <div className="experiment-section">
+          <h2>实验5：ECC椭圆曲线比较</h2>
+          <p className="experiment-note">
+            曲线越大，安全强度越高，点乘运算越慢；ECIES每次加密需要两次点乘，密文附带的临时公钥随坐标长度增长。
+          </p>
+          <button 
+            onClick={runCurveTest}
+            className="experiment-btn"
+            disabled={curveResults.isLoading}
+          >
+            {curveResults.isLoading ? '测试中...' : '运行曲线比较测试'}
+          </button>
+
+          {curveResults.encryption.length > 0 && (
+            <div className="chart-container">
+              <h3>各曲线的平均运算时间 (ms)</h3>
+              <Bar options={options} data={curveChartData} />
+              <div className="result-details">
+                <h4>详细结果:</h4>
+                <ul>
+                  {CURVE_NAMES.map((curve, index) => (
+                    <li key={curve}>
+                      <strong>{curve} ({CURVES[curve].bits}位):</strong>{' '}
+                      密钥生成 {curveResults.keyGeneration[index].toFixed(2)} ms，
+                      加密 {curveResults.encryption[index].toFixed(2)} ms，
+                      解密 {curveResults.decryption[index].toFixed(2)} ms，
+                      临时公钥 {curveResults.sizes[index]} bytes
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 实验6：后量子ML-KEM比较 */}
+        <div className="experiment-section">
+          <h2>实验6：后量子ML-KEM与传统算法比较</h2>
+          <p className="experiment-note">
+            ML-KEM只需多项式乘法（NTT）和哈希，运算很快，但公钥和密文有几百到上千字节，明显大于ECC；这是抵抗量子攻击付出的代价。
+          </p>
+          <button 
+            onClick={runPostQuantumTest}
+            className="experiment-btn"
+            disabled={pqResults.isLoading}
+          >
+            {pqResults.isLoading ? '测试中...' : '运行后量子比较测试'}
+          </button>
+
+          {pqResults.encryption.length > 0 && (
+            <>
+              <div className="chart-container">
+                <h3>平均运算时间 (ms)</h3>
+                <Bar options={options} data={pqTimeChartData} />
+              </div>
+              
+              <div className="chart-container">
+                <h3>公钥与密钥封装数据大小 (bytes)</h3>
+                <Bar options={options} data={pqSizeChartData} />
+                <div className="result-details">
+                  <h4>详细结果:</h4>
+                  <ul>
+                    {PQ_CONFIGS.map((config, index) => (
+                      <li key={config.label}>
+                        <strong>{config.label}:</strong>{' '}
+                        密钥生成 {pqResults.keyGeneration[index].toFixed(2)} ms，
+                        加密 {pqResults.encryption[index].toFixed(2)} ms，
+                        解密 {pqResults.decryption[index].toFixed(2)} ms，
+                        公钥 {pqResults.publicKeySizes[index]} bytes，
+                        密钥封装数据 {pqResults.encapsulationSizes[index]} bytes
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
       </div>
       
       <style jsx>{`
@@ -496,6 +881,12 @@ export default function EncryptionPerformance() {
           margin-bottom: 1rem;
         }
 
+        .experiment-note {
+          color: #555;
+          margin-top: 0;
+          margin-bottom: 1rem;
+        }
+
         .experiment-btn {
           background-color: #0070f3;
           color: white;
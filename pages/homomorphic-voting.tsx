@@ -0,0 +1,582 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import KeySizeSelector from '../components/KeySizeSelector';
+import Link from 'next/link';
+import { EncryptionResult, KeyPair, KeyGenerationOptions } from '../algorithms';
+import { PaillierEncryption } from '../algorithms/PaillierEncryption';
+
+// 参与投票的选民
+const VOTERS = ['Alice', 'Bob', 'Carol', 'Dave', 'Eve'];
+
+// 每位选民的选择与加密后的选票
+interface Ballot {
+  voter: string;
+  vote: boolean;                      // true为赞成，false为反对
+  ciphertext: EncryptionResult | null;
+}
+
+const paillier = new PaillierEncryption();
+
+export default function HomomorphicVotingPage() {
+  // 密钥生成选项（模数位长），空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
+  // 计票机构的密钥对：公钥公开给所有选民，私钥只用于解密最终结果
+  const [keys, setKeys] = useState<KeyPair | null>(null);
+  // 选票
+  const [ballots, setBallots] = useState<Ballot[]>(VOTERS.map(voter => ({ voter, vote: true, ciphertext: null })));
+  // 所有选票密文之积，即赞成票数的密文
+  const [tally, setTally] = useState<EncryptionResult | null>(null);
+  // 解密得到的赞成票数
+  const [yesCount, setYesCount] = useState<bigint | null>(null);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  const ballotsCast = ballots.every(ballot => ballot.ciphertext !== null);
+
+  /**
+   * 生成计票机构的Paillier密钥对
+   */
+  const generateKeys = async () => {
+    try {
+      setIsLoading(true);
+      setStatusMessage('正在生成Paillier密钥...');
+
+      setKeys(await paillier.generateKeys(keyOptions));
+      setBallots(ballots.map(ballot => ({ ...ballot, ciphertext: null })));
+      setTally(null);
+      setYesCount(null);
+
+      setAnimation('keys-generated');
+      setStatusMessage('计票机构公布了公钥n，选民用它加密自己的选票');
+    } catch (error) {
+      console.error('密钥生成错误:', error);
+      setStatusMessage('密钥生成失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 切换某位选民的选择；已加密的选票需要重新加密
+   */
+  const toggleVote = (index: number) => {
+    setBallots(ballots.map((ballot, i) => (i === index ? { ...ballot, vote: !ballot.vote, ciphertext: null } : ballot)));
+    setTally(null);
+    setYesCount(null);
+  };
+
+  /**
+   * 每位选民把赞成记为1、反对记为0，用公钥加密
+   */
+  const castBallots = () => {
+    if (!keys) return;
+
+    try {
+      setBallots(ballots.map(ballot => ({
+        ...ballot,
+        ciphertext: paillier.encryptNumber(ballot.vote ? 1n : 0n, keys.publicKey)
+      })));
+      setTally(null);
+      setYesCount(null);
+
+      setAnimation('ballots-cast');
+      setStatusMessage('选票已加密：每个密文都混入了随机数r，相同的选择也得到不同的密文');
+    } catch (error) {
+      console.error('选票加密错误:', error);
+      setStatusMessage('选票加密失败，请重试');
+    }
+  };
+
+  /**
+   * 把所有选票密文相乘，得到赞成票数的密文；此步只需公钥
+   */
+  const tallyBallots = () => {
+    if (!keys || !ballotsCast) return;
+
+    const product = ballots
+      .map(ballot => ballot.ciphertext as EncryptionResult)
+      .reduce((sum, ciphertext) => paillier.add(sum, ciphertext, keys.publicKey));
+    setTally(product);
+    setYesCount(null);
+
+    setAnimation('ballots-tallied');
+    setStatusMessage('任何人都可以把密文相乘完成汇总，过程中没有解密任何一张选票');
+  };
+
+  /**
+   * 计票机构只解密汇总后的密文
+   */
+  const decryptTally = () => {
+    if (!keys || !tally) return;
+
+    try {
+      setYesCount(paillier.decryptNumber(tally, keys.privateKey));
+      setAnimation('tally-decrypted');
+      setStatusMessage('计票机构只解密了最终结果，单张选票的内容始终保密');
+    } catch (error) {
+      console.error('解密错误:', error);
+      setStatusMessage('解密失败，请重试');
+    }
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setKeys(null);
+    setBallots(VOTERS.map(voter => ({ voter, vote: true, ciphertext: null })));
+    setTally(null);
+    setYesCount(null);
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 读取密文的十六进制表示
+   */
+  const ciphertextHex = (result: EncryptionResult) =>
+    Array.from(atob(result.ciphertext), c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        同态加密投票可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content voting-page">
+        {/* 模数位长选择器 */}
+        <KeySizeSelector
+          algorithm="Paillier"
+          value={keyOptions}
+          onChange={(options) => {
+            setKeyOptions(options);
+            resetAll();
+          }}
+        />
+
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>{paillier.description}</p>
+        </motion.div>
+
+        <div className="voting-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            <div className="control-group">
+              <h3>步骤 1: 生成计票密钥</h3>
+              <button
+                className="action-button"
+                onClick={generateKeys}
+                disabled={isLoading}
+              >
+                {isLoading ? '生成中...' : '生成Paillier密钥'}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 投票并加密</h3>
+              <button
+                className="action-button"
+                onClick={castBallots}
+                disabled={!keys || ballotsCast || isLoading}
+              >
+                加密全部选票
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 同态汇总</h3>
+              <button
+                className="action-button"
+                onClick={tallyBallots}
+                disabled={!ballotsCast || !!tally || isLoading}
+              >
+                密文相乘
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 4: 解密总票数</h3>
+              <button
+                className="action-button"
+                onClick={decryptTally}
+                disabled={!tally || yesCount !== null || isLoading}
+              >
+                解密汇总结果
+              </button>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-voting">
+            <h2>可视化区域</h2>
+
+            {keys && (
+              <div className="authority-key">
+                <strong>计票机构公钥</strong> n = {truncateString(keys.publicKey.n, 40)}（{keys.keySize}位），g = n + 1
+              </div>
+            )}
+
+            {/* 选民与选票 */}
+            <div className="ballots">
+              {ballots.map((ballot, index) => (
+                <div key={ballot.voter} className="ballot">
+                  <div className="voter-name">{ballot.voter}</div>
+                  <button
+                    className={`vote-toggle ${ballot.vote ? 'yes' : 'no'}`}
+                    onClick={() => toggleVote(index)}
+                    disabled={isLoading}
+                  >
+                    {ballot.vote ? '赞成 (1)' : '反对 (0)'}
+                  </button>
+                  <AnimatePresence>
+                    {ballot.ciphertext && (
+                      <motion.div
+                        className="ballot-ciphertext"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.4, delay: index * 0.1 }}
+                      >
+                        <div className="formula">c{index + 1} = (1 + m·n)·r^n mod n²</div>
+                        <code>{truncateString(ciphertextHex(ballot.ciphertext), 20)}</code>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+              ))}
+            </div>
+
+            {/* 同态汇总 */}
+            <AnimatePresence>
+              {tally && (
+                <motion.div
+                  className="tally"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.7 }}
+                >
+                  <h3>加密的汇总结果</h3>
+                  <div className="formula">
+                    C = {ballots.map((_, i) => `c${i + 1}`).join(' · ')} mod n² = E({ballots.map((_, i) => `m${i + 1}`).join(' + ')})
+                  </div>
+                  <code>{truncateString(ciphertextHex(tally), 40)}</code>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* 解密结果 */}
+            <AnimatePresence>
+              {yesCount !== null && (
+                <motion.div
+                  className="result"
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  <h3>计票结果</h3>
+                  <div className="formula">m = L(C^λ mod n²)·μ mod n</div>
+                  <div className="counts">
+                    <span className="yes-count">赞成 {yesCount.toString()} 票</span>
+                    <span className="no-count">反对 {ballots.length - Number(yesCount)} 票</span>
+                  </div>
+                  <p className="simulation-note">
+                    Paillier不能阻止选民加密2或−1这样的非法选票；实际的投票系统还要求每位选民附上零知识证明，
+                    证明自己的密文是0或1的加密，并把解密私钥分散给多个计票方。
+                  </p>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .voting-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .voting-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-voting {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        .action-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .action-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.keys-generated,
+        .status-message.ballots-cast,
+        .status-message.ballots-tallied {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.tally-decrypted {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .authority-key {
+          margin-bottom: 1.5rem;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border-radius: 8px;
+          font-family: monospace;
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .ballots {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 1rem;
+        }
+
+        .ballot {
+          flex: 1;
+          min-width: 140px;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border-radius: 8px;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .voter-name {
+          font-weight: 600;
+          color: #333;
+        }
+
+        .vote-toggle {
+          padding: 0.4rem 0.8rem;
+          border: none;
+          border-radius: 12px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .vote-toggle.yes {
+          background: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .vote-toggle.no {
+          background: #ffebee;
+          color: #c62828;
+        }
+
+        .ballot-ciphertext {
+          text-align: center;
+          font-size: 0.8rem;
+          word-break: break-all;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+          margin-bottom: 0.4rem;
+        }
+
+        code {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #555;
+          word-break: break-all;
+        }
+
+        .tally,
+        .result {
+          margin-top: 2rem;
+          padding: 1rem;
+          border-radius: 8px;
+        }
+
+        .tally {
+          background: #e3f2fd;
+          border-left: 4px solid #4a90e2;
+        }
+
+        .result {
+          background: #e8f5e9;
+          border-left: 4px solid #4caf50;
+        }
+
+        .counts {
+          display: flex;
+          gap: 2rem;
+          font-size: 1.3rem;
+          font-weight: 600;
+        }
+
+        .yes-count {
+          color: #2e7d32;
+        }
+
+        .no-count {
+          color: #c62828;
+        }
+
+        .simulation-note {
+          margin-top: 0.8rem;
+          color: #555;
+          font-size: 0.8rem;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .voting-container {
+            flex-direction: column;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
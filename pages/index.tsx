@@ -82,7 +82,7 @@ export default function HomePage() {
               <h3 className="card-title">数字签名可视化</h3>
               <p className="card-description">
                 通过交互式演示，了解数字签名的生成和验证过程，以及如何保障数据完整性与不可否认性。
-                本模块支持RSA、DSA和ECDSA等多种签名算法。
+                本模块支持RSA、DSA、ElGamal、ECDSA、Ed25519、Schnorr，以及后量子的ML-DSA与基于哈希的Lamport、WOTS+、XMSS等多种签名算法。
               </p>
               
               <motion.div 
@@ -128,6 +128,192 @@ export default function HomePage() {
               </motion.div>
                   </div>
                 </motion.div>
+          
+          {/* 密钥交换卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'key-exchange' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('key-exchange')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">🤝</div>
+              <h3 className="card-title">密钥交换可视化</h3>
+              <p className="card-description">
+                演示通信双方如何在公开信道上协商出相同的共享秘密，支持有限域DH与ECDH，
+                并可开启中间人攻击，观察未认证的密钥交换为何不安全。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'key-exchange' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/key-exchange" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
+
+          {/* 同态加密投票卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'voting' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('voting')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">🗳️</div>
+              <h3 className="card-title">同态加密投票</h3>
+              <p className="card-description">
+                多位选民用Paillier公钥加密赞成或反对票，密文相乘即得到总票数的密文，
+                计票机构只解密最终结果，单张选票的内容始终保密。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'voting' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/homomorphic-voting" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
+
+          {/* 盲签名电子现金卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'e-cash' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('e-cash')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">🪙</div>
+              <h3 className="card-title">盲签名电子现金</h3>
+              <p className="card-description">
+                银行用RSA盲签名发行电子硬币：银行能确认硬币由自己签发，却无法追踪谁在何处花掉了它，
+                同一枚硬币第二次存入时会被识别为双重支付。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'e-cash' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/e-cash" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
+
+          {/* 秘密共享卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'secret-sharing' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('secret-sharing')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">🧩</div>
+              <h3 className="card-title">秘密共享</h3>
+              <p className="card-description">
+                用Shamir门限方案把私钥拆分给多个保管人，任意t个份额即可通过拉格朗日插值恢复私钥，
+                并检验恢复的私钥仍能正常签名或解密。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'secret-sharing' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/secret-sharing" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
+
+          {/* 门限签名卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'threshold-signing' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('threshold-signing')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">✍️</div>
+              <h3 className="card-title">门限签名</h3>
+              <p className="card-description">
+                多个参与者通过分布式密钥生成共同持有私钥，任意t人经两轮通信合成一个FROST门限Schnorr签名，
+                完整私钥从未出现，聚合签名可用普通的Schnorr验证。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'threshold-signing' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/threshold-signing" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
+
+          {/* BLS签名聚合卡片 */}
+          <motion.div 
+            className={`feature-card ${hoveredCard === 'bls-aggregation' ? 'hovered' : ''}`}
+            whileHover={{ 
+              scale: 1.05,
+              boxShadow: "0 10px 25px rgba(0, 0, 0, 0.2)"
+            }}
+            onHoverStart={() => setHoveredCard('bls-aggregation')}
+            onHoverEnd={() => setHoveredCard(null)}
+          >
+            <div className="card-content">
+              <div className="card-icon">🔗</div>
+              <h3 className="card-title">BLS签名聚合</h3>
+              <p className="card-description">
+                基于BLS12-381双线性配对的BLS签名，100个签名者的签名相加后收缩为一个96字节的聚合签名，
+                一次配对乘积即可验证全部签名。
+              </p>
+              
+              <motion.div 
+                className="card-overlay"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: hoveredCard === 'bls-aggregation' ? 1 : 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Link href="/bls-aggregation" className="card-button">
+                  进入演示
+                </Link>
+              </motion.div>
+            </div>
+          </motion.div>
                   </div>
                 </motion.div>
                 
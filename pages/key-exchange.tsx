@@ -0,0 +1,760 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import UserRole from '../components/UserRole';
+import KeySizeSelector from '../components/KeySizeSelector';
+import Link from 'next/link';
+import { KeyAgreementFactory, KeyPair, KeyGenerationOptions } from '../algorithms';
+
+// 双方协商出的共享秘密；中间人攻击时Mallory分别与双方各协商出一个
+interface SharedSecrets {
+  alice: string;
+  bob: string;
+  malloryWithAlice?: string;
+  malloryWithBob?: string;
+}
+
+// 各算法的公式：公钥计算、正常协商与中间人攻击下的共享秘密
+const FORMULAS: Record<string, Record<string, string>> = {
+  DH: {
+    alicePublic: 'A = g^a mod p',
+    bobPublic: 'B = g^b mod p',
+    malloryPublic: 'M = g^m mod p',
+    aliceShared: 'Z = B^a mod p',
+    bobShared: 'Z = A^b mod p',
+    aliceSharedMitm: 'Z₁ = M^a mod p',
+    bobSharedMitm: 'Z₂ = M^b mod p'
+  },
+  ECDH: {
+    alicePublic: 'A = a·G',
+    bobPublic: 'B = b·G',
+    malloryPublic: 'M = m·G',
+    aliceShared: 'Z = x(a·B)',
+    bobShared: 'Z = x(b·A)',
+    aliceSharedMitm: 'Z₁ = x(a·M)',
+    bobSharedMitm: 'Z₂ = x(b·M)'
+  }
+};
+
+export default function KeyExchangePage() {
+  // 算法选择状态
+  const [algorithm, setAlgorithm] = useState('DH');
+  // 密钥生成选项（MODP群或椭圆曲线），空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
+  // Alice、Bob和中间人Mallory的密钥对
+  const [aliceKeys, setAliceKeys] = useState<KeyPair | null>(null);
+  const [bobKeys, setBobKeys] = useState<KeyPair | null>(null);
+  const [malloryKeys, setMalloryKeys] = useState<KeyPair | null>(null);
+  // 是否开启中间人攻击
+  const [mitmEnabled, setMitmEnabled] = useState(false);
+  // 公钥是否已交换
+  const [exchanged, setExchanged] = useState(false);
+  // 共享秘密
+  const [secrets, setSecrets] = useState<SharedSecrets | null>(null);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 获取可用的密钥协商算法
+  const availableAlgorithms = KeyAgreementFactory.getAvailableAlgorithms();
+  const formulas = FORMULAS[algorithm];
+
+  /**
+   * 生成Alice和Bob的密钥对；开启中间人攻击时同时生成Mallory的密钥对
+   */
+  const generateKeys = async () => {
+    try {
+      setIsLoading(true);
+      setStatusMessage('正在生成密钥...');
+
+      const keyAgreement = KeyAgreementFactory.getAlgorithm(algorithm);
+      setAliceKeys(await keyAgreement.generateKeys(keyOptions));
+      setBobKeys(await keyAgreement.generateKeys(keyOptions));
+      setMalloryKeys(mitmEnabled ? await keyAgreement.generateKeys(keyOptions) : null);
+      setExchanged(false);
+      setSecrets(null);
+
+      setAnimation('keys-generated');
+      setStatusMessage('双方各自生成了私钥和公钥，私钥从不离开本地');
+    } catch (error) {
+      console.error('密钥生成错误:', error);
+      setStatusMessage('密钥生成失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 在公开信道上交换公钥；中间人攻击时Mallory截获双方公钥并换成自己的公钥
+   */
+  const exchangePublicKeys = () => {
+    setExchanged(true);
+    setSecrets(null);
+    setAnimation('keys-exchanged');
+    setStatusMessage(mitmEnabled
+      ? 'Mallory截获了双方的公钥，并把自己的公钥M分别发给Alice和Bob'
+      : 'Alice和Bob通过公开信道交换了公钥，窃听者也能看到A和B');
+  };
+
+  /**
+   * 双方用自己的私钥和收到的公钥计算共享秘密
+   */
+  const computeSecrets = async () => {
+    if (!aliceKeys || !bobKeys) return;
+
+    try {
+      setIsLoading(true);
+      const keyAgreement = KeyAgreementFactory.getAlgorithm(algorithm);
+
+      // 中间人攻击时双方收到的都是Mallory的公钥
+      const receivedByAlice = malloryKeys ? malloryKeys.publicKey : bobKeys.publicKey;
+      const receivedByBob = malloryKeys ? malloryKeys.publicKey : aliceKeys.publicKey;
+
+      const result: SharedSecrets = {
+        alice: await keyAgreement.computeSharedSecret(aliceKeys.privateKey, receivedByAlice),
+        bob: await keyAgreement.computeSharedSecret(bobKeys.privateKey, receivedByBob)
+      };
+      if (malloryKeys) {
+        result.malloryWithAlice = await keyAgreement.computeSharedSecret(malloryKeys.privateKey, aliceKeys.publicKey);
+        result.malloryWithBob = await keyAgreement.computeSharedSecret(malloryKeys.privateKey, bobKeys.publicKey);
+      }
+      setSecrets(result);
+
+      setAnimation(result.alice === result.bob ? 'secrets-match' : 'secrets-differ');
+      setStatusMessage(result.alice === result.bob
+        ? '双方得到了相同的共享秘密，可以用它派生对称密钥'
+        : 'Alice和Bob的共享秘密不同：Mallory分别与双方建立了密钥，可以解密并转发全部通信');
+    } catch (error) {
+      console.error('共享秘密计算错误:', error);
+      setStatusMessage('共享秘密计算失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setAliceKeys(null);
+    setBobKeys(null);
+    setMalloryKeys(null);
+    setExchanged(false);
+    setSecrets(null);
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 获取当前算法的描述信息
+   */
+  const getCurrentAlgorithmDescription = () => {
+    try {
+      return KeyAgreementFactory.getAlgorithm(algorithm).description;
+    } catch (e) {
+      return '未找到算法描述';
+    }
+  };
+
+  /**
+   * 读取公钥值：DH为y（十进制），ECDH为压缩格式的点（十六进制）
+   */
+  const getPublicValue = (keys: KeyPair) => String(keys.publicKey.y ?? keys.publicKey.key);
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  // Alice和Bob收到的公钥名称
+  const receivedName = (peer: 'A' | 'B') => (malloryKeys ? 'M' : peer);
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        密钥交换可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content key-exchange-page">
+        {/* 算法选择器 */}
+        <div className="algorithm-selector">
+          {availableAlgorithms.map(algo => (
+            <button
+              key={algo}
+              className={`algorithm-button ${algorithm === algo ? 'selected' : ''}`}
+              onClick={() => {
+                setAlgorithm(algo);
+                setKeyOptions({});
+                resetAll();
+              }}
+            >
+              {algo}
+            </button>
+          ))}
+        </div>
+
+        {/* MODP群或椭圆曲线选择器 */}
+        <KeySizeSelector
+          algorithm={algorithm}
+          value={keyOptions}
+          onChange={(options) => {
+            setKeyOptions(options);
+            resetAll();
+          }}
+        />
+
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>{getCurrentAlgorithmDescription()}</p>
+        </motion.div>
+
+        <div className="exchange-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            {/* 中间人攻击开关 */}
+            <div className="control-group">
+              <label className="mitm-toggle">
+                <input
+                  type="checkbox"
+                  checked={mitmEnabled}
+                  onChange={(e) => {
+                    setMitmEnabled(e.target.checked);
+                    resetAll();
+                  }}
+                  disabled={isLoading}
+                />
+                中间人攻击 (Mallory)
+              </label>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 1: 生成密钥</h3>
+              <button
+                className="action-button"
+                onClick={generateKeys}
+                disabled={isLoading}
+              >
+                {isLoading && !aliceKeys ? '生成中...' : '生成双方密钥'}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 交换公钥</h3>
+              <button
+                className="action-button"
+                onClick={exchangePublicKeys}
+                disabled={!aliceKeys || exchanged || isLoading}
+              >
+                交换公钥
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 计算共享秘密</h3>
+              <button
+                className="action-button"
+                onClick={computeSecrets}
+                disabled={!exchanged || !!secrets || isLoading}
+              >
+                {isLoading && exchanged ? '计算中...' : '计算共享秘密'}
+              </button>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-exchange">
+            <h2>可视化区域</h2>
+
+            <div className="parties">
+              {/* Alice */}
+              <div className="party">
+                <UserRole type="sender" position="left" label="Alice" />
+                <AnimatePresence>
+                  {aliceKeys && (
+                    <motion.div
+                      className="party-keys"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.5 }}
+                    >
+                      <div className="private-value">🔐 私钥 a</div>
+                      <div className="formula">{formulas.alicePublic}</div>
+                      <div className="public-value">A: {truncateString(getPublicValue(aliceKeys))}</div>
+                      {exchanged && (
+                        <div className="received-value">收到: {receivedName('B')}</div>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+
+              {/* 公开信道 */}
+              <div className="channel">
+                <div className="channel-label">公开信道</div>
+                {mitmEnabled && (
+                  <div className="mallory">
+                    <div className="avatar">
+                      <img src="/images/hacker.jpg" alt="Mallory" className="avatar-image" />
+                    </div>
+                    <p className="role-label">Mallory</p>
+                    {malloryKeys && (
+                      <div className="formula">{formulas.malloryPublic}</div>
+                    )}
+                  </div>
+                )}
+                <AnimatePresence>
+                  {exchanged && aliceKeys && bobKeys && (
+                    <>
+                      {/* A从Alice发往Bob，中间人攻击时被Mallory截获 */}
+                      <motion.div
+                        className={`key-packet to-right ${mitmEnabled ? 'intercepted' : ''}`}
+                        initial={{ x: '-120%', opacity: 0 }}
+                        animate={{ x: mitmEnabled ? '-20%' : '120%', opacity: 1 }}
+                        transition={{ duration: 1.2 }}
+                      >
+                        A →
+                      </motion.div>
+                      {/* B从Bob发往Alice */}
+                      <motion.div
+                        className={`key-packet to-left ${mitmEnabled ? 'intercepted' : ''}`}
+                        initial={{ x: '120%', opacity: 0 }}
+                        animate={{ x: mitmEnabled ? '20%' : '-120%', opacity: 1 }}
+                        transition={{ duration: 1.2, delay: 0.3 }}
+                      >
+                        ← B
+                      </motion.div>
+                      {/* Mallory把自己的公钥M分别发给双方 */}
+                      {mitmEnabled && (
+                        <motion.div
+                          className="key-packet forged"
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          transition={{ duration: 0.5, delay: 1.5 }}
+                        >
+                          ← M　M →
+                        </motion.div>
+                      )}
+                    </>
+                  )}
+                </AnimatePresence>
+              </div>
+
+              {/* Bob */}
+              <div className="party">
+                <UserRole type="receiver" position="right" label="Bob" />
+                <AnimatePresence>
+                  {bobKeys && (
+                    <motion.div
+                      className="party-keys"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.5, delay: 0.2 }}
+                    >
+                      <div className="private-value">🔐 私钥 b</div>
+                      <div className="formula">{formulas.bobPublic}</div>
+                      <div className="public-value">B: {truncateString(getPublicValue(bobKeys))}</div>
+                      {exchanged && (
+                        <div className="received-value">收到: {receivedName('A')}</div>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            </div>
+
+            {/* 共享秘密 */}
+            <AnimatePresence>
+              {secrets && (
+                <motion.div
+                  className="secrets"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.7 }}
+                >
+                  <h3>共享秘密</h3>
+                  <div className="secret-row">
+                    <div className="secret-box">
+                      <h4>Alice</h4>
+                      <div className="formula">{malloryKeys ? formulas.aliceSharedMitm : formulas.aliceShared}</div>
+                      <div className="secret-value">{truncateString(secrets.alice, 40)}</div>
+                    </div>
+                    <div className="secret-box">
+                      <h4>Bob</h4>
+                      <div className="formula">{malloryKeys ? formulas.bobSharedMitm : formulas.bobShared}</div>
+                      <div className="secret-value">{truncateString(secrets.bob, 40)}</div>
+                    </div>
+                  </div>
+                  {secrets.alice === secrets.bob ? (
+                    <div className="verification-success">✓ 双方的共享秘密相同</div>
+                  ) : (
+                    <div className="verification-failure">✗ 双方的共享秘密不同</div>
+                  )}
+                  {secrets.malloryWithAlice && secrets.malloryWithBob && (
+                    <div className="mallory-secrets">
+                      <p>Mallory与Alice: {truncateString(secrets.malloryWithAlice, 40)}
+                        {secrets.malloryWithAlice === secrets.alice && ' ✓ 等于Alice的秘密'}
+                      </p>
+                      <p>Mallory与Bob: {truncateString(secrets.malloryWithBob, 40)}
+                        {secrets.malloryWithBob === secrets.bob && ' ✓ 等于Bob的秘密'}
+                      </p>
+                      <p className="simulation-note">
+                        未经认证的密钥交换无法发现公钥被替换；实际协议需要用数字签名或证书认证双方的公钥
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .key-exchange-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .exchange-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-exchange {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        .mitm-toggle {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          font-weight: 600;
+          color: #c62828;
+          cursor: pointer;
+        }
+
+        .action-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .action-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.keys-generated,
+        .status-message.keys-exchanged {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.secrets-match {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .status-message.secrets-differ {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+
+        .parties {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          gap: 1rem;
+        }
+
+        .party {
+          width: 220px;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+        }
+
+        .party-keys {
+          margin-top: 1rem;
+          width: 100%;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border-radius: 8px;
+          font-family: monospace;
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .party-keys > div {
+          margin-bottom: 0.4rem;
+        }
+
+        .private-value {
+          color: #c62828;
+        }
+
+        .public-value {
+          color: #1565c0;
+        }
+
+        .received-value {
+          font-weight: 600;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+        }
+
+        .channel {
+          flex: 1;
+          min-height: 220px;
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          border-top: 2px dashed #bbb;
+          margin-top: 35px;
+          padding-top: 0.5rem;
+          overflow: hidden;
+        }
+
+        .channel-label {
+          color: #888;
+          font-size: 0.85rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .mallory {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 0.3rem;
+        }
+
+        .key-packet {
+          margin-top: 0.5rem;
+          padding: 0.3rem 0.8rem;
+          border-radius: 12px;
+          background: #e3f2fd;
+          color: #1565c0;
+          font-weight: 600;
+          font-family: monospace;
+        }
+
+        .key-packet.intercepted {
+          background: #fff3e0;
+          color: #e65100;
+        }
+
+        .key-packet.forged {
+          background: #ffebee;
+          color: #c62828;
+        }
+
+        .secrets {
+          margin-top: 2rem;
+          padding-top: 1rem;
+          border-top: 1px solid #eee;
+        }
+
+        .secret-row {
+          display: flex;
+          gap: 1.5rem;
+        }
+
+        .secret-box {
+          flex: 1;
+          padding: 1rem;
+          border-radius: 8px;
+          background: #e8f5e9;
+          border-left: 4px solid #4caf50;
+        }
+
+        .secret-box h4 {
+          margin: 0 0 0.5rem;
+        }
+
+        .secret-value {
+          font-family: monospace;
+          font-size: 0.85rem;
+          background: rgba(255, 255, 255, 0.5);
+          padding: 0.5rem;
+          border-radius: 4px;
+          margin-top: 0.5rem;
+          word-break: break-all;
+        }
+
+        .mallory-secrets {
+          margin-top: 1rem;
+          padding: 1rem;
+          border-radius: 8px;
+          background: #ffebee;
+          border-left: 4px solid #e74c3c;
+          font-family: monospace;
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .verification-success {
+          margin-top: 0.8rem;
+          color: #2e7d32;
+          font-weight: 600;
+        }
+
+        .verification-failure {
+          margin-top: 0.8rem;
+          color: #c62828;
+          font-weight: 600;
+        }
+
+        .simulation-note {
+          margin-top: 0.8rem;
+          color: #555;
+          font-size: 0.8rem;
+          font-family: inherit;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .exchange-container {
+            flex-direction: column;
+          }
+
+          .parties,
+          .secret-row {
+            flex-direction: column;
+            align-items: center;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
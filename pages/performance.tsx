@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 import { AlgorithmFactory } from '../algorithms';
+import { RSA } from '../algorithms/RSA';
+import { ECDSA } from '../algorithms/ECDSA';
+import { BLS } from '../algorithms/BLS';
+import { CURVES, CURVE_NAMES } from '../algorithms';
 import { Bar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -11,7 +15,7 @@ import {
   Legend,
 } from 'chart.js';
 import ParticleBackground from '../components/ParticleBackground';
-import { KeyPair, SignatureResult } from '../algorithms';
+import { KeyPair, SignatureResult, KeyGenerationOptions } from '../algorithms';
 import Link from 'next/link';
 
 ChartJS.register(
@@ -38,12 +42,65 @@ const options = {
 };
 
 // 定义算法类型
-type AlgorithmType = 'RSA' | 'DSA' | 'ECDSA';
+type AlgorithmType = 'RSA' | 'DSA' | 'ECDSA' | 'Ed25519' | 'ML-DSA';
 type AlgorithmResults = Record<AlgorithmType, number[]>;
 type AlgorithmAverages = Record<AlgorithmType, number>;
 type AlgorithmKeys = Record<AlgorithmType, KeyPair>;
 type AlgorithmSignatures = Record<AlgorithmType, SignatureResult>;
 
+// RSA私钥运算方式：直接模幂、两素数CRT、多素数CRT
+const CRT_VARIANTS = [
+  { label: '标准 (m^d mod n)', primes: 2, useCRT: false },
+  { label: 'CRT (2素数)', primes: 2, useCRT: true },
+  { label: 'CRT (3素数)', primes: 3, useCRT: true },
+  { label: 'CRT (4素数)', primes: 4, useCRT: true },
+];
+
+// 后量子与传统签名算法的对比配置，sizes按各算法的标准编码计算公钥与签名的字节数
+const PQ_CONFIGS: {
+  label: string;
+  algorithm: string;
+  options: KeyGenerationOptions;
+  sizes: (keys: KeyPair, signature: SignatureResult) => { publicKey: number; signature: number };
+}[] = [
+  {
+    label: 'RSA-2048',
+    algorithm: 'RSA',
+    options: { keySize: 2048 },
+    // 公钥以模数n为主，签名与n等长
+    sizes: keys => ({ publicKey: keys.keySize / 8, signature: keys.keySize / 8 }),
+  },
+  {
+    label: 'DSA (2048, 256)',
+    algorithm: 'DSA',
+    options: { keySize: 2048, subgroupSize: 256 },
+    // 公钥y与p等长，签名为r ‖ s
+    sizes: keys => ({ publicKey: keys.publicKey.pBits / 8, signature: 2 * keys.publicKey.qBits / 8 }),
+  },
+  {
+    label: 'ECDSA P-256',
+    algorithm: 'ECDSA',
+    options: { curve: 'P-256' },
+    // 未压缩公钥点，签名为r ‖ s（不含DER编码开销）
+    sizes: () => ({ publicKey: 1 + 2 * CURVES['P-256'].size, signature: 2 * CURVES['P-256'].size }),
+  },
+  {
+    label: 'Ed25519',
+    algorithm: 'Ed25519',
+    options: {},
+    sizes: (keys, signature) => ({ publicKey: keys.publicKey.A.length / 2, signature: signature.signature.length / 2 }),
+  },
+  ...(['ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87'] as const).map(parameterSet => ({
+    label: parameterSet,
+    algorithm: 'ML-DSA',
+    options: { parameterSet },
+    sizes: (keys: KeyPair, signature: SignatureResult) => ({
+      publicKey: keys.publicKey.key.length / 2,
+      signature: signature.signature.length / 2,
+    }),
+  })),
+];
+
 export default function Performance() {
   // 实验结果状态
   const [keyGenerationResults, setKeyGenerationResults] = useState<{
@@ -51,8 +108,8 @@ export default function Performance() {
     averages: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], DSA: [], ECDSA: [] },
-    averages: { RSA: 0, DSA: 0, ECDSA: 0 },
+    times: { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] },
+    averages: { RSA: 0, DSA: 0, ECDSA: 0, Ed25519: 0, 'ML-DSA': 0 },
     isLoading: false,
   });
 
@@ -62,9 +119,9 @@ export default function Performance() {
     sizes: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], DSA: [], ECDSA: [] },
-    averages: { RSA: 0, DSA: 0, ECDSA: 0 },
-    sizes: { RSA: 0, DSA: 0, ECDSA: 0 },
+    times: { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] },
+    averages: { RSA: 0, DSA: 0, ECDSA: 0, Ed25519: 0, 'ML-DSA': 0 },
+    sizes: { RSA: 0, DSA: 0, ECDSA: 0, Ed25519: 0, 'ML-DSA': 0 },
     isLoading: false,
   });
 
@@ -73,8 +130,66 @@ export default function Performance() {
     averages: AlgorithmAverages;
     isLoading: boolean;
   }>({
-    times: { RSA: [], DSA: [], ECDSA: [] },
-    averages: { RSA: 0, DSA: 0, ECDSA: 0 },
+    times: { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] },
+    averages: { RSA: 0, DSA: 0, ECDSA: 0, Ed25519: 0, 'ML-DSA': 0 },
+    isLoading: false,
+  });
+
+  const [crtResults, setCrtResults] = useState<{
+    averages: number[];
+    isLoading: boolean;
+  }>({
+    averages: [],
+    isLoading: false,
+  });
+
+  const [curveResults, setCurveResults] = useState<{
+    keyGeneration: number[];
+    signing: number[];
+    verification: number[];
+    sizes: number[];
+    isLoading: boolean;
+  }>({
+    keyGeneration: [],
+    signing: [],
+    verification: [],
+    sizes: [],
+    isLoading: false,
+  });
+
+  const [pqResults, setPqResults] = useState<{
+    keyGeneration: number[];
+    signing: number[];
+    verification: number[];
+    publicKeySizes: number[];
+    signatureSizes: number[];
+    attempts: number[];
+    isLoading: boolean;
+  }>({
+    keyGeneration: [],
+    signing: [],
+    verification: [],
+    publicKeySizes: [],
+    signatureSizes: [],
+    attempts: [],
+    isLoading: false,
+  });
+
+  const [blsResults, setBlsResults] = useState<{
+    signerCount: number;
+    keyGeneration: number;
+    signing: number;
+    verification: number;
+    aggregation: number;
+    aggregateVerification: number;
+    isLoading: boolean;
+  }>({
+    signerCount: 0,
+    keyGeneration: 0,
+    signing: 0,
+    verification: 0,
+    aggregation: 0,
+    aggregateVerification: 0,
     isLoading: false,
   });
 
@@ -92,9 +207,9 @@ export default function Performance() {
   const runKeyGenerationTest = async () => {
     setKeyGenerationResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA'];
-    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [] };
-    const keys: AlgorithmKeys = { RSA: {} as KeyPair, DSA: {} as KeyPair, ECDSA: {} as KeyPair };
+    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'];
+    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] };
+    const keys: AlgorithmKeys = { RSA: {} as KeyPair, DSA: {} as KeyPair, ECDSA: {} as KeyPair, Ed25519: {} as KeyPair, 'ML-DSA': {} as KeyPair };
     
     for (const algo of algorithms) {
       const algorithm = AlgorithmFactory.getAlgorithm(algo);
@@ -118,6 +233,8 @@ export default function Performance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       DSA: times.DSA.reduce((sum, time) => sum + time, 0) / times.DSA.length,
       ECDSA: times.ECDSA.reduce((sum, time) => sum + time, 0) / times.ECDSA.length,
+      Ed25519: times.Ed25519.reduce((sum, time) => sum + time, 0) / times.Ed25519.length,
+      'ML-DSA': times['ML-DSA'].reduce((sum, time) => sum + time, 0) / times['ML-DSA'].length,
     };
     
     setKeyGenerationResults({
@@ -138,13 +255,15 @@ export default function Performance() {
     
     setSignatureResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA'];
-    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [] };
-    const sizes: AlgorithmAverages = { RSA: 0, DSA: 0, ECDSA: 0 };
+    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'];
+    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] };
+    const sizes: AlgorithmAverages = { RSA: 0, DSA: 0, ECDSA: 0, Ed25519: 0, 'ML-DSA': 0 };
     const signatures: AlgorithmSignatures = { 
       RSA: {} as SignatureResult, 
       DSA: {} as SignatureResult, 
-      ECDSA: {} as SignatureResult 
+      ECDSA: {} as SignatureResult,
+      Ed25519: {} as SignatureResult,
+      'ML-DSA': {} as SignatureResult
     };
     
     for (const algo of algorithms) {
@@ -162,8 +281,8 @@ export default function Performance() {
           signatures[algo] = signatureResult;
           
           // 计算签名大小（字节数）
-          if (algo === 'RSA' || algo === 'ECDSA') {
-            // 对于RSA和ECDSA，计算signature字段的字节长度
+          if (algo === 'RSA' || algo === 'ECDSA' || algo === 'Ed25519' || algo === 'ML-DSA') {
+            // 对于RSA、ECDSA、Ed25519和ML-DSA，计算signature字段的字节长度
             sizes[algo] = new TextEncoder().encode(
               typeof signatureResult.signature === 'string' 
                 ? signatureResult.signature 
@@ -185,6 +304,8 @@ export default function Performance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       DSA: times.DSA.reduce((sum, time) => sum + time, 0) / times.DSA.length,
       ECDSA: times.ECDSA.reduce((sum, time) => sum + time, 0) / times.ECDSA.length,
+      Ed25519: times.Ed25519.reduce((sum, time) => sum + time, 0) / times.Ed25519.length,
+      'ML-DSA': times['ML-DSA'].reduce((sum, time) => sum + time, 0) / times['ML-DSA'].length,
     };
     
     setSignatureResults({
@@ -206,8 +327,8 @@ export default function Performance() {
     
     setVerificationResults(prev => ({ ...prev, isLoading: true }));
     
-    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA'];
-    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [] };
+    const algorithms: AlgorithmType[] = ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'];
+    const times: AlgorithmResults = { RSA: [], DSA: [], ECDSA: [], Ed25519: [], 'ML-DSA': [] };
     
     for (const algo of algorithms) {
       const algorithm = AlgorithmFactory.getAlgorithm(algo);
@@ -226,6 +347,8 @@ export default function Performance() {
       RSA: times.RSA.reduce((sum, time) => sum + time, 0) / times.RSA.length,
       DSA: times.DSA.reduce((sum, time) => sum + time, 0) / times.DSA.length,
       ECDSA: times.ECDSA.reduce((sum, time) => sum + time, 0) / times.ECDSA.length,
+      Ed25519: times.Ed25519.reduce((sum, time) => sum + time, 0) / times.Ed25519.length,
+      'ML-DSA': times['ML-DSA'].reduce((sum, time) => sum + time, 0) / times['ML-DSA'].length,
     };
     
     setVerificationResults({
@@ -235,16 +358,206 @@ export default function Performance() {
     });
   };
 
+  // 实验4：RSA CRT私钥运算加速
+  const runCRTTest = async () => {
+    setCrtResults(prev => ({ ...prev, isLoading: true }));
+    
+    // 单独的RSA实例，避免影响其他实验使用的工厂实例
+    const rsa = new RSA();
+    const keysByPrimes: Record<number, KeyPair> = {};
+    const averages: number[] = [];
+    
+    for (const variant of CRT_VARIANTS) {
+      if (!keysByPrimes[variant.primes]) {
+        keysByPrimes[variant.primes] = await rsa.generateKeys({ primes: variant.primes });
+      }
+      rsa.useCRT = variant.useCRT;
+      
+      let total = 0;
+      for (let i = 0; i < testCount; i++) {
+        const startTime = performance.now();
+        await rsa.sign(testMessage, keysByPrimes[variant.primes]);
+        const endTime = performance.now();
+        
+        total += endTime - startTime;
+      }
+      averages.push(total / testCount);
+    }
+    
+    setCrtResults({
+      averages,
+      isLoading: false,
+    });
+  };
+
+  // 实验5：ECDSA不同椭圆曲线的性能
+  const runCurveTest = async () => {
+    setCurveResults(prev => ({ ...prev, isLoading: true }));
+    
+    const ecdsa = new ECDSA();
+    const average = (times: number[]) => times.reduce((sum, time) => sum + time, 0) / times.length;
+    const keyGeneration: number[] = [];
+    const signing: number[] = [];
+    const verification: number[] = [];
+    const sizes: number[] = [];
+    
+    for (const curve of CURVE_NAMES) {
+      const keyTimes: number[] = [];
+      const signTimes: number[] = [];
+      const verifyTimes: number[] = [];
+      let signature: SignatureResult | null = null;
+      
+      for (let i = 0; i < testCount; i++) {
+        let startTime = performance.now();
+        const keys = await ecdsa.generateKeys({ curve });
+        keyTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        signature = await ecdsa.sign(testMessage, keys);
+        signTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        await ecdsa.verify(testMessage, signature, keys);
+        verifyTimes.push(performance.now() - startTime);
+      }
+      
+      keyGeneration.push(average(keyTimes));
+      signing.push(average(signTimes));
+      verification.push(average(verifyTimes));
+      // DER编码签名的字节数
+      sizes.push(signature ? signature.signature.length / 2 : 0);
+    }
+    
+    setCurveResults({
+      keyGeneration,
+      signing,
+      verification,
+      sizes,
+      isLoading: false,
+    });
+  };
+
+  // 实验6：后量子ML-DSA与传统签名算法比较
+  const runPostQuantumTest = async () => {
+    setPqResults(prev => ({ ...prev, isLoading: true }));
+    
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const keyGeneration: number[] = [];
+    const signing: number[] = [];
+    const verification: number[] = [];
+    const publicKeySizes: number[] = [];
+    const signatureSizes: number[] = [];
+    const attempts: number[] = [];
+    
+    for (const config of PQ_CONFIGS) {
+      const algorithm = AlgorithmFactory.getAlgorithm(config.algorithm);
+      const keyTimes: number[] = [];
+      const signTimes: number[] = [];
+      const verifyTimes: number[] = [];
+      const attemptCounts: number[] = [];
+      let keys: KeyPair | null = null;
+      let signature: SignatureResult | null = null;
+      
+      for (let i = 0; i < testCount; i++) {
+        let startTime = performance.now();
+        keys = await algorithm.generateKeys(config.options);
+        keyTimes.push(performance.now() - startTime);
+        
+        startTime = performance.now();
+        signature = await algorithm.sign(testMessage, keys);
+        signTimes.push(performance.now() - startTime);
+        // 只有ML-DSA签名会多次尝试，其余算法记为1次
+        attemptCounts.push(signature.attempts?.length ?? 1);
+        
+        startTime = performance.now();
+        await algorithm.verify(testMessage, signature, keys);
+        verifyTimes.push(performance.now() - startTime);
+      }
+      
+      const sizes = keys && signature ? config.sizes(keys, signature) : { publicKey: 0, signature: 0 };
+      keyGeneration.push(average(keyTimes));
+      signing.push(average(signTimes));
+      verification.push(average(verifyTimes));
+      publicKeySizes.push(sizes.publicKey);
+      signatureSizes.push(sizes.signature);
+      attempts.push(average(attemptCounts));
+    }
+    
+    setPqResults({
+      keyGeneration,
+      signing,
+      verification,
+      publicKeySizes,
+      signatureSizes,
+      attempts,
+      isLoading: false,
+    });
+  };
+
+  // 实验7：BLS签名聚合，比较逐个验证testCount个签名与验证一个聚合签名
+  const runBlsAggregationTest = async () => {
+    setBlsResults(prev => ({ ...prev, isLoading: true }));
+
+    const bls = new BLS();
+    const keys: KeyPair[] = [];
+    const messages: string[] = [];
+    const signatures: SignatureResult[] = [];
+    let keyGeneration = 0;
+    let signing = 0;
+    let verification = 0;
+
+    // 基本方案要求各签名者的消息互不相同
+    for (let i = 0; i < testCount; i++) {
+      const message = `${testMessage} #${i + 1}`;
+
+      let startTime = performance.now();
+      const keyPair = await bls.generateKeys();
+      keyGeneration += performance.now() - startTime;
+
+      startTime = performance.now();
+      const signature = await bls.sign(message, keyPair);
+      signing += performance.now() - startTime;
+
+      startTime = performance.now();
+      await bls.verify(message, signature, keyPair);
+      verification += performance.now() - startTime;
+
+      keys.push(keyPair);
+      messages.push(message);
+      signatures.push(signature);
+    }
+
+    let startTime = performance.now();
+    const aggregated = bls.aggregate(signatures);
+    const aggregation = performance.now() - startTime;
+
+    startTime = performance.now();
+    await bls.verifyAggregate(messages, aggregated, keys);
+    const aggregateVerification = performance.now() - startTime;
+
+    setBlsResults({
+      signerCount: testCount,
+      keyGeneration: keyGeneration / testCount,
+      signing: signing / testCount,
+      verification,
+      aggregation,
+      aggregateVerification,
+      isLoading: false,
+    });
+  };
+
   // 图表数据准备
   const keyGenerationChartData = {
-    labels: ['RSA', 'DSA', 'ECDSA'],
+    labels: ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'],
     datasets: [
       {
         label: '平均密钥生成时间 (ms)',
         data: [
           keyGenerationResults.averages.RSA,
           keyGenerationResults.averages.DSA,
-          keyGenerationResults.averages.ECDSA
+          keyGenerationResults.averages.ECDSA,
+          keyGenerationResults.averages.Ed25519,
+          keyGenerationResults.averages['ML-DSA']
         ],
         backgroundColor: 'rgba(54, 162, 235, 0.6)',
       },
@@ -252,14 +565,16 @@ export default function Performance() {
   };
 
   const signatureChartData = {
-    labels: ['RSA', 'DSA', 'ECDSA'],
+    labels: ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'],
     datasets: [
       {
         label: '平均签名生成时间 (ms)',
         data: [
           signatureResults.averages.RSA,
           signatureResults.averages.DSA,
-          signatureResults.averages.ECDSA
+          signatureResults.averages.ECDSA,
+          signatureResults.averages.Ed25519,
+          signatureResults.averages['ML-DSA']
         ],
         backgroundColor: 'rgba(255, 99, 132, 0.6)',
       }
@@ -267,14 +582,16 @@ export default function Performance() {
   };
 
   const signatureSizeChartData = {
-    labels: ['RSA', 'DSA', 'ECDSA'],
+    labels: ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'],
     datasets: [
       {
         label: '签名大小 (bytes)',
         data: [
           signatureResults.sizes.RSA,
           signatureResults.sizes.DSA,
-          signatureResults.sizes.ECDSA
+          signatureResults.sizes.ECDSA,
+          signatureResults.sizes.Ed25519,
+          signatureResults.sizes['ML-DSA']
         ],
         backgroundColor: 'rgba(153, 102, 255, 0.6)',
       }
@@ -282,20 +599,102 @@ export default function Performance() {
   };
 
   const verificationChartData = {
-    labels: ['RSA', 'DSA', 'ECDSA'],
+    labels: ['RSA', 'DSA', 'ECDSA', 'Ed25519', 'ML-DSA'],
     datasets: [
       {
         label: '平均签名验证时间 (ms)',
         data: [
           verificationResults.averages.RSA,
           verificationResults.averages.DSA,
-          verificationResults.averages.ECDSA
+          verificationResults.averages.ECDSA,
+          verificationResults.averages.Ed25519,
+          verificationResults.averages['ML-DSA']
         ],
         backgroundColor: 'rgba(255, 159, 64, 0.6)',
       }
     ],
   };
 
+  const crtChartData = {
+    labels: CRT_VARIANTS.map(variant => variant.label),
+    datasets: [
+      {
+        label: '平均RSA签名时间 (ms)',
+        data: crtResults.averages,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      }
+    ],
+  };
+
+  const curveChartData = {
+    labels: CURVE_NAMES,
+    datasets: [
+      {
+        label: '平均密钥生成时间 (ms)',
+        data: curveResults.keyGeneration,
+        backgroundColor: 'rgba(54, 162, 235, 0.6)',
+      },
+      {
+        label: '平均签名时间 (ms)',
+        data: curveResults.signing,
+        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+      },
+      {
+        label: '平均验证时间 (ms)',
+        data: curveResults.verification,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      },
+    ],
+  };
+
+  const pqTimeChartData = {
+    labels: PQ_CONFIGS.map(config => config.label),
+    datasets: [
+      {
+        label: '平均密钥生成时间 (ms)',
+        data: pqResults.keyGeneration,
+        backgroundColor: 'rgba(54, 162, 235, 0.6)',
+      },
+      {
+        label: '平均签名时间 (ms)',
+        data: pqResults.signing,
+        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+      },
+      {
+        label: '平均验证时间 (ms)',
+        data: pqResults.verification,
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      },
+    ],
+  };
+
+  const pqSizeChartData = {
+    labels: PQ_CONFIGS.map(config => config.label),
+    datasets: [
+      {
+        label: '公钥大小 (bytes)',
+        data: pqResults.publicKeySizes,
+        backgroundColor: 'rgba(153, 102, 255, 0.6)',
+      },
+      {
+        label: '签名大小 (bytes)',
+        data: pqResults.signatureSizes,
+        backgroundColor: 'rgba(255, 159, 64, 0.6)',
+      },
+    ],
+  };
+
+  const blsChartData = {
+    labels: [`逐个验证${blsResults.signerCount}个签名`, '验证1个聚合签名'],
+    datasets: [
+      {
+        label: '总验证时间 (ms)',
+        data: [blsResults.verification, blsResults.aggregateVerification],
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+      },
+    ],
+  };
+
   return (
     <div className="container">
       {/* 添加粒子背景 */}
@@ -355,6 +754,8 @@ export default function Performance() {
                   <li><strong>RSA:</strong> {keyGenerationResults.averages.RSA.toFixed(2)} ms</li>
                   <li><strong>DSA:</strong> {keyGenerationResults.averages.DSA.toFixed(2)} ms</li>
                   <li><strong>ECDSA:</strong> {keyGenerationResults.averages.ECDSA.toFixed(2)} ms</li>
+                  <li><strong>Ed25519:</strong> {keyGenerationResults.averages.Ed25519.toFixed(2)} ms</li>
+                  <li><strong>ML-DSA:</strong> {keyGenerationResults.averages['ML-DSA'].toFixed(2)} ms</li>
                 </ul>
               </div>
             </div>
@@ -383,6 +784,8 @@ export default function Performance() {
                     <li><strong>RSA:</strong> {signatureResults.averages.RSA.toFixed(2)} ms</li>
                     <li><strong>DSA:</strong> {signatureResults.averages.DSA.toFixed(2)} ms</li>
                     <li><strong>ECDSA:</strong> {signatureResults.averages.ECDSA.toFixed(2)} ms</li>
+                    <li><strong>Ed25519:</strong> {signatureResults.averages.Ed25519.toFixed(2)} ms</li>
+                    <li><strong>ML-DSA:</strong> {signatureResults.averages['ML-DSA'].toFixed(2)} ms</li>
                   </ul>
                 </div>
               </div>
@@ -396,6 +799,8 @@ export default function Performance() {
                     <li><strong>RSA:</strong> {signatureResults.sizes.RSA} bytes</li>
                     <li><strong>DSA:</strong> {signatureResults.sizes.DSA} bytes</li>
                     <li><strong>ECDSA:</strong> {signatureResults.sizes.ECDSA} bytes</li>
+                    <li><strong>Ed25519:</strong> {signatureResults.sizes.Ed25519} bytes</li>
+                    <li><strong>ML-DSA:</strong> {signatureResults.sizes['ML-DSA']} bytes</li>
                   </ul>
                 </div>
               </div>
@@ -424,6 +829,153 @@ export default function Performance() {
                   <li><strong>RSA:</strong> {verificationResults.averages.RSA.toFixed(2)} ms</li>
                   <li><strong>DSA:</strong> {verificationResults.averages.DSA.toFixed(2)} ms</li>
                   <li><strong>ECDSA:</strong> {verificationResults.averages.ECDSA.toFixed(2)} ms</li>
+                  <li><strong>Ed25519:</strong> {verificationResults.averages.Ed25519.toFixed(2)} ms</li>
+                  <li><strong>ML-DSA:</strong> {verificationResults.averages['ML-DSA'].toFixed(2)} ms</li>
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 实验4：RSA CRT私钥运算加速 */}
+        <div className="experiment-section">
+          <h2>实验4：RSA CRT签名加速</h2>
+          <p className="experiment-note">
+            利用中国剩余定理，将模n的大指数运算拆分为模各素数的小规模运算再合并；多素数RSA进一步缩小每次模幂的规模。
+          </p>
+          <button 
+            onClick={runCRTTest}
+            className="experiment-btn"
+            disabled={crtResults.isLoading}
+          >
+            {crtResults.isLoading ? '测试中...' : '运行CRT加速测试'}
+          </button>
+
+          {crtResults.averages.length > 0 && (
+            <div className="chart-container">
+              <h3>平均RSA签名时间 (ms)</h3>
+              <Bar options={options} data={crtChartData} />
+              <div className="result-details">
+                <h4>详细结果:</h4>
+                <ul>
+                  {CRT_VARIANTS.map((variant, index) => (
+                    <li key={variant.label}>
+                      <strong>{variant.label}:</strong> {crtResults.averages[index].toFixed(2)} ms
+                      {index > 0 && ` (加速比 ${(crtResults.averages[0] / crtResults.averages[index]).toFixed(2)}×)`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 实验5：ECDSA椭圆曲线比较 */}
+        <div className="experiment-section">
+          <h2>实验5：ECDSA椭圆曲线比较</h2>
+          <p className="experiment-note">
+            曲线越大，安全强度越高，点乘运算越慢；P-384和P-521分别搭配SHA-384和SHA-512，签名长度随曲线阶的位长增长。
+          </p>
+          <button 
+            onClick={runCurveTest}
+            className="experiment-btn"
+            disabled={curveResults.isLoading}
+          >
+            {curveResults.isLoading ? '测试中...' : '运行曲线比较测试'}
+          </button>
+
+          {curveResults.signing.length > 0 && (
+            <div className="chart-container">
+              <h3>各曲线的平均运算时间 (ms)</h3>
+              <Bar options={options} data={curveChartData} />
+              <div className="result-details">
+                <h4>详细结果:</h4>
+                <ul>
+                  {CURVE_NAMES.map((curve, index) => (
+                    <li key={curve}>
+                      <strong>{curve} ({CURVES[curve].bits}位, {CURVES[curve].hash}):</strong>{' '}
+                      密钥生成 {curveResults.keyGeneration[index].toFixed(2)} ms，
+                      签名 {curveResults.signing[index].toFixed(2)} ms，
+                      验证 {curveResults.verification[index].toFixed(2)} ms，
+                      签名大小 {curveResults.sizes[index]} bytes
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 实验6：后量子ML-DSA比较 */}
+        <div className="experiment-section">
+          <h2>实验6：后量子ML-DSA与传统签名比较</h2>
+          <p className="experiment-note">
+            ML-DSA的运算只有多项式乘法和哈希，签名与验证都很快，但公钥和签名达到数KB，比ECDSA、Ed25519大几十倍；签名时还需要平均4–5次拒绝采样尝试。
+          </p>
+          <button 
+            onClick={runPostQuantumTest}
+            className="experiment-btn"
+            disabled={pqResults.isLoading}
+          >
+            {pqResults.isLoading ? '测试中...' : '运行后量子比较测试'}
+          </button>
+
+          {pqResults.signing.length > 0 && (
+            <>
+              <div className="chart-container">
+                <h3>平均运算时间 (ms)</h3>
+                <Bar options={options} data={pqTimeChartData} />
+              </div>
+              
+              <div className="chart-container">
+                <h3>公钥与签名大小 (bytes)</h3>
+                <Bar options={options} data={pqSizeChartData} />
+                <div className="result-details">
+                  <h4>详细结果:</h4>
+                  <ul>
+                    {PQ_CONFIGS.map((config, index) => (
+                      <li key={config.label}>
+                        <strong>{config.label}:</strong>{' '}
+                        密钥生成 {pqResults.keyGeneration[index].toFixed(2)} ms，
+                        签名 {pqResults.signing[index].toFixed(2)} ms，
+                        验证 {pqResults.verification[index].toFixed(2)} ms，
+                        公钥 {pqResults.publicKeySizes[index]} bytes，
+                        签名 {pqResults.signatureSizes[index]} bytes
+                        {config.algorithm === 'ML-DSA' && `，平均尝试 ${pqResults.attempts[index].toFixed(1)} 次`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* 实验7：BLS签名聚合 */}
+        <div className="experiment-section">
+          <h2>实验7：BLS签名聚合</h2>
+          <p className="experiment-note">
+            按“测试次数”生成同样数量的BLS签名者，各自签署不同的消息后聚合为一个签名。每次配对都要做一次最终幂，
+            逐个验证n个签名需要2n次Miller循环与n次最终幂，验证聚合签名只需n + 1次Miller循环与一次最终幂。
+          </p>
+          <button
+            onClick={runBlsAggregationTest}
+            className="experiment-btn"
+            disabled={blsResults.isLoading}
+          >
+            {blsResults.isLoading ? '测试中...' : '运行BLS聚合测试'}
+          </button>
+
+          {blsResults.signerCount > 0 && (
+            <div className="chart-container">
+              <h3>验证时间 (ms)</h3>
+              <Bar options={options} data={blsChartData} />
+              <div className="result-details">
+                <h4>详细结果（{blsResults.signerCount}个签名者）:</h4>
+                <ul>
+                  <li>平均密钥生成: {blsResults.keyGeneration.toFixed(2)} ms，平均签名: {blsResults.signing.toFixed(2)} ms</li>
+                  <li>逐个验证: {blsResults.verification.toFixed(2)} ms，聚合: {blsResults.aggregation.toFixed(2)} ms，验证聚合签名: {blsResults.aggregateVerification.toFixed(2)} ms</li>
+                  <li>签名总大小: {blsResults.signerCount} × 96 = {blsResults.signerCount * 96} bytes → 聚合后 96 bytes</li>
                 </ul>
               </div>
             </div>
@@ -503,6 +1055,12 @@ export default function Performance() {
           margin-bottom: 1rem;
         }
 
+        .experiment-note {
+          color: #555;
+          margin-top: 0;
+          margin-bottom: 1rem;
+        }
+
         .experiment-btn {
           background-color: #0070f3;
           color: white;
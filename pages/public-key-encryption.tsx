@@ -2,11 +2,18 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ParticleBackground from '../components/ParticleBackground';
 import Link from 'next/link';
-import { EncryptionAlgorithmFactory, KeyPair, EncryptionResult } from '../algorithms';
+import { EncryptionAlgorithmFactory, KeyPair, EncryptionResult, IntegrityError, KeyGenerationOptions, asJwkCodec } from '../algorithms';
+import KeySizeSelector from '../components/KeySizeSelector';
+import JwkPanel from '../components/JwkPanel';
+import LatticeNoiseChart from '../components/LatticeNoiseChart';
+import ElGamalHomomorphicPanel from '../components/ElGamalHomomorphicPanel';
+import RabinRootsPanel from '../components/RabinRootsPanel';
 
 export default function PublicKeyEncryptionPage() {
   // 算法选择状态
   const [algorithm, setAlgorithm] = useState('RSA');
+  // 密钥生成选项（密钥长度），空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
   // 消息状态
   const [message, setMessage] = useState('');
   // 加密结果状态
@@ -21,6 +28,10 @@ export default function PublicKeyEncryptionPage() {
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   // 加载状态
   const [isLoading, setIsLoading] = useState(false);
+  // 密文是否已被篡改（攻击演示）
+  const [isTampered, setIsTampered] = useState(false);
+  // 完整性校验失败信息
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
 
   // 获取可用的加密算法
   const availableAlgorithms = EncryptionAlgorithmFactory.getAvailableAlgorithms();
@@ -37,7 +48,7 @@ export default function PublicKeyEncryptionPage() {
       const encryptionAlgorithm = EncryptionAlgorithmFactory.getAlgorithm(algorithm);
       
       // 生成新的密钥对
-      const newKeys = await encryptionAlgorithm.generateKeys();
+      const newKeys = await encryptionAlgorithm.generateKeys(keyOptions);
       setCurrentKeys(newKeys);
       
       // 设置动画状态和提示信息
@@ -47,6 +58,8 @@ export default function PublicKeyEncryptionPage() {
       // 重置加密和解密结果
       setEncryptionResult(null);
       setDecryptedMessage(null);
+      setIsTampered(false);
+      setIntegrityError(null);
     } catch (error) {
       console.error('密钥生成错误:', error);
       setStatusMessage('密钥生成失败，请重试');
@@ -55,6 +68,21 @@ export default function PublicKeyEncryptionPage() {
     }
   };
 
+  /**
+   * 使用导入的JWK密钥对
+   */
+  const importKeys = (importedKeys: KeyPair) => {
+    setCurrentKeys(importedKeys);
+    setAnimation('keys-generated');
+    setStatusMessage('JWK导入成功，可以继续加密消息');
+
+    // 重置加密和解密结果
+    setEncryptionResult(null);
+    setDecryptedMessage(null);
+    setIsTampered(false);
+    setIntegrityError(null);
+  };
+
   /**
    * 加密消息
    */
@@ -84,8 +112,10 @@ export default function PublicKeyEncryptionPage() {
       setAnimation('message-encrypted');
       setStatusMessage('消息加密成功，可以继续解密');
       
-      // 重置解密结果
+      // 重置解密结果与攻击状态
       setDecryptedMessage(null);
+      setIsTampered(false);
+      setIntegrityError(null);
     } catch (error) {
       console.error('加密错误:', error);
       setStatusMessage('加密失败，请重试');
@@ -135,6 +165,14 @@ export default function PublicKeyEncryptionPage() {
         setStatusMessage('消息解密成功，但结果与原始消息不匹配');
       }
     } catch (error) {
+      // MAC校验失败：密文被篡改，拒绝输出任何明文
+      if (error instanceof IntegrityError) {
+        setDecryptedMessage(null);
+        setIntegrityError(error.message);
+        setAnimation('integrity-failed');
+        setStatusMessage('完整性校验失败：检测到密文被篡改，已拒绝解密');
+        return;
+      }
       console.error('解密错误:', error);
       setStatusMessage('解密失败，请重试');
     } finally {
@@ -142,6 +180,24 @@ export default function PublicKeyEncryptionPage() {
     }
   };
 
+  /**
+   * 篡改密文：翻转密文第一个字节的最低位，模拟中间人攻击
+   */
+  const tamperCiphertext = () => {
+    if (!encryptionResult) return;
+    
+    const bytes = Uint8Array.from(atob(encryptionResult.ciphertext), c => c.charCodeAt(0));
+    bytes[0] ^= 0x01;
+    const tamperedCiphertext = btoa(String.fromCharCode(...Array.from(bytes)));
+    
+    setEncryptionResult({ ...encryptionResult, ciphertext: tamperedCiphertext });
+    setIsTampered(true);
+    setDecryptedMessage(null);
+    setIntegrityError(null);
+    setAnimation('ciphertext-tampered');
+    setStatusMessage('攻击者翻转了密文中的一个比特，尝试解密看看会发生什么');
+  };
+
   /**
    * 重置所有状态
    */
@@ -152,6 +208,8 @@ export default function PublicKeyEncryptionPage() {
     setDecryptedMessage(null);
     setAnimation(null);
     setStatusMessage(null);
+    setIsTampered(false);
+    setIntegrityError(null);
   };
 
   /**
@@ -211,6 +269,7 @@ export default function PublicKeyEncryptionPage() {
               className={`algorithm-button ${algorithm === algo ? 'selected' : ''}`}
               onClick={() => {
                 setAlgorithm(algo);
+                setKeyOptions({});
                 resetAll();
               }}
             >
@@ -219,6 +278,16 @@ export default function PublicKeyEncryptionPage() {
           ))}
         </div>
         
+        {/* 密钥长度选择器 */}
+        <KeySizeSelector
+          algorithm={algorithm}
+          value={keyOptions}
+          onChange={(options) => {
+            setKeyOptions(options);
+            resetAll();
+          }}
+        />
+        
         {/* 算法描述 */}
         <motion.div 
           className="algorithm-description"
@@ -257,6 +326,13 @@ export default function PublicKeyEncryptionPage() {
               >
                 {isLoading && animation === 'keys-generated' ? '生成中...' : '生成密钥对'}
               </button>
+              {/* JWK导入导出（RSA和ECC） */}
+              <JwkPanel
+                algorithm={algorithm}
+                codec={asJwkCodec(EncryptionAlgorithmFactory.getAlgorithm(algorithm))}
+                keys={currentKeys}
+                onImport={importKeys}
+              />
             </div>
             
             {/* 消息加密 - Now step 3 */}
@@ -271,6 +347,22 @@ export default function PublicKeyEncryptionPage() {
               </button>
             </div>
             
+            {/* 攻击演示：仅对带认证标签的方案开放 */}
+            {encryptionResult?.tag && (
+              <div className="control-group">
+                <h3>攻击演示: 篡改密文</h3>
+                <motion.button
+                  className="attack-button"
+                  onClick={tamperCiphertext}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  disabled={isTampered || isLoading}
+                >
+                  {isTampered ? '密文已篡改' : '翻转密文比特'}
+                </motion.button>
+              </div>
+            )}
+            
             {/* 消息解密 - Now step 4 */}
             <div className="control-group">
               <h3>步骤 4: 消息解密</h3>
@@ -437,6 +529,17 @@ export default function PublicKeyEncryptionPage() {
                             </div>
                           )}
                           
+                          {encryptionResult.tag && (
+                            <div className="metadata-item">
+                              <span className="metadata-label">认证标签(MAC):</span>
+                              <span className="metadata-value">{truncateString(encryptionResult.tag, 30)}</span>
+                            </div>
+                          )}
+                          
+                          {isTampered && (
+                            <div className="tamper-note">⚠ 密文已被攻击者篡改（第1个字节的最低位被翻转）</div>
+                          )}
+                          
                           {encryptionResult.metadata && (
                             <div className="additional-metadata">
                               <details>
@@ -452,6 +555,55 @@ export default function PublicKeyEncryptionPage() {
                 )}
               </AnimatePresence>
               
+              {/* 完整性校验失败可视化 */}
+              <AnimatePresence>
+                {integrityError && (
+                  <motion.div 
+                    className="decryption-visualization"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.7, delay: 0.2 }}
+                  >
+                    <h3>解密过程</h3>
+                    
+                    <div className="decryption-flow">
+                      {/* 被篡改的密文 */}
+                      <motion.div 
+                        className="ciphertext-box tampered"
+                        initial={{ scale: 0.9 }}
+                        animate={{ scale: 1 }}
+                        transition={{ duration: 0.5 }}
+                      >
+                        <h4>被篡改的密文</h4>
+                        <div className="ciphertext-content">{truncateString(encryptionResult?.ciphertext || '', 60)}</div>
+                      </motion.div>
+                      
+                      {/* 箭头 */}
+                      <motion.div 
+                        className="flow-arrow"
+                        initial={{ scaleX: 0 }}
+                        animate={{ scaleX: 1 }}
+                        transition={{ duration: 0.8, delay: 0.3 }}
+                      />
+                      
+                      {/* MAC校验结果 */}
+                      <motion.div 
+                        className="plaintext-box"
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        transition={{ duration: 0.5, delay: 0.6 }}
+                      >
+                        <h4>HMAC标签校验</h4>
+                        <div className="verification-failure">✗ {integrityError}</div>
+                        <div className="simulation-note">
+                          接收方在解密前重新计算 HMAC(K_MAC, IV || 密文)，与收到的标签不一致，因此拒绝输出任何明文
+                        </div>
+                      </motion.div>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              
               {/* 解密过程可视化 */}
               <AnimatePresence>
                 {decryptedMessage && (
@@ -529,6 +681,21 @@ export default function PublicKeyEncryptionPage() {
                   </motion.div>
                 )}
               </AnimatePresence>
+              
+              {/* ML-KEM格噪声可视化：解密成功后展示接收方看到的噪声 */}
+              {algorithm === 'ML-KEM' && decryptedMessage !== null && encryptionResult && currentKeys && (
+                <LatticeNoiseChart encryptionResult={encryptionResult} keys={currentKeys} />
+              )}
+
+              {/* ElGamal同态运算：重新随机化与指数ElGamal加法 */}
+              {algorithm === 'ElGamal' && encryptionResult && currentKeys && (
+                <ElGamalHomomorphicPanel encryptionResult={encryptionResult} keys={currentKeys} />
+              )}
+
+              {/* Rabin解密：四个平方根与冗余检查，篡改后同样展示 */}
+              {algorithm === 'Rabin' && (decryptedMessage !== null || integrityError) && encryptionResult && currentKeys && (
+                <RabinRootsPanel encryptionResult={encryptionResult} keys={currentKeys} />
+              )}
             </div>
           </div>
         </div>
@@ -668,6 +835,24 @@ export default function PublicKeyEncryptionPage() {
           color: #f57f17;
         }
         
+        .status-message.ciphertext-tampered,
+        .status-message.integrity-failed {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+        
+        .tamper-note {
+          margin-top: 0.8rem;
+          color: #c62828;
+          font-size: 0.85rem;
+          font-weight: 600;
+        }
+        
+        .ciphertext-box.tampered {
+          background: #ffebee;
+          border-left-color: #e74c3c;
+        }
+        
         .key-visualization-container {
           margin-bottom: 2rem;
         }
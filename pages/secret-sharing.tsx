@@ -0,0 +1,639 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import KeySizeSelector from '../components/KeySizeSelector';
+import ShamirPolynomialChart from '../components/ShamirPolynomialChart';
+import Link from 'next/link';
+import { AlgorithmFactory, EncryptionAlgorithmFactory, KeyPair, KeyGenerationOptions } from '../algorithms';
+import {
+  SHAREABLE_ALGORITHMS,
+  SplitResult,
+  getPrivateKeySecret,
+  recoverSecret,
+  splitSecret,
+  withPrivateKeySecret
+} from '../algorithms/secret-sharing';
+
+// 签名算法用恢复的私钥签名来检验，加密算法用恢复的私钥解密来检验
+const SIGNATURE_ALGORITHMS = ['RSA', 'DSA', 'ECDSA'];
+
+// 检验恢复的私钥时使用的消息
+const TEST_MESSAGE = 'Shamir秘密共享';
+
+// 用恢复的私钥签名或解密的结果
+interface KeyCheck {
+  passed: boolean;
+  detail: string;
+}
+
+export default function SecretSharingPage() {
+  // 当前选中的算法
+  const [algorithm, setAlgorithm] = useState('RSA');
+  // 密钥生成选项，空对象表示使用算法默认值
+  const [keyOptions, setKeyOptions] = useState<KeyGenerationOptions>({});
+  // 要备份的密钥对
+  const [keys, setKeys] = useState<KeyPair | null>(null);
+  // 份额数n与门限t
+  const [shareCount, setShareCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  // 拆分结果
+  const [split, setSplit] = useState<SplitResult | null>(null);
+  // 参与恢复的份额下标
+  const [selected, setSelected] = useState<number[]>([]);
+  // 插值恢复出的私钥整数
+  const [recovered, setRecovered] = useState<bigint | null>(null);
+  // 恢复的私钥能否正常使用
+  const [keyCheck, setKeyCheck] = useState<KeyCheck | null>(null);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isSignature = SIGNATURE_ALGORITHMS.includes(algorithm);
+
+  /**
+   * 生成要备份的密钥对
+   */
+  const generateKeys = async () => {
+    try {
+      setIsLoading(true);
+      setStatusMessage(`正在生成${algorithm}密钥...`);
+
+      const generator = isSignature ? AlgorithmFactory.getAlgorithm(algorithm) : EncryptionAlgorithmFactory.getAlgorithm(algorithm);
+      setKeys(await generator.generateKeys(keyOptions));
+      resetShares();
+
+      setAnimation('keys-generated');
+      setStatusMessage(`已生成${algorithm}密钥，私钥${SHAREABLE_ALGORITHMS[algorithm]}将被拆分成多个份额`);
+    } catch (error) {
+      console.error('密钥生成错误:', error);
+      setStatusMessage('密钥生成失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 把私钥作为多项式的常数项拆分成n个份额
+   */
+  const splitKey = () => {
+    if (!keys) return;
+
+    try {
+      setSplit(splitSecret(getPrivateKeySecret(algorithm, keys), shareCount, threshold));
+      // 默认选中前t个份额
+      setSelected(Array.from({ length: threshold }, (_, i) => i));
+      setRecovered(null);
+      setKeyCheck(null);
+
+      setAnimation('key-split');
+      setStatusMessage(`私钥已拆分为${shareCount}个份额，任意${threshold}个即可恢复`);
+    } catch (error) {
+      console.error('拆分错误:', error);
+      setStatusMessage(error instanceof Error ? error.message : '拆分失败，请重试');
+    }
+  };
+
+  /**
+   * 选中或取消选中一个份额
+   */
+  const toggleShare = (index: number) => {
+    setSelected(selected.includes(index)
+      ? selected.filter(i => i !== index)
+      : [...selected, index].sort((a, b) => a - b));
+    setRecovered(null);
+    setKeyCheck(null);
+  };
+
+  /**
+   * 用所选份额插值恢复私钥，并检验它能否签名或解密
+   */
+  const recoverKey = async () => {
+    if (!keys || !split || selected.length === 0) return;
+
+    try {
+      setIsLoading(true);
+      const secret = recoverSecret(selected.map(index => split.shares[index]), split.prime);
+      setRecovered(secret);
+
+      const restored = withPrivateKeySecret(algorithm, keys, secret);
+      const check = await checkRecoveredKey(restored);
+      setKeyCheck(check);
+
+      setAnimation(check.passed ? 'key-recovered' : 'key-mismatch');
+      setStatusMessage(secret === split.coefficients[0]
+        ? `${selected.length}个份额恢复出了原私钥`
+        : `只有${selected.length}个份额，少于门限${split.threshold}，插值得到的是一个无关的值`);
+    } catch (error) {
+      console.error('恢复错误:', error);
+      setStatusMessage(error instanceof Error ? error.message : '恢复失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 签名算法：用恢复的私钥签名，再用原公钥验证；加密算法：用原公钥加密，再用恢复的私钥解密
+   */
+  const checkRecoveredKey = async (restored: KeyPair): Promise<KeyCheck> => {
+    if (!keys) {
+      return { passed: false, detail: '没有密钥' };
+    }
+
+    try {
+      if (isSignature) {
+        const signer = AlgorithmFactory.getAlgorithm(algorithm);
+        const signature = await signer.sign(TEST_MESSAGE, restored);
+        const passed = await signer.verify(TEST_MESSAGE, signature, keys);
+        return {
+          passed,
+          detail: passed ? '用恢复的私钥生成的签名通过了原公钥的验证' : '用恢复的私钥生成的签名无法通过原公钥的验证'
+        };
+      }
+
+      const cipher = EncryptionAlgorithmFactory.getAlgorithm(algorithm);
+      const encrypted = await cipher.encrypt(TEST_MESSAGE, keys.publicKey);
+      const decrypted = await cipher.decrypt(encrypted, restored.privateKey);
+      return {
+        passed: decrypted === TEST_MESSAGE,
+        detail: decrypted === TEST_MESSAGE ? `用恢复的私钥解密得到“${decrypted}”` : '用恢复的私钥解密得到了错误的结果'
+      };
+    } catch (error) {
+      return { passed: false, detail: `恢复的私钥无法使用：${error instanceof Error ? error.message : '运算失败'}` };
+    }
+  };
+
+  /**
+   * 清空份额与恢复结果
+   */
+  const resetShares = () => {
+    setSplit(null);
+    setSelected([]);
+    setRecovered(null);
+    setKeyCheck(null);
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setKeys(null);
+    resetShares();
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        秘密共享可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content secret-sharing-page">
+        {/* 算法选择器 */}
+        <div className="algorithm-selector">
+          {Object.keys(SHAREABLE_ALGORITHMS).map(algo => (
+            <button
+              key={algo}
+              className={`algorithm-button ${algorithm === algo ? 'selected' : ''}`}
+              onClick={() => {
+                setAlgorithm(algo);
+                setKeyOptions({});
+                resetAll();
+              }}
+            >
+              {algo}
+            </button>
+          ))}
+        </div>
+
+        {/* 密钥长度选择器 */}
+        <KeySizeSelector
+          algorithm={algorithm}
+          value={keyOptions}
+          onChange={(options) => {
+            setKeyOptions(options);
+            resetAll();
+          }}
+        />
+
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>
+            Shamir秘密共享（1979）把秘密放在随机多项式的常数项上，分发者把多项式上的n个点分给n个保管人。
+            任意t个保管人合作即可用拉格朗日插值恢复秘密，少于t个人则得不到关于秘密的任何信息，
+            常用于私钥的备份与托管：丢失部分份额不影响恢复，单个保管人也无法私自使用私钥。
+          </p>
+        </motion.div>
+
+        <div className="sharing-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            <div className="control-group">
+              <h3>步骤 1: 生成密钥</h3>
+              <button
+                className="action-button"
+                onClick={generateKeys}
+                disabled={isLoading}
+              >
+                {isLoading && !keys ? '生成中...' : `生成${algorithm}密钥`}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 拆分私钥</h3>
+              <div className="parameter-inputs">
+                <label>
+                  份额数 n
+                  <input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={shareCount}
+                    onChange={(e) => {
+                      const n = Math.min(10, Math.max(2, Math.floor(Number(e.target.value) || 2)));
+                      setShareCount(n);
+                      setThreshold(Math.min(threshold, n));
+                      resetShares();
+                    }}
+                  />
+                </label>
+                <label>
+                  门限 t
+                  <input
+                    type="number"
+                    min={2}
+                    max={shareCount}
+                    value={threshold}
+                    onChange={(e) => {
+                      setThreshold(Math.min(shareCount, Math.max(2, Math.floor(Number(e.target.value) || 2))));
+                      resetShares();
+                    }}
+                  />
+                </label>
+              </div>
+              <button
+                className="action-button"
+                onClick={splitKey}
+                disabled={!keys || isLoading}
+              >
+                拆分为{shareCount}个份额
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 选择份额并恢复</h3>
+              <p className="hint">在右侧点击份额以选中或取消，可以尝试少于门限的份额。</p>
+              <button
+                className="action-button"
+                onClick={recoverKey}
+                disabled={!split || selected.length === 0 || isLoading}
+              >
+                用{selected.length}个份额恢复私钥
+              </button>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-sharing">
+            <h2>可视化区域</h2>
+
+            {keys && (
+              <div className="original-key">
+                <strong>原私钥 {SHAREABLE_ALGORITHMS[algorithm]}</strong> = {truncateString(getPrivateKeySecret(algorithm, keys).toString(), 48)}
+              </div>
+            )}
+
+            {/* 份额卡片 */}
+            {split && (
+              <div className="shares">
+                {split.shares.map((share, index) => (
+                  <button
+                    key={index}
+                    className={`share-card ${selected.includes(index) ? 'selected' : ''}`}
+                    onClick={() => toggleShare(index)}
+                    disabled={isLoading}
+                  >
+                    <div className="share-name">保管人 S{index + 1}</div>
+                    <div className="formula">({share.x.toString()}, f({share.x.toString()}))</div>
+                    <code>{truncateString(share.y.toString(), 16)}</code>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {split && <ShamirPolynomialChart split={split} selected={selected} recovered={recovered} />}
+
+            {/* 恢复结果 */}
+            <AnimatePresence>
+              {recovered !== null && keyCheck && split && (
+                <motion.div
+                  className={`result ${keyCheck.passed ? 'passed' : 'failed'}`}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  <h3>{recovered === split.coefficients[0] ? '✓ 恢复出原私钥' : '✗ 恢复的值与原私钥不同'}</h3>
+                  <div className="formula">f(0) = Σ λᵢ·yᵢ mod p</div>
+                  <code>{truncateString(recovered.toString(), 48)}</code>
+                  <p className="check-detail">{keyCheck.detail}</p>
+                  {algorithm === 'RSA' && (
+                    <p className="simulation-note">
+                      RSA私钥还包含p、q等CRT参数，它们同样能推出d；这里只共享d，重建的私钥不带CRT参数，签名只用恢复出的d完成。
+                    </p>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .secret-sharing-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .sharing-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-sharing {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        .action-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .action-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .parameter-inputs {
+          display: flex;
+          gap: 1rem;
+          margin-bottom: 1rem;
+        }
+
+        .parameter-inputs label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #555;
+          font-size: 0.9rem;
+        }
+
+        .parameter-inputs input {
+          width: 5rem;
+          padding: 0.4rem;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .hint {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0 0 0.8rem;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.keys-generated,
+        .status-message.key-split {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.key-recovered {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .status-message.key-mismatch {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+
+        .original-key {
+          margin-bottom: 1.5rem;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border-radius: 8px;
+          font-family: monospace;
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .shares {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.8rem;
+        }
+
+        .share-card {
+          flex: 1;
+          min-width: 120px;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border: 2px solid transparent;
+          border-radius: 8px;
+          cursor: pointer;
+          text-align: center;
+        }
+
+        .share-card.selected {
+          background: #e3f2fd;
+          border-color: #4a90e2;
+        }
+
+        .share-name {
+          font-weight: 600;
+          color: #333;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+          margin-bottom: 0.4rem;
+        }
+
+        code {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #555;
+          word-break: break-all;
+        }
+
+        .result {
+          margin-top: 2rem;
+          padding: 1rem;
+          border-radius: 8px;
+        }
+
+        .result.passed {
+          background: #e8f5e9;
+          border-left: 4px solid #4caf50;
+        }
+
+        .result.failed {
+          background: #ffebee;
+          border-left: 4px solid #e57373;
+        }
+
+        .check-detail {
+          margin: 0.8rem 0 0;
+          font-weight: 600;
+          color: #444;
+        }
+
+        .simulation-note {
+          margin-top: 0.8rem;
+          color: #555;
+          font-size: 0.8rem;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .sharing-container {
+            flex-direction: column;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
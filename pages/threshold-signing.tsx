@@ -0,0 +1,792 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import ParticleBackground from '../components/ParticleBackground';
+import UserRole from '../components/UserRole';
+import Link from 'next/link';
+import { AlgorithmFactory } from '../algorithms';
+import {
+  DkgResult,
+  NonceCommitment,
+  SignatureShare,
+  SigningNonces,
+  SigningPackage,
+  aggregate,
+  commitNonces,
+  createSigningPackage,
+  pointToHex,
+  runDkg,
+  signShare,
+  verifyProofOfKnowledge,
+  verifyShare,
+  verifySignatureShare
+} from '../algorithms/frost';
+import { getCurve } from '../algorithms/curves';
+
+// 参与者数量的范围
+const MIN_PARTICIPANTS = 3;
+const MAX_PARTICIPANTS = 7;
+
+// 聚合签名用现有的BIP-340 Schnorr验证
+const schnorr = AlgorithmFactory.getAlgorithm('Schnorr');
+const { n: ORDER } = getCurve('secp256k1');
+
+// 签名者第一轮的输出：随机数留在本地，承诺广播给其他签名者
+interface NonceRound {
+  nonces: SigningNonces;
+  commitment: NonceCommitment;
+}
+
+// 其他参与者对某个参与者DKG数据的检查结果
+interface DkgCheck {
+  proof: boolean;     // 知识证明是否有效
+  shares: boolean[];  // 发给各参与者的份额是否与承诺一致
+}
+
+export default function ThresholdSigningPage() {
+  // 参与者数n与门限t
+  const [participantCount, setParticipantCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  // 分布式密钥生成的结果
+  const [dkg, setDkg] = useState<DkgResult | null>(null);
+  const [dkgChecks, setDkgChecks] = useState<DkgCheck[]>([]);
+  // 本次签名的签名者编号（从1开始）
+  const [signers, setSigners] = useState<number[]>([]);
+  // 待签名的消息
+  const [message, setMessage] = useState('向多签金库转账 1 BTC');
+  // 签名第一轮：各签名者的随机数与承诺
+  const [nonceRounds, setNonceRounds] = useState<NonceRound[] | null>(null);
+  // 签名上下文：绑定因子、拉格朗日系数、群承诺R与挑战值c
+  const [signingPackage, setSigningPackage] = useState<SigningPackage | null>(null);
+  // 签名第二轮：各签名者的部分签名
+  const [signatureShares, setSignatureShares] = useState<SignatureShare[] | null>(null);
+  // 聚合者对各部分签名的验证结果，与signatureShares一一对应
+  const [shareChecks, setShareChecks] = useState<boolean[]>([]);
+  // 聚合后的签名及其验证结果
+  const [signature, setSignature] = useState<string | null>(null);
+  const [verified, setVerified] = useState<boolean | null>(null);
+  // 动画状态
+  const [animation, setAnimation] = useState<string | null>(null);
+  // 状态提示
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // 加载状态
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * 所有参与者运行分布式密钥生成，群私钥不在任何一方出现
+   */
+  const generateKeys = async () => {
+    try {
+      setIsLoading(true);
+      setStatusMessage('参与者正在交换多项式承诺与份额...');
+
+      const result = runDkg(participantCount, threshold);
+      setDkg(result);
+      setDkgChecks(result.packages.map((pkg, i) => ({
+        proof: verifyProofOfKnowledge(pkg),
+        shares: result.shares[i].map((share, j) => verifyShare(share, j + 1, pkg.commitments))
+      })));
+      // 默认由前t个参与者签名
+      setSigners(Array.from({ length: threshold }, (_, i) => i + 1));
+      resetSigning();
+
+      setAnimation('keys-generated');
+      setStatusMessage(`DKG完成：${participantCount}个参与者各持有一个份额，任意${threshold}人即可签名`);
+    } catch (error) {
+      console.error('密钥生成错误:', error);
+      setStatusMessage(error instanceof Error ? error.message : '密钥生成失败，请重试');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 选中或取消选中一个签名者
+   */
+  const toggleSigner = (index: number) => {
+    if (!dkg || isLoading) return;
+    setSigners(signers.includes(index)
+      ? signers.filter(i => i !== index)
+      : [...signers, index].sort((a, b) => a - b));
+    resetSigning();
+  };
+
+  /**
+   * 签名第一轮：每个签名者生成一次性随机数(d_i, e_i)并广播承诺(D_i, E_i)
+   */
+  const exchangeCommitments = () => {
+    if (!dkg || signers.length === 0) return;
+
+    const rounds = signers.map(index => commitNonces(index));
+    setNonceRounds(rounds);
+    setSigningPackage(createSigningPackage(message, rounds.map(round => round.commitment), dkg.groupPublicKey));
+    updateShares(null);
+
+    setAnimation('commitments');
+    setStatusMessage(`${signers.length}个签名者广播了随机数承诺，绑定因子ρᵢ已确定`);
+  };
+
+  /**
+   * 签名第二轮：每个签名者用自己的份额计算部分签名
+   */
+  const computeShares = () => {
+    if (!dkg || !nonceRounds || !signingPackage) return;
+
+    try {
+      updateShares(nonceRounds.map(round =>
+        signShare(dkg.keyShares[round.nonces.index - 1], round.nonces, signingPackage)
+      ));
+
+      setAnimation('shares');
+      setStatusMessage('各签名者提交了部分签名，聚合者用验证份额Yᵢ逐一检查');
+    } catch (error) {
+      setAnimation('invalid');
+      setStatusMessage(error instanceof Error ? error.message : '部分签名失败');
+    }
+  };
+
+  /**
+   * 模拟第一个签名者提交错误的部分签名
+   */
+  const tamperShare = () => {
+    if (!signatureShares) return;
+
+    updateShares(signatureShares.map((share, i) => i === 0 ? { ...share, z: (share.z + 1n) % ORDER } : share));
+
+    setAnimation('invalid');
+    setStatusMessage(`P${signatureShares[0].index}提交了错误的部分签名`);
+  };
+
+  /**
+   * 更新部分签名并逐一验证，清空旧的聚合结果
+   */
+  const updateShares = (shares: SignatureShare[] | null) => {
+    setSignatureShares(shares);
+    setShareChecks(dkg && signingPackage && shares
+      ? shares.map(share => verifySignatureShare(share, dkg.keyShares[share.index - 1].verificationShare, signingPackage))
+      : []);
+    setSignature(null);
+    setVerified(null);
+  };
+
+  /**
+   * 聚合部分签名，并用群公钥的x坐标按BIP-340验证
+   */
+  const aggregateSignature = async () => {
+    if (!dkg || !signingPackage || !signatureShares) return;
+
+    try {
+      setIsLoading(true);
+      const aggregated = aggregate(signingPackage, signatureShares);
+      const valid = await schnorr.verify(message, aggregated, {
+        publicKey: { x: dkg.publicKey, curve: 'secp256k1' },
+        privateKey: null
+      });
+      setSignature(aggregated);
+      setVerified(valid);
+
+      setAnimation(valid ? 'verified' : 'invalid');
+      setStatusMessage(valid
+        ? '聚合签名是一个普通的Schnorr签名，验证者无法看出它由多方生成'
+        : '聚合签名验证失败：其中包含错误的部分签名');
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? error.message : '聚合失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 清空签名过程
+   */
+  const resetSigning = () => {
+    setNonceRounds(null);
+    setSigningPackage(null);
+    setSignatureShares(null);
+    setShareChecks([]);
+    setSignature(null);
+    setVerified(null);
+  };
+
+  /**
+   * 重置所有状态
+   */
+  const resetAll = () => {
+    setDkg(null);
+    setDkgChecks([]);
+    setSigners([]);
+    resetSigning();
+    setAnimation(null);
+    setStatusMessage(null);
+  };
+
+  /**
+   * 截断长字符串
+   */
+  const truncateString = (str: string, maxLength: number = 24) => {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength / 2) + '...' + str.substring(str.length - maxLength / 2);
+  };
+
+  // 大整数按十六进制缩写显示
+  const hex = (value: bigint, maxLength: number = 16) => truncateString(value.toString(16), maxLength);
+
+  // 签名者在签名上下文中的位置
+  const positionOf = (index: number) => signingPackage?.commitments.findIndex(c => c.index === index) ?? -1;
+
+  return (
+    <div className="container">
+      {/* 添加粒子背景 */}
+      <ParticleBackground />
+
+      {/* 页面标题 */}
+      <h1 className="title">
+        门限签名可视化系统
+      </h1>
+
+      {/* 返回主页按钮 */}
+      <div className="back-to-home">
+        <Link href="/" className="nav-button">
+          返回首页
+        </Link>
+      </div>
+
+      <div className="main-content threshold-page">
+        {/* 算法描述 */}
+        <motion.div
+          className="algorithm-description"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <p>
+            FROST（Flexible Round-Optimized Schnorr Threshold）让n个参与者共同持有一个secp256k1私钥：
+            分布式密钥生成后每人只有一个Shamir份额，完整私钥从未出现在任何地方。任意t个参与者经过两轮通信
+            （交换随机数承诺、提交部分签名）即可产生一个标准的BIP-340 Schnorr签名，验证者只需群公钥，
+            与验证单人签名完全相同。
+          </p>
+        </motion.div>
+
+        <div className="threshold-container">
+          {/* 操作面板 */}
+          <div className="control-panel">
+            <h2>操作面板</h2>
+
+            <div className="control-group">
+              <h3>步骤 1: 分布式密钥生成</h3>
+              <div className="parameter-inputs">
+                <label>
+                  参与者 n
+                  <input
+                    type="number"
+                    min={MIN_PARTICIPANTS}
+                    max={MAX_PARTICIPANTS}
+                    value={participantCount}
+                    onChange={(e) => {
+                      const count = Math.min(MAX_PARTICIPANTS, Math.max(MIN_PARTICIPANTS, Math.floor(Number(e.target.value) || MIN_PARTICIPANTS)));
+                      setParticipantCount(count);
+                      setThreshold(Math.min(threshold, count));
+                      resetAll();
+                    }}
+                  />
+                </label>
+                <label>
+                  门限 t
+                  <input
+                    type="number"
+                    min={2}
+                    max={participantCount}
+                    value={threshold}
+                    onChange={(e) => {
+                      setThreshold(Math.min(participantCount, Math.max(2, Math.floor(Number(e.target.value) || 2))));
+                      resetAll();
+                    }}
+                  />
+                </label>
+              </div>
+              <button
+                className="action-button"
+                onClick={generateKeys}
+                disabled={isLoading}
+              >
+                {isLoading && !dkg ? '生成中...' : '运行DKG'}
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 2: 选择签名者并交换承诺</h3>
+              <p className="hint">在右侧点击参与者以选中或取消，可以尝试少于门限的签名者。</p>
+              <textarea
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  resetSigning();
+                }}
+                placeholder="输入要签名的消息"
+                rows={2}
+              />
+              <button
+                className="action-button"
+                onClick={exchangeCommitments}
+                disabled={!dkg || signers.length === 0 || isLoading}
+              >
+                {signers.length}个签名者广播承诺
+              </button>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 3: 计算部分签名</h3>
+              <div className="button-row">
+                <button
+                  className="action-button"
+                  onClick={computeShares}
+                  disabled={!signingPackage || isLoading}
+                >
+                  计算部分签名
+                </button>
+                <button
+                  className="action-button tamper"
+                  onClick={tamperShare}
+                  disabled={!signatureShares || isLoading}
+                >
+                  篡改一个部分签名
+                </button>
+              </div>
+            </div>
+
+            <div className="control-group">
+              <h3>步骤 4: 聚合并验证</h3>
+              <button
+                className="action-button"
+                onClick={aggregateSignature}
+                disabled={!signatureShares || isLoading}
+              >
+                聚合签名并用Schnorr验证
+              </button>
+            </div>
+
+            {/* 状态信息 */}
+            {statusMessage && (
+              <div className={`status-message ${animation}`}>
+                {statusMessage}
+              </div>
+            )}
+
+            {/* 重置按钮 */}
+            <button
+              className="reset-button"
+              onClick={resetAll}
+              disabled={isLoading}
+            >
+              重置
+            </button>
+          </div>
+
+          {/* 可视化区域 */}
+          <div className="visualization-area-threshold">
+            <h2>可视化区域</h2>
+
+            {/* 参与者与验证者 */}
+            <div className="user-roles">
+              {Array.from({ length: participantCount }, (_, i) => i + 1).map(index => (
+                <div
+                  key={index}
+                  className={`participant ${signers.includes(index) ? 'signer' : ''} ${dkg ? 'clickable' : ''}`}
+                  onClick={() => toggleSigner(index)}
+                >
+                  <UserRole type="sender" position="left" label={`P${index}`} />
+                </div>
+              ))}
+              <UserRole type="receiver" position="right" label="验证者" />
+            </div>
+
+            {/* DKG：承诺、知识证明与份额验证 */}
+            {dkg && (
+              <motion.div
+                className="signature-comparison"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5 }}
+              >
+                <h3>分布式密钥生成（{dkg.threshold}-of-{dkg.keyShares.length}）</h3>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>参与者</th>
+                      <th>承诺 C_i0 = a_i0·G</th>
+                      <th>知识证明</th>
+                      <th>发出的份额 f_i(j) 均与承诺一致</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dkg.packages.map((pkg, i) => (
+                      <tr key={pkg.index}>
+                        <td>P{pkg.index}</td>
+                        <td><code>{truncateString(pointToHex(pkg.commitments[0]), 20)}</code></td>
+                        <td>{dkgChecks[i]?.proof ? '✓' : '✗'}</td>
+                        <td>{dkgChecks[i]?.shares.map(valid => valid ? '✓' : '✗').join(' ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="group-key">
+                  <strong>群公钥 Y = Σ C_i0（x-only）</strong>
+                  <code>{dkg.publicKey}</code>
+                </div>
+                <p className="comparison-note">
+                  每个参与者的私钥份额 s_j = Σ_i f_i(j) 由他人私下发来的份额相加得到，群私钥 s = Σ_i a_i0 没有任何人知道。
+                  Y的y坐标为奇数时，所有人把份额取相反数，使群公钥满足BIP-340的偶数y约定。
+                </p>
+              </motion.div>
+            )}
+
+            {/* 各签名者的状态 */}
+            {dkg && signers.length > 0 && (
+              <div className="signer-cards">
+                {signers.map(index => {
+                  const keyShare = dkg.keyShares[index - 1];
+                  const position = positionOf(index);
+                  const shareIndex = signatureShares?.findIndex(s => s.index === index) ?? -1;
+                  const share = shareIndex >= 0 ? signatureShares![shareIndex] : null;
+                  const shareValid = share ? shareChecks[shareIndex] : null;
+                  return (
+                    <div
+                      key={index}
+                      className={`signer-card ${shareValid === true ? 'valid' : ''} ${shareValid === false ? 'invalid' : ''}`}
+                    >
+                      <div className="signer-name">P{index}</div>
+                      <div className="field">Yᵢ = <code>{truncateString(pointToHex(keyShare.verificationShare), 16)}</code></div>
+                      {signingPackage && position >= 0 && (
+                        <>
+                          <div className="field">Dᵢ = <code>{truncateString(pointToHex(signingPackage.commitments[position].hiding), 16)}</code></div>
+                          <div className="field">Eᵢ = <code>{truncateString(pointToHex(signingPackage.commitments[position].binding), 16)}</code></div>
+                          <div className="field">ρᵢ = <code>{hex(signingPackage.bindingFactors[position])}</code></div>
+                          <div className="field">λᵢ = <code>{hex(signingPackage.lambdas[position])}</code></div>
+                        </>
+                      )}
+                      {share && (
+                        <div className="field">
+                          zᵢ = <code>{hex(share.z)}</code> {shareValid ? '✓' : '✗'}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* 签名上下文 */}
+            {signingPackage && (
+              <div className="signature-comparison">
+                <h3>签名上下文</h3>
+                <div className="formula">R = Σ (Dᵢ + ρᵢ·Eᵢ)，c = H(R.x || Y.x || m)</div>
+                <div className="field">R.x = <code>{signingPackage.groupCommitment.x.toString(16).padStart(64, '0')}</code></div>
+                <div className="field">c = <code>{signingPackage.challenge.toString(16)}</code></div>
+                <p className="comparison-note">
+                  {signingPackage.negateNonces
+                    ? 'R的y坐标为奇数，签名者都把随机数取相反数，等价于使用−R。'
+                    : 'R的y坐标为偶数，可以直接使用。'}
+                  部分签名 zᵢ = dᵢ + ρᵢ·eᵢ + λᵢ·sᵢ·c，聚合者检查 zᵢ·G = Dᵢ + ρᵢ·Eᵢ + c·λᵢ·Yᵢ。
+                  签名者少于{dkg?.threshold}人时，λᵢ无法插值出群私钥，签名者拒绝计算部分签名。
+                </p>
+              </div>
+            )}
+
+            {/* 聚合签名与验证结果 */}
+            <AnimatePresence>
+              {signature && verified !== null && (
+                <motion.div
+                  className={`result ${verified ? 'passed' : 'failed'}`}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  <h3>{verified ? '✓ 签名有效' : '✗ 签名无效'}</h3>
+                  <div className="formula">σ = R.x || z，z = Σ zᵢ mod n</div>
+                  <code>{signature}</code>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .threshold-page {
+          padding: 0 1rem;
+        }
+
+        .algorithm-description {
+          background: rgba(255, 255, 255, 0.8);
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 2rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);
+          font-size: 1rem;
+          color: #444;
+          line-height: 1.6;
+        }
+
+        .threshold-container {
+          display: flex;
+          gap: 2rem;
+          margin-top: 2rem;
+        }
+
+        .control-panel {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+        }
+
+        .visualization-area-threshold {
+          flex: 2;
+          background: rgba(255, 255, 255, 0.9);
+          padding: 1.5rem;
+          border-radius: 10px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+          min-height: 500px;
+        }
+
+        .control-group {
+          margin-bottom: 1.5rem;
+          padding-bottom: 1.5rem;
+          border-bottom: 1px solid #eee;
+        }
+
+        h2 {
+          margin-top: 0;
+          margin-bottom: 1.5rem;
+          color: #333;
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin-top: 0;
+          margin-bottom: 1rem;
+          color: #555;
+          font-size: 1.1rem;
+        }
+
+        textarea {
+          width: 100%;
+          padding: 0.6rem;
+          margin-bottom: 1rem;
+          border: 1px solid #ddd;
+          border-radius: 6px;
+          font-family: inherit;
+          resize: vertical;
+        }
+
+        .action-button {
+          padding: 0.8rem 1.5rem;
+          background: #4a90e2;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .action-button:hover:not(:disabled) {
+          background: #3a7bc8;
+        }
+
+        .action-button.tamper {
+          background: #e67e22;
+        }
+
+        .action-button.tamper:hover:not(:disabled) {
+          background: #d35400;
+        }
+
+        .action-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .button-row {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.8rem;
+        }
+
+        .reset-button {
+          padding: 0.8rem 1.5rem;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.2s;
+          margin-top: 1rem;
+        }
+
+        .reset-button:hover:not(:disabled) {
+          background: #c0392b;
+        }
+
+        .reset-button:disabled {
+          background: #cccccc;
+          cursor: not-allowed;
+        }
+
+        .parameter-inputs {
+          display: flex;
+          gap: 1rem;
+          margin-bottom: 1rem;
+        }
+
+        .parameter-inputs label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #555;
+          font-size: 0.9rem;
+        }
+
+        .parameter-inputs input {
+          width: 5rem;
+          padding: 0.4rem;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .hint {
+          color: #888;
+          font-size: 0.85rem;
+          margin: 0 0 0.8rem;
+        }
+
+        .status-message {
+          margin-top: 1rem;
+          padding: 0.8rem;
+          border-radius: 6px;
+          text-align: center;
+          font-weight: 500;
+          animation: fadeIn 0.5s;
+        }
+
+        .status-message.keys-generated,
+        .status-message.commitments,
+        .status-message.shares {
+          background-color: #e3f2fd;
+          color: #1565c0;
+        }
+
+        .status-message.verified {
+          background-color: #e8f5e9;
+          color: #2e7d32;
+        }
+
+        .status-message.invalid {
+          background-color: #ffebee;
+          color: #c62828;
+        }
+
+        .participant {
+          order: 1;
+          padding: 0.4rem;
+          border: 2px solid transparent;
+          border-radius: 8px;
+        }
+
+        .participant.clickable {
+          cursor: pointer;
+        }
+
+        .participant.signer {
+          background: #e3f2fd;
+          border-color: #4a90e2;
+        }
+
+        .group-key {
+          margin-top: 1rem;
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+        }
+
+        .signer-cards {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.8rem;
+          margin-top: 1.5rem;
+        }
+
+        .signer-card {
+          flex: 1;
+          min-width: 160px;
+          padding: 0.8rem;
+          background: #f9f9f9;
+          border: 2px solid transparent;
+          border-radius: 8px;
+        }
+
+        .signer-card.valid {
+          border-color: #4caf50;
+        }
+
+        .signer-card.invalid {
+          border-color: #e57373;
+          background: #ffebee;
+        }
+
+        .signer-name {
+          font-weight: 600;
+          color: #333;
+          margin-bottom: 0.4rem;
+        }
+
+        .field {
+          font-size: 0.85rem;
+          color: #555;
+          margin-bottom: 0.2rem;
+        }
+
+        .formula {
+          font-family: 'Times New Roman', serif;
+          font-style: italic;
+          margin-bottom: 0.4rem;
+        }
+
+        code {
+          font-family: monospace;
+          font-size: 0.8rem;
+          color: #555;
+          word-break: break-all;
+        }
+
+        .result {
+          margin-top: 2rem;
+          padding: 1rem;
+          border-radius: 8px;
+        }
+
+        .result.passed {
+          background: #e8f5e9;
+          border-left: 4px solid #4caf50;
+        }
+
+        .result.failed {
+          background: #ffebee;
+          border-left: 4px solid #e57373;
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        @media (max-width: 1024px) {
+          .threshold-container {
+            flex-direction: column;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}